@@ -38,6 +38,19 @@ const AuthConfigSchema = z.object({
   expiresAt: z.number().optional(),
 });
 
+const RegistryConfigSchema = z.object({
+  url: z.string(),
+  headers: z.record(z.string(), z.string()).optional(),
+  priority: z.number().optional(),
+});
+
+const SecurityConfigSchema = z.object({
+  trustedKeys: z.array(z.object({
+    id: z.string(),
+    publicKey: z.string(),
+  })).optional(),
+});
+
 const CLIConfigSchema = z.object({
   version: z.string(),
   project: ProjectConfigSchema.optional(),
@@ -45,6 +58,9 @@ const CLIConfigSchema = z.object({
   preferences: PreferencesConfigSchema.optional(),
   team: TeamConfigSchema.optional(),
   auth: AuthConfigSchema.optional(),
+  security: SecurityConfigSchema.optional(),
+  registry: RegistryConfigSchema.optional(),
+  registries: z.record(z.string(), z.union([z.string(), RegistryConfigSchema])).optional(),
 });
 
 export class ConfigManager {
@@ -76,6 +76,11 @@ export const ErrorCodes = {
   COMPONENT_NOT_FOUND: 'COMPONENT_NOT_FOUND',
   COMPONENT_EXISTS: 'COMPONENT_EXISTS',
   COMPONENT_INVALID: 'COMPONENT_INVALID',
+  COMPONENT_UNVERIFIED: 'COMPONENT_UNVERIFIED',
+  
+  // Registry
+  REGISTRY_INVALID: 'REGISTRY_INVALID',
+  REGISTRY_UNKNOWN: 'REGISTRY_UNKNOWN',
   
   // Project
   PROJECT_NOT_FOUND: 'PROJECT_NOT_FOUND',
@@ -91,6 +96,7 @@ export const ErrorCodes = {
   FILE_NOT_FOUND: 'FILE_NOT_FOUND',
   FILE_EXISTS: 'FILE_EXISTS',
   PERMISSION_DENIED: 'PERMISSION_DENIED',
+  FILE_OUTSIDE_PROJECT: 'FILE_OUTSIDE_PROJECT',
   
   // Dependencies
   DEPENDENCY_ERROR: 'DEPENDENCY_ERROR',
@@ -145,6 +151,28 @@ export const errors = {
       details: reason,
       suggestion: 'Check the component name and try again',
     }),
+    
+    unverified: (name: string, problems: string[]) => new CLIError({
+      code: ErrorCodes.COMPONENT_UNVERIFIED,
+      message: `Refusing to install "${name}": its files could not be verified`,
+      details: problems,
+      suggestion: 'Check the registry and the trusted keys in your config, or pass --allow-unverified to install anyway',
+    }),
+  },
+  
+  registry: {
+    invalid: (problems: string[]) => new CLIError({
+      code: ErrorCodes.REGISTRY_INVALID,
+      message: `Cannot build registry: ${problems.length} problem${problems.length === 1 ? '' : 's'}`,
+      details: problems,
+      suggestion: 'Fix the components or their registry.json metadata and build again',
+    }),
+    
+    unknown: (name: string) => new CLIError({
+      code: ErrorCodes.REGISTRY_UNKNOWN,
+      message: `Unknown registry: ${name}`,
+      suggestion: `Add "${name}" under "registries" in components.json or your config`,
+    }),
   },
   
   config: {
@@ -236,6 +264,12 @@ export const errors = {
       message: `Permission denied: ${path}`,
       suggestion: 'Check file permissions or run with appropriate privileges',
     }),
+
+    outsideProject: (path: string) => new CLIError({
+      code: ErrorCodes.FILE_OUTSIDE_PROJECT,
+      message: `Refusing to write outside the project: ${path}`,
+      suggestion: 'Check the file paths the registry lists for this component',
+    }),
   },
   
   dependency: {
@@ -2,4 +2,9 @@ export * from './component-registry.js';
 export * from './registry-client.js';
 export * from './registry-cache.js';
 export * from './registry-sync.js';
-export * from './real-registry-client.js';
\ No newline at end of file
+export * from './real-registry-client.js';
+export * from './lockfile.js';
+export * from './static-registry.js';
+export * from './registry-builder.js';
+export * from './integrity.js';
+export * from './named-registries.js';
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto';
+
+/**
+ * Per-file SHA-256 digests published with a component, and optionally an
+ * ed25519 signature over them. Installs check both before writing anything.
+ */
+export interface ComponentIntegrity {
+  // File path to `sha256-<base64>` digest
+  files: Record<string, string>;
+  signature?: {
+    keyId: string;
+    // Base64 ed25519 signature of integrityPayload()
+    value: string;
+  };
+}
+
+export interface TrustedKey {
+  id: string;
+  // PEM, or base64 of the DER-encoded SPKI public key
+  publicKey: string;
+}
+
+export interface SigningKey {
+  id: string;
+  // PEM-encoded PKCS#8 private key, as `openssl genpkey -algorithm ed25519` writes it
+  privateKey: string;
+}
+
+// What a component pulls in beside its files, which a signature also covers
+export interface IntegrityDependencies {
+  dependencies?: Record<string, unknown>;
+  registryDependencies?: string[];
+}
+
+export interface IntegrityResult {
+  // Problems that make the files untrustworthy; empty when they check out
+  problems: string[];
+  // Trusted key that signed the files
+  signedBy?: string;
+}
+
+// Version of components that don't state one, as the component schema defaults it
+export const DEFAULT_COMPONENT_VERSION = '1.0.0';
+
+/**
+ * The version a component's integrity is signed and verified under. Builders,
+ * installers and verifiers all read it through here so they can't disagree.
+ */
+export function componentVersion(component: { meta?: { version?: string } }): string {
+  return component.meta?.version ?? DEFAULT_COMPONENT_VERSION;
+}
+
+export function hashContent(content: string | Buffer): string {
+  return `sha256-${createHash('sha256').update(content).digest('base64')}`;
+}
+
+/**
+ * What a signature covers: the component, its version, every file's digest
+ * and what it depends on, serialized the same way wherever it is built.
+ * Dependencies are left out when there are none, so signatures made before
+ * they were covered still verify for components without any.
+ */
+export function integrityPayload(
+  name: string,
+  version: string,
+  files: Record<string, string>,
+  requires: IntegrityDependencies = {}
+): string {
+  const sorted = Object.keys(files).sort().map(path => [path, files[path]]);
+  const dependencies = Object.entries(requires.dependencies ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  const registryDependencies = [...(requires.registryDependencies ?? [])].sort();
+  return JSON.stringify({
+    name,
+    version,
+    files: sorted,
+    ...(dependencies.length ? { dependencies } : {}),
+    ...(registryDependencies.length ? { registryDependencies } : {})
+  });
+}
+
+export function createIntegrity(
+  name: string,
+  version: string,
+  files: Array<{ path: string; content: string | Buffer }>,
+  signingKey?: SigningKey,
+  requires: IntegrityDependencies = {}
+): ComponentIntegrity {
+  const digests = Object.fromEntries(files.map(file => [file.path, hashContent(file.content)]));
+  if (!signingKey) {
+    return { files: digests };
+  }
+
+  const payload = Buffer.from(integrityPayload(name, version, digests, requires));
+  const value = sign(null, payload, createPrivateKey(signingKey.privateKey)).toString('base64');
+  return { files: digests, signature: { keyId: signingKey.id, value } };
+}
+
+/**
+ * Checks files against the digests published with them. With trusted keys
+ * configured, the digests must also be signed by one of them, so a registry
+ * can't swap both the files and their digests.
+ */
+export function verifyIntegrity(
+  name: string,
+  version: string,
+  files: Array<{ path: string; content: string | Buffer }>,
+  integrity: ComponentIntegrity | undefined,
+  trustedKeys: TrustedKey[] = [],
+  requires: IntegrityDependencies = {}
+): IntegrityResult {
+  if (!integrity) {
+    return { problems: ['no file digests were published'] };
+  }
+
+  const problems: string[] = [];
+  for (const file of files) {
+    const digest = integrity.files[file.path];
+    if (!digest) {
+      problems.push(`${file.path} has no published digest`);
+    } else if (digest !== hashContent(file.content)) {
+      problems.push(`${file.path} does not match its published digest`);
+    }
+  }
+
+  if (trustedKeys.length === 0) {
+    return { problems };
+  }
+
+  const { signature } = integrity;
+  const key = signature && trustedKeys.find(trusted => trusted.id === signature.keyId);
+  if (!signature) {
+    problems.push('it is not signed');
+  } else if (!key) {
+    problems.push(`it is signed by "${signature.keyId}", which is not a trusted key`);
+  } else if (!verify(null, Buffer.from(integrityPayload(name, version, integrity.files, requires)), publicKey(key), Buffer.from(signature.value, 'base64'))) {
+    problems.push(`its signature does not match "${key.id}"`);
+  }
+
+  return { problems, signedBy: problems.length === 0 ? key?.id : undefined };
+}
+
+function publicKey(key: TrustedKey): KeyObject {
+  return key.publicKey.includes('-----BEGIN')
+    ? createPublicKey(key.publicKey)
+    : createPublicKey({ key: Buffer.from(key.publicKey, 'base64'), format: 'der', type: 'spki' });
+}
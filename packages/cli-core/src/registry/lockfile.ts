@@ -0,0 +1,115 @@
+import path from 'path';
+import { readFile, writeFile, readJson, writeJson, fileExists } from '../utils/fs.js';
+import { errors } from '../errors/index.js';
+import { hashContent } from './integrity.js';
+
+export const LOCKFILE_NAME = 'components.lock.json';
+
+// Files as they were added, the common base `rui update` merges against
+const BASE_DIR = path.join('.rui', 'base');
+
+export interface LockedFile {
+  // Relative to the project root, with forward slashes
+  path: string;
+  hash: string;
+}
+
+export interface LockedComponent {
+  version: string;
+  registry: string;
+  // Directory the registry's file paths were added under
+  path: string;
+  files: LockedFile[];
+}
+
+export interface Lockfile {
+  lockfileVersion: 1;
+  components: Record<string, LockedComponent>;
+}
+
+export interface LockComponentOptions {
+  version: string;
+  registry: string;
+  path: string;
+  // Where each file was written, and its content
+  files: Array<{ path: string; content: string }>;
+}
+
+/**
+ * A file's path relative to the project. Registry file paths are not
+ * trusted, so one that resolves outside the project is refused.
+ */
+export function lockedPath(cwd: string, filePath: string): string {
+  const relative = path.relative(cwd, path.resolve(cwd, filePath));
+  if (relative.split(path.sep)[0] === '..' || path.isAbsolute(relative)) {
+    throw errors.file.outsideProject(filePath);
+  }
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * Reads the project's lockfile, or an empty one when components were never added
+ */
+export async function readLockfile(cwd: string): Promise<Lockfile> {
+  const lockPath = path.join(cwd, LOCKFILE_NAME);
+  if (!await fileExists(lockPath)) {
+    return { lockfileVersion: 1, components: {} };
+  }
+  return readJson<Lockfile>(lockPath);
+}
+
+export async function writeLockfile(cwd: string, lockfile: Lockfile): Promise<void> {
+  // Sorted so adding components in another order gives the same file
+  const components = Object.fromEntries(
+    Object.keys(lockfile.components).sort().map(name => [name, lockfile.components[name]])
+  );
+  await writeJson(path.join(cwd, LOCKFILE_NAME), { ...lockfile, components });
+}
+
+/**
+ * The content a locked file had when it was added or last updated, or null
+ * when there is no copy of it
+ */
+export async function readBaseFile(cwd: string, filePath: string): Promise<string | null> {
+  const basePath = path.join(cwd, BASE_DIR, lockedPath(cwd, filePath));
+  return await fileExists(basePath) ? readFile(basePath) : null;
+}
+
+/**
+ * Records a component's files in the lockfile and keeps a copy of each as
+ * the base of later updates. The caller writes the lockfile.
+ */
+export async function lockComponent(
+  cwd: string,
+  lockfile: Lockfile,
+  name: string,
+  options: LockComponentOptions
+): Promise<void> {
+  const files: LockedFile[] = [];
+  for (const file of options.files) {
+    const filePath = lockedPath(cwd, file.path);
+    await writeFile(path.join(cwd, BASE_DIR, filePath), file.content);
+    files.push({ path: filePath, hash: hashContent(file.content) });
+  }
+
+  lockfile.components[name] = {
+    version: options.version,
+    registry: options.registry,
+    path: options.path,
+    files
+  };
+}
+
+/**
+ * Locked files whose content no longer matches the hash they were added with
+ */
+export async function modifiedFiles(cwd: string, component: LockedComponent): Promise<string[]> {
+  const modified: string[] = [];
+  for (const file of component.files) {
+    const filePath = path.join(cwd, lockedPath(cwd, file.path));
+    if (await fileExists(filePath) && hashContent(await readFile(filePath)) !== file.hash) {
+      modified.push(file.path);
+    }
+  }
+  return modified;
+}
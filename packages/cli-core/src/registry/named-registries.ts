@@ -0,0 +1,196 @@
+import { parallel } from '../utils/parallel.js';
+import { createLogger } from '../utils/logger.js';
+import { errors } from '../errors/index.js';
+import type { RegistryConfig } from '../types/index.js';
+import type { ComponentSchema, RegistryIndex } from '../schemas/component-schema.js';
+import { fetchRegistryIndex, fetchRegistryComponent, type StaticRegistryOptions } from './static-registry.js';
+
+/**
+ * Several static registries used side by side. Each but the default one has
+ * a scope, and `@acme/data-table` names a component of `@acme`. Unscoped
+ * names resolve by priority, and a component's unscoped registryDependencies
+ * prefer the registry it came from.
+ */
+
+export interface NamedRegistry {
+  // Its scope, or DEFAULT_REGISTRY
+  name: string;
+  url: string;
+  headers: Record<string, string>;
+  priority: number;
+}
+
+export const DEFAULT_REGISTRY = 'default';
+
+const SCOPED_NAME = /^(@[a-z0-9][a-z0-9._-]*)\/(.+)$/i;
+
+const logger = createLogger();
+
+export function parseComponentName(name: string): { registry?: string; name: string } {
+  const match = SCOPED_NAME.exec(name);
+  return match ? { registry: match[1], name: match[2] } : { name };
+}
+
+// Components of the default registry keep their plain name
+export function qualifiedName(registry: string, name: string): string {
+  return registry === DEFAULT_REGISTRY ? name : `${registry}/${name}`;
+}
+
+/**
+ * The default registry and the named ones, in the order unscoped names are
+ * looked up: highest priority first, then as configured
+ */
+export function resolveRegistries(
+  defaultRegistry: string | RegistryConfig,
+  registries: Record<string, string | RegistryConfig> = {}
+): NamedRegistry[] {
+  const entries = [[DEFAULT_REGISTRY, defaultRegistry] as const, ...Object.entries(registries)];
+
+  return entries
+    .map(([name, entry]) => {
+      if (name !== DEFAULT_REGISTRY && !SCOPED_NAME.test(`${name}/component`)) {
+        throw errors.config.invalid(`Registry names are scopes like "@acme", not "${name}"`);
+      }
+
+      const config = typeof entry === 'string' ? { url: entry } : entry;
+      const headers = Object.fromEntries(
+        Object.entries(config.headers ?? {}).map(([header, value]) => [header, expandEnv(value, `${name} header ${header}`)])
+      );
+      return { name, url: expandEnv(config.url, `${name} url`), headers, priority: config.priority ?? 0 };
+    })
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * The registry a component key names: its scope, or the default registry
+ */
+export function registryFor(name: string, registries: NamedRegistry[]): NamedRegistry {
+  const scope = parseComponentName(name).registry ?? DEFAULT_REGISTRY;
+  const registry = registries.find(candidate => candidate.name === scope);
+  if (!registry) {
+    throw errors.registry.unknown(scope);
+  }
+  return registry;
+}
+
+/**
+ * Every registry's index, fetched concurrently and keyed by registry name.
+ * Registries that can't be read are skipped with a warning, as in search,
+ * so one being down doesn't block components from the others.
+ */
+export async function fetchRegistryIndexes(
+  registries: NamedRegistry[],
+  options: StaticRegistryOptions = {}
+): Promise<Map<string, RegistryIndex>> {
+  const result = await parallel(
+    registries,
+    async registry => [registry.name, await fetchRegistryIndex(registry.url, { ...options, headers: registry.headers })] as const,
+    { concurrency: options.concurrency ?? 8 }
+  );
+  for (const { index, error } of result.errors) {
+    logger.warn(`Skipped registry ${registries[index].name}: ${error.message}`);
+  }
+  // Results of skipped registries are holes
+  return new Map(result.results.filter(Boolean));
+}
+
+/**
+ * Where a name resolves: its scope when it has one, otherwise the first
+ * registry listing it, trying `from` first. Undefined when no index lists an
+ * unscoped name.
+ */
+export function findComponent(
+  name: string,
+  registries: NamedRegistry[],
+  indexes: Map<string, RegistryIndex>,
+  from?: NamedRegistry
+): { registry: NamedRegistry; name: string } | undefined {
+  const parsed = parseComponentName(name);
+  if (parsed.registry) {
+    return { registry: registryFor(name, registries), name: parsed.name };
+  }
+
+  const candidates = from ? [from, ...registries.filter(registry => registry !== from)] : registries;
+  const registry = candidates.find(candidate =>
+    indexes.get(candidate.name)?.components.some(entry => entry.name === name)
+  );
+  return registry && { registry, name };
+}
+
+export interface FetchComponentsOptions extends StaticRegistryOptions {
+  // Called with each component as published, before its registryDependencies are rewritten
+  onFetched?: (component: ComponentSchema) => void;
+}
+
+/**
+ * Fetches components and their registryDependencies across registries,
+ * concurrently. Results are keyed by qualified name, and their
+ * registryDependencies are rewritten to the qualified names they resolved to.
+ */
+export async function fetchComponentsFromRegistries(
+  registries: NamedRegistry[],
+  names: string[],
+  indexes: Map<string, RegistryIndex>,
+  options: FetchComponentsOptions = {}
+): Promise<Map<string, ComponentSchema>> {
+  const resolved = new Map<string, ComponentSchema>();
+  const requested = new Set<string>();
+
+  // Dependencies no index lists are looked for where they were named
+  const resolve = (name: string, from?: NamedRegistry) => {
+    const found = findComponent(name, registries, indexes, from)
+      ?? { registry: from ?? registryFor(name, registries), name };
+    return { ...found, key: qualifiedName(found.registry.name, found.name) };
+  };
+
+  const closure = (start: Array<ReturnType<typeof resolve>>) => {
+    const queue = start.filter(item => !requested.has(item.key));
+    queue.forEach(item => requested.add(item.key));
+    for (let i = 0; i < queue.length; i++) {
+      const entry = indexes.get(queue[i].registry.name)?.components.find(component => component.name === queue[i].name);
+      for (const dependency of entry?.registryDependencies ?? []) {
+        const next = resolve(dependency, queue[i].registry);
+        if (!requested.has(next.key)) {
+          requested.add(next.key);
+          queue.push(next);
+        }
+      }
+    }
+    return queue;
+  };
+
+  let pending = closure(names.map(name => resolve(name)));
+  while (pending.length > 0) {
+    const result = await parallel(
+      pending,
+      async item => {
+        const component = await fetchRegistryComponent(item.registry.url, item.name, { ...options, headers: item.registry.headers });
+        options.onFetched?.(component);
+        const dependencies = component.registryDependencies.map(dependency => resolve(dependency, item.registry));
+        return { key: item.key, component, dependencies };
+      },
+      { concurrency: options.concurrency ?? 8 }
+    );
+    if (result.errors.length > 0) {
+      throw result.errors[0].error;
+    }
+
+    for (const { key, component, dependencies } of result.results) {
+      resolved.set(key, { ...component, registryDependencies: dependencies.map(dependency => dependency.key) });
+    }
+    pending = closure(result.results.flatMap(item => item.dependencies));
+  }
+
+  return resolved;
+}
+
+// `${VAR}` from the environment; a variable that isn't set is a config error
+function expandEnv(value: string, where: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, variable: string) => {
+    const expanded = process.env[variable];
+    if (expanded === undefined) {
+      throw errors.config.invalid(`Registry ${where} uses \${${variable}}, which is not set`);
+    }
+    return expanded;
+  });
+}
@@ -0,0 +1,260 @@
+import path from 'path';
+import { builtinModules } from 'module';
+import { readFile, readJson, writeJson, fileExists, findFiles } from '../utils/fs.js';
+import {
+  ComponentSchema,
+  type ComponentFile,
+  type RegistryIndex
+} from '../schemas/component-schema.js';
+import { REGISTRY_INDEX_FILE, registryComponentFile } from './static-registry.js';
+import { createIntegrity, componentVersion, DEFAULT_COMPONENT_VERSION, type SigningKey } from './integrity.js';
+import { parseComponentName } from './named-registries.js';
+
+export interface RegistryBuildOptions {
+  // Each file or directory at its top level is a component
+  source: string;
+  // Version of the registry, and of components whose metadata has none
+  version?: string;
+  // Where dependency versions are read; defaults to the nearest package.json
+  packageJson?: string;
+  // Signs each component's file digests, for installs that check publishers
+  signingKey?: SigningKey;
+}
+
+export interface RegistryBuildResult {
+  index: RegistryIndex;
+  components: ComponentSchema[];
+  // One per invalid field or unknown dependency, prefixed with the component
+  problems: string[];
+}
+
+// Metadata merged over what is inferred: `registry.json` in a component's
+// directory, or `<name>.registry.json` next to a single-file component
+const METADATA_FILE = 'registry.json';
+
+const SOURCE_FILES = '**/*.{ts,tsx,js,jsx,mjs,vue,svelte,css,scss}';
+const RESOLVE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.vue', '.svelte', '.css', '.scss'];
+const IMPORT_PATTERNS = [
+  /\b(?:import|export)\s[^'"]*?\bfrom\s*['"]([^'"]+)['"]/g,
+  /\bimport\s*\(?\s*['"]([^'"]+)['"]/g,
+  /\brequire\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /@import\s+(?:url\()?['"]([^'"]+)['"]/g,
+];
+
+interface SourceComponent {
+  name: string;
+  files: string[];
+  metadata?: string;
+}
+
+/**
+ * Reads a directory of components into a static registry. Files, npm
+ * dependencies and dependencies on other components of the directory are
+ * inferred from imports; metadata files fill in the rest.
+ */
+export async function buildRegistry(options: RegistryBuildOptions): Promise<RegistryBuildResult> {
+  const source = path.resolve(options.source);
+  const version = options.version ?? DEFAULT_COMPONENT_VERSION;
+  const ranges = await dependencyRanges(options.packageJson ?? await nearestPackageJson(source));
+  const sources = await findComponents(source);
+  const names = new Set(sources.map(component => component.name));
+
+  const components: ComponentSchema[] = [];
+  const problems: string[] = [];
+
+  for (const component of sources) {
+    const files: ComponentFile[] = [];
+    const dependencies = new Set<string>();
+    const devDependencies = new Set<string>();
+    const registryDependencies = new Set<string>();
+
+    for (const file of component.files) {
+      const content = await readFile(path.join(source, file));
+      const type = fileType(file);
+      files.push({ path: file, content, type });
+
+      for (const specifier of importsOf(content)) {
+        const dependency = await resolveImport(source, file, specifier, names);
+        if (dependency?.component && dependency.component !== component.name) {
+          registryDependencies.add(dependency.component);
+        } else if (dependency?.package) {
+          (type === 'test' || type === 'story' ? devDependencies : dependencies).add(dependency.package);
+        }
+      }
+    }
+
+    const metadata = component.metadata ? await readJson(path.join(source, component.metadata)) : {};
+    const main = files.find(file => mainFile(component.name, file.path)) ?? files[0];
+    const result = ComponentSchema.safeParse({
+      name: component.name,
+      description: main && leadingComment(main.content) || `${component.name} component`,
+      files,
+      dependencies: versions(dependencies, ranges),
+      devDependencies: versions([...devDependencies].filter(name => !dependencies.has(name)), ranges),
+      registryDependencies: [...registryDependencies].sort(),
+      ...metadata,
+      // Always written, so the signed version is the one installs read
+      meta: { ...metadata.meta, version: metadata.meta?.version ?? version },
+    });
+
+    if (!result.success) {
+      problems.push(...result.error.issues.map(issue => `${component.name}: ${issue.path.join('.') || 'component'} ${issue.message}`));
+      continue;
+    }
+
+    const { data } = result;
+    data.integrity = createIntegrity(data.name, componentVersion(data), data.files, options.signingKey, data);
+
+    // Scoped dependencies are on other registries
+    for (const dependency of data.registryDependencies) {
+      if (!parseComponentName(dependency).registry && !names.has(dependency)) {
+        problems.push(`${component.name}: registryDependencies has "${dependency}", which is not in ${options.source}`);
+      }
+    }
+    components.push(data);
+  }
+
+  const index: RegistryIndex = {
+    version,
+    components: components.map(component => ({
+      name: component.name,
+      type: component.type,
+      description: component.description,
+      files: component.files.map(file => file.path),
+      dependencies: Object.keys(component.dependencies),
+      registryDependencies: component.registryDependencies,
+      tags: component.meta?.tags,
+    })),
+  };
+
+  return { index, components, problems };
+}
+
+/**
+ * Writes a built registry as static files, ready to serve or read with a
+ * file:// URL
+ */
+export async function writeRegistry(output: string, result: RegistryBuildResult): Promise<void> {
+  await writeJson(path.join(output, REGISTRY_INDEX_FILE), result.index);
+  for (const component of result.components) {
+    await writeJson(path.join(output, registryComponentFile(component.name)), component);
+  }
+}
+
+async function findComponents(source: string): Promise<SourceComponent[]> {
+  const files = await findFiles(`{${SOURCE_FILES},**/${METADATA_FILE},*.${METADATA_FILE}}`, {
+    cwd: source,
+    nodir: true,
+    dot: false,
+    posix: true,
+    ignore: ['**/node_modules/**'],
+  });
+
+  const components = new Map<string, SourceComponent>();
+  for (const file of files.sort()) {
+    // `button.tsx`, `button.test.tsx` and `button/` are all `button`
+    const [entry] = file.split('/');
+    const name = file.includes('/') ? entry : entry.split('.')[0];
+    const component = components.get(name) ?? { name, files: [] };
+    components.set(name, component);
+
+    if (file === `${name}.${METADATA_FILE}` || file === `${name}/${METADATA_FILE}`) {
+      component.metadata = file;
+    } else {
+      component.files.push(file);
+    }
+  }
+
+  return [...components.values()].filter(component => component.files.length > 0);
+}
+
+function fileType(file: string): ComponentFile['type'] {
+  const name = path.posix.basename(file);
+  if (/\.(test|spec)\.[^.]+$/.test(name)) return 'test';
+  if (/\.stories\.[^.]+$/.test(name)) return 'story';
+  if (/\.s?css$/.test(name)) return 'style';
+  if (/\.d\.ts$/.test(name) || /^types?\.[^.]+$/.test(name)) return 'types';
+  if (/^(utils?|helpers?|lib)\.[^.]+$/.test(name) || /(^|\/)utils\//.test(file)) return 'utils';
+  return 'component';
+}
+
+function mainFile(name: string, file: string): boolean {
+  // Directory names may hold characters special in a pattern, like `c++`
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^(${escaped}/)?(${escaped}|index)\\.[jt]sx?$|^${escaped}/${escaped}\\.(vue|svelte)$`).test(file);
+}
+
+function importsOf(content: string): string[] {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) specifiers.add(match[1]);
+  }
+  return [...specifiers];
+}
+
+/**
+ * The component or npm package an import refers to. Relative imports and
+ * `@/` or `~/` aliases are components of the directory; anything else that
+ * isn't a Node built-in is a package.
+ */
+async function resolveImport(
+  source: string,
+  file: string,
+  specifier: string,
+  names: Set<string>
+): Promise<{ component?: string; package?: string } | null> {
+  if (specifier.startsWith('.')) {
+    const target = path.resolve(source, path.dirname(file), specifier);
+    for (const extension of [...RESOLVE_EXTENSIONS, ...RESOLVE_EXTENSIONS.slice(1).map(ext => `/index${ext}`)]) {
+      if (await fileExists(target + extension)) {
+        const relative = path.relative(source, target + extension).split(path.sep);
+        if (relative[0] === '..') return null;
+        const name = relative.length > 1 ? relative[0] : relative[0].split('.')[0];
+        return names.has(name) ? { component: name } : null;
+      }
+    }
+    return null;
+  }
+
+  if (/^[@~]\//.test(specifier)) {
+    const segments = specifier.split('/').slice(1).reverse().map(segment => segment.split('.')[0]);
+    const name = segments.find(segment => names.has(segment));
+    return name ? { component: name } : null;
+  }
+
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  if (specifier.startsWith('node:') || builtinModules.includes(name)) return null;
+  return { package: name };
+}
+
+async function nearestPackageJson(directory: string): Promise<string | undefined> {
+  for (let current = directory; ; current = path.dirname(current)) {
+    const candidate = path.join(current, 'package.json');
+    if (await fileExists(candidate)) return candidate;
+    if (path.dirname(current) === current) return undefined;
+  }
+}
+
+async function dependencyRanges(packageJson: string | undefined): Promise<Record<string, string>> {
+  if (!packageJson) return {};
+  const pkg = await readJson(packageJson);
+  return { ...pkg.devDependencies, ...pkg.peerDependencies, ...pkg.dependencies };
+}
+
+function versions(names: Iterable<string>, ranges: Record<string, string>): Record<string, string> {
+  return Object.fromEntries([...names].sort().map(name => [name, ranges[name] ?? 'latest']));
+}
+
+// The first paragraph of a file's leading doc comment
+function leadingComment(content: string): string | undefined {
+  const match = /^\s*(?:['"]use client['"];?\s*)?\/\*\*([\s\S]*?)\*\//.exec(content);
+  const text = match?.[1]
+    .split('\n')
+    .map(line => line.replace(/^\s*\*\s?/, '').trim())
+    .join('\n')
+    .trim()
+    .split(/\n\s*\n|\n@/)[0]
+    .replace(/\s+/g, ' ');
+  return text || undefined;
+}
@@ -92,6 +92,31 @@ export class RegistryCache {
     }
   }
 
+  /**
+   * Get an entry with its ETag even once it has expired, so it can be
+   * revalidated, or used while the registry can't be reached
+   */
+  async getEntry<T = any>(key: string): Promise<CacheEntry<T> | null> {
+    const memEntry = this.memoryCache.get(key);
+    if (memEntry) {
+      return memEntry;
+    }
+
+    const filePath = this.getFilePath(key);
+    if (!await fileExists(filePath)) {
+      return null;
+    }
+
+    try {
+      const entry = await readJson(filePath) as CacheEntry<T>;
+      this.memoryCache.set(key, entry);
+      return entry;
+    } catch (error) {
+      this.logger.debug(`Failed to read cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Set item in cache
    */
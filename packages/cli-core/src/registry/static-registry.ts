@@ -0,0 +1,147 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readJson, fileExists } from '../utils/fs.js';
+import { httpClient } from '../utils/http-client.js';
+import { parallel } from '../utils/parallel.js';
+import { createLogger } from '../utils/logger.js';
+import { errors, ErrorCodes, CLIError } from '../errors/index.js';
+import type { RegistryCache } from './registry-cache.js';
+import {
+  RegistryIndexSchema,
+  validateComponentSchema,
+  type ComponentSchema,
+  type RegistryIndex
+} from '../schemas/component-schema.js';
+
+/**
+ * A static registry is a directory of JSON files any file server can host:
+ *
+ *   index.json              every component, without file contents
+ *   components/<name>.json  one component with its files
+ *
+ * `file://` URLs read one straight off disk.
+ */
+
+export interface StaticRegistryOptions {
+  // Keeps fetched files with their ETags, to revalidate and to use offline
+  cache?: RegistryCache;
+  // Components fetched at once
+  concurrency?: number;
+  // Sent with every request, e.g. for auth
+  headers?: Record<string, string>;
+}
+
+export const REGISTRY_INDEX_FILE = 'index.json';
+
+// Cached files are revalidated on every read; this only bounds offline use
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+// Errors that mean the registry can't be reached rather than that it refused
+const OFFLINE_ERRORS: string[] = [ErrorCodes.NETWORK_ERROR, ErrorCodes.TIMEOUT];
+
+const logger = createLogger();
+
+export function registryComponentFile(name: string): string {
+  return `components/${name}.json`;
+}
+
+/**
+ * Reads a file of the registry at a URL, or of a local one at a file:// URL.
+ * With a cache, a copy the server confirms unchanged is reused, and the last
+ * copy is used when the server can't be reached.
+ */
+export async function readRegistryFile<T = unknown>(
+  registryUrl: string,
+  file: string,
+  options: StaticRegistryOptions = {}
+): Promise<T> {
+  if (registryUrl.startsWith('file://')) {
+    const filePath = path.join(fileURLToPath(registryUrl), file);
+    if (!await fileExists(filePath)) {
+      throw errors.file.notFound(filePath);
+    }
+    return readJson<T>(filePath);
+  }
+
+  const url = `${registryUrl.replace(/\/+$/, '')}/${file}`;
+  const key = `registry:${url}`;
+  const cached = await options.cache?.getEntry<T>(key);
+
+  try {
+    const response = await httpClient.get<T>(url, {
+      headers: { ...options.headers, ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}) },
+      validateStatus: status => status === 200 || (status === 304 && !!cached),
+    });
+    const data = response.status === 304 ? cached!.data : response.data;
+    await options.cache?.set(key, data, { ttl: CACHE_TTL, etag: response.headers.etag ?? cached?.etag });
+    return data;
+  } catch (error) {
+    if (cached && error instanceof CLIError && OFFLINE_ERRORS.includes(error.code)) {
+      logger.debug(`Registry unreachable, using cached ${url}`);
+      return cached.data;
+    }
+    throw error;
+  }
+}
+
+export async function fetchRegistryIndex(
+  registryUrl: string,
+  options: StaticRegistryOptions = {}
+): Promise<RegistryIndex> {
+  return RegistryIndexSchema.parse(await readRegistryFile(registryUrl, REGISTRY_INDEX_FILE, options));
+}
+
+export async function fetchRegistryComponent(
+  registryUrl: string,
+  name: string,
+  options: StaticRegistryOptions = {}
+): Promise<ComponentSchema> {
+  return validateComponentSchema(await readRegistryFile(registryUrl, registryComponentFile(name), options));
+}
+
+/**
+ * Fetches components and everything they need through registryDependencies,
+ * concurrently. The index gives most dependencies up front; ones it doesn't
+ * list are fetched once the components naming them arrive.
+ */
+export async function fetchRegistryComponents(
+  registryUrl: string,
+  names: string[],
+  index: RegistryIndex,
+  options: StaticRegistryOptions = {}
+): Promise<Map<string, ComponentSchema>> {
+  const entries = new Map(index.components.map(entry => [entry.name, entry]));
+  const resolved = new Map<string, ComponentSchema>();
+  const requested = new Set<string>();
+
+  const closure = (start: string[]) => {
+    const queue = [...new Set(start)].filter(name => !requested.has(name));
+    queue.forEach(name => requested.add(name));
+    for (let i = 0; i < queue.length; i++) {
+      for (const dependency of entries.get(queue[i])?.registryDependencies ?? []) {
+        if (!requested.has(dependency)) {
+          requested.add(dependency);
+          queue.push(dependency);
+        }
+      }
+    }
+    return queue;
+  };
+
+  let pending = closure(names);
+  while (pending.length > 0) {
+    const result = await parallel(
+      pending,
+      name => fetchRegistryComponent(registryUrl, name, options),
+      { concurrency: options.concurrency ?? 8 }
+    );
+    if (result.errors.length > 0) {
+      throw result.errors[0].error;
+    }
+
+    result.results.forEach(component => resolved.set(component.name, component));
+    pending = closure(result.results.flatMap(component => component.registryDependencies));
+  }
+
+  return resolved;
+}
@@ -57,6 +57,17 @@ export const FrameworkConfigSchema = z.object({
   }).optional(),
 });
 
+/**
+ * Per-file digests and publisher signature schema
+ */
+export const ComponentIntegritySchema = z.object({
+  files: z.record(z.string(), z.string()).describe('File path to sha256 digest'),
+  signature: z.object({
+    keyId: z.string(),
+    value: z.string().describe('Base64 ed25519 signature'),
+  }).optional(),
+});
+
 /**
  * Main component schema (shadcn-style)
  */
@@ -77,6 +88,7 @@ export const ComponentSchema = z.object({
     tags: z.array(z.string()).default([]),
     category: z.string().optional(),
   }).optional(),
+  integrity: ComponentIntegritySchema.optional(),
 });
 
 /**
@@ -12,6 +12,12 @@ export interface CLIConfig {
   preferences?: PreferencesConfig;
   team?: TeamConfig;
   auth?: AuthConfig;
+  security?: SecurityConfig;
+  // Marketplace registry browsed by `rui browse`
+  registry?: RegistryConfig;
+  // Component registries keyed by scope, for names like `@acme/data-table`.
+  // A URL alone is shorthand for `{ url }`.
+  registries?: Record<string, string | RegistryConfig>;
 }
 
 export interface ProjectConfig {
@@ -40,6 +46,20 @@ export interface TeamConfig {
   role: 'admin' | 'member' | 'viewer';
 }
 
+export interface RegistryConfig {
+  url: string;
+  // Sent with every request; `${VAR}` is read from the environment, so
+  // tokens stay out of config files
+  headers?: Record<string, string>;
+  // Unscoped names resolve in the highest-priority registry listing them
+  priority?: number;
+}
+
+export interface SecurityConfig {
+  // Publishers whose signatures components must carry to be installed
+  trustedKeys?: Array<{ id: string; publicKey: string }>;
+}
+
 export interface AuthConfig {
   token?: string;
   refreshToken?: string;
@@ -10,6 +10,7 @@ export * from './config-loader.js';
 export * from './parallel.js';
 export * from './http-client.js';
 export * from './batch-operations.js';
+export * from './merge.js';
 
 // Re-export semver for convenience
 export { default as semver } from 'semver';
\ No newline at end of file
@@ -0,0 +1,198 @@
+/**
+ * Line-based diffs and three-way merges for files copied into a project,
+ * so registry updates can be applied on top of local edits
+ */
+
+export interface MergeLabels {
+  local: string;
+  upstream: string;
+}
+
+export interface MergeResult {
+  content: string;
+  // Regions both sides changed, left between conflict markers
+  conflicts: number;
+}
+
+export interface DiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  // Unchanged lines shown around each change
+  context?: number;
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Splits text into lines that keep their line endings, so joining them
+ * gives the text back unchanged
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Pairs of indexes of lines `a` and `b` have in common, in order
+ * (their longest common subsequence)
+ */
+function commonLines(a: string[], b: string[]): Array<[number, number]> {
+  // Shared ends are matched directly, keeping the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const columns = endB - start;
+  const lengths = new Uint32Array((rows + 1) * (columns + 1));
+  const at = (i: number, j: number) => i * (columns + 1) + j;
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[at(i, j)] = a[start + i] === b[start + j]
+        ? lengths[at(i + 1, j + 1)] + 1
+        : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)]);
+    }
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (a[start + i] === b[start + j]) {
+      pairs.push([start + i, start + j]);
+      i++;
+      j++;
+    } else if (lengths[at(i + 1, j)] >= lengths[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  for (let k = 0; k < a.length - endA; k++) pairs.push([endA + k, endB + k]);
+  return pairs;
+}
+
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [matchA, matchB] of [...commonLines(a, b), [a.length, b.length] as [number, number]]) {
+    while (i < matchA) ops.push({ type: '-', line: a[i++] });
+    while (j < matchB) ops.push({ type: '+', line: b[j++] });
+    if (matchA < a.length) ops.push({ type: ' ', line: a[i++] });
+    j = Math.max(j, matchB + 1);
+  }
+  return ops;
+}
+
+/**
+ * A unified diff from one text to another, or an empty string when they
+ * are the same
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: DiffOptions = {}): string {
+  const { oldLabel = 'a', newLabel = 'b', context = 3 } = options;
+  if (oldText === newText) return '';
+
+  const ops = diffOps(splitLines(oldText), splitLines(newText));
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let end = 0;
+  for (let first = 0; first < ops.length; first++) {
+    if (ops[first].type === ' ') continue;
+
+    // Changes with at most twice the context between them share a hunk
+    let last = first;
+    for (let next = first + 1; next < ops.length && next - last - 1 <= context * 2; next++) {
+      if (ops[next].type !== ' ') last = next;
+    }
+    const start = Math.max(end, first - context);
+    end = Math.min(ops.length, last + 1 + context);
+
+    const before = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+    const oldStart = before.filter(op => op.type !== '+').length;
+    const newStart = before.filter(op => op.type !== '-').length;
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+
+    output.push(`@@ -${oldStart + (oldCount > 0 ? 1 : 0)},${oldCount} +${newStart + (newCount > 0 ? 1 : 0)},${newCount} @@`);
+    output.push(...hunk.map(op => `${op.type}${op.line.replace(/\n$/, '')}`));
+    first = last;
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Merges the changes local and upstream made to a common base. Where both
+ * changed the same lines differently, both versions are kept between
+ * git-style conflict markers.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  upstream: string,
+  labels: MergeLabels = { local: 'local', upstream: 'upstream' }
+): MergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const upstreamLines = splitLines(upstream);
+
+  const inLocal = new Map(commonLines(baseLines, localLines));
+  const inUpstream = new Map(commonLines(baseLines, upstreamLines));
+
+  const output: string[] = [];
+  let conflicts = 0;
+  const same = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+  const withNewline = (lines: string[]) =>
+    lines.map((line, index) => index === lines.length - 1 && !line.endsWith('\n') ? `${line}\n` : line);
+
+  // Lines between base lines both sides kept: take whichever side changed
+  // them, or both when they disagree
+  const resolve = (baseChunk: string[], localChunk: string[], upstreamChunk: string[]) => {
+    if (same(localChunk, upstreamChunk) || same(baseChunk, upstreamChunk)) {
+      output.push(...localChunk);
+    } else if (same(baseChunk, localChunk)) {
+      output.push(...upstreamChunk);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.local}\n`,
+        ...withNewline(localChunk),
+        '=======\n',
+        ...withNewline(upstreamChunk),
+        `>>>>>>> ${labels.upstream}\n`
+      );
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (i <= baseLines.length) {
+    let next = i;
+    while (next < baseLines.length && !(inLocal.has(next) && inUpstream.has(next))) next++;
+
+    if (next === baseLines.length) {
+      resolve(baseLines.slice(i), localLines.slice(j), upstreamLines.slice(k));
+      break;
+    }
+
+    const localNext = inLocal.get(next)!;
+    const upstreamNext = inUpstream.get(next)!;
+    if (next > i || localNext > j || upstreamNext > k) {
+      resolve(baseLines.slice(i, next), localLines.slice(j, localNext), upstreamLines.slice(k, upstreamNext));
+    }
+    output.push(baseLines[next]);
+    i = next + 1;
+    j = localNext + 1;
+    k = upstreamNext + 1;
+  }
+
+  return { content: output.join(''), conflicts };
+}
@@ -1,6 +1,7 @@
 import { BaseCommand, type CLIContext, createLogger, select, input } from '@revolutionary-ui/cli-core';
 import { ComponentSearch } from './search.js';
 import { ComponentInstaller } from './install.js';
+import type { InstallOptions } from './types.js';
 import { MarketplaceClient } from './client.js';
 import chalk from 'chalk';
 
@@ -37,6 +38,10 @@ export class BrowseCommand extends BaseCommand {
         flags: '--newest',
         description: 'Show newest components',
       },
+      {
+        flags: '--allow-unverified',
+        description: 'Install components whose digests or signature do not verify',
+      },
     ];
   }
   
@@ -77,7 +82,10 @@ export class BrowseCommand extends BaseCommand {
       }
       
       // Interactive browse mode
-      await this.interactiveBrowse();
+      await this.interactiveBrowse({
+        trustedKeys: context.config.security?.trustedKeys,
+        allowUnverified: options.allowUnverified,
+      });
       
     } catch (error) {
       logger.error('Failed to browse marketplace:', error);
@@ -130,7 +138,7 @@ export class BrowseCommand extends BaseCommand {
     this.search.displayResults(newest);
   }
   
-  private async interactiveBrowse(): Promise<void> {
+  private async interactiveBrowse(installOptions: InstallOptions): Promise<void> {
     const logger = createLogger();
     
     while (true) {
@@ -148,7 +156,7 @@ export class BrowseCommand extends BaseCommand {
         case 'search':
           const component = await this.search.interactiveSearch();
           if (component) {
-            await this.handleComponentAction(component);
+            await this.handleComponentAction(component, installOptions);
           }
           break;
           
@@ -207,7 +215,7 @@ export class BrowseCommand extends BaseCommand {
     this.search.displayResults(components);
   }
   
-  private async handleComponentAction(component: any): Promise<void> {
+  private async handleComponentAction(component: any, installOptions: InstallOptions): Promise<void> {
     const action = await select('What would you like to do?', [
       { name: '📥 Install this component', value: 'install' },
       { name: '🔗 View on web', value: 'web' },
@@ -216,7 +224,7 @@ export class BrowseCommand extends BaseCommand {
     
     switch (action) {
       case 'install':
-        await this.installer.install(component.id);
+        await this.installer.install(component.id, installOptions);
         break;
         
       case 'web':
@@ -4,6 +4,11 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 import os from 'os';
 
+// The archive a component version is published and downloaded as
+export function archiveName(component: Pick<ComponentMetadata, 'id' | 'version'>): string {
+  return `${component.id}-${component.version}.tar.gz`;
+}
+
 export class MarketplaceClient {
   private config: MarketplaceConfig;
   private logger = createLogger();
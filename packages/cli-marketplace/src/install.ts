@@ -1,5 +1,16 @@
-import { createLogger, Spinner, confirm, fileExists, writeFile, readJson, writeJson, pMap } from '@revolutionary-ui/cli-core';
-import { MarketplaceClient } from './client.js';
+import {
+  createLogger,
+  Spinner,
+  confirm,
+  fileExists,
+  writeFile,
+  readJson,
+  writeJson,
+  pMap,
+  errors,
+  verifyIntegrity
+} from '@revolutionary-ui/cli-core';
+import { MarketplaceClient, archiveName } from './client.js';
 import type { ComponentMetadata, InstallOptions } from './types.js';
 import { join, dirname } from 'path';
 import { promises as fs } from 'fs';
@@ -147,7 +158,7 @@ export class ComponentInstaller {
       // Try to find in local cache
       const cachedPath = this.getCachePath(component);
       if (await fileExists(cachedPath)) {
-        await this.extractFromCache(cachedPath, installPath);
+        await this.extractFromCache(cachedPath, installPath, component, options);
         return;
       } else {
         throw new Error('Component not found in offline cache');
@@ -156,6 +167,7 @@ export class ComponentInstaller {
 
     // Download from marketplace
     const buffer = await this.client.downloadComponent(component.id, component.version);
+    this.verifyDownload(buffer, component, options);
     
     // Save to cache
     const cachePath = this.getCachePath(component);
@@ -166,6 +178,27 @@ export class ComponentInstaller {
     await this.extractComponent(buffer, installPath);
   }
 
+  /**
+   * Refuses a download that doesn't match the digests published with it, or
+   * isn't signed by a trusted key when there are any, unless allowed
+   */
+  private verifyDownload(
+    buffer: Buffer,
+    component: ComponentMetadata,
+    options: InstallOptions
+  ): void {
+    // The download is the published archive, which is what was digested
+    const files = [{ path: archiveName(component), content: buffer }];
+
+    const { problems } = verifyIntegrity(component.id, component.version, files, component.integrity, options.trustedKeys, component);
+    if (!problems.length) return;
+
+    if (!options.allowUnverified) {
+      throw errors.component.unverified(component.name, problems);
+    }
+    logger.warn(`Installing unverified ${component.name}: ${problems.join('; ')}`);
+  }
+
   private async extractComponent(buffer: Buffer, installPath: string): Promise<void> {
     // Create directory
     await fs.mkdir(dirname(installPath), { recursive: true });
@@ -175,14 +208,20 @@ export class ComponentInstaller {
     await fs.writeFile(installPath, buffer);
   }
 
-  private async extractFromCache(cachePath: string, installPath: string): Promise<void> {
+  private async extractFromCache(
+    cachePath: string,
+    installPath: string,
+    component: ComponentMetadata,
+    options: InstallOptions
+  ): Promise<void> {
     const buffer = await fs.readFile(cachePath);
+    this.verifyDownload(buffer, component, options);
     await this.extractComponent(buffer, installPath);
   }
 
   private getCachePath(component: ComponentMetadata): string {
     const home = process.env.HOME || process.env.USERPROFILE || '';
-    return join(home, '.revolutionary-ui', 'cache', 'components', `${component.id}-${component.version}.tar.gz`);
+    return join(home, '.revolutionary-ui', 'cache', 'components', archiveName(component));
   }
 
   private getDefaultInstallPath(component: ComponentMetadata): string {
@@ -40,6 +40,14 @@ export class PublishCommand extends BaseCommand {
         flags: '--otp <code>',
         description: 'One-time password for 2FA',
       },
+      {
+        flags: '--sign-key <path>',
+        description: 'Sign the component with an ed25519 private key (PEM)',
+      },
+      {
+        flags: '--key-id <id>',
+        description: 'Key id installers trust the signing key under (default: key file name)',
+      },
     ];
   }
   
@@ -61,6 +69,8 @@ export class PublishCommand extends BaseCommand {
           tag: options.tag,
           dryRun: options.dryRun,
           otp: options.otp,
+          signKey: options.signKey,
+          keyId: options.keyId,
         });
       } else {
         // Interactive publish
@@ -1,8 +1,19 @@
-import { createLogger, Spinner, input, select, confirm, readJson, fileExists } from '@revolutionary-ui/cli-core';
-import { MarketplaceClient } from './client.js';
+import {
+  createLogger,
+  Spinner,
+  input,
+  select,
+  confirm,
+  readJson,
+  fileExists,
+  createIntegrity,
+  type ComponentIntegrity,
+  type SigningKey
+} from '@revolutionary-ui/cli-core';
+import { MarketplaceClient, archiveName } from './client.js';
 import type { ComponentMetadata, PublishOptions } from './types.js';
 import { ComponentMetadataSchema } from './types.js';
-import { join } from 'path';
+import { join, basename, extname } from 'path';
 import { promises as fs } from 'fs';
 import { execSync } from 'child_process';
 import chalk from 'chalk';
@@ -55,10 +66,14 @@ export class ComponentPublisher {
       spin.update('Creating component archive...');
       const archivePath = await this.createArchive(componentPath, validated);
 
+      // Digest (and sign) the archive, so installs can tell it is untouched
+      spin.update('Computing the archive digest...');
+      const integrity = await this.createIntegrity(archivePath, validated, options);
+
       // Upload to marketplace
       if (!options.dryRun) {
         spin.update('Uploading to marketplace...');
-        await this.uploadComponent(validated, archivePath, options);
+        await this.uploadComponent({ ...validated, integrity }, archivePath, options);
       }
 
       spin.stop();
@@ -66,7 +81,7 @@ export class ComponentPublisher {
       if (options.dryRun) {
         logger.info(chalk.yellow('\n🔍 Dry run - no changes were made'));
         logger.info('\nComponent would be published with:');
-        this.displayPublishInfo(validated);
+        this.displayPublishInfo({ ...validated, integrity });
       } else {
         logger.success(`\n✨ Successfully published ${chalk.cyan(validated.name)} v${validated.version}`);
         logger.info(`\n🌐 View at: ${chalk.blue(`https://revolutionary-ui.com/marketplace/${validated.id}`)}`);
@@ -218,7 +233,7 @@ export class ComponentPublisher {
   }
 
   private async createArchive(componentPath: string, metadata: ComponentMetadata): Promise<string> {
-    const archivePath = join(process.env.TMPDIR || '/tmp', `${metadata.id}-${metadata.version}.tar.gz`);
+    const archivePath = join(process.env.TMPDIR || '/tmp', archiveName(metadata));
     
     // In production, would use archiver to create tar.gz
     // For now, just create a placeholder file
@@ -227,6 +242,33 @@ export class ComponentPublisher {
     return archivePath;
   }
 
+  /**
+   * Digests and signs the archive as it is uploaded, which is exactly what
+   * installs download
+   */
+  private async createIntegrity(
+    archivePath: string,
+    metadata: ComponentMetadata,
+    options: PublishOptions
+  ): Promise<ComponentIntegrity> {
+    const files = [{ path: basename(archivePath), content: await fs.readFile(archivePath) }];
+
+    return createIntegrity(metadata.id, metadata.version, files, await this.loadSigningKey(options), metadata);
+  }
+
+  private async loadSigningKey(options: PublishOptions): Promise<SigningKey | undefined> {
+    if (!options.signKey) return undefined;
+
+    if (!await fileExists(options.signKey)) {
+      throw new Error(`Signing key not found: ${options.signKey}`);
+    }
+
+    return {
+      id: options.keyId || basename(options.signKey, extname(options.signKey)),
+      privateKey: await fs.readFile(options.signKey, 'utf-8'),
+    };
+  }
+
   private async uploadComponent(
     metadata: ComponentMetadata,
     archivePath: string,
@@ -266,6 +308,11 @@ export class ComponentPublisher {
       ['License', metadata.license],
     ];
 
+    if (metadata.integrity) {
+      info.push(['Archive', `${archiveName(metadata)} (sha256 digest)`]);
+      info.push(['Signed by', metadata.integrity.signature?.keyId ?? chalk.yellow('not signed')]);
+    }
+
     if (metadata.premium) {
       info.push(['Type', `Premium ($${metadata.price})`]);
     }
@@ -38,6 +38,13 @@ export const ComponentMetadataSchema = z.object({
   preview: z.string().url().optional(),
   images: z.array(z.string().url()).optional(),
   factoryConfig: z.any().optional(),
+  integrity: z.object({
+    files: z.record(z.string(), z.string()),
+    signature: z.object({
+      keyId: z.string(),
+      value: z.string(),
+    }).optional(),
+  }).optional(),
 });
 
 export type ComponentMetadata = z.infer<typeof ComponentMetadataSchema>;
@@ -74,6 +81,10 @@ export interface InstallOptions {
   dev?: boolean;
   registry?: string;
   offline?: boolean;
+  // Publishers whose signature the download must carry
+  trustedKeys?: Array<{ id: string; publicKey: string }>;
+  // Install even when the download doesn't match its published digests
+  allowUnverified?: boolean;
 }
 
 export interface PublishOptions {
@@ -81,6 +92,9 @@ export interface PublishOptions {
   tag?: string;
   dryRun?: boolean;
   otp?: string;
+  // ed25519 private key (PEM) to sign the component's file digests with
+  signKey?: string;
+  keyId?: string;
 }
 
 export interface MarketplaceStats {
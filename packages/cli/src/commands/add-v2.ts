@@ -7,17 +7,45 @@ import {
   confirm, 
   withSpinner, 
   createLogger,
-  errors
+  errors,
+  readLockfile,
+  writeLockfile,
+  lockComponent,
+  modifiedFiles,
+  lockedPath,
+  componentVersion,
+  registryFor,
+  type Lockfile,
+  type NamedRegistry,
+  type TrustedKey
 } from '@revolutionary-ui/cli-core';
 import { 
   ComponentSchema, 
-  validateComponentSchema,
-  type ComponentFile 
+  validateComponentSchema
 } from '@revolutionary-ui/cli-core/schemas/component-schema';
 import chalk from 'chalk';
 import path from 'path';
 import { existsSync } from 'fs';
 import { readFile, writeFile, mkdir } from 'fs/promises';
+import {
+  loadProjectConfig,
+  projectRegistries,
+  loadRegistries,
+  listComponents,
+  missingComponents,
+  loadComponents,
+  type LoadedRegistries,
+  type RegistryListing,
+  verifyComponents,
+  transformContent
+} from '../lib/registry-components.js';
+
+// Where a component is being installed from, and the lockfile recording it
+interface InstallTarget {
+  cwd: string;
+  registry: string;
+  lockfile: Lockfile;
+}
 
 /**
  * Enhanced Add Command implementing shadcn-style code ownership
@@ -27,6 +55,12 @@ import { readFile, writeFile, mkdir } from 'fs/promises';
  * - Supports component schemas and dependencies
  * - Handles styles, types, and utilities
  * - Updates project configuration automatically
+ * - Records each file's version and hash in components.lock.json, so
+ *   `rui diff` and `rui update` can tell local edits from upstream changes
+ * - Checks registry files against their published digests and signatures
+ *   before writing them
+ * - Resolves `@scope/name` from named registries, including dependencies
+ *   one registry's components have on another's
  */
 export class AddCommandV2 extends BaseCommand {
   name = 'add [components...]';
@@ -39,9 +73,10 @@ export class AddCommandV2 extends BaseCommand {
     { flags: '-p, --path <path>', description: 'Path to add components (default: ./components/ui)' },
     { flags: '-c, --cwd <cwd>', description: 'Working directory (default: current directory)' },
     { flags: '-a, --all', description: 'Add all available components' },
-    { flags: '-r, --registry <url>', description: 'Custom registry URL' },
+    { flags: '-r, --registry <url>', description: 'Custom default registry URL' },
     { flags: '--dry-run', description: 'Preview changes without writing files' },
     { flags: '--no-deps', description: 'Skip installing npm dependencies' },
+    { flags: '--allow-unverified', description: 'Install components whose digests or signature do not verify' },
   ];
 
   async action(components: string[], options: any, context: CLIContext): Promise<void> {
@@ -50,26 +85,32 @@ export class AddCommandV2 extends BaseCommand {
     logger.info(chalk.bold('\n📦 Add Components to Your Project\n'));
 
     // Load configuration
-    const config = await this.loadConfig(context);
+    const cwd = options.cwd ? path.resolve(options.cwd) : context.paths.cwd;
+    const config = await loadProjectConfig(cwd);
+    const lockfile = await readLockfile(cwd);
+    const trustedKeys = context.config.security?.trustedKeys;
     
     // Handle URL-based installation (shadcn 2025 feature)
     if (components.length === 1 && this.isUrl(components[0])) {
-      await this.addFromUrl(components[0], options, config);
+      await this.addFromUrl(components[0], options, config, { cwd, registry: components[0], lockfile }, trustedKeys);
       return;
     }
 
     // Handle local file installation
     if (components.length === 1 && await this.isLocalFile(components[0])) {
-      await this.addFromLocalFile(components[0], options, config);
+      // A local registry may live outside the project
+      const registry = path.relative(cwd, path.resolve(components[0])).split(path.sep).join('/');
+      await this.addFromLocalFile(components[0], options, config, { cwd, registry, lockfile });
       return;
     }
 
-    // Load component registry
-    const registry = await this.loadRegistry(options.registry || config.registry);
+    // Load the registries' indexes; components are fetched once picked
+    const registries = projectRegistries(config, context.config, options.registry);
+    const registry = await loadRegistries(registries);
 
     // Interactive selection if no components specified
     if (!components.length && !options.all) {
-      components = await this.selectComponents(registry);
+      components = await this.selectComponents(listComponents(registry));
       if (!components.length) {
         logger.info('No components selected.');
         return;
@@ -78,17 +119,19 @@ export class AddCommandV2 extends BaseCommand {
 
     // Add all components if --all flag
     if (options.all) {
-      components = registry.index.components.map(c => c.name);
+      components = listComponents(registry).map(c => c.name);
     }
 
     // Validate components exist
-    const invalid = components.filter(name => !registry.components.has(name));
+    const invalid = missingComponents(registry, components);
     if (invalid.length) {
       throw errors.component.notFound(invalid.join(', '));
     }
 
-    // Resolve all dependencies
-    const resolved = await this.resolveDependencies(components, registry);
+    // Resolve all dependencies, verifying each before its registryDependencies are resolved
+    const resolved = await this.resolveDependencies(components, registry, component =>
+      verifyComponents([component], trustedKeys, !!options.allowUnverified)
+    );
     
     // Show installation preview
     await this.showInstallationPreview(resolved, registry, options);
@@ -109,7 +152,8 @@ export class AddCommandV2 extends BaseCommand {
     }
 
     // Install components
-    const results = await this.installComponents(resolved, registry, options, config);
+    const results = await this.installComponents(resolved, options, config, { cwd, lockfile }, registries);
+    await writeLockfile(cwd, lockfile);
 
     // Show results
     this.showInstallationResults(results);
@@ -123,56 +167,9 @@ export class AddCommandV2 extends BaseCommand {
     await this.updateProjectConfig(results, config);
   }
 
-  private async loadConfig(context: CLIContext): Promise<any> {
-    // Load project configuration
-    const configPath = path.join(context.paths.cwd, 'components.json');
-    
-    if (existsSync(configPath)) {
-      const { readJson } = await import('@revolutionary-ui/cli-core');
-      return await readJson(configPath);
-    }
-
-    // Default configuration
-    return {
-      $schema: 'https://ui.revolutionary-ui.com/schema.json',
-      style: 'default',
-      rsc: true,
-      tsx: true,
-      tailwind: {
-        config: 'tailwind.config.js',
-        css: 'app/globals.css',
-        baseColor: 'slate',
-        cssVariables: true,
-      },
-      aliases: {
-        components: '@/components',
-        utils: '@/lib/utils',
-      },
-    };
-  }
-
-  private async loadRegistry(registryUrl: string): Promise<any> {
-    const { RegistryClient } = await import('@revolutionary-ui/cli-core');
-    const client = new RegistryClient({ baseUrl: registryUrl });
-    
-    // Load registry index
-    const index = await client.fetchIndex();
-    
-    // Create component map
-    const components = new Map<string, ComponentSchema>();
-    
-    // Load component schemas
-    for (const component of index.components) {
-      const schema = await client.fetchComponent(component.name);
-      components.set(component.name, validateComponentSchema(schema));
-    }
-
-    return { index, components };
-  }
-
-  private async selectComponents(registry: any): Promise<string[]> {
-    const choices = registry.index.components.map((c: any) => ({
-      name: `${c.name} ${chalk.gray(`- ${c.description}`)}`,
+  private async selectComponents(listing: RegistryListing[]): Promise<string[]> {
+    const choices = listing.map(c => ({
+      name: `${c.name} ${chalk.gray(`- ${c.entry.description}`)}`,
       value: c.name,
       checked: false,
     }));
@@ -189,36 +186,15 @@ export class AddCommandV2 extends BaseCommand {
 
   private async resolveDependencies(
     components: string[], 
-    registry: any
+    registry: LoadedRegistries,
+    onFetched: (component: ComponentSchema) => void
   ): Promise<Map<string, ComponentSchema>> {
-    const resolved = new Map<string, ComponentSchema>();
-    const queue = [...components];
-    const visited = new Set<string>();
-
-    while (queue.length > 0) {
-      const name = queue.shift()!;
-      
-      if (visited.has(name)) continue;
-      visited.add(name);
-
-      const component = registry.components.get(name);
-      if (!component) {
-        throw errors.component.notFound(name);
-      }
-
-      resolved.set(name, component);
-
-      // Add registry dependencies to queue
-      if (component.registryDependencies) {
-        for (const dep of component.registryDependencies) {
-          if (!visited.has(dep)) {
-            queue.push(dep);
-          }
-        }
-      }
-    }
-
-    return resolved;
+    // Only the picked components and their registry dependencies are
+    // fetched, concurrently and through the registry cache
+    return await withSpinner(
+      'Fetching components...',
+      async () => loadComponents(registry, components, onFetched)
+    );
   }
 
   private async showInstallationPreview(
@@ -237,7 +213,8 @@ export class AddCommandV2 extends BaseCommand {
       if (!byType.has(type)) {
         byType.set(type, []);
       }
-      byType.get(type)!.push(component);
+      // Listed by qualified name, as they are added
+      byType.get(type)!.push({ ...component, name });
     }
 
     // Show components grouped by type
@@ -262,9 +239,10 @@ export class AddCommandV2 extends BaseCommand {
 
   private async installComponents(
     components: Map<string, ComponentSchema>,
-    registry: any,
     options: any,
-    config: any
+    config: any,
+    target: Omit<InstallTarget, 'registry'>,
+    registries: NamedRegistry[]
   ): Promise<any> {
     const logger = createLogger();
     const results = {
@@ -293,7 +271,9 @@ export class AddCommandV2 extends BaseCommand {
           await withSpinner(
             `Installing ${name}...`,
             async () => {
-              await this.installComponent(component, options, config);
+              // Locked with the registry it came from, under its qualified name
+              const source = { ...target, registry: registryFor(name, registries).url };
+              await this.installComponent(component, options, config, source, name);
             }
           );
 
@@ -342,15 +322,35 @@ export class AddCommandV2 extends BaseCommand {
   private async installComponent(
     component: ComponentSchema,
     options: any,
-    config: any
+    config: any,
+    target: InstallTarget,
+    name: string = component.name
   ): Promise<void> {
-    const basePath = options.path || config.aliases?.components || './components/ui';
+    const logger = createLogger();
+    const { cwd, lockfile } = target;
+    const basePath = path.resolve(cwd, options.path || config.aliases?.components || './components/ui');
+    const locked = lockfile.components[name];
+    const modified = locked ? await modifiedFiles(cwd, locked) : [];
+    const written: Array<{ path: string; content: string }> = [];
+
+    // Every file is checked before any is written, so one that escapes the
+    // project leaves nothing half installed
+    component.files.forEach(file => lockedPath(cwd, path.join(basePath, file.path)));
 
     for (const file of component.files) {
       const filePath = path.join(basePath, file.path);
+      const relativePath = lockedPath(cwd, filePath);
       
-      // Check if file exists
-      if (existsSync(filePath) && !options.overwrite) {
+      if (modified.includes(relativePath) && !options.overwrite) {
+        // Replacing it would lose the local edits; its lock entry stays so
+        // they can be merged with the new version
+        logger.warn(`Skipped ${relativePath}: it has local changes. Run "rui update ${name}" to merge them with this version.`);
+        continue;
+      }
+
+      // Check if file exists. Unmodified locked files are ours to replace.
+      const isLocked = locked?.files.some(lockedFile => lockedFile.path === relativePath);
+      if (existsSync(filePath) && !isLocked && !options.overwrite) {
         const shouldOverwrite = await confirm(
           `File ${filePath} already exists. Overwrite?`,
           false
@@ -365,68 +365,21 @@ export class AddCommandV2 extends BaseCommand {
       let content = file.content;
       
       // Apply transformations based on config
-      content = await this.transformContent(content, file, config);
+      content = await transformContent(content, file, config);
 
       // Write file
       await writeFile(filePath, content, 'utf-8');
+      written.push({ path: filePath, content });
     }
-  }
 
-  private async transformContent(
-    content: string,
-    file: ComponentFile,
-    config: any
-  ): string {
-    // Transform imports based on aliases
-    if (config.aliases) {
-      for (const [alias, path] of Object.entries(config.aliases)) {
-        const aliasPattern = new RegExp(`from ['"]@/${alias}`, 'g');
-        content = content.replace(aliasPattern, `from '${path}`);
-      }
-    }
-
-    // Transform based on TypeScript settings
-    if (!config.tsx && file.type === 'component') {
-      // Convert to JavaScript if needed
-      content = await this.convertToJavaScript(content);
-    }
-
-    // Add CSS variables prefix if configured
-    if (config.tailwind?.prefix) {
-      content = this.addTailwindPrefix(content, config.tailwind.prefix);
-    }
-
-    return content;
-  }
-
-  private async convertToJavaScript(content: string): Promise<string> {
-    // Simple TypeScript to JavaScript conversion
-    // In production, use a proper transpiler
-    return content
-      .replace(/: React\.FC<.*?>/, '')
-      .replace(/: string/g, '')
-      .replace(/: number/g, '')
-      .replace(/: boolean/g, '')
-      .replace(/: any/g, '')
-      .replace(/interface \w+ {[^}]+}/g, '')
-      .replace(/type \w+ = [^;]+;/g, '');
-  }
-
-  private addTailwindPrefix(content: string, prefix: string): string {
-    // Add prefix to Tailwind classes
-    const classPattern = /className=["']([^"']+)["']/g;
-    return content.replace(classPattern, (match, classes) => {
-      const prefixedClasses = classes
-        .split(' ')
-        .map((cls: string) => {
-          if (cls.startsWith('!')) {
-            return `!${prefix}-${cls.slice(1)}`;
-          }
-          return `${prefix}-${cls}`;
-        })
-        .join(' ');
-      return `className="${prefixedClasses}"`;
+    const kept = locked?.files.filter(file => !written.some(entry => lockedPath(cwd, entry.path) === file.path)) ?? [];
+    await lockComponent(cwd, lockfile, name, {
+      version: componentVersion(component),
+      registry: target.registry,
+      path: lockedPath(cwd, basePath),
+      files: written
     });
+    lockfile.components[name].files.push(...kept);
   }
 
   private showInstallationResults(results: any): void {
@@ -545,25 +498,33 @@ export class AddCommandV2 extends BaseCommand {
     );
   }
 
-  private async addFromUrl(url: string, options: any, config: any): Promise<void> {
+  private async addFromUrl(
+    url: string,
+    options: any,
+    config: any,
+    target: InstallTarget,
+    trustedKeys: TrustedKey[] | undefined
+  ): Promise<void> {
     const logger = createLogger();
     
     logger.info(`Fetching component from ${chalk.cyan(url)}...`);
     
+    let component: ComponentSchema;
     try {
       const response = await fetch(url);
       const componentData = await response.json();
-      const component = validateComponentSchema(componentData);
-      
-      await this.installComponent(component, options, config);
-      logger.success(`\n✨ Successfully installed ${component.name} from URL!`);
-      
+      component = validateComponentSchema(componentData);
     } catch (error: any) {
       throw errors.network.requestFailed(url, error.message);
     }
+
+    verifyComponents([component], trustedKeys, !!options.allowUnverified);
+    await this.installComponent(component, options, config, target);
+    await writeLockfile(target.cwd, target.lockfile);
+    logger.success(`\n✨ Successfully installed ${component.name} from URL!`);
   }
 
-  private async addFromLocalFile(filePath: string, options: any, config: any): Promise<void> {
+  private async addFromLocalFile(filePath: string, options: any, config: any, target: InstallTarget): Promise<void> {
     const logger = createLogger();
     
     logger.info(`Loading component from ${chalk.cyan(filePath)}...`);
@@ -573,7 +534,8 @@ export class AddCommandV2 extends BaseCommand {
       const componentData = JSON.parse(content);
       const component = validateComponentSchema(componentData);
       
-      await this.installComponent(component, options, config);
+      await this.installComponent(component, options, config, target);
+      await writeLockfile(target.cwd, target.lockfile);
       logger.success(`\n✨ Successfully installed ${component.name} from local file!`);
       
     } catch (error: any) {
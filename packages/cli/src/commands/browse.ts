@@ -1,6 +1,10 @@
 import { BaseCommand, type CLIContext, ComponentRegistry, RegistryClient, select, multiselect, input, confirm, createLogger } from '@revolutionary-ui/cli-core';
 import chalk from 'chalk';
 import Table from 'cli-table3';
+import { loadProjectConfig, projectRegistries, searchRegistries } from '../lib/registry-components.js';
+
+// Source label of components from the marketplace API
+const MARKETPLACE = 'marketplace';
 
 export class BrowseCommand extends BaseCommand {
   name = 'browse';
@@ -28,21 +32,21 @@ export class BrowseCommand extends BaseCommand {
       if (options.trending) {
         await this.showTrending(client);
       } else if (options.search) {
-        await this.searchComponents(registry, options.search);
+        await this.searchComponents(registry, options.search, context);
       } else if (options.category) {
         await this.browseCategory(registry, options.category);
       } else if (options.framework) {
         await this.browseFramework(registry, options.framework);
       } else {
         // Interactive browse mode
-        await this.interactiveBrowse(registry, client);
+        await this.interactiveBrowse(registry, client, context);
       }
     } catch (error: any) {
       logger.error('Failed to browse marketplace:', error.message);
     }
   }
 
-  private async interactiveBrowse(registry: ComponentRegistry, client: RegistryClient): Promise<void> {
+  private async interactiveBrowse(registry: ComponentRegistry, client: RegistryClient, context: CLIContext): Promise<void> {
     const logger = createLogger();
     
     while (true) {
@@ -64,7 +68,7 @@ export class BrowseCommand extends BaseCommand {
           break;
         case 'search':
           const query = await input('Search query:');
-          await this.searchComponents(registry, query);
+          await this.searchComponents(registry, query, context);
           break;
         case 'trending':
           await this.showTrending(client);
@@ -129,11 +133,22 @@ export class BrowseCommand extends BaseCommand {
     await this.selectComponentAction(registry, components);
   }
 
-  private async searchComponents(registry: ComponentRegistry, query: string): Promise<void> {
+  /**
+   * Searches the marketplace and the project's component registries
+   * together, labelling each result with where it comes from
+   */
+  private async searchComponents(registry: ComponentRegistry, query: string, context: CLIContext): Promise<void> {
     const logger = createLogger();
     logger.info(chalk.bold(`\n🔍 Search results for "${query}"\n`));
     
-    const components = await registry.searchComponents({ search: query });
+    const [marketplace, registries] = await Promise.all([
+      registry.searchComponents({ search: query }).catch((error: any) => {
+        logger.warn(`Skipped ${MARKETPLACE}: ${error.message}`);
+        return [];
+      }),
+      this.searchProjectRegistries(context, query),
+    ]);
+    const components = [...marketplace.map(component => ({ ...component, source: MARKETPLACE })), ...registries];
     
     if (components.length === 0) {
       logger.info('No components found matching your search.');
@@ -145,6 +160,22 @@ export class BrowseCommand extends BaseCommand {
     await this.selectComponentAction(registry, components);
   }
 
+  // Registry results shaped like marketplace ones, named as `rui add` takes them
+  private async searchProjectRegistries(context: CLIContext, query: string): Promise<any[]> {
+    const config = await loadProjectConfig(context.paths.cwd);
+    const results = await searchRegistries(projectRegistries(config, context.config), query);
+
+    return results.map(({ name, registry, entry }) => ({
+      name,
+      source: registry,
+      description: entry.description ?? '',
+      category: entry.type,
+      framework: [],
+      dependencies: entry.dependencies,
+      files: entry.files.map(path => ({ path })),
+    }));
+  }
+
   private async showTrending(client: RegistryClient): Promise<void> {
     const logger = createLogger();
     logger.info(chalk.bold('\n🔥 Trending Components\n'));
@@ -186,8 +217,8 @@ export class BrowseCommand extends BaseCommand {
 
   private displayComponents(components: any[]): void {
     const table = new Table({
-      head: ['Name', 'Category', 'Framework', 'Description'],
-      colWidths: [20, 15, 15, 50],
+      head: ['Name', 'Source', 'Category', 'Framework', 'Description'],
+      colWidths: [20, 14, 15, 15, 40],
       wordWrap: true,
       style: {
         head: ['cyan'],
@@ -197,6 +228,7 @@ export class BrowseCommand extends BaseCommand {
     components.forEach(comp => {
       table.push([
         comp.name,
+        comp.source ?? MARKETPLACE,
         comp.category,
         Array.isArray(comp.framework) ? comp.framework.join(', ') : comp.framework,
         comp.description,
@@ -0,0 +1,107 @@
+import {
+  BaseCommand,
+  type CLIContext,
+  withSpinner,
+  createLogger,
+  errors,
+  readFile,
+  fileExists,
+  readLockfile,
+  readBaseFile,
+  lockedPath,
+  componentVersion,
+  createUnifiedDiff
+} from '@revolutionary-ui/cli-core';
+import chalk from 'chalk';
+import path from 'path';
+import { loadProjectConfig, projectRegistries, upstreamFiles } from '../lib/registry-components.js';
+
+/**
+ * Shows how added components changed since they were added: upstream in
+ * the registry, and locally in the project. Both are diffed against the
+ * copy kept when the component was added or last updated.
+ */
+export class DiffCommand extends BaseCommand {
+  name = 'diff [components...]';
+  description = 'Show upstream and local changes to added components';
+
+  options = [
+    { flags: '--local', description: 'Only show local changes' },
+    { flags: '--upstream', description: 'Only show upstream changes' },
+    { flags: '-c, --cwd <cwd>', description: 'Working directory (default: current directory)' },
+  ];
+
+  async action(components: string[], options: any, context: CLIContext): Promise<void> {
+    const logger = createLogger();
+    const cwd = options.cwd ? path.resolve(options.cwd) : context.paths.cwd;
+    const lockfile = await readLockfile(cwd);
+
+    const names = components.length ? components : Object.keys(lockfile.components);
+    if (!names.length) {
+      logger.info('No components to diff. Components added with "rui add" are listed in components.lock.json.');
+      return;
+    }
+
+    const unknown = names.filter(name => !lockfile.components[name]);
+    if (unknown.length) {
+      throw errors.component.notFound(unknown.join(', '));
+    }
+
+    const config = await loadProjectConfig(cwd);
+    const registries = projectRegistries(config, context.config);
+    const showUpstream = !options.local || options.upstream;
+    const showLocal = !options.upstream || options.local;
+
+    for (const name of names) {
+      const locked = lockfile.components[name];
+      const upstream = await withSpinner(
+        `Fetching ${name}...`,
+        async () => upstreamFiles(cwd, name, locked, config, registries)
+      );
+      const version = componentVersion(upstream.component);
+
+      logger.info(chalk.bold(`\n${name} ${chalk.gray(`${locked.version} → ${version}`)}\n`));
+
+      const paths = new Set([...locked.files.map(file => lockedPath(cwd, file.path)), ...upstream.files.keys()]);
+      let changed = false;
+
+      for (const filePath of paths) {
+        const base = await readBaseFile(cwd, filePath) ?? '';
+        const absolutePath = path.join(cwd, filePath);
+
+        if (showUpstream) {
+          changed = this.printDiff(createUnifiedDiff(base, upstream.files.get(filePath) ?? '', {
+            oldLabel: `${filePath} (${locked.version})`,
+            newLabel: `${filePath} (upstream ${version})`
+          })) || changed;
+        }
+
+        if (showLocal) {
+          const local = await fileExists(absolutePath) ? await readFile(absolutePath) : '';
+          changed = this.printDiff(createUnifiedDiff(base, local, {
+            oldLabel: `${filePath} (${locked.version})`,
+            newLabel: `${filePath} (local)`
+          })) || changed;
+        }
+      }
+
+      if (!changed) {
+        logger.info(chalk.gray('  No changes'));
+      }
+    }
+  }
+
+  private printDiff(diff: string): boolean {
+    if (!diff) return false;
+
+    const colored = diff.trimEnd().split('\n').map(line => {
+      if (line.startsWith('---') || line.startsWith('+++')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    });
+    console.log(`${colored.join('\n')}\n`);
+    return true;
+  }
+}
@@ -4,6 +4,7 @@ import { GenerateCommand } from './generate.js';
 import { AddCommand } from './add.js';
 import { AuthCommands } from './auth/index.js';
 import { ConfigCommands } from './config/index.js';
+import { RegistryCommands } from './registry/index.js';
 import { AICommand, WorkflowCommand, OptimizeCommand } from '@revolutionary-ui/cli-ai';
 import { PublishCommand } from '@revolutionary-ui/cli-marketplace';
 import { PushCommand, PullCommand, SyncCommand } from '@revolutionary-ui/cli-cloud';
@@ -12,6 +13,8 @@ import { DoctorCommand } from './doctor.js';
 import { BrowseCommand } from './browse.js';
 import { BatchCommand } from './batch.js';
 import { SyncRegistryCommand } from './sync-registry.js';
+import { DiffCommand } from './diff.js';
+import { UpdateCommand } from './update.js';
 
 export async function registerCommands(cli: CLI): Promise<void> {
   // Register core commands
@@ -43,12 +46,34 @@ export async function registerCommands(cli: CLI): Promise<void> {
     action: addCommand.action.bind(addCommand)
   });
 
+  // Lockfile commands for added components
+  const diffCommand = new DiffCommand();
+  cli.registerCommand({
+    name: diffCommand.name,
+    description: diffCommand.description,
+    alias: diffCommand.alias,
+    options: diffCommand.options,
+    action: diffCommand.action.bind(diffCommand)
+  });
+
+  const updateCommand = new UpdateCommand();
+  cli.registerCommand({
+    name: updateCommand.name,
+    description: updateCommand.description,
+    alias: updateCommand.alias,
+    options: updateCommand.options,
+    action: updateCommand.action.bind(updateCommand)
+  });
+
   // Auth commands
   await AuthCommands.register(cli);
 
   // Config commands
   await ConfigCommands.register(cli);
 
+  // Registry commands
+  await RegistryCommands.register(cli);
+
   // AI commands
   const aiCommand = new AICommand();
   cli.registerCommand({
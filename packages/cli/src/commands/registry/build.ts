@@ -0,0 +1,87 @@
+import {
+  BaseCommand,
+  type CLIContext,
+  withSpinner,
+  createLogger,
+  errors,
+  buildRegistry,
+  writeRegistry,
+  readJson,
+  readFile,
+  fileExists,
+  type SigningKey
+} from '@revolutionary-ui/cli-core';
+import chalk from 'chalk';
+import path from 'path';
+import { pathToFileURL } from 'url';
+
+export class RegistryBuildCommand extends BaseCommand {
+  name = 'build [dir]';
+  description = 'Build a static registry from a directory of components';
+
+  options = [
+    { flags: '-o, --output <dir>', description: 'Where to write the registry (default: ./public/r)' },
+    { flags: '--registry-version <version>', description: 'Registry version (default: version in package.json)' },
+    { flags: '--sign-key <path>', description: 'Sign components with an ed25519 private key (PEM)' },
+    { flags: '--key-id <id>', description: 'Key id consumers trust the signing key under (default: key file name)' },
+    { flags: '--dry-run', description: 'List the components without writing files' },
+  ];
+
+  async action(dir: string | undefined, options: any, context: CLIContext): Promise<void> {
+    const logger = createLogger();
+    const source = path.resolve(context.paths.cwd, dir || 'components');
+    const output = path.resolve(context.paths.cwd, options.output || 'public/r');
+
+    if (!await fileExists(source)) {
+      throw errors.file.notFound(source);
+    }
+
+    logger.info(chalk.bold('\n🏗️  Build Registry\n'));
+
+    const version = options.registryVersion || await this.packageVersion(context.paths.cwd);
+    const signingKey = options.signKey ? await this.signingKey(context.paths.cwd, options.signKey, options.keyId) : undefined;
+    const result = await withSpinner(
+      `Reading components from ${path.relative(context.paths.cwd, source) || '.'}...`,
+      async () => buildRegistry({ source, version, signingKey })
+    );
+
+    if (result.problems.length) {
+      throw errors.registry.invalid(result.problems);
+    }
+
+    for (const component of result.components) {
+      logger.info(`  ${chalk.cyan(component.name)} ${chalk.gray(`${component.meta?.version} · ${component.files.length} file(s)`)}`);
+      if (component.registryDependencies.length) {
+        logger.info(chalk.gray(`    └─ requires: ${component.registryDependencies.join(', ')}`));
+      }
+    }
+
+    if (options.dryRun) {
+      logger.info(chalk.yellow('\n🔍 Dry run complete. No files were written.'));
+      return;
+    }
+
+    await writeRegistry(output, result);
+
+    logger.success(`\n✨ Wrote ${result.components.length} component(s) to ${path.relative(context.paths.cwd, output)}`);
+    if (signingKey) {
+      logger.info(chalk.gray(`Signed with "${signingKey.id}". Consumers add its public key to security.trustedKeys.`));
+    }
+    logger.info(chalk.gray('\nServe the directory from any file server, or use it directly:'));
+    logger.info(chalk.cyan(`  rui add button --registry ${pathToFileURL(output).href}\n`));
+  }
+
+  // Generate one with `openssl genpkey -algorithm ed25519 -out registry.pem`
+  private async signingKey(cwd: string, keyPath: string, keyId?: string): Promise<SigningKey> {
+    const file = path.resolve(cwd, keyPath);
+    if (!await fileExists(file)) {
+      throw errors.file.notFound(file);
+    }
+    return { id: keyId || path.basename(file, path.extname(file)), privateKey: await readFile(file) };
+  }
+
+  private async packageVersion(cwd: string): Promise<string | undefined> {
+    const packagePath = path.join(cwd, 'package.json');
+    return await fileExists(packagePath) ? (await readJson(packagePath)).version : undefined;
+  }
+}
@@ -0,0 +1,23 @@
+import type { CLI } from '@revolutionary-ui/cli-core';
+import { RegistryBuildCommand } from './build.js';
+
+export class RegistryCommands {
+  static async register(cli: CLI): Promise<void> {
+    // Create parent registry command
+    const registryCmd = cli.getProgram()
+      .command('registry')
+      .description('Build and host your own component registry');
+
+    // registry build
+    const buildCmd = new RegistryBuildCommand();
+    const build = registryCmd
+      .command(buildCmd.name)
+      .description(buildCmd.description);
+    for (const option of buildCmd.options) {
+      build.option(option.flags, option.description);
+    }
+    build.action(async (dir: string | undefined, options: any) => {
+      await buildCmd.action(dir, options, cli.getContext());
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  BaseCommand,
+  type CLIContext,
+  confirm,
+  withSpinner,
+  createLogger,
+  errors,
+  readFile,
+  writeFile,
+  fileExists,
+  readLockfile,
+  writeLockfile,
+  readBaseFile,
+  lockedPath,
+  lockComponent,
+  componentVersion,
+  mergeThreeWay
+} from '@revolutionary-ui/cli-core';
+import chalk from 'chalk';
+import path from 'path';
+import {
+  loadProjectConfig,
+  projectRegistries,
+  upstreamFiles,
+  verifyComponents
+} from '../lib/registry-components.js';
+
+type FileStatus = 'unchanged' | 'added' | 'updated' | 'kept' | 'merged' | 'conflict' | 'removed';
+
+interface FileUpdate {
+  path: string;
+  status: FileStatus;
+  // What is written to the project, when it changes
+  content?: string;
+  upstream?: string;
+  conflicts?: number;
+}
+
+const STATUS_LABELS: Record<FileStatus, string> = {
+  unchanged: chalk.gray('unchanged'),
+  added: chalk.green('added'),
+  updated: chalk.green('updated'),
+  kept: chalk.gray('local changes kept'),
+  merged: chalk.cyan('merged with local changes'),
+  conflict: chalk.red('conflicts'),
+  removed: chalk.yellow('removed upstream, kept locally'),
+};
+
+/**
+ * Brings added components up to date with their registry. Files without
+ * local edits are replaced; edited ones are merged three-way against the
+ * copy kept when they were added, leaving conflict markers where both
+ * sides changed the same lines.
+ */
+export class UpdateCommand extends BaseCommand {
+  name = 'update [components...]';
+  description = 'Update added components, merging upstream changes with local edits';
+
+  options = [
+    { flags: '-y, --yes', description: 'Skip confirmation prompt' },
+    { flags: '--dry-run', description: 'Preview changes without writing files' },
+    { flags: '--allow-unverified', description: 'Update components whose digests or signature do not verify' },
+    { flags: '-c, --cwd <cwd>', description: 'Working directory (default: current directory)' },
+  ];
+
+  async action(components: string[], options: any, context: CLIContext): Promise<void> {
+    const logger = createLogger();
+    const cwd = options.cwd ? path.resolve(options.cwd) : context.paths.cwd;
+    const lockfile = await readLockfile(cwd);
+
+    const names = components.length ? components : Object.keys(lockfile.components);
+    if (!names.length) {
+      logger.info('No components to update. Components added with "rui add" are listed in components.lock.json.');
+      return;
+    }
+
+    const unknown = names.filter(name => !lockfile.components[name]);
+    if (unknown.length) {
+      throw errors.component.notFound(unknown.join(', '));
+    }
+
+    const config = await loadProjectConfig(cwd);
+    const registries = projectRegistries(config, context.config);
+    const plans = [];
+
+    for (const name of names) {
+      const locked = lockfile.components[name];
+      const upstream = await withSpinner(
+        `Fetching ${name}...`,
+        async () => upstreamFiles(cwd, name, locked, config, registries)
+      );
+      verifyComponents([upstream.component], context.config.security?.trustedKeys, !!options.allowUnverified);
+      const version = componentVersion(upstream.component);
+      const updates = await this.planUpdates(cwd, locked.files.map(file => lockedPath(cwd, file.path)), upstream.files, version);
+
+      logger.info(chalk.bold(`\n${name} ${chalk.gray(`${locked.version} → ${version}`)}`));
+      for (const update of updates) {
+        logger.info(`  ${update.path} ${STATUS_LABELS[update.status]}`);
+      }
+
+      plans.push({ name, locked, version, updates });
+    }
+
+    const changes = plans.flatMap(plan => plan.updates).filter(update => update.content !== undefined);
+    if (!changes.length) {
+      logger.success('\nAll components are up to date.');
+      return;
+    }
+
+    if (options.dryRun) {
+      logger.info(chalk.yellow('\n🔍 Dry run complete. No files were modified.'));
+      return;
+    }
+
+    if (!options.yes) {
+      const proceed = await confirm(`\nWrite ${changes.length} changed file(s)?`, true);
+      if (!proceed) {
+        logger.info('Update cancelled.');
+        return;
+      }
+    }
+
+    for (const { name, locked, version, updates } of plans) {
+      for (const update of updates) {
+        if (update.content !== undefined) {
+          await writeFile(path.join(cwd, update.path), update.content);
+        }
+      }
+
+      // Upstream is the base of the next update; files removed upstream
+      // are no longer tracked
+      await lockComponent(cwd, lockfile, name, {
+        version,
+        registry: locked.registry,
+        path: locked.path,
+        files: updates
+          .filter(update => update.upstream !== undefined)
+          .map(update => ({ path: path.join(cwd, update.path), content: update.upstream! }))
+      });
+    }
+    await writeLockfile(cwd, lockfile);
+
+    const conflicted = changes.filter(update => update.status === 'conflict');
+    if (conflicted.length) {
+      logger.warn(`\n${conflicted.length} file(s) have conflicts both you and upstream changed:`);
+      for (const update of conflicted) {
+        logger.warn(`  ${update.path} (${update.conflicts} conflict${update.conflicts === 1 ? '' : 's'})`);
+      }
+      logger.info('Resolve the sections between <<<<<<< and >>>>>>> markers, then remove the markers.');
+    } else {
+      logger.success('\n✨ Components updated.');
+    }
+  }
+
+  private async planUpdates(
+    cwd: string,
+    lockedPaths: string[],
+    upstream: Map<string, string>,
+    version: string
+  ): Promise<FileUpdate[]> {
+    const updates: FileUpdate[] = [];
+
+    for (const filePath of new Set([...lockedPaths, ...upstream.keys()])) {
+      const absolutePath = path.join(cwd, filePath);
+      const local = await fileExists(absolutePath) ? await readFile(absolutePath) : null;
+      const base = await readBaseFile(cwd, filePath);
+      const next = upstream.get(filePath);
+
+      if (next === undefined) {
+        updates.push({ path: filePath, status: 'removed' });
+      } else if (local === null) {
+        updates.push({ path: filePath, status: 'added', content: next, upstream: next });
+      } else if (local === next) {
+        updates.push({ path: filePath, status: 'unchanged', upstream: next });
+      } else if (local === base) {
+        updates.push({ path: filePath, status: 'updated', content: next, upstream: next });
+      } else if (next === base) {
+        updates.push({ path: filePath, status: 'kept', upstream: next });
+      } else {
+        // Files without a base copy merge as if both sides added them
+        const merged = mergeThreeWay(base ?? '', local, next, {
+          local: 'local',
+          upstream: `upstream ${version}`
+        });
+        updates.push({
+          path: filePath,
+          status: merged.conflicts > 0 ? 'conflict' : 'merged',
+          content: merged.content,
+          upstream: next,
+          conflicts: merged.conflicts
+        });
+      }
+    }
+
+    return updates;
+  }
+}
@@ -0,0 +1,291 @@
+import {
+  readJson,
+  fileExists,
+  lockedPath,
+  RegistryCache,
+  fetchRegistryIndex,
+  fetchRegistryIndexes,
+  fetchRegistryComponent,
+  fetchComponentsFromRegistries,
+  resolveRegistries,
+  parseComponentName,
+  qualifiedName,
+  registryFor,
+  verifyIntegrity,
+  componentVersion,
+  createLogger,
+  errors,
+  type CLIConfig,
+  type LockedComponent,
+  type NamedRegistry,
+  type TrustedKey
+} from '@revolutionary-ui/cli-core';
+import {
+  ComponentSchema,
+  validateComponentSchema,
+  type ComponentFile,
+  type RegistryIndex
+} from '@revolutionary-ui/cli-core/schemas/component-schema';
+import path from 'path';
+
+/**
+ * Registry access and file transforms shared by the commands that copy
+ * component sources into a project (add, diff, update), and browse
+ */
+
+const DEFAULT_REGISTRY_URL = 'https://ui.revolutionary-ui.com/r';
+
+let cache: RegistryCache | undefined;
+
+// Registry files are cached across runs, so commands work offline
+function registryCache(): RegistryCache {
+  return cache ??= new RegistryCache();
+}
+
+export async function loadProjectConfig(cwd: string): Promise<any> {
+  const configPath = path.join(cwd, 'components.json');
+
+  if (await fileExists(configPath)) {
+    return await readJson(configPath);
+  }
+
+  // Default configuration
+  return {
+    $schema: 'https://ui.revolutionary-ui.com/schema.json',
+    style: 'default',
+    rsc: true,
+    tsx: true,
+    registry: DEFAULT_REGISTRY_URL,
+    tailwind: {
+      config: 'tailwind.config.js',
+      css: 'app/globals.css',
+      baseColor: 'slate',
+      cssVariables: true,
+    },
+    aliases: {
+      components: '@/components',
+      utils: '@/lib/utils',
+    },
+  };
+}
+
+export interface RegistryListing {
+  // Qualified, as `rui add` takes it
+  name: string;
+  registry: string;
+  entry: RegistryIndex['components'][number];
+}
+
+export interface LoadedRegistries {
+  registries: NamedRegistry[];
+  // Keyed by registry name
+  indexes: Map<string, RegistryIndex>;
+}
+
+/**
+ * The project's registries in resolution order: `registry` and `registries`
+ * from components.json, over named registries from the CLI config, where
+ * auth headers usually live. `override` replaces the default registry.
+ */
+export function projectRegistries(config: any, cliConfig: CLIConfig, override?: string): NamedRegistry[] {
+  return resolveRegistries(override || config.registry || DEFAULT_REGISTRY_URL, { ...cliConfig.registries, ...config.registries });
+}
+
+/**
+ * Every registry's index. Components are fetched once they are picked, with
+ * loadComponents.
+ */
+export async function loadRegistries(registries: NamedRegistry[]): Promise<LoadedRegistries> {
+  return { registries, indexes: await fetchRegistryIndexes(registries, { cache: registryCache() }) };
+}
+
+/**
+ * Every component of the registries, in resolution order
+ */
+export function listComponents(loaded: LoadedRegistries): RegistryListing[] {
+  return loaded.registries.flatMap(registry =>
+    (loaded.indexes.get(registry.name)?.components ?? []).map(entry => ({
+      name: qualifiedName(registry.name, entry.name),
+      registry: registry.name,
+      entry,
+    }))
+  );
+}
+
+/**
+ * Names no registry lists. A scoped name must be listed by its registry; an
+ * unscoped one by any.
+ */
+export function missingComponents(loaded: LoadedRegistries, names: string[]): string[] {
+  const listing = listComponents(loaded);
+  return names.filter(name => {
+    if (!parseComponentName(name).registry) {
+      return !listing.some(item => item.entry.name === name);
+    }
+    registryFor(name, loaded.registries);
+    return !listing.some(item => item.name === name);
+  });
+}
+
+/**
+ * Searches the registries' indexes, labelling each match with its registry.
+ * Registries that can't be read are skipped with a warning, so one being
+ * down doesn't hide the others.
+ */
+export async function searchRegistries(registries: NamedRegistry[], query: string): Promise<RegistryListing[]> {
+  const logger = createLogger();
+  const needle = query.toLowerCase();
+  const indexes = new Map<string, RegistryIndex>();
+
+  for (const registry of registries) {
+    try {
+      indexes.set(registry.name, await fetchRegistryIndex(registry.url, { cache: registryCache(), headers: registry.headers }));
+    } catch (error: any) {
+      logger.warn(`Skipped registry ${registry.name}: ${error.message}`);
+    }
+  }
+
+  return listComponents({ registries, indexes }).filter(({ entry }) =>
+    [entry.name, entry.description ?? '', ...(entry.tags ?? [])].some(text => text.toLowerCase().includes(needle))
+  );
+}
+
+/**
+ * Fetches picked components and their registryDependencies, keyed by
+ * qualified name. `onFetched` sees each component as published, which is
+ * what its signature covers.
+ */
+export async function loadComponents(
+  loaded: LoadedRegistries,
+  names: string[],
+  onFetched?: (component: ComponentSchema) => void
+): Promise<Map<string, ComponentSchema>> {
+  return fetchComponentsFromRegistries(loaded.registries, names, loaded.indexes, { cache: registryCache(), onFetched });
+}
+
+/**
+ * A component's current version. Components added from a URL or a file are
+ * locked with that as their registry and are read from it again.
+ */
+export async function fetchComponent(
+  registryUrl: string,
+  name: string,
+  headers: Record<string, string> = {}
+): Promise<ComponentSchema> {
+  if (registryUrl.endsWith('.json')) {
+    const data = /^https?:\/\//.test(registryUrl)
+      ? await (await fetch(registryUrl)).json()
+      : await readJson(registryUrl);
+    return validateComponentSchema(data);
+  }
+
+  return fetchRegistryComponent(registryUrl, name, { cache: registryCache(), headers });
+}
+
+/**
+ * Checks components' files against their published digests, and their
+ * publisher against the trusted keys, before any of them is written.
+ * Unverified components are refused unless explicitly allowed.
+ */
+export function verifyComponents(
+  components: Iterable<ComponentSchema>,
+  trustedKeys: TrustedKey[] | undefined,
+  allowUnverified: boolean
+): void {
+  const logger = createLogger();
+
+  for (const component of components) {
+    const { problems } = verifyIntegrity(component.name, componentVersion(component), component.files, component.integrity, trustedKeys, component);
+    if (!problems.length) continue;
+
+    if (!allowUnverified) {
+      throw errors.component.unverified(component.name, problems);
+    }
+    logger.warn(`Installing unverified ${component.name}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * A locked component's files as the registry has them now, keyed by their
+ * path in the project. Components from a named registry are locked under
+ * their qualified name and read with that registry's headers.
+ */
+export async function upstreamFiles(
+  cwd: string,
+  name: string,
+  locked: LockedComponent,
+  config: any,
+  registries: NamedRegistry[] = []
+): Promise<{ component: ComponentSchema; files: Map<string, string> }> {
+  // Local component files are locked relative to the project
+  const source = /^[a-z][a-z0-9+.-]*:\/\//i.test(locked.registry) ? locked.registry : path.resolve(cwd, locked.registry);
+  const headers = registries.find(registry => registry.url === locked.registry)?.headers;
+  const component = await fetchComponent(source, parseComponentName(name).name, headers);
+  const files = new Map<string, string>();
+  for (const file of component.files) {
+    const filePath = lockedPath(cwd, path.join(cwd, locked.path, file.path));
+    files.set(filePath, await transformContent(file.content, file, config));
+  }
+  return { component, files };
+}
+
+/**
+ * A file's content as it is written to the project. Diffs and merges compare
+ * registry files after this, so config changes don't show as upstream edits.
+ */
+export async function transformContent(
+  content: string,
+  file: ComponentFile,
+  config: any
+): Promise<string> {
+  // Transform imports based on aliases
+  if (config.aliases) {
+    for (const [alias, path] of Object.entries(config.aliases)) {
+      const aliasPattern = new RegExp(`from ['"]@/${alias}`, 'g');
+      content = content.replace(aliasPattern, `from '${path}`);
+    }
+  }
+
+  // Transform based on TypeScript settings
+  if (!config.tsx && file.type === 'component') {
+    // Convert to JavaScript if needed
+    content = convertToJavaScript(content);
+  }
+
+  // Add CSS variables prefix if configured
+  if (config.tailwind?.prefix) {
+    content = addTailwindPrefix(content, config.tailwind.prefix);
+  }
+
+  return content;
+}
+
+function convertToJavaScript(content: string): string {
+  // Simple TypeScript to JavaScript conversion
+  // In production, use a proper transpiler
+  return content
+    .replace(/: React\.FC<.*?>/, '')
+    .replace(/: string/g, '')
+    .replace(/: number/g, '')
+    .replace(/: boolean/g, '')
+    .replace(/: any/g, '')
+    .replace(/interface \w+ {[^}]+}/g, '')
+    .replace(/type \w+ = [^;]+;/g, '');
+}
+
+function addTailwindPrefix(content: string, prefix: string): string {
+  // Add prefix to Tailwind classes
+  const classPattern = /className=["']([^"']+)["']/g;
+  return content.replace(classPattern, (match, classes) => {
+    const prefixedClasses = classes
+      .split(' ')
+      .map((cls: string) => {
+        if (cls.startsWith('!')) {
+          return `!${prefix}-${cls.slice(1)}`;
+        }
+        return `${prefix}-${cls}`;
+      })
+      .join(' ');
+    return `className="${prefixedClasses}"`;
+  });
+}
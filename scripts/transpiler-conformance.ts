@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+
+/**
+ * Transpiler Conformance Script
+ * Round-trips the reference corpus through every registered transpiler pair
+ * and prints the measured fidelity matrix with what each pair loses.
+ *
+ * Usage: npm run test:conformance [-- --verbose]
+ */
+
+import { formatFidelityMatrix, runConformance } from '../src/transpiler/conformance/harness';
+
+const verbose = process.argv.includes('--verbose');
+
+async function main() {
+  const report = await runConformance();
+
+  console.log('Round-trip fidelity (source → target → source)\n');
+  console.log(formatFidelityMatrix(report));
+
+  // The matrix footnotes say why one-way pairs have no results
+  for (const pair of report.pairs.filter(entry => !entry.oneWay)) {
+    const issues = pair.results.filter(result => result.error || result.fidelity !== 1);
+    if (issues.length === 0) continue;
+
+    console.log(`\n${pair.source} → ${pair.target}`);
+    for (const result of issues) {
+      if (result.error) {
+        console.log(`  ${result.component}: ${result.error}`);
+        continue;
+      }
+      const losses = Object.entries(result.aspects)
+        .filter(([, comparison]) => comparison.lost.length > 0 || comparison.added.length > 0)
+        .map(([aspect, comparison]) => {
+          const changes = [...comparison.lost.map(name => `-${name}`), ...comparison.added.map(name => `+${name}`)];
+          return `${aspect} ${changes.join(' ')}`;
+        });
+      console.log(`  ${result.component} (${Math.round(result.fidelity! * 100)}%): ${losses.join('; ')}`);
+      if (verbose) {
+        console.log(`    via ${result.path.join(' → ')}`);
+      }
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
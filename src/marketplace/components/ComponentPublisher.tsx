@@ -97,15 +97,20 @@ export const ComponentPublisher: React.FC<ComponentPublisherProps> = ({
   };
 
   const generatePreview = () => {
-    const code = exporter.exportToCode([component], {
-      format: 'code',
-      framework: 'react',
-      styling: 'tailwind',
-      typescript: true,
-      includeImports: true,
-      prettier: true
-    });
-    setPreviewCode(code);
+    try {
+      const code = exporter.exportToCode([component], {
+        format: 'code',
+        framework: 'react',
+        styling: 'tailwind',
+        typescript: true,
+        includeImports: true,
+        prettier: true
+      });
+      setPreviewCode(code);
+    } catch (error) {
+      // Components that don't validate can't be published either
+      setPreviewCode(`// ${error instanceof Error ? error.message.split('\n').join('\n// ') : 'Export failed'}`);
+    }
   };
 
   React.useEffect(() => {
@@ -2,20 +2,77 @@ import { parse } from '@babel/parser';
 import traverse from '@babel/traverse';
 import generate from '@babel/generator';
 import * as t from '@babel/types';
-import { ComponentAST, TranspilationResult, FrameworkType, ComponentMetadata } from './types';
-import { ReactToVueTranspiler } from './transpilers/ReactToVueTranspiler';
-import { VueToReactTranspiler } from './transpilers/VueToReactTranspiler';
-import { ReactToAngularTranspiler } from './transpilers/ReactToAngularTranspiler';
-import { AngularToReactTranspiler } from './transpilers/AngularToReactTranspiler';
-import { ReactToSvelteTranspiler } from './transpilers/ReactToSvelteTranspiler';
-import { SvelteToReactTranspiler } from './transpilers/SvelteToReactTranspiler';
-import { VueToAngularTranspiler } from './transpilers/VueToAngularTranspiler';
-import { AngularToVueTranspiler } from './transpilers/AngularToVueTranspiler';
-import { VueToSvelteTranspiler } from './transpilers/VueToSvelteTranspiler';
-import { SvelteToVueTranspiler } from './transpilers/SvelteToVueTranspiler';
+import { ComponentAST, TranspilationResult, TranspilationHop, FrameworkType, ComponentMetadata } from './types';
+import { BaseTranspiler } from './transpilers/BaseTranspiler';
+import { ReactToSolidTranspiler } from './transpilers/ReactToSolidTranspiler';
+import { SolidToReactTranspiler } from './transpilers/SolidToReactTranspiler';
+import { ReactToPreactTranspiler } from './transpilers/ReactToPreactTranspiler';
+import { PreactToReactTranspiler } from './transpilers/PreactToReactTranspiler';
+import { ReactToLitTranspiler } from './transpilers/ReactToLitTranspiler';
+import { IRTranspiler } from './transpilers/IRTranspiler';
+import { IREmitter, IRParser } from './ir/types';
+import { dependencyInfo, propTypes } from './ir/builders';
+import { ReactIRParser } from './ir/parsers/ReactIRParser';
+import { VueIRParser } from './ir/parsers/VueIRParser';
+import { AngularIRParser } from './ir/parsers/AngularIRParser';
+import { SvelteIRParser } from './ir/parsers/SvelteIRParser';
+import { ReactIREmitter } from './ir/emitters/ReactIREmitter';
+import { VueIREmitter } from './ir/emitters/VueIREmitter';
+import { AngularIREmitter } from './ir/emitters/AngularIREmitter';
+import { SvelteIREmitter } from './ir/emitters/SvelteIREmitter';
+import { translateJSXStyling, TranslatedStyling, translatesStyling } from './styling';
+import { composeMappings, encodeSourceMap, extractSourceMap, FRAMEWORK_EXTENSIONS, SourceMappings } from './sourcemap';
+
+// Rough share of a component each direct transpiler carries across intact.
+// Routes multiply these, so every extra hop costs fidelity.
+const PAIR_FIDELITY: Record<string, number> = {
+  'react-vue': 0.85,
+  'react-angular': 0.75,
+  'react-svelte': 0.8,
+  'react-solid': 0.85,
+  'react-preact': 0.95,
+  'react-lit': 0.75,
+  'vue-react': 0.8,
+  'vue-angular': 0.75,
+  'vue-svelte': 0.85,
+  'angular-react': 0.75,
+  'angular-vue': 0.8,
+  'angular-svelte': 0.75,
+  'svelte-react': 0.8,
+  'svelte-vue': 0.85,
+  'svelte-angular': 0.75,
+  'solid-react': 0.85,
+  'preact-react': 0.95
+};
+
+// Unrated pairs score this low so routing prefers rated chains over them
+const UNRATED_FIDELITY = 0.1;
+
+const MAX_ROUTE_HOPS = 3;
+
+// Frameworks with an IR parser and emitter; any two of them can be paired
+const IR_PARSERS: Partial<Record<FrameworkType, () => IRParser>> = {
+  react: () => new ReactIRParser(),
+  preact: () => new ReactIRParser(),
+  vue: () => new VueIRParser(),
+  angular: () => new AngularIRParser(),
+  svelte: () => new SvelteIRParser()
+};
+
+const IR_EMITTERS: Partial<Record<FrameworkType, () => IREmitter>> = {
+  react: () => new ReactIREmitter(),
+  vue: () => new VueIREmitter(),
+  angular: () => new AngularIREmitter(),
+  svelte: () => new SvelteIREmitter()
+};
+
+interface TranspilationRoute {
+  path: FrameworkType[];
+  fidelity: number;
+}
 
 export class FrameworkTranspiler {
-  private transpilers: Map<string, any>;
+  private transpilers: Map<string, BaseTranspiler>;
   
   constructor() {
     this.transpilers = new Map();
@@ -24,22 +81,23 @@ export class FrameworkTranspiler {
 
   private registerTranspilers() {
     // React transpilers
-    this.transpilers.set('react-vue', new ReactToVueTranspiler());
-    this.transpilers.set('react-angular', new ReactToAngularTranspiler());
-    this.transpilers.set('react-svelte', new ReactToSvelteTranspiler());
-    
-    // Vue transpilers
-    this.transpilers.set('vue-react', new VueToReactTranspiler());
-    this.transpilers.set('vue-angular', new VueToAngularTranspiler());
-    this.transpilers.set('vue-svelte', new VueToSvelteTranspiler());
-    
-    // Angular transpilers
-    this.transpilers.set('angular-react', new AngularToReactTranspiler());
-    this.transpilers.set('angular-vue', new AngularToVueTranspiler());
-    
-    // Svelte transpilers
-    this.transpilers.set('svelte-react', new SvelteToReactTranspiler());
-    this.transpilers.set('svelte-vue', new SvelteToVueTranspiler());
+    this.transpilers.set('react-solid', new ReactToSolidTranspiler());
+    this.transpilers.set('react-preact', new ReactToPreactTranspiler());
+    this.transpilers.set('react-lit', new ReactToLitTranspiler());
+
+    // Solid and Preact transpilers
+    this.transpilers.set('solid-react', new SolidToReactTranspiler());
+    this.transpilers.set('preact-react', new PreactToReactTranspiler());
+
+    // Remaining pairs between IR frameworks go through the IR
+    for (const source of ['react', 'vue', 'angular', 'svelte'] as FrameworkType[]) {
+      for (const target of Object.keys(IR_EMITTERS) as FrameworkType[]) {
+        const key = `${source}-${target}`;
+        if (source !== target && !this.transpilers.has(key)) {
+          this.transpilers.set(key, new IRTranspiler(IR_PARSERS[source]!(), IR_EMITTERS[target]!()));
+        }
+      }
+    }
   }
 
   async transpile(
@@ -55,35 +113,109 @@ export class FrameworkTranspiler {
           success: true,
           code,
           framework: sourceFramework,
-          warnings: ['Source and target frameworks are the same']
+          warnings: ['Source and target frameworks are the same'],
+          path: [sourceFramework],
+          hops: [],
+          fidelity: 1
         };
       }
 
-      // Get appropriate transpiler
-      const transpilerKey = `${sourceFramework}-${targetFramework}`;
-      const transpiler = this.transpilers.get(transpilerKey);
-      
-      if (!transpiler) {
+      // Find the best chain of registered transpilers
+      const route = this.findRoute(sourceFramework, targetFramework);
+
+      if (!route) {
         throw new Error(`No transpiler available for ${sourceFramework} to ${targetFramework}`);
       }
 
-      // Extract component metadata
-      const metadata = await this.extractComponentMetadata(code, sourceFramework);
-      
-      // Perform transpilation
-      const result = await transpiler.transpile(code, metadata, options);
-      
+      const hops: TranspilationHop[] = [];
+      // Maps from each intermediate hop's output back to its input
+      const hopMappings: SourceMappings[] = [];
+      let componentName = options.componentName;
+      let result: any = { code };
+
+      for (let i = 0; i < route.path.length - 1; i++) {
+        const hopSource = route.path[i];
+        const hopTarget = route.path[i + 1];
+        const transpilerKey = `${hopSource}-${hopTarget}`;
+        const transpiler = this.transpilers.get(transpilerKey)!;
+
+        let styling: TranslatedStyling | undefined;
+        try {
+          // Styling is translated on the input of the hop into a styled framework
+          let input: string = result.code;
+          if (options.styling === 'translate' && translatesStyling(hopSource, hopTarget)) {
+            styling = translateJSXStyling(input, hopTarget);
+            input = styling.code;
+          }
+
+          // Extract component metadata from this hop's input
+          let metadata = await this.extractComponentMetadata(input, hopSource);
+          if (options.componentName) {
+            metadata = this.withName(metadata, options.componentName);
+          }
+          if (styling) {
+            metadata = this.withStyling(metadata, styling);
+          }
+          componentName ??= metadata.name;
+
+          // Perform transpilation
+          result = await transpiler.transpile(input, metadata, options);
+
+          // The next hop must parse code without source markers
+          if (options.generateSourceMap && i < route.path.length - 2) {
+            const extracted = extractSourceMap(result.code);
+            result = { ...result, code: extracted.code };
+            hopMappings.push(extracted.mappings);
+          }
+        } catch (error) {
+          if (route.path.length === 2) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          throw new Error(`${hopSource} to ${hopTarget} step of ${route.path.join(' → ')} failed: ${message}`);
+        }
+
+        hops.push({
+          source: hopSource,
+          target: hopTarget,
+          warnings: [...(styling?.warnings ?? []), ...(result.warnings || [])],
+          fidelity: this.pairFidelity(transpilerKey)
+        });
+      }
+
       // Post-process the result
       const postProcessed = await this.postProcess(result, targetFramework, options);
-      
+
+      // Markers of the last hop are read after formatting so they follow the lines they mark
+      let sourceMap: string | undefined;
+      if (options.generateSourceMap) {
+        const extracted = extractSourceMap(postProcessed.code);
+        postProcessed.code = extracted.code;
+        const name = componentName || 'Component';
+        const mappings = hopMappings.reduceRight(composeMappings, extracted.mappings);
+        sourceMap = JSON.stringify(encodeSourceMap(mappings, {
+          file: `${name}.${FRAMEWORK_EXTENSIONS[targetFramework]}`,
+          source: options.sourceFileName ?? `${name}.${FRAMEWORK_EXTENSIONS[sourceFramework]}`,
+          sourceContent: code
+        }));
+      }
+
+      // Label warnings with their hop once there is more than one
+      const warnings = hops.length > 1
+        ? hops.flatMap(hop => hop.warnings.map(warning => `[${hop.source} → ${hop.target}] ${warning}`))
+        : hops[0].warnings;
+
       return {
         success: true,
         code: postProcessed.code,
         framework: targetFramework,
         metadata: postProcessed.metadata,
         imports: postProcessed.imports,
-        warnings: postProcessed.warnings || [],
-        sourceMap: options.generateSourceMap ? postProcessed.sourceMap : undefined
+        warnings,
+        sourceMap,
+        path: route.path,
+        hops,
+        fidelity: route.fidelity
       };
     } catch (error) {
       return {
@@ -96,7 +228,62 @@ export class FrameworkTranspiler {
     }
   }
 
-  private async extractComponentMetadata(
+  // Source and target of every registered direct transpiler
+  getRegisteredPairs(): Array<[FrameworkType, FrameworkType]> {
+    return [...this.transpilers.keys()].map(key => key.split('-') as [FrameworkType, FrameworkType]);
+  }
+
+  hasRoute(sourceFramework: FrameworkType, targetFramework: FrameworkType): boolean {
+    return this.findRoute(sourceFramework, targetFramework) !== null;
+  }
+
+  // Find the registered transpiler chain from source to target with the
+  // highest combined fidelity; shorter routes win ties
+  private findRoute(
+    sourceFramework: FrameworkType,
+    targetFramework: FrameworkType
+  ): TranspilationRoute | null {
+    let best: TranspilationRoute | null = null;
+    const queue: TranspilationRoute[] = [{ path: [sourceFramework], fidelity: 1 }];
+
+    while (queue.length > 0) {
+      const route = queue.shift()!;
+      const current = route.path[route.path.length - 1];
+
+      if (current === targetFramework) {
+        if (!best || route.fidelity > best.fidelity) {
+          best = route;
+        }
+        continue;
+      }
+
+      if (route.path.length > MAX_ROUTE_HOPS) {
+        continue;
+      }
+
+      for (const key of this.transpilers.keys()) {
+        const [from, to] = key.split('-') as FrameworkType[];
+        if (from !== current || route.path.includes(to)) {
+          continue;
+        }
+
+        queue.push({
+          path: [...route.path, to],
+          fidelity: route.fidelity * this.pairFidelity(key)
+        });
+      }
+    }
+
+    return best;
+  }
+
+  private pairFidelity(transpilerKey: string): number {
+    return PAIR_FIDELITY[transpilerKey] ?? UNRATED_FIDELITY;
+  }
+
+  // Metadata as each hop sees its input, with the IR for frameworks that
+  // have a parser
+  async extractComponentMetadata(
     code: string,
     framework: FrameworkType
   ): Promise<ComponentMetadata> {
@@ -113,18 +300,60 @@ export class FrameworkTranspiler {
 
     switch (framework) {
       case 'react':
-        return this.extractReactMetadata(code);
+      case 'preact':
+      case 'solid':
+        return this.withIR(this.extractReactMetadata(code), code, framework);
       case 'vue':
-        return this.extractVueMetadata(code);
+        return this.withIR(this.extractVueMetadata(code), code, framework);
       case 'angular':
-        return this.extractAngularMetadata(code);
+        return this.withIR(this.extractAngularMetadata(code), code, framework);
       case 'svelte':
-        return this.extractSvelteMetadata(code);
+        return this.withIR(this.extractSvelteMetadata(code), code, framework);
       default:
         return metadata;
     }
   }
 
+  // Attach the IR for frameworks that have a parser. Failures are left to
+  // IR transpilers to report, so AST transpilers still get their metadata.
+  private withIR(metadata: ComponentMetadata, code: string, framework: FrameworkType): ComponentMetadata {
+    const parser = IR_PARSERS[framework];
+    if (!parser) {
+      return metadata;
+    }
+    try {
+      const ir = parser().parse(code);
+      return { ...metadata, name: ir.name, ir };
+    } catch {
+      return metadata;
+    }
+  }
+
+  // Name the component as the caller asked, e.g. after its file for SFCs,
+  // which don't name themselves
+  private withName(metadata: ComponentMetadata, name: string): ComponentMetadata {
+    return { ...metadata, name, ...(metadata.ir ? { ir: { ...metadata.ir, name } } : {}) };
+  }
+
+  // Translated styles become component styles, for the metadata-driven
+  // transpilers and the IR alike
+  private withStyling(metadata: ComponentMetadata, styling: TranslatedStyling): ComponentMetadata {
+    const styles = [metadata.styles, styling.css].filter(Boolean).join('\n\n');
+    const styleUrls = [...(metadata.styleUrls ?? []), ...styling.stylesheets];
+    const ir = metadata.ir && {
+      ...metadata.ir,
+      styles: [
+        ...metadata.ir.styles,
+        ...(styling.css ? [{ content: styling.css, scoped: true }] : []),
+        ...styling.stylesheets.map(src => {
+          const lang = /\.(scss|sass|less)$/.exec(src)?.[1];
+          return { content: '', scoped: true, src, ...(lang ? { lang } : {}) };
+        })
+      ]
+    };
+    return { ...metadata, styles, ...(styleUrls.length ? { styleUrls } : {}), ...(ir ? { ir } : {}) };
+  }
+
   private extractReactMetadata(code: string): ComponentMetadata {
     const ast = parse(code, {
       sourceType: 'module',
@@ -145,24 +374,8 @@ export class FrameworkTranspiler {
     traverse(ast, {
       // Extract imports
       ImportDeclaration(path) {
-        const source = path.node.source.value;
-        const specifiers = path.node.specifiers.map(spec => {
-          if (t.isImportDefaultSpecifier(spec)) {
-            return { name: spec.local.name, type: 'default' };
-          } else if (t.isImportSpecifier(spec)) {
-            return { 
-              name: spec.local.name, 
-              type: 'named',
-              imported: (spec.imported as t.Identifier).name 
-            };
-          }
-          return null;
-        }).filter(Boolean);
-
-        metadata.dependencies.push({
-          source,
-          specifiers: specifiers as any
-        });
+        // Keeps `import type` and inline `type` specifiers
+        metadata.dependencies.push(dependencyInfo(path.node));
       },
 
       // Extract component name and props
@@ -171,14 +384,21 @@ export class FrameworkTranspiler {
           metadata.name = path.node.id.name;
         }
         
-        // Extract props from parameters
+        // Extract props from parameters, typed by their annotation
         const params = path.node.params;
         if (params.length > 0 && t.isObjectPattern(params[0])) {
+          const annotation = params[0].typeAnnotation;
+          const types = propTypes(ast.program, t.isTSTypeAnnotation(annotation) ? annotation.typeAnnotation : null);
+
           params[0].properties.forEach(prop => {
             if (t.isObjectProperty(prop) && t.isIdentifier(prop.key)) {
+              const type = types.get(prop.key.name);
+              const defaultValue = t.isAssignmentPattern(prop.value) ? generate(prop.value.right).code : undefined;
               metadata.props[prop.key.name] = {
-                type: 'any',
-                required: false
+                type: type?.type ?? 'any',
+                required: !!type && !type.optional && defaultValue === undefined,
+                ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+                ...(type?.description ? { description: type.description } : {})
               };
             }
           });
@@ -190,8 +410,8 @@ export class FrameworkTranspiler {
         if (t.isIdentifier(path.node.callee)) {
           const hookName = path.node.callee.name;
           
-          // useState
-          if (hookName === 'useState') {
+          // useState (createSignal in Solid)
+          if (hookName === 'useState' || hookName === 'createSignal') {
             const parent = path.findParent(p => p.isVariableDeclarator());
             if (parent && t.isArrayPattern((parent.node as any).id)) {
               const elements = (parent.node as any).id.elements;
@@ -217,6 +437,11 @@ export class FrameworkTranspiler {
               metadata.lifecycle.mounted = generate(path.node.arguments[0]).code;
             }
           }
+
+          // onMount (Solid)
+          if (hookName === 'onMount') {
+            metadata.lifecycle.mounted = generate(path.node.arguments[0]).code;
+          }
         }
       },
 
@@ -598,12 +823,16 @@ export class FrameworkTranspiler {
   }
 }
 
-interface TranspileOptions {
+export interface TranspileOptions {
   format?: boolean;
   addBoilerplate?: boolean;
   optimizeImports?: boolean;
   generateSourceMap?: boolean;
+  // Input file name recorded in source maps; defaults to the component name
+  sourceFileName?: string;
   preserveComments?: boolean;
   typescript?: boolean;
   componentName?: string;
+  // Keep styling as written, or translate it to the target's (see styling.ts)
+  styling?: 'preserve' | 'translate';
 }
\ No newline at end of file
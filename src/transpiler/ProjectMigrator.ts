@@ -0,0 +1,378 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { glob } from 'glob';
+import { FrameworkTranspiler, TranspileOptions } from './FrameworkTranspiler';
+import { FrameworkType } from './types';
+import { kebabCase, pascalCase } from './ir/utils';
+
+// Suffix that marks a file as a component of each framework
+const COMPONENT_SUFFIXES: Record<FrameworkType, string[]> = {
+  react: ['.tsx', '.jsx'],
+  preact: ['.tsx', '.jsx'],
+  solid: ['.tsx', '.jsx'],
+  vue: ['.vue'],
+  svelte: ['.svelte'],
+  angular: ['.component.ts'],
+  lit: ['.ts']
+};
+
+// Runtime packages whose imports tie a shared module to the source framework
+const FRAMEWORK_PACKAGES: Record<FrameworkType, string[]> = {
+  react: ['react', 'react-dom'],
+  preact: ['preact'],
+  solid: ['solid-js'],
+  vue: ['vue'],
+  svelte: ['svelte'],
+  angular: ['@angular/core', '@angular/common', '@angular/forms'],
+  lit: ['lit']
+};
+
+// Files that import other modules and need their specifiers rewritten
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Frameworks whose components are single-file components imported with their extension
+const SFC_FRAMEWORKS: FrameworkType[] = ['vue', 'svelte'];
+
+const STATE_FILE = '.migration-state.json';
+const REPORT_FILE = 'MIGRATION-REPORT.md';
+
+// Static and dynamic imports and re-exports of relative paths
+const RELATIVE_IMPORT = /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(['"])(\.{1,2}\/[^'"]*)\2/g;
+const NAMED_COMPONENT_IMPORT = /\b(import|export)\s*\{\s*(\w+)(?:\s+as\s+(\w+))?\s*\}\s*from\s*(['"])([^'"]+)\4/g;
+
+export interface ProjectMigrationOptions {
+  sourceDir: string;
+  outDir: string;
+  sourceFramework: FrameworkType;
+  targetFramework: FrameworkType;
+  // Skip files a previous, interrupted run already finished
+  resume?: boolean;
+  // Glob patterns, relative to sourceDir, to leave out
+  ignore?: string[];
+  // Components converted with a lower route fidelity are listed for review
+  reviewThreshold?: number;
+  transpileOptions?: TranspileOptions;
+  onProgress?: (file: MigratedFile, index: number, total: number) => void;
+}
+
+export interface MigratedFile {
+  // Relative to the source directory
+  source: string;
+  // Relative to the output directory; set for failed components too, as
+  // imports already point there
+  output: string;
+  kind: 'component' | 'module' | 'asset';
+  status: 'migrated' | 'copied' | 'failed';
+  sourceHash: string;
+  warnings: string[];
+  fidelity?: number;
+  error?: string;
+}
+
+export interface MigrationReport {
+  sourceFramework: FrameworkType;
+  targetFramework: FrameworkType;
+  files: MigratedFile[];
+  // Files taken over from a previous run
+  resumed: number;
+  reportPath: string;
+}
+
+interface MigrationState {
+  sourceFramework: FrameworkType;
+  targetFramework: FrameworkType;
+  files: Record<string, MigratedFile>;
+}
+
+/**
+ * Migrates a whole project directory from one framework to another.
+ * Components are transpiled one by one and renamed for the target, shared
+ * modules and assets are carried over, and relative imports between them
+ * are rewritten to the new file names. Progress is saved after every file,
+ * so an interrupted run can resume where it stopped.
+ */
+export class ProjectMigrator {
+  private sourceDir: string;
+  private outDir: string;
+  // Output path of every component, by absolute source path
+  private outputs = new Map<string, string>();
+
+  constructor(
+    private options: ProjectMigrationOptions,
+    private transpiler: FrameworkTranspiler = new FrameworkTranspiler()
+  ) {
+    this.sourceDir = path.resolve(options.sourceDir);
+    this.outDir = path.resolve(options.outDir);
+  }
+
+  async migrate(): Promise<MigrationReport> {
+    const { sourceFramework, targetFramework } = this.options;
+    if (!this.transpiler.hasRoute(sourceFramework, targetFramework)) {
+      throw new Error(`No transpiler available for ${sourceFramework} to ${targetFramework}`);
+    }
+
+    const files = await this.listFiles();
+    this.outputs = new Map(
+      files.filter(file => this.isComponent(file)).map(file => [path.join(this.sourceDir, file), this.componentOutput(file)])
+    );
+
+    await fs.mkdir(this.outDir, { recursive: true });
+    const previous = this.options.resume ? await this.loadState() : undefined;
+    const state: MigrationState = { sourceFramework, targetFramework, files: {} };
+    let resumed = 0;
+
+    for (const [index, file] of files.entries()) {
+      const content = await fs.readFile(path.join(this.sourceDir, file));
+      const sourceHash = crypto.createHash('sha256').update(content).digest('hex');
+
+      let entry = previous?.files[file];
+      if (entry && entry.sourceHash === sourceHash && entry.status !== 'failed' && await this.exists(entry.output)) {
+        resumed++;
+      } else {
+        entry = await this.migrateFile(file, content, sourceHash);
+      }
+
+      state.files[file] = entry;
+      await this.saveState(state);
+      this.options.onProgress?.(entry, index, files.length);
+    }
+
+    const report: MigrationReport = {
+      sourceFramework,
+      targetFramework,
+      files: Object.values(state.files),
+      resumed,
+      reportPath: path.join(this.outDir, REPORT_FILE)
+    };
+    await fs.writeFile(report.reportPath, this.formatReport(report));
+    return report;
+  }
+
+  private async listFiles(): Promise<string[]> {
+    const ignore = ['**/node_modules/**', '**/.git/**', ...(this.options.ignore ?? [])];
+    // Don't migrate earlier output when it lives inside the source tree
+    const outDir = path.relative(this.sourceDir, this.outDir);
+    if (outDir && !outDir.startsWith('..') && !path.isAbsolute(outDir)) {
+      ignore.push(`${outDir.split(path.sep).join('/')}/**`);
+    }
+
+    const files = await glob('**/*', { cwd: this.sourceDir, nodir: true, dot: false, ignore });
+    return files.sort();
+  }
+
+  private async migrateFile(file: string, content: Buffer, sourceHash: string): Promise<MigratedFile> {
+    if (this.isComponent(file)) {
+      return this.migrateComponent(file, content.toString('utf8'), sourceHash);
+    }
+
+    const output = file;
+    const target = path.join(this.outDir, output);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    if (!MODULE_EXTENSIONS.includes(path.extname(file))) {
+      await fs.writeFile(target, content);
+      return { source: file, output, kind: 'asset', status: 'copied', sourceHash, warnings: [] };
+    }
+
+    // Shared modules (composables, hooks, stores, utilities) are carried over as they are
+    const code = content.toString('utf8');
+    await fs.writeFile(target, this.rewriteImports(code, file, output));
+    const packages = this.frameworkImports(code);
+    const warnings = packages.length > 0
+      ? [`Imports ${packages.join(', ')}; port it to ${this.options.targetFramework} by hand`]
+      : [];
+    return { source: file, output, kind: 'module', status: 'copied', sourceHash, warnings };
+  }
+
+  private async migrateComponent(file: string, code: string, sourceHash: string): Promise<MigratedFile> {
+    const { sourceFramework, targetFramework } = this.options;
+    const output = this.outputs.get(path.join(this.sourceDir, file))!;
+    const result = await this.transpiler.transpile(code, sourceFramework, targetFramework, {
+      typescript: true,
+      ...this.options.transpileOptions,
+      // Single-file components are named after their file
+      ...(SFC_FRAMEWORKS.includes(sourceFramework) ? { componentName: this.componentName(file) } : {})
+    });
+
+    if (!result.success) {
+      return { source: file, output, kind: 'component', status: 'failed', sourceHash, warnings: [], error: result.error };
+    }
+
+    const target = path.join(this.outDir, output);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, this.rewriteImports(result.code, file, output));
+    return {
+      source: file,
+      output,
+      kind: 'component',
+      status: 'migrated',
+      sourceHash,
+      warnings: result.warnings,
+      fidelity: result.fidelity
+    };
+  }
+
+  private isComponent(file: string): boolean {
+    return COMPONENT_SUFFIXES[this.options.sourceFramework].some(suffix => file.endsWith(suffix));
+  }
+
+  private componentBase(file: string): string {
+    const suffix = COMPONENT_SUFFIXES[this.options.sourceFramework].find(entry => file.endsWith(entry))!;
+    return file.slice(0, -suffix.length);
+  }
+
+  private componentName(file: string): string {
+    return pascalCase(path.basename(this.componentBase(file)));
+  }
+
+  // Angular names component files in kebab-case; the others after the component
+  private componentOutput(file: string): string {
+    const { sourceFramework, targetFramework, transpileOptions } = this.options;
+    const base = this.componentBase(file);
+    const name = path.basename(base);
+    const script = transpileOptions?.typescript === false ? 'js' : 'ts';
+
+    let output: string;
+    switch (targetFramework) {
+      case 'angular':
+        output = `${kebabCase(name)}.component.ts`;
+        break;
+      case 'vue':
+      case 'svelte':
+        output = `${name}.${targetFramework}`;
+        break;
+      case 'lit':
+        output = `${name}.${script}`;
+        break;
+      default:
+        output = `${name}.${script}x`;
+    }
+    if (sourceFramework === 'angular' && targetFramework !== 'angular') {
+      output = pascalCase(output);
+    }
+    return path.join(path.dirname(base), output);
+  }
+
+  /**
+   * Point relative imports of migrated components at their new files. Target
+   * SFCs are imported with their extension and export a default component,
+   * so named imports and re-exports of them become default ones; script
+   * targets drop the extension.
+   */
+  private rewriteImports(code: string, source: string, output: string): string {
+    const sourceDir = path.dirname(path.join(this.sourceDir, source));
+    const outputDir = path.dirname(path.join(this.outDir, output));
+    const targetSFC = SFC_FRAMEWORKS.includes(this.options.targetFramework);
+    const components = new Set<string>();
+
+    const rewritten = code.replace(RELATIVE_IMPORT, (statement: string, prefix: string, quote: string, specifier: string) => {
+      const component = this.resolveComponent(path.resolve(sourceDir, specifier));
+      if (!component) return statement;
+
+      let relative = path.relative(outputDir, path.join(this.outDir, component)).split(path.sep).join('/');
+      if (!relative.startsWith('.')) relative = `./${relative}`;
+      if (!targetSFC) relative = relative.replace(/\.(tsx|jsx|ts|js)$/, '');
+      components.add(relative);
+      return `${prefix}${quote}${relative}${quote}`;
+    });
+
+    if (!targetSFC) return rewritten;
+    return rewritten.replace(
+      NAMED_COMPONENT_IMPORT,
+      (statement: string, keyword: string, name: string, alias: string | undefined, quote: string, specifier: string) => {
+        if (!components.has(specifier)) return statement;
+        const binding = keyword === 'import' ? alias ?? name : `{ default as ${alias ?? name} }`;
+        return `${keyword} ${binding} from ${quote}${specifier}${quote}`;
+      }
+    );
+  }
+
+  // Output path of the component an import resolves to, trying the
+  // extensions the source framework leaves off
+  private resolveComponent(resolved: string): string | undefined {
+    const extensions = [...COMPONENT_SUFFIXES[this.options.sourceFramework], ...MODULE_EXTENSIONS];
+    const candidates = [resolved, ...extensions.map(extension => resolved + extension)];
+    const match = candidates.find(candidate => this.outputs.has(candidate));
+    return match ? this.outputs.get(match) : undefined;
+  }
+
+  private frameworkImports(code: string): string[] {
+    const specifiers = [...code.matchAll(/\bfrom\s*['"]([^'"]+)['"]/g)].map(match => match[1]);
+    return FRAMEWORK_PACKAGES[this.options.sourceFramework].filter(pkg =>
+      specifiers.some(specifier => specifier === pkg || specifier.startsWith(`${pkg}/`))
+    );
+  }
+
+  private needsReview(file: MigratedFile): boolean {
+    const threshold = this.options.reviewThreshold ?? 0.8;
+    return file.status === 'failed' || file.warnings.length > 0 || (file.fidelity !== undefined && file.fidelity < threshold);
+  }
+
+  private formatReport(report: MigrationReport): string {
+    const count = (kind: MigratedFile['kind'], status: MigratedFile['status']) =>
+      report.files.filter(file => file.kind === kind && file.status === status).length;
+    const review = report.files.filter(file => this.needsReview(file));
+
+    const lines = [
+      `# Migration report: ${report.sourceFramework} → ${report.targetFramework}`,
+      '',
+      `- Components migrated: ${count('component', 'migrated')}`,
+      `- Components failed: ${count('component', 'failed')}`,
+      `- Modules carried over: ${count('module', 'copied')}`,
+      `- Assets copied: ${count('asset', 'copied')}`,
+      '',
+      '## Needs manual work',
+      ''
+    ];
+
+    if (review.length === 0) {
+      lines.push('Nothing; every file converted without warnings.', '');
+    }
+    for (const file of review) {
+      lines.push(`### ${file.source} → ${file.output}`, '');
+      if (file.error) lines.push(`- Failed: ${file.error}`);
+      if (file.fidelity !== undefined && file.fidelity < (this.options.reviewThreshold ?? 0.8)) {
+        lines.push(`- Estimated fidelity ${Math.round(file.fidelity * 100)}%`);
+      }
+      file.warnings.forEach(warning => lines.push(`- ${warning}`));
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private async loadState(): Promise<MigrationState | undefined> {
+    let state: MigrationState;
+    try {
+      state = JSON.parse(await fs.readFile(path.join(this.outDir, STATE_FILE), 'utf8'));
+    } catch {
+      return undefined;
+    }
+
+    const { sourceFramework, targetFramework } = this.options;
+    if (state.sourceFramework !== sourceFramework || state.targetFramework !== targetFramework) {
+      throw new Error(
+        `${this.outDir} holds a ${state.sourceFramework} to ${state.targetFramework} migration; ` +
+        `resume it with the same frameworks or choose another output directory`
+      );
+    }
+    return state;
+  }
+
+  // Written through a temporary file so an interruption never leaves it half-written
+  private async saveState(state: MigrationState): Promise<void> {
+    const file = path.join(this.outDir, STATE_FILE);
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(state, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  private async exists(output: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.outDir, output));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
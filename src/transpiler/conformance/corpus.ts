@@ -0,0 +1,1055 @@
+import { FrameworkType } from '../types';
+
+/**
+ * Reference components for the conformance suite. Each one exercises a
+ * single feature area and is written idiomatically in every framework that
+ * can be a transpilation source, so every registered pair has an input.
+ */
+export interface ReferenceComponent {
+  name: string;
+  // What the component exercises
+  feature: string;
+  sources: Partial<Record<FrameworkType, string>>;
+}
+
+const counter: ReferenceComponent = {
+  name: 'Counter',
+  feature: 'state, props with defaults and an emitted event',
+  sources: {
+    react: `import { useState } from 'react';
+
+interface CounterProps {
+  initial?: number;
+  step?: number;
+  onChange?: (value: number) => void;
+}
+
+export function Counter({ initial = 0, step = 1, onChange }: CounterProps) {
+  const [count, setCount] = useState(initial);
+
+  const increment = () => {
+    setCount(count + step);
+    onChange?.(count + step);
+  };
+
+  return (
+    <div className="counter">
+      <span>{count}</span>
+      <button onClick={increment}>+</button>
+      <button onClick={() => setCount(initial)}>Reset</button>
+    </div>
+  );
+}
+`,
+    preact: `import { useState } from 'preact/hooks';
+
+interface CounterProps {
+  initial?: number;
+  step?: number;
+  onChange?: (value: number) => void;
+}
+
+export function Counter({ initial = 0, step = 1, onChange }: CounterProps) {
+  const [count, setCount] = useState(initial);
+
+  const increment = () => {
+    setCount(count + step);
+    onChange?.(count + step);
+  };
+
+  return (
+    <div class="counter">
+      <span>{count}</span>
+      <button onClick={increment}>+</button>
+      <button onClick={() => setCount(initial)}>Reset</button>
+    </div>
+  );
+}
+`,
+    solid: `import { createSignal } from 'solid-js';
+
+interface CounterProps {
+  initial?: number;
+  step?: number;
+  onChange?: (value: number) => void;
+}
+
+export function Counter(props: CounterProps) {
+  const [count, setCount] = createSignal(props.initial ?? 0);
+
+  const increment = () => {
+    setCount(count() + (props.step ?? 1));
+    props.onChange?.(count());
+  };
+
+  return (
+    <div class="counter">
+      <span>{count()}</span>
+      <button onClick={increment}>+</button>
+      <button onClick={() => setCount(props.initial ?? 0)}>Reset</button>
+    </div>
+  );
+}
+`,
+    vue: `<template>
+  <div class="counter">
+    <span>{{ count }}</span>
+    <button @click="increment">+</button>
+    <button @click="count = initial">Reset</button>
+  </div>
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue';
+
+const props = withDefaults(defineProps<{ initial?: number; step?: number }>(), { initial: 0, step: 1 });
+const emit = defineEmits<{ (e: 'change', value: number): void }>();
+
+const count = ref(props.initial);
+
+function increment() {
+  count.value += props.step;
+  emit('change', count.value);
+}
+</script>
+`,
+    angular: `import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+@Component({
+  selector: 'app-counter',
+  template: \`
+    <div class="counter">
+      <span>{{ count }}</span>
+      <button (click)="increment()">+</button>
+      <button (click)="count = initial">Reset</button>
+    </div>
+  \`
+})
+export class Counter {
+  @Input() initial = 0;
+  @Input() step = 1;
+  @Output() change = new EventEmitter<number>();
+
+  count = 0;
+
+  increment() {
+    this.count += this.step;
+    this.change.emit(this.count);
+  }
+}
+`,
+    svelte: `<script lang="ts">
+  import { createEventDispatcher } from 'svelte';
+
+  export let initial = 0;
+  export let step = 1;
+
+  const dispatch = createEventDispatcher<{ change: number }>();
+  let count = initial;
+
+  function increment() {
+    count += step;
+    dispatch('change', count);
+  }
+</script>
+
+<div class="counter">
+  <span>{count}</span>
+  <button on:click={increment}>+</button>
+  <button on:click={() => (count = initial)}>Reset</button>
+</div>
+`
+  }
+};
+
+const signupForm: ReferenceComponent = {
+  name: 'SignupForm',
+  feature: 'form inputs with validation and a submit event',
+  sources: {
+    react: `import { FormEvent, useMemo, useState } from 'react';
+
+interface SignupFormProps {
+  minLength?: number;
+  onSubmit?: (email: string) => void;
+}
+
+export function SignupForm({ minLength = 8, onSubmit }: SignupFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [touched, setTouched] = useState(false);
+  const emailError = useMemo(() => (/^\\S+@\\S+$/.test(email) ? '' : 'Enter a valid email'), [email]);
+  const passwordError = useMemo(() => (password.length >= minLength ? '' : 'Password is too short'), [password, minLength]);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setTouched(true);
+    if (!emailError && !passwordError) {
+      onSubmit?.(email);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <input type="email" value={email} onChange={e => setEmail(e.target.value)} />
+      {touched && emailError && <p className="error">{emailError}</p>}
+      <input type="password" value={password} onChange={e => setPassword(e.target.value)} />
+      {touched && passwordError && <p className="error">{passwordError}</p>}
+      <button type="submit">Sign up</button>
+    </form>
+  );
+}
+`,
+    preact: `import { useMemo, useState } from 'preact/hooks';
+
+interface SignupFormProps {
+  minLength?: number;
+  onSubmit?: (email: string) => void;
+}
+
+export function SignupForm({ minLength = 8, onSubmit }: SignupFormProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [touched, setTouched] = useState(false);
+  const emailError = useMemo(() => (/^\\S+@\\S+$/.test(email) ? '' : 'Enter a valid email'), [email]);
+  const passwordError = useMemo(() => (password.length >= minLength ? '' : 'Password is too short'), [password, minLength]);
+
+  const handleSubmit = (event: Event) => {
+    event.preventDefault();
+    setTouched(true);
+    if (!emailError && !passwordError) {
+      onSubmit?.(email);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <input type="email" value={email} onInput={e => setEmail(e.currentTarget.value)} />
+      {touched && emailError && <p class="error">{emailError}</p>}
+      <input type="password" value={password} onInput={e => setPassword(e.currentTarget.value)} />
+      {touched && passwordError && <p class="error">{passwordError}</p>}
+      <button type="submit">Sign up</button>
+    </form>
+  );
+}
+`,
+    solid: `import { createMemo, createSignal, Show } from 'solid-js';
+
+interface SignupFormProps {
+  minLength?: number;
+  onSubmit?: (email: string) => void;
+}
+
+export function SignupForm(props: SignupFormProps) {
+  const [email, setEmail] = createSignal('');
+  const [password, setPassword] = createSignal('');
+  const [touched, setTouched] = createSignal(false);
+  const emailError = createMemo(() => (/^\\S+@\\S+$/.test(email()) ? '' : 'Enter a valid email'));
+  const passwordError = createMemo(() => (password().length >= (props.minLength ?? 8) ? '' : 'Password is too short'));
+
+  const handleSubmit = (event: Event) => {
+    event.preventDefault();
+    setTouched(true);
+    if (!emailError() && !passwordError()) {
+      props.onSubmit?.(email());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <input type="email" value={email()} onInput={e => setEmail(e.currentTarget.value)} />
+      <Show when={touched() && emailError()}>
+        <p class="error">{emailError()}</p>
+      </Show>
+      <input type="password" value={password()} onInput={e => setPassword(e.currentTarget.value)} />
+      <Show when={touched() && passwordError()}>
+        <p class="error">{passwordError()}</p>
+      </Show>
+      <button type="submit">Sign up</button>
+    </form>
+  );
+}
+`,
+    vue: `<template>
+  <form @submit.prevent="handleSubmit">
+    <input v-model="email" type="email" />
+    <p v-if="touched && emailError" class="error">{{ emailError }}</p>
+    <input v-model="password" type="password" />
+    <p v-if="touched && passwordError" class="error">{{ passwordError }}</p>
+    <button type="submit">Sign up</button>
+  </form>
+</template>
+
+<script setup lang="ts">
+import { computed, ref } from 'vue';
+
+const props = withDefaults(defineProps<{ minLength?: number }>(), { minLength: 8 });
+const emit = defineEmits<{ (e: 'submit', email: string): void }>();
+
+const email = ref('');
+const password = ref('');
+const touched = ref(false);
+const emailError = computed(() => (/^\\S+@\\S+$/.test(email.value) ? '' : 'Enter a valid email'));
+const passwordError = computed(() => (password.value.length >= props.minLength ? '' : 'Password is too short'));
+
+function handleSubmit() {
+  touched.value = true;
+  if (!emailError.value && !passwordError.value) {
+    emit('submit', email.value);
+  }
+}
+</script>
+`,
+    angular: `import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+@Component({
+  selector: 'app-signup-form',
+  template: \`
+    <form (ngSubmit)="handleSubmit()">
+      <input [(ngModel)]="email" name="email" type="email" />
+      <p *ngIf="touched && emailError" class="error">{{ emailError }}</p>
+      <input [(ngModel)]="password" name="password" type="password" />
+      <p *ngIf="touched && passwordError" class="error">{{ passwordError }}</p>
+      <button type="submit">Sign up</button>
+    </form>
+  \`
+})
+export class SignupForm {
+  @Input() minLength = 8;
+  @Output() submitted = new EventEmitter<string>();
+
+  email = '';
+  password = '';
+  touched = false;
+
+  get emailError(): string {
+    return /^\\S+@\\S+$/.test(this.email) ? '' : 'Enter a valid email';
+  }
+
+  get passwordError(): string {
+    return this.password.length >= this.minLength ? '' : 'Password is too short';
+  }
+
+  handleSubmit() {
+    this.touched = true;
+    if (!this.emailError && !this.passwordError) {
+      this.submitted.emit(this.email);
+    }
+  }
+}
+`,
+    svelte: `<script lang="ts">
+  import { createEventDispatcher } from 'svelte';
+
+  export let minLength = 8;
+
+  const dispatch = createEventDispatcher<{ submit: string }>();
+  let email = '';
+  let password = '';
+  let touched = false;
+
+  $: emailError = /^\\S+@\\S+$/.test(email) ? '' : 'Enter a valid email';
+  $: passwordError = password.length >= minLength ? '' : 'Password is too short';
+
+  function handleSubmit() {
+    touched = true;
+    if (!emailError && !passwordError) {
+      dispatch('submit', email);
+    }
+  }
+</script>
+
+<form on:submit|preventDefault={handleSubmit}>
+  <input bind:value={email} type="email" />
+  {#if touched && emailError}
+    <p class="error">{emailError}</p>
+  {/if}
+  <input bind:value={password} type="password" />
+  {#if touched && passwordError}
+    <p class="error">{passwordError}</p>
+  {/if}
+  <button type="submit">Sign up</button>
+</form>
+`
+  }
+};
+
+const todoList: ReferenceComponent = {
+  name: 'TodoList',
+  feature: 'keyed list rendering with per-item events',
+  sources: {
+    react: `import { useState } from 'react';
+
+interface Todo {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+interface TodoListProps {
+  todos: Todo[];
+  onToggle?: (id: number) => void;
+  onRemove?: (id: number) => void;
+}
+
+export function TodoList({ todos, onToggle, onRemove }: TodoListProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  return (
+    <ul className="todo-list">
+      {todos.map(todo => (
+        <li key={todo.id} className={todo.id === selected ? 'selected' : ''} onClick={() => setSelected(todo.id)}>
+          <input type="checkbox" checked={todo.done} onChange={() => onToggle?.(todo.id)} />
+          {todo.title}
+          <button onClick={() => onRemove?.(todo.id)}>Remove</button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+`,
+    preact: `import { useState } from 'preact/hooks';
+
+interface Todo {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+interface TodoListProps {
+  todos: Todo[];
+  onToggle?: (id: number) => void;
+  onRemove?: (id: number) => void;
+}
+
+export function TodoList({ todos, onToggle, onRemove }: TodoListProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  return (
+    <ul class="todo-list">
+      {todos.map(todo => (
+        <li key={todo.id} class={todo.id === selected ? 'selected' : ''} onClick={() => setSelected(todo.id)}>
+          <input type="checkbox" checked={todo.done} onChange={() => onToggle?.(todo.id)} />
+          {todo.title}
+          <button onClick={() => onRemove?.(todo.id)}>Remove</button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+`,
+    solid: `import { createSignal, For } from 'solid-js';
+
+interface Todo {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+interface TodoListProps {
+  todos: Todo[];
+  onToggle?: (id: number) => void;
+  onRemove?: (id: number) => void;
+}
+
+export function TodoList(props: TodoListProps) {
+  const [selected, setSelected] = createSignal<number | null>(null);
+
+  return (
+    <ul class="todo-list">
+      <For each={props.todos}>
+        {todo => (
+          <li class={todo.id === selected() ? 'selected' : ''} onClick={() => setSelected(todo.id)}>
+            <input type="checkbox" checked={todo.done} onChange={() => props.onToggle?.(todo.id)} />
+            {todo.title}
+            <button onClick={() => props.onRemove?.(todo.id)}>Remove</button>
+          </li>
+        )}
+      </For>
+    </ul>
+  );
+}
+`,
+    vue: `<template>
+  <ul class="todo-list">
+    <li
+      v-for="todo in todos"
+      :key="todo.id"
+      :class="todo.id === selected ? 'selected' : ''"
+      @click="selected = todo.id"
+    >
+      <input type="checkbox" :checked="todo.done" @change="emit('toggle', todo.id)" />
+      {{ todo.title }}
+      <button @click="emit('remove', todo.id)">Remove</button>
+    </li>
+  </ul>
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue';
+
+interface Todo {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+defineProps<{ todos: Todo[] }>();
+const emit = defineEmits<{
+  (e: 'toggle', id: number): void;
+  (e: 'remove', id: number): void;
+}>();
+
+const selected = ref<number | null>(null);
+</script>
+`,
+    angular: `import { Component, EventEmitter, Input, Output } from '@angular/core';
+
+interface Todo {
+  id: number;
+  title: string;
+  done: boolean;
+}
+
+@Component({
+  selector: 'app-todo-list',
+  template: \`
+    <ul class="todo-list">
+      <li
+        *ngFor="let todo of todos; trackBy: trackById"
+        [class]="todo.id === selected ? 'selected' : ''"
+        (click)="selected = todo.id"
+      >
+        <input type="checkbox" [checked]="todo.done" (change)="toggle.emit(todo.id)" />
+        {{ todo.title }}
+        <button (click)="remove.emit(todo.id)">Remove</button>
+      </li>
+    </ul>
+  \`
+})
+export class TodoList {
+  @Input() todos: Todo[] = [];
+  @Output() toggle = new EventEmitter<number>();
+  @Output() remove = new EventEmitter<number>();
+
+  selected: number | null = null;
+
+  trackById(index: number, todo: Todo) {
+    return todo.id;
+  }
+}
+`,
+    svelte: `<script lang="ts">
+  import { createEventDispatcher } from 'svelte';
+
+  interface Todo {
+    id: number;
+    title: string;
+    done: boolean;
+  }
+
+  export let todos: Todo[];
+
+  const dispatch = createEventDispatcher<{ toggle: number; remove: number }>();
+  let selected: number | null = null;
+</script>
+
+<ul class="todo-list">
+  {#each todos as todo (todo.id)}
+    <li class={todo.id === selected ? 'selected' : ''} on:click={() => (selected = todo.id)}>
+      <input type="checkbox" checked={todo.done} on:change={() => dispatch('toggle', todo.id)} />
+      {todo.title}
+      <button on:click={() => dispatch('remove', todo.id)}>Remove</button>
+    </li>
+  {/each}
+</ul>
+`
+  }
+};
+
+const card: ReferenceComponent = {
+  name: 'Card',
+  feature: 'default and named slots (children and render props)',
+  sources: {
+    react: `import { ReactNode, useState } from 'react';
+
+interface CardProps {
+  title: string;
+  header?: ReactNode;
+  footer?: ReactNode;
+  children?: ReactNode;
+}
+
+export function Card({ title, header, footer, children }: CardProps) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  return (
+    <section className="card">
+      <header onClick={() => setCollapsed(!collapsed)}>
+        {header ?? <h3>{title}</h3>}
+      </header>
+      {!collapsed && <div className="card-body">{children}</div>}
+      <footer>{footer}</footer>
+    </section>
+  );
+}
+`,
+    preact: `import { ComponentChildren } from 'preact';
+import { useState } from 'preact/hooks';
+
+interface CardProps {
+  title: string;
+  header?: ComponentChildren;
+  footer?: ComponentChildren;
+  children?: ComponentChildren;
+}
+
+export function Card({ title, header, footer, children }: CardProps) {
+  const [collapsed, setCollapsed] = useState(false);
+
+  return (
+    <section class="card">
+      <header onClick={() => setCollapsed(!collapsed)}>
+        {header ?? <h3>{title}</h3>}
+      </header>
+      {!collapsed && <div class="card-body">{children}</div>}
+      <footer>{footer}</footer>
+    </section>
+  );
+}
+`,
+    solid: `import { createSignal, JSX, Show } from 'solid-js';
+
+interface CardProps {
+  title: string;
+  header?: JSX.Element;
+  footer?: JSX.Element;
+  children?: JSX.Element;
+}
+
+export function Card(props: CardProps) {
+  const [collapsed, setCollapsed] = createSignal(false);
+
+  return (
+    <section class="card">
+      <header onClick={() => setCollapsed(!collapsed())}>
+        {props.header ?? <h3>{props.title}</h3>}
+      </header>
+      <Show when={!collapsed()}>
+        <div class="card-body">{props.children}</div>
+      </Show>
+      <footer>{props.footer}</footer>
+    </section>
+  );
+}
+`,
+    vue: `<template>
+  <section class="card">
+    <header @click="collapsed = !collapsed">
+      <slot name="header">
+        <h3>{{ title }}</h3>
+      </slot>
+    </header>
+    <div v-if="!collapsed" class="card-body">
+      <slot />
+    </div>
+    <footer>
+      <slot name="footer" />
+    </footer>
+  </section>
+</template>
+
+<script setup lang="ts">
+import { ref } from 'vue';
+
+defineProps<{ title: string }>();
+
+const collapsed = ref(false);
+</script>
+`,
+    angular: `import { Component, Input } from '@angular/core';
+
+@Component({
+  selector: 'app-card',
+  template: \`
+    <section class="card">
+      <header (click)="collapsed = !collapsed">
+        <ng-content select="[header]"></ng-content>
+        <h3>{{ title }}</h3>
+      </header>
+      <div *ngIf="!collapsed" class="card-body">
+        <ng-content></ng-content>
+      </div>
+      <footer>
+        <ng-content select="[footer]"></ng-content>
+      </footer>
+    </section>
+  \`
+})
+export class Card {
+  @Input() title = '';
+
+  collapsed = false;
+}
+`,
+    svelte: `<script lang="ts">
+  export let title: string;
+
+  let collapsed = false;
+</script>
+
+<section class="card">
+  <header on:click={() => (collapsed = !collapsed)}>
+    <slot name="header">
+      <h3>{title}</h3>
+    </slot>
+  </header>
+  {#if !collapsed}
+    <div class="card-body">
+      <slot />
+    </div>
+  {/if}
+  <footer>
+    <slot name="footer" />
+  </footer>
+</section>
+`
+  }
+};
+
+const clock: ReferenceComponent = {
+  name: 'Clock',
+  feature: 'mount, unmount and change effects',
+  sources: {
+    react: `import { useEffect, useState } from 'react';
+
+interface ClockProps {
+  label: string;
+  interval?: number;
+}
+
+export function Clock({ label, interval = 1000 }: ClockProps) {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), interval);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    document.title = \`\${label}: \${now.toLocaleTimeString()}\`;
+  }, [label, now]);
+
+  return <time className="clock">{now.toLocaleTimeString()}</time>;
+}
+`,
+    preact: `import { useEffect, useState } from 'preact/hooks';
+
+interface ClockProps {
+  label: string;
+  interval?: number;
+}
+
+export function Clock({ label, interval = 1000 }: ClockProps) {
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), interval);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    document.title = \`\${label}: \${now.toLocaleTimeString()}\`;
+  }, [label, now]);
+
+  return <time class="clock">{now.toLocaleTimeString()}</time>;
+}
+`,
+    solid: `import { createEffect, createSignal, onCleanup, onMount } from 'solid-js';
+
+interface ClockProps {
+  label: string;
+  interval?: number;
+}
+
+export function Clock(props: ClockProps) {
+  const [now, setNow] = createSignal(new Date());
+
+  onMount(() => {
+    const id = setInterval(() => setNow(new Date()), props.interval ?? 1000);
+    onCleanup(() => clearInterval(id));
+  });
+
+  createEffect(() => {
+    document.title = \`\${props.label}: \${now().toLocaleTimeString()}\`;
+  });
+
+  return <time class="clock">{now().toLocaleTimeString()}</time>;
+}
+`,
+    vue: `<template>
+  <time class="clock">{{ now.toLocaleTimeString() }}</time>
+</template>
+
+<script setup lang="ts">
+import { onMounted, onUnmounted, ref, watch } from 'vue';
+
+const props = withDefaults(defineProps<{ label: string; interval?: number }>(), { interval: 1000 });
+
+const now = ref(new Date());
+let id: ReturnType<typeof setInterval> | undefined;
+
+onMounted(() => {
+  id = setInterval(() => (now.value = new Date()), props.interval);
+});
+
+onUnmounted(() => clearInterval(id));
+
+watch([() => props.label, now], () => {
+  document.title = \`\${props.label}: \${now.value.toLocaleTimeString()}\`;
+});
+</script>
+`,
+    angular: `import { Component, Input, OnChanges, OnDestroy, OnInit } from '@angular/core';
+
+@Component({
+  selector: 'app-clock',
+  template: \`<time class="clock">{{ now.toLocaleTimeString() }}</time>\`
+})
+export class Clock implements OnInit, OnDestroy, OnChanges {
+  @Input() label = '';
+  @Input() interval = 1000;
+
+  now = new Date();
+  private id?: ReturnType<typeof setInterval>;
+
+  ngOnInit() {
+    this.id = setInterval(() => (this.now = new Date()), this.interval);
+  }
+
+  ngOnDestroy() {
+    clearInterval(this.id);
+  }
+
+  ngOnChanges() {
+    document.title = \`\${this.label}: \${this.now.toLocaleTimeString()}\`;
+  }
+}
+`,
+    svelte: `<script lang="ts">
+  import { onDestroy, onMount } from 'svelte';
+
+  export let label: string;
+  export let interval = 1000;
+
+  let now = new Date();
+  let id: ReturnType<typeof setInterval> | undefined;
+
+  onMount(() => {
+    id = setInterval(() => (now = new Date()), interval);
+  });
+
+  onDestroy(() => clearInterval(id));
+
+  $: document.title = \`\${label}: \${now.toLocaleTimeString()}\`;
+</script>
+
+<time class="clock">{now.toLocaleTimeString()}</time>
+`
+  }
+};
+
+const cartSummary: ReferenceComponent = {
+  name: 'CartSummary',
+  feature: 'computed values derived from props and state',
+  sources: {
+    react: `import { useMemo, useState } from 'react';
+
+interface LineItem {
+  price: number;
+  quantity: number;
+}
+
+interface CartSummaryProps {
+  items: LineItem[];
+  taxRate?: number;
+}
+
+export function CartSummary({ items, taxRate = 0.2 }: CartSummaryProps) {
+  const [discount, setDiscount] = useState(0);
+  const subtotal = useMemo(() => items.reduce((sum, item) => sum + item.price * item.quantity, 0), [items]);
+  const tax = useMemo(() => (subtotal - discount) * taxRate, [subtotal, discount, taxRate]);
+  const total = useMemo(() => subtotal - discount + tax, [subtotal, discount, tax]);
+
+  return (
+    <dl className="cart-summary">
+      <dt>Subtotal</dt>
+      <dd>{subtotal.toFixed(2)}</dd>
+      <dt>Tax</dt>
+      <dd>{tax.toFixed(2)}</dd>
+      <dt>Total</dt>
+      <dd>{total.toFixed(2)}</dd>
+      <button onClick={() => setDiscount(10)}>Apply discount</button>
+    </dl>
+  );
+}
+`,
+    preact: `import { useMemo, useState } from 'preact/hooks';
+
+interface LineItem {
+  price: number;
+  quantity: number;
+}
+
+interface CartSummaryProps {
+  items: LineItem[];
+  taxRate?: number;
+}
+
+export function CartSummary({ items, taxRate = 0.2 }: CartSummaryProps) {
+  const [discount, setDiscount] = useState(0);
+  const subtotal = useMemo(() => items.reduce((sum, item) => sum + item.price * item.quantity, 0), [items]);
+  const tax = useMemo(() => (subtotal - discount) * taxRate, [subtotal, discount, taxRate]);
+  const total = useMemo(() => subtotal - discount + tax, [subtotal, discount, tax]);
+
+  return (
+    <dl class="cart-summary">
+      <dt>Subtotal</dt>
+      <dd>{subtotal.toFixed(2)}</dd>
+      <dt>Tax</dt>
+      <dd>{tax.toFixed(2)}</dd>
+      <dt>Total</dt>
+      <dd>{total.toFixed(2)}</dd>
+      <button onClick={() => setDiscount(10)}>Apply discount</button>
+    </dl>
+  );
+}
+`,
+    solid: `import { createMemo, createSignal } from 'solid-js';
+
+interface LineItem {
+  price: number;
+  quantity: number;
+}
+
+interface CartSummaryProps {
+  items: LineItem[];
+  taxRate?: number;
+}
+
+export function CartSummary(props: CartSummaryProps) {
+  const [discount, setDiscount] = createSignal(0);
+  const subtotal = createMemo(() => props.items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  const tax = createMemo(() => (subtotal() - discount()) * (props.taxRate ?? 0.2));
+  const total = createMemo(() => subtotal() - discount() + tax());
+
+  return (
+    <dl class="cart-summary">
+      <dt>Subtotal</dt>
+      <dd>{subtotal().toFixed(2)}</dd>
+      <dt>Tax</dt>
+      <dd>{tax().toFixed(2)}</dd>
+      <dt>Total</dt>
+      <dd>{total().toFixed(2)}</dd>
+      <button onClick={() => setDiscount(10)}>Apply discount</button>
+    </dl>
+  );
+}
+`,
+    vue: `<template>
+  <dl class="cart-summary">
+    <dt>Subtotal</dt>
+    <dd>{{ subtotal.toFixed(2) }}</dd>
+    <dt>Tax</dt>
+    <dd>{{ tax.toFixed(2) }}</dd>
+    <dt>Total</dt>
+    <dd>{{ total.toFixed(2) }}</dd>
+    <button @click="discount = 10">Apply discount</button>
+  </dl>
+</template>
+
+<script setup lang="ts">
+import { computed, ref } from 'vue';
+
+interface LineItem {
+  price: number;
+  quantity: number;
+}
+
+const props = withDefaults(defineProps<{ items: LineItem[]; taxRate?: number }>(), { taxRate: 0.2 });
+
+const discount = ref(0);
+const subtotal = computed(() => props.items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+const tax = computed(() => (subtotal.value - discount.value) * props.taxRate);
+const total = computed(() => subtotal.value - discount.value + tax.value);
+</script>
+`,
+    angular: `import { Component, Input } from '@angular/core';
+
+interface LineItem {
+  price: number;
+  quantity: number;
+}
+
+@Component({
+  selector: 'app-cart-summary',
+  template: \`
+    <dl class="cart-summary">
+      <dt>Subtotal</dt>
+      <dd>{{ subtotal.toFixed(2) }}</dd>
+      <dt>Tax</dt>
+      <dd>{{ tax.toFixed(2) }}</dd>
+      <dt>Total</dt>
+      <dd>{{ total.toFixed(2) }}</dd>
+      <button (click)="discount = 10">Apply discount</button>
+    </dl>
+  \`
+})
+export class CartSummary {
+  @Input() items: LineItem[] = [];
+  @Input() taxRate = 0.2;
+
+  discount = 0;
+
+  get subtotal(): number {
+    return this.items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  }
+
+  get tax(): number {
+    return (this.subtotal - this.discount) * this.taxRate;
+  }
+
+  get total(): number {
+    return this.subtotal - this.discount + this.tax;
+  }
+}
+`,
+    svelte: `<script lang="ts">
+  interface LineItem {
+    price: number;
+    quantity: number;
+  }
+
+  export let items: LineItem[];
+  export let taxRate = 0.2;
+
+  let discount = 0;
+
+  $: subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  $: tax = (subtotal - discount) * taxRate;
+  $: total = subtotal - discount + tax;
+</script>
+
+<dl class="cart-summary">
+  <dt>Subtotal</dt>
+  <dd>{subtotal.toFixed(2)}</dd>
+  <dt>Tax</dt>
+  <dd>{tax.toFixed(2)}</dd>
+  <dt>Total</dt>
+  <dd>{total.toFixed(2)}</dd>
+  <button on:click={() => (discount = 10)}>Apply discount</button>
+</dl>
+`
+  }
+};
+
+export const CONFORMANCE_CORPUS: ReferenceComponent[] = [counter, signupForm, todoList, card, clock, cartSummary];
@@ -0,0 +1,222 @@
+import { FrameworkTranspiler } from '../FrameworkTranspiler';
+import { ComponentMetadata, FRAMEWORK_FEATURES, FrameworkType } from '../types';
+import { ComponentIR, IRNode } from '../ir/types';
+import { CONFORMANCE_CORPUS, ReferenceComponent } from './corpus';
+
+/**
+ * Round-trip conformance: every reference component is transpiled through a
+ * registered pair and back to its own framework, and the metadata of the
+ * original and the returned component are compared. What survives the trip
+ * is a measured fidelity for the pair, next to the estimates routing uses.
+ */
+
+export type ConformanceAspect = 'props' | 'state' | 'computed' | 'events' | 'emits' | 'slots';
+
+const ASPECTS: ConformanceAspect[] = ['props', 'state', 'computed', 'events', 'emits', 'slots'];
+
+// Names of each aspect of a component
+export type ComponentSignature = Record<ConformanceAspect, string[]>;
+
+export interface AspectComparison {
+  preserved: string[];
+  lost: string[];
+  added: string[];
+}
+
+export interface RoundTripResult {
+  component: string;
+  // Frameworks visited, from the source out to the target and back
+  path: FrameworkType[];
+  // Null when the round trip could not run
+  fidelity: number | null;
+  aspects: Partial<Record<ConformanceAspect, AspectComparison>>;
+  error?: string;
+}
+
+export interface PairConformance {
+  source: FrameworkType;
+  target: FrameworkType;
+  // Mean over the components that completed the round trip
+  fidelity: number | null;
+  // Nothing transpiles back from the target, so no round trip can run
+  oneWay: boolean;
+  results: RoundTripResult[];
+}
+
+export interface ConformanceReport {
+  frameworks: FrameworkType[];
+  pairs: PairConformance[];
+}
+
+export async function runConformance(
+  transpiler: FrameworkTranspiler = new FrameworkTranspiler(),
+  corpus: ReferenceComponent[] = CONFORMANCE_CORPUS
+): Promise<ConformanceReport> {
+  const pairs: PairConformance[] = [];
+
+  for (const [source, target] of transpiler.getRegisteredPairs()) {
+    const results: RoundTripResult[] = [];
+    for (const component of corpus) {
+      const code = component.sources[source];
+      if (code !== undefined) {
+        results.push(await roundTrip(transpiler, component.name, code, source, target));
+      }
+    }
+
+    const measured = results.filter(result => result.fidelity !== null).map(result => result.fidelity!);
+    pairs.push({
+      source,
+      target,
+      fidelity: measured.length > 0 ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null,
+      oneWay: !transpiler.hasRoute(target, source),
+      results
+    });
+  }
+
+  const used = new Set(pairs.flatMap(pair => [pair.source, pair.target]));
+  const frameworks = (Object.keys(FRAMEWORK_FEATURES) as FrameworkType[]).filter(framework => used.has(framework));
+  return { frameworks, pairs };
+}
+
+async function roundTrip(
+  transpiler: FrameworkTranspiler,
+  component: string,
+  code: string,
+  source: FrameworkType,
+  target: FrameworkType
+): Promise<RoundTripResult> {
+  const failed = (path: FrameworkType[], error: string, fidelity: number | null = 0): RoundTripResult =>
+    ({ component, path, fidelity, aspects: {}, error });
+
+  if (!transpiler.hasRoute(target, source)) {
+    return failed([source, target], `No route from ${target} back to ${source}`, null);
+  }
+
+  const forward = await transpiler.transpile(code, source, target, { typescript: true });
+  if (!forward.success) {
+    return failed([source, target], `${source} → ${target}: ${forward.error}`);
+  }
+
+  const back = await transpiler.transpile(forward.code, target, source, { typescript: true });
+  const path = [source, ...(back.path ?? [target, source])];
+  if (!back.success) {
+    return failed(path, `${target} → ${source}: ${back.error}`);
+  }
+
+  const before = await transpiler.extractComponentMetadata(code, source);
+  let after: ComponentMetadata;
+  try {
+    after = await transpiler.extractComponentMetadata(back.code, source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return failed(path, `Round-trip output does not parse: ${message}`);
+  }
+  if (before.ir && !after.ir) {
+    return failed(path, `Round-trip output is no longer a parseable ${source} component`);
+  }
+
+  const expected = componentSignature(before);
+  const actual = componentSignature(after);
+  const aspects: RoundTripResult['aspects'] = {};
+  let matched = 0;
+  let total = 0;
+
+  for (const aspect of ASPECTS) {
+    const comparison = compareNames(expected[aspect], actual[aspect]);
+    const size = comparison.preserved.length + comparison.lost.length + comparison.added.length;
+    if (size > 0) {
+      aspects[aspect] = comparison;
+      matched += comparison.preserved.length;
+      total += size;
+    }
+  }
+
+  // Share of names found on both sides; lost and added names both count against it
+  return { component, path, fidelity: total > 0 ? matched / total : 1, aspects };
+}
+
+// The IR describes every aspect; frameworks without a parser fall back to
+// the regex and AST metadata
+export function componentSignature(metadata: ComponentMetadata): ComponentSignature {
+  if (metadata.ir) {
+    return irSignature(metadata.ir);
+  }
+  return {
+    props: Object.keys(metadata.props),
+    state: Object.keys(metadata.state),
+    computed: Object.keys(metadata.computed ?? {}),
+    events: [],
+    emits: metadata.emits ?? [],
+    slots: (metadata.slots ?? []).map(slot => slot.name)
+  };
+}
+
+function irSignature(ir: ComponentIR): ComponentSignature {
+  const events = new Set<string>();
+  const visit = (nodes: IRNode[]) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'element':
+          node.events.forEach(event => events.add(event.name));
+          visit(node.children);
+          node.slots.forEach(slot => visit(slot.children));
+          break;
+        case 'if':
+          node.branches.forEach(branch => visit(branch.children));
+          break;
+        case 'for':
+          visit(node.children);
+          break;
+        case 'slot':
+          visit(node.fallback);
+          break;
+      }
+    }
+  };
+  visit(ir.template);
+
+  return {
+    props: ir.props.map(prop => prop.name),
+    state: ir.state.map(state => state.name),
+    computed: ir.derived.map(derived => derived.name),
+    events: [...events],
+    emits: ir.events.map(event => event.name),
+    slots: ir.slots.map(slot => slot.name)
+  };
+}
+
+function compareNames(expected: string[], actual: string[]): AspectComparison {
+  return {
+    preserved: expected.filter(name => actual.includes(name)),
+    lost: expected.filter(name => !actual.includes(name)),
+    added: actual.filter(name => !expected.includes(name))
+  };
+}
+
+/**
+ * Source frameworks down the side, targets across the top. Cells hold the
+ * measured round-trip fidelity; `-` marks pairs without a transpiler,
+ * `one-way` pairs with no route back and `?` pairs that could not be
+ * measured. A footnote names the targets nothing transpiles back from.
+ */
+export function formatFidelityMatrix(report: ConformanceReport): string {
+  const width = Math.max(...report.frameworks.map(framework => framework.length), 4) + 2;
+  const cell = (value: string) => value.padStart(width);
+
+  const header = ''.padEnd(width) + report.frameworks.map(cell).join('');
+  const rows = report.frameworks.map(source => {
+    const cells = report.frameworks.map(target => {
+      if (source === target) return cell('·');
+      const pair = report.pairs.find(entry => entry.source === source && entry.target === target);
+      if (!pair) return cell('-');
+      if (pair.oneWay) return cell('one-way');
+      return cell(pair.fidelity === null ? '?' : `${Math.round(pair.fidelity * 100)}%`);
+    });
+    return source.padEnd(width) + cells.join('');
+  });
+
+  const oneWay = [...new Set(report.pairs.filter(pair => pair.oneWay).map(pair => pair.target))];
+  const notes = oneWay.map(target => `one-way: ${target} has no parser, so nothing transpiles back from it`);
+
+  return [header, ...rows, ...(notes.length ? ['', ...notes] : [])].join('\n');
+}
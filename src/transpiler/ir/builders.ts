@@ -0,0 +1,271 @@
+import * as t from '@babel/types';
+import { DependencyInfo, SourcePosition } from '../types';
+import { ComponentIR, IRNode, IRProp } from './types';
+import { freeReferences, functionBody, generateCode, paramSource } from './utils';
+
+export function createComponentIR(name = 'Component'): ComponentIR {
+  return {
+    name,
+    typescript: false,
+    typeParameters: [],
+    props: [],
+    events: [],
+    state: [],
+    derived: [],
+    refs: [],
+    contexts: [],
+    injections: [],
+    composables: [],
+    methods: [],
+    effects: [],
+    slots: [],
+    template: [],
+    styles: [],
+    imports: [],
+    declarations: [],
+    warnings: []
+  };
+}
+
+export function sourcePosition(node: t.Node | null | undefined): SourcePosition | undefined {
+  const start = node?.loc?.start;
+  return start ? { line: start.line, column: start.column } : undefined;
+}
+
+export function lineWarning(line: number | undefined, message: string): string {
+  return line !== undefined ? `Line ${line}: ${message}` : message;
+}
+
+// Every name the template and scripts can refer to as a component member
+export function memberNames(ir: ComponentIR): Set<string> {
+  return new Set([
+    ...ir.props.map(prop => prop.name),
+    ...ir.state.map(state => state.name),
+    ...ir.derived.map(derived => derived.name),
+    ...ir.refs.map(ref => ref.name),
+    ...ir.injections.flatMap(injection => injection.names),
+    ...ir.composables.flatMap(composable => composable.names),
+    ...ir.methods.map(method => method.name)
+  ]);
+}
+
+// Component members a snippet depends on, for derived values and effects
+export function memberDependencies(ir: ComponentIR, code: string, kind: 'expression' | 'block' = 'expression'): string[] {
+  const members = memberNames(ir);
+  const methods = new Set(ir.methods.map(method => method.name));
+  return freeReferences(code, kind).filter(name => members.has(name) && !methods.has(name));
+}
+
+export function methodFromFunction(
+  name: string,
+  fn: t.Function,
+  loc: SourcePosition | undefined = sourcePosition(fn)
+): ComponentIR['methods'][number] {
+  return {
+    name,
+    params: fn.params.map(paramSource),
+    body: functionBody(fn),
+    async: !!fn.async,
+    loc
+  };
+}
+
+export function dependencyInfo(statement: t.ImportDeclaration): DependencyInfo {
+  return {
+    source: statement.source.value,
+    specifiers: statement.specifiers.map(spec => {
+      if (t.isImportDefaultSpecifier(spec)) {
+        return { name: spec.local.name, type: 'default' as const };
+      }
+      if (t.isImportNamespaceSpecifier(spec)) {
+        return { name: spec.local.name, type: 'namespace' as const };
+      }
+      return {
+        name: spec.local.name,
+        type: 'named' as const,
+        imported: t.isIdentifier(spec.imported) ? spec.imported.name : spec.imported.value,
+        ...(spec.importKind === 'type' ? { typeOnly: true } : {})
+      };
+    }),
+    ...(statement.importKind === 'type' ? { typeOnly: true } : {})
+  };
+}
+
+export function importStatement(dependency: DependencyInfo): string {
+  const defaults = dependency.specifiers.filter(spec => spec.type === 'default').map(spec => spec.name);
+  const namespaces = dependency.specifiers.filter(spec => spec.type === 'namespace').map(spec => `* as ${spec.name}`);
+  const named = dependency.specifiers
+    .filter(spec => spec.type === 'named')
+    .map(spec => {
+      const name = spec.imported && spec.imported !== spec.name ? `${spec.imported} as ${spec.name}` : spec.name;
+      return spec.typeOnly ? `type ${name}` : name;
+    });
+
+  const clauses = [...defaults, ...namespaces, ...(named.length ? [`{ ${named.join(', ')} }`] : [])];
+  const keyword = dependency.typeOnly ? 'import type' : 'import';
+  return clauses.length
+    ? `${keyword} ${clauses.join(', ')} from '${dependency.source}';`
+    : `import '${dependency.source}';`;
+}
+
+/**
+ * Drop the declaration of the props type from the module declarations, since
+ * the props carry it. An exported one is remembered so emitters export the
+ * regenerated type under the same name.
+ */
+export function dropPropsType(ir: ComponentIR, name: string): void {
+  const declaration = new RegExp(`^(export\\s+)?(interface\\s+${name}\\b|type\\s+${name}\\s*=)`);
+  ir.declarations = ir.declarations.filter(code => {
+    const match = declaration.exec(code);
+    if (match?.[1]) ir.propsInterface = name;
+    return !match;
+  });
+}
+
+// Text of the JSDoc block right before a node, without the comment markers
+export function jsDocDescription(node: t.Node): string | undefined {
+  const comment = node.leadingComments?.filter(entry => entry.type === 'CommentBlock' && entry.value.startsWith('*')).pop();
+  if (!comment) return undefined;
+  const text = comment.value
+    .slice(1)
+    .split('\n')
+    .map(line => line.replace(/^\s*\* ?/, '').trimEnd())
+    .join('\n')
+    .trim();
+  return text || undefined;
+}
+
+// Type of a literal default value, for props declared without a type
+export function literalType(node: t.Node | null | undefined): string | undefined {
+  if (t.isStringLiteral(node) || t.isTemplateLiteral(node)) return 'string';
+  if (t.isNumericLiteral(node) || (t.isUnaryExpression(node, { operator: '-' }) && t.isNumericLiteral(node.argument))) {
+    return 'number';
+  }
+  return t.isBooleanLiteral(node) ? 'boolean' : undefined;
+}
+
+// `name?: type;` member of a props interface
+export function propField(prop: IRProp): string {
+  return `${prop.name}${prop.required ? '' : '?'}: ${prop.type ?? 'any'};`;
+}
+
+/**
+ * Type parameter list of a generic component: `<T extends Item, K>` where
+ * it is declared, `<T, K>` where it is referenced.
+ */
+export function typeParameterList(ir: ComponentIR, reference = false): string {
+  if (ir.typeParameters.length === 0) return '';
+  const params = reference
+    ? ir.typeParameters.map(param => /^(?:(?:const|in|out)\s+)*(\w+)/.exec(param)?.[1] ?? param)
+    : ir.typeParameters;
+  return `<${params.join(', ')}>`;
+}
+
+export interface PropType {
+  type: string;
+  optional: boolean;
+  description?: string;
+  // Parameter names when the type is a function, used for scoped slots
+  params: string[];
+  loc?: SourcePosition;
+}
+
+// Members of a props type literal, or of the interface/alias it names
+export function propTypes(program: t.Program, type: t.TSType | null | undefined): Map<string, PropType> {
+  const types = new Map<string, PropType>();
+  let members: t.TSTypeElement[] = [];
+
+  if (t.isTSTypeLiteral(type)) {
+    members = type.members;
+  } else if (t.isTSTypeReference(type) && t.isIdentifier(type.typeName)) {
+    const name = type.typeName.name;
+    t.traverseFast(program, node => {
+      if (t.isTSInterfaceDeclaration(node) && node.id.name === name) {
+        members = node.body.body;
+      } else if (t.isTSTypeAliasDeclaration(node) && node.id.name === name && t.isTSTypeLiteral(node.typeAnnotation)) {
+        members = node.typeAnnotation.members;
+      }
+    });
+  }
+
+  const paramName = (param: t.Node) => (t.isIdentifier(param) ? param.name : 'value');
+
+  for (const member of members) {
+    if (!(t.isTSPropertySignature(member) || t.isTSMethodSignature(member))) continue;
+    const key = member.key;
+    const name = t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : null;
+    if (!name) continue;
+
+    if (t.isTSPropertySignature(member)) {
+      const annotation = member.typeAnnotation?.typeAnnotation;
+      types.set(name, {
+        type: annotation ? generateCode(annotation) : 'any',
+        optional: !!member.optional,
+        description: jsDocDescription(member),
+        params: t.isTSFunctionType(annotation) ? annotation.parameters.map(paramName) : [],
+        loc: sourcePosition(member)
+      });
+    } else {
+      const params = member.parameters.map(paramSource);
+      const returns = member.typeAnnotation ? generateCode(member.typeAnnotation.typeAnnotation) : 'void';
+      types.set(name, {
+        type: `(${params.join(', ')}) => ${returns}`,
+        optional: !!member.optional,
+        description: jsDocDescription(member),
+        params: member.parameters.map(paramName),
+        loc: sourcePosition(member)
+      });
+    }
+  }
+  return types;
+}
+
+// Split template text into text and interpolation nodes
+export function splitInterpolations(text: string, pattern: RegExp): IRNode[] {
+  const nodes: IRNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(new RegExp(pattern.source, 'g'))) {
+    if (match.index! > last) {
+      nodes.push({ type: 'text', value: text.slice(last, match.index) });
+    }
+    nodes.push({ type: 'expression', expression: match[1].trim() });
+    last = match.index! + match[0].length;
+  }
+
+  if (last < text.length) {
+    nodes.push({ type: 'text', value: text.slice(last) });
+  }
+  return nodes;
+}
+
+/**
+ * Condense whitespace the way Vue and Svelte compile templates: runs collapse
+ * to one space, whitespace-only text spanning lines is dropped, and children
+ * are trimmed at both ends.
+ */
+export function collapseWhitespace(nodes: IRNode[]): IRNode[] {
+  const result: IRNode[] = [];
+
+  for (const node of nodes) {
+    if (node.type !== 'text') {
+      result.push(node);
+    } else if (node.value.trim()) {
+      result.push({ type: 'text', value: node.value.replace(/\s+/g, ' ') });
+    } else if (!node.value.includes('\n') && node.value) {
+      result.push({ type: 'text', value: ' ' });
+    }
+  }
+
+  const first = result[0];
+  if (first?.type === 'text') {
+    result[0] = { type: 'text', value: first.value.trimStart() };
+  }
+  const last = result[result.length - 1];
+  if (last?.type === 'text') {
+    result[result.length - 1] = { type: 'text', value: last.value.trimEnd() };
+  }
+
+  // Drop text emptied by trimming
+  return result.filter(node => node.type !== 'text' || node.value !== '');
+}
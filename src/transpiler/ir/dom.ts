@@ -0,0 +1,206 @@
+import { camelCase, kebabCase, pascalCase } from './utils';
+
+export const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+// React spells these DOM attributes in camelCase
+const REACT_ATTRIBUTES: Record<string, string> = {
+  class: 'className',
+  for: 'htmlFor',
+  tabindex: 'tabIndex',
+  readonly: 'readOnly',
+  maxlength: 'maxLength',
+  minlength: 'minLength',
+  autofocus: 'autoFocus',
+  autocomplete: 'autoComplete',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  crossorigin: 'crossOrigin',
+  contenteditable: 'contentEditable',
+  spellcheck: 'spellCheck',
+  datetime: 'dateTime',
+  enctype: 'encType',
+  novalidate: 'noValidate',
+  srcset: 'srcSet',
+  usemap: 'useMap',
+  accesskey: 'accessKey',
+  inputmode: 'inputMode',
+  enterkeyhint: 'enterKeyHint'
+};
+
+const DOM_ATTRIBUTES = Object.fromEntries(
+  Object.entries(REACT_ATTRIBUTES).map(([dom, react]) => [react, dom])
+);
+
+// DOM event names whose React prop isn't `on` + PascalCase(name)
+const REACT_EVENTS: Record<string, string> = {
+  dblclick: 'onDoubleClick',
+  contextmenu: 'onContextMenu',
+  keydown: 'onKeyDown',
+  keyup: 'onKeyUp',
+  keypress: 'onKeyPress',
+  mousedown: 'onMouseDown',
+  mouseup: 'onMouseUp',
+  mousemove: 'onMouseMove',
+  mouseenter: 'onMouseEnter',
+  mouseleave: 'onMouseLeave',
+  mouseover: 'onMouseOver',
+  mouseout: 'onMouseOut',
+  pointerdown: 'onPointerDown',
+  pointerup: 'onPointerUp',
+  pointermove: 'onPointerMove',
+  pointerenter: 'onPointerEnter',
+  pointerleave: 'onPointerLeave',
+  touchstart: 'onTouchStart',
+  touchend: 'onTouchEnd',
+  touchmove: 'onTouchMove',
+  dragstart: 'onDragStart',
+  dragend: 'onDragEnd',
+  dragenter: 'onDragEnter',
+  dragleave: 'onDragLeave',
+  dragover: 'onDragOver',
+  focusin: 'onFocusIn',
+  focusout: 'onFocusOut',
+  animationend: 'onAnimationEnd',
+  transitionend: 'onTransitionEnd'
+};
+
+const DOM_EVENTS = Object.fromEntries(
+  Object.entries(REACT_EVENTS).map(([dom, react]) => [react, dom])
+);
+
+// Tags compiled as components: PascalCase, namespaced or hyphenated custom tags
+export function isComponentTag(tag: string): boolean {
+  return /^[A-Z]/.test(tag) || tag.includes('.') || tag.includes('-');
+}
+
+// `user-card` and `UserCard` both name the UserCard component
+export function componentName(tag: string): string {
+  return tag.includes('-') ? pascalCase(tag) : tag;
+}
+
+export function toReactAttribute(name: string, component: boolean): string {
+  if (component) {
+    return name.includes('-') ? camelCase(name) : name;
+  }
+  if (REACT_ATTRIBUTES[name]) {
+    return REACT_ATTRIBUTES[name];
+  }
+  // SVG presentation attributes such as stroke-width
+  if (name.includes('-') && !/^(data|aria)-/.test(name)) {
+    return camelCase(name);
+  }
+  return name;
+}
+
+export function fromReactAttribute(name: string, component: boolean): string {
+  if (component) {
+    return name;
+  }
+  return DOM_ATTRIBUTES[name] ?? name;
+}
+
+// Component events travel as callback props: `item-selected` is `onItemSelected`
+export function eventProp(event: string): string {
+  return 'on' + pascalCase(event);
+}
+
+export function toReactEvent(event: string, tag: string, component: boolean): string {
+  if (component) {
+    return eventProp(event);
+  }
+  // React's onChange fires on every keystroke for text fields
+  if (event === 'input' && (tag === 'input' || tag === 'textarea')) {
+    return 'onChange';
+  }
+  return REACT_EVENTS[event] ?? 'on' + pascalCase(event);
+}
+
+export function fromReactEvent(prop: string, tag: string, component: boolean): string {
+  if (component) {
+    return kebabCase(prop.slice(2));
+  }
+  if (prop === 'onChange' && (tag === 'input' || tag === 'textarea')) {
+    return 'input';
+  }
+  return DOM_EVENTS[prop] ?? prop.slice(2).toLowerCase();
+}
+
+// React's synthetic event types that wrap a plainer DOM event
+const REACT_EVENT_TYPES: Record<string, string> = {
+  SyntheticEvent: 'Event',
+  BaseSyntheticEvent: 'Event',
+  FormEvent: 'Event',
+  ChangeEvent: 'Event',
+  InvalidEvent: 'Event'
+};
+
+const DOM_EVENT_TYPES = new Set([
+  'AnimationEvent', 'ClipboardEvent', 'CompositionEvent', 'DragEvent', 'FocusEvent', 'KeyboardEvent',
+  'MouseEvent', 'PointerEvent', 'TouchEvent', 'TransitionEvent', 'UIEvent', 'WheelEvent'
+]);
+
+// DOM type for a React event type such as `FormEvent` or `MouseEvent`
+export function fromReactEventType(name: string): string | undefined {
+  return REACT_EVENT_TYPES[name] ?? (DOM_EVENT_TYPES.has(name) ? name : undefined);
+}
+
+// Parse a `color: red; font-size: 12px` declaration list into camelCase pairs
+export function parseStyleDeclarations(style: string): Array<[string, string]> {
+  return style
+    .split(';')
+    .map(declaration => declaration.trim())
+    .filter(Boolean)
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      return [camelCase(declaration.slice(0, colon).trim()), declaration.slice(colon + 1).trim()] as [string, string];
+    });
+}
+
+// Key modifiers (`keyup.enter`) and the KeyboardEvent.key values they match
+const KEY_MODIFIERS: Record<string, string[]> = {
+  enter: ['Enter'],
+  tab: ['Tab'],
+  space: [' '],
+  esc: ['Escape'],
+  escape: ['Escape'],
+  delete: ['Delete', 'Backspace'],
+  up: ['ArrowUp'],
+  down: ['ArrowDown'],
+  left: ['ArrowLeft'],
+  right: ['ArrowRight']
+};
+
+const SYSTEM_MODIFIERS = new Set(['ctrl', 'shift', 'alt', 'meta']);
+
+/**
+ * Statements that reproduce event modifiers inside a handler, for targets
+ * without modifier syntax. Modifiers that change how the listener is attached
+ * (capture, once, passive) are returned as unsupported.
+ */
+export function modifierGuards(modifiers: string[], event: string): { guards: string[]; unsupported: string[] } {
+  const guards: string[] = [];
+  const unsupported: string[] = [];
+
+  for (const modifier of modifiers) {
+    if (modifier === 'prevent') {
+      guards.push(`${event}.preventDefault();`);
+    } else if (modifier === 'stop') {
+      guards.push(`${event}.stopPropagation();`);
+    } else if (modifier === 'self') {
+      guards.push(`if (${event}.target !== ${event}.currentTarget) return;`);
+    } else if (SYSTEM_MODIFIERS.has(modifier)) {
+      guards.push(`if (!${event}.${modifier}Key) return;`);
+    } else if (KEY_MODIFIERS[modifier]) {
+      const keys = KEY_MODIFIERS[modifier];
+      guards.push(keys.length === 1
+        ? `if (${event}.key !== '${keys[0]}') return;`
+        : `if (![${keys.map(key => `'${key}'`).join(', ')}].includes(${event}.key)) return;`);
+    } else {
+      unsupported.push(modifier);
+    }
+  }
+  return { guards, unsupported };
+}
@@ -0,0 +1,507 @@
+import * as t from '@babel/types';
+import { TranspilerOptions } from '../../types';
+import { importStatement, memberNames, propField, typeParameterList } from '../builders';
+import { ComponentIR, IREffect, IRElement, IREmitResult, IREventBinding, IRFor, IRIf, IRNode, IRSlotOutlet } from '../types';
+import {
+  blockStatements,
+  camelCase,
+  docComment,
+  emitVisitor,
+  freeReferences,
+  hoistedType,
+  hoistLocals,
+  indent,
+  inlineCode,
+  kebabCase,
+  pascalCase,
+  patternAccessors,
+  rewriteReferences,
+  sharedLocals
+} from '../utils';
+import { handlerParts, MarkupEmitter, objectEntries, pad, twoWayBindings } from './MarkupEmitter';
+
+// Event modifiers Angular spells in the event name, as in (keyup.enter)
+const KEY_EVENT_MODIFIERS = new Set([
+  'enter', 'tab', 'space', 'esc', 'escape', 'delete', 'backspace',
+  'up', 'down', 'left', 'right', 'arrowup', 'arrowdown', 'arrowleft', 'arrowright',
+  'ctrl', 'shift', 'alt', 'meta'
+]);
+
+// Outputs are camelCase properties; two-way events pair with the prop as `propChange`
+function outputName(event: string): string {
+  return event.startsWith('update:') ? `${camelCase(event.slice(7))}Change` : camelCase(event);
+}
+
+function componentSelector(name: string): string {
+  return `app-${kebabCase(name)}`;
+}
+
+interface ClassMember {
+  code: string;
+  // Lifecycle interface the member implements, such as OnInit
+  implements?: string;
+}
+
+/**
+ * Raises the IR into a standalone Angular component class. Members become
+ * fields read through `this`, element refs are `@ViewChild` ElementRefs, and
+ * the template uses the built-in `@if`/`@for` control flow.
+ */
+export class AngularIREmitter extends MarkupEmitter {
+  private coreImports = new Set<string>();
+  private componentImports = new Set<string>();
+  // Template handlers too complex for a template statement
+  private handlerMethods: string[] = [];
+  // Effect locals hoisted to fields so ngOnDestroy can read them
+  private hoisted: string[] = [];
+
+  emit(ir: ComponentIR, options: TranspilerOptions): IREmitResult {
+    this.reset(ir, options);
+    this.coreImports = new Set(['Component']);
+    this.componentImports = new Set();
+    this.handlerMethods = [];
+    this.hoisted = [];
+
+    if (!this.typescript) {
+      this.warn('Angular components are written in TypeScript; the output uses TypeScript');
+    }
+
+    const template = this.printNodes(ir.template, 2).join('\n');
+    const members = this.printMembers();
+    // An unnamed component can't be the class `Component`, which names the decorator
+    const className = ir.name === 'Component' ? 'AppComponent' : ir.name.endsWith('Component') ? ir.name : `${ir.name}Component`;
+
+    const decorator = [
+      `  selector: '${componentSelector(ir.name)}'`,
+      '  standalone: true',
+      ...(this.componentImports.size ? [`  imports: [${[...this.componentImports].join(', ')}]`] : []),
+      `  template: \`\n${escapeTemplateLiteral(template)}\n  \``
+    ];
+    const styleUrls = ir.styles.filter(style => style.src).map(style => `'${style.src}'`);
+    if (styleUrls.length) {
+      decorator.push(`  styleUrls: [${styleUrls.join(', ')}]`);
+    }
+    const inline = ir.styles.filter(style => !style.src);
+    if (inline.length) {
+      const styles = inline.map(style => `\`\n${indent(escapeTemplateLiteral(style.content), 2)}\n  \``);
+      decorator.push(`  styles: [${styles.join(', ')}]`);
+      if (ir.styles.some(style => !style.scoped)) {
+        this.coreImports.add('ViewEncapsulation');
+        decorator.push('  encapsulation: ViewEncapsulation.None');
+        if (ir.styles.some(style => style.scoped)) {
+          this.warn('Scoped and global styles were combined into unencapsulated styles');
+        }
+      }
+      if (inline.some(style => style.lang && style.lang !== 'css')) {
+        this.warn('Inline component styles must be plain CSS; move preprocessor styles to a styleUrl');
+      }
+    }
+
+    // Tokens carry their default in a factory, used when nothing provides them
+    const tokens = ir.contexts.map(context => {
+      this.coreImports.add('InjectionToken');
+      const factory = context.default !== undefined ? `, { factory: () => ${context.default} }` : '';
+      return this.mark(`${context.exported ? 'export ' : ''}const ${context.name} = new InjectionToken${context.type ? `<${context.type}>` : ''}('${context.name}'${factory});`, context.loc);
+    });
+
+    const interfaces = [...new Set(members.map(member => member.implements).filter(Boolean))] as string[];
+    interfaces.forEach(name => this.coreImports.add(name));
+    const body = members.map(member => indent(member.code, 1)).join('\n\n');
+    const implementsClause = interfaces.length ? ` implements ${interfaces.join(', ')}` : '';
+
+    const imports = [
+      `import { ${[...this.coreImports].sort().join(', ')} } from '@angular/core';`,
+      ...(this.componentImports.has('FormsModule') ? ["import { FormsModule } from '@angular/forms';"] : []),
+      ...ir.imports.map(importStatement)
+    ];
+
+    // Importers of the source's exported props type still find it here
+    const propsFields = ir.props.map(prop => indent(prop.description ? `${docComment(prop.description)}\n${propField(prop)}` : propField(prop), 1));
+    const propsInterface = ir.propsInterface
+      ? `export interface ${ir.propsInterface}${typeParameterList(ir)} {\n${propsFields.join('\n')}\n}`
+      : '';
+
+    const code = [
+      imports.join('\n'),
+      ...ir.declarations,
+      tokens.join('\n'),
+      propsInterface,
+      `@Component({\n${decorator.join(',\n')}\n})\nexport class ${className}${typeParameterList(ir)}${implementsClause} {\n${body}\n}`
+    ].filter(Boolean).join('\n\n');
+
+    return { code: `${code}\n`, warnings: this.warnings };
+  }
+
+  /**
+   * Rewrite IR code for the class body: members are read through `this`,
+   * element refs through their ElementRef and `$emit` calls the output.
+   */
+  private raise(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    const members = new Set([...memberNames(this.ir), ...this.hoisted]);
+    const refs = new Set(this.ir.refs.map(ref => ref.name));
+
+    return rewriteReferences(code, kind, name => {
+      if (refs.has(name)) {
+        return t.memberExpression(t.memberExpression(t.thisExpression(), t.identifier(name)), t.identifier('nativeElement'));
+      }
+      return members.has(name) ? t.memberExpression(t.thisExpression(), t.identifier(name)) : null;
+    }, emitVisitor((event, args) => t.callExpression(
+      t.memberExpression(t.memberExpression(t.thisExpression(), t.identifier(outputName(event))), t.identifier('emit')),
+      args
+    )));
+  }
+
+  // Template code reads members directly; only `$emit` changes
+  private raiseTemplate(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    return rewriteReferences(code, kind, () => null, emitVisitor((event, args) =>
+      t.callExpression(t.memberExpression(t.identifier(outputName(event)), t.identifier('emit')), args)
+    ));
+  }
+
+  private printMembers(): ClassMember[] {
+    const { ir } = this;
+    const fields: string[] = [];
+
+    ir.props.forEach(prop => {
+      const type = prop.type ?? 'any';
+      const doc = prop.description ? `${docComment(prop.description)}\n` : '';
+      this.coreImports.add('Input');
+      if (prop.required) {
+        fields.push(doc + this.mark(`@Input({ required: true }) ${prop.name}!: ${type};`, prop.loc));
+      } else {
+        fields.push(doc + this.mark(prop.default !== undefined
+          ? `@Input() ${prop.name}: ${type} = ${this.raise(prop.default)};`
+          : `@Input() ${prop.name}?: ${type};`, prop.loc));
+      }
+    });
+
+    ir.events.forEach(event => {
+      this.coreImports.add('Output');
+      this.coreImports.add('EventEmitter');
+      fields.push(this.mark(`@Output() ${outputName(event.name)} = new EventEmitter<${event.payloadType ?? 'void'}>();`, event.loc));
+    });
+
+    ir.refs.forEach(ref => {
+      this.coreImports.add('ViewChild');
+      this.coreImports.add('ElementRef');
+      fields.push(this.mark(`@ViewChild('${ref.name}') ${ref.name}!: ElementRef<${ref.type ?? 'HTMLElement'}>;`, ref.loc));
+    });
+
+    // Injected values and composable results are read-only fields; a
+    // destructured one keeps the whole value and reads each name from it
+    const readonlyFields = (binding: string, holder: string, init: string, loc: ComponentIR['injections'][number]['loc']) => {
+      const accessors = /^[\w$]+$/.test(binding) ? null : patternAccessors(binding);
+      if (!accessors) {
+        fields.push(this.mark(`readonly ${binding} = ${init};`, loc));
+        return;
+      }
+      fields.push(this.mark(`private readonly ${holder} = ${init};`, loc));
+      accessors.forEach(([name, access]) => fields.push(`readonly ${name} = this.${holder}${access};`));
+    };
+
+    ir.injections.forEach(injection => {
+      this.coreImports.add('inject');
+      const local = ir.contexts.some(context => context.name === injection.key);
+      if (!local) {
+        this.warn(`inject(${injection.key}) needs ${injection.key} to be an InjectionToken or injectable class provided by an ancestor`);
+      }
+      const init = injection.default !== undefined && !local
+        ? `inject(${injection.key}, { optional: true }) ?? ${injection.default}`
+        : `inject(${injection.key})`;
+      readonlyFields(injection.binding, camelCase(injection.key.replace(/\W+/g, '-').replace(/^\w/, char => char.toLowerCase())), init, injection.loc);
+    });
+
+    ir.composables.forEach(composable => {
+      this.warn(`${composable.callee}() is called in a field initializer, where inject() works; implement it with signals or move it into a service`);
+      if (composable.args.some(arg => freeReferences(arg).some(name => ir.props.some(prop => prop.name === name)))) {
+        this.warn(`${composable.callee}() reads inputs in a field initializer, before Angular sets them; pass signal inputs instead`);
+      }
+      const call = `${composable.callee}(${composable.args.map(arg => this.raise(arg)).join(', ')})`;
+      if (composable.binding) {
+        readonlyFields(composable.binding, camelCase(composable.callee.replace(/^use/, '').replace(/^\w/, char => char.toLowerCase())), call, composable.loc);
+      } else {
+        fields.push(this.mark(`private readonly ${camelCase(composable.callee.replace(/^use/, '').replace(/^\w/, char => char.toLowerCase()))} = ${call};`, composable.loc));
+      }
+    });
+
+    ir.state.forEach(state => {
+      const type = state.type ? `: ${state.type}` : '';
+      fields.push(this.mark(state.initial === 'undefined'
+        ? `${state.name}?${type || ': any'};`
+        : `${state.name}${type} = ${this.raise(state.initial)};`, state.loc));
+    });
+
+    if (ir.slots.some(slot => slot.params.length)) {
+      this.warn('Scoped slots have no Angular equivalent; projected content cannot read slot props');
+    }
+
+    // Lifecycle hooks decide which effect locals become fields
+    const { hooks, snapshots } = this.printLifecycle();
+    const hoistedFields = [
+      ...this.hoisted.map(name => `private ${name}?: ${hoistedType(this.mountBodies(), name).replace(/ \| undefined$/, '')};`),
+      ...snapshots
+    ];
+
+    const getters = ir.derived.map(derived => ({
+      code: this.mark(`get ${derived.name}()${derived.type ? `: ${derived.type}` : ''} {\n  return ${this.raise(derived.expression)};\n}`, derived.loc)
+    }));
+    const methods = ir.methods.map(method => ({
+      code: this.mark(`${method.async ? 'async ' : ''}${method.name}(${method.params.join(', ')}) ${this.raise(method.body, 'block')}`, method.loc)
+    }));
+    const handlers = this.handlerMethods.map(code => ({ code }));
+
+    return [
+      ...(fields.length || hoistedFields.length ? [{ code: [...fields, ...hoistedFields].join('\n') }] : []),
+      ...getters,
+      ...hooks,
+      ...methods,
+      ...handlers
+    ];
+  }
+
+  private mountBodies(): string {
+    return `{\n${this.ir.effects.filter(effect => effect.trigger === 'mount').map(effect => blockStatements(effect.body)).join('\n')}\n}`;
+  }
+
+  private printLifecycle(): { hooks: ClassMember[]; snapshots: string[] } {
+    const { ir } = this;
+    const props = new Set(ir.props.map(prop => prop.name));
+    const refs = new Set(ir.refs.map(ref => ref.name));
+    const init: string[] = [];
+    const viewInit: string[] = [];
+    const destroy: string[] = [];
+    const changes: string[] = [];
+    const check: string[] = [];
+    const viewChecked: string[] = [];
+    const snapshots: string[] = [];
+
+    // Collect hoisted locals first so every hook reads them through `this`
+    const mountEffects = ir.effects.map(effect => {
+      if (effect.trigger !== 'mount' || !effect.cleanup) return effect;
+      const shared = sharedLocals(effect.body, effect.cleanup);
+      this.hoisted.push(...shared);
+      return { ...effect, body: hoistLocals(effect.body, shared) };
+    });
+
+    mountEffects.forEach((effect: IREffect) => {
+      const statements = this.mark(blockStatements(this.raise(effect.body, 'block')), effect.loc);
+      const cleanup = effect.cleanup ? blockStatements(this.raise(effect.cleanup, 'block')) : '';
+
+      if (effect.trigger === 'mount') {
+        // ViewChild refs are only set once the view is initialised
+        const usesRefs = freeReferences(effect.body, 'block').some(name => refs.has(name));
+        (usesRefs ? viewInit : init).push(statements);
+        if (cleanup) destroy.push(cleanup);
+      } else if (effect.trigger === 'unmount') {
+        destroy.push(statements);
+      } else if (effect.dependencies.length === 0) {
+        viewChecked.push(statements);
+        if (cleanup) this.warn('Cleanup of an effect without dependencies was dropped');
+      } else if (effect.dependencies.every(name => props.has(name))) {
+        const condition = effect.dependencies.map(name => `changes['${name}']`).join(' || ');
+        changes.push(`if (${condition}) {\n${indent(statements, 1)}\n}`);
+        if (cleanup) this.warn('Cleanup of a change effect was dropped; run it before the next change by hand');
+      } else {
+        // Compare against the values seen on the previous check
+        const field = `previous${snapshots.length ? snapshots.length + 1 : ''}`;
+        const values = `[${effect.dependencies.map(name => this.raise(name)).join(', ')}]`;
+        snapshots.push(`private ${field}: unknown[] = [];`);
+        check.push([
+          `const ${field} = ${values};`,
+          `if (${field}.some((value, index) => value !== this.${field}[index])) {`,
+          `  this.${field} = ${field};`,
+          indent(statements, 1),
+          '}'
+        ].join('\n'));
+        if (cleanup) this.warn('Cleanup of a change effect was dropped; run it before the next change by hand');
+      }
+    });
+
+    const hook = (name: string, iface: string, lines: string[], params = '') =>
+      (lines.length ? [{ code: `${name}(${params}): void {\n${indent(lines.join('\n'), 1)}\n}`, implements: iface }] : []);
+
+    if (changes.length) this.coreImports.add('SimpleChanges');
+    const hooks = [
+      ...hook('ngOnChanges', 'OnChanges', changes, 'changes: SimpleChanges'),
+      ...hook('ngOnInit', 'OnInit', init),
+      ...hook('ngDoCheck', 'DoCheck', check),
+      ...hook('ngAfterViewInit', 'AfterViewInit', viewInit),
+      ...hook('ngAfterViewChecked', 'AfterViewChecked', viewChecked),
+      ...hook('ngOnDestroy', 'OnDestroy', destroy)
+    ];
+    return { hooks, snapshots };
+  }
+
+  protected escapeText(text: string): string {
+    // Braces start ICU expressions and @ starts control flow blocks
+    return super.escapeText(text).replace(/{/g, '&#123;').replace(/}/g, '&#125;').replace(/@/g, '&#64;');
+  }
+
+  protected interpolation(expression: string): string {
+    return `{{ ${this.templateExpression(expression)} }}`;
+  }
+
+  private templateExpression(code: string): string {
+    const expression = inlineCode(this.raiseTemplate(code));
+    if (/=>/.test(expression)) {
+      this.warn(`Angular templates do not support arrow functions: ${expression}`);
+    }
+    return expression;
+  }
+
+  protected elementTag(element: IRElement): string {
+    if (!element.component) return element.tag;
+    if (!element.tag.includes('-')) {
+      this.warn(`Add ${element.tag}Component to the component imports`);
+    }
+    return element.tag.includes('-') ? element.tag : componentSelector(element.tag);
+  }
+
+  protected elementAttributes(element: IRElement): string[] {
+    const attributes: string[] = [];
+    const quote = (code: string) => this.escapeAttribute(this.templateExpression(code));
+    const { bindings, attributes: rest, events } = twoWayBindings(element);
+
+    if (element.ref) attributes.push(`#${element.ref}`);
+    bindings.forEach(binding => attributes.push(`[(${binding.prop})]="${quote(binding.expression)}"`));
+
+    for (const attribute of rest) {
+      if (attribute.kind === 'static') {
+        attributes.push(this.staticAttribute(attribute));
+      } else if (attribute.kind === 'spread') {
+        this.warn(`Spread attributes are not supported in Angular templates and were dropped: ${attribute.expression}`);
+      } else if (attribute.kind === 'model') {
+        this.componentImports.add('FormsModule');
+        attributes.push(`[(ngModel)]="${quote(attribute.expression)}"`);
+      } else if (element.component) {
+        attributes.push(`[${camelCase(attribute.name)}]="${quote(attribute.expression)}"`);
+      } else if (attribute.name === 'style') {
+        attributes.push(`[style]="${quote(this.styleObject(attribute.expression))}"`);
+      } else if (attribute.name === 'class' || attribute.name === 'innerHTML') {
+        attributes.push(`[${attribute.name}]="${quote(attribute.expression)}"`);
+      } else if (attribute.name.includes('-') || attribute.name === 'for') {
+        attributes.push(`[attr.${attribute.name}]="${quote(attribute.expression)}"`);
+      } else {
+        attributes.push(`[${attribute.name}]="${quote(attribute.expression)}"`);
+      }
+    }
+
+    events.forEach(event => attributes.push(this.eventAttribute(event, element)));
+    return attributes;
+  }
+
+  // Angular style objects take CSS property names
+  private styleObject(expression: string): string {
+    const entries = objectEntries(expression);
+    if (!entries) return expression;
+    return `{ ${entries.map(([name, value]) => `'${kebabCase(name)}': ${value}`).join(', ')} }`;
+  }
+
+  private eventAttribute(event: IREventBinding, element: IRElement): string {
+    const keys = event.modifiers.filter(modifier => KEY_EVENT_MODIFIERS.has(modifier));
+    const guards: string[] = [];
+    event.modifiers.filter(modifier => !keys.includes(modifier)).forEach(modifier => {
+      if (modifier === 'prevent') guards.push('$event.preventDefault();');
+      else if (modifier === 'stop') guards.push('$event.stopPropagation();');
+      else this.warn(`The .${modifier} event modifier has no Angular equivalent and was dropped`);
+    });
+
+    const name = element.component ? outputName(event.name) : [event.name, ...keys].join('.');
+    const statement = this.handlerStatement(event, element);
+    return `(${name})="${this.escapeAttribute([...guards, statement].join(' ').replace(/;$/, ''))}"`;
+  }
+
+  // Event handlers become template statements reading the event as $event
+  private handlerStatement(event: IREventBinding, element: IRElement): string {
+    const raised = this.raiseTemplate(event.handler);
+    const parts = handlerParts(raised);
+
+    if (parts.params === null) {
+      if (!/^[\w$.]+$/.test(raised)) return parts.statements;
+      // Methods that take no arguments don't need the event
+      const method = this.ir.methods.find(candidate => candidate.name === raised);
+      return method?.params.length === 0 ? `${raised}()` : `${raised}($event)`;
+    }
+
+    const [param] = parts.params;
+    const rename = (code: string) => (param && param !== '$event'
+      ? rewriteReferences(code, 'block', name => (name === param ? t.identifier('$event') : null))
+      : code);
+    const statements = rename(parts.statements);
+    const simple = parts.params.length <= 1 && (!param || /^[\w$]+$/.test(param)) && !/=>|\b(const|let|var|if|for|while|return)\b/.test(statements);
+    if (simple) return inlineCode(statements);
+
+    // Generate a method for handlers a template statement can't express
+    const method = `handle${pascalCase(element.tag)}${pascalCase(event.name)}${this.handlerMethods.length ? this.handlerMethods.length + 1 : ''}`;
+    this.handlerMethods.push(`${method}(${parts.params.join(', ')}) ${this.raise(`{\n${parts.statements}\n}`, 'block')}`);
+    return `${method}($event)`;
+  }
+
+  protected elementChildren(element: IRElement, depth: number): string[] {
+    const lines = this.printNodes(element.children, depth + 1);
+    for (const slot of element.slots) {
+      if (slot.params) {
+        this.warn(`Slot props of ${slot.name} are not available to projected content`);
+      }
+      if (slot.name === 'default') {
+        lines.push(...this.printNodes(slot.children, depth + 1));
+        continue;
+      }
+      const content = slot.children.filter(child => child.type !== 'text' || child.value.trim());
+      if (content.length === 1 && content[0].type === 'element') {
+        const target: IRElement = {
+          ...content[0],
+          attributes: [{ kind: 'static', name: 'slot', value: slot.name }, ...content[0].attributes]
+        };
+        lines.push(...this.printElement(target, depth + 1));
+      } else {
+        lines.push(
+          `${pad(depth + 1)}<ng-container ngProjectAs="[slot=${slot.name}]">`,
+          ...this.printNodes(slot.children, depth + 2),
+          `${pad(depth + 1)}</ng-container>`
+        );
+      }
+    }
+    return lines;
+  }
+
+  protected printIf(node: IRIf, depth: number): string[] {
+    const lines: string[] = [];
+    node.branches.forEach((branch, index) => {
+      const condition = branch.condition !== undefined ? this.templateExpression(branch.condition) : '';
+      const open = index === 0 ? `@if (${condition}) {` : branch.condition !== undefined ? `} @else if (${condition}) {` : '} @else {';
+      lines.push(pad(depth) + open, ...this.printNodes(branch.children, depth + 1));
+    });
+    return [...lines, `${pad(depth)}}`];
+  }
+
+  protected printFor(node: IRFor, depth: number): string[] {
+    const track = node.key ? this.templateExpression(node.key) : '$index';
+    const index = node.index ? `; let ${node.index} = $index` : '';
+    return [
+      `${pad(depth)}@for (${node.item} of ${this.templateExpression(node.source)}; track ${track}${index}) {`,
+      ...this.printNodes(node.children, depth + 1),
+      `${pad(depth)}}`
+    ];
+  }
+
+  protected printSlotOutlet(node: IRSlotOutlet, depth: number): string[] {
+    if (node.props.length) {
+      this.warn(`Slot ${node.name} passes props, which projected content cannot read`);
+    }
+    const select = node.name === 'default' ? '' : ` select="[slot=${node.name}]"`;
+    if (node.fallback.length === 0) {
+      return [`${pad(depth)}<ng-content${select} />`];
+    }
+    // Fallback content needs Angular 18
+    return [
+      `${pad(depth)}<ng-content${select}>`,
+      ...this.printNodes(node.fallback, depth + 1),
+      `${pad(depth)}</ng-content>`
+    ];
+  }
+}
+
+function escapeTemplateLiteral(code: string): string {
+  return code.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+}
@@ -0,0 +1,284 @@
+import * as t from '@babel/types';
+import { markLine, MarkerSyntax } from '../../sourcemap';
+import { SourcePosition, TranspilerOptions } from '../../types';
+import { modifierGuards, VOID_ELEMENTS } from '../dom';
+import {
+  ComponentIR,
+  IRAttribute,
+  IRElement,
+  IREmitResult,
+  IREmitter,
+  IREventBinding,
+  IRFor,
+  IRIf,
+  IRNode,
+  IRSlotOutlet
+} from '../types';
+import { generateCode, inlineCode, kebabCase, parseSnippetExpression } from '../utils';
+
+// Opening tags longer than this put one attribute per line
+const MAX_LINE_LENGTH = 100;
+
+export interface HandlerParts {
+  // Parameter sources, or null when the handler is a reference such as `save`
+  params: string[] | null;
+  // Body statements on one line, without braces
+  statements: string;
+  // The body when it is a single expression
+  expression?: string;
+}
+
+// Split an event handler into its parameters and body
+export function handlerParts(handler: string): HandlerParts {
+  const node = parseSnippetExpression(handler);
+  if (!(t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) || node.async) {
+    return { params: null, statements: `${handler};` };
+  }
+
+  const params = node.params.map(param => generateCode(param));
+  if (t.isExpression(node.body)) {
+    const expression = inlineCode(generateCode(node.body));
+    return { params, statements: `${expression};`, expression };
+  }
+
+  const statements = node.body.body;
+  if (statements.length === 1 && t.isExpressionStatement(statements[0])) {
+    const expression = inlineCode(generateCode(statements[0].expression));
+    return { params, statements: `${expression};`, expression };
+  }
+  return { params, statements: statements.map(statement => inlineCode(generateCode(statement))).join(' ') };
+}
+
+/**
+ * Fold event modifiers into the handler for targets without modifier syntax:
+ * `prevent` + `save` becomes `event => { event.preventDefault(); save(event); }`.
+ */
+export function guardedHandler(handler: string, modifiers: string[]): { handler: string; unsupported: string[] } {
+  const parts = handlerParts(handler);
+  const param = parts.params?.[0];
+  const event = param && /^[\w$]+$/.test(param) ? param : 'event';
+  const { guards, unsupported } = modifierGuards(modifiers, event);
+  if (guards.length === 0) {
+    return { handler: inlineCode(handler), unsupported };
+  }
+
+  const node = parseSnippetExpression(handler);
+  const body = parts.params !== null
+    ? parts.statements
+    : t.isIdentifier(node) || t.isMemberExpression(node) ? `${handler}(${event});` : `${handler};`;
+  const destructure = param && event !== param ? [`const ${param} = ${event};`] : [];
+  return { handler: `(${event}) => { ${[...guards, ...destructure, body].join(' ')} }`, unsupported };
+}
+
+// Entries of an object literal expression as [key, value source], or null
+export function objectEntries(expression: string): Array<[string, string]> | null {
+  const node = parseSnippetExpression(expression);
+  if (!t.isObjectExpression(node)) return null;
+
+  const entries: Array<[string, string]> = [];
+  for (const property of node.properties) {
+    if (!t.isObjectProperty(property) || property.computed) return null;
+    const key = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : null;
+    if (key === null) return null;
+    entries.push([key, inlineCode(generateCode(property.value))]);
+  }
+  return entries;
+}
+
+export interface TwoWayBinding {
+  prop: string;
+  expression: string;
+}
+
+// True when a handler only assigns its argument to `expression`
+function isSetterFor(handler: string, expression: string): boolean {
+  const parts = handlerParts(handler);
+  return parts.params?.length === 1 && parts.expression === `${expression} = ${parts.params[0]}`;
+}
+
+/**
+ * Split a component's `update:prop` / `prop-change` listeners that write
+ * back a bound prop into two-way bindings (`v-model:prop`, `bind:prop`,
+ * `[(prop)]`).
+ */
+export function twoWayBindings(element: IRElement): {
+  bindings: TwoWayBinding[];
+  attributes: IRAttribute[];
+  events: IREventBinding[];
+} {
+  if (!element.component) {
+    return { bindings: [], attributes: element.attributes, events: element.events };
+  }
+
+  const bindings: TwoWayBinding[] = [];
+  const attributes: IRAttribute[] = [];
+  const events = [...element.events];
+
+  for (const attribute of element.attributes) {
+    if (attribute.kind === 'bound') {
+      const index = events.findIndex(event =>
+        (event.name === `update:${attribute.name}` || event.name === `${kebabCase(attribute.name)}-change`)
+        && isSetterFor(event.handler, attribute.expression)
+      );
+      if (index !== -1) {
+        bindings.push({ prop: attribute.name, expression: attribute.expression });
+        events.splice(index, 1);
+        continue;
+      }
+    }
+    attributes.push(attribute);
+  }
+
+  return { bindings, attributes, events };
+}
+
+export function pad(depth: number): string {
+  return '  '.repeat(depth);
+}
+
+/**
+ * Shared printer for the HTML-like targets (Vue, Angular, Svelte). It lays
+ * out elements and inline text; subclasses supply the directive syntax for
+ * bindings, events, conditionals, loops and slots.
+ */
+export abstract class MarkupEmitter implements IREmitter {
+  protected ir!: ComponentIR;
+  protected options: TranspilerOptions = {};
+  protected warnings: string[] = [];
+
+  abstract emit(ir: ComponentIR, options: TranspilerOptions): IREmitResult;
+
+  protected reset(ir: ComponentIR, options: TranspilerOptions): void {
+    this.ir = ir;
+    this.options = options;
+    this.warnings = [];
+  }
+
+  protected warn(message: string): void {
+    if (!this.warnings.includes(message)) this.warnings.push(message);
+  }
+
+  protected get typescript(): boolean {
+    return this.options.typescript ?? this.ir.typescript;
+  }
+
+  // Prefix printed code with the source position it came from, if asked to
+  protected mark(code: string, loc: SourcePosition | undefined, syntax: MarkerSyntax = 'script'): string {
+    return this.options.generateSourceMap ? markLine(code, loc, syntax) : code;
+  }
+
+  protected abstract interpolation(expression: string): string;
+  protected abstract elementTag(element: IRElement): string;
+  protected abstract elementAttributes(element: IRElement): string[];
+  protected abstract printIf(node: IRIf, depth: number): string[];
+  protected abstract printFor(node: IRFor, depth: number): string[];
+  protected abstract printSlotOutlet(node: IRSlotOutlet, depth: number): string[];
+
+  protected escapeText(text: string): string {
+    return text.replace(/</g, '&lt;');
+  }
+
+  protected escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  }
+
+  protected staticAttribute(attribute: Extract<IRAttribute, { kind: 'static' }>): string {
+    return attribute.value === true ? attribute.name : `${attribute.name}="${this.escapeAttribute(attribute.value)}"`;
+  }
+
+  protected isInline(node: IRNode): boolean {
+    return node.type === 'text' || node.type === 'expression';
+  }
+
+  protected inlineContent(nodes: IRNode[]): string {
+    return nodes
+      .map(node => {
+        if (node.type === 'text') return this.escapeText(node.value);
+        if (node.type === 'expression') return this.interpolation(inlineCode(node.expression));
+        return '';
+      })
+      .join('');
+  }
+
+  protected printNodes(nodes: IRNode[], depth: number): string[] {
+    const lines: string[] = [];
+    let run: IRNode[] = [];
+
+    // Adjacent text and interpolations stay on one line
+    const flush = () => {
+      const content = this.inlineContent(run).trim();
+      if (content) lines.push(pad(depth) + content);
+      run = [];
+    };
+
+    for (const node of nodes) {
+      if (this.isInline(node)) {
+        run.push(node);
+      } else {
+        flush();
+        lines.push(...this.printNode(node, depth));
+      }
+    }
+    flush();
+    return lines;
+  }
+
+  protected printNode(node: IRNode, depth: number): string[] {
+    const [first, ...rest] = this.printNodeLines(node, depth);
+    if (first === undefined) return [];
+    return 'loc' in node ? [this.mark(first, node.loc, 'markup'), ...rest] : [first, ...rest];
+  }
+
+  private printNodeLines(node: IRNode, depth: number): string[] {
+    switch (node.type) {
+      case 'element':
+        return this.printElement(node, depth);
+      case 'if':
+        return this.printIf(node, depth);
+      case 'for':
+        return this.printFor(node, depth);
+      case 'slot':
+        return this.printSlotOutlet(node, depth);
+      case 'comment':
+        return [`${pad(depth)}<!-- ${node.value} -->`];
+      default:
+        return this.printNodes([node], depth);
+    }
+  }
+
+  // Child lines of an element; targets add named slot content here
+  protected elementChildren(element: IRElement, depth: number): string[] {
+    return this.printNodes(element.children, depth + 1);
+  }
+
+  protected printElement(element: IRElement, depth: number, directives: string[] = []): string[] {
+    const tag = this.elementTag(element);
+    const attributes = [...directives, ...this.elementAttributes(element)];
+    const hasContent = element.children.length > 0 || element.slots.length > 0;
+
+    if (!hasContent && (VOID_ELEMENTS.has(tag) || element.component)) {
+      return this.openTag(tag, attributes, depth, true);
+    }
+
+    const open = this.openTag(tag, attributes, depth, false);
+    if (element.slots.length === 0 && element.children.every(child => this.isInline(child)) && open.length === 1) {
+      const line = `${open[0]}${this.inlineContent(element.children)}</${tag}>`;
+      if (line.length <= MAX_LINE_LENGTH || element.children.length === 0) return [line];
+    }
+
+    return [...open, ...this.elementChildren(element, depth), `${pad(depth)}</${tag}>`];
+  }
+
+  protected openTag(tag: string, attributes: string[], depth: number, selfClosing: boolean): string[] {
+    const end = selfClosing ? ' />' : '>';
+    const line = `${pad(depth)}<${[tag, ...attributes].join(' ')}${end}`;
+    if (line.length <= MAX_LINE_LENGTH || attributes.length < 2) {
+      return [line];
+    }
+    return [
+      `${pad(depth)}<${tag}`,
+      ...attributes.map(attribute => pad(depth + 1) + attribute),
+      `${pad(depth)}${end.trim()}`
+    ];
+  }
+}
@@ -0,0 +1,728 @@
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { markLine, MarkerSyntax, withoutMarkers } from '../../sourcemap';
+import { SourcePosition, TranspilerOptions } from '../../types';
+import { importStatement, memberDependencies, propField, typeParameterList } from '../builders';
+import { eventProp, parseStyleDeclarations, toReactAttribute, toReactEvent } from '../dom';
+import {
+  ComponentIR,
+  IRAttribute,
+  IRElement,
+  IREmitResult,
+  IREmitter,
+  IRFor,
+  IRIf,
+  IRNode,
+  IRSlotContent,
+  IRSlotOutlet
+} from '../types';
+import {
+  camelCase,
+  docComment,
+  emitVisitor,
+  freeReferences,
+  generateCode,
+  indent,
+  inlineCode,
+  isFreeReference,
+  parseSnippetExpression,
+  rewriteReferences,
+  stripTypes
+} from '../utils';
+import { guardedHandler, objectEntries, pad } from './MarkupEmitter';
+
+// Array methods that change the array in place
+const MUTATING_METHODS = new Set(['pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin']);
+
+// Lines longer than this are broken up
+const MAX_LINE_LENGTH = 100;
+
+// Source markers don't count towards the line length
+function fits(line: string): boolean {
+  return withoutMarkers(line).length <= MAX_LINE_LENGTH;
+}
+
+function setterName(state: string): string {
+  return `set${state.charAt(0).toUpperCase()}${state.slice(1)}`;
+}
+
+// Expressions a template renders with; event handlers only run on events
+function renderedExpressions(nodes: IRNode[]): string[] {
+  return nodes.flatMap((node): string[] => {
+    switch (node.type) {
+      case 'expression':
+        return [node.expression];
+      case 'element':
+        return [
+          ...node.attributes.map(attribute => attribute.kind === 'static' ? '' : attribute.expression).filter(Boolean),
+          ...renderedExpressions(node.children),
+          ...node.slots.flatMap(slot => renderedExpressions(slot.children))
+        ];
+      case 'if':
+        return node.branches.flatMap(branch => [...(branch.condition ? [branch.condition] : []), ...renderedExpressions(branch.children)]);
+      case 'for':
+        return [node.source, ...(node.key ? [node.key] : []), ...renderedExpressions(node.children)];
+      case 'slot':
+        return [...node.props.map(prop => prop.expression), ...renderedExpressions(node.fallback)];
+      default:
+        return [];
+    }
+  });
+}
+
+function references(node: t.Node, name: string): boolean {
+  let found = false;
+  t.traverseFast(node, child => {
+    if (t.isIdentifier(child, { name })) found = true;
+  });
+  return found;
+}
+
+/**
+ * Raises the IR into a React function component. Reactive state becomes
+ * `useState`, so assignments turn into setter calls; other state and
+ * element refs are `useRef` values read through `.current`.
+ */
+export class ReactIREmitter implements IREmitter {
+  private ir!: ComponentIR;
+  private options: TranspilerOptions = {};
+  private warnings: string[] = [];
+  private hooks = new Set<string>();
+  // State that rendering or effects depend on; the rest needs no re-render
+  private rendered = new Set<string>();
+
+  emit(ir: ComponentIR, options: TranspilerOptions): IREmitResult {
+    this.ir = ir;
+    this.options = options;
+    this.warnings = [];
+    this.hooks = new Set();
+    this.rendered = this.renderedNames();
+
+    if (ir.styles.length) {
+      this.warn('React components have no component styles; move the styles into a stylesheet or CSS module');
+    }
+
+    const markup = this.printRoot();
+    const body = this.printBody();
+    const signature = this.printSignature();
+
+    const contexts = ir.contexts.map(context => {
+      this.hooks.add('createContext');
+      const type = this.typescript && context.type ? `<${context.type}>` : '';
+      return this.mark(`${context.exported ? 'export ' : ''}const ${context.name} = createContext${type}(${context.default ?? 'undefined'});`, context.loc);
+    });
+
+    const reactImport = this.hooks.size
+      ? `import React, { ${[...this.hooks].sort().join(', ')} } from 'react';`
+      : "import React from 'react';";
+    const imports = [reactImport, ...ir.imports.map(importStatement)].join('\n');
+
+    const component = [
+      `export default function ${ir.name}${signature.typeParameters}(${signature.params}) {`,
+      ...(body.length ? [body.map(chunk => indent(chunk, 1)).join('\n\n'), ''] : []),
+      indent(markup, 1),
+      '}'
+    ].join('\n');
+
+    const code = [imports, ...ir.declarations.map(declaration => this.script(declaration)), ...contexts, ...signature.types, component]
+      .filter(Boolean)
+      .join('\n\n');
+    return { code: `${code}\n`, warnings: this.warnings };
+  }
+
+  private warn(message: string): void {
+    if (!this.warnings.includes(message)) this.warnings.push(message);
+  }
+
+  private get typescript(): boolean {
+    return this.options.typescript ?? this.ir.typescript;
+  }
+
+  // Prefix printed code with the source position it came from, if asked to
+  private mark(code: string, loc: SourcePosition | undefined, syntax: MarkerSyntax = 'script'): string {
+    return this.options.generateSourceMap ? markLine(code, loc, syntax) : code;
+  }
+
+  private markLines([first, ...rest]: string[], node: IRNode, syntax: MarkerSyntax): string[] {
+    if (first === undefined) return [];
+    return [this.mark(first, 'loc' in node ? node.loc : undefined, syntax), ...rest];
+  }
+
+  // Script code printed for a JavaScript target loses its type syntax
+  private script(code: string, kind: 'expression' | 'block' = 'block'): string {
+    return this.typescript || !this.ir.typescript ? code : stripTypes(code, kind);
+  }
+
+  /**
+   * Names the output depends on: template expressions, derived values and
+   * effect dependencies, plus whatever the methods they call read.
+   */
+  private renderedNames(): Set<string> {
+    const { ir } = this;
+    const methods = new Map(ir.methods.map(method => [method.name, method]));
+    const names = new Set([
+      ...renderedExpressions(ir.template).flatMap(code => freeReferences(code)),
+      ...ir.derived.flatMap(derived => freeReferences(derived.expression)),
+      ...ir.effects.flatMap(effect => effect.dependencies)
+    ]);
+
+    const visited = new Set<string>();
+    for (const name of names) {
+      const method = methods.get(name);
+      if (!method || visited.has(name)) continue;
+      visited.add(name);
+      freeReferences(method.body, 'block').forEach(reference => names.add(reference));
+    }
+    return names;
+  }
+
+  // State is kept in useState only when rendering depends on it
+  private isReactive(name: string): boolean {
+    return this.ir.state.some(state => state.name === name && state.reactive) && this.rendered.has(name);
+  }
+
+  // Other state and element refs live in refs
+  private refNames(): Set<string> {
+    return new Set([
+      ...this.ir.state.filter(state => !this.isReactive(state.name)).map(state => state.name),
+      ...this.ir.refs.map(ref => ref.name)
+    ]);
+  }
+
+  /**
+   * Rewrite IR code for a function component: state writes call setters,
+   * refs read `.current` and `$emit` calls the callback prop.
+   */
+  private raise(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    const refs = this.refNames();
+    const props = new Set(this.ir.props.map(prop => prop.name));
+    const derived = new Set(this.ir.derived.map(entry => entry.name));
+
+    // setX(value), or setX(x => value) when the value reads x
+    const setter = (name: string, value: t.Expression) => t.callExpression(
+      t.identifier(setterName(name)),
+      [references(value, name) ? t.arrowFunctionExpression([t.identifier(name)], value) : value]
+    );
+
+    const emits = emitVisitor((event, args) => t.optionalCallExpression(t.identifier(eventProp(event)), args, true));
+
+    const raised = rewriteReferences(code, kind, name => (
+      refs.has(name) ? t.memberExpression(t.identifier(name), t.identifier('current')) : null
+    ), {
+      AssignmentExpression: (path: NodePath<t.AssignmentExpression>) => {
+        const { left, operator, right } = path.node;
+
+        if (t.isIdentifier(left) && isFreeReference(path.get('left') as NodePath<t.Identifier>)) {
+          if (this.isReactive(left.name)) {
+            const value = operator === '='
+              ? right
+              : t.binaryExpression(operator.slice(0, -1) as any, t.identifier(left.name), right);
+            path.replaceWith(setter(left.name, value));
+          } else if (props.has(left.name) || derived.has(left.name)) {
+            this.warn(`${left.name} is assigned in the component but is read-only in React`);
+          }
+          return;
+        }
+
+        // state.field = value copies the object
+        if (t.isMemberExpression(left) && t.isIdentifier(left.object) && this.isReactive(left.object.name)
+          && !path.scope.hasBinding(left.object.name, true)) {
+          const name = left.object.name;
+          if (left.computed || operator !== '=' || !t.isIdentifier(left.property)) {
+            this.warn(`Update ${name} through ${setterName(name)} instead of mutating it`);
+            return;
+          }
+          path.replaceWith(setter(name, t.objectExpression([
+            t.spreadElement(t.identifier(name)),
+            t.objectProperty(t.identifier(left.property.name), right)
+          ])));
+        }
+      },
+      UpdateExpression: (path: NodePath<t.UpdateExpression>) => {
+        const { argument, operator } = path.node;
+        if (t.isIdentifier(argument) && this.isReactive(argument.name) && !path.scope.hasBinding(argument.name, true)) {
+          path.replaceWith(setter(argument.name, t.binaryExpression(
+            operator === '++' ? '+' : '-',
+            t.identifier(argument.name),
+            t.numericLiteral(1)
+          )));
+        }
+      },
+      CallExpression: (path: NodePath<t.CallExpression>) => {
+        (emits.CallExpression as (path: NodePath<t.CallExpression>) => void)(path);
+        if (!t.isCallExpression(path.node)) return;
+
+        const { callee } = path.node;
+        if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.object) || !t.isIdentifier(callee.property)
+          || !this.isReactive(callee.object.name) || path.scope.hasBinding(callee.object.name, true)) {
+          return;
+        }
+        const name = callee.object.name;
+        if (callee.property.name === 'push') {
+          path.replaceWith(setter(name, t.arrayExpression([
+            t.spreadElement(t.identifier(name)),
+            ...(path.node.arguments as Array<t.Expression | t.SpreadElement>)
+          ])));
+        } else if (MUTATING_METHODS.has(callee.property.name)) {
+          this.warn(`${name}.${callee.property.name}() mutates state in place; update ${name} through ${setterName(name)}`);
+        }
+      }
+    });
+    return this.script(raised, kind);
+  }
+
+  // Props, state and derived values trigger re-renders; refs don't
+  private reactiveDependencies(names: string[]): string[] {
+    const reactive = new Set([
+      ...this.ir.props.map(prop => prop.name),
+      ...this.ir.injections.flatMap(injection => injection.names),
+      ...this.ir.composables.flatMap(composable => composable.names),
+      ...this.ir.state.filter(state => this.isReactive(state.name)).map(state => state.name),
+      ...this.ir.derived.map(derived => derived.name)
+    ]);
+    return names.filter(name => reactive.has(name));
+  }
+
+  private printSignature(): { params: string; types: string[]; typeParameters: string } {
+    const { ir } = this;
+    const slotProp = (name: string) => (name === 'default' ? 'children' : camelCase(name));
+    // A declared prop wins over an event or slot that lands on the same name,
+    // such as a `children` prop beside a default slot
+    const taken = new Set(ir.props.map(prop => prop.name));
+    const claim = (name: string, what: string) => {
+      if (taken.has(name)) {
+        this.warn(`${what} is passed as the ${name} prop, which the component already declares`);
+        return false;
+      }
+      taken.add(name);
+      return true;
+    };
+    const events = ir.events.filter(event => claim(eventProp(event.name), `The ${event.name} event`));
+    const slots = ir.slots.filter(slot => claim(slotProp(slot.name), `The ${slot.name} slot`));
+    const names = [
+      ...ir.props.map(prop => (prop.default !== undefined ? `${prop.name} = ${this.raise(prop.default)}` : prop.name)),
+      ...events.map(event => eventProp(event.name)),
+      ...slots.map(slot => slotProp(slot.name))
+    ];
+    const typeParameters = this.typescript ? typeParameterList(ir) : '';
+    if (names.length === 0) return { params: '', types: [], typeParameters };
+
+    const pattern = `{ ${names.join(', ')} }`;
+    if (!this.typescript) return { params: pattern, types: [], typeParameters };
+
+    const typeName = ir.propsInterface ?? `${ir.name}Props`;
+    const fields = [
+      ...ir.props.flatMap(prop => [
+        ...(prop.description ? [indent(docComment(prop.description), 1)] : []),
+        this.mark(`  ${propField(prop)}`, prop.loc)
+      ]),
+      ...events.map(event => this.mark(
+        `  ${eventProp(event.name)}?: (${event.payloadType ? `value: ${event.payloadType}` : '...args: any[]'}) => void;`,
+        event.loc
+      )),
+      ...slots.map(slot => (slot.params.length
+        ? `  ${slotProp(slot.name)}?: (props: { ${slot.params.map(param => `${param}: any`).join('; ')} }) => React.ReactNode;`
+        : `  ${slotProp(slot.name)}?: React.ReactNode;`))
+    ];
+    const declaration = `${ir.propsInterface ? 'export ' : ''}interface ${typeName}${typeParameters} {\n${fields.join('\n')}\n}`;
+    return { params: `${pattern}: ${typeName}${typeParameterList(ir, true)}`, types: [declaration], typeParameters };
+  }
+
+  private printBody(): string[] {
+    const { ir } = this;
+    const chunks: string[] = [];
+    const typeArgument = (type: string | undefined) => (this.typescript && type ? `<${type}>` : '');
+
+    const injections = ir.injections.map(injection => {
+      this.hooks.add('useContext');
+      const local = ir.contexts.some(context => context.name === injection.key);
+      if (!local) {
+        this.warn(`useContext(${injection.key}) needs ${injection.key} to be a React context created with createContext`);
+      }
+      // A local context carries its own default
+      const fallback = injection.default !== undefined && !local ? ` ?? ${injection.default}` : '';
+      const type = !local ? typeArgument(injection.type) : '';
+      return this.mark(`const ${injection.binding} = useContext${type}(${injection.key})${fallback};`, injection.loc);
+    });
+    chunks.push(injections.join('\n'));
+
+    const hooks = [
+      ...ir.state.map(state => {
+        const reactive = this.isReactive(state.name);
+        this.hooks.add(reactive ? 'useState' : 'useRef');
+        const initial = this.raise(state.initial);
+        return this.mark(reactive
+          ? `const [${state.name}, ${setterName(state.name)}] = useState${typeArgument(state.type)}(${initial});`
+          : `const ${state.name} = useRef${typeArgument(state.type)}(${initial});`, state.loc);
+      }),
+      ...ir.refs.map(ref => {
+        this.hooks.add('useRef');
+        return this.mark(`const ${ref.name} = useRef${typeArgument(ref.type ?? 'HTMLElement')}(null);`, ref.loc);
+      })
+    ];
+    chunks.push(hooks.join('\n'));
+
+    chunks.push(ir.composables.map(composable => {
+      this.warn(`${composable.callee}() is called as a custom hook; implement it with React hooks`);
+      const call = `${composable.callee}(${composable.args.map(arg => this.raise(arg)).join(', ')});`;
+      return this.mark(composable.binding ? `const ${composable.binding} = ${call}` : call, composable.loc);
+    }).join('\n'));
+
+    chunks.push(ir.derived.map(derived => {
+      this.hooks.add('useMemo');
+      const deps = this.reactiveDependencies(memberDependencies(ir, derived.expression));
+      return this.mark(`const ${derived.name} = useMemo(() => ${this.raise(derived.expression)}, [${deps.join(', ')}]);`, derived.loc);
+    }).join('\n'));
+
+    chunks.push(...this.printEffects());
+
+    ir.methods.forEach(method => {
+      const code = `${method.async ? 'async ' : ''}function ${method.name}(${method.params.join(', ')}) ${this.raise(method.body, 'block')}`;
+      chunks.push(this.script(this.mark(code, method.loc)));
+    });
+
+    return chunks.filter(Boolean);
+  }
+
+  private printEffects(): string[] {
+    return this.ir.effects.map(effect => {
+      this.hooks.add('useEffect');
+      let block = this.raise(effect.body, 'block');
+      const cleanup = effect.cleanup ? this.raise(effect.cleanup, 'block') : undefined;
+
+      if (effect.trigger === 'unmount') {
+        return `useEffect(() => {\n  return () => ${indent(block, 1).trimStart()};\n}, []);`;
+      }
+      if (cleanup) {
+        block = block.replace(/\n?}$/, `\n  return () => ${indent(cleanup, 1).trimStart()};\n}`);
+      }
+      if (effect.trigger === 'mount') {
+        return `useEffect(() => ${block}, []);`;
+      }
+      if (effect.dependencies.length === 0) {
+        return `useEffect(() => ${block});`;
+      }
+
+      const deps = this.reactiveDependencies(effect.dependencies);
+      const ignored = effect.dependencies.filter(name => !deps.includes(name));
+      if (ignored.length) {
+        this.warn(`${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} not reactive in React and cannot rerun an effect`);
+      }
+      return `useEffect(() => ${block}, [${deps.join(', ')}]);`;
+    }).map((code, index) => this.mark(code, this.ir.effects[index].loc));
+  }
+
+  private printRoot(): string {
+    const nodes = this.meaningful(this.ir.template);
+    if (nodes.length === 0) return 'return null;';
+    const lines = this.printValue(nodes, 1);
+    if (lines.length === 1) return `return ${lines[0].trim()};`;
+    return [...this.markLines(['return ('], nodes[0], 'script'), ...lines, ');'].join('\n');
+  }
+
+  // Drop whitespace-only text that JSX would drop anyway
+  private meaningful(nodes: IRNode[]): IRNode[] {
+    return nodes.filter(node => node.type !== 'text' || node.value.trim());
+  }
+
+  /**
+   * Lines of a JSX value for a node list: one element as is, anything else in
+   * a fragment.
+   */
+  private printValue(nodes: IRNode[], depth: number, key?: string): string[] {
+    const content = this.meaningful(nodes);
+    if (content.length === 1 && content[0].type === 'element') {
+      return this.markLines(this.printElement(content[0], depth, key), content[0], 'script');
+    }
+    if (content.length === 1 && content[0].type !== 'text' && content[0].type !== 'comment' && !key) {
+      // A lone conditional or loop is already an expression
+      const lines = this.printNode(content[0], depth);
+      if (lines.length === 1 && /^\s*\{[\s\S]*\}$/.test(lines[0])) {
+        return this.markLines([pad(depth) + lines[0].trim().slice(1, -1)], content[0], 'script');
+      }
+    }
+    const [open, close] = key ? [`<React.Fragment key={${key}}>`, '</React.Fragment>'] : ['<>', '</>'];
+    if (content.every(node => this.isInline(node))) {
+      const line = `${pad(depth)}${open}${this.inlineContent(content).trim()}${close}`;
+      if (fits(line)) return [line];
+    }
+    return [pad(depth) + open, ...this.printNodes(content, depth + 1), pad(depth) + close];
+  }
+
+  private escapeText(text: string): string {
+    return text.replace(/[{}<>]/g, char => `{'${char}'}`);
+  }
+
+  private expression(code: string): string {
+    return inlineCode(this.raise(code));
+  }
+
+  private isInline(node: IRNode): boolean {
+    return node.type === 'text' || node.type === 'expression';
+  }
+
+  private inlineContent(nodes: IRNode[]): string {
+    return nodes.map(node => {
+      if (node.type === 'text') return this.escapeText(node.value);
+      if (node.type === 'expression') return `{${this.expression(node.expression)}}`;
+      return '';
+    }).join('');
+  }
+
+  private printNodes(nodes: IRNode[], depth: number): string[] {
+    const lines: string[] = [];
+    let run: IRNode[] = [];
+
+    // JSX drops whitespace next to line breaks, so keep edge spaces explicitly
+    const flush = (index: number) => {
+      let content = this.inlineContent(run).trim();
+      if (content) {
+        const first = run[0];
+        const last = run[run.length - 1];
+        if (first.type === 'text' && /^\s/.test(first.value) && lines.length) content = `{' '}${content}`;
+        if (last.type === 'text' && /\s$/.test(last.value) && index < nodes.length) content = `${content}{' '}`;
+        lines.push(pad(depth) + content);
+      }
+      run = [];
+    };
+
+    nodes.forEach((node, index) => {
+      if (this.isInline(node)) {
+        run.push(node);
+      } else {
+        flush(index);
+        lines.push(...this.markLines(this.printNode(node, depth), node, 'jsx'));
+      }
+    });
+    flush(nodes.length);
+    return lines;
+  }
+
+  private printNode(node: IRNode, depth: number): string[] {
+    switch (node.type) {
+      case 'element':
+        return this.printElement(node, depth);
+      case 'if':
+        return this.printIf(node, depth);
+      case 'for':
+        return this.printFor(node, depth);
+      case 'slot':
+        return this.printSlotOutlet(node, depth);
+      case 'comment':
+        return [`${pad(depth)}{/* ${node.value.replace(/\*\//g, '* /')} */}`];
+      default:
+        return this.printNodes([node], depth);
+    }
+  }
+
+  // Wrap multi-line JSX in an expression container
+  private container(open: string, lines: string[], close: string, depth: number): string[] {
+    if (lines.length === 1) {
+      const line = `${pad(depth)}{${open}${lines[0].trim()}${close}}`;
+      if (fits(line)) return [line];
+    }
+    return [`${pad(depth)}{${open}(`, ...lines, `${pad(depth)})${close}}`];
+  }
+
+  private printIf(node: IRIf, depth: number): string[] {
+    const [first, ...rest] = node.branches;
+    if (rest.length === 0) {
+      return this.container(`${this.expression(first.condition!)} && `, this.printValue(first.children, depth + 1), '', depth);
+    }
+
+    // Chains of branches become nested conditionals
+    const lines: string[] = [];
+    node.branches.forEach((branch, index) => {
+      const value = this.meaningful(branch.children).length ? this.printValue(branch.children, depth + 1) : [`${pad(depth + 1)}null`];
+      if (branch.condition === undefined) {
+        lines.push(`${pad(depth)}) : (`, ...value);
+      } else if (index === 0) {
+        lines.push(`${pad(depth)}{${this.expression(branch.condition)} ? (`, ...value);
+      } else {
+        lines.push(`${pad(depth)}) : ${this.expression(branch.condition)} ? (`, ...value);
+      }
+    });
+    if (node.branches[node.branches.length - 1].condition !== undefined) {
+      lines.push(`${pad(depth)}) : null}`);
+    } else {
+      lines.push(`${pad(depth)})}`);
+    }
+    return lines;
+  }
+
+  private printFor(node: IRFor, depth: number): string[] {
+    const index = node.index ?? (node.key ? undefined : 'index');
+    const params = index ? `(${node.item}, ${index})` : node.item;
+    const key = node.key ? this.expression(node.key) : index!;
+    const value = this.printValue(node.children, depth + 1, key);
+    return this.container(`${this.expression(node.source)}.map(${params} => `, value, ')', depth);
+  }
+
+  private printSlotOutlet(node: IRSlotOutlet, depth: number): string[] {
+    const name = node.name === 'default' ? 'children' : camelCase(node.name);
+    const props = node.props.map(prop => {
+      const expression = this.expression(prop.expression);
+      return expression === prop.name ? prop.name : `${prop.name}: ${expression}`;
+    });
+    const slot = props.length ? `${name}?.({ ${props.join(', ')} })` : name;
+
+    if (this.meaningful(node.fallback).length === 0) {
+      return [`${pad(depth)}{${slot}}`];
+    }
+    return this.container(`${slot} ?? `, this.printValue(node.fallback, depth + 1), '', depth);
+  }
+
+  private printElement(element: IRElement, depth: number, key?: string): string[] {
+    const attributes = [
+      ...(key ? [`key={${key}}`] : []),
+      ...this.elementAttributes(element),
+      ...this.slotAttributes(element)
+    ];
+    const children = this.elementChildren(element);
+    const tag = element.tag;
+
+    const open = this.openTag(tag, attributes, depth, children.length === 0);
+    if (children.length === 0) return open;
+
+    if (children.every(child => this.isInline(child)) && open.length === 1) {
+      const line = `${open[0]}${this.inlineContent(children).trim()}</${tag}>`;
+      if (fits(line)) return [line];
+    }
+    return [...open, ...this.printNodes(children, depth + 1), `${pad(depth)}</${tag}>`];
+  }
+
+  private openTag(tag: string, attributes: string[], depth: number, selfClosing: boolean): string[] {
+    const end = selfClosing ? ' />' : '>';
+    const multiline = attributes.some(attribute => attribute.includes('\n'));
+    const line = `${pad(depth)}<${[tag, ...attributes].join(' ')}${end}`;
+    if (!multiline && (fits(line) || attributes.length < 2)) {
+      return [line];
+    }
+    return [
+      `${pad(depth)}<${tag}`,
+      ...attributes.map(attribute => indent(attribute, depth + 1)),
+      `${pad(depth)}${end.trim()}`
+    ];
+  }
+
+  // Default slot content stays as children; a scoped default slot is a render prop
+  private elementChildren(element: IRElement): IRNode[] {
+    const slot = element.slots.find(content => content.name === 'default');
+    if (slot?.params) return [];
+    return this.meaningful([...element.children, ...(slot?.children ?? [])]).length
+      ? [...element.children, ...(slot?.children ?? [])]
+      : [];
+  }
+
+  private slotAttributes(element: IRElement): string[] {
+    const attributes: string[] = [];
+    for (const slot of element.slots) {
+      if (slot.name === 'default' && !slot.params) continue;
+      const value = this.slotValue(slot);
+      attributes.push(slot.name === 'default' ? `children={${value}}` : `${camelCase(slot.name)}={${value}}`);
+    }
+    return attributes;
+  }
+
+  // Named slot content is a JSX prop; scoped content is a render function
+  private slotValue(slot: IRSlotContent): string {
+    const lines = this.printValue(slot.children, 0);
+    const body = lines.length === 1 ? lines[0].trim() : `(\n${indent(lines.join('\n'), 1)}\n)`;
+    return slot.params ? `(${slot.params}) => ${body}` : body;
+  }
+
+  private elementAttributes(element: IRElement): string[] {
+    const attributes: string[] = [];
+    const className = this.className(element);
+
+    for (const attribute of element.attributes) {
+      if (attribute.kind !== 'spread' && attribute.name === 'class' && className !== null) continue;
+      attributes.push(...this.attribute(attribute, element));
+    }
+    if (className) attributes.splice(0, 0, `${element.component ? 'class' : 'className'}=${className}`);
+    if (element.ref) attributes.push(`ref={${element.ref}}`);
+
+    for (const event of element.events) {
+      const { handler, unsupported } = guardedHandler(this.raise(event.handler), event.modifiers);
+      let name = toReactEvent(event.name, element.tag, element.component);
+      if (unsupported.includes('capture') && !element.component) name += 'Capture';
+      unsupported.filter(modifier => modifier !== 'capture').forEach(modifier =>
+        this.warn(`The .${modifier} event modifier has no React equivalent and was dropped`)
+      );
+      attributes.push(`${name}={${inlineCode(handler)}}`);
+    }
+    return attributes;
+  }
+
+  private attribute(attribute: IRAttribute, element: IRElement): string[] {
+    if (attribute.kind === 'spread') {
+      return [`{...${this.expression(attribute.expression)}}`];
+    }
+
+    if (attribute.kind === 'model') {
+      const target = attribute.name === 'checked' ? 'event.target.checked' : 'event.target.value';
+      const update = inlineCode(this.raise(`event => ${attribute.expression} = ${target}`));
+      const name = toReactAttribute(attribute.name, element.component);
+      return [`${name}={${this.expression(attribute.expression)}}`, `onChange={${update}}`];
+    }
+
+    const name = toReactAttribute(attribute.name, element.component);
+    if (attribute.kind === 'static') {
+      if (attribute.value === true) return [name];
+      if (attribute.name === 'style' && !element.component) {
+        const entries = parseStyleDeclarations(attribute.value).map(([key, value]) => `${key}: '${value.replace(/'/g, "\\'")}'`);
+        return [`style={{ ${entries.join(', ')} }}`];
+      }
+      return [attribute.value.includes('"') ? `${name}={'${attribute.value.replace(/'/g, "\\'")}'}` : `${name}="${attribute.value}"`];
+    }
+
+    if (attribute.name === 'innerHTML') {
+      return [`dangerouslySetInnerHTML={{ __html: ${this.expression(attribute.expression)} }}`];
+    }
+    if (attribute.name === 'style' && !element.component) {
+      const node = parseSnippetExpression(attribute.expression);
+      if (t.isStringLiteral(node)) {
+        return this.attribute({ kind: 'static', name: 'style', value: node.value }, element);
+      }
+      if (!t.isObjectExpression(node)) {
+        this.warn(`React styles are objects; check the style binding ${attribute.expression}`);
+      }
+    }
+    return [`${name}={${this.expression(attribute.expression)}}`];
+  }
+
+  /**
+   * Combine static and bound classes into one className value: objects list
+   * their truthy keys and arrays drop empty entries.
+   */
+  private className(element: IRElement): string | null {
+    const classes = element.attributes.filter(attribute => attribute.kind !== 'spread' && attribute.name === 'class');
+    if (classes.length === 0) return null;
+
+    const parts: string[] = [];
+    for (const attribute of classes) {
+      if (attribute.kind === 'static') {
+        if (typeof attribute.value === 'string') parts.push(`'${attribute.value}'`);
+        continue;
+      }
+      if (attribute.kind !== 'bound') continue;
+      const entries = objectEntries(attribute.expression);
+      const node = parseSnippetExpression(attribute.expression);
+      if (entries) {
+        parts.push(...entries.map(([name, condition]) => `${this.expression(condition)} && '${name}'`));
+      } else if (t.isArrayExpression(node)) {
+        parts.push(...node.elements.map(item => (item ? this.expression(generateCode(item)) : 'null')));
+      } else {
+        if (t.isObjectExpression(node) || t.isIdentifier(node)) {
+          this.warn(`Class binding ${attribute.expression} may be an object; React expects a class string`);
+        }
+        parts.push(this.expression(attribute.expression));
+      }
+    }
+
+    if (parts.length === 1) {
+      return /^'[^']*'$/.test(parts[0]) ? `"${parts[0].slice(1, -1)}"` : `{${parts[0]}}`;
+    }
+    return `{[${parts.join(', ')}].filter(Boolean).join(' ')}`;
+  }
+}
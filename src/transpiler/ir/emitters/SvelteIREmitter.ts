@@ -0,0 +1,343 @@
+import * as t from '@babel/types';
+import { TranspilerOptions } from '../../types';
+import { importStatement, memberDependencies, propField, typeParameterList } from '../builders';
+import { eventProp } from '../dom';
+import { ComponentIR, IRElement, IREmitResult, IRFor, IRIf, IRNode, IRSlotOutlet } from '../types';
+import { camelCase, docComment, emitVisitor, indent, inlineCode, kebabCase, stripTypes, transformCode } from '../utils';
+import { guardedHandler, MarkupEmitter, objectEntries, pad, twoWayBindings } from './MarkupEmitter';
+
+/**
+ * Raises the IR into a Svelte 5 component using runes. Svelte state is read
+ * and assigned directly, so script code only changes where events are
+ * emitted: `$emit('select', item)` calls the `onSelect` callback prop.
+ */
+export class SvelteIREmitter extends MarkupEmitter {
+  private svelteImports = new Set<string>();
+  // Sections of `<script module>`, for exported types and context keys
+  private moduleSections: string[] = [];
+  // Expression nodes printed as {@html ...}
+  private rawHtml = new WeakSet<IRNode>();
+
+  emit(ir: ComponentIR, options: TranspilerOptions): IREmitResult {
+    this.reset(ir, options);
+    this.svelteImports = new Set();
+    this.moduleSections = [];
+
+    const template = this.printNodes(ir.template, 0).join('\n');
+    const script = this.printScript();
+    const lang = this.typescript ? ' lang="ts"' : '';
+    const generics = this.typescript && ir.typeParameters.length ? ` generics="${ir.typeParameters.join(', ')}"` : '';
+    const sections = [`<script${lang}${generics}>\n${indent(script, 1)}\n</script>`, template];
+    if (this.moduleSections.length) {
+      sections.unshift(`<script module${lang}>\n${indent(this.moduleSections.join('\n\n'), 1)}\n</script>`);
+    }
+
+    ir.styles.forEach(style => {
+      if (style.src) {
+        this.warn(`Svelte components have no stylesheet files; move the rules of ${style.src} into <style>`);
+        return;
+      }
+      if (!style.scoped) {
+        this.warn('Svelte scopes component styles; wrap selectors in :global(...) to keep them global');
+      }
+      sections.push(`<style${style.lang ? ` lang="${style.lang}"` : ''}>\n${style.content}\n</style>`);
+    });
+
+    return { code: `${sections.filter(Boolean).join('\n\n')}\n`, warnings: this.warnings };
+  }
+
+  // Rewrite IR code for Svelte: `$emit` calls the matching callback prop
+  private raise(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    return transformCode(code, kind, emitVisitor((event, args) =>
+      t.optionalCallExpression(t.identifier(eventProp(event)), args, true)
+    ));
+  }
+
+  private printScript(): string {
+    const { ir } = this;
+    const body: string[] = [];
+
+    // Any value can key a context; a symbol keeps it private to the module
+    const contexts = ir.contexts.map(context =>
+      this.mark(`${context.exported ? 'export ' : ''}const ${context.name} = Symbol('${context.name}');`, context.loc));
+
+    body.push(ir.injections.map(injection => {
+      this.svelteImports.add('getContext');
+      const context = ir.contexts.find(entry => entry.name === injection.key);
+      if (!context) {
+        this.warn(`getContext(${injection.key}) needs an ancestor to setContext() a value under ${injection.key}`);
+      }
+      const type = this.typescript && injection.type ? `<${injection.type}>` : '';
+      const value = injection.default ?? context?.default;
+      const fallback = value !== undefined ? ` ?? ${value}` : '';
+      return this.mark(`const ${injection.binding} = getContext${type}(${injection.key})${fallback};`, injection.loc);
+    }).join('\n'));
+
+    const state = ir.state.map(entry => {
+      const type = this.typescript && entry.type ? `: ${entry.type}` : '';
+      return this.mark(entry.reactive
+        ? `let ${entry.name}${type} = $state(${this.raise(entry.initial)});`
+        : `let ${entry.name}${type} = ${this.raise(entry.initial)};`, entry.loc);
+    });
+    const refs = ir.refs.map(ref => {
+      const type = this.typescript ? `: ${ref.type ?? 'HTMLElement'} | undefined` : '';
+      return this.mark(`let ${ref.name}${type} = $state();`, ref.loc);
+    });
+    body.push([...state, ...refs].join('\n'));
+
+    body.push(ir.composables.map(composable => {
+      this.warn(`${composable.callee}() is called as a function of runes; implement it in a .svelte.js or .svelte.ts module`);
+      const call = `${composable.callee}(${composable.args.map(arg => this.raise(arg)).join(', ')});`;
+      return this.mark(composable.binding ? `const ${composable.binding} = ${call}` : call, composable.loc);
+    }).join('\n'));
+
+    body.push(ir.derived.map(derived => {
+      const type = this.typescript && derived.type ? `: ${derived.type}` : '';
+      return this.mark(`const ${derived.name}${type} = $derived(${this.raise(derived.expression)});`, derived.loc);
+    }).join('\n'));
+
+    ir.methods.forEach(method => {
+      body.push(this.mark(`${method.async ? 'async ' : ''}function ${method.name}(${method.params.join(', ')}) ${this.raise(method.body, 'block')}`, method.loc));
+    });
+
+    body.push(...this.printEffects());
+
+    const props = this.printProps();
+    const imports = [
+      ...(this.svelteImports.size ? [`import { ${[...this.svelteImports].sort().join(', ')} } from 'svelte';`] : []),
+      ...(this.typescript && ir.slots.length ? ["import type { Snippet } from 'svelte';"] : [])
+    ];
+
+    /**
+     * Only the module script can export, and the instance script sees its
+     * imports and declarations, so exported types move everything
+     * module-level there.
+     */
+    const exportsTypes = this.typescript
+      && (!!props.exported || ir.declarations.some(declaration => declaration.startsWith('export ')));
+    const exportsModule = exportsTypes || ir.contexts.some(context => context.exported);
+    const moduleLevel = [ir.imports.map(importStatement).join('\n'), ...ir.declarations, contexts.join('\n')];
+
+    // Strip each section on its own so the blank lines between them survive
+    const strip = (section: string) => (this.typescript || !ir.typescript ? section : stripTypes(section, 'block'));
+    if (exportsModule) {
+      this.moduleSections = [...moduleLevel, props.exported].filter((section): section is string => !!section).map(strip);
+    } else {
+      imports.push(...ir.imports.map(importStatement));
+    }
+    return [imports.join('\n'), ...(exportsModule ? [] : [...ir.declarations, contexts.join('\n')]), ...props.local, ...body]
+      .map(strip)
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private slotProp(name: string): string {
+    return name === 'default' ? 'children' : camelCase(name);
+  }
+
+  // Declarations for the instance script, and the props interface when the source exported it
+  private printProps(): { local: string[]; exported?: string } {
+    const { ir } = this;
+    const names = [
+      ...ir.props.map(prop => (prop.default !== undefined ? `${prop.name} = ${prop.default}` : prop.name)),
+      ...ir.events.map(event => eventProp(event.name)),
+      ...ir.slots.map(slot => this.slotProp(slot.name))
+    ];
+    if (names.length === 0) return { local: [] };
+
+    const pattern = names.length > 3 ? `{\n  ${names.join(',\n  ')}\n}` : `{ ${names.join(', ')} }`;
+    const loc = ir.props[0]?.loc ?? ir.events[0]?.loc;
+    if (!this.typescript) {
+      return { local: [this.mark(`let ${pattern} = $props();`, loc)] };
+    }
+
+    const fields = [
+      ...ir.props.flatMap(prop => [
+        ...(prop.description ? [indent(docComment(prop.description), 1)] : []),
+        this.mark(`  ${propField(prop)}`, prop.loc)
+      ]),
+      ...ir.events.map(event =>
+        this.mark(`  ${eventProp(event.name)}?: (${event.payloadType ? `value: ${event.payloadType}` : '...args: any[]'}) => void;`, event.loc)
+      ),
+      ...ir.slots.map(slot => {
+        const params = slot.params.length ? `<[{ ${slot.params.map(param => `${param}: any`).join('; ')} }]>` : '';
+        return `  ${this.slotProp(slot.name)}?: Snippet${params};`;
+      })
+    ];
+    const typeName = ir.propsInterface ?? 'Props';
+    const declaration = `interface ${typeName}${typeParameterList(ir)} {\n${fields.join('\n')}\n}`;
+    const destructure = this.mark(`let ${pattern}: ${typeName}${typeParameterList(ir, true)} = $props();`, loc);
+    return ir.propsInterface
+      ? { local: [destructure], exported: `export ${declaration}` }
+      : { local: [declaration, destructure] };
+  }
+
+  private printEffects(): string[] {
+    return this.ir.effects.map(effect => {
+      let block = this.raise(effect.body, 'block');
+      if (effect.cleanup) {
+        const cleanup = this.raise(effect.cleanup, 'block').replace(/\n/g, '\n  ');
+        block = block.replace(/\n?}$/, `\n  return () => ${cleanup};\n}`);
+      }
+
+      if (effect.trigger === 'mount') {
+        this.svelteImports.add('onMount');
+        return `onMount(() => ${block});`;
+      }
+      if (effect.trigger === 'unmount') {
+        this.svelteImports.add('onDestroy');
+        return `onDestroy(() => ${block});`;
+      }
+
+      // $effect reruns when the state it reads changes, not on a dependency list
+      const reads = new Set(memberDependencies(this.ir, effect.body, 'block'));
+      const untracked = effect.dependencies.filter(name => !reads.has(name));
+      if (untracked.length) {
+        this.warn(`$effect only tracks values it reads; ${untracked.join(', ')} no longer rerun the effect`);
+      }
+      if (effect.dependencies.length === 0) {
+        this.warn('Effects that ran after every update now rerun only when the state they read changes');
+      }
+      return `$effect(() => ${block});`;
+    }).map((code, index) => this.mark(code, this.ir.effects[index].loc));
+  }
+
+  protected escapeText(text: string): string {
+    return super.escapeText(text).replace(/{/g, '&#123;').replace(/}/g, '&#125;');
+  }
+
+  protected escapeAttribute(value: string): string {
+    return super.escapeAttribute(value).replace(/{/g, '&#123;').replace(/}/g, '&#125;');
+  }
+
+  protected interpolation(expression: string): string {
+    return `{${expression}}`;
+  }
+
+  protected inlineContent(nodes: IRNode[]): string {
+    return nodes
+      .map(node => {
+        if (node.type !== 'expression') return super.inlineContent([node]);
+        const expression = inlineCode(this.raise(node.expression));
+        return this.rawHtml.has(node) ? `{@html ${expression}}` : this.interpolation(expression);
+      })
+      .join('');
+  }
+
+  protected printElement(element: IRElement, depth: number, directives: string[] = []): string[] {
+    // innerHTML becomes an {@html} child
+    const html = element.attributes.find(attribute => attribute.kind === 'bound' && attribute.name === 'innerHTML');
+    if (html && html.kind === 'bound') {
+      const child: IRNode = { type: 'expression', expression: html.expression };
+      this.rawHtml.add(child);
+      element = {
+        ...element,
+        attributes: element.attributes.filter(attribute => attribute !== html),
+        children: [child]
+      };
+    }
+    return super.printElement(element, depth, directives);
+  }
+
+  protected elementTag(element: IRElement): string {
+    return element.tag;
+  }
+
+  protected elementAttributes(element: IRElement): string[] {
+    const attributes: string[] = [];
+    const value = (name: string, code: string) => {
+      const expression = inlineCode(this.raise(code));
+      return expression === name ? `{${name}}` : `${name}={${expression}}`;
+    };
+    const { bindings, attributes: rest, events } = twoWayBindings(element);
+
+    if (element.ref) attributes.push(`bind:this={${element.ref}}`);
+    const bind = (name: string, expression: string) =>
+      (expression === name ? `bind:${name}` : `bind:${name}={${inlineCode(expression)}}`);
+    bindings.forEach(binding => attributes.push(bind(binding.prop, binding.expression)));
+
+    for (const attribute of rest) {
+      if (attribute.kind === 'static') {
+        attributes.push(this.staticAttribute(attribute));
+      } else if (attribute.kind === 'spread') {
+        attributes.push(`{...${inlineCode(this.raise(attribute.expression))}}`);
+      } else if (attribute.kind === 'model') {
+        attributes.push(bind(attribute.name, attribute.expression));
+      } else if (attribute.name === 'class' && !element.component && objectEntries(attribute.expression)) {
+        objectEntries(attribute.expression)!.forEach(([name, condition]) => attributes.push(`class:${name}={${condition}}`));
+      } else if (attribute.name === 'style' && !element.component && objectEntries(attribute.expression)) {
+        objectEntries(attribute.expression)!.forEach(([name, style]) => attributes.push(`style:${kebabCase(name)}={${style}}`));
+      } else {
+        attributes.push(value(attribute.name, attribute.expression));
+      }
+    }
+
+    for (const event of events) {
+      const { handler, unsupported } = guardedHandler(this.raise(event.handler), event.modifiers);
+      let name = element.component ? eventProp(event.name) : `on${event.name}`;
+      if (unsupported.includes('capture') && !element.component) {
+        name += 'capture';
+      }
+      unsupported.filter(modifier => modifier !== 'capture').forEach(modifier =>
+        this.warn(`The .${modifier} event modifier has no Svelte 5 equivalent and was dropped`)
+      );
+      attributes.push(value(name, handler));
+    }
+    return attributes;
+  }
+
+  protected elementChildren(element: IRElement, depth: number): string[] {
+    const defaultSlot = element.slots.find(slot => slot.name === 'default');
+    const lines = defaultSlot ? [] : this.printNodes(element.children, depth + 1);
+
+    for (const slot of element.slots) {
+      // Unscoped default content is passed as children
+      const children = slot.name === 'default' ? [...element.children, ...slot.children] : slot.children;
+      lines.push(
+        `${pad(depth + 1)}{#snippet ${this.slotProp(slot.name)}(${slot.params ?? ''})}`,
+        ...this.printNodes(children, depth + 2),
+        `${pad(depth + 1)}{/snippet}`
+      );
+    }
+    return lines;
+  }
+
+  protected printIf(node: IRIf, depth: number): string[] {
+    const lines = node.branches.flatMap((branch, index) => {
+      const condition = branch.condition !== undefined ? inlineCode(this.raise(branch.condition)) : '';
+      const open = index === 0 ? `{#if ${condition}}` : branch.condition !== undefined ? `{:else if ${condition}}` : '{:else}';
+      return [pad(depth) + open, ...this.printNodes(branch.children, depth + 1)];
+    });
+    return [...lines, `${pad(depth)}{/if}`];
+  }
+
+  protected printFor(node: IRFor, depth: number): string[] {
+    const alias = node.index ? `${node.item}, ${node.index}` : node.item;
+    const key = node.key ? ` (${inlineCode(node.key)})` : '';
+    return [
+      `${pad(depth)}{#each ${inlineCode(this.raise(node.source))} as ${alias}${key}}`,
+      ...this.printNodes(node.children, depth + 1),
+      `${pad(depth)}{/each}`
+    ];
+  }
+
+  protected printSlotOutlet(node: IRSlotOutlet, depth: number): string[] {
+    const name = this.slotProp(node.name);
+    const props = node.props.map(prop => {
+      const expression = inlineCode(this.raise(prop.expression));
+      return expression === prop.name ? prop.name : `${prop.name}: ${expression}`;
+    });
+    const args = props.length ? `{ ${props.join(', ')} }` : '';
+
+    if (node.fallback.length === 0) {
+      return [`${pad(depth)}{@render ${name}?.(${args})}`];
+    }
+    return [
+      `${pad(depth)}{#if ${name}}`,
+      `${pad(depth + 1)}{@render ${name}(${args})}`,
+      `${pad(depth)}{:else}`,
+      ...this.printNodes(node.fallback, depth + 1),
+      `${pad(depth)}{/if}`
+    ];
+  }
+}
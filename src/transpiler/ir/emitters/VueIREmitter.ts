@@ -0,0 +1,401 @@
+import * as t from '@babel/types';
+import { TranspilerOptions } from '../../types';
+import { importStatement, propField, typeParameterList } from '../builders';
+import { ComponentIR, IRElement, IREmitResult, IRFor, IRIf, IRNode, IRSlotOutlet } from '../types';
+import {
+  docComment,
+  hoistedType,
+  hoistLocals,
+  indent,
+  inlineCode,
+  parseSnippetExpression,
+  rewriteReferences,
+  sharedLocals,
+  stripTypes
+} from '../utils';
+import { handlerParts, MarkupEmitter, pad, twoWayBindings } from './MarkupEmitter';
+
+// TypeScript prop types and the runtime constructors Vue checks them with
+const RUNTIME_TYPES: Array<[RegExp, string]> = [
+  [/^(string|'[^']*'(\s*\|\s*'[^']*')*)$/, 'String'],
+  [/^(number|-?\d[\d.]*(\s*\|\s*-?\d[\d.]*)*)$/, 'Number'],
+  [/^(boolean|true|false)$/, 'Boolean'],
+  [/(\[\]|^Array<.*>)$/, 'Array'],
+  [/=>/, 'Function'],
+  [/^(\{[\s\S]*\}|Record<.*>|object)$/, 'Object'],
+  [/^Date$/, 'Date']
+];
+
+// Runtime constructor for a TypeScript prop type, when one checks it
+function runtimePropType(type: string | undefined): string | undefined {
+  return RUNTIME_TYPES.find(([pattern]) => pattern.test(type ?? ''))?.[1];
+}
+
+/**
+ * Raises the IR into a Vue 3 single-file component using `<script setup>`.
+ * State, derived values and element refs become refs, so script code reads
+ * them through `.value`; props are read through `props`.
+ */
+export class VueIREmitter extends MarkupEmitter {
+  private usesProps = false;
+  private usesEmit = false;
+  private vueImports = new Set<string>();
+
+  emit(ir: ComponentIR, options: TranspilerOptions): IREmitResult {
+    this.reset(ir, options);
+    this.usesProps = false;
+    this.usesEmit = false;
+    this.vueImports = new Set();
+
+    if (options.style === 'options' || options.style === 'class') {
+      this.warn('Only <script setup> output is supported; the component uses the Composition API');
+    }
+
+    const sections: string[] = [`<template>\n${this.printNodes(ir.template, 1).join('\n')}\n</template>`];
+
+    const lang = this.typescript ? ' lang="ts"' : '';
+    const generic = this.typescript && ir.typeParameters.length ? ` generic="${ir.typeParameters.join(', ')}"` : '';
+    sections.push(`<script setup${lang}${generic}>\n${this.printScript()}\n</script>`);
+
+    ir.styles.forEach(style => {
+      const attributes = [style.scoped ? ' scoped' : '', style.lang ? ` lang="${style.lang}"` : ''].join('');
+      sections.push(style.src
+        ? `<style${attributes} src="${style.src}"></style>`
+        : `<style${attributes}>\n${style.content}\n</style>`);
+    });
+
+    return { code: `${sections.join('\n\n')}\n`, warnings: this.warnings };
+  }
+
+  // Names script code reads through `.value`
+  private refNames(): Set<string> {
+    return new Set([
+      ...this.ir.state.filter(state => state.reactive).map(state => state.name),
+      ...this.ir.derived.map(derived => derived.name),
+      ...this.ir.refs.map(ref => ref.name)
+    ]);
+  }
+
+  /**
+   * Rewrite IR code for `<script setup>`: refs gain `.value`, props are read
+   * from `props` and `$emit(...)` calls the `emit` function.
+   */
+  private raise(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    const refs = this.refNames();
+    const props = new Set(this.ir.props.map(prop => prop.name));
+
+    return rewriteReferences(code, kind, (name, path) => {
+      if (refs.has(name)) {
+        return t.memberExpression(t.identifier(name), t.identifier('value'));
+      }
+      if (props.has(name)) {
+        if (t.isAssignmentExpression(path.parent) && path.parent.left === path.node) {
+          this.warn(`Prop ${name} is assigned in the component; Vue props are read-only`);
+        }
+        this.usesProps = true;
+        return t.memberExpression(t.identifier('props'), t.identifier(name));
+      }
+      return null;
+    }, {
+      CallExpression: (path: any) => {
+        if (t.isIdentifier(path.node.callee, { name: '$emit' }) && !path.scope.hasBinding('$emit', true)) {
+          this.usesEmit = true;
+          path.node.callee = t.identifier('emit');
+        }
+      }
+    });
+  }
+
+  private printScript(): string {
+    const { ir } = this;
+    const body: string[] = [];
+
+    // Injection keys are symbols typed with the value they carry
+    const contexts = ir.contexts.map(context => {
+      if (context.exported) {
+        this.warn(`<script setup> cannot export ${context.name}; move it to a module the providing and injecting components share`);
+      }
+      const type = this.typescript ? `: InjectionKey<${context.type ?? 'unknown'}>` : '';
+      return this.mark(`const ${context.name}${type} = Symbol('${context.name}');`, context.loc);
+    });
+
+    body.push(ir.injections.map(injection => {
+      this.vueImports.add('inject');
+      const context = ir.contexts.find(entry => entry.name === injection.key);
+      if (!context) {
+        this.warn(`inject(${injection.key}) needs an ancestor to provide() a value under ${injection.key}`);
+      }
+      const value = injection.default ?? context?.default;
+      const fallback = value !== undefined ? `, ${value}` : '';
+      return this.mark(`const ${injection.binding} = inject${this.typeArgument(injection.type)}(${injection.key}${fallback});`, injection.loc);
+    }).join('\n'));
+
+    const state = ir.state.map(entry => {
+      const initial = this.raise(entry.initial);
+      if (!entry.reactive) {
+        return this.mark(`let ${entry.name}${this.typescript && entry.type ? `: ${entry.type}` : ''} = ${initial};`, entry.loc);
+      }
+      this.vueImports.add('ref');
+      return this.mark(`const ${entry.name} = ref${this.typeArgument(entry.type)}(${initial});`, entry.loc);
+    });
+    const refs = ir.refs.map(ref => {
+      this.vueImports.add('ref');
+      return this.mark(`const ${ref.name} = ref${this.typeArgument(ref.type ? `${ref.type} | null` : undefined)}(null);`, ref.loc);
+    });
+    body.push([...state, ...refs].join('\n'));
+
+    body.push(ir.composables.map(composable => {
+      this.warn(`${composable.callee}() is called as a composable; implement it with Vue refs and computed values`);
+      const call = `${composable.callee}(${composable.args.map(arg => this.raise(arg)).join(', ')});`;
+      return this.mark(composable.binding ? `const ${composable.binding} = ${call}` : call, composable.loc);
+    }).join('\n'));
+
+    body.push(ir.derived.map(derived => {
+      this.vueImports.add('computed');
+      return this.mark(`const ${derived.name} = computed${this.typeArgument(derived.type)}(() => ${this.raise(derived.expression)});`, derived.loc);
+    }).join('\n'));
+
+    ir.methods.forEach(method => {
+      body.push(this.mark(`${method.async ? 'async ' : ''}function ${method.name}(${method.params.join(', ')}) ${this.raise(method.body, 'block')}`, method.loc));
+    });
+
+    body.push(...this.printEffects());
+
+    const header = [...this.printProps(), ...this.printEmits()].filter(Boolean);
+    const imports = [
+      ...(this.vueImports.size ? [`import { ${[...this.vueImports].sort().join(', ')} } from 'vue';`] : []),
+      ...(this.typescript && contexts.length ? ["import type { InjectionKey } from 'vue';"] : []),
+      ...ir.imports.map(importStatement)
+    ];
+
+    // Strip each section on its own so the blank lines between them survive
+    const strip = (section: string) => (this.typescript || !ir.typescript ? section : stripTypes(section, 'block'));
+    return [imports.join('\n'), ...ir.declarations, contexts.join('\n'), ...header, ...body].map(strip).filter(Boolean).join('\n\n');
+  }
+
+  private typeArgument(type: string | undefined): string {
+    return this.typescript && type ? `<${type}>` : '';
+  }
+
+  private printProps(): string[] {
+    const { props } = this.ir;
+    if (props.length === 0) return [];
+    const assign = this.usesProps ? 'const props = ' : '';
+
+    // Object and array defaults must be factories
+    const defaultValue = (value: string) => {
+      const node = parseSnippetExpression(value);
+      if (t.isObjectExpression(node)) return `() => (${value})`;
+      return t.isArrayExpression(node) || t.isNewExpression(node) ? `() => ${value}` : value;
+    };
+
+    const documented = (prop: ComponentIR['props'][number], line: string) =>
+      (prop.description ? `${indent(docComment(prop.description), 1)}\n${line}` : line);
+
+    if (this.typescript) {
+      // The generic attribute declares the parameters; the interface takes its own
+      const typeName = this.ir.propsInterface ?? 'Props';
+      const fields = props.map(prop => documented(prop, this.mark(`  ${propField(prop)}`, prop.loc)));
+      const defaults = props.filter(prop => prop.default !== undefined)
+        .map(prop => this.mark(`  ${prop.name}: ${defaultValue(prop.default!)}`, prop.loc));
+      const propsType = `${typeName}${typeParameterList(this.ir, true)}`;
+      const define = defaults.length
+        ? `withDefaults(defineProps<${propsType}>(), {\n${defaults.join(',\n')}\n})`
+        : `defineProps<${propsType}>()`;
+      const declaration = `${this.ir.propsInterface ? 'export ' : ''}interface ${typeName}${typeParameterList(this.ir)}`;
+      return [`${declaration} {\n${fields.join('\n')}\n}`, `${assign}${define};`];
+    }
+
+    const options = props.map(prop => {
+      const runtime = runtimePropType(prop.type);
+      const entries = [
+        ...(runtime ? [`type: ${runtime}`] : []),
+        ...(prop.required ? ['required: true'] : []),
+        ...(prop.default !== undefined ? [`default: ${defaultValue(prop.default)}`] : [])
+      ];
+      return documented(prop, this.mark(`  ${prop.name}: ${entries.length ? `{ ${entries.join(', ')} }` : 'null'}`, prop.loc));
+    });
+    return [`${assign}defineProps({\n${options.join(',\n')}\n});`];
+  }
+
+  private printEmits(): string[] {
+    const { events } = this.ir;
+    if (events.length === 0) return [];
+    const assign = this.usesEmit ? 'const emit = ' : '';
+
+    if (this.typescript) {
+      const signatures = events.map(event => this.mark(
+        `  (e: '${event.name}'${event.payloadType ? `, value: ${event.payloadType}` : ', ...args: any[]'}): void;`,
+        event.loc
+      ));
+      return [`${assign}defineEmits<{\n${signatures.join('\n')}\n}>();`];
+    }
+    return [this.mark(`${assign}defineEmits([${events.map(event => `'${event.name}'`).join(', ')}]);`, events[0].loc)];
+  }
+
+  private printEffects(): string[] {
+    const lines: string[] = [];
+    const hoisted: string[] = [];
+    const props = new Set(this.ir.props.map(prop => prop.name));
+    const refs = this.refNames();
+
+    for (const effect of this.ir.effects) {
+      const start = lines.length;
+      let body = effect.body;
+
+      // onUnmounted can't see locals declared inside onMounted
+      if (effect.cleanup && effect.trigger === 'mount') {
+        const shared = sharedLocals(body, effect.cleanup);
+        body = hoistLocals(body, shared);
+        shared.forEach(name => hoisted.push(`let ${name}${this.typescript ? `: ${hoistedType(body, name)}` : ''};`));
+      }
+
+      if (effect.trigger === 'mount') {
+        this.vueImports.add('onMounted');
+        lines.push(`onMounted(() => ${this.raise(body, 'block')});`);
+        if (effect.cleanup) {
+          this.vueImports.add('onUnmounted');
+          lines.push(`onUnmounted(() => ${this.raise(effect.cleanup, 'block')});`);
+        }
+      } else if (effect.trigger === 'unmount') {
+        this.vueImports.add('onUnmounted');
+        lines.push(`onUnmounted(() => ${this.raise(body, 'block')});`);
+      } else if (effect.dependencies.length === 0) {
+        this.vueImports.add('onUpdated');
+        lines.push(`onUpdated(() => ${this.raise(body, 'block')});`);
+        if (effect.cleanup) this.warn('Cleanup of an effect without dependencies was dropped');
+      } else {
+        this.vueImports.add('watch');
+        const sources = effect.dependencies.map(name => {
+          if (refs.has(name)) return name;
+          if (props.has(name)) {
+            this.usesProps = true;
+            return `() => props.${name}`;
+          }
+          this.warn(`${name} is not reactive in Vue; the watcher on it will not trigger`);
+          return `() => ${name}`;
+        });
+        const source = sources.length === 1 ? sources[0] : `[${sources.join(', ')}]`;
+        const block = this.raise(body, 'block');
+
+        if (effect.cleanup) {
+          const cleanup = this.raise(effect.cleanup, 'block');
+          const withCleanup = block.replace(/\n?}$/, `\n  onCleanup(() => ${indent(cleanup, 1).trimStart()});\n}`);
+          lines.push(`watch(${source}, (_value, _oldValue, onCleanup) => ${withCleanup});`);
+        } else {
+          lines.push(`watch(${source}, () => ${block});`);
+        }
+      }
+      lines[start] = this.mark(lines[start], effect.loc);
+    }
+
+    return [...(hoisted.length ? [hoisted.join('\n')] : []), ...lines];
+  }
+
+  protected interpolation(expression: string): string {
+    return `{{ ${expression} }}`;
+  }
+
+  protected elementTag(element: IRElement): string {
+    return element.tag;
+  }
+
+  protected elementAttributes(element: IRElement): string[] {
+    const attributes: string[] = [];
+    const quote = (code: string) => this.escapeAttribute(inlineCode(code));
+    const { bindings, attributes: rest, events } = twoWayBindings(element);
+
+    if (element.ref) attributes.push(`ref="${element.ref}"`);
+
+    bindings.forEach(binding => {
+      const argument = binding.prop === 'modelValue' ? '' : `:${binding.prop}`;
+      attributes.push(`v-model${argument}="${quote(binding.expression)}"`);
+    });
+
+    for (const attribute of rest) {
+      if (attribute.kind === 'static') {
+        attributes.push(this.staticAttribute(attribute));
+      } else if (attribute.kind === 'spread') {
+        attributes.push(`v-bind="${quote(attribute.expression)}"`);
+      } else if (attribute.kind === 'model') {
+        attributes.push(`v-model="${quote(attribute.expression)}"`);
+      } else if (attribute.name === 'innerHTML') {
+        attributes.push(`v-html="${quote(attribute.expression)}"`);
+      } else {
+        attributes.push(`:${attribute.name}="${quote(attribute.expression)}"`);
+      }
+    }
+
+    for (const event of events) {
+      const modifiers = event.modifiers.map(modifier => `.${modifier}`).join('');
+      attributes.push(`@${event.name}${modifiers}="${this.escapeAttribute(this.handler(event.handler))}"`);
+    }
+    return attributes;
+  }
+
+  // Vue accepts method references, inline statements using $event, or functions
+  private handler(handler: string): string {
+    const parts = handlerParts(handler);
+    if (parts.params === null || parts.params.length > 1 || (parts.params.length === 1 && parts.params[0] !== '$event')) {
+      return inlineCode(handler);
+    }
+    return parts.expression ?? parts.statements.replace(/;$/, '');
+  }
+
+  protected elementChildren(element: IRElement, depth: number): string[] {
+    const lines = this.printNodes(element.children, depth + 1);
+    for (const slot of element.slots) {
+      const params = slot.params ? `="${this.escapeAttribute(slot.params)}"` : '';
+      lines.push(
+        `${pad(depth + 1)}<template #${slot.name}${params}>`,
+        ...this.printNodes(slot.children, depth + 2),
+        `${pad(depth + 1)}</template>`
+      );
+    }
+    return lines;
+  }
+
+  // Put a directive on the only element child, or on a <template> wrapper
+  private withDirectives(children: IRNode[], directives: string[], depth: number): string[] {
+    if (children.length === 1 && children[0].type === 'element') {
+      return this.printElement(children[0], depth, directives);
+    }
+    return [
+      `${pad(depth)}<template ${directives.join(' ')}>`,
+      ...this.printNodes(children, depth + 1),
+      `${pad(depth)}</template>`
+    ];
+  }
+
+  protected printIf(node: IRIf, depth: number): string[] {
+    return node.branches.flatMap((branch, index) => {
+      const condition = branch.condition !== undefined ? this.escapeAttribute(inlineCode(branch.condition)) : '';
+      const directive = index === 0 ? `v-if="${condition}"` : branch.condition !== undefined ? `v-else-if="${condition}"` : 'v-else';
+      return this.withDirectives(branch.children, [directive], depth);
+    });
+  }
+
+  protected printFor(node: IRFor, depth: number): string[] {
+    const alias = node.index ? `(${node.item}, ${node.index})` : node.item;
+    const directives = [`v-for="${this.escapeAttribute(`${alias} in ${inlineCode(node.source)}`)}"`];
+    if (node.key) directives.push(`:key="${this.escapeAttribute(inlineCode(node.key))}"`);
+    return this.withDirectives(node.children, directives, depth);
+  }
+
+  protected printSlotOutlet(node: IRSlotOutlet, depth: number): string[] {
+    const outlet: IRElement = {
+      type: 'element',
+      tag: 'slot',
+      // Prints as <slot /> when there is no fallback
+      component: true,
+      attributes: [
+        ...(node.name !== 'default' ? [{ kind: 'static' as const, name: 'name', value: node.name }] : []),
+        ...node.props.map(prop => ({ kind: 'bound' as const, name: prop.name, expression: prop.expression }))
+      ],
+      events: [],
+      children: node.fallback,
+      slots: []
+    };
+    return this.printElement(outlet, depth);
+  }
+}
@@ -0,0 +1,335 @@
+import { VOID_ELEMENTS } from './dom';
+
+/**
+ * Small HTML-like markup reader shared by the template-based parsers. It
+ * keeps directive attributes (`:prop`, `@click`, `*ngIf`, `on:click`) and
+ * interpolations as raw strings; each framework parser interprets them.
+ */
+export type MarkupNode = MarkupElement | MarkupText | MarkupComment;
+
+export interface MarkupElement {
+  type: 'element';
+  tag: string;
+  attributes: MarkupAttribute[];
+  children: MarkupNode[];
+  line: number;
+  column: number;
+}
+
+export interface MarkupAttribute {
+  name: string;
+  // null for valueless attributes
+  value: string | null;
+  // Svelte-style `{expression}` value, or a bare `{...spread}` / `{shorthand}`
+  expression: boolean;
+}
+
+export interface MarkupText {
+  type: 'text';
+  value: string;
+  line: number;
+  column: number;
+}
+
+export interface MarkupComment {
+  type: 'comment';
+  value: string;
+  line: number;
+  column: number;
+}
+
+export interface MarkupOptions {
+  // Svelte-style `{expression}` in text and attribute values
+  braceExpressions?: boolean;
+}
+
+// Elements whose content is raw text rather than markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+// Named character references the emitters write; others are left as they are
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', quot: '"', apos: "'", lt: '<', gt: '>', nbsp: '\u00a0' };
+
+export function parseMarkup(source: string, options: MarkupOptions = {}): MarkupNode[] {
+  return new MarkupReader(source, options).read();
+}
+
+// Tags carry the offset of their opening brace in the text
+export type BraceSegment = { type: 'text'; value: string } | { type: 'tag'; value: string; start: number };
+
+// Split text into literal runs and balanced `{...}` tags (Svelte syntax)
+export function splitBraceTags(text: string): BraceSegment[] {
+  const reader = new MarkupReader(text, { braceExpressions: true });
+  const segments: BraceSegment[] = [];
+  let last = 0;
+  let pos = text.indexOf('{');
+
+  while (pos !== -1) {
+    if (pos > last) segments.push({ type: 'text', value: text.slice(last, pos) });
+    const end = reader.skipBalanced(pos);
+    segments.push({ type: 'tag', value: text.slice(pos + 1, end - 1).trim(), start: pos });
+    last = end;
+    pos = text.indexOf('{', end);
+  }
+
+  if (last < text.length) segments.push({ type: 'text', value: text.slice(last) });
+  return segments;
+}
+
+// Decode character references, so `v-if="a &amp;&amp; b"` reads as `a && b`
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] !== '#') return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
+
+export function getAttribute(element: MarkupElement, name: string): MarkupAttribute | undefined {
+  return element.attributes.find(attribute => attribute.name === name);
+}
+
+// Position of an offset inside a text node
+export function textPosition(node: MarkupText, offset: number): { line: number; column: number } {
+  const before = node.value.slice(0, offset);
+  const lastBreak = before.lastIndexOf('\n');
+  return {
+    line: node.line + before.split('\n').length - 1,
+    column: lastBreak === -1 ? node.column + offset : offset - lastBreak - 1
+  };
+}
+
+class MarkupReader {
+  private pos = 0;
+  private lineStarts: number[] = [0];
+
+  constructor(private source: string, private options: MarkupOptions) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  read(): MarkupNode[] {
+    const root: MarkupElement = { type: 'element', tag: '#root', attributes: [], children: [], line: 1, column: 0 };
+    const stack: MarkupElement[] = [root];
+
+    while (this.pos < this.source.length) {
+      const parent = stack[stack.length - 1];
+
+      if (this.source.startsWith('<!--', this.pos)) {
+        const end = this.source.indexOf('-->', this.pos + 4);
+        const close = end === -1 ? this.source.length : end;
+        parent.children.push({ type: 'comment', value: this.source.slice(this.pos + 4, close).trim(), ...this.positionAt(this.pos) });
+        this.pos = close + 3;
+      } else if (this.source.startsWith('</', this.pos) && /[A-Za-z]/.test(this.source[this.pos + 2] ?? '')) {
+        const end = this.source.indexOf('>', this.pos);
+        const tag = this.source.slice(this.pos + 2, end === -1 ? undefined : end).trim();
+        this.pos = end === -1 ? this.source.length : end + 1;
+
+        // Close up to the matching element; stray closing tags are ignored
+        const index = stack.map(element => element.tag).lastIndexOf(tag);
+        if (index > 0) stack.length = index;
+      } else if (this.source[this.pos] === '<' && /[A-Za-z]/.test(this.source[this.pos + 1] ?? '')) {
+        const { element, selfClosing } = this.readOpenTag();
+        parent.children.push(element);
+
+        if (RAW_TEXT_ELEMENTS.has(element.tag)) {
+          const end = this.source.toLowerCase().indexOf(`</${element.tag}`, this.pos);
+          const close = end === -1 ? this.source.length : end;
+          const content = this.source.slice(this.pos, close);
+          if (content) element.children.push({ type: 'text', value: content, ...this.positionAt(this.pos) });
+          const tagEnd = this.source.indexOf('>', close);
+          this.pos = tagEnd === -1 ? this.source.length : tagEnd + 1;
+        } else if (!selfClosing && !VOID_ELEMENTS.has(element.tag.toLowerCase())) {
+          stack.push(element);
+        }
+      } else {
+        const start = this.pos;
+        this.readText();
+        parent.children.push({ type: 'text', value: this.source.slice(start, this.pos), ...this.positionAt(start) });
+      }
+    }
+
+    return root.children;
+  }
+
+  private positionAt(pos: number): { line: number; column: number } {
+    const line = this.lineAt(pos);
+    return { line, column: pos - this.lineStarts[line - 1] };
+  }
+
+  private lineAt(pos: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= pos) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+
+  private readText(): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '<' && /[A-Za-z/!]/.test(this.source[this.pos + 1] ?? '')) {
+        return;
+      }
+      if (this.options.braceExpressions && char === '{') {
+        this.pos = this.skipBalanced(this.pos);
+      } else if (!this.options.braceExpressions && this.source.startsWith('{{', this.pos)) {
+        const end = this.source.indexOf('}}', this.pos + 2);
+        this.pos = end === -1 ? this.source.length : end + 2;
+      } else {
+        this.pos++;
+      }
+    }
+  }
+
+  private readOpenTag(): { element: MarkupElement; selfClosing: boolean } {
+    const position = this.positionAt(this.pos);
+    this.pos++;
+    const nameMatch = /^[A-Za-z][\w:.-]*/.exec(this.source.slice(this.pos));
+    const tag = nameMatch ? nameMatch[0] : '';
+    this.pos += tag.length;
+
+    const element: MarkupElement = { type: 'element', tag, attributes: [], children: [], ...position };
+
+    while (this.pos < this.source.length) {
+      this.skipWhitespace();
+      if (this.source.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return { element, selfClosing: true };
+      }
+      if (this.source[this.pos] === '>') {
+        this.pos++;
+        return { element, selfClosing: false };
+      }
+
+      if (this.options.braceExpressions && this.source[this.pos] === '{') {
+        const end = this.skipBalanced(this.pos);
+        element.attributes.push({ name: '', value: this.source.slice(this.pos + 1, end - 1).trim(), expression: true });
+        this.pos = end;
+        continue;
+      }
+
+      const start = this.pos;
+      while (this.pos < this.source.length && !/[\s=>]/.test(this.source[this.pos]) && !this.source.startsWith('/>', this.pos)) {
+        this.pos++;
+      }
+      const name = this.source.slice(start, this.pos);
+      if (!name) {
+        // Unexpected character; skip it rather than loop forever
+        this.pos++;
+        continue;
+      }
+
+      this.skipWhitespace();
+      if (this.source[this.pos] !== '=') {
+        element.attributes.push({ name, value: null, expression: false });
+        continue;
+      }
+
+      this.pos++;
+      this.skipWhitespace();
+      element.attributes.push({ name, ...this.readAttributeValue() });
+    }
+
+    return { element, selfClosing: false };
+  }
+
+  private readAttributeValue(): { value: string; expression: boolean } {
+    const quote = this.source[this.pos];
+
+    if (quote === '"' || quote === "'") {
+      const start = ++this.pos;
+      while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+        if (this.options.braceExpressions && this.source[this.pos] === '{') {
+          this.pos = this.skipBalanced(this.pos);
+        } else {
+          this.pos++;
+        }
+      }
+      const value = this.source.slice(start, this.pos);
+      this.pos++;
+
+      // `attr="{expr}"` is the same as `attr={expr}` in Svelte
+      const single = this.options.braceExpressions && /^\{[\s\S]*\}$/.test(value) && this.skipBalancedIn(value) === value.length;
+      return single ? { value: value.slice(1, -1).trim(), expression: true } : { value: this.attributeText(value), expression: false };
+    }
+
+    if (this.options.braceExpressions && quote === '{') {
+      const end = this.skipBalanced(this.pos);
+      const value = this.source.slice(this.pos + 1, end - 1).trim();
+      this.pos = end;
+      return { value, expression: true };
+    }
+
+    const start = this.pos;
+    while (this.pos < this.source.length && !/[\s>]/.test(this.source[this.pos]) && !this.source.startsWith('/>', this.pos)) {
+      this.pos++;
+    }
+    return { value: this.attributeText(this.source.slice(start, this.pos)), expression: false };
+  }
+
+  // With brace expressions the caller decodes the text around the tags
+  private attributeText(value: string): string {
+    return this.options.braceExpressions ? value : decodeEntities(value);
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private skipBalancedIn(text: string): number {
+    return new MarkupReader(text, this.options).skipBalanced(0);
+  }
+
+  // Index just past the `}` matching the `{` at `start`, skipping strings
+  skipBalanced(start: number): number {
+    let depth = 0;
+    let pos = start;
+
+    while (pos < this.source.length) {
+      const char = this.source[pos];
+      if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) return pos + 1;
+      } else if (char === '"' || char === "'") {
+        pos = this.skipString(pos, char);
+        continue;
+      } else if (char === '`') {
+        pos = this.skipTemplateLiteral(pos);
+        continue;
+      }
+      pos++;
+    }
+
+    return this.source.length;
+  }
+
+  private skipString(start: number, quote: string): number {
+    let pos = start + 1;
+    while (pos < this.source.length && this.source[pos] !== quote) {
+      pos += this.source[pos] === '\\' ? 2 : 1;
+    }
+    return pos + 1;
+  }
+
+  private skipTemplateLiteral(start: number): number {
+    let pos = start + 1;
+    while (pos < this.source.length && this.source[pos] !== '`') {
+      if (this.source[pos] === '\\') {
+        pos += 2;
+      } else if (this.source.startsWith('${', pos)) {
+        pos = this.skipBalanced(pos + 1);
+      } else {
+        pos++;
+      }
+    }
+    return pos + 1;
+  }
+}
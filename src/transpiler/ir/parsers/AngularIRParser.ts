@@ -0,0 +1,1034 @@
+import { parse } from '@babel/parser';
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { SourcePosition } from '../../types';
+import { ComponentIR, IRElement, IREventBinding, IRFor, IRIf, IRNode, IRParser } from '../types';
+import {
+  collapseWhitespace,
+  createComponentIR,
+  dependencyInfo,
+  dropPropsType,
+  jsDocDescription,
+  lineWarning,
+  literalType,
+  memberDependencies,
+  methodFromFunction,
+  sourcePosition,
+  splitInterpolations
+} from '../builders';
+import { componentName, isComponentTag } from '../dom';
+import { getAttribute, MarkupElement, MarkupNode, parseMarkup, textPosition } from '../markup';
+import {
+  camelCase,
+  generateCode,
+  getterSource,
+  kebabCase,
+  pascalCase,
+  statementBody,
+  transformCode,
+  typeParameterSources
+} from '../utils';
+
+const MOUNT_HOOKS = ['ngOnInit', 'ngAfterContentInit', 'ngAfterViewInit'];
+const UNMOUNT_HOOKS = ['ngOnDestroy'];
+const CHANGE_HOOKS = ['ngOnChanges', 'ngDoCheck', 'ngAfterContentChecked', 'ngAfterViewChecked'];
+
+// Selector prefix the Angular emitter adds to component tags
+const SELECTOR_PREFIX = 'app-';
+
+// Built-in elements that are neither HTML nor user components
+const BUILT_IN_TAGS = new Set(['ng-container', 'ng-template', 'ng-content', 'router-outlet']);
+
+/**
+ * `@if (...) {`, `} @else {` and `}` markers found in template text. The
+ * markup reader leaves Angular control flow blocks in text nodes.
+ */
+// Tokens carry their offset in the text they were read from
+type ControlFlowToken = { start: number } & (
+  | { type: 'text'; value: string }
+  | { type: 'open'; keyword: string; params: string }
+  | { type: 'branch'; keyword: 'else' | 'else if' | 'empty'; params: string }
+  | { type: 'close' }
+);
+
+interface TemplateBlock {
+  keyword: string;
+  children: IRNode[];
+  parent: IRNode[];
+  node?: IRIf | IRFor;
+  fallback?: IRNode[];
+}
+
+/**
+ * Lowers an Angular component class into the IR. Decorated members and
+ * signals (`input()`, `output()`, `signal()`, `computed()`) are both read;
+ * `this.x`, `this.x()` and `this.output.emit(...)` become bare names and
+ * `$emit(...)`.
+ */
+export class AngularIRParser implements IRParser {
+  private ir!: ComponentIR;
+  private outputs = new Map<string, string>();
+  private signals = new Set<string>();
+  // @ViewChild field name to template reference name
+  private viewChildren = new Map<string, string>();
+  // Column of the first template character in the component file
+  private templateColumn = 0;
+
+  parse(code: string): ComponentIR {
+    this.ir = createComponentIR();
+    this.ir.typescript = true;
+    this.outputs = new Map();
+    this.signals = new Set();
+    this.viewChildren = new Map();
+
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['typescript', 'decorators-legacy']
+    });
+
+    let component: t.ClassDeclaration | null = null;
+    for (const statement of ast.program.body) {
+      const declaration = (t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)) && statement.declaration
+        ? statement.declaration
+        : statement;
+
+      if (t.isImportDeclaration(declaration)) {
+        if (!declaration.source.value.startsWith('@angular/')) this.ir.imports.push(dependencyInfo(declaration));
+      } else if (t.isClassDeclaration(declaration) && !component && this.componentDecorator(declaration)) {
+        component = declaration;
+      } else if (!this.collectToken(declaration, statement !== declaration)) {
+        // Exported types stay exported; other exports are module-private in the target
+        const isType = t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration);
+        this.ir.declarations.push(generateCode(isType && t.isExportNamedDeclaration(statement) ? statement : declaration));
+      }
+    }
+
+    if (!component) {
+      this.warn(undefined, 'No @Component class found');
+      return this.ir;
+    }
+
+    this.ir.name = (component.id?.name ?? 'Component').replace(/(.)Component$/, '$1');
+    this.ir.typeParameters = typeParameterSources(component.typeParameters);
+
+    // The exported `<Name>Props` interface mirrors the inputs for importers
+    const propsInterface = `${this.ir.name}Props`;
+    if (this.ir.declarations.some(code => code.startsWith(`export interface ${propsInterface}`))) {
+      dropPropsType(this.ir, propsInterface);
+    }
+    const template = this.collectDecorator(this.componentDecorator(component)!);
+    this.collectMembers(component);
+
+    if (template) {
+      this.templateColumn = template.column;
+      this.ir.template = this.convertNodes(parseMarkup(template.source), template.line);
+    }
+
+    this.ir.derived.forEach(derived => {
+      derived.dependencies = memberDependencies(this.ir, derived.expression);
+    });
+    this.ir.effects.forEach(effect => {
+      if (effect.trigger === 'change' && effect.dependencies.length === 0) {
+        effect.dependencies = memberDependencies(this.ir, effect.body, 'block');
+      }
+    });
+
+    return this.ir;
+  }
+
+  private warn(line: number | undefined, message: string): void {
+    this.ir.warnings.push(lineWarning(line, message));
+  }
+
+  private decoratorName(decorator: t.Decorator): string | undefined {
+    const expression = decorator.expression;
+    const callee = t.isCallExpression(expression) ? expression.callee : expression;
+    return t.isIdentifier(callee) ? callee.name : undefined;
+  }
+
+  private decoratorArguments(decorator: t.Decorator): t.CallExpression['arguments'] {
+    return t.isCallExpression(decorator.expression) ? decorator.expression.arguments : [];
+  }
+
+  private componentDecorator(node: t.ClassDeclaration): t.Decorator | undefined {
+    return node.decorators?.find(decorator => this.decoratorName(decorator) === 'Component');
+  }
+
+  private stringValue(node: t.Node | null | undefined): string | undefined {
+    if (t.isStringLiteral(node)) return node.value;
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+      return node.quasis.map(quasi => quasi.value.cooked ?? quasi.value.raw).join('');
+    }
+    return undefined;
+  }
+
+  // Reads template and styles from @Component({...})
+  private collectDecorator(decorator: t.Decorator): { source: string; line: number; column: number } | undefined {
+    const [options] = this.decoratorArguments(decorator);
+    if (!t.isObjectExpression(options)) return undefined;
+
+    let template: { source: string; line: number; column: number } | undefined;
+    let scoped = true;
+    const styles: string[] = [];
+
+    for (const property of options.properties) {
+      if (!t.isObjectProperty(property) || !t.isIdentifier(property.key)) continue;
+      const { value } = property;
+      const line = property.loc?.start.line;
+
+      switch (property.key.name) {
+        case 'template': {
+          const source = this.stringValue(value);
+          if (source !== undefined) {
+            // The template starts after the opening quote
+            template = { source, line: value.loc?.start.line ?? 1, column: (value.loc?.start.column ?? -1) + 1 };
+          } else {
+            this.warn(line, 'Only static template strings are supported');
+          }
+          break;
+        }
+        case 'styles': {
+          const entries = t.isArrayExpression(value) ? value.elements : [value];
+          entries.forEach(entry => {
+            const style = this.stringValue(entry);
+            if (style !== undefined) styles.push(style.trim());
+          });
+          break;
+        }
+        case 'encapsulation':
+          scoped = !(t.isMemberExpression(value) && t.isIdentifier(value.property, { name: 'None' }));
+          break;
+        case 'templateUrl':
+        case 'styleUrl':
+        case 'styleUrls':
+          this.warn(line, `${property.key.name} is not read; inline the ${property.key.name.startsWith('style') ? 'styles' : 'template'} to convert it`);
+          break;
+      }
+    }
+
+    styles.filter(Boolean).forEach(content => this.ir.styles.push({ content, scoped }));
+    return template;
+  }
+
+  private typeOf(member: t.ClassProperty | t.ClassMethod): string | undefined {
+    const annotation = t.isClassProperty(member) ? member.typeAnnotation : undefined;
+    return t.isTSTypeAnnotation(annotation) ? generateCode(annotation.typeAnnotation) : undefined;
+  }
+
+  private signalName(node: t.Node | null | undefined): string | undefined {
+    if (!t.isCallExpression(node)) return undefined;
+    const { callee } = node;
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.object) && t.isIdentifier(callee.property)) {
+      return `${callee.object.name}.${callee.property.name}`;
+    }
+    return undefined;
+  }
+
+  private typeArgument(call: t.CallExpression): string | undefined {
+    const param = call.typeParameters?.params[0];
+    return param ? generateCode(param) : undefined;
+  }
+
+  private collectMembers(component: t.ClassDeclaration): void {
+    const members = component.body.body;
+
+    // Names must be known before any code is lowered
+    for (const member of members) {
+      if (!t.isClassProperty(member) || !t.isIdentifier(member.key)) continue;
+      const name = member.key.name;
+      const decorator = member.decorators?.map(d => this.decoratorName(d)).find(Boolean);
+      const signal = this.signalName(member.value);
+
+      if (decorator === 'Output' || signal === 'output') {
+        const [alias] = member.decorators ? this.decoratorArguments(member.decorators[0]) : [];
+        this.outputs.set(name, kebabCase(this.stringValue(alias) ?? name));
+      } else if (decorator === 'ViewChild' || signal === 'viewChild') {
+        const args = decorator ? this.decoratorArguments(member.decorators![0]) : (member.value as t.CallExpression).arguments;
+        const reference = this.stringValue(args[0]);
+        if (reference) this.viewChildren.set(name, reference);
+      } else if (signal && ['signal', 'input', 'input.required', 'computed', 'model', 'viewChild'].includes(signal)) {
+        this.signals.add(name);
+      }
+    }
+
+    for (const member of members) {
+      if (t.isClassProperty(member) && t.isIdentifier(member.key)) {
+        this.collectProperty(member, member.key.name);
+      } else if (t.isClassMethod(member) && member.kind === 'constructor') {
+        this.collectConstructor(member);
+      } else if (t.isClassMethod(member) && t.isIdentifier(member.key)) {
+        this.collectMethod(member, member.key.name);
+      } else {
+        this.warn(member.loc?.start.line, 'Class member is not represented in the IR and was dropped');
+      }
+    }
+  }
+
+  // `const THEME = new InjectionToken<Theme>('theme', { factory: () => 'light' })`
+  private collectToken(declaration: t.Node, exported: boolean): boolean {
+    if (!t.isVariableDeclaration(declaration) || declaration.declarations.length !== 1) return false;
+    const [declarator] = declaration.declarations;
+    const init = declarator.init;
+    if (!t.isIdentifier(declarator.id) || !t.isNewExpression(init) || !t.isIdentifier(init.callee, { name: 'InjectionToken' })) {
+      return false;
+    }
+
+    const options = init.arguments[1];
+    const factory = t.isObjectExpression(options)
+      ? options.properties.find((property): property is t.ObjectProperty =>
+        t.isObjectProperty(property) && t.isIdentifier(property.key, { name: 'factory' }))?.value
+      : undefined;
+    const type = init.typeParameters?.params[0];
+    this.ir.contexts.push({
+      name: declarator.id.name,
+      ...(type ? { type: generateCode(type) } : {}),
+      ...(t.isArrowFunctionExpression(factory) && t.isExpression(factory.body) ? { default: generateCode(factory.body) } : {}),
+      exported,
+      loc: sourcePosition(declarator)
+    });
+    return true;
+  }
+
+  private collectProperty(member: t.ClassProperty, name: string): void {
+    const line = member.loc?.start.line;
+    const loc = sourcePosition(member);
+    const decorator = member.decorators?.[0];
+    const decoratorName = decorator ? this.decoratorName(decorator) : undefined;
+    const signal = this.signalName(member.value);
+    const call = member.value as t.CallExpression;
+    const type = this.typeOf(member);
+    const description = jsDocDescription(member);
+    const documented = description ? { description } : {};
+
+    // inject(Token), or inject(Token, { optional: true }) ?? fallback
+    const injected = t.isLogicalExpression(member.value, { operator: '??' }) ? member.value.left : member.value;
+    if (t.isCallExpression(injected) && t.isIdentifier(injected.callee, { name: 'inject' }) && injected.arguments[0]) {
+      this.ir.injections.push({
+        binding: name,
+        names: [name],
+        key: generateCode(injected.arguments[0]),
+        ...(t.isLogicalExpression(member.value) ? { default: this.lower(generateCode(member.value.right)) } : {}),
+        type: this.typeArgument(injected) ?? type,
+        loc
+      });
+      return;
+    }
+
+    if (member.static) {
+      this.ir.declarations.push(`const ${name} = ${member.value ? generateCode(member.value) : 'undefined'};`);
+      this.warn(line, `Static member ${name} was moved to module scope`);
+      return;
+    }
+
+    if (decoratorName === 'Input') {
+      const [options] = this.decoratorArguments(decorator!);
+      const required = !!member.definite || (t.isObjectExpression(options) && options.properties.some(
+        p => t.isObjectProperty(p) && t.isIdentifier(p.key, { name: 'required' }) && t.isBooleanLiteral(p.value, { value: true })
+      ));
+      if (this.stringValue(options)) {
+        this.warn(line, `Input alias "${this.stringValue(options)}" is not represented; the prop is named ${name}`);
+      }
+      this.ir.props.push({
+        name,
+        type: type ?? literalType(member.value),
+        required,
+        ...(member.value ? { default: generateCode(member.value) } : {}),
+        ...documented,
+        loc
+      });
+      return;
+    }
+
+    if (decoratorName === 'Output' || signal === 'output') {
+      const argument = decoratorName === 'Output' && t.isNewExpression(member.value)
+        ? member.value.typeParameters?.params[0]
+        : call.typeParameters?.params[0];
+      const payloadType = argument && !t.isTSVoidKeyword(argument) ? generateCode(argument) : undefined;
+      const event = this.outputs.get(name)!;
+      this.ir.events.push({ name: event, ...(payloadType ? { payloadType } : {}), loc });
+      return;
+    }
+
+    if (decoratorName === 'ViewChild' || signal === 'viewChild') {
+      const reference = this.viewChildren.get(name);
+      if (!reference) {
+        this.warn(line, `@ViewChild ${name} must query a template reference name`);
+        return;
+      }
+      const queried = decoratorName ? type : this.typeArgument(call);
+      const elementType = /^ElementRef<(.+)>$/.exec(queried ?? '')?.[1];
+      this.ir.refs.push({ name: reference, ...(elementType ? { type: elementType } : {}), loc });
+      return;
+    }
+
+    if (decoratorName) {
+      this.warn(line, `@${decoratorName} on ${name} is not supported and was dropped`);
+      return;
+    }
+
+    if (signal === 'input' || signal === 'input.required') {
+      const initial = call.arguments[0];
+      this.ir.props.push({
+        name,
+        type: this.typeArgument(call) ?? literalType(initial),
+        required: signal === 'input.required',
+        ...(initial ? { default: generateCode(initial) } : {}),
+        ...documented,
+        loc
+      });
+      return;
+    }
+
+    if (signal === 'signal') {
+      const initial = call.arguments[0];
+      this.ir.state.push({ name, initial: initial ? this.lower(generateCode(initial)) : 'undefined', type: this.typeArgument(call), reactive: true, loc });
+      return;
+    }
+
+    if (signal === 'computed') {
+      const getter = call.arguments[0];
+      if (t.isArrowFunctionExpression(getter) || t.isFunctionExpression(getter)) {
+        this.ir.derived.push({ name, expression: this.lower(getterSource(getter)), dependencies: [], type: this.typeArgument(call), loc });
+      }
+      return;
+    }
+
+    if (signal === 'model') {
+      this.warn(line, `model() ${name} is converted to a prop; emit ${kebabCase(name)}-change to update it`);
+      this.ir.props.push({ name, type: this.typeArgument(call), required: false, ...documented, loc });
+      return;
+    }
+
+    if (t.isArrowFunctionExpression(member.value) || t.isFunctionExpression(member.value)) {
+      this.addMethod(name, member.value, loc);
+      return;
+    }
+
+    this.ir.state.push({
+      name,
+      initial: member.value ? this.lower(generateCode(member.value)) : 'undefined',
+      type,
+      reactive: true,
+      loc
+    });
+  }
+
+  private collectConstructor(member: t.ClassMethod): void {
+    member.params.forEach(param => {
+      if (!t.isTSParameterProperty(param)) return;
+      const name = t.isIdentifier(param.parameter) ? param.parameter.name : generateCode(param.parameter);
+      const annotation = t.isIdentifier(param.parameter) && t.isTSTypeAnnotation(param.parameter.typeAnnotation)
+        ? param.parameter.typeAnnotation.typeAnnotation
+        : null;
+
+      // constructor(private auth: AuthService) injects by the parameter's class
+      if (t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName)) {
+        this.ir.injections.push({ binding: name, names: [name], key: annotation.typeName.name, type: generateCode(annotation), loc: sourcePosition(param) });
+      } else {
+        this.warn(param.loc?.start.line, `Injected dependency ${name} is not represented in the IR`);
+      }
+    });
+
+    // effect(() => ...) registered in the constructor
+    const statements = member.body.body.filter(statement => {
+      const call = t.isExpressionStatement(statement) ? statement.expression : null;
+      if (!t.isCallExpression(call) || this.signalName(call) !== 'effect') return true;
+      const callback = call.arguments[0];
+      if (t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)) {
+        this.ir.effects.push({ trigger: 'change', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc: sourcePosition(call) });
+      }
+      return false;
+    });
+
+    if (statements.length > 0) {
+      this.ir.effects.push({
+        trigger: 'mount',
+        body: this.lower(generateCode(t.blockStatement(statements)), 'block'),
+        dependencies: [],
+        loc: sourcePosition(statements[0])
+      });
+    }
+  }
+
+  private collectMethod(member: t.ClassMethod, name: string): void {
+    const line = member.loc?.start.line;
+    const loc = sourcePosition(member);
+    const body = () => this.lower(generateCode(member.body), 'block');
+
+    if (member.kind === 'get') {
+      this.ir.derived.push({ name, expression: this.lower(getterSource(member)), dependencies: [], loc });
+    } else if (member.kind === 'set') {
+      this.warn(line, `Setter ${name} is not represented in the IR and was dropped`);
+    } else if (MOUNT_HOOKS.includes(name)) {
+      this.ir.effects.push({ trigger: 'mount', body: body(), dependencies: [], loc });
+    } else if (UNMOUNT_HOOKS.includes(name)) {
+      this.ir.effects.push({ trigger: 'unmount', body: body(), dependencies: [], loc });
+    } else if (CHANGE_HOOKS.includes(name)) {
+      if (member.params.length > 0) {
+        this.warn(line, `The SimpleChanges argument of ${name} is not represented in the IR`);
+      }
+      // ngOnChanges only runs for input changes
+      const dependencies = name === 'ngOnChanges' ? this.ir.props.map(prop => prop.name) : [];
+      this.ir.effects.push({ trigger: 'change', body: body(), dependencies, loc });
+    } else {
+      if (member.decorators?.length) {
+        this.warn(line, `@${this.decoratorName(member.decorators[0])} on ${name} is not supported; the method was kept`);
+      }
+      this.addMethod(name, member, loc);
+    }
+  }
+
+  private addMethod(name: string, fn: t.Function, loc: SourcePosition | undefined): void {
+    const method = methodFromFunction(name, fn, loc);
+    method.body = this.lower(method.body, 'block');
+    this.ir.methods.push(method);
+  }
+
+  /**
+   * Rewrite Angular idioms into IR expressions. Class code reads members
+   * through `this`; template code reads them by name, so `template` lowers
+   * bare signal reads and output emits as well.
+   */
+  private lower(code: string, kind: 'expression' | 'block' = 'expression', template = false): string {
+    const { outputs, signals, viewChildren } = this;
+
+    const memberName = (node: t.Node, path: NodePath): string | undefined => {
+      if (t.isMemberExpression(node) && t.isThisExpression(node.object) && !node.computed && t.isIdentifier(node.property)) {
+        return node.property.name;
+      }
+      if (template && t.isIdentifier(node) && !path.scope.hasBinding(node.name, true)) {
+        return node.name;
+      }
+      return undefined;
+    };
+
+    return transformCode(code, kind, {
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const { callee, arguments: args } = path.node;
+
+        // this.count() reads a signal
+        const called = memberName(callee, path);
+        if (called && signals.has(called) && args.length === 0) {
+          path.replaceWith(t.identifier(called));
+          return;
+        }
+
+        if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property)) return;
+        const owner = memberName(callee.object, path);
+        if (!owner) return;
+        const method = callee.property.name;
+
+        if (method === 'emit' && outputs.has(owner)) {
+          path.replaceWith(t.callExpression(t.identifier('$emit'), [t.stringLiteral(outputs.get(owner)!), ...args]));
+        } else if (method === 'set' && signals.has(owner)) {
+          path.replaceWith(t.assignmentExpression('=', t.identifier(owner), args[0] as t.Expression));
+        } else if (method === 'update' && signals.has(owner)) {
+          const updater = args[0];
+          // count.update(c => c + 1) becomes count = count + 1
+          if (t.isArrowFunctionExpression(updater) && updater.params.length === 1 && t.isIdentifier(updater.params[0])
+            && t.isExpression(updater.body)) {
+            (path.get('arguments.0') as NodePath).scope.rename(updater.params[0].name, owner);
+            path.replaceWith(t.assignmentExpression('=', t.identifier(owner), updater.body));
+          } else {
+            path.replaceWith(t.assignmentExpression('=', t.identifier(owner), t.callExpression(updater as t.Expression, [t.identifier(owner)])));
+          }
+        }
+      },
+
+      MemberExpression(path: NodePath<t.MemberExpression>) {
+        const { object, property, computed } = path.node;
+        if (computed || !t.isIdentifier(property)) return;
+
+        // this.input.nativeElement becomes the template reference
+        const owner = memberName(object, path);
+        if (owner && viewChildren.has(owner) && property.name === 'nativeElement') {
+          path.replaceWith(t.identifier(viewChildren.get(owner)!));
+          return;
+        }
+
+        if (t.isThisExpression(object)) {
+          path.replaceWith(t.identifier(viewChildren.get(property.name) ?? property.name));
+        }
+      }
+    });
+  }
+
+  // Template expressions, without pipes
+  private lowerTemplate(code: string, line: number): string {
+    const expression = this.stripPipes(code.trim(), line);
+    return this.lower(expression, 'expression', true);
+  }
+
+  // `date | format:'short'` keeps `date`; pipes have no IR counterpart
+  private stripPipes(code: string, line: number): string {
+    let depth = 0;
+    let quote = '';
+    for (let i = 0; i < code.length; i++) {
+      const char = code[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = '';
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (char === '|' && depth === 0 && code[i + 1] !== '|' && code[i - 1] !== '|') {
+        this.warn(line, `Pipe "${code.slice(i + 1).trim()}" is not supported and was dropped`);
+        return code.slice(0, i).trim();
+      }
+    }
+    return code;
+  }
+
+  // Position in the component file of a template position
+  private position(position: { line: number; column: number }, offset: number): SourcePosition {
+    return {
+      line: position.line + offset - 1,
+      column: position.line === 1 ? position.column + this.templateColumn : position.column
+    };
+  }
+
+  /**
+   * Convert a child list. `@if`/`@for` blocks open and close inside text, so
+   * they are tracked on a stack while reading siblings.
+   */
+  private convertNodes(nodes: MarkupNode[], offset: number): IRNode[] {
+    const root: IRNode[] = [];
+    const stack: TemplateBlock[] = [];
+    const target = () => (stack.length ? stack[stack.length - 1].children : root);
+
+    // <ng-template #name> blocks referenced by *ngIf="...; else name"
+    const templates = new Map<string, MarkupElement>();
+    nodes.forEach(node => {
+      if (node.type !== 'element' || node.tag !== 'ng-template') return;
+      const reference = node.attributes.find(attribute => attribute.name.startsWith('#'));
+      if (reference) templates.set(reference.name.slice(1), node);
+    });
+    const elseTemplates = new Set<MarkupElement>();
+    nodes.forEach(node => {
+      const condition = node.type === 'element' ? getAttribute(node, '*ngIf')?.value : undefined;
+      const elseName = condition ? /;\s*else\s+(\w+)/.exec(condition)?.[1] : undefined;
+      if (elseName && templates.has(elseName)) elseTemplates.add(templates.get(elseName)!);
+    });
+
+    for (const node of nodes) {
+      const line = node.line + offset - 1;
+
+      if (node.type === 'comment') {
+        target().push({ type: 'comment', value: node.value });
+      } else if (node.type === 'element') {
+        if (!elseTemplates.has(node)) target().push(...this.convertElement(node, offset, templates));
+      } else {
+        // Offset of the current part in the text node
+        let start = 0;
+        for (const part of splitInterpolations(node.value, /\{\{([\s\S]*?)\}\}/)) {
+          if (part.type === 'expression') {
+            target().push({ type: 'expression', expression: this.lowerTemplate(part.expression, line) });
+            start = node.value.indexOf('}}', start) + 2;
+            continue;
+          }
+          const text = (part as { value: string }).value;
+          start = node.value.indexOf(text, start);
+          for (const token of this.controlFlowTokens(text)) {
+            this.convertControlFlow(token, this.position(textPosition(node, start + token.start), offset), stack, target());
+          }
+          start += text.length;
+        }
+      }
+    }
+
+    if (stack.length > 0) {
+      this.warn(nodes[0] && nodes[0].line + offset - 1, `Unclosed @${stack[stack.length - 1].keyword} block`);
+      while (stack.length) this.closeBlock(stack.pop()!);
+    }
+
+    return collapseWhitespace(root);
+  }
+
+  private controlFlowTokens(text: string): ControlFlowToken[] {
+    const tokens: ControlFlowToken[] = [];
+    let last = 0;
+    let pos = 0;
+
+    const readParams = (start: number): { params: string; end: number } => {
+      let index = start;
+      while (/\s/.test(text[index] ?? '')) index++;
+      if (text[index] !== '(') return { params: '', end: index };
+      let depth = 0;
+      for (let i = index; i < text.length; i++) {
+        if (text[i] === '(') depth++;
+        if (text[i] === ')' && --depth === 0) return { params: text.slice(index + 1, i).trim(), end: i + 1 };
+      }
+      return { params: text.slice(index + 1).trim(), end: text.length };
+    };
+    const skipBrace = (start: number): number | null => {
+      const match = /^\s*\{/.exec(text.slice(start));
+      return match ? start + match[0].length : null;
+    };
+    const flush = (end: number) => {
+      if (end > last) tokens.push({ type: 'text', value: text.slice(last, end), start: last });
+    };
+
+    while (pos < text.length) {
+      const keyword = /^@(if|for|switch|case|default|defer|placeholder|loading|error)\b/.exec(text.slice(pos));
+      if (keyword) {
+        const { params, end } = readParams(pos + keyword[0].length);
+        const body = skipBrace(end);
+        if (body !== null) {
+          flush(pos);
+          tokens.push({ type: 'open', keyword: keyword[1], params, start: pos });
+          pos = last = body;
+          continue;
+        }
+      }
+
+      if (text[pos] === '}') {
+        flush(pos);
+        const branch = /^\}\s*@(else\s+if|else|empty)\b/.exec(text.slice(pos));
+        if (branch) {
+          const { params, end } = readParams(pos + branch[0].length);
+          const body = skipBrace(end);
+          if (body !== null) {
+            tokens.push({ type: 'branch', keyword: branch[1].replace(/\s+/, ' ') as 'else' | 'else if' | 'empty', params, start: pos });
+            pos = last = body;
+            continue;
+          }
+        }
+        tokens.push({ type: 'close', start: pos });
+        pos = last = pos + 1;
+        continue;
+      }
+      pos++;
+    }
+
+    flush(text.length);
+    return tokens;
+  }
+
+  private convertControlFlow(token: ControlFlowToken, loc: SourcePosition, stack: TemplateBlock[], target: IRNode[]): void {
+    const top = stack[stack.length - 1];
+    const { line } = loc;
+
+    if (token.type === 'text') {
+      target.push({ type: 'text', value: token.value });
+    } else if (token.type === 'open' && token.keyword === 'if') {
+      const condition = token.params.replace(/;\s*as\s+\w+$/, '');
+      const node: IRIf = { type: 'if', branches: [{ condition: this.lowerTemplate(condition, line), children: [] }], loc };
+      target.push(node);
+      stack.push({ keyword: 'if', node, children: node.branches[0].children, parent: target });
+    } else if (token.type === 'open' && token.keyword === 'for') {
+      const node = this.parseForBlock(token.params, loc);
+      target.push(node);
+      stack.push({ keyword: 'for', node, children: node.children, parent: target });
+    } else if (token.type === 'open') {
+      // @defer renders its content eagerly; @switch and its cases are dropped
+      const inline = token.keyword === 'defer';
+      this.warn(line, inline ? '@defer blocks are rendered eagerly' : `@${token.keyword} blocks are not supported and were dropped`);
+      stack.push({ keyword: token.keyword, children: inline ? target : [], parent: target });
+    } else if (token.type === 'branch') {
+      if (top?.node?.type === 'if' && token.keyword !== 'empty') {
+        const branch = {
+          ...(token.keyword === 'else if' ? { condition: this.lowerTemplate(token.params, line) } : {}),
+          children: [] as IRNode[]
+        };
+        top.node.branches.push(branch);
+        top.children = branch.children;
+      } else if (top?.node?.type === 'for' && token.keyword === 'empty') {
+        top.fallback = [];
+        top.children = top.fallback;
+      } else {
+        this.warn(line, `@${token.keyword} without a matching block`);
+      }
+    } else if (top) {
+      this.closeBlock(stack.pop()!);
+    } else {
+      target.push({ type: 'text', value: '}' });
+    }
+  }
+
+  private closeBlock(block: TemplateBlock): void {
+    if (block.node?.type === 'if') {
+      block.node.branches.forEach(branch => {
+        branch.children = collapseWhitespace(branch.children);
+      });
+    } else if (block.node?.type === 'for') {
+      const loop = block.node;
+      loop.children = collapseWhitespace(loop.children);
+
+      // @empty renders when the list has no items
+      if (block.fallback) {
+        const index = block.parent.indexOf(loop);
+        block.parent[index] = {
+          type: 'if',
+          branches: [
+            { condition: `${loop.source}.length`, children: [loop] },
+            { children: collapseWhitespace(block.fallback) }
+          ]
+        };
+      }
+    }
+  }
+
+  // @for (item of items; track item.id; let i = $index)
+  private parseForBlock(params: string, loc: SourcePosition): IRFor {
+    const { line } = loc;
+    const [head, ...clauses] = params.split(';').map(part => part.trim());
+    const match = /^([\s\S]+?)\s+of\s+([\s\S]+)$/.exec(head);
+    const loop: IRFor = {
+      type: 'for',
+      source: this.lowerTemplate(match?.[2] ?? head, line),
+      item: match?.[1].trim() ?? 'item',
+      children: [],
+      loc
+    };
+
+    for (const clause of clauses) {
+      if (clause.startsWith('track ')) {
+        loop.key = clause.slice(6).trim();
+      } else if (clause.startsWith('let ')) {
+        clause.slice(4).split(',').forEach(alias => {
+          const [name, value] = alias.split('=').map(part => part.trim());
+          if (value === '$index') loop.index = name;
+          else this.warn(line, `Loop variable ${value} is not supported`);
+        });
+      }
+    }
+
+    if (loop.key === '$index') {
+      delete loop.key;
+    } else if (loop.key) {
+      loop.key = this.lowerTemplate(loop.key.replace(/\$index\b/g, loop.index ?? 'index'), line);
+    }
+    return loop;
+  }
+
+  // *ngFor="let item of items; let i = index; trackBy: trackById"
+  private parseNgFor(value: string, loc: SourcePosition): IRFor {
+    const { line } = loc;
+    const match = /^\s*let\s+(\w+)\s+of\s+([^;]+)(.*)$/.exec(value);
+    if (!match) {
+      this.warn(line, `Unrecognised *ngFor expression "${value}"`);
+      return { type: 'for', source: this.lowerTemplate(value, line), item: 'item', children: [], loc };
+    }
+
+    const loop: IRFor = { type: 'for', source: this.lowerTemplate(match[2], line), item: match[1], children: [], loc };
+    const index = /let\s+(\w+)\s*=\s*index\b/.exec(match[3]) ?? /\bindex\s+as\s+(\w+)/.exec(match[3]);
+    if (index) loop.index = index[1];
+
+    const trackBy = /trackBy\s*:\s*([\w$.]+)/.exec(match[3]);
+    if (trackBy) {
+      loop.key = this.lowerTemplate(`${trackBy[1]}(${loop.index ?? 'index'}, ${loop.item})`, line);
+      if (!loop.index) loop.index = 'index';
+    }
+    return loop;
+  }
+
+  private convertElement(node: MarkupElement, offset: number, templates: Map<string, MarkupElement>): IRNode[] {
+    const loc = this.position(node, offset);
+    const { line } = loc;
+    const ngIf = getAttribute(node, '*ngIf');
+    const ngFor = getAttribute(node, '*ngFor');
+
+    node.attributes
+      .filter(attribute => attribute.name.startsWith('*') && attribute !== ngIf && attribute !== ngFor)
+      .forEach(attribute => this.warn(line, `Structural directive ${attribute.name} is not supported and was dropped`));
+
+    let nodes = this.convertTag(node, offset);
+
+    if (ngFor?.value) {
+      const loop = this.parseNgFor(ngFor.value, loc);
+      loop.children = nodes;
+      nodes = [loop];
+    }
+
+    if (ngIf?.value) {
+      const [condition, ...options] = ngIf.value.split(';');
+      const ifNode: IRIf = {
+        type: 'if',
+        branches: [{ condition: this.lowerTemplate(condition.replace(/\s+as\s+\w+$/, ''), line), children: nodes }],
+        loc
+      };
+      if (/\s+as\s+\w+$/.test(condition)) {
+        this.warn(line, '*ngIf "as" aliases are not supported');
+      }
+
+      const elseName = options.map(option => /^\s*else\s+(\w+)/.exec(option)?.[1]).find(Boolean);
+      const elseTemplate = elseName ? templates.get(elseName) : undefined;
+      if (elseTemplate) {
+        ifNode.branches.push({ children: this.convertNodes(elseTemplate.children, offset) });
+      } else if (elseName) {
+        this.warn(line, `Else template ${elseName} was not found next to the *ngIf`);
+      }
+      nodes = [ifNode];
+    }
+
+    return nodes;
+  }
+
+  private convertTag(node: MarkupElement, offset: number): IRNode[] {
+    const loc = this.position(node, offset);
+    const { line } = loc;
+
+    if (node.tag === 'ng-container') {
+      return this.convertNodes(node.children, offset);
+    }
+
+    if (node.tag === 'ng-template') {
+      this.warn(line, '<ng-template> is only supported as an *ngIf else block and was dropped');
+      return [];
+    }
+
+    if (node.tag === 'ng-content') {
+      const select = getAttribute(node, 'select')?.value;
+      const name = select ? this.slotFromSelector(select) : 'default';
+      if (!this.ir.slots.some(slot => slot.name === name)) {
+        this.ir.slots.push({ name, params: [] });
+      }
+      return [{ type: 'slot', name, props: [], fallback: this.convertNodes(node.children, offset), loc }];
+    }
+
+    const component = isComponentTag(node.tag) && !BUILT_IN_TAGS.has(node.tag);
+    const element: IRElement = {
+      type: 'element',
+      // app-user-card is the UserCard component
+      tag: component && node.tag.startsWith(SELECTOR_PREFIX) ? pascalCase(node.tag.slice(SELECTOR_PREFIX.length)) : componentName(node.tag),
+      component,
+      attributes: [],
+      events: [],
+      children: [],
+      slots: [],
+      loc
+    };
+
+    const classes: string[] = [];
+    const styles: string[] = [];
+    for (const attribute of node.attributes) {
+      this.convertAttribute(node, attribute.name, attribute.value, element, line, classes, styles);
+    }
+    if (classes.length) element.attributes.push({ kind: 'bound', name: 'class', expression: `{ ${classes.join(', ')} }` });
+    if (styles.length) element.attributes.push({ kind: 'bound', name: 'style', expression: `{ ${styles.join(', ')} }` });
+
+    if (!component) {
+      element.children = this.convertNodes(node.children, offset);
+      return [element];
+    }
+
+    // Children projected into a named <ng-content select>
+    const content: MarkupNode[] = [];
+    for (const child of node.children) {
+      const projectAs = child.type === 'element' ? (getAttribute(child, 'ngProjectAs') ?? getAttribute(child, 'slot'))?.value : undefined;
+      if (child.type !== 'element' || !projectAs) {
+        content.push(child);
+        continue;
+      }
+      const name = this.slotFromSelector(projectAs);
+      const stripped = { ...child, attributes: child.attributes.filter(a => a.name !== 'ngProjectAs' && a.name !== 'slot') };
+      const children = child.tag === 'ng-container' ? this.convertNodes(child.children, offset) : this.convertElement(stripped, offset, new Map());
+      element.slots.push({ name, children });
+    }
+    element.children = this.convertNodes(content, offset);
+    return [element];
+  }
+
+  // [slot=footer], [footer], .footer and footer all select the footer slot
+  private slotFromSelector(selector: string): string {
+    const match = /^\[\s*slot\s*=\s*["']?([\w-]+)["']?\s*\]$/.exec(selector.trim())
+      ?? /^[[.]?([\w-]+)\]?$/.exec(selector.trim());
+    return match ? match[1] : selector.trim();
+  }
+
+  private convertAttribute(
+    node: MarkupElement,
+    name: string,
+    value: string | null,
+    element: IRElement,
+    line: number,
+    classes: string[],
+    styles: string[]
+  ): void {
+    if (name.startsWith('*')) return;
+
+    if (name.startsWith('#') || name.startsWith('ref-')) {
+      element.ref = name.replace(/^(#|ref-)/, '');
+      return;
+    }
+
+    const twoWay = /^\[\((\w+)\)\]$/.exec(name) ?? /^bindon-(\w+)$/.exec(name);
+    if (twoWay && value) {
+      const expression = this.lowerTemplate(value, line);
+      if (twoWay[1] === 'ngModel') {
+        const property = getAttribute(node, 'type')?.value === 'checkbox' ? 'checked' : 'value';
+        element.attributes.push({ kind: 'model', name: property, expression });
+      } else {
+        element.attributes.push({ kind: 'bound', name: twoWay[1], expression });
+        element.events.push({ name: `${kebabCase(twoWay[1])}-change`, handler: `value => ${expression} = value`, modifiers: [] });
+      }
+      return;
+    }
+
+    const property = /^\[([\w.-]+)\]$/.exec(name)?.[1] ?? /^bind-([\w.-]+)$/.exec(name)?.[1];
+    if (property && value !== null) {
+      const expression = this.lowerTemplate(value, line);
+      const [kind, key, unit] = property.split('.');
+
+      if (kind === 'class' && key) {
+        classes.push(`${/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`}: ${expression}`);
+      } else if (kind === 'style' && key) {
+        styles.push(`${camelCase(key)}: ${unit ? `\`\${${expression}}${unit}\`` : expression}`);
+      } else if (kind === 'attr' && key) {
+        element.attributes.push({ kind: 'bound', name: key, expression });
+      } else if (kind === 'ngClass' || kind === 'className') {
+        element.attributes.push({ kind: 'bound', name: 'class', expression });
+      } else if (kind === 'ngStyle') {
+        element.attributes.push({ kind: 'bound', name: 'style', expression });
+      } else if (kind === 'ngModel') {
+        element.attributes.push({ kind: 'bound', name: 'value', expression });
+      } else {
+        element.attributes.push({ kind: 'bound', name: kind, expression });
+      }
+      return;
+    }
+
+    const event = /^\(([\w.:-]+)\)$/.exec(name)?.[1] ?? /^on-([\w.:-]+)$/.exec(name)?.[1];
+    if (event) {
+      element.events.push(this.convertEvent(event, value ?? '', element, line));
+      return;
+    }
+
+    if (name === 'ngProjectAs') return;
+
+    element.attributes.push({ kind: 'static', name, value: value ?? true });
+  }
+
+  private convertEvent(name: string, value: string, element: IRElement, line: number): IREventBinding {
+    // (keyup.enter) and (keydown.escape) carry key modifiers
+    const [eventName, ...modifiers] = name.split('.');
+    const event: IREventBinding = {
+      name: element.component ? kebabCase(eventName) : eventName,
+      handler: '() => {}',
+      modifiers
+    };
+
+    if (eventName === 'ngModelChange') {
+      event.name = 'input';
+    } else if (element.component && eventName.endsWith('Change')) {
+      event.name = `${kebabCase(eventName.slice(0, -6))}-change`;
+    }
+
+    const handler = value.trim();
+    if (!handler) return event;
+
+    // save() or save($event) is a call to a method
+    const param = /\$event\b/.test(handler) ? '$event' : '';
+    const body = handler.includes(';') ? `{ ${handler} }` : handler;
+    const lowered = this.lowerTemplate(`(${param}) => ${body}`, line);
+
+    // save($event) passes the event straight through
+    const call = /^\$event => ([\w$]+)\(\$event\)$/.exec(lowered);
+    event.handler = call ? call[1] : lowered;
+    return event;
+  }
+}
@@ -0,0 +1,1105 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { SourcePosition } from '../../types';
+import { ComponentIR, IRAttribute, IRElement, IREffect, IRNode, IRParser, IRSlotContent } from '../types';
+import {
+  createComponentIR,
+  dependencyInfo,
+  lineWarning,
+  memberDependencies,
+  methodFromFunction,
+  propTypes,
+  PropType,
+  sourcePosition
+} from '../builders';
+import { fromReactAttribute, fromReactEvent, fromReactEventType } from '../dom';
+import {
+  generateCode,
+  isFreeReference,
+  kebabCase,
+  replaceIdentifier,
+  snapshotStateVisitor,
+  statementBody,
+  transformCode,
+  typeParameterSources
+} from '../utils';
+
+// Imports the IR replaces with its own constructs
+const FRAMEWORK_SOURCES = ['react', 'react-dom', 'preact', 'preact/hooks', 'preact/compat'];
+
+// Prop types that make a prop slot content rather than data
+const SLOT_TYPE = /\b(ReactNode|ReactElement|JSX\.Element|ComponentChildren|VNode)\b/;
+
+// Built-in hooks the IR has no construct for, and why; any other `useX` is a custom hook
+const UNSUPPORTED_HOOKS: Record<string, string> = {
+  useId: 'generate the id in the target, e.g. from a counter',
+  useImperativeHandle: 'expose the methods with the target\'s public API (defineExpose, exported functions, public members)',
+  useTransition: 'the target renders updates synchronously',
+  useDeferredValue: 'the target renders updates synchronously',
+  useSyncExternalStore: 'subscribe to the store in a mount effect',
+  useInsertionEffect: 'inject the styles from the component\'s stylesheet',
+  useOptimistic: 'keep the optimistic value in state',
+  useActionState: 'keep the action result in state',
+  useFormStatus: 'track the pending state of the form in state',
+  useDebugValue: 'it only labels hooks in React DevTools'
+};
+
+interface ComponentFunction {
+  name: string;
+  fn: t.ArrowFunctionExpression | t.FunctionExpression | t.FunctionDeclaration;
+  statement: t.Statement;
+  // Props type from `React.FC<Props>` style annotations on the variable
+  propsType?: t.TSType;
+}
+
+/**
+ * Lowers a React (or Preact) function component into the IR. Hooks become
+ * state, derived values, refs and effects; setter calls become assignments
+ * and `onX` callback props become `$emit` calls.
+ */
+export class ReactIRParser implements IRParser {
+  private ir!: ComponentIR;
+  private ast!: t.File;
+  private setters = new Map<string, string>();
+  private eventProps = new Map<string, string>();
+  private slotProps = new Map<string, string[]>();
+  private refNames = new Set<string>();
+  private aliases = new Map<string, string>();
+  private propsParam?: string;
+
+  parse(code: string): ComponentIR {
+    this.ir = createComponentIR();
+    this.setters = new Map();
+    this.eventProps = new Map();
+    this.slotProps = new Map();
+    this.refNames = new Set();
+    this.aliases = new Map();
+    this.propsParam = undefined;
+
+    this.ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+    this.ir.typescript = this.usesTypeScript();
+    this.mapEventTypes();
+
+    const component = this.findComponent();
+    if (!component) {
+      this.ir.warnings.push('No function component returning JSX was found');
+      return this.ir;
+    }
+
+    this.ir.name = component.name;
+    this.ir.typeParameters = typeParameterSources(component.fn.typeParameters);
+    const propsTypeName = this.collectProps(component);
+    this.collectModule(component, propsTypeName);
+
+    const root = this.collectBody(component.fn);
+    this.ir.template = root ? this.convertRenderable(root) : [];
+
+    this.ir.derived.forEach(derived => {
+      derived.dependencies = memberDependencies(this.ir, derived.expression);
+    });
+
+    return this.ir;
+  }
+
+  private usesTypeScript(): boolean {
+    let found = false;
+    t.traverseFast(this.ast.program, node => {
+      if (node.type.startsWith('TS')) found = true;
+    });
+    return found;
+  }
+
+  /**
+   * React's event types aren't available in the targets, which hand handlers
+   * DOM events: `FormEvent` becomes `Event`, and `ChangeEvent<HTMLInputElement>`
+   * keeps its element as `Event & { target: HTMLInputElement }`.
+   */
+  private mapEventTypes(): void {
+    const named = new Map<string, string>();
+    const namespaces = new Set<string>();
+    for (const statement of this.ast.program.body) {
+      if (!t.isImportDeclaration(statement) || !FRAMEWORK_SOURCES.includes(statement.source.value)) continue;
+      for (const specifier of statement.specifiers) {
+        if (t.isImportSpecifier(specifier)) {
+          named.set(specifier.local.name, t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value);
+        } else {
+          namespaces.add(specifier.local.name);
+        }
+      }
+    }
+
+    traverse(this.ast, {
+      TSTypeReference(path) {
+        const { typeName, typeParameters } = path.node;
+        const imported = t.isIdentifier(typeName) ? named.get(typeName.name)
+          : t.isIdentifier(typeName.left) && namespaces.has(typeName.left.name) ? typeName.right.name
+            : undefined;
+        const domType = imported && fromReactEventType(imported);
+        if (!domType) return;
+
+        const event = t.tsTypeReference(t.identifier(domType));
+        const element = typeParameters?.params[0];
+        path.replaceWith(imported === 'ChangeEvent' && element
+          ? t.tsIntersectionType([event, t.tsTypeLiteral([
+            t.tsPropertySignature(t.identifier('target'), t.tsTypeAnnotation(element))
+          ])])
+          : event);
+        path.skip();
+      }
+    });
+  }
+
+  private warn(node: t.Node, message: string): void {
+    this.ir.warnings.push(lineWarning(node.loc?.start.line, message));
+  }
+
+  private containsJSX(node: t.Node): boolean {
+    let found = false;
+    t.traverseFast(node, child => {
+      if (t.isJSXElement(child) || t.isJSXFragment(child)) found = true;
+    });
+    return found;
+  }
+
+  private findComponent(): ComponentFunction | null {
+    for (const statement of this.ast.program.body) {
+      const declaration = t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+        ? statement.declaration
+        : statement;
+
+      if (t.isFunctionDeclaration(declaration) && this.containsJSX(declaration)) {
+        return { name: declaration.id?.name ?? 'Component', fn: declaration, statement };
+      }
+
+      if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          let init = declarator.init;
+
+          // Unwrap memo(...) / forwardRef(...) wrappers
+          while (t.isCallExpression(init) && init.arguments.length > 0) {
+            const callee = generateCode(init.callee);
+            if (/forwardRef$/.test(callee)) {
+              this.warn(init, 'forwardRef is not represented in the IR; the forwarded ref was dropped');
+            }
+            init = init.arguments[0] as t.Expression;
+          }
+
+          if ((t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) && this.containsJSX(init)) {
+            const annotation = t.isIdentifier(declarator.id) ? declarator.id.typeAnnotation : null;
+            const propsType = t.isTSTypeAnnotation(annotation) && t.isTSTypeReference(annotation.typeAnnotation)
+              ? annotation.typeAnnotation.typeParameters?.params[0]
+              : undefined;
+
+            return {
+              name: t.isIdentifier(declarator.id) ? declarator.id.name : 'Component',
+              fn: init,
+              statement,
+              propsType
+            };
+          }
+        }
+      }
+
+      if (t.isExportDefaultDeclaration(statement)
+        && (t.isArrowFunctionExpression(declaration) || t.isFunctionExpression(declaration))
+        && this.containsJSX(declaration)) {
+        return { name: 'Component', fn: declaration, statement };
+      }
+    }
+    return null;
+  }
+
+  private collectModule(component: ComponentFunction, propsTypeName?: string): void {
+    for (const statement of this.ast.program.body) {
+      if (statement === component.statement) continue;
+
+      if (t.isImportDeclaration(statement)) {
+        if (FRAMEWORK_SOURCES.includes(statement.source.value)) continue;
+        this.ir.imports.push(dependencyInfo(statement));
+        continue;
+      }
+
+      // `export default Component` after the declaration
+      if (t.isExportDefaultDeclaration(statement) && t.isIdentifier(statement.declaration)
+        && statement.declaration.name === component.name) {
+        continue;
+      }
+
+      const declaration = t.isExportNamedDeclaration(statement) && statement.declaration
+        ? statement.declaration
+        : statement;
+
+      if (this.collectContext(declaration, statement !== declaration)) continue;
+
+      const hook = t.isFunctionDeclaration(declaration) ? declaration.id?.name
+        : t.isVariableDeclaration(declaration) && t.isIdentifier(declaration.declarations[0]?.id)
+          && (t.isArrowFunctionExpression(declaration.declarations[0].init) || t.isFunctionExpression(declaration.declarations[0].init))
+          ? declaration.declarations[0].id.name : undefined;
+      if (hook && /^use[A-Z]/.test(hook)) {
+        this.warn(declaration, `Custom hook ${hook} is kept as written; rewrite it as a composable, rune module or service for the target`);
+      }
+
+      const isType = t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration);
+
+      // The props type is carried by the props themselves
+      if (isType && declaration.id.name === propsTypeName) {
+        if (statement !== declaration) this.ir.propsInterface = propsTypeName;
+        continue;
+      }
+
+      // Exported types stay exported; other exports are module-private in the target
+      this.ir.declarations.push(generateCode(isType ? statement : declaration));
+    }
+  }
+
+  // `const ThemeContext = createContext<Theme>('light')`
+  private collectContext(declaration: t.Node, exported: boolean): boolean {
+    if (!t.isVariableDeclaration(declaration) || declaration.declarations.length !== 1) return false;
+    const [declarator] = declaration.declarations;
+    const init = declarator.init;
+    if (!t.isIdentifier(declarator.id) || !t.isCallExpression(init) || !/(^|\.)createContext$/.test(generateCode(init.callee))) {
+      return false;
+    }
+
+    const initial = init.arguments[0];
+    this.ir.contexts.push({
+      name: declarator.id.name,
+      type: this.typeArgument(init),
+      ...(initial && !t.isIdentifier(initial, { name: 'undefined' }) ? { default: generateCode(initial) } : {}),
+      exported,
+      loc: sourcePosition(declarator)
+    });
+    return true;
+  }
+
+  // Returns the name of the props interface or type alias, if any
+  private collectProps(component: ComponentFunction): string | undefined {
+    const param = component.fn.params[0];
+    if (!param) return undefined;
+
+    const annotated = (t.isObjectPattern(param) || t.isIdentifier(param)) && t.isTSTypeAnnotation(param.typeAnnotation)
+      ? param.typeAnnotation.typeAnnotation
+      : component.propsType;
+    const propsTypeName = t.isTSTypeReference(annotated) && t.isIdentifier(annotated.typeName)
+      ? annotated.typeName.name
+      : undefined;
+    const types = propTypes(this.ast.program, annotated);
+
+    if (t.isObjectPattern(param)) {
+      for (const property of param.properties) {
+        if (t.isRestElement(property)) {
+          this.warn(property, 'Rest props are not represented in the IR; pass the remaining props explicitly');
+          continue;
+        }
+        if (!t.isIdentifier(property.key)) continue;
+
+        const name = property.key.name;
+        let defaultValue: string | undefined;
+
+        if (t.isAssignmentPattern(property.value)) {
+          defaultValue = generateCode(property.value.right);
+          if (t.isIdentifier(property.value.left) && property.value.left.name !== name) {
+            this.aliases.set(property.value.left.name, name);
+          }
+        } else if (t.isIdentifier(property.value) && property.value.name !== name) {
+          this.aliases.set(property.value.name, name);
+        }
+
+        this.addProp(name, types.get(name), sourcePosition(property), defaultValue);
+      }
+    } else if (t.isIdentifier(param)) {
+      this.propsParam = param.name;
+      const names = new Set(types.keys());
+
+      // Untyped props: collect the `props.x` reads
+      t.traverseFast(component.fn.body, node => {
+        if (t.isMemberExpression(node) && t.isIdentifier(node.object, { name: param.name })
+          && t.isIdentifier(node.property) && !node.computed) {
+          names.add(node.property.name);
+        }
+      });
+      names.forEach(name => this.addProp(name, types.get(name), sourcePosition(param)));
+    }
+
+    return propsTypeName;
+  }
+
+  private addProp(name: string, type: PropType | undefined, loc: SourcePosition | undefined, defaultValue?: string): void {
+    if (name === 'children') {
+      this.ir.slots.push({ name: 'default', params: [] });
+      this.slotProps.set(name, []);
+      return;
+    }
+
+    if (/^on[A-Z]/.test(name)) {
+      const event = kebabCase(name.slice(2));
+      const payloadType = type && /^\(\s*\w+\??:\s*(.+?)\s*(?:,|\) =>)/.exec(type.type)?.[1];
+      this.ir.events.push({ name: event, ...(payloadType ? { payloadType } : {}), loc });
+      this.eventProps.set(name, event);
+      return;
+    }
+
+    if (type && SLOT_TYPE.test(type.type)) {
+      this.ir.slots.push({ name, params: type.params });
+      this.slotProps.set(name, type.params);
+      return;
+    }
+
+    this.ir.props.push({
+      name,
+      type: type?.type,
+      required: type ? !type.optional && defaultValue === undefined : false,
+      ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+      ...(type?.description ? { description: type.description } : {}),
+      loc
+    });
+  }
+
+  // Collects hooks and locals; returns the rendered expression
+  private collectBody(fn: ComponentFunction['fn']): t.Expression | null {
+    if (!t.isBlockStatement(fn.body)) {
+      return fn.body;
+    }
+
+    const statements = fn.body.body;
+    const lastReturn = [...statements].reverse().find(
+      (statement): statement is t.ReturnStatement => t.isReturnStatement(statement)
+    );
+
+    // Names must be known before any code is lowered
+    for (const statement of statements) {
+      if (!t.isVariableDeclaration(statement)) continue;
+      for (const declarator of statement.declarations) {
+        const hook = this.hookName(declarator.init);
+        if (hook === 'useState' && t.isArrayPattern(declarator.id)) {
+          const [value, setter] = declarator.id.elements;
+          if (t.isIdentifier(value) && t.isIdentifier(setter)) {
+            this.setters.set(setter.name, value.name);
+          }
+        } else if (hook === 'useRef' && t.isIdentifier(declarator.id)) {
+          this.refNames.add(declarator.id.name);
+        }
+      }
+    }
+
+    for (const statement of statements) {
+      if (statement === lastReturn) continue;
+
+      if (t.isVariableDeclaration(statement)) {
+        statement.declarations.forEach(declarator => this.collectDeclarator(declarator, fn));
+      } else if (t.isFunctionDeclaration(statement) && statement.id) {
+        this.addMethod(statement.id.name, statement);
+      } else if (t.isExpressionStatement(statement) && this.isEffectCall(statement.expression)) {
+        this.collectEffect(statement.expression as t.CallExpression);
+      } else if (t.isExpressionStatement(statement) && this.hookName(statement.expression)) {
+        this.collectHookCall(statement.expression as t.CallExpression);
+      } else if (t.isIfStatement(statement) && this.containsJSX(statement)) {
+        this.warn(statement, 'Early return of JSX is not converted; move the condition into the template');
+      } else if (!t.isEmptyStatement(statement)) {
+        this.warn(statement, 'Statement in the component body is not represented in the IR and was dropped');
+      }
+    }
+
+    return lastReturn?.argument ?? null;
+  }
+
+  // A hook called for its side effects, like `useDocumentTitle(title)`
+  private collectHookCall(call: t.CallExpression, binding?: t.LVal): void {
+    const hook = this.hookName(call)!;
+    if (UNSUPPORTED_HOOKS[hook]) {
+      this.warn(call, `${hook} has no equivalent in other frameworks and was dropped; ${UNSUPPORTED_HOOKS[hook]}`);
+      return;
+    }
+    this.ir.composables.push({
+      callee: hook,
+      args: call.arguments.map(argument => this.lower(generateCode(argument))),
+      ...(binding ? { binding: this.patternSource(binding), names: Object.keys(t.getBindingIdentifiers(binding)) } : { names: [] }),
+      loc: sourcePosition(call)
+    });
+  }
+
+  // Binding patterns on one line: `{ count, increment }`
+  private patternSource(pattern: t.LVal): string {
+    return generateCode(pattern).replace(/\s*\n\s*/g, ' ');
+  }
+
+  private hookName(node: t.Node | null | undefined): string | null {
+    if (!t.isCallExpression(node)) return null;
+    if (t.isIdentifier(node.callee) && /^use[A-Z]/.test(node.callee.name)) {
+      return node.callee.name;
+    }
+    // React.useState(...)
+    if (t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property)
+      && /^use[A-Z]/.test(node.callee.property.name)) {
+      return node.callee.property.name;
+    }
+    return null;
+  }
+
+  private isEffectCall(node: t.Expression): boolean {
+    const hook = this.hookName(node);
+    return hook === 'useEffect' || hook === 'useLayoutEffect';
+  }
+
+  private typeArgument(call: t.CallExpression): string | undefined {
+    const param = call.typeParameters?.params[0];
+    return param ? generateCode(param) : undefined;
+  }
+
+  private collectDeclarator(declarator: t.VariableDeclarator, fn: ComponentFunction['fn']): void {
+    const init = declarator.init;
+    const hook = this.hookName(init);
+    const call = init as t.CallExpression;
+
+    if (hook === 'useState' && t.isArrayPattern(declarator.id)) {
+      const value = declarator.id.elements[0];
+      if (!t.isIdentifier(value)) return;
+
+      let initial = call.arguments[0] as t.Expression | undefined;
+      // useState(() => expensive()) takes a lazy initialiser
+      if (t.isArrowFunctionExpression(initial) && initial.params.length === 0 && t.isExpression(initial.body)) {
+        initial = initial.body;
+      }
+
+      this.ir.state.push({
+        name: value.name,
+        initial: initial ? this.lower(generateCode(initial)) : 'undefined',
+        type: this.typeArgument(call),
+        reactive: true,
+        loc: sourcePosition(declarator)
+      });
+      return;
+    }
+
+    // useReducer(reducer, initial) keeps its state and dispatches through the reducer
+    if (hook === 'useReducer' && t.isArrayPattern(declarator.id)) {
+      const [value, dispatch] = declarator.id.elements;
+      const [reducer, initialArg, init] = call.arguments as t.Expression[];
+      if (!t.isIdentifier(value) || !reducer || !initialArg) {
+        this.warn(declarator, 'useReducer must be destructured into [state, dispatch] to be represented in the IR');
+        return;
+      }
+
+      const initial = init ? t.callExpression(init, [initialArg]) : initialArg;
+      this.ir.state.push({
+        name: value.name,
+        initial: this.lower(generateCode(initial)),
+        reactive: true,
+        loc: sourcePosition(declarator)
+      });
+      if (t.isIdentifier(dispatch)) {
+        this.ir.methods.push({
+          name: dispatch.name,
+          params: ['action'],
+          body: `{\n  ${value.name} = ${this.lower(generateCode(reducer))}(${value.name}, action);\n}`,
+          async: false,
+          loc: sourcePosition(declarator)
+        });
+      }
+      return;
+    }
+
+    if (hook === 'useContext') {
+      const key = call.arguments[0];
+      if (!key) return;
+      const context = this.ir.contexts.find(entry => t.isIdentifier(key, { name: entry.name }));
+      this.ir.injections.push({
+        binding: this.patternSource(declarator.id as t.LVal),
+        names: Object.keys(t.getBindingIdentifiers(declarator.id)),
+        key: generateCode(key),
+        ...(context?.default !== undefined ? { default: context.default } : {}),
+        type: this.typeArgument(call) ?? context?.type,
+        loc: sourcePosition(declarator)
+      });
+      return;
+    }
+
+    if (hook && !/^use(State|Memo|Callback|Ref|Effect|LayoutEffect)$/.test(hook)) {
+      this.collectHookCall(call, declarator.id as t.LVal);
+      return;
+    }
+
+    if (!t.isIdentifier(declarator.id)) {
+      this.warn(declarator, 'Destructured declaration is not represented in the IR and was dropped');
+      return;
+    }
+    const name = declarator.id.name;
+
+    if (hook === 'useMemo') {
+      const factory = call.arguments[0];
+      if (t.isArrowFunctionExpression(factory) || t.isFunctionExpression(factory)) {
+        const expression = t.isExpression(factory.body)
+          ? generateCode(factory.body)
+          : `(() => ${generateCode(factory.body)})()`;
+        this.ir.derived.push({
+          name,
+          expression: this.lower(expression),
+          dependencies: [],
+          type: this.typeArgument(call),
+          loc: sourcePosition(declarator)
+        });
+      }
+      return;
+    }
+
+    if (hook === 'useCallback') {
+      const callback = call.arguments[0];
+      if (t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)) {
+        this.addMethod(name, callback, sourcePosition(declarator));
+      }
+      return;
+    }
+
+    if (hook === 'useRef') {
+      if (this.isElementRef(name, fn)) {
+        const type = this.typeArgument(call)?.replace(/\s*\|\s*null$/, '');
+        this.ir.refs.push(type ? { name, type, loc: sourcePosition(declarator) } : { name, loc: sourcePosition(declarator) });
+      } else {
+        const initial = call.arguments[0];
+        this.ir.state.push({
+          name,
+          initial: initial ? this.lower(generateCode(initial)) : 'undefined',
+          type: this.typeArgument(call),
+          reactive: false,
+          loc: sourcePosition(declarator)
+        });
+      }
+      return;
+    }
+
+    if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) {
+      this.addMethod(name, init, sourcePosition(declarator));
+    } else if (init) {
+      this.ir.derived.push({ name, expression: this.lower(generateCode(init)), dependencies: [], loc: sourcePosition(declarator) });
+    }
+  }
+
+  private isElementRef(name: string, fn: ComponentFunction['fn']): boolean {
+    let found = false;
+    t.traverseFast(fn, node => {
+      if (t.isJSXAttribute(node) && t.isJSXIdentifier(node.name, { name: 'ref' })
+        && t.isJSXExpressionContainer(node.value) && t.isIdentifier(node.value.expression, { name })) {
+        found = true;
+      }
+    });
+    return found;
+  }
+
+  private addMethod(name: string, fn: t.Function, loc = sourcePosition(fn)): void {
+    const method = methodFromFunction(name, fn, loc);
+
+    // `() => setCount(count + 1)` is a statement, not a returned value
+    if (!t.isBlockStatement(fn.body)) {
+      const expression = this.lower(generateCode(fn.body));
+      const isStatement = /^(\$emit\(|[\w.]+ [-+*/]?= )/.test(expression);
+      method.body = isStatement ? `{\n  ${expression};\n}` : `{\n  return ${expression};\n}`;
+    } else {
+      method.body = this.lower(method.body, 'block');
+    }
+
+    this.ir.methods.push(method);
+  }
+
+  private collectEffect(call: t.CallExpression): void {
+    const [callback, deps] = call.arguments;
+    if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)) {
+      this.warn(call, 'Effect callback must be an inline function');
+      return;
+    }
+
+    let cleanup: string | undefined;
+    let statements: t.Statement[] = t.isBlockStatement(callback.body)
+      ? [...callback.body.body]
+      : [t.expressionStatement(callback.body)];
+
+    const last = statements[statements.length - 1];
+    if (t.isReturnStatement(last) && last.argument) {
+      const returned = last.argument;
+      cleanup = t.isArrowFunctionExpression(returned) || t.isFunctionExpression(returned)
+        ? this.lower(statementBody(returned), 'block')
+        : this.lower(`{\n  ${generateCode(returned)}();\n}`, 'block');
+      statements = statements.slice(0, -1);
+    }
+
+    const body = this.lower(generateCode(t.blockStatement(statements)), 'block');
+    const dependencies = t.isArrayExpression(deps)
+      ? deps.elements.map(element => this.lower(generateCode(element!)))
+      : [];
+
+    const loc = sourcePosition(call);
+    const effect: IREffect = t.isArrayExpression(deps) && deps.elements.length === 0
+      ? { trigger: 'mount', body, cleanup, dependencies: [], loc }
+      : { trigger: 'change', body, cleanup, dependencies, loc };
+
+    // `useEffect(() => () => cleanup(), [])` only runs on unmount
+    if (effect.trigger === 'mount' && statements.length === 0 && cleanup) {
+      this.ir.effects.push({ trigger: 'unmount', body: cleanup, dependencies: [], loc });
+      return;
+    }
+    if (!effect.cleanup) delete effect.cleanup;
+    this.ir.effects.push(effect);
+  }
+
+  /**
+   * Rewrite React idioms into IR expressions: setter calls become
+   * assignments, callback props become `$emit`, `props.x` and `ref.current`
+   * become bare names.
+   */
+  private lower(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    if ([...this.setters.keys()].some(setter => code.includes(setter))) {
+      code = transformCode(code, kind, snapshotStateVisitor(this.setters));
+    }
+    const setters = this.setters;
+    const eventProps = this.eventProps;
+    const refNames = this.refNames;
+    const aliases = this.aliases;
+    const propsParam = this.propsParam;
+
+    const eventName = (callee: t.Node): string | undefined => {
+      if (t.isIdentifier(callee)) return eventProps.get(callee.name);
+      if (t.isMemberExpression(callee) && propsParam && t.isIdentifier(callee.object, { name: propsParam })
+        && t.isIdentifier(callee.property)) {
+        return eventProps.get(callee.property.name);
+      }
+      return undefined;
+    };
+
+    const emitCall = (event: string, args: t.CallExpression['arguments']) =>
+      t.callExpression(t.identifier('$emit'), [t.stringLiteral(event), ...args]);
+
+    return transformCode(code, kind, {
+      'CallExpression|OptionalCallExpression'(path: NodePath<t.CallExpression | t.OptionalCallExpression>) {
+        const { callee } = path.node;
+
+        if (t.isIdentifier(callee) && setters.has(callee.name) && !path.scope.hasBinding(callee.name, true)) {
+          const state = setters.get(callee.name)!;
+          const argument = path.get('arguments.0') as NodePath<t.Node>;
+
+          // setCount(c => c + 1) becomes count = count + 1
+          if ((argument.isArrowFunctionExpression() || argument.isFunctionExpression())
+            && argument.node.params.length === 1 && t.isIdentifier(argument.node.params[0])
+            && t.isExpression(argument.node.body)) {
+            argument.scope.rename(argument.node.params[0].name, state);
+            path.replaceWith(t.assignmentExpression('=', t.identifier(state), argument.node.body as t.Expression));
+          } else if (argument.isArrowFunctionExpression() || argument.isFunctionExpression()) {
+            path.replaceWith(t.assignmentExpression('=', t.identifier(state),
+              t.callExpression(argument.node, [t.identifier(state)])));
+          } else {
+            path.replaceWith(t.assignmentExpression('=', t.identifier(state),
+              (argument.node as t.Expression) ?? t.identifier('undefined')));
+          }
+          return;
+        }
+
+        const event = eventName(callee);
+        if (event && (!t.isIdentifier(callee) || !path.scope.hasBinding(callee.name, true))) {
+          path.replaceWith(emitCall(event, path.node.arguments));
+        }
+      },
+
+      'MemberExpression|OptionalMemberExpression'(path: NodePath<t.MemberExpression | t.OptionalMemberExpression>) {
+        const { object, property, computed } = path.node;
+        if (computed || !t.isIdentifier(property)) return;
+
+        // props.title becomes title
+        if (propsParam && t.isIdentifier(object, { name: propsParam }) && !path.scope.hasBinding(propsParam, true)) {
+          if (property.name === 'children' || !eventProps.has(property.name)) {
+            path.replaceWith(t.identifier(property.name));
+          }
+          return;
+        }
+
+        // inputRef.current becomes inputRef
+        if (t.isIdentifier(object) && refNames.has(object.name) && property.name === 'current'
+          && !path.scope.hasBinding(object.name, true)) {
+          path.replaceWith(t.identifier(object.name));
+        }
+      },
+
+      Identifier(path: NodePath<t.Identifier>) {
+        if (!isFreeReference(path)) return;
+        const { name } = path.node;
+
+        if (aliases.has(name)) {
+          replaceIdentifier(path, t.identifier(aliases.get(name)!));
+          return;
+        }
+
+        const isCallee = (t.isCallExpression(path.parent) || t.isOptionalCallExpression(path.parent))
+          && path.parent.callee === path.node;
+        if (isCallee) return;
+
+        // A setter passed as a callback: onChange={setValue}
+        if (setters.has(name)) {
+          replaceIdentifier(path, t.arrowFunctionExpression([t.identifier('value')],
+            t.assignmentExpression('=', t.identifier(setters.get(name)!), t.identifier('value'))));
+          return;
+        }
+
+        // A callback prop forwarded as a handler: onClick={onSelect}
+        if (eventProps.has(name)) {
+          replaceIdentifier(path, t.arrowFunctionExpression([t.restElement(t.identifier('args'))],
+            emitCall(eventProps.get(name)!, [t.spreadElement(t.identifier('args'))])));
+        }
+      }
+    } as any);
+  }
+
+  private convertRenderable(node: t.Node): IRNode[] {
+    if (t.isJSXElement(node) || t.isJSXFragment(node)) {
+      return this.convertJSX(node);
+    }
+    if (t.isParenthesizedExpression(node)) {
+      return this.convertRenderable(node.expression);
+    }
+    return this.convertExpressionChild(node as t.Expression);
+  }
+
+  private jsxName(name: t.JSXIdentifier | t.JSXMemberExpression | t.JSXNamespacedName): string {
+    if (t.isJSXIdentifier(name)) return name.name;
+    if (t.isJSXNamespacedName(name)) return `${name.namespace.name}:${name.name.name}`;
+    return `${this.jsxName(name.object)}.${name.property.name}`;
+  }
+
+  private isFragment(node: t.JSXElement): boolean {
+    const name = this.jsxName(node.openingElement.name);
+    return name === 'Fragment' || name === 'React.Fragment';
+  }
+
+  private convertJSX(node: t.JSXElement | t.JSXFragment): IRNode[] {
+    if (t.isJSXFragment(node) || this.isFragment(node)) {
+      return this.convertChildren(node.children);
+    }
+
+    const tag = this.jsxName(node.openingElement.name);
+    const component = /^[A-Z]/.test(tag) || tag.includes('.');
+    if (tag.endsWith('.Provider')) {
+      this.warn(node, `${tag} is kept as an element; other frameworks provide ${tag.slice(0, -'.Provider'.length)} from the providing component's script (provide(), setContext(), providers)`);
+    }
+    const element: IRElement = {
+      type: 'element',
+      tag,
+      component,
+      attributes: [],
+      events: [],
+      children: [],
+      slots: [],
+      loc: sourcePosition(node)
+    };
+
+    for (const attribute of node.openingElement.attributes) {
+      if (t.isJSXSpreadAttribute(attribute)) {
+        element.attributes.push({ kind: 'spread', expression: this.lower(generateCode(attribute.argument)) });
+        continue;
+      }
+      this.convertAttribute(attribute, element);
+    }
+
+    this.detectModel(element);
+    element.children = this.convertChildren(node.children);
+    return [element];
+  }
+
+  private convertAttribute(attribute: t.JSXAttribute, element: IRElement): void {
+    const name = t.isJSXNamespacedName(attribute.name)
+      ? `${attribute.name.namespace.name}:${attribute.name.name.name}`
+      : attribute.name.name;
+    const value = attribute.value;
+
+    if (name === 'key') return;
+
+    if (value === null || value === undefined) {
+      element.attributes.push({ kind: 'static', name: fromReactAttribute(name, element.component), value: true });
+      return;
+    }
+    if (t.isStringLiteral(value)) {
+      element.attributes.push({ kind: 'static', name: fromReactAttribute(name, element.component), value: value.value });
+      return;
+    }
+    if (!t.isJSXExpressionContainer(value) || t.isJSXEmptyExpression(value.expression)) {
+      if (t.isJSXElement(value) || t.isJSXFragment(value)) {
+        element.slots.push({ name, children: this.convertJSX(value) });
+      }
+      return;
+    }
+
+    const expression = value.expression;
+
+    if (name === 'ref') {
+      if (t.isIdentifier(expression)) {
+        element.ref = expression.name;
+      } else {
+        this.warn(attribute, 'Callback refs are not represented in the IR and were dropped');
+      }
+      return;
+    }
+
+    if (name === 'dangerouslySetInnerHTML') {
+      const html = t.isObjectExpression(expression)
+        ? expression.properties.find(p => t.isObjectProperty(p) && t.isIdentifier(p.key, { name: '__html' })) as t.ObjectProperty | undefined
+        : undefined;
+      element.attributes.push({
+        kind: 'bound',
+        name: 'innerHTML',
+        expression: this.lower(html ? generateCode(html.value) : `${generateCode(expression)}.__html`)
+      });
+      return;
+    }
+
+    if (/^on[A-Z]/.test(name)) {
+      const capture = name.endsWith('Capture');
+      const prop = capture ? name.slice(0, -'Capture'.length) : name;
+      element.events.push({
+        name: fromReactEvent(prop, element.tag, element.component),
+        handler: this.lower(generateCode(expression)),
+        modifiers: capture ? ['capture'] : []
+      });
+      return;
+    }
+
+    if (t.isStringLiteral(expression)) {
+      element.attributes.push({ kind: 'static', name: fromReactAttribute(name, element.component), value: expression.value });
+      return;
+    }
+
+    // JSX passed to a component prop is named slot content
+    if (element.component && (t.isJSXElement(expression) || t.isJSXFragment(expression))) {
+      element.slots.push({ name, children: this.convertJSX(expression) });
+      return;
+    }
+    if (element.component && (t.isArrowFunctionExpression(expression) || t.isFunctionExpression(expression))
+      && this.containsJSX(expression)) {
+      const slot = this.scopedSlot(name, expression);
+      if (slot) {
+        element.slots.push(slot);
+        return;
+      }
+    }
+
+    element.attributes.push({
+      kind: 'bound',
+      name: fromReactAttribute(name, element.component),
+      expression: this.lower(generateCode(expression))
+    });
+  }
+
+  private scopedSlot(name: string, fn: t.ArrowFunctionExpression | t.FunctionExpression): IRSlotContent | null {
+    const body = t.isBlockStatement(fn.body)
+      ? (fn.body.body.length === 1 && t.isReturnStatement(fn.body.body[0]) ? fn.body.body[0].argument : null)
+      : fn.body;
+    if (!body) return null;
+
+    const slot: IRSlotContent = { name, children: this.convertRenderable(body) };
+    if (fn.params.length > 0) {
+      slot.params = fn.params.map(param => generateCode(param)).join(', ');
+    }
+    return slot;
+  }
+
+  // value={x} onChange={e => setX(e.target.value)} is a two-way binding
+  private detectModel(element: IRElement): void {
+    if (element.component || !['input', 'textarea', 'select'].includes(element.tag)) return;
+
+    for (const property of ['value', 'checked']) {
+      const attribute = element.attributes.find(
+        (a): a is Extract<IRAttribute, { kind: 'bound' }> => a.kind === 'bound' && a.name === property
+      );
+      if (!attribute || !/^\w+$/.test(attribute.expression)) continue;
+
+      const pattern = new RegExp(`^\\(?(\\w+)\\)? => ${attribute.expression} = \\1\\.target\\.${property}$`);
+      const eventIndex = element.events.findIndex(
+        event => (event.name === 'input' || event.name === 'change') && pattern.test(event.handler)
+      );
+      if (eventIndex === -1) continue;
+
+      element.events.splice(eventIndex, 1);
+      element.attributes[element.attributes.indexOf(attribute)] = {
+        kind: 'model',
+        name: property,
+        expression: attribute.expression
+      };
+    }
+  }
+
+  private convertChildren(children: Array<t.JSXElement['children'][number]>): IRNode[] {
+    const nodes: IRNode[] = [];
+
+    for (const child of children) {
+      if (t.isJSXText(child)) {
+        const text = this.cleanJSXText(child.value);
+        if (text) nodes.push({ type: 'text', value: text });
+      } else if (t.isJSXExpressionContainer(child)) {
+        if (t.isJSXEmptyExpression(child.expression)) {
+          (child.expression.innerComments ?? []).forEach(comment => {
+            nodes.push({ type: 'comment', value: comment.value.trim() });
+          });
+        } else {
+          nodes.push(...this.convertExpressionChild(child.expression));
+        }
+      } else if (t.isJSXElement(child) || t.isJSXFragment(child)) {
+        nodes.push(...this.convertJSX(child));
+      } else {
+        this.warn(child, 'Spread children are not represented in the IR and were dropped');
+      }
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Collapse JSX text whitespace the way React does: lines are trimmed
+   * and blank lines are dropped, but spaces within a line are kept.
+   */
+  private cleanJSXText(text: string): string {
+    const lines = text.split(/\r\n|\n|\r/);
+    if (lines.length === 1) return text;
+
+    return lines
+      .map((line, index) => {
+        let cleaned = line.replace(/\t/g, ' ');
+        if (index !== 0) cleaned = cleaned.replace(/^[ ]+/, '');
+        if (index !== lines.length - 1) cleaned = cleaned.replace(/[ ]+$/, '');
+        return cleaned;
+      })
+      .filter(line => line.length > 0)
+      .join(' ');
+  }
+
+  private isEmpty(node: t.Node): boolean {
+    return t.isNullLiteral(node) || t.isBooleanLiteral(node) || t.isIdentifier(node, { name: 'undefined' });
+  }
+
+  private convertExpressionChild(expression: t.Expression): IRNode[] {
+    if (this.isEmpty(expression)) return [];
+
+    if (t.isStringLiteral(expression)) {
+      return [{ type: 'text', value: expression.value }];
+    }
+
+    if (t.isLogicalExpression(expression) && expression.operator === '&&' && this.containsJSX(expression.right)) {
+      return [{
+        type: 'if',
+        branches: [{ condition: this.lower(generateCode(expression.left)), children: this.convertRenderable(expression.right) }],
+        loc: sourcePosition(expression)
+      }];
+    }
+
+    if (t.isConditionalExpression(expression) && this.containsJSX(expression)) {
+      return [this.convertConditional(expression)];
+    }
+
+    if (t.isCallExpression(expression) && t.isMemberExpression(expression.callee)
+      && t.isIdentifier(expression.callee.property, { name: 'map' }) && this.containsJSX(expression)) {
+      const loop = this.convertMap(expression);
+      if (loop) return [loop];
+    }
+
+    const slot = this.slotOutlet(expression);
+    if (slot) return [slot];
+
+    if (this.containsJSX(expression)) {
+      this.warn(expression, 'JSX inside this expression is not converted; it is kept as an interpolation');
+    }
+    return [{ type: 'expression', expression: this.lower(generateCode(expression)) }];
+  }
+
+  private convertConditional(expression: t.ConditionalExpression): IRNode {
+    const branches: Array<{ condition?: string; children: IRNode[] }> = [];
+    const loc = sourcePosition(expression);
+    let current: t.Expression = expression;
+
+    while (t.isConditionalExpression(current)) {
+      const test = this.lower(generateCode(current.test));
+      if (this.isEmpty(current.consequent) && branches.length === 0) {
+        // cond ? null : <X /> renders X when cond is false
+        branches.push({ condition: `!(${test})`, children: this.convertRenderable(current.alternate) });
+        return { type: 'if', branches, loc };
+      }
+      branches.push({ condition: test, children: this.convertRenderable(current.consequent) });
+      current = current.alternate;
+    }
+
+    if (!this.isEmpty(current)) {
+      branches.push({ children: this.convertRenderable(current) });
+    }
+    return { type: 'if', branches, loc };
+  }
+
+  private convertMap(call: t.CallExpression): IRNode | null {
+    const callback = call.arguments[0];
+    if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)) return null;
+
+    let body: t.Node | null | undefined = callback.body;
+    if (t.isBlockStatement(body)) {
+      const returns = body.body.filter((s): s is t.ReturnStatement => t.isReturnStatement(s));
+      if (body.body.length > 1) {
+        this.warn(body, 'Statements before the returned JSX in a list callback are dropped');
+      }
+      body = returns[returns.length - 1]?.argument;
+    }
+    if (!body) return null;
+
+    const [item, index] = callback.params;
+    const keyNode = t.isJSXElement(body)
+      ? body.openingElement.attributes.find(
+        (a): a is t.JSXAttribute => t.isJSXAttribute(a) && t.isJSXIdentifier(a.name, { name: 'key' })
+      )
+      : undefined;
+    const key = t.isJSXExpressionContainer(keyNode?.value) && !t.isJSXEmptyExpression(keyNode!.value.expression)
+      ? this.lower(generateCode(keyNode!.value.expression))
+      : t.isStringLiteral(keyNode?.value) ? `'${keyNode!.value.value}'` : undefined;
+
+    return {
+      type: 'for',
+      source: this.lower(generateCode((call.callee as t.MemberExpression).object)),
+      item: item ? generateCode(item) : 'item',
+      ...(t.isIdentifier(index) ? { index: index.name } : {}),
+      ...(key ? { key } : {}),
+      children: this.convertRenderable(body),
+      loc: sourcePosition(call)
+    };
+  }
+
+  private slotOutlet(expression: t.Expression): IRNode | null {
+    const slotName = (node: t.Node): string | undefined => {
+      if (t.isIdentifier(node) && this.slotProps.has(node.name)) return node.name;
+      if (t.isMemberExpression(node) && this.propsParam && t.isIdentifier(node.object, { name: this.propsParam })
+        && t.isIdentifier(node.property) && this.slotProps.has(node.property.name)) {
+        return node.property.name;
+      }
+      return undefined;
+    };
+
+    const direct = slotName(expression);
+    if (direct) {
+      return {
+        type: 'slot',
+        name: direct === 'children' ? 'default' : direct,
+        props: [],
+        fallback: [],
+        loc: sourcePosition(expression)
+      };
+    }
+
+    // renderRow(item) calls a render prop
+    if ((t.isCallExpression(expression) || t.isOptionalCallExpression(expression)) && slotName(expression.callee)) {
+      const name = slotName(expression.callee)!;
+      const params = this.slotProps.get(name)!;
+      return {
+        type: 'slot',
+        name,
+        props: expression.arguments.map((argument, i) => ({
+          name: params[i] ?? `arg${i}`,
+          expression: this.lower(generateCode(argument))
+        })),
+        fallback: [],
+        loc: sourcePosition(expression)
+      };
+    }
+    return null;
+  }
+}
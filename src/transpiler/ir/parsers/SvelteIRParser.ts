@@ -0,0 +1,979 @@
+import { parse } from '@babel/parser';
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { SourcePosition } from '../../types';
+import { ComponentIR, IRElement, IRFor, IRIf, IRNode, IRParser, IRSlotContent } from '../types';
+import {
+  collapseWhitespace,
+  createComponentIR,
+  dependencyInfo,
+  dropPropsType,
+  jsDocDescription,
+  lineWarning,
+  literalType,
+  memberDependencies,
+  memberNames,
+  methodFromFunction,
+  PropType,
+  propTypes,
+  sourcePosition
+} from '../builders';
+import { componentName, isComponentTag } from '../dom';
+import { decodeEntities, getAttribute, MarkupAttribute, MarkupElement, MarkupNode, MarkupText, parseMarkup, splitBraceTags, textPosition } from '../markup';
+import {
+  camelCase,
+  freeReferences,
+  generateCode,
+  getterSource,
+  isFreeReference,
+  kebabCase,
+  parseSnippetExpression,
+  replaceIdentifier,
+  splitTypeParameters,
+  statementBody,
+  transformCode
+} from '../utils';
+
+// Svelte 4 `on:event|modifier` names and their IR equivalents
+const EVENT_MODIFIERS: Record<string, string> = {
+  preventDefault: 'prevent',
+  stopPropagation: 'stop',
+  once: 'once',
+  self: 'self',
+  capture: 'capture'
+};
+
+// Directives with no counterpart in the IR
+const UNSUPPORTED_DIRECTIVES = /^(use|transition|in|out|animate):/;
+
+// Special elements that are dropped with a warning
+const UNSUPPORTED_ELEMENTS = new Set([
+  'svelte:head', 'svelte:window', 'svelte:body', 'svelte:document', 'svelte:self', 'svelte:component', 'svelte:element'
+]);
+
+/**
+ * An open `{#block}` while reading a child list; `children` is where nodes
+ * go until the next branch tag or the closing tag.
+ */
+interface TemplateBlock {
+  kind: 'if' | 'each' | 'key' | 'await' | 'snippet';
+  children: IRNode[];
+  // The list the block itself was added to
+  parent: IRNode[];
+  node?: IRIf | IRFor;
+  fallback?: IRNode[];
+  slot?: IRSlotContent;
+}
+
+/**
+ * Lowers a Svelte component into the IR. Svelte 4 (`export let`, `$:`,
+ * `createEventDispatcher`) and Svelte 5 runes (`$props`, `$state`,
+ * `$derived`, `$effect`) are both read.
+ */
+export class SvelteIRParser implements IRParser {
+  private ir!: ComponentIR;
+  private ast!: t.File;
+  // `<script module>` statements, which the instance script can reference
+  private moduleStatements: t.Statement[] = [];
+  // `const Key = Symbol()` declarations of the module script, by name
+  private symbolKeys = new Map<string, { declaration: string; exported: boolean; loc?: SourcePosition }>();
+  private runes = false;
+  private dispatchers = new Set<string>();
+  private eventProps = new Map<string, string>();
+  private templateRefs = new Set<string>();
+  private propsTypeName?: string;
+
+  parse(code: string): ComponentIR {
+    this.ir = createComponentIR();
+    this.runes = false;
+    this.dispatchers = new Set();
+    this.eventProps = new Map();
+    this.templateRefs = new Set();
+    this.propsTypeName = undefined;
+    this.moduleStatements = [];
+    this.symbolKeys = new Map();
+
+    const nodes = parseMarkup(code, { braceExpressions: true });
+    const isBlock = (node: MarkupNode, tag: string): node is MarkupElement => node.type === 'element' && node.tag === tag;
+    const scripts = nodes.filter((node): node is MarkupElement => isBlock(node, 'script'));
+    const moduleScript = scripts.find(script => getAttribute(script, 'module') || getAttribute(script, 'context')?.value === 'module');
+    const instanceScript = scripts.find(script => script !== moduleScript);
+    const markup = nodes.filter(node => !isBlock(node, 'script') && !isBlock(node, 'style'));
+
+    this.collectTemplateRefs(markup);
+    this.ir.typescript = scripts.some(script => getAttribute(script, 'lang')?.value === 'ts');
+
+    if (moduleScript) {
+      this.parseModuleScript(moduleScript);
+    }
+    if (instanceScript) {
+      const generics = getAttribute(instanceScript, 'generics')?.value;
+      if (generics) this.ir.typeParameters = splitTypeParameters(generics);
+      this.parseInstanceScript(instanceScript);
+      if (this.propsTypeName) dropPropsType(this.ir, this.propsTypeName);
+      this.collectContextKeys();
+    }
+
+    nodes.filter((node): node is MarkupElement => isBlock(node, 'style')).forEach(style => {
+      const lang = getAttribute(style, 'lang')?.value;
+      // Svelte scopes component styles by default
+      this.ir.styles.push({ content: this.scriptText(style).trim(), scoped: true, ...(lang ? { lang } : {}) });
+    });
+
+    this.ir.template = this.convertNodes(markup);
+
+    this.ir.derived.forEach(derived => {
+      derived.dependencies = memberDependencies(this.ir, derived.expression);
+    });
+    this.ir.effects.forEach(effect => {
+      if (effect.trigger === 'change' && effect.dependencies.length === 0) {
+        effect.dependencies = memberDependencies(this.ir, effect.body, 'block');
+      }
+    });
+
+    return this.ir;
+  }
+
+  private warn(line: number | undefined, message: string): void {
+    this.ir.warnings.push(lineWarning(line, message));
+  }
+
+  private scriptText(block: MarkupElement): string {
+    return block.children.map(child => (child as MarkupText).value ?? '').join('');
+  }
+
+  private parseScript(block: MarkupElement): t.File {
+    return parse(this.scriptText(block), {
+      sourceType: 'module',
+      plugins: ['typescript'],
+      startLine: block.children[0]?.line ?? block.line,
+      startColumn: block.children[0]?.column ?? block.column
+    });
+  }
+
+  private collectTemplateRefs(nodes: MarkupNode[]): void {
+    nodes.forEach(node => {
+      if (node.type !== 'element') return;
+      const ref = getAttribute(node, 'bind:this');
+      if (ref?.value) this.templateRefs.add(ref.value);
+      this.collectTemplateRefs(node.children);
+    });
+  }
+
+  private parseModuleScript(block: MarkupElement): void {
+    this.moduleStatements = this.parseScript(block).program.body;
+    for (const statement of this.moduleStatements) {
+      if (t.isImportDeclaration(statement)) {
+        if (!this.isSvelteImport(statement)) this.ir.imports.push(dependencyInfo(statement));
+      } else {
+        const declaration = t.isExportNamedDeclaration(statement) && statement.declaration ? statement.declaration : statement;
+        // Exported types stay exported; other exports are module-private in the target
+        const isType = t.isTSInterfaceDeclaration(declaration) || t.isTSTypeAliasDeclaration(declaration);
+        const code = generateCode(isType ? statement : declaration);
+        this.ir.declarations.push(code);
+
+        const [declarator] = t.isVariableDeclaration(declaration) ? declaration.declarations : [];
+        if (t.isIdentifier(declarator?.id) && this.runeName(declarator.init) === 'Symbol') {
+          this.symbolKeys.set(declarator.id.name, { declaration: code, exported: statement !== declaration, loc: sourcePosition(declarator) });
+        }
+      }
+    }
+  }
+
+  // Symbols the module declares and the component reads a context with are context keys
+  private collectContextKeys(): void {
+    this.ir.injections.forEach(injection => {
+      const key = this.symbolKeys.get(injection.key);
+      if (!key || this.ir.contexts.some(context => context.name === injection.key)) return;
+      this.ir.declarations = this.ir.declarations.filter(declaration => declaration !== key.declaration);
+      this.ir.contexts.push({
+        name: injection.key,
+        ...(injection.type ? { type: injection.type } : {}),
+        ...(injection.default !== undefined ? { default: injection.default } : {}),
+        exported: key.exported,
+        loc: key.loc
+      });
+    });
+  }
+
+  private isSvelteImport(statement: t.ImportDeclaration): boolean {
+    return /^svelte(\/|$)/.test(statement.source.value);
+  }
+
+  // `$state`, `$derived.by` and other rune calls
+  private runeName(node: t.Node | null | undefined): string | undefined {
+    if (!t.isCallExpression(node)) return undefined;
+    const { callee } = node;
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.object) && t.isIdentifier(callee.property)) {
+      return `${callee.object.name}.${callee.property.name}`;
+    }
+    return undefined;
+  }
+
+  private parseInstanceScript(block: MarkupElement): void {
+    this.ast = this.parseScript(block);
+    const statements = this.ast.program.body;
+
+    // Names must be known before any code is lowered
+    for (const statement of statements) {
+      if (!t.isVariableDeclaration(statement)) continue;
+      for (const declarator of statement.declarations) {
+        const rune = this.runeName(declarator.init);
+        if (rune === 'createEventDispatcher' && t.isIdentifier(declarator.id)) {
+          this.dispatchers.add(declarator.id.name);
+        }
+        if (rune && /^\$(props|state|derived)/.test(rune)) {
+          this.runes = true;
+        }
+        if (rune === '$props' && t.isObjectPattern(declarator.id)) {
+          const annotation = declarator.id.typeAnnotation;
+          if (t.isTSTypeAnnotation(annotation) && t.isTSTypeReference(annotation.typeAnnotation)
+            && t.isIdentifier(annotation.typeAnnotation.typeName)) {
+            this.propsTypeName = annotation.typeAnnotation.typeName.name;
+          }
+          declarator.id.properties.forEach(property => {
+            if (t.isObjectProperty(property) && t.isIdentifier(property.key) && /^on[A-Z]/.test(property.key.name)) {
+              this.eventProps.set(property.key.name, kebabCase(property.key.name.slice(2)));
+            }
+          });
+        }
+      }
+    }
+
+    for (const statement of statements) {
+      const line = statement.loc?.start.line;
+
+      if (t.isImportDeclaration(statement)) {
+        if (!this.isSvelteImport(statement)) this.ir.imports.push(dependencyInfo(statement));
+      } else if (t.isExportNamedDeclaration(statement) && t.isVariableDeclaration(statement.declaration)) {
+        const description = jsDocDescription(statement);
+        statement.declaration.declarations.forEach(declarator =>
+          this.collectExportedProp(declarator, statement.declaration as t.VariableDeclaration, description));
+      } else if (t.isVariableDeclaration(statement)) {
+        statement.declarations.forEach(declarator => this.collectDeclarator(declarator, statement));
+      } else if (t.isFunctionDeclaration(statement) && statement.id) {
+        this.addMethod(statement.id.name, statement);
+      } else if (t.isLabeledStatement(statement) && statement.label.name === '$') {
+        this.collectReactiveStatement(statement.body);
+      } else if (t.isExpressionStatement(statement) && t.isCallExpression(statement.expression)) {
+        this.collectCall(statement.expression);
+      } else if (t.isTSInterfaceDeclaration(statement) || t.isTSTypeAliasDeclaration(statement)) {
+        // The props type is regenerated from the IR props
+        if (statement.id.name !== this.propsTypeName) this.ir.declarations.push(generateCode(statement));
+      } else {
+        this.warn(line, 'Statement in <script> is not represented in the IR and was dropped');
+      }
+    }
+  }
+
+  private annotation(id: t.LVal): string | undefined {
+    const annotation = (id as t.Identifier).typeAnnotation;
+    return t.isTSTypeAnnotation(annotation) ? generateCode(annotation.typeAnnotation) : undefined;
+  }
+
+  // export let title: string = 'Untitled'
+  private collectExportedProp(declarator: t.VariableDeclarator, declaration: t.VariableDeclaration, description?: string): void {
+    if (!t.isIdentifier(declarator.id)) return;
+    const { name } = declarator.id;
+
+    if (declaration.kind !== 'let') {
+      this.warn(declarator.loc?.start.line, `Exported ${declaration.kind} ${name} is a read-only accessor; it is kept as a module constant`);
+      this.ir.declarations.push(generateCode(t.variableDeclaration(declaration.kind, [declarator])));
+      return;
+    }
+
+    this.ir.props.push({
+      name,
+      type: this.annotation(declarator.id) ?? literalType(declarator.init),
+      required: !declarator.init,
+      ...(declarator.init ? { default: generateCode(declarator.init) } : {}),
+      ...(description ? { description } : {}),
+      loc: sourcePosition(declarator)
+    });
+  }
+
+  private collectDeclarator(declarator: t.VariableDeclarator, statement: t.VariableDeclaration): void {
+    const init = declarator.init;
+    const rune = this.runeName(init);
+    const call = init as t.CallExpression;
+    const line = declarator.loc?.start.line;
+    const loc = sourcePosition(declarator);
+
+    if (rune === 'createEventDispatcher') {
+      this.collectDispatcherEvents(call);
+      return;
+    }
+
+    if (rune === '$props') {
+      if (t.isObjectPattern(declarator.id)) {
+        this.collectPropsDestructure(declarator.id);
+      } else {
+        this.warn(line, '$props() must be destructured to be represented in the IR');
+      }
+      return;
+    }
+
+    // getContext(key), or getContext(key) ?? fallback
+    const context = t.isLogicalExpression(init, { operator: '??' }) ? init.left : init;
+    if (this.runeName(context) === 'getContext' && (context as t.CallExpression).arguments[0]) {
+      const getContext = context as t.CallExpression;
+      const typeArgument = getContext.typeParameters?.params[0];
+      this.ir.injections.push({
+        binding: generateCode(declarator.id).replace(/\s*\n\s*/g, ' '),
+        names: Object.keys(t.getBindingIdentifiers(declarator.id)),
+        key: generateCode(getContext.arguments[0]),
+        ...(t.isLogicalExpression(init) ? { default: this.lower(generateCode(init.right)) } : {}),
+        type: typeArgument ? generateCode(typeArgument) : this.annotation(declarator.id as t.LVal),
+        loc
+      });
+      return;
+    }
+
+    if (rune && /^use[A-Z]/.test(rune)) {
+      this.ir.composables.push({
+        callee: rune,
+        args: call.arguments.map(argument => this.lower(generateCode(argument))),
+        binding: generateCode(declarator.id).replace(/\s*\n\s*/g, ' '),
+        names: Object.keys(t.getBindingIdentifiers(declarator.id)),
+        loc
+      });
+      return;
+    }
+
+    if (!t.isIdentifier(declarator.id)) {
+      this.warn(line, 'Destructured declaration is not represented in the IR and was dropped');
+      return;
+    }
+    const name = declarator.id.name;
+    const type = this.annotation(declarator.id);
+
+    if (rune === '$state' || rune === '$state.raw') {
+      const initial = call.arguments[0];
+      this.ir.state.push({ name, initial: initial ? this.lower(generateCode(initial)) : 'undefined', type, reactive: true, loc });
+      return;
+    }
+
+    if (rune === '$derived' || rune === '$derived.by') {
+      const argument = call.arguments[0];
+      const expression = rune === '$derived.by' && (t.isArrowFunctionExpression(argument) || t.isFunctionExpression(argument))
+        ? getterSource(argument)
+        : generateCode(argument ?? t.identifier('undefined'));
+      this.ir.derived.push({ name, expression: this.lower(expression), dependencies: [], type, loc });
+      return;
+    }
+
+    if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) {
+      this.addMethod(name, init, loc);
+      return;
+    }
+
+    if (this.templateRefs.has(name)) {
+      const elementType = type?.replace(/\s*\|\s*(null|undefined)$/, '');
+      this.ir.refs.push(elementType ? { name, type: elementType, loc } : { name, loc });
+      return;
+    }
+
+    if (statement.kind === 'let') {
+      // Top-level `let` is reactive in Svelte 4 but not in runes mode
+      this.ir.state.push({
+        name,
+        initial: init ? this.lower(generateCode(init)) : 'undefined',
+        type,
+        reactive: !this.runes,
+        loc
+      });
+      return;
+    }
+
+    // Constants that don't touch the component can live at module level
+    const members = memberNames(this.ir);
+    if (!init || !freeReferences(generateCode(init)).some(reference => members.has(reference))) {
+      this.ir.declarations.push(generateCode(t.variableDeclaration('const', [declarator])));
+    } else {
+      this.ir.derived.push({ name, expression: this.lower(generateCode(init)), dependencies: [], type, loc });
+    }
+  }
+
+  // createEventDispatcher<{ select: Item; close: void }>()
+  private collectDispatcherEvents(call: t.CallExpression): void {
+    const typeArgument = call.typeParameters?.params[0];
+    if (!t.isTSTypeLiteral(typeArgument)) return;
+
+    for (const member of typeArgument.members) {
+      if (!t.isTSPropertySignature(member)) continue;
+      const name = t.isIdentifier(member.key) ? member.key.name : t.isStringLiteral(member.key) ? member.key.value : null;
+      if (!name) continue;
+      const payload = member.typeAnnotation?.typeAnnotation;
+      const payloadType = payload && !t.isTSVoidKeyword(payload) && !t.isTSNullKeyword(payload) ? generateCode(payload) : undefined;
+      this.ir.events.push({ name: kebabCase(name), ...(payloadType ? { payloadType } : {}), loc: sourcePosition(member) });
+    }
+  }
+
+  // let { title, count = 0, onSelect, children }: Props = $props()
+  private collectPropsDestructure(pattern: t.ObjectPattern): void {
+    const scope = t.program([...this.moduleStatements, ...this.ast.program.body]);
+    const types = propTypes(scope, t.isTSTypeAnnotation(pattern.typeAnnotation) ? pattern.typeAnnotation.typeAnnotation : null);
+
+    for (const property of pattern.properties) {
+      if (t.isRestElement(property)) {
+        this.warn(property.loc?.start.line, 'Rest props are not represented in the IR and were dropped');
+        continue;
+      }
+      if (!t.isIdentifier(property.key)) continue;
+
+      const name = property.key.name;
+      const defaultValue = t.isAssignmentPattern(property.value) ? generateCode(property.value.right) : undefined;
+      const local = t.isAssignmentPattern(property.value) ? property.value.left : property.value;
+      if (t.isIdentifier(local) && local.name !== name) {
+        this.warn(property.loc?.start.line, `Prop ${name} is renamed to ${local.name}; the IR uses the prop name`);
+      }
+      this.addProp(name, types.get(name), sourcePosition(property), defaultValue);
+    }
+  }
+
+  private addProp(name: string, type: PropType | undefined, loc: SourcePosition | undefined, defaultValue?: string): void {
+    if (this.eventProps.has(name)) {
+      const payloadType = type && /^\(\s*\w+\??:\s*(.+?)\s*(?:,|\) =>)/.exec(type.type)?.[1];
+      const event = this.eventProps.get(name)!;
+      this.ir.events.push({ name: event, ...(payloadType ? { payloadType } : {}), loc });
+      return;
+    }
+
+    // children and other snippet props are slots
+    if (name === 'children' || (type && /\bSnippet\b/.test(type.type))) {
+      this.ir.slots.push({ name: name === 'children' ? 'default' : name, params: type ? this.snippetParams(type.type) : [] });
+      return;
+    }
+
+    this.ir.props.push({
+      name,
+      type: type?.type,
+      required: type ? !type.optional && defaultValue === undefined : false,
+      ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+      ...(type?.description ? { description: type.description } : {}),
+      loc
+    });
+  }
+
+  // Snippet<[item: Item, index: number]> takes item and index
+  private snippetParams(type: string): string[] {
+    const tuple = /Snippet<\s*\[([\s\S]*)\]\s*>/.exec(type)?.[1];
+    if (!tuple?.trim()) return [];
+    return tuple.split(',').map((member, index) => /^\s*(\w+)\??\s*:/.exec(member)?.[1] ?? `arg${index}`);
+  }
+
+  // $: doubled = count * 2 is derived; other reactive statements are effects
+  private collectReactiveStatement(body: t.Statement): void {
+    if (t.isExpressionStatement(body) && t.isAssignmentExpression(body.expression, { operator: '=' })
+      && t.isIdentifier(body.expression.left)) {
+      const name = body.expression.left.name;
+      const state = this.ir.state.findIndex(entry => entry.name === name);
+      if (state !== -1) this.ir.state.splice(state, 1);
+      this.ir.derived.push({
+        name,
+        expression: this.lower(generateCode(body.expression.right)),
+        dependencies: [],
+        loc: sourcePosition(body)
+      });
+      return;
+    }
+
+    const block = t.isBlockStatement(body) ? body : t.blockStatement([body]);
+    this.ir.effects.push({ trigger: 'change', body: this.lower(generateCode(block), 'block'), dependencies: [], loc: sourcePosition(body) });
+  }
+
+  private collectCall(call: t.CallExpression): void {
+    const rune = this.runeName(call);
+    const line = call.loc?.start.line;
+    const loc = sourcePosition(call);
+    const callback = call.arguments[0];
+
+    if (rune && /^use[A-Z]/.test(rune)) {
+      this.ir.composables.push({ callee: rune, args: call.arguments.map(argument => this.lower(generateCode(argument))), names: [], loc });
+      return;
+    }
+
+    if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)) {
+      this.warn(line, `${rune ?? 'Call'}() is not represented in the IR and was dropped`);
+      return;
+    }
+
+    if (rune === 'onMount' || rune === '$effect' || rune === '$effect.pre') {
+      const { body, cleanup } = this.splitCleanup(callback);
+      const trigger = rune === 'onMount' ? 'mount' : 'change';
+      this.ir.effects.push({ trigger, body, ...(cleanup ? { cleanup } : {}), dependencies: [], loc });
+    } else if (rune === 'onDestroy') {
+      this.ir.effects.push({ trigger: 'unmount', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc });
+    } else if (rune === 'afterUpdate' || rune === 'beforeUpdate') {
+      this.ir.effects.push({ trigger: 'change', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc });
+    } else {
+      this.warn(line, `${rune ?? 'Call'}() is not represented in the IR and was dropped`);
+    }
+  }
+
+  // onMount and $effect may return a cleanup function
+  private splitCleanup(fn: t.ArrowFunctionExpression | t.FunctionExpression): { body: string; cleanup?: string } {
+    if (!t.isBlockStatement(fn.body)) {
+      return { body: this.lower(statementBody(fn), 'block') };
+    }
+
+    const statements = [...fn.body.body];
+    const last = statements[statements.length - 1];
+    if (t.isReturnStatement(last) && (t.isArrowFunctionExpression(last.argument) || t.isFunctionExpression(last.argument))) {
+      return {
+        body: this.lower(generateCode(t.blockStatement(statements.slice(0, -1))), 'block'),
+        cleanup: this.lower(statementBody(last.argument), 'block')
+      };
+    }
+    return { body: this.lower(generateCode(fn.body), 'block') };
+  }
+
+  private addMethod(name: string, fn: t.Function, loc = sourcePosition(fn)): void {
+    const method = methodFromFunction(name, fn, loc);
+    method.body = this.lower(method.body, 'block');
+    this.ir.methods.push(method);
+  }
+
+  /**
+   * Rewrite Svelte idioms into IR expressions: `dispatch(...)` and callback
+   * prop calls become `$emit(...)`.
+   */
+  private lower(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    const { dispatchers, eventProps } = this;
+
+    const emitCall = (event: t.Expression, args: t.CallExpression['arguments']) =>
+      t.callExpression(t.identifier('$emit'), [event, ...args]);
+
+    return transformCode(code, kind, {
+      'CallExpression|OptionalCallExpression'(path: NodePath<t.CallExpression | t.OptionalCallExpression>) {
+        const { callee } = path.node;
+        if (!t.isIdentifier(callee) || path.scope.hasBinding(callee.name, true)) return;
+
+        if (dispatchers.has(callee.name)) {
+          const [event, ...args] = path.node.arguments;
+          const name = t.isStringLiteral(event) ? t.stringLiteral(kebabCase(event.value)) : event as t.Expression;
+          path.replaceWith(emitCall(name, args));
+        } else if (eventProps.has(callee.name)) {
+          path.replaceWith(emitCall(t.stringLiteral(eventProps.get(callee.name)!), path.node.arguments));
+        }
+      },
+
+      Identifier(path: NodePath<t.Identifier>) {
+        const { name } = path.node;
+        if (!eventProps.has(name) || !isFreeReference(path)) return;
+        const isCallee = (t.isCallExpression(path.parent) || t.isOptionalCallExpression(path.parent))
+          && path.parent.callee === path.node;
+        if (isCallee) return;
+
+        // A callback prop forwarded as a handler: onclick={onSelect}
+        replaceIdentifier(path, t.arrowFunctionExpression([t.restElement(t.identifier('args'))],
+          emitCall(t.stringLiteral(eventProps.get(name)!), [t.spreadElement(t.identifier('args'))])));
+      }
+    } as any);
+  }
+
+  /**
+   * Convert a child list. Svelte blocks (`{#if}`, `{#each}`) open and close
+   * inside text, so they are tracked on a stack while reading siblings.
+   */
+  private convertNodes(nodes: MarkupNode[], parent?: IRElement): IRNode[] {
+    const root: IRNode[] = [];
+    const stack: TemplateBlock[] = [];
+    const target = () => (stack.length ? stack[stack.length - 1].children : root);
+
+    for (const node of nodes) {
+      if (node.type === 'comment') {
+        target().push({ type: 'comment', value: node.value });
+      } else if (node.type === 'element') {
+        target().push(...this.convertElement(node));
+      } else {
+        for (const segment of splitBraceTags(node.value)) {
+          if (segment.type === 'text') {
+            target().push({ type: 'text', value: segment.value });
+          } else {
+            this.convertTag(segment.value, textPosition(node, segment.start), stack, target(), parent);
+          }
+        }
+      }
+    }
+
+    if (stack.length > 0) {
+      this.warn(nodes[0]?.line, `Unclosed {#${stack[stack.length - 1].kind}} block`);
+      while (stack.length) this.closeBlock(stack.pop()!);
+    }
+
+    return collapseWhitespace(root);
+  }
+
+  private convertTag(tag: string, loc: SourcePosition, stack: TemplateBlock[], target: IRNode[], parent?: IRElement): void {
+    const top = stack[stack.length - 1];
+    const { line } = loc;
+
+    if (tag.startsWith('#if ')) {
+      const node: IRIf = { type: 'if', branches: [{ condition: this.lower(tag.slice(4).trim()), children: [] }], loc };
+      target.push(node);
+      stack.push({ kind: 'if', node, children: node.branches[0].children, parent: target });
+    } else if (tag.startsWith('#each ')) {
+      const node = this.parseEach(tag.slice(6).trim(), loc);
+      target.push(node);
+      stack.push({ kind: 'each', node, children: node.children, parent: target });
+    } else if (tag.startsWith('#key ')) {
+      this.warn(line, '{#key} blocks are rendered without re-keying');
+      stack.push({ kind: 'key', children: target, parent: target });
+    } else if (tag.startsWith('#await ')) {
+      this.warn(line, '{#await} blocks are not supported and were dropped');
+      stack.push({ kind: 'await', children: [], parent: target });
+    } else if (tag.startsWith('#snippet ')) {
+      stack.push(this.openSnippet(tag.slice(9).trim(), line, target, parent));
+    } else if (tag.startsWith(':else')) {
+      const condition = /^:else\s+if\s+([\s\S]+)$/.exec(tag)?.[1];
+      if (top?.kind === 'if') {
+        const branch = { ...(condition ? { condition: this.lower(condition.trim()) } : {}), children: [] as IRNode[] };
+        (top.node as IRIf).branches.push(branch);
+        top.children = branch.children;
+      } else if (top?.kind === 'each') {
+        top.fallback = [];
+        top.children = top.fallback;
+      } else if (top?.kind !== 'await') {
+        this.warn(line, '{:else} without a matching block');
+      }
+    } else if (tag.startsWith(':then') || tag.startsWith(':catch')) {
+      if (top?.kind === 'await') top.children = [];
+    } else if (tag.startsWith('/')) {
+      const kind = tag.slice(1).trim();
+      if (top?.kind !== kind) {
+        this.warn(line, `{/${kind}} does not close an open block`);
+        return;
+      }
+      this.closeBlock(stack.pop()!);
+    } else if (tag.startsWith('@html ')) {
+      const expression = this.lower(tag.slice(6).trim());
+      if (parent && !parent.component) {
+        parent.attributes.push({ kind: 'bound', name: 'innerHTML', expression });
+      } else {
+        this.warn(line, '{@html} outside an element is rendered as text');
+        target.push({ type: 'expression', expression });
+      }
+    } else if (tag.startsWith('@render ')) {
+      target.push(this.renderOutlet(tag.slice(8).trim(), loc));
+    } else if (tag.startsWith('@')) {
+      this.warn(line, `{${tag.split(/\s/)[0]}} is not supported and was dropped`);
+    } else {
+      target.push({ type: 'expression', expression: this.lower(tag) });
+    }
+  }
+
+  private closeBlock(block: TemplateBlock): void {
+    if (block.node?.type === 'if') {
+      block.node.branches.forEach(branch => {
+        branch.children = collapseWhitespace(branch.children);
+      });
+    } else if (block.node?.type === 'for') {
+      const loop = block.node;
+      loop.children = collapseWhitespace(loop.children);
+
+      // {#each}...{:else}...{/each} renders the else content for empty lists
+      if (block.fallback) {
+        const index = block.parent.indexOf(loop);
+        block.parent[index] = {
+          type: 'if',
+          branches: [
+            { condition: `${loop.source}.length`, children: [loop] },
+            { children: collapseWhitespace(block.fallback) }
+          ],
+          loc: loop.loc
+        };
+      }
+    } else if (block.slot) {
+      block.slot.children = collapseWhitespace(block.slot.children);
+    }
+  }
+
+  // items as item, i (item.id)
+  private parseEach(value: string, loc: SourcePosition): IRFor {
+    const match = /^([\s\S]+?)\s+as\s+([\s\S]+)$/.exec(value);
+    if (!match) {
+      this.warn(loc.line, `Unrecognised {#each} expression "${value}"`);
+      return { type: 'for', source: this.lower(value), item: 'item', children: [], loc };
+    }
+
+    let aliases = match[2].trim();
+    let key: string | undefined;
+    if (aliases.endsWith(')')) {
+      let depth = 0;
+      for (let i = aliases.length - 1; i >= 0; i--) {
+        if (aliases[i] === ')') depth++;
+        if (aliases[i] === '(' && --depth === 0) {
+          key = aliases.slice(i + 1, -1).trim();
+          aliases = aliases.slice(0, i).trim();
+          break;
+        }
+      }
+    }
+
+    const params = (parseSnippetExpression(`(${aliases}) => 0`) as t.ArrowFunctionExpression).params;
+    const index = params[1];
+    return {
+      type: 'for',
+      source: this.lower(match[1].trim()),
+      item: generateCode(params[0]),
+      ...(t.isIdentifier(index) ? { index: index.name } : {}),
+      ...(key ? { key: this.lower(key) } : {}),
+      children: [],
+      loc
+    };
+  }
+
+  // {#snippet row(item)} inside a component is slot content
+  private openSnippet(signature: string, line: number, target: IRNode[], parent?: IRElement): TemplateBlock {
+    const match = /^([\w$]+)\s*\(([\s\S]*)\)$/.exec(signature);
+    if (!match || !parent?.component) {
+      this.warn(line, 'Snippets outside component content are not supported and were dropped');
+      return { kind: 'snippet', children: [], parent: target };
+    }
+
+    const slot: IRSlotContent = { name: match[1] === 'children' ? 'default' : match[1], children: [] };
+    if (match[2].trim()) slot.params = this.snippetPattern(match[2]);
+    parent.slots.push(slot);
+    return { kind: 'snippet', children: slot.children, parent: target, slot };
+  }
+
+  // Positional snippet parameters match slot props by name: (item, index) => { item, index }
+  private snippetPattern(params: string): string {
+    const nodes = (parseSnippetExpression(`(${params}) => 0`) as t.ArrowFunctionExpression).params;
+    if (nodes.length === 1 && t.isObjectPattern(nodes[0])) {
+      return generateCode(nodes[0]);
+    }
+    return `{ ${nodes.map(node => generateCode(node)).join(', ')} }`;
+  }
+
+  // {@render row?.(item)}
+  private renderOutlet(expression: string, loc: SourcePosition): IRNode {
+    const call = parseSnippetExpression(expression);
+    if ((!t.isCallExpression(call) && !t.isOptionalCallExpression(call)) || !t.isIdentifier(call.callee)) {
+      this.warn(loc.line, `Unrecognised {@render ${expression}}`);
+      return { type: 'expression', expression: this.lower(expression) };
+    }
+
+    const name = call.callee.name === 'children' ? 'default' : call.callee.name;
+    const declared = this.ir.slots.find(slot => slot.name === name);
+    const props = call.arguments.map((argument, index) => ({
+      name: declared?.params[index] ?? (t.isIdentifier(argument) ? argument.name : `arg${index}`),
+      expression: this.lower(generateCode(argument))
+    }));
+
+    if (!declared) {
+      this.ir.slots.push({ name, params: props.map(prop => prop.name) });
+    }
+    return { type: 'slot', name, props, fallback: [], loc };
+  }
+
+  private convertElement(node: MarkupElement): IRNode[] {
+    if (node.tag === 'slot') {
+      return [this.convertSlotOutlet(node)];
+    }
+    if (node.tag === 'svelte:fragment') {
+      return this.convertNodes(node.children);
+    }
+    if (node.tag === 'svelte:options') {
+      return [];
+    }
+    if (UNSUPPORTED_ELEMENTS.has(node.tag)) {
+      this.warn(node.line, `<${node.tag}> is not supported and was dropped`);
+      return [];
+    }
+
+    const component = isComponentTag(node.tag);
+    const element: IRElement = {
+      type: 'element',
+      tag: component ? componentName(node.tag) : node.tag,
+      component,
+      attributes: [],
+      events: [],
+      children: [],
+      slots: [],
+      loc: { line: node.line, column: node.column }
+    };
+
+    const classes: string[] = [];
+    const styles: string[] = [];
+    for (const attribute of node.attributes) {
+      this.convertAttribute(node, attribute, element, classes, styles);
+    }
+    if (classes.length) this.mergeObjectAttribute(element, 'class', classes);
+    if (styles.length) this.mergeObjectAttribute(element, 'style', styles);
+
+    if (component) {
+      this.convertComponentChildren(node, element);
+    } else {
+      element.children = this.convertNodes(node.children, element);
+    }
+    return [element];
+  }
+
+  // class:active={isActive} and style:color={color} collect into one object
+  private mergeObjectAttribute(element: IRElement, name: 'class' | 'style', entries: string[]): void {
+    const expression = `{ ${entries.join(', ')} }`;
+    const existing = element.attributes.findIndex(attribute => attribute.kind === 'bound' && attribute.name === name);
+    if (existing === -1) {
+      element.attributes.push({ kind: 'bound', name, expression });
+    } else {
+      const current = element.attributes[existing] as { expression: string };
+      element.attributes[existing] = { kind: 'bound', name, expression: `[${current.expression}, ${expression}]` };
+    }
+  }
+
+  private convertSlotOutlet(node: MarkupElement): IRNode {
+    const name = getAttribute(node, 'name')?.value ?? 'default';
+    const props = node.attributes
+      .filter(attribute => attribute.name !== 'name')
+      .map(attribute => ({
+        name: attribute.name || attribute.value!,
+        expression: this.lower(attribute.expression ? attribute.value! : JSON.stringify(attribute.value ?? ''))
+      }));
+    if (!this.ir.slots.some(slot => slot.name === name)) {
+      this.ir.slots.push({ name, params: props.map(prop => prop.name) });
+    }
+    return { type: 'slot', name, props, fallback: this.convertNodes(node.children), loc: { line: node.line, column: node.column } };
+  }
+
+  private slotParams(node: MarkupElement): string | undefined {
+    const params = node.attributes
+      .filter(attribute => attribute.name.startsWith('let:'))
+      .map(attribute => {
+        const name = attribute.name.slice(4);
+        return attribute.value && attribute.value !== name ? `${name}: ${attribute.value}` : name;
+      });
+    return params.length ? `{ ${params.join(', ')} }` : undefined;
+  }
+
+  // Children with slot="name" are named slot content; let: makes slots scoped
+  private convertComponentChildren(node: MarkupElement, element: IRElement): void {
+    const content: MarkupNode[] = [];
+
+    for (const child of node.children) {
+      const slotName = child.type === 'element' ? getAttribute(child, 'slot')?.value : undefined;
+      if (child.type !== 'element' || !slotName) {
+        content.push(child);
+        continue;
+      }
+
+      const children = child.tag === 'svelte:fragment'
+        ? this.convertNodes(child.children)
+        : this.convertElement({ ...child, attributes: child.attributes.filter(attribute => !attribute.name.startsWith('let:')) });
+      const params = this.slotParams(child);
+      element.slots.push({ name: slotName, ...(params ? { params } : {}), children });
+    }
+
+    const children = this.convertNodes(content, element);
+    const params = this.slotParams(node);
+    if (params) {
+      element.slots.push({ name: 'default', params, children });
+    } else {
+      element.children = children;
+    }
+  }
+
+  private convertAttribute(
+    node: MarkupElement,
+    attribute: MarkupAttribute,
+    element: IRElement,
+    classes: string[],
+    styles: string[]
+  ): void {
+    const { name, value, expression } = attribute;
+
+    // {...rest} spreads; {disabled} is shorthand for disabled={disabled}
+    if (name === '') {
+      if (value!.startsWith('...')) {
+        element.attributes.push({ kind: 'spread', expression: this.lower(value!.slice(3).trim()) });
+      } else {
+        element.attributes.push({ kind: 'bound', name: value!, expression: this.lower(value!) });
+      }
+      return;
+    }
+
+    if (name === 'slot' || name.startsWith('let:')) {
+      return;
+    }
+
+    const code = value === null ? name.slice(name.indexOf(':') + 1) : this.attributeExpression(value, expression);
+
+    if (name === 'bind:this') {
+      element.ref = value ?? undefined;
+      return;
+    }
+
+    if (name.startsWith('bind:')) {
+      const property = name.slice(5);
+      if (element.component) {
+        element.attributes.push({ kind: 'bound', name: property, expression: code });
+        element.events.push({ name: `update:${property}`, handler: `value => ${code} = value`, modifiers: [] });
+      } else if (property === 'value' || property === 'checked') {
+        element.attributes.push({ kind: 'model', name: property, expression: code });
+      } else {
+        this.warn(node.line, `bind:${property} is not supported and was dropped`);
+      }
+      return;
+    }
+
+    const on = /^on:([\w-]+)((?:\|\w+)*)$/.exec(name);
+    if (on) {
+      if (value === null) {
+        this.warn(node.line, `Forwarded event on:${on[1]} is not supported and was dropped`);
+        return;
+      }
+      const modifiers = on[2].split('|').filter(Boolean).flatMap(modifier => {
+        if (EVENT_MODIFIERS[modifier]) return [EVENT_MODIFIERS[modifier]];
+        this.warn(node.line, `Event modifier |${modifier} is not supported and was dropped`);
+        return [];
+      });
+      element.events.push({ name: element.component ? kebabCase(on[1]) : on[1], handler: code, modifiers });
+      return;
+    }
+
+    // Svelte 5 event attributes: onclick={handler}
+    if (/^on[a-zA-Z]+$/.test(name) && expression) {
+      element.events.push({ name: element.component ? kebabCase(name.slice(2)) : name.slice(2).toLowerCase(), handler: code, modifiers: [] });
+      return;
+    }
+
+    if (name.startsWith('class:')) {
+      const className = name.slice(6);
+      classes.push(`${/^[A-Za-z_$][\w$]*$/.test(className) ? className : `'${className}'`}: ${code}`);
+      return;
+    }
+
+    if (name.startsWith('style:')) {
+      styles.push(`${camelCase(name.slice(6).replace(/\|important$/, ''))}: ${code}`);
+      return;
+    }
+
+    if (UNSUPPORTED_DIRECTIVES.test(name)) {
+      this.warn(node.line, `Directive ${name} is not supported and was dropped`);
+      return;
+    }
+
+    if (expression || (value !== null && value.includes('{'))) {
+      element.attributes.push({ kind: 'bound', name, expression: code });
+      return;
+    }
+
+    element.attributes.push({ kind: 'static', name, value: value === null ? true : decodeEntities(value) });
+  }
+
+  // attr={expr}, or attr="btn {size}" as a template literal
+  private attributeExpression(value: string, expression: boolean): string {
+    if (expression) {
+      return this.lower(value);
+    }
+    if (!value.includes('{')) {
+      return JSON.stringify(decodeEntities(value));
+    }
+    const parts = splitBraceTags(value).map(segment =>
+      segment.type === 'text' ? decodeEntities(segment.value).replace(/[`\\]|\$\{/g, match => `\\${match}`) : `\${${segment.value}}`
+    );
+    return this.lower(`\`${parts.join('')}\``);
+  }
+}
@@ -0,0 +1,1060 @@
+import { parse } from '@babel/parser';
+import { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { SourcePosition } from '../../types';
+import { ComponentIR, IRElement, IREventBinding, IRIf, IRNode, IRParser, IRSlotContent } from '../types';
+import {
+  collapseWhitespace,
+  createComponentIR,
+  dependencyInfo,
+  dropPropsType,
+  jsDocDescription,
+  lineWarning,
+  memberDependencies,
+  memberNames,
+  methodFromFunction,
+  propTypes,
+  sourcePosition,
+  splitInterpolations
+} from '../builders';
+import { componentName, isComponentTag } from '../dom';
+import { getAttribute, MarkupElement, MarkupNode, MarkupText, parseMarkup } from '../markup';
+import {
+  freeReferences,
+  functionBody,
+  generateCode,
+  getterSource,
+  isFreeReference,
+  parseSnippetExpression,
+  replaceIdentifier,
+  splitTypeParameters,
+  statementBody,
+  transformCode
+} from '../utils';
+
+// Runtime prop constructors and their TypeScript equivalents
+const RUNTIME_TYPES: Record<string, string> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'any[]',
+  Object: 'Record<string, any>',
+  Function: '(...args: any[]) => any',
+  Date: 'Date',
+  Symbol: 'symbol'
+};
+
+const MOUNT_HOOKS = ['onBeforeMount', 'onMounted'];
+const UNMOUNT_HOOKS = ['onBeforeUnmount', 'onUnmounted'];
+const OPTIONS_MOUNT_HOOKS = ['created', 'beforeMount', 'mounted'];
+const OPTIONS_UNMOUNT_HOOKS = ['beforeUnmount', 'unmounted', 'beforeDestroy', 'destroyed'];
+
+// Built-in tags that are neither HTML nor user components
+const BUILT_IN_TAGS = new Set(['template', 'slot', 'component', 'transition', 'transition-group', 'keep-alive', 'teleport', 'suspense']);
+
+type Scope = 'setup' | 'options';
+
+/**
+ * Lowers a Vue single-file component into the IR. Both `<script setup>` and
+ * the Options API are read; `x.value`, `this.x` and `emit(...)` become bare
+ * names and `$emit(...)`.
+ */
+export class VueIRParser implements IRParser {
+  private ir!: ComponentIR;
+  private scope: Scope = 'setup';
+  private refNames = new Set<string>();
+  private templateRefs = new Set<string>();
+  private propsName?: string;
+  private propsTypeName?: string;
+  // Statements of a plain `<script>` next to `<script setup>`, which can declare the props type
+  private moduleStatements: t.Statement[] = [];
+  private emitName?: string;
+  private propAliases = new Map<string, string>();
+
+  parse(code: string): ComponentIR {
+    this.ir = createComponentIR();
+    this.refNames = new Set();
+    this.templateRefs = new Set();
+    this.propsName = undefined;
+    this.propsTypeName = undefined;
+    this.moduleStatements = [];
+    this.emitName = undefined;
+    this.propAliases = new Map();
+
+    const blocks = parseMarkup(code).filter((node): node is MarkupElement => node.type === 'element');
+    const template = blocks.find(block => block.tag === 'template');
+    const scripts = blocks.filter(block => block.tag === 'script');
+    const setupScript = scripts.find(script => getAttribute(script, 'setup'));
+    const optionsScript = scripts.find(script => !getAttribute(script, 'setup'));
+
+    if (template) {
+      this.collectTemplateRefs(template.children);
+    }
+
+    this.ir.typescript = scripts.some(script => getAttribute(script, 'lang')?.value === 'ts');
+
+    if (optionsScript) {
+      this.scope = 'options';
+      this.parseOptions(optionsScript);
+    }
+    if (setupScript) {
+      this.scope = 'setup';
+      const generic = getAttribute(setupScript, 'generic')?.value;
+      if (generic) this.ir.typeParameters = splitTypeParameters(generic);
+      this.parseSetup(setupScript);
+      // The props type may be declared in either script block
+      if (this.propsTypeName) dropPropsType(this.ir, this.propsTypeName);
+    }
+
+    blocks.filter(block => block.tag === 'style').forEach(style => {
+      const lang = getAttribute(style, 'lang')?.value;
+      const src = getAttribute(style, 'src')?.value;
+      this.ir.styles.push({
+        content: this.scriptText(style).trim(),
+        scoped: !!getAttribute(style, 'scoped'),
+        ...(lang ? { lang } : {}),
+        ...(src ? { src } : {})
+      });
+    });
+
+    if (template) {
+      this.ir.template = this.convertNodes(template.children);
+    }
+
+    this.ir.derived.forEach(derived => {
+      derived.dependencies = memberDependencies(this.ir, derived.expression);
+    });
+    this.ir.effects.forEach(effect => {
+      if (effect.trigger === 'change' && effect.dependencies.length === 0 && effect.body) {
+        effect.dependencies = memberDependencies(this.ir, effect.body, 'block');
+      }
+    });
+
+    return this.ir;
+  }
+
+  private warn(line: number | undefined, message: string): void {
+    this.ir.warnings.push(lineWarning(line, message));
+  }
+
+  private scriptText(block: MarkupElement): string {
+    return block.children.map(child => (child as MarkupText).value ?? '').join('');
+  }
+
+  private parseScript(block: MarkupElement): t.File {
+    const lang = getAttribute(block, 'lang')?.value;
+    return parse(this.scriptText(block), {
+      sourceType: 'module',
+      plugins: lang === 'tsx' || lang === 'jsx' ? ['typescript', 'jsx'] : ['typescript'],
+      startLine: block.children[0]?.line ?? block.line,
+      startColumn: block.children[0]?.column ?? block.column
+    });
+  }
+
+  private collectTemplateRefs(nodes: MarkupNode[]): void {
+    nodes.forEach(node => {
+      if (node.type !== 'element') return;
+      const ref = getAttribute(node, 'ref');
+      if (ref?.value) this.templateRefs.add(ref.value);
+      this.collectTemplateRefs(node.children);
+    });
+  }
+
+  private parseSetup(block: MarkupElement): void {
+    const ast = this.parseScript(block);
+
+    // Names must be known before any code is lowered
+    for (const statement of ast.program.body) {
+      if (!t.isVariableDeclaration(statement)) continue;
+      for (const declarator of statement.declarations) {
+        const callee = this.calleeName(declarator.init);
+        if (t.isIdentifier(declarator.id) && ['ref', 'shallowRef', 'computed'].includes(callee ?? '')) {
+          this.refNames.add(declarator.id.name);
+        }
+        if (callee === 'defineProps' || callee === 'withDefaults') {
+          if (t.isIdentifier(declarator.id)) this.propsName = declarator.id.name;
+        }
+        if (callee === 'defineEmits' && t.isIdentifier(declarator.id)) {
+          this.emitName = declarator.id.name;
+        }
+      }
+    }
+
+    for (const statement of ast.program.body) {
+      if (t.isImportDeclaration(statement)) {
+        if (statement.source.value !== 'vue') this.ir.imports.push(dependencyInfo(statement));
+      } else if (t.isVariableDeclaration(statement)) {
+        statement.declarations.forEach(declarator => this.collectSetupDeclarator(declarator, ast, statement));
+      } else if (t.isFunctionDeclaration(statement) && statement.id) {
+        this.addMethod(statement.id.name, statement);
+      } else if (t.isExpressionStatement(statement) && t.isCallExpression(statement.expression)) {
+        this.collectSetupCall(statement.expression, ast);
+      } else if (t.isTSInterfaceDeclaration(statement) || t.isTSTypeAliasDeclaration(statement)
+        || (t.isExportNamedDeclaration(statement)
+          && (t.isTSInterfaceDeclaration(statement.declaration) || t.isTSTypeAliasDeclaration(statement.declaration)))) {
+        this.ir.declarations.push(generateCode(statement));
+      } else {
+        this.warn(statement.loc?.start.line, 'Statement in <script setup> is not represented in the IR and was dropped');
+      }
+    }
+  }
+
+  private calleeName(node: t.Node | null | undefined): string | undefined {
+    if (!t.isCallExpression(node)) return undefined;
+    return t.isIdentifier(node.callee) ? node.callee.name : undefined;
+  }
+
+  private typeArgument(call: t.CallExpression): string | undefined {
+    const param = call.typeParameters?.params[0];
+    return param ? generateCode(param) : undefined;
+  }
+
+  private collectSetupDeclarator(declarator: t.VariableDeclarator, ast: t.File, statement: t.Statement): void {
+    const init = declarator.init;
+    const callee = this.calleeName(init);
+    const call = init as t.CallExpression;
+    const line = declarator.loc?.start.line;
+    const loc = sourcePosition(declarator);
+
+    if (callee === 'defineProps' || callee === 'withDefaults') {
+      const define = callee === 'withDefaults' ? call.arguments[0] as t.CallExpression : call;
+      const defaults = callee === 'withDefaults' && t.isObjectExpression(call.arguments[1])
+        ? call.arguments[1]
+        : undefined;
+      this.collectDefineProps(define, defaults, ast, loc);
+
+      // const { title, count = 0 } = defineProps<...>()
+      if (t.isObjectPattern(declarator.id)) {
+        this.collectPropsDestructure(declarator.id);
+      }
+      return;
+    }
+
+    if (callee === 'defineEmits') {
+      this.collectDefineEmits(call);
+      return;
+    }
+
+    // inject(key), also asserted non-null: inject(key)!
+    const injected = t.isTSNonNullExpression(init) ? init.expression : init;
+    if (this.calleeName(injected) === 'inject' && (injected as t.CallExpression).arguments[0]) {
+      const [key, fallback] = (injected as t.CallExpression).arguments as t.Expression[];
+      this.ir.injections.push({
+        binding: generateCode(declarator.id).replace(/\s*\n\s*/g, ' '),
+        names: Object.keys(t.getBindingIdentifiers(declarator.id)),
+        key: generateCode(key),
+        ...(fallback ? { default: this.lower(generateCode(fallback)) } : {}),
+        type: this.typeArgument(injected as t.CallExpression),
+        loc
+      });
+      // A key declared here carries the default of the component that reads it
+      const context = this.ir.contexts.find(entry => entry.name === generateCode(key));
+      if (context && fallback && context.default === undefined) context.default = generateCode(fallback);
+      return;
+    }
+
+    if (callee && /^use[A-Z]/.test(callee)) {
+      this.ir.composables.push({
+        callee,
+        args: call.arguments.map(argument => this.lower(generateCode(argument))),
+        binding: generateCode(declarator.id).replace(/\s*\n\s*/g, ' '),
+        names: Object.keys(t.getBindingIdentifiers(declarator.id)),
+        loc
+      });
+      return;
+    }
+
+    if (!t.isIdentifier(declarator.id)) {
+      this.warn(line, 'Destructured declaration is not represented in the IR and was dropped');
+      return;
+    }
+    const name = declarator.id.name;
+
+    // const ThemeKey: InjectionKey<Theme> = Symbol()
+    const annotation = t.isTSTypeAnnotation(declarator.id.typeAnnotation) ? declarator.id.typeAnnotation.typeAnnotation : null;
+    if (callee === 'Symbol' && t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName, { name: 'InjectionKey' })) {
+      const type = annotation.typeParameters?.params[0];
+      this.ir.contexts.push({ name, ...(type ? { type: generateCode(type) } : {}), exported: false, loc });
+      return;
+    }
+
+    if (callee === 'ref' || callee === 'shallowRef') {
+      const type = this.typeArgument(call);
+      if (this.templateRefs.has(name)) {
+        const elementType = type?.replace(/\s*\|\s*null$/, '');
+        this.ir.refs.push(elementType ? { name, type: elementType, loc } : { name, loc });
+      } else {
+        const initial = call.arguments[0];
+        this.ir.state.push({
+          name,
+          initial: initial ? this.lower(generateCode(initial)) : 'undefined',
+          type,
+          reactive: true,
+          loc
+        });
+      }
+      return;
+    }
+
+    if (callee === 'reactive') {
+      this.warn(line, `reactive() object ${name} is kept as one state value; in-place mutations may need rewriting for other frameworks`);
+      this.ir.state.push({
+        name,
+        initial: this.lower(generateCode(call.arguments[0] ?? t.objectExpression([]))),
+        type: this.typeArgument(call),
+        reactive: true,
+        loc
+      });
+      return;
+    }
+
+    if (callee === 'computed') {
+      const getter = call.arguments[0];
+      if (t.isArrowFunctionExpression(getter) || t.isFunctionExpression(getter)) {
+        this.ir.derived.push({
+          name,
+          expression: this.getterExpression(getter),
+          dependencies: [],
+          type: this.typeArgument(call),
+          loc
+        });
+      } else {
+        this.warn(line, `Writable computed ${name} is not supported; only its getter was kept`);
+        const get = t.isObjectExpression(getter) ? this.objectMember(getter, 'get') : undefined;
+        if (get) this.ir.derived.push({ name, expression: this.getterExpression(get), dependencies: [], loc });
+      }
+      return;
+    }
+
+    if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) {
+      this.addMethod(name, init, loc);
+      return;
+    }
+
+    if (!init) {
+      const annotation = declarator.id.typeAnnotation;
+      const type = t.isTSTypeAnnotation(annotation) ? generateCode(annotation.typeAnnotation) : undefined;
+      this.ir.state.push({ name, initial: 'undefined', type, reactive: false, loc });
+      return;
+    }
+
+    // Constants that don't touch the component can live at module level
+    const members = memberNames(this.ir);
+    const references = freeReferences(generateCode(init));
+    if (!references.some(reference => members.has(reference) || this.refNames.has(reference))) {
+      this.ir.declarations.push(generateCode(statement));
+    } else {
+      this.ir.derived.push({ name, expression: this.lower(generateCode(init)), dependencies: [], loc });
+    }
+  }
+
+  private objectMember(object: t.ObjectExpression, name: string): t.Function | undefined {
+    for (const property of object.properties) {
+      if (t.isObjectMethod(property) && t.isIdentifier(property.key, { name })) return property;
+      if (t.isObjectProperty(property) && t.isIdentifier(property.key, { name })
+        && (t.isArrowFunctionExpression(property.value) || t.isFunctionExpression(property.value))) {
+        return property.value;
+      }
+    }
+    return undefined;
+  }
+
+  private getterExpression(fn: t.Function): string {
+    return this.lower(getterSource(fn));
+  }
+
+  private collectDefineProps(
+    call: t.CallExpression,
+    defaults: t.ObjectExpression | undefined,
+    ast: t.File,
+    loc = sourcePosition(call)
+  ): void {
+    const typeArgument = call.typeParameters?.params[0];
+
+    if (typeArgument) {
+      if (t.isTSTypeReference(typeArgument) && t.isIdentifier(typeArgument.typeName)) {
+        this.propsTypeName = typeArgument.typeName.name;
+      }
+      const defaultValues = new Map<string, string>();
+      defaults?.properties.forEach(property => {
+        if (t.isObjectProperty(property) && t.isIdentifier(property.key)) {
+          const value = property.value;
+          // Object and array defaults are wrapped in factories
+          const unwrapped = t.isArrowFunctionExpression(value) && t.isExpression(value.body) ? value.body : value;
+          defaultValues.set(property.key.name, generateCode(unwrapped));
+        }
+      });
+
+      propTypes(t.program([...this.moduleStatements, ...ast.program.body]), typeArgument).forEach((type, name) => {
+        const defaultValue = defaultValues.get(name);
+        this.ir.props.push({
+          name,
+          type: type.type,
+          required: !type.optional && defaultValue === undefined,
+          ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+          ...(type.description ? { description: type.description } : {}),
+          loc: type.loc ?? loc
+        });
+      });
+      return;
+    }
+
+    const runtime = call.arguments[0];
+    if (t.isArrayExpression(runtime) || t.isObjectExpression(runtime)) {
+      this.collectRuntimeProps(runtime);
+    }
+  }
+
+  private collectPropsDestructure(pattern: t.ObjectPattern): void {
+    for (const property of pattern.properties) {
+      if (!t.isObjectProperty(property) || !t.isIdentifier(property.key)) continue;
+      const name = property.key.name;
+      const prop = this.ir.props.find(p => p.name === name);
+
+      if (t.isAssignmentPattern(property.value)) {
+        if (prop) {
+          prop.default = generateCode(property.value.right);
+          prop.required = false;
+        }
+        if (t.isIdentifier(property.value.left) && property.value.left.name !== name) {
+          this.propAliases.set(property.value.left.name, name);
+        }
+      } else if (t.isIdentifier(property.value) && property.value.name !== name) {
+        this.propAliases.set(property.value.name, name);
+      }
+    }
+  }
+
+  private runtimeType(node: t.Node): string {
+    // Array as PropType<Item[]>
+    if (t.isTSAsExpression(node) && t.isTSTypeReference(node.typeAnnotation)
+      && t.isIdentifier(node.typeAnnotation.typeName, { name: 'PropType' })) {
+      const param = node.typeAnnotation.typeParameters?.params[0];
+      if (param) return generateCode(param);
+    }
+    if (t.isArrayExpression(node)) {
+      return node.elements.map(element => this.runtimeType(element!)).join(' | ');
+    }
+    return t.isIdentifier(node) ? RUNTIME_TYPES[node.name] ?? node.name : 'any';
+  }
+
+  private collectRuntimeProps(runtime: t.ArrayExpression | t.ObjectExpression): void {
+    if (t.isArrayExpression(runtime)) {
+      runtime.elements.forEach(element => {
+        if (t.isStringLiteral(element)) this.ir.props.push({ name: element.value, required: false, loc: sourcePosition(element) });
+      });
+      return;
+    }
+
+    for (const property of runtime.properties) {
+      if (!t.isObjectProperty(property)) continue;
+      const name = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : null;
+      if (!name) continue;
+
+      const description = jsDocDescription(property);
+      const documented = description ? { description } : {};
+
+      if (!t.isObjectExpression(property.value)) {
+        this.ir.props.push({
+          name,
+          type: this.runtimeType(property.value),
+          required: false,
+          ...documented,
+          loc: sourcePosition(property)
+        });
+        continue;
+      }
+
+      let type = 'any';
+      let required = false;
+      let defaultValue: string | undefined;
+
+      for (const option of property.value.properties) {
+        if (t.isObjectMethod(option) && t.isIdentifier(option.key, { name: 'default' })) {
+          defaultValue = this.getterExpression(option);
+          continue;
+        }
+        if (!t.isObjectProperty(option) || !t.isIdentifier(option.key)) continue;
+
+        if (option.key.name === 'type') {
+          type = this.runtimeType(option.value);
+        } else if (option.key.name === 'required') {
+          required = t.isBooleanLiteral(option.value, { value: true });
+        } else if (option.key.name === 'default') {
+          const value = option.value;
+          defaultValue = (t.isArrowFunctionExpression(value) || t.isFunctionExpression(value)) && type !== RUNTIME_TYPES.Function
+            ? this.getterExpression(value)
+            : generateCode(value);
+        }
+      }
+
+      this.ir.props.push({
+        name,
+        type,
+        required,
+        ...(defaultValue !== undefined ? { default: defaultValue } : {}),
+        ...documented,
+        loc: sourcePosition(property)
+      });
+    }
+  }
+
+  private collectDefineEmits(call: t.CallExpression): void {
+    const typeArgument = call.typeParameters?.params[0];
+    const runtime = call.arguments[0];
+
+    if (t.isTSTypeLiteral(typeArgument)) {
+      for (const member of typeArgument.members) {
+        // (e: 'change', value: string): void
+        if (t.isTSCallSignatureDeclaration(member)) {
+          const [event, payload] = member.parameters;
+          const literal = t.isIdentifier(event) && t.isTSTypeAnnotation(event.typeAnnotation)
+            && t.isTSLiteralType(event.typeAnnotation.typeAnnotation)
+            ? event.typeAnnotation.typeAnnotation.literal
+            : null;
+          if (!t.isStringLiteral(literal)) continue;
+
+          const payloadType = t.isIdentifier(payload) && t.isTSTypeAnnotation(payload.typeAnnotation)
+            ? generateCode(payload.typeAnnotation.typeAnnotation)
+            : undefined;
+          this.ir.events.push({ name: literal.value, ...(payloadType ? { payloadType } : {}), loc: sourcePosition(member) });
+        }
+
+        // change: [value: string]
+        if (t.isTSPropertySignature(member)) {
+          const name = t.isIdentifier(member.key) ? member.key.name : t.isStringLiteral(member.key) ? member.key.value : null;
+          if (!name) continue;
+          const tuple = member.typeAnnotation?.typeAnnotation;
+          const first = t.isTSTupleType(tuple) ? tuple.elementTypes[0] : undefined;
+          const payloadType = t.isTSNamedTupleMember(first) ? generateCode(first.elementType) : first ? generateCode(first) : undefined;
+          this.ir.events.push({ name, ...(payloadType ? { payloadType } : {}), loc: sourcePosition(member) });
+        }
+      }
+      return;
+    }
+
+    if (t.isArrayExpression(runtime)) {
+      runtime.elements.forEach(element => {
+        if (t.isStringLiteral(element)) this.ir.events.push({ name: element.value, loc: sourcePosition(element) });
+      });
+    } else if (t.isObjectExpression(runtime)) {
+      runtime.properties.forEach(property => {
+        if ((t.isObjectProperty(property) || t.isObjectMethod(property)) && t.isIdentifier(property.key)) {
+          this.ir.events.push({ name: property.key.name, loc: sourcePosition(property) });
+        }
+      });
+    }
+  }
+
+  private collectSetupCall(call: t.CallExpression, ast: t.File): void {
+    const callee = this.calleeName(call);
+    const line = call.loc?.start.line;
+    const loc = sourcePosition(call);
+    const callback = call.arguments[0];
+    const isFunction = t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback);
+
+    if (callee && MOUNT_HOOKS.includes(callee) && isFunction) {
+      this.ir.effects.push({ trigger: 'mount', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc });
+    } else if (callee && UNMOUNT_HOOKS.includes(callee) && isFunction) {
+      this.ir.effects.push({ trigger: 'unmount', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc });
+    } else if (callee === 'onUpdated' && isFunction) {
+      this.ir.effects.push({ trigger: 'change', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc });
+    } else if (callee === 'watchEffect' && isFunction) {
+      this.ir.effects.push({ trigger: 'change', body: this.lower(statementBody(callback), 'block'), dependencies: [], loc });
+    } else if (callee === 'watch') {
+      this.collectWatch(call.arguments[0], call.arguments[1], call.arguments[2], loc);
+    } else if (callee === 'defineProps') {
+      this.collectDefineProps(call, undefined, ast);
+    } else if (callee === 'withDefaults' && t.isCallExpression(call.arguments[0])) {
+      const defaults = t.isObjectExpression(call.arguments[1]) ? call.arguments[1] : undefined;
+      this.collectDefineProps(call.arguments[0], defaults, ast, loc);
+    } else if (callee === 'defineEmits') {
+      this.collectDefineEmits(call);
+    } else if (callee && /^use[A-Z]/.test(callee)) {
+      this.ir.composables.push({ callee, args: call.arguments.map(argument => this.lower(generateCode(argument))), names: [], loc });
+    } else {
+      this.warn(line, `${callee ?? 'Call'}() in <script setup> is not represented in the IR and was dropped`);
+    }
+  }
+
+  private collectWatch(source: t.Node, callback: t.Node, options: t.Node | undefined, loc?: SourcePosition): void {
+    const line = loc?.line;
+    if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)
+      && !t.isObjectMethod(callback)) {
+      this.warn(line, 'watch() without an inline callback is not supported');
+      return;
+    }
+
+    const sources = t.isArrayExpression(source) ? source.elements : [source];
+    const dependencies = sources.flatMap(element => {
+      if (!element) return [];
+      // () => props.count watches a getter
+      const code = t.isArrowFunctionExpression(element) && t.isExpression(element.body)
+        ? generateCode(element.body)
+        : t.isStringLiteral(element) ? element.value : generateCode(element);
+      return freeReferences(this.lower(code));
+    });
+
+    // watch(count, (value) => ...) — the new value is the watched value itself
+    let body = statementBody(callback);
+    const [newValue, oldValue] = callback.params;
+    if (t.isIdentifier(newValue) && dependencies.length === 1 && !t.isArrayExpression(source)) {
+      body = transformCode(body, 'block', {
+        Identifier(path: NodePath<t.Identifier>) {
+          if (path.node.name === newValue.name && isFreeReference(path)) {
+            replaceIdentifier(path, t.identifier(dependencies[0]));
+          }
+        }
+      });
+    }
+    if (oldValue) {
+      this.warn(line, 'The previous value passed to a watch callback is not represented in the IR');
+    }
+    if (t.isObjectExpression(options) && options.properties.some(
+      p => t.isObjectProperty(p) && t.isIdentifier(p.key, { name: 'immediate' }) && t.isBooleanLiteral(p.value, { value: true })
+    )) {
+      this.warn(line, 'immediate watchers also run on mount; only the change trigger is represented');
+    }
+
+    this.ir.effects.push({ trigger: 'change', body: this.lower(body, 'block'), dependencies, loc });
+  }
+
+  private parseOptions(block: MarkupElement): void {
+    const ast = this.parseScript(block);
+    let options: t.ObjectExpression | null = null;
+    this.moduleStatements = ast.program.body;
+
+    for (const statement of ast.program.body) {
+      if (t.isImportDeclaration(statement)) {
+        if (statement.source.value !== 'vue') this.ir.imports.push(dependencyInfo(statement));
+      } else if (t.isExportDefaultDeclaration(statement)) {
+        const declaration = statement.declaration;
+        if (t.isObjectExpression(declaration)) {
+          options = declaration;
+        } else if (t.isCallExpression(declaration) && t.isObjectExpression(declaration.arguments[0])) {
+          // export default defineComponent({ ... })
+          options = declaration.arguments[0];
+        }
+      } else {
+        this.ir.declarations.push(generateCode(statement));
+      }
+    }
+
+    if (!options) return;
+
+    // Collect names first so method bodies lower correctly
+    const properties = options.properties.filter(
+      (p): p is t.ObjectProperty | t.ObjectMethod => t.isObjectProperty(p) || t.isObjectMethod(p)
+    );
+    const keyName = (p: t.ObjectProperty | t.ObjectMethod) =>
+      t.isIdentifier(p.key) ? p.key.name : t.isStringLiteral(p.key) ? p.key.value : '';
+
+    for (const property of properties) {
+      const key = keyName(property);
+      const value = t.isObjectProperty(property) ? property.value : property;
+
+      if (key === 'name' && t.isStringLiteral(value)) {
+        this.ir.name = value.value;
+      } else if (key === 'props' && (t.isArrayExpression(value) || t.isObjectExpression(value))) {
+        this.collectRuntimeProps(value);
+      } else if (key === 'emits') {
+        this.collectDefineEmits(t.callExpression(t.identifier('defineEmits'), [value as t.Expression]));
+      }
+    }
+
+    for (const property of properties) {
+      const key = keyName(property);
+      const value = t.isObjectProperty(property) ? property.value : property;
+      const line = property.loc?.start.line;
+
+      if (['name', 'props', 'emits', 'components'].includes(key)) continue;
+
+      if (key === 'data' && (t.isObjectMethod(value) || t.isFunction(value))) {
+        const returned = t.isBlockStatement(value.body)
+          ? value.body.body.find((s): s is t.ReturnStatement => t.isReturnStatement(s))?.argument
+          : value.body;
+        if (t.isObjectExpression(returned)) {
+          returned.properties.forEach(entry => {
+            if (t.isObjectProperty(entry) && t.isIdentifier(entry.key)) {
+              this.ir.state.push({
+                name: entry.key.name,
+                initial: this.lower(generateCode(entry.value)),
+                reactive: true,
+                loc: sourcePosition(entry)
+              });
+            }
+          });
+        }
+      } else if (key === 'computed' && t.isObjectExpression(value)) {
+        value.properties.forEach(entry => {
+          if (!(t.isObjectMethod(entry) || t.isObjectProperty(entry)) || !t.isIdentifier(entry.key)) return;
+          const getter = t.isObjectMethod(entry)
+            ? entry
+            : t.isObjectExpression(entry.value) ? this.objectMember(entry.value, 'get') : undefined;
+          if (t.isObjectProperty(entry)) {
+            this.warn(entry.loc?.start.line, `Writable computed ${entry.key.name} is not supported; only its getter was kept`);
+          }
+          if (getter) {
+            this.ir.derived.push({
+              name: entry.key.name,
+              expression: this.getterExpression(getter),
+              dependencies: [],
+              loc: sourcePosition(entry)
+            });
+          }
+        });
+      } else if (key === 'methods' && t.isObjectExpression(value)) {
+        value.properties.forEach(entry => {
+          if (t.isObjectMethod(entry) && t.isIdentifier(entry.key)) {
+            this.addMethod(entry.key.name, entry);
+          } else if (t.isObjectProperty(entry) && t.isIdentifier(entry.key) && t.isFunction(entry.value)) {
+            this.addMethod(entry.key.name, entry.value, sourcePosition(entry));
+          }
+        });
+      } else if (key === 'watch' && t.isObjectExpression(value)) {
+        value.properties.forEach(entry => {
+          const source = t.isIdentifier(entry.type !== 'SpreadElement' ? entry.key : null)
+            ? ((entry as t.ObjectProperty).key as t.Identifier).name
+            : t.isStringLiteral((entry as t.ObjectProperty).key) ? ((entry as t.ObjectProperty).key as t.StringLiteral).value : null;
+          if (!source) return;
+
+          const handler = t.isObjectMethod(entry)
+            ? entry
+            : t.isObjectProperty(entry) && t.isObjectExpression(entry.value)
+              ? this.objectMember(entry.value, 'handler')
+              : t.isObjectProperty(entry) ? entry.value : undefined;
+          this.collectWatch(t.identifier(source), handler as t.Node, t.isObjectProperty(entry) ? entry.value : undefined, sourcePosition(entry));
+        });
+      } else if (OPTIONS_MOUNT_HOOKS.includes(key) && t.isFunction(value)) {
+        this.ir.effects.push({ trigger: 'mount', body: this.lower(functionBody(value), 'block'), dependencies: [], loc: sourcePosition(property) });
+      } else if (OPTIONS_UNMOUNT_HOOKS.includes(key) && t.isFunction(value)) {
+        this.ir.effects.push({ trigger: 'unmount', body: this.lower(functionBody(value), 'block'), dependencies: [], loc: sourcePosition(property) });
+      } else if (key === 'updated' && t.isFunction(value)) {
+        this.ir.effects.push({ trigger: 'change', body: this.lower(functionBody(value), 'block'), dependencies: [], loc: sourcePosition(property) });
+      } else {
+        this.warn(line, `Component option ${key} is not represented in the IR and was dropped`);
+      }
+    }
+  }
+
+  private addMethod(name: string, fn: t.Function, loc = sourcePosition(fn)): void {
+    const method = methodFromFunction(name, fn, loc);
+    method.body = this.lower(method.body, 'block');
+    this.ir.methods.push(method);
+  }
+
+  /**
+   * Rewrite Vue idioms into IR expressions: `count.value`, `this.count` and
+   * `props.count` become `count`, `emit(...)` becomes `$emit(...)`.
+   */
+  private lower(code: string, kind: 'expression' | 'block' = 'expression'): string {
+    const { refNames, propsName, emitName, propAliases, templateRefs, scope } = this;
+
+    return transformCode(code, kind, {
+      MemberExpression(path: NodePath<t.MemberExpression>) {
+        const { object, property, computed } = path.node;
+        if (computed || !t.isIdentifier(property)) return;
+
+        if (scope === 'options' && t.isThisExpression(object)) {
+          // this.$refs.input becomes input
+          if (property.name === '$refs' && t.isMemberExpression(path.parent) && t.isIdentifier(path.parent.property)) {
+            path.parentPath.replaceWith(t.identifier(path.parent.property.name));
+            return;
+          }
+          path.replaceWith(t.identifier(property.name));
+          return;
+        }
+
+        if (!t.isIdentifier(object) || path.scope.hasBinding(object.name, true)) return;
+
+        if (property.name === 'value' && (refNames.has(object.name) || templateRefs.has(object.name))) {
+          path.replaceWith(t.identifier(object.name));
+        } else if (object.name === propsName) {
+          path.replaceWith(t.identifier(property.name));
+        }
+      },
+
+      CallExpression(path: NodePath<t.CallExpression>) {
+        const { callee } = path.node;
+        if (t.isIdentifier(callee) && callee.name === emitName && !path.scope.hasBinding(callee.name, true)) {
+          path.node.callee = t.identifier('$emit');
+        }
+      },
+
+      Identifier(path: NodePath<t.Identifier>) {
+        if (propAliases.has(path.node.name) && isFreeReference(path)) {
+          replaceIdentifier(path, t.identifier(propAliases.get(path.node.name)!));
+        }
+      }
+    });
+  }
+
+  private lowerTemplate(code: string): string {
+    // Template expressions already read members by name
+    return this.scope === 'options' ? this.lower(code.replace(/\bthis\./g, '')) : this.lower(code);
+  }
+
+  private convertNodes(nodes: MarkupNode[]): IRNode[] {
+    const result: IRNode[] = [];
+    let chain: IRIf | null = null;
+
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        if (node.value.trim()) chain = null;
+        result.push(...splitInterpolations(node.value, /\{\{([\s\S]*?)\}\}/).map(part =>
+          part.type === 'expression' ? { ...part, expression: this.lowerTemplate(part.expression) } : part
+        ));
+        continue;
+      }
+
+      if (node.type === 'comment') {
+        result.push({ type: 'comment', value: node.value });
+        continue;
+      }
+
+      const elseIf = getAttribute(node, 'v-else-if');
+      const otherwise = getAttribute(node, 'v-else');
+      const condition = getAttribute(node, 'v-if');
+
+      if (elseIf || otherwise) {
+        if (!chain) {
+          this.warn(node.line, 'v-else without a preceding v-if');
+          continue;
+        }
+        chain.branches.push({
+          ...(elseIf ? { condition: this.lowerTemplate(elseIf.value ?? '') } : {}),
+          children: this.convertElement(node)
+        });
+        if (otherwise) chain = null;
+        continue;
+      }
+
+      if (condition) {
+        chain = {
+          type: 'if',
+          branches: [{ condition: this.lowerTemplate(condition.value ?? ''), children: this.convertElement(node) }],
+          loc: { line: node.line, column: node.column }
+        };
+        result.push(chain);
+        continue;
+      }
+
+      chain = null;
+      result.push(...this.convertElement(node));
+    }
+
+    return collapseWhitespace(result);
+  }
+
+  // Converts an element and its v-for / v-show wrappers
+  private convertElement(node: MarkupElement): IRNode[] {
+    const loop = getAttribute(node, 'v-for');
+    const show = getAttribute(node, 'v-show');
+    let nodes = this.convertTag(node);
+
+    if (show) {
+      this.warn(node.line, 'v-show is converted to conditional rendering');
+      nodes = [{
+        type: 'if',
+        branches: [{ condition: this.lowerTemplate(show.value ?? ''), children: nodes }],
+        loc: { line: node.line, column: node.column }
+      }];
+    }
+
+    if (loop) {
+      const match = /^\s*([\s\S]+?)\s+(?:in|of)\s+([\s\S]+)$/.exec(loop.value ?? '');
+      if (!match) {
+        this.warn(node.line, `Unrecognised v-for expression "${loop.value}"`);
+        return nodes;
+      }
+
+      const aliases = match[1].trim().replace(/^\(([\s\S]*)\)$/, '$1');
+      const params = (parseSnippetExpression(`(${aliases}) => 0`) as t.ArrowFunctionExpression).params;
+      const key = getAttribute(node, ':key') ?? getAttribute(node, 'v-bind:key');
+      const index = params[1];
+
+      return [{
+        type: 'for',
+        source: this.lowerTemplate(match[2].trim()),
+        item: generateCode(params[0]),
+        ...(t.isIdentifier(index) ? { index: index.name } : {}),
+        ...(key?.value ? { key: this.lowerTemplate(key.value) } : {}),
+        children: nodes,
+        loc: { line: node.line, column: node.column }
+      }];
+    }
+
+    return nodes;
+  }
+
+  private convertTag(node: MarkupElement): IRNode[] {
+    if (node.tag === 'template') {
+      return this.convertNodes(node.children);
+    }
+
+    if (node.tag === 'slot') {
+      const name = getAttribute(node, 'name')?.value ?? 'default';
+      const props = node.attributes
+        .filter(attribute => /^(:|v-bind:)/.test(attribute.name) && attribute.value !== null)
+        .map(attribute => ({
+          name: attribute.name.replace(/^(:|v-bind:)/, ''),
+          expression: this.lowerTemplate(attribute.value!)
+        }));
+      if (!this.ir.slots.some(slot => slot.name === name)) {
+        this.ir.slots.push({ name, params: props.map(prop => prop.name) });
+      }
+      return [{ type: 'slot', name, props, fallback: this.convertNodes(node.children), loc: { line: node.line, column: node.column } }];
+    }
+
+    if (node.tag === 'component') {
+      this.warn(node.line, 'Dynamic <component :is> is not supported');
+    }
+
+    const component = isComponentTag(node.tag) && !BUILT_IN_TAGS.has(node.tag);
+    const element: IRElement = {
+      type: 'element',
+      tag: component ? componentName(node.tag) : node.tag,
+      component,
+      attributes: [],
+      events: [],
+      children: [],
+      slots: [],
+      loc: { line: node.line, column: node.column }
+    };
+
+    for (const attribute of node.attributes) {
+      this.convertAttribute(node, attribute.name, attribute.value, element);
+    }
+
+    // Component children: <template #name> blocks are slot content
+    const defaultSlot = getAttribute(node, 'v-slot') ?? getAttribute(node, '#default');
+    const content: MarkupNode[] = [];
+    for (const child of node.children) {
+      const slotAttribute = child.type === 'element' && child.tag === 'template'
+        ? child.attributes.find(attribute => /^(#|v-slot)/.test(attribute.name))
+        : undefined;
+
+      if (child.type === 'element' && slotAttribute) {
+        const slot: IRSlotContent = {
+          name: slotAttribute.name.replace(/^(#|v-slot:?)/, '') || 'default',
+          children: this.convertNodes(child.children)
+        };
+        if (slotAttribute.value) slot.params = slotAttribute.value;
+        element.slots.push(slot);
+      } else {
+        content.push(child);
+      }
+    }
+
+    if (defaultSlot?.value) {
+      element.slots.push({ name: 'default', params: defaultSlot.value, children: this.convertNodes(content) });
+    } else {
+      element.children = this.convertNodes(content);
+    }
+
+    return [element];
+  }
+
+  private convertAttribute(node: MarkupElement, name: string, value: string | null, element: IRElement): void {
+    if (['v-if', 'v-else-if', 'v-else', 'v-for', 'v-show', 'v-slot', ':key', 'v-bind:key', 'key'].includes(name)
+      || name.startsWith('#')) {
+      return;
+    }
+
+    if (name === 'ref' && value) {
+      element.ref = value;
+      return;
+    }
+
+    if (name === 'v-html' && value) {
+      element.attributes.push({ kind: 'bound', name: 'innerHTML', expression: this.lowerTemplate(value) });
+      return;
+    }
+
+    if (name === 'v-text' && value) {
+      element.children = [{ type: 'expression', expression: this.lowerTemplate(value) }];
+      return;
+    }
+
+    if (name.startsWith('v-model') && value) {
+      this.convertModel(node, name, value, element);
+      return;
+    }
+
+    if (name === 'v-bind' && value) {
+      element.attributes.push({ kind: 'spread', expression: this.lowerTemplate(value) });
+      return;
+    }
+
+    const bound = /^(?::|v-bind:)([^.]+)/.exec(name);
+    if (bound && value !== null) {
+      element.attributes.push({ kind: 'bound', name: bound[1], expression: this.lowerTemplate(value) });
+      return;
+    }
+
+    const on = /^(?:@|v-on:)([^.]+)((?:\.[\w-]+)*)$/.exec(name);
+    if (on) {
+      element.events.push(this.convertEvent(on[1], on[2], value));
+      return;
+    }
+
+    if (name.startsWith('v-')) {
+      this.warn(node.line, `Directive ${name} is not supported and was dropped`);
+      return;
+    }
+
+    element.attributes.push({ kind: 'static', name, value: value ?? true });
+  }
+
+  private convertModel(node: MarkupElement, name: string, value: string, element: IRElement): void {
+    const argument = /^v-model:([^.]+)/.exec(name)?.[1];
+    const expression = this.lowerTemplate(value);
+
+    if (element.component) {
+      // v-model:title on a component is a prop plus an update:title event
+      const prop = argument ?? 'modelValue';
+      element.attributes.push({ kind: 'bound', name: prop, expression });
+      element.events.push({ name: `update:${prop}`, handler: `value => ${expression} = value`, modifiers: [] });
+      return;
+    }
+
+    const type = getAttribute(node, 'type')?.value;
+    const property = type === 'checkbox' ? 'checked' : 'value';
+    if (type === 'radio') {
+      this.warn(node.line, 'v-model on radio inputs is kept as a value binding');
+    }
+    element.attributes.push({ kind: 'model', name: property, expression });
+  }
+
+  private convertEvent(name: string, modifiers: string, value: string | null): IREventBinding {
+    const event: IREventBinding = {
+      name,
+      handler: '() => {}',
+      modifiers: modifiers.split('.').filter(Boolean)
+    };
+    if (!value) return event;
+
+    const handler = value.trim();
+    // A method name or path is already a handler
+    if (/^[\w$.]+$/.test(handler)) {
+      event.handler = this.lowerTemplate(handler);
+      return event;
+    }
+
+    try {
+      const expression = parseSnippetExpression(handler);
+      if (t.isArrowFunctionExpression(expression) || t.isFunctionExpression(expression)) {
+        event.handler = this.lowerTemplate(handler);
+        return event;
+      }
+    } catch {
+      // Multiple statements; wrapped below
+    }
+
+    // Inline statements become a function of $event
+    const param = /\$event\b/.test(handler) ? '$event' : '';
+    const body = handler.includes(';') ? `{ ${handler} }` : handler;
+    event.handler = this.lowerTemplate(`(${param}) => ${body}`);
+    return event;
+  }
+}
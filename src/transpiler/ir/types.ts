@@ -0,0 +1,269 @@
+import { DependencyInfo, SourcePosition, TranspilerOptions } from '../types';
+
+/**
+ * Framework-neutral component representation. Parsers lower a source
+ * component into it and emitters raise it into a target framework, so a new
+ * framework needs one parser and one emitter instead of a transpiler per pair.
+ *
+ * Expressions and bodies are plain JavaScript/TypeScript source written as if
+ * every prop, state value, derived value and element ref were a local
+ * variable: reads are bare identifiers, state is written with ordinary
+ * assignment (`count = count + 1`) and events are emitted with
+ * `$emit('event-name', payload)`. Emitters rewrite these into each
+ * framework's reactivity idiom.
+ *
+ * Members and template nodes carry the `loc` of the source construct they
+ * came from, which emitters use for source maps.
+ */
+export type IRExpression = string;
+
+export interface ComponentIR {
+  name: string;
+  // Whether the source used TypeScript syntax
+  typescript: boolean;
+  // Generic parameters of the component, as source (`T extends Item`)
+  typeParameters: string[];
+  props: IRProp[];
+  // Name of the props interface when the source exported it; emitters that
+  // declare one keep the name and export it so importers still resolve
+  propsInterface?: string;
+  events: IREvent[];
+  state: IRState[];
+  derived: IRDerived[];
+  refs: IRRef[];
+  // Context keys the component's module declares for descendants
+  contexts: IRContext[];
+  injections: IRInjection[];
+  composables: IRComposable[];
+  methods: IRMethod[];
+  effects: IREffect[];
+  slots: IRSlot[];
+  template: IRNode[];
+  styles: IRStyle[];
+  // Non-framework imports, carried over as-is
+  imports: DependencyInfo[];
+  // Module-level statements outside the component (constants, helpers,
+  // types); exported types keep their `export`
+  declarations: string[];
+  warnings: string[];
+}
+
+export interface IRProp {
+  name: string;
+  type?: string;
+  required: boolean;
+  default?: IRExpression;
+  // JSDoc text, without the comment markers
+  description?: string;
+  loc?: SourcePosition;
+}
+
+export interface IREvent {
+  // kebab-case, e.g. `item-selected`
+  name: string;
+  payloadType?: string;
+  loc?: SourcePosition;
+}
+
+export interface IRState {
+  name: string;
+  initial: IRExpression;
+  type?: string;
+  // Non-reactive instance values (React refs holding data, plain fields)
+  reactive: boolean;
+  loc?: SourcePosition;
+}
+
+export interface IRDerived {
+  name: string;
+  expression: IRExpression;
+  dependencies: string[];
+  type?: string;
+  loc?: SourcePosition;
+}
+
+// Element reference bound with `ref=` / `bind:this` / `#name`
+export interface IRRef {
+  name: string;
+  type?: string;
+  loc?: SourcePosition;
+}
+
+// A key descendants read a provided value with: React `createContext`,
+// a Vue `InjectionKey`, a Svelte context key or an Angular `InjectionToken`
+export interface IRContext {
+  name: string;
+  // Type of the provided value
+  type?: string;
+  // Value read when no ancestor provides one
+  default?: IRExpression;
+  exported: boolean;
+  loc?: SourcePosition;
+}
+
+// Value provided by an ancestor: `useContext`, `inject`, `getContext` or DI
+export interface IRInjection {
+  // Identifier or destructuring pattern source
+  binding: string;
+  // Names the binding declares
+  names: string[];
+  // The context object, injection key or token
+  key: IRExpression;
+  default?: IRExpression;
+  type?: string;
+  loc?: SourcePosition;
+}
+
+/**
+ * Call of a reusable stateful function defined outside the component: a
+ * React custom hook or a Vue composable. The call is kept as written; the
+ * function itself must exist in the target's idiom.
+ */
+export interface IRComposable {
+  // Function called, e.g. `useCounter`
+  callee: string;
+  args: IRExpression[];
+  // Identifier or destructuring pattern source; none when only called
+  binding?: string;
+  names: string[];
+  loc?: SourcePosition;
+}
+
+export interface IRMethod {
+  name: string;
+  params: string[];
+  // Block statement source, including braces
+  body: string;
+  async: boolean;
+  loc?: SourcePosition;
+}
+
+export interface IREffect {
+  // `change` runs after updates to its dependencies, or after every update
+  // when it has none
+  trigger: 'mount' | 'unmount' | 'change';
+  body: string;
+  cleanup?: string;
+  dependencies: string[];
+  loc?: SourcePosition;
+}
+
+export interface IRSlot {
+  // `default` for the unnamed slot
+  name: string;
+  params: string[];
+}
+
+export interface IRStyle {
+  content: string;
+  scoped: boolean;
+  lang?: string;
+  // Stylesheet file the styles are loaded from; `content` is then empty
+  src?: string;
+}
+
+export type IRNode =
+  | IRElement
+  | IRText
+  | IRInterpolation
+  | IRIf
+  | IRFor
+  | IRSlotOutlet
+  | IRComment;
+
+export interface IRElement {
+  type: 'element';
+  // HTML tag, or PascalCase name for components
+  tag: string;
+  component: boolean;
+  attributes: IRAttribute[];
+  events: IREventBinding[];
+  ref?: string;
+  children: IRNode[];
+  // Named or scoped slot content passed to a component
+  slots: IRSlotContent[];
+  loc?: SourcePosition;
+}
+
+/**
+ * Attribute names use DOM spelling (`class`, `for`, `innerHTML`); bound
+ * `class` and `style` values are strings, arrays or objects as in Vue, and
+ * style object keys are camelCase.
+ */
+export type IRAttribute =
+  | { kind: 'static'; name: string; value: string | true }
+  | { kind: 'bound'; name: string; expression: IRExpression }
+  | { kind: 'spread'; expression: IRExpression }
+  // Two-way binding of `value` or `checked` to a state expression
+  | { kind: 'model'; name: string; expression: IRExpression };
+
+export interface IREventBinding {
+  // DOM event name (`click`, `dblclick`) or kebab-case component event
+  name: string;
+  // A function reference or function expression
+  handler: IRExpression;
+  // `prevent`, `stop`, `once`, `self`, `capture` or a key name such as `enter`
+  modifiers: string[];
+}
+
+export interface IRText {
+  type: 'text';
+  value: string;
+}
+
+export interface IRInterpolation {
+  type: 'expression';
+  expression: IRExpression;
+}
+
+export interface IRIf {
+  type: 'if';
+  // The last branch has no condition when there is an else
+  branches: Array<{ condition?: IRExpression; children: IRNode[] }>;
+  loc?: SourcePosition;
+}
+
+export interface IRFor {
+  type: 'for';
+  source: IRExpression;
+  // Identifier or destructuring pattern source
+  item: string;
+  index?: string;
+  key?: IRExpression;
+  children: IRNode[];
+  loc?: SourcePosition;
+}
+
+export interface IRSlotOutlet {
+  type: 'slot';
+  name: string;
+  // Values passed to scoped slot content
+  props: Array<{ name: string; expression: IRExpression }>;
+  fallback: IRNode[];
+  loc?: SourcePosition;
+}
+
+export interface IRSlotContent {
+  name: string;
+  // Parameter pattern source for scoped slots
+  params?: string;
+  children: IRNode[];
+}
+
+export interface IRComment {
+  type: 'comment';
+  value: string;
+}
+
+export interface IRParser {
+  parse(code: string): ComponentIR;
+}
+
+export interface IREmitResult {
+  code: string;
+  warnings: string[];
+}
+
+export interface IREmitter {
+  emit(ir: ComponentIR, options: TranspilerOptions): IREmitResult;
+}
@@ -0,0 +1,424 @@
+import { parse, ParserPlugin } from '@babel/parser';
+import traverse, { NodePath, TraverseOptions } from '@babel/traverse';
+import generate from '@babel/generator';
+import * as t from '@babel/types';
+
+const SNIPPET_PLUGINS: ParserPlugin[] = ['jsx', 'typescript'];
+
+export type CodeKind = 'expression' | 'block';
+
+export function generateCode(node: t.Node): string {
+  return generate(node, { jsescOption: { quotes: 'single' } }).code;
+}
+
+// The generator prints parameter annotations from the function, not the parameter
+export function paramSource(param: t.Function['params'][number]): string {
+  const code = generateCode(param);
+  if (!t.isIdentifier(param) && !t.isObjectPattern(param) && !t.isArrayPattern(param) && !t.isRestElement(param)) {
+    return code;
+  }
+  const optional = t.isIdentifier(param) && param.optional ? '?' : '';
+  const annotation = t.isTSTypeAnnotation(param.typeAnnotation) ? `: ${generateCode(param.typeAnnotation.typeAnnotation)}` : '';
+  return `${code}${optional}${annotation}`;
+}
+
+function parseSnippet(code: string, kind: CodeKind): t.File {
+  // Wrap expressions in parens so object literals don't parse as blocks
+  return parse(kind === 'expression' ? `(${code}\n);` : code, {
+    sourceType: 'module',
+    plugins: SNIPPET_PLUGINS,
+    allowReturnOutsideFunction: true,
+    allowAwaitOutsideFunction: true
+  });
+}
+
+function printSnippet(file: t.File, kind: CodeKind): string {
+  const statement = file.program.body[0];
+  if (kind === 'expression' && t.isExpressionStatement(statement)) {
+    return generateCode(statement.expression);
+  }
+  return file.program.body.map(generateCode).join('\n');
+}
+
+/**
+ * Parse an expression or `{ ... }` block, run a visitor over it and print it
+ * back. Snippets are parsed on their own, so component members show up as
+ * unbound identifiers.
+ */
+export function transformCode(code: string, kind: CodeKind, visitor: TraverseOptions): string {
+  const file = parseSnippet(code, kind);
+  traverse(file, visitor);
+  return printSnippet(file, kind);
+}
+
+export function parseSnippetExpression(code: string): t.Expression {
+  const statement = parseSnippet(code, 'expression').program.body[0];
+  return (statement as t.ExpressionStatement).expression;
+}
+
+// One-line form of an expression, for template attributes and interpolations
+export function inlineCode(code: string): string {
+  if (!code.includes('\n')) return code;
+  return generate(parseSnippetExpression(code), { concise: true, jsescOption: { quotes: 'single' } }).code;
+}
+
+// True for reads and writes of a name that isn't declared inside the snippet
+export function isFreeReference(path: NodePath<t.Identifier>): boolean {
+  const { node, parent } = path;
+  const assigned = t.isAssignmentExpression(parent) && parent.left === node;
+  if (!assigned && !path.isReferencedIdentifier()) {
+    return false;
+  }
+  if (t.isObjectProperty(parent) && parent.key === node && !parent.shorthand) {
+    return false;
+  }
+  return !path.scope.hasBinding(node.name, true);
+}
+
+// Replace an identifier, expanding `{ name }` shorthand when needed
+export function replaceIdentifier(path: NodePath<t.Identifier>, replacement: t.Expression): void {
+  const { parent } = path;
+  if (t.isObjectProperty(parent) && parent.shorthand && parent.value === path.node) {
+    parent.shorthand = false;
+    parent.key = t.identifier(path.node.name);
+  }
+  path.replaceWith(replacement);
+}
+
+/**
+ * Rewrite free references to component members. `replace` returns the new
+ * expression for a name, or null to keep it; replacements are not visited
+ * again, so `count` can safely become `count.value`.
+ */
+export function rewriteReferences(
+  code: string,
+  kind: CodeKind,
+  replace: (name: string, path: NodePath<t.Identifier>) => t.Expression | null,
+  visitor: TraverseOptions = {}
+): string {
+  const created = new WeakSet<t.Node>();
+  return transformCode(code, kind, {
+    ...visitor,
+    Identifier(path: NodePath<t.Identifier>) {
+      if (created.has(path.node) || !isFreeReference(path)) return;
+      const replacement = replace(path.node.name, path);
+      if (!replacement) return;
+      t.traverseFast(replacement, node => {
+        created.add(node);
+      });
+      replaceIdentifier(path, replacement);
+    }
+  } as TraverseOptions);
+}
+
+// A `useState` name is unbound in a snippet and destructured from the hook in a file
+function isHookBinding(path: NodePath, name: string): boolean {
+  const binding = path.scope.getBinding(name);
+  return !binding || (binding.path.isVariableDeclarator() && t.isArrayPattern(binding.path.node.id));
+}
+
+/**
+ * A React handler reads the state of the render it came from, even after
+ * calling the setter, while the targets assign state at once. State read after
+ * its setter is read from a local taken before the setter, so
+ * `setCount(count + step); onChange?.(count + step)` reports the value set.
+ * `setters` maps each setter to the state it sets.
+ */
+export function snapshotStateVisitor(setters: Map<string, string>): TraverseOptions {
+  // States whose setter a statement calls, outside the functions it declares
+  const statesSet = (statement: NodePath<t.Statement>): string[] => {
+    const states: string[] = [];
+    if (statement.isFunctionDeclaration()) return states;
+    const visit = (path: NodePath<t.CallExpression>) => {
+      const { callee } = path.node;
+      if (t.isIdentifier(callee) && setters.has(callee.name) && isHookBinding(path, callee.name)) {
+        states.push(setters.get(callee.name)!);
+      }
+    };
+    if (statement.isExpressionStatement() && statement.get('expression').isCallExpression()) {
+      visit(statement.get('expression') as NodePath<t.CallExpression>);
+    }
+    statement.traverse({ Function: path => path.skip(), CallExpression: visit });
+    return states;
+  };
+
+  const reads = (statement: NodePath<t.Statement>, state: string): NodePath<t.Identifier>[] => {
+    const found: NodePath<t.Identifier>[] = [];
+    statement.traverse({
+      Identifier(path) {
+        const { node, parent } = path;
+        if (node.name !== state || !path.isReferencedIdentifier()) return;
+        if (t.isObjectProperty(parent) && parent.key === node && !parent.shorthand) return;
+        if (isHookBinding(path, state)) found.push(path);
+      }
+    });
+    return found;
+  };
+
+  return {
+    'Program|BlockStatement'(path: NodePath<t.Program | t.BlockStatement>) {
+      const body = path.get('body') as NodePath<t.Statement>[];
+      const snapshots = new Map<string, string>();
+
+      body.forEach((statement, index) => {
+        snapshots.forEach((local, state) => {
+          reads(statement, state).forEach(read => replaceIdentifier(read, t.identifier(local)));
+        });
+
+        for (const state of statesSet(statement)) {
+          const later = body.slice(index + 1);
+          if (snapshots.has(state) || !later.some(next => reads(next, state).length > 0)) continue;
+          const candidate = `previous${pascalCase(state)}`;
+          const local = statement.scope.hasBinding(candidate) ? statement.scope.generateUid(candidate) : candidate;
+          statement.insertBefore(t.variableDeclaration('const', [t.variableDeclarator(t.identifier(local), t.identifier(state))]));
+          snapshots.set(state, local);
+        }
+      });
+    }
+  } as TraverseOptions;
+}
+
+/**
+ * Snapshot state read after its setter across a whole React file, before a
+ * transpiler rewrites it. The path and scope caches are dropped afterwards so
+ * later traversals see the new locals in their bindings.
+ */
+export function snapshotHookState(ast: t.File): void {
+  const setters = new Map<string, string>();
+  traverse(ast, {
+    VariableDeclarator(path) {
+      const { id, init } = path.node;
+      if (!t.isArrayPattern(id) || !t.isCallExpression(init)) return;
+      const [state, setter] = id.elements;
+      const callee = init.callee;
+      const isUseState = t.isIdentifier(callee, { name: 'useState' })
+        || (t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'React' })
+          && t.isIdentifier(callee.property, { name: 'useState' }));
+      if (isUseState && t.isIdentifier(state) && t.isIdentifier(setter)) {
+        setters.set(setter.name, state.name);
+      }
+    }
+  });
+  if (setters.size === 0) return;
+
+  traverse(ast, snapshotStateVisitor(setters));
+  traverse.cache.clear();
+}
+
+// Visitor replacing `$emit('name', ...args)` calls with a target's equivalent
+export function emitVisitor(replace: (event: string, args: t.Expression[]) => t.Expression): TraverseOptions {
+  return {
+    CallExpression(path: NodePath<t.CallExpression>) {
+      const [event, ...args] = path.node.arguments;
+      if (!t.isIdentifier(path.node.callee, { name: '$emit' }) || !t.isStringLiteral(event)
+        || path.scope.hasBinding('$emit', true)) {
+        return;
+      }
+      path.replaceWith(replace(event.value, args as t.Expression[]));
+    }
+  };
+}
+
+// Remove TypeScript syntax so a snippet runs as JavaScript
+export function stripTypes(code: string, kind: CodeKind): string {
+  return transformCode(code, kind, {
+    enter(path: NodePath) {
+      const node = path.node as t.Node & Record<string, unknown>;
+      if (path.isTSAsExpression() || path.isTSSatisfiesExpression() || path.isTSNonNullExpression() || path.isTSTypeAssertion()) {
+        path.replaceWith(path.node.expression);
+        return;
+      }
+      if (path.isTSInterfaceDeclaration() || path.isTSTypeAliasDeclaration() || path.isTSDeclareFunction()) {
+        path.remove();
+        return;
+      }
+      if (path.isImportDeclaration() && path.node.importKind === 'type') {
+        path.remove();
+        return;
+      }
+      for (const key of ['typeAnnotation', 'returnType', 'typeParameters']) {
+        if (node[key] && !path.isTSTypeAnnotation()) node[key] = null;
+      }
+      if (path.isIdentifier() && path.node.optional) path.node.optional = false;
+    }
+  });
+}
+
+// Type for a local hoisted out of an effect, from its initialiser
+export function hoistedType(body: string, name: string): string {
+  const timer = new RegExp(`\\b${name}\\s*=\\s*(setInterval|setTimeout)\\(`).exec(body);
+  return timer ? `ReturnType<typeof ${timer[1]}> | undefined` : 'any';
+}
+
+// Names read or written by a snippet that aren't declared inside it
+export function freeReferences(code: string, kind: CodeKind = 'expression'): string[] {
+  const names = new Set<string>();
+  traverse(parseSnippet(code, kind), {
+    Identifier(path) {
+      if (isFreeReference(path)) {
+        names.add(path.node.name);
+      }
+    },
+    JSXIdentifier(path) {
+      if (t.isJSXExpressionContainer(path.parent)) {
+        names.add(path.node.name);
+      }
+    }
+  });
+  return [...names];
+}
+
+// Inner statements of a `{ ... }` block, without the braces
+export function blockStatements(block: string): string {
+  const file = parseSnippet(block, 'block');
+  const statement = file.program.body[0];
+  if (file.program.body.length === 1 && t.isBlockStatement(statement)) {
+    return statement.body.map(generateCode).join('\n');
+  }
+  return file.program.body.map(generateCode).join('\n');
+}
+
+// Body of a function node as block source
+export function functionBody(fn: t.Function): string {
+  if (t.isBlockStatement(fn.body)) {
+    return generateCode(fn.body);
+  }
+  return `{\n  return ${generateCode(fn.body)};\n}`;
+}
+
+// Body of a callback whose return value is unused, as block source
+export function statementBody(fn: t.Function): string {
+  if (t.isBlockStatement(fn.body)) {
+    return generateCode(fn.body);
+  }
+  return generateCode(t.blockStatement([t.expressionStatement(fn.body)]));
+}
+
+// Value computed by a getter: its expression body, sole return, or an IIFE
+export function getterSource(fn: t.Function): string {
+  if (!t.isBlockStatement(fn.body)) {
+    return generateCode(fn.body);
+  }
+  const statements = fn.body.body;
+  if (statements.length === 1 && t.isReturnStatement(statements[0]) && statements[0].argument) {
+    return generateCode(statements[0].argument);
+  }
+  return `(() => ${generateCode(fn.body)})()`;
+}
+
+/**
+ * Locals an effect body declares that its cleanup reads. Emitters that run
+ * cleanup from a separate hook hoist these to component scope.
+ */
+export function sharedLocals(body: string, cleanup: string): string[] {
+  const declared: string[] = [];
+  const block = parseSnippet(body, 'block').program.body[0];
+  if (t.isBlockStatement(block)) {
+    block.body.forEach(statement => {
+      if (t.isVariableDeclaration(statement)) {
+        statement.declarations.forEach(declarator => {
+          if (t.isIdentifier(declarator.id)) declared.push(declarator.id.name);
+        });
+      }
+    });
+  }
+  const used = freeReferences(cleanup, 'block');
+  return declared.filter(name => used.includes(name));
+}
+
+// Turn the top-level declarations of `names` in a block into assignments
+export function hoistLocals(body: string, names: string[]): string {
+  if (names.length === 0) return body;
+  return transformCode(body, 'block', {
+    VariableDeclaration(path) {
+      if (!t.isBlockStatement(path.parent) || !t.isProgram(path.parentPath.parent)) return;
+      const { declarations } = path.node;
+      if (!declarations.every(d => t.isIdentifier(d.id) && names.includes(d.id.name))) return;
+
+      path.replaceWithMultiple(declarations.map(d => t.expressionStatement(
+        t.assignmentExpression('=', t.identifier((d.id as t.Identifier).name), d.init ?? t.identifier('undefined'))
+      )));
+    }
+  });
+}
+
+export function isEmptyBlock(block: string): boolean {
+  return blockStatements(block).trim() === '';
+}
+
+export function indent(code: string, depth: number): string {
+  const pad = '  '.repeat(depth);
+  return code
+    .split('\n')
+    .map(line => (line.trim() ? pad + line : ''))
+    .join('\n');
+}
+
+export function kebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .replace(/[_\s]+/g, '-')
+    .toLowerCase();
+}
+
+export function camelCase(name: string): string {
+  return name.replace(/[-_:]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+export function pascalCase(name: string): string {
+  const camel = camelCase(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+// JSDoc block for a description, on one line when it fits there
+export function docComment(description: string): string {
+  const lines = description.split('\n');
+  if (lines.length === 1) return `/** ${description} */`;
+  return ['/**', ...lines.map(line => (line ? ` * ${line}` : ' *')), ' */'].join('\n');
+}
+
+// Parameters of a `generic`/`generics` attribute (`T extends Item, K`), one per entry
+export function splitTypeParameters(source: string): string[] {
+  const alias = parse(`type __T<${source}> = 0;`, { sourceType: 'module', plugins: ['typescript'] }).program.body[0];
+  if (!t.isTSTypeAliasDeclaration(alias) || !alias.typeParameters) return [];
+  return alias.typeParameters.params.map(generateCode);
+}
+
+// Source of a function or class type parameter list, one entry per parameter
+export function typeParameterSources(
+  params: t.TSTypeParameterDeclaration | t.TypeParameterDeclaration | t.Noop | null | undefined
+): string[] {
+  return t.isTSTypeParameterDeclaration(params) ? params.params.map(generateCode) : [];
+}
+
+/**
+ * Each name a destructuring pattern declares with the member access reading
+ * it from the destructured value (`{ count, inc: increment }` gives
+ * `count` → `.count` and `increment` → `.inc`). Null when the pattern is a
+ * plain identifier or nests further than one level.
+ */
+export function patternAccessors(binding: string): Array<[string, string]> | null {
+  const declaration = parse(`const ${binding} = 0;`, { sourceType: 'module', plugins: SNIPPET_PLUGINS }).program.body[0];
+  const pattern = (declaration as t.VariableDeclaration).declarations[0].id;
+  const accessors: Array<[string, string]> = [];
+
+  if (t.isObjectPattern(pattern)) {
+    for (const property of pattern.properties) {
+      if (!t.isObjectProperty(property) || property.computed || !t.isIdentifier(property.key)) return null;
+      const value = t.isAssignmentPattern(property.value) ? property.value.left : property.value;
+      const fallback = t.isAssignmentPattern(property.value) ? ` ?? ${generateCode(property.value.right)}` : '';
+      if (!t.isIdentifier(value)) return null;
+      accessors.push([value.name, `.${property.key.name}${fallback}`]);
+    }
+  } else if (t.isArrayPattern(pattern)) {
+    for (const [index, element] of pattern.elements.entries()) {
+      if (element === null) continue;
+      if (!t.isIdentifier(element)) return null;
+      accessors.push([element.name, `[${index}]`]);
+    }
+  } else {
+    return null;
+  }
+  return accessors;
+}
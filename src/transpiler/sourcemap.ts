@@ -0,0 +1,223 @@
+import { FrameworkType, SourcePosition } from './types';
+
+/**
+ * Source maps for transpiled components. Transpilers asked for a map prefix
+ * output lines with a marker comment naming the input position the line came
+ * from; FrameworkTranspiler strips the markers, composes the maps of each
+ * hop and encodes the result as a standard v3 source map. Markers are plain
+ * comments, so they survive formatting and import reordering.
+ */
+export interface SourceMapV3 {
+  version: 3;
+  file?: string;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names: string[];
+  mappings: string;
+}
+
+// [generated column, source line (0-based), source column]
+export type SourceSegment = [number, number, number];
+
+// Segments for each generated line
+export type SourceMappings = SourceSegment[][];
+
+export const FRAMEWORK_EXTENSIONS: Record<FrameworkType, string> = {
+  react: 'tsx',
+  vue: 'vue',
+  angular: 'ts',
+  svelte: 'svelte',
+  solid: 'tsx',
+  preact: 'tsx',
+  lit: 'ts'
+};
+
+// Markers in script code, markup and JSX children. Formatters may add a
+// space after a marker, which goes with it.
+const MARKER_PATTERN = /(?:\{\/\*@map:(\d+):(\d+)\*\/\}|\/\*@map:(\d+):(\d+)\*\/|<!--@map:(\d+):(\d+)-->)[ \t]*/g;
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export type MarkerSyntax = 'script' | 'markup' | 'jsx';
+
+export function sourceMarker(position: SourcePosition, syntax: MarkerSyntax = 'script'): string {
+  const marker = `@map:${position.line}:${position.column}`;
+  if (syntax === 'markup') return `<!--${marker}-->`;
+  return syntax === 'jsx' ? `{/*${marker}*/}` : `/*${marker}*/`;
+}
+
+// Prefix a line with a marker, after its indentation
+export function markLine(line: string, position: SourcePosition | undefined, syntax: MarkerSyntax = 'script'): string {
+  if (!position) return line;
+  const indentation = /^[ \t]*/.exec(line)![0];
+  return indentation + sourceMarker(position, syntax) + line.slice(indentation.length);
+}
+
+// Code as it reads once markers are removed, for measuring lines
+export function withoutMarkers(code: string): string {
+  return code.replace(MARKER_PATTERN, '');
+}
+
+/**
+ * Remove markers from code and return the positions they recorded. A line
+ * holding nothing but markers (formatters move markup comments onto their
+ * own line) is dropped and its markers apply to the next line.
+ */
+export function extractSourceMap(code: string): { code: string; mappings: SourceMappings } {
+  const lines: string[] = [];
+  const mappings: SourceMappings = [];
+  let pending: SourcePosition[] = [];
+
+  for (const line of code.split('\n')) {
+    const positions: Array<{ column: number; position: SourcePosition }> = [];
+    let removed = 0;
+    const stripped = line.replace(MARKER_PATTERN, (marker: string, ...groups: any[]) => {
+      const index: number = groups[6];
+      const [sourceLine, sourceColumn] = groups.slice(0, 6).filter(group => group !== undefined);
+      positions.push({ column: index - removed, position: { line: Number(sourceLine), column: Number(sourceColumn) } });
+      removed += marker.length;
+      return '';
+    });
+
+    if (positions.length > 0 && !stripped.trim()) {
+      pending.push(...positions.map(entry => entry.position));
+      continue;
+    }
+
+    const indentation = /^\s*/.exec(stripped)![0].length;
+    const segments: SourceSegment[] = [];
+    const add = (column: number, position: SourcePosition) => {
+      // Nested nodes printed at the same place keep the outermost position
+      if (!segments.some(segment => segment[0] === column)) {
+        segments.push([column, position.line - 1, position.column]);
+      }
+    };
+    if (stripped.trim()) {
+      pending.forEach(position => add(indentation, position));
+      pending = [];
+    }
+    positions.forEach(entry => add(entry.column, entry.position));
+
+    lines.push(stripped);
+    mappings.push(segments);
+  }
+  return { code: lines.join('\n'), mappings };
+}
+
+/**
+ * Turn a fine-grained map (as produced by @babel/generator) into line
+ * markers: each generated line is marked with the input position of its
+ * first segment after the indentation.
+ */
+export function markMappedLines(code: string, mappings: string): string {
+  const decoded = decodeMappings(mappings);
+  return code
+    .split('\n')
+    .map((line, index) => {
+      const segments = decoded[index] ?? [];
+      const indentation = /^[ \t]*/.exec(line)![0].length;
+      const segment = segments.find(([column]) => column >= indentation) ?? segments[0];
+      return segment && line.trim() ? markLine(line, { line: segment[1] + 1, column: segment[2] }) : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Map positions through two steps: `outer` maps output to an intermediate
+ * file and `inner` maps that file to the original source. Segments pointing
+ * at intermediate lines the inner map doesn't cover are dropped.
+ */
+export function composeMappings(outer: SourceMappings, inner: SourceMappings): SourceMappings {
+  return outer.map(segments =>
+    segments.flatMap(([column, line, sourceColumn]): SourceSegment[] => {
+      const candidates = inner[line] ?? [];
+      if (candidates.length === 0) return [];
+      const match = [...candidates].reverse().find(segment => segment[0] <= sourceColumn) ?? candidates[0];
+      return [[column, match[1], match[2]]];
+    })
+  );
+}
+
+export function encodeSourceMap(
+  mappings: SourceMappings,
+  options: { file?: string; source: string; sourceContent?: string }
+): SourceMapV3 {
+  let previousLine = 0;
+  let previousColumn = 0;
+
+  const encoded = mappings.map(segments => {
+    let previousGenerated = 0;
+    return [...segments]
+      .sort((a, b) => a[0] - b[0])
+      .map(([column, line, sourceColumn]) => {
+        // Fields are deltas; the source index is always the first source
+        const fields = [column - previousGenerated, 0, line - previousLine, sourceColumn - previousColumn];
+        previousGenerated = column;
+        previousLine = line;
+        previousColumn = sourceColumn;
+        return fields.map(encodeVLQ).join('');
+      })
+      .join(',');
+  });
+
+  return {
+    version: 3,
+    ...(options.file ? { file: options.file } : {}),
+    sources: [options.source],
+    ...(options.sourceContent !== undefined ? { sourcesContent: [options.sourceContent] } : {}),
+    names: [],
+    mappings: encoded.join(';')
+  };
+}
+
+export function decodeMappings(mappings: string): SourceMappings {
+  let line = 0;
+  let sourceColumn = 0;
+
+  return mappings.split(';').map(group => {
+    let column = 0;
+    const segments: SourceSegment[] = [];
+    for (const segment of group.split(',')) {
+      if (!segment) continue;
+      const fields = decodeVLQ(segment);
+      column += fields[0];
+      // Segments without a source position carry only the column
+      if (fields.length < 4) continue;
+      line += fields[2];
+      sourceColumn += fields[3];
+      segments.push([column, line, sourceColumn]);
+    }
+    return segments;
+  });
+}
+
+function encodeVLQ(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let result = '';
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 32;
+    result += BASE64[digit];
+  } while (vlq > 0);
+  return result;
+}
+
+function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
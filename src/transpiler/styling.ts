@@ -0,0 +1,598 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath, Scope } from '@babel/traverse';
+import generate from '@babel/generator';
+import * as t from '@babel/types';
+import { FrameworkType } from './types';
+import { generateCode, indent, kebabCase, parseSnippetExpression, rewriteReferences } from './ir/utils';
+
+/**
+ * Styling translation (`styling: 'translate'`). Runs on the input of a hop
+ * from a JSX framework to one with component styles, before the input is
+ * parsed, and rewrites the component so its styling survives in the
+ * target's own form:
+ *
+ * - styled-components become plain elements with a class, and their CSS a
+ *   scoped stylesheet; interpolations become custom properties bound on
+ *   each element
+ * - CSS Module lookups become plain class names and the module becomes the
+ *   component's stylesheet (Vue `<style src>`, Angular `styleUrls`)
+ * - `clsx`/`classnames` calls become class objects, which the markup
+ *   targets bind natively; Tailwind and other class strings pass through
+ * - numeric style values gain the `px` React adds implicitly, and values
+ *   that may be numbers gain it when they are
+ *
+ * Lines are retained, so warnings and source maps still point at the input.
+ */
+
+export interface TranslatedStyling {
+  code: string;
+  // Scoped CSS generated from styled components
+  css: string;
+  // CSS Module files the component now loads as stylesheets
+  stylesheets: string[];
+  warnings: string[];
+}
+
+const JSX_FRAMEWORKS: FrameworkType[] = ['react', 'preact'];
+
+// Targets with component-scoped styles
+const SCOPED_STYLE_TARGETS: FrameworkType[] = ['vue', 'svelte', 'angular', 'lit'];
+
+// Targets that load a stylesheet file into the component
+const STYLESHEET_TARGETS: FrameworkType[] = ['vue', 'angular'];
+
+// Targets whose class bindings take `{ 'px-4': active }` objects
+const CLASS_OBJECT_TARGETS: FrameworkType[] = ['vue', 'svelte', 'angular'];
+
+const STYLED_SOURCES = ['styled-components', '@emotion/styled'];
+const CSS_MODULE = /\.module\.(css|scss|sass|less)$/;
+const CLASS_HELPERS = ['clsx', 'classnames', 'classNames', 'cn', 'cx'];
+// Packages of the helpers; a project's own `cn` stays imported
+const CLASS_HELPER_SOURCES = ['clsx', 'clsx/lite', 'classnames'];
+
+// CSS properties React prints numbers for without a unit
+const UNITLESS = new Set([
+  'animationIterationCount', 'aspectRatio', 'columnCount', 'columns', 'flex', 'flexGrow', 'flexShrink',
+  'fontWeight', 'gridArea', 'gridColumn', 'gridColumnEnd', 'gridColumnStart', 'gridRow', 'gridRowEnd',
+  'gridRowStart', 'lineClamp', 'lineHeight', 'opacity', 'order', 'orphans', 'scale', 'tabSize', 'widows',
+  'zIndex', 'zoom', 'fillOpacity', 'floodOpacity', 'stopOpacity', 'strokeMiterlimit', 'strokeOpacity', 'strokeWidth'
+]);
+
+interface StyledComponent {
+  name: string;
+  // Intrinsic tag, or the component `styled(Link)` wraps
+  tag: string;
+  intrinsic: boolean;
+  className: string;
+  css: string;
+  // Custom property values, in `var(--class-i)` order
+  values: t.Expression[];
+  declarator: NodePath<t.VariableDeclarator>;
+}
+
+export function translatesStyling(source: FrameworkType, target: FrameworkType): boolean {
+  return JSX_FRAMEWORKS.includes(source) && SCOPED_STYLE_TARGETS.includes(target);
+}
+
+export function translateJSXStyling(code: string, target: FrameworkType): TranslatedStyling {
+  const ast = parse(code, { sourceType: 'module', plugins: ['jsx', 'typescript'] });
+  const warnings: string[] = [];
+  const warn = (node: t.Node, message: string) => {
+    const line = node.loc?.start.line;
+    warnings.push(line !== undefined ? `Line ${line}: ${message}` : message);
+  };
+
+  let program!: NodePath<t.Program>;
+  traverse(ast, { Program(path) { program = path; path.stop(); } });
+
+  const styled = collectStyledComponents(program, warn);
+  styled.forEach(component => rewriteStyledUsages(program, component, warn));
+
+  const stylesheets = STYLESHEET_TARGETS.includes(target) ? inlineCssModules(program, warn) : [];
+
+  traverse(ast, {
+    JSXAttribute(path) {
+      const { name, value } = path.node;
+      if (!t.isJSXIdentifier(name) || !t.isJSXExpressionContainer(value)) return;
+
+      if ((name.name === 'className' || name.name === 'class') && CLASS_OBJECT_TARGETS.includes(target)) {
+        const call = value.expression;
+        if (t.isCallExpression(call) && t.isIdentifier(call.callee) && CLASS_HELPERS.includes(call.callee.name)) {
+          const object = classObject(call);
+          if (object) value.expression = object;
+          else warn(call, `${call.callee.name}() arguments are not all class names or conditions; the call was kept`);
+        }
+      }
+      if (name.name === 'style' && t.isObjectExpression(value.expression)) {
+        addPixelUnits(value.expression, path.scope);
+      }
+    }
+  });
+  foldStaticClasses(ast);
+  removeUnusedImports(program);
+
+  return {
+    code: generate(ast, { retainLines: true, jsescOption: { quotes: 'single' } }).code,
+    css: styled.map(component => component.css).join('\n\n'),
+    stylesheets,
+    warnings
+  };
+}
+
+// `const Button = styled.button\`...\`` and `styled(Link)\`...\`` declarations that can be translated
+function collectStyledComponents(program: NodePath<t.Program>, warn: (node: t.Node, message: string) => void): StyledComponent[] {
+  const styledName = program.node.body
+    .filter((statement): statement is t.ImportDeclaration => t.isImportDeclaration(statement))
+    .filter(statement => STYLED_SOURCES.includes(statement.source.value))
+    .flatMap(statement => statement.specifiers)
+    .find(spec => t.isImportDefaultSpecifier(spec))?.local.name;
+  if (!styledName) return [];
+
+  const components: StyledComponent[] = [];
+  program.get('body').forEach(statement => {
+    if (!statement.isVariableDeclaration()) return;
+    statement.get('declarations').forEach(declarator => {
+      const { id, init } = declarator.node;
+      if (!t.isIdentifier(id) || !t.isTaggedTemplateExpression(init)) return;
+
+      const target = styledTarget(init.tag, styledName);
+      if (!target) {
+        if (generateCode(init.tag).startsWith(styledName)) {
+          warn(init, `Styled component ${id.name} uses a form that cannot be translated (.attrs, themes or helpers); it was kept`);
+        }
+        return;
+      }
+
+      const binding = declarator.scope.getBinding(id.name);
+      const jsxOnly = binding?.referencePaths.every(reference => t.isJSXOpeningElement(reference.parent) || t.isJSXClosingElement(reference.parent));
+      if (!jsxOnly) {
+        warn(init, `Styled component ${id.name} is used outside JSX; it was kept`);
+        return;
+      }
+
+      const className = kebabCase(id.name);
+      const values: t.Expression[] = [];
+      let text = '';
+      for (const [index, quasi] of init.quasi.quasis.entries()) {
+        text += quasi.value.cooked ?? quasi.value.raw;
+        const expression = init.quasi.expressions[index];
+        if (!expression) continue;
+        if (!t.isExpression(expression) || !interpolationSupported(expression)) {
+          warn(expression, `Interpolation in styled component ${id.name} cannot be translated; the component was kept`);
+          return;
+        }
+        text += `var(--${className}-${values.length})`;
+        values.push(expression);
+      }
+
+      components.push({
+        name: id.name,
+        ...target,
+        className,
+        css: flattenRules([`.${className}`], text).join('\n\n'),
+        values,
+        declarator
+      });
+    });
+  });
+  return components;
+}
+
+function styledTarget(tag: t.Expression, styledName: string): { tag: string; intrinsic: boolean } | null {
+  // styled.button
+  if (t.isMemberExpression(tag) && t.isIdentifier(tag.object, { name: styledName }) && t.isIdentifier(tag.property) && !tag.computed) {
+    return { tag: tag.property.name, intrinsic: true };
+  }
+  // styled('button') and styled(Link)
+  if (t.isCallExpression(tag) && t.isIdentifier(tag.callee, { name: styledName }) && tag.arguments.length === 1) {
+    const [argument] = tag.arguments;
+    if (t.isStringLiteral(argument)) return { tag: argument.value, intrinsic: true };
+    if (t.isIdentifier(argument)) return { tag: argument.name, intrinsic: false };
+  }
+  return null;
+}
+
+// Prop functions with an expression body, or plain values such as constants
+function interpolationSupported(expression: t.Expression): boolean {
+  if (t.isArrowFunctionExpression(expression) || t.isFunctionExpression(expression)) {
+    const [param] = expression.params;
+    return t.isExpression(expression.body) && expression.params.length <= 1
+      && (!param || t.isIdentifier(param) || t.isObjectPattern(param));
+  }
+  return !t.isTaggedTemplateExpression(expression);
+}
+
+/**
+ * Flatten one level of styled-components nesting into plain rules:
+ * `&:hover` joins the parent selector, other selectors become descendants
+ * and at-rules wrap the rules inside them.
+ */
+function flattenRules(selectors: string[], text: string): string[] {
+  const declarations: string[] = [];
+  const nested: string[] = [];
+  let buffer = '';
+  let selector = '';
+  let depth = 0;
+
+  const body = text.replace(/\/\*[\s\S]*?\*\//g, '');
+  for (const char of body) {
+    if (depth === 0) {
+      if (char === ';') {
+        if (buffer.trim()) declarations.push(buffer.trim());
+        buffer = '';
+      } else if (char === '{') {
+        selector = buffer.trim();
+        buffer = '';
+        depth = 1;
+      } else {
+        buffer += char;
+      }
+      continue;
+    }
+
+    if (char === '{') depth++;
+    if (char === '}') depth--;
+    if (depth > 0) {
+      buffer += char;
+      continue;
+    }
+
+    if (selector.startsWith('@')) {
+      nested.push(`${selector} {\n${indent(flattenRules(selectors, buffer).join('\n\n'), 1)}\n}`);
+    } else {
+      const combined = selectors.flatMap(parent => selector.split(',').map(part => part.trim()).map(part =>
+        (part.includes('&') ? part.replace(/&/g, parent) : `${parent} ${part}`)
+      ));
+      nested.push(...flattenRules(combined, buffer));
+    }
+    buffer = '';
+  }
+  if (buffer.trim()) declarations.push(buffer.trim());
+
+  const own = declarations.length
+    ? [`${selectors.join(', ')} {\n${declarations.map(declaration => `  ${declaration};`).join('\n')}\n}`]
+    : [];
+  return [...own, ...nested];
+}
+
+function rewriteStyledUsages(
+  program: NodePath<t.Program>,
+  component: StyledComponent,
+  warn: (node: t.Node, message: string) => void
+): void {
+  program.traverse({
+    JSXElement(path) {
+      const opening = path.node.openingElement;
+      if (!t.isJSXIdentifier(opening.name, { name: component.name })) return;
+
+      const attributes = new Map<string, t.Expression>();
+      opening.attributes.forEach(attribute => {
+        if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) return;
+        const { value } = attribute;
+        attributes.set(attribute.name.name, value === null || value === undefined
+          ? t.booleanLiteral(true)
+          : t.isJSXExpressionContainer(value) && t.isExpression(value.expression) ? value.expression
+            : t.isStringLiteral(value) ? t.stringLiteral(value.value) : value as t.Expression);
+      });
+
+      // Props the CSS reads are styling input, not DOM attributes
+      const consumed = new Set<string>();
+      const properties = component.values.map((value, index) => t.objectProperty(
+        t.stringLiteral(`--${component.className}-${index}`),
+        interpolationValue(value, attributes, consumed, component, warn)
+      ));
+
+      opening.attributes = opening.attributes.filter(attribute => {
+        if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) return true;
+        const name = attribute.name.name;
+        return !name.startsWith('$') && !(component.intrinsic && consumed.has(name));
+      });
+      addClass(opening, component.className);
+      if (properties.length) addStyleProperties(opening, properties, warn);
+
+      opening.name = t.jsxIdentifier(component.tag);
+      if (path.node.closingElement) path.node.closingElement.name = t.jsxIdentifier(component.tag);
+    }
+  });
+  component.declarator.remove();
+}
+
+// The interpolation as an expression over the attributes of one usage
+function interpolationValue(
+  value: t.Expression,
+  attributes: Map<string, t.Expression>,
+  consumed: Set<string>,
+  component: StyledComponent,
+  warn: (node: t.Node, message: string) => void
+): t.Expression {
+  if (!t.isArrowFunctionExpression(value) && !t.isFunctionExpression(value)) {
+    return t.cloneNode(value);
+  }
+
+  const [param] = value.params;
+  const attribute = (name: string): t.Expression => {
+    if (name === 'theme') {
+      warn(value, `Styled component ${component.name} reads the theme; bind the value yourself`);
+    }
+    consumed.add(name);
+    return attributes.has(name) ? t.cloneNode(attributes.get(name)!) : t.identifier('undefined');
+  };
+
+  const body = generateCode(value.body as t.Expression);
+  const destructured = t.isObjectPattern(param)
+    ? new Map(param.properties
+      .filter((property): property is t.ObjectProperty => t.isObjectProperty(property) && t.isIdentifier(property.key))
+      .map(property => [t.isIdentifier(property.value) ? property.value.name : (property.key as t.Identifier).name, (property.key as t.Identifier).name]))
+    : new Map<string, string>();
+
+  const code = rewriteReferences(body, 'expression', name => (destructured.has(name) ? attribute(destructured.get(name)!) : null), {
+    MemberExpression(path) {
+      const { object, property, computed } = path.node;
+      if (t.isIdentifier(param) && t.isIdentifier(object, { name: param.name }) && t.isIdentifier(property) && !computed) {
+        path.replaceWith(attribute(property.name));
+      }
+    }
+  });
+  return parseSnippetExpression(code);
+}
+
+function addClass(opening: t.JSXOpeningElement, className: string): void {
+  const existing = opening.attributes.find((attribute): attribute is t.JSXAttribute =>
+    t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name) && ['className', 'class'].includes(attribute.name.name));
+
+  if (!existing) {
+    opening.attributes.unshift(t.jsxAttribute(t.jsxIdentifier('className'), t.stringLiteral(className)));
+  } else if (t.isStringLiteral(existing.value)) {
+    existing.value = t.stringLiteral(`${className} ${existing.value.value}`);
+  } else if (t.isJSXExpressionContainer(existing.value) && t.isExpression(existing.value.expression)) {
+    existing.value = t.jsxExpressionContainer(t.templateLiteral(
+      [t.templateElement({ raw: `${className} ` }), t.templateElement({ raw: '' }, true)],
+      [existing.value.expression]
+    ));
+  }
+}
+
+function addStyleProperties(opening: t.JSXOpeningElement, properties: t.ObjectProperty[], warn: (node: t.Node, message: string) => void): void {
+  const existing = opening.attributes.find((attribute): attribute is t.JSXAttribute =>
+    t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name, { name: 'style' }));
+
+  if (!existing) {
+    opening.attributes.push(t.jsxAttribute(t.jsxIdentifier('style'), t.jsxExpressionContainer(t.objectExpression(properties))));
+  } else if (t.isJSXExpressionContainer(existing.value) && t.isObjectExpression(existing.value.expression)) {
+    existing.value.expression.properties.push(...properties);
+  } else {
+    warn(opening, 'The style attribute is not an object literal; the styled values were not bound');
+  }
+}
+
+// `clsx('btn', active && 'on', { big })` as `{ btn: true, on: active, big }`
+function classObject(call: t.CallExpression): t.ObjectExpression | null {
+  const properties: t.ObjectExpression['properties'] = [];
+  // One key per class, so `class:` directives stay valid names
+  const entry = (names: string, condition: t.Expression) => {
+    names.split(/\s+/).filter(Boolean).forEach(name => properties.push(t.objectProperty(t.stringLiteral(name), t.cloneNode(condition))));
+  };
+
+  for (const argument of call.arguments) {
+    if (t.isStringLiteral(argument)) {
+      entry(argument.value, t.booleanLiteral(true));
+    } else if (t.isLogicalExpression(argument, { operator: '&&' }) && t.isStringLiteral(argument.right)) {
+      entry(argument.right.value, argument.left);
+    } else if (t.isConditionalExpression(argument) && t.isStringLiteral(argument.consequent) && t.isStringLiteral(argument.alternate)) {
+      entry(argument.consequent.value, argument.test);
+      entry(argument.alternate.value, t.unaryExpression('!', argument.test));
+    } else if (t.isObjectExpression(argument) && argument.properties.every(property => !t.isSpreadElement(property))) {
+      properties.push(...argument.properties);
+    } else {
+      return null;
+    }
+  }
+  return t.objectExpression(properties);
+}
+
+/**
+ * React adds `px` to numbers; the other targets don't. Numbers gain it
+ * here, and references that may hold one gain it when they do.
+ */
+function addPixelUnits(style: t.ObjectExpression, scope: Scope): void {
+  style.properties.forEach(property => {
+    if (!t.isObjectProperty(property) || !t.isExpression(property.value)) return;
+    const key = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : '';
+    if (!key || key.startsWith('--') || UNITLESS.has(key)) return;
+
+    const { value } = property;
+    // Concatenated, since Angular templates only recently read template literals
+    const pixels = () => t.binaryExpression('+', t.cloneNode(value), t.stringLiteral('px'));
+    const type = valueType(value, scope);
+    if (t.isNumericLiteral(value)) {
+      if (value.value !== 0) property.value = t.stringLiteral(`${value.value}px`);
+    } else if (type === 'number') {
+      property.value = pixels();
+    } else if (!type && (t.isIdentifier(value) || (t.isMemberExpression(value) && !value.computed))) {
+      // `typeof size === 'number' ? size + 'px' : size`
+      property.value = t.conditionalExpression(
+        t.binaryExpression('===', t.unaryExpression('typeof', t.cloneNode(value)), t.stringLiteral('number')),
+        pixels(),
+        t.cloneNode(value)
+      );
+    } else {
+      return;
+    }
+    property.shorthand = false;
+  });
+}
+
+// Whether an expression is always a number or always a string, where the source says so
+function valueType(expression: t.Expression, scope: Scope): 'number' | 'string' | undefined {
+  if (t.isNumericLiteral(expression)) return 'number';
+  if (t.isStringLiteral(expression) || t.isTemplateLiteral(expression)) return 'string';
+  if (t.isUnaryExpression(expression) && (expression.operator === '-' || expression.operator === '+')) return 'number';
+  if (t.isTSAsExpression(expression)) return declaredType(expression.typeAnnotation);
+  if (t.isBinaryExpression(expression)) {
+    if (expression.operator !== '+') return ['-', '*', '/', '%', '**'].includes(expression.operator) ? 'number' : undefined;
+    const left = t.isExpression(expression.left) ? valueType(expression.left, scope) : undefined;
+    const right = valueType(expression.right, scope);
+    if (left === 'string' || right === 'string') return 'string';
+    return left === 'number' && right === 'number' ? 'number' : undefined;
+  }
+  if (t.isConditionalExpression(expression)) {
+    const consequent = valueType(expression.consequent, scope);
+    return consequent === valueType(expression.alternate, scope) ? consequent : undefined;
+  }
+  if (t.isIdentifier(expression)) {
+    return bindingType(expression.name, scope);
+  }
+  if (t.isMemberExpression(expression) && t.isIdentifier(expression.object) && t.isIdentifier(expression.property) && !expression.computed) {
+    // `props.size`, typed by the props parameter
+    const binding = scope.getBinding(expression.object.name);
+    const param = binding?.kind === 'param' && t.isIdentifier(binding.path.node) ? binding.path.node : null;
+    const annotation = param && t.isTSTypeAnnotation(param.typeAnnotation) ? param.typeAnnotation.typeAnnotation : null;
+    return annotation ? memberType(annotation, expression.property.name, scope) : undefined;
+  }
+  return undefined;
+}
+
+// A variable's type: its annotation, a typed prop it destructures, its useState initial value or its const value
+function bindingType(name: string, scope: Scope): 'number' | 'string' | undefined {
+  const binding = scope.getBinding(name);
+  if (!binding) return undefined;
+  const { node } = binding.path;
+
+  if (binding.kind === 'param') {
+    if (t.isIdentifier(node) && t.isTSTypeAnnotation(node.typeAnnotation)) {
+      return declaredType(node.typeAnnotation.typeAnnotation);
+    }
+    if (t.isObjectPattern(node) && t.isTSTypeAnnotation(node.typeAnnotation)) {
+      const property = node.properties.find((candidate): candidate is t.ObjectProperty =>
+        t.isObjectProperty(candidate) && t.isIdentifier(candidate.value, { name }) && t.isIdentifier(candidate.key));
+      return property ? memberType(node.typeAnnotation.typeAnnotation, (property.key as t.Identifier).name, scope) : undefined;
+    }
+    return undefined;
+  }
+
+  if (!t.isVariableDeclarator(node)) return undefined;
+  if (t.isIdentifier(node.id) && t.isTSTypeAnnotation(node.id.typeAnnotation)) {
+    return declaredType(node.id.typeAnnotation.typeAnnotation);
+  }
+  if (t.isArrayPattern(node.id) && t.isIdentifier(node.id.elements[0], { name }) && t.isCallExpression(node.init)) {
+    const { callee, arguments: [initial], typeParameters } = node.init;
+    const hook = t.isIdentifier(callee) ? callee.name : t.isMemberExpression(callee) && t.isIdentifier(callee.property) ? callee.property.name : '';
+    if (hook !== 'useState') return undefined;
+    if (typeParameters?.params.length) return declaredType(typeParameters.params[0]);
+    return t.isExpression(initial) ? valueType(initial, scope) : undefined;
+  }
+  if (binding.kind === 'const' && t.isIdentifier(node.id) && node.init) {
+    return valueType(node.init, scope);
+  }
+  return undefined;
+}
+
+// A required property's type in a type literal, or in an interface or type alias the file declares
+function memberType(annotation: t.TSType, name: string, scope: Scope): 'number' | 'string' | undefined {
+  let members: t.TSTypeElement[] = [];
+  if (t.isTSTypeLiteral(annotation)) {
+    members = annotation.members;
+  } else if (t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName)) {
+    const typeName = annotation.typeName.name;
+    (scope.getProgramParent().path.node as t.Program).body.forEach(statement => {
+      const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+      if (t.isTSInterfaceDeclaration(declaration) && declaration.id.name === typeName) {
+        members = declaration.body.body;
+      } else if (t.isTSTypeAliasDeclaration(declaration) && declaration.id.name === typeName && t.isTSTypeLiteral(declaration.typeAnnotation)) {
+        members = declaration.typeAnnotation.members;
+      }
+    });
+  }
+
+  // An optional prop may be undefined, which React leaves out
+  const member = members.find((candidate): candidate is t.TSPropertySignature =>
+    t.isTSPropertySignature(candidate) && t.isIdentifier(candidate.key, { name }) && !candidate.optional);
+  return member?.typeAnnotation ? declaredType(member.typeAnnotation.typeAnnotation) : undefined;
+}
+
+function declaredType(type: t.TSType): 'number' | 'string' | undefined {
+  if (t.isTSNumberKeyword(type) || (t.isTSLiteralType(type) && t.isNumericLiteral(type.literal))) return 'number';
+  if (t.isTSStringKeyword(type) || (t.isTSLiteralType(type) && t.isStringLiteral(type.literal))) return 'string';
+  if (t.isTSUnionType(type)) {
+    const types = type.types.map(member => declaredType(member));
+    return types.every(member => member === types[0]) ? types[0] : undefined;
+  }
+  return undefined;
+}
+
+// `styles.card` is the class `card` once the module is the component's stylesheet
+function inlineCssModules(program: NodePath<t.Program>, warn: (node: t.Node, message: string) => void): string[] {
+  const stylesheets: string[] = [];
+
+  program.get('body').forEach(statement => {
+    if (!statement.isImportDeclaration() || !CSS_MODULE.test(statement.node.source.value)) return;
+    const specifier = statement.node.specifiers.find(spec => t.isImportDefaultSpecifier(spec));
+    if (!specifier) return;
+
+    const references = statement.scope.getBinding(specifier.local.name)?.referencePaths ?? [];
+    const lookups = references.map(reference => reference.parentPath);
+    if (!references.every(reference => t.isMemberExpression(reference.parent, { object: reference.node }))) {
+      warn(statement.node, `CSS Module ${specifier.local.name} is used other than as a class lookup; it was kept`);
+      return;
+    }
+
+    lookups.forEach(lookup => {
+      const { property, computed } = lookup!.node as t.MemberExpression;
+      if (!computed && t.isIdentifier(property)) {
+        lookup!.replaceWith(t.stringLiteral(property.name));
+      } else if (t.isExpression(property)) {
+        lookup!.replaceWith(property);
+      }
+    });
+    stylesheets.push(statement.node.source.value);
+    statement.remove();
+  });
+  return stylesheets;
+}
+
+// `className={'card'}` and `` `${'a'} ${b}` `` read as plain strings again
+function foldStaticClasses(ast: t.File): void {
+  traverse(ast, {
+    TemplateLiteral: {
+      exit(path) {
+        const { quasis, expressions } = path.node;
+        if (!expressions.some(expression => t.isStringLiteral(expression))) return;
+
+        const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+        const raws = [quasis[0].value.raw];
+        const kept: typeof expressions = [];
+        expressions.forEach((expression, index) => {
+          if (t.isStringLiteral(expression)) {
+            raws[raws.length - 1] += escape(expression.value) + quasis[index + 1].value.raw;
+          } else {
+            kept.push(expression);
+            raws.push(quasis[index + 1].value.raw);
+          }
+        });
+
+        if (kept.length === 0) {
+          path.replaceWith(t.stringLiteral(raws[0].replace(/\\(.)/g, '$1')));
+        } else {
+          path.replaceWith(t.templateLiteral(raws.map((raw, index) => t.templateElement({ raw }, index === raws.length - 1)), kept));
+        }
+      }
+    },
+    JSXExpressionContainer(path) {
+      if (t.isJSXAttribute(path.parent) && t.isStringLiteral(path.node.expression)) {
+        path.replaceWith(t.stringLiteral(path.node.expression.value));
+      }
+    }
+  });
+}
+
+// The styled and class helper imports go once nothing uses them
+function removeUnusedImports(program: NodePath<t.Program>): void {
+  program.scope.crawl();
+  program.get('body').forEach(statement => {
+    if (!statement.isImportDeclaration()) return;
+    const source = statement.node.source.value;
+    if (!STYLED_SOURCES.includes(source) && !CLASS_HELPER_SOURCES.includes(source)) return;
+    const used = statement.node.specifiers.some(spec => program.scope.getBinding(spec.local.name)?.referenced);
+    if (!used) statement.remove();
+  });
+}
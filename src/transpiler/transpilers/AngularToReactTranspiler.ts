@@ -1,8 +0,0 @@
-import { TranspilerInterface } from '../types'
-
-export class AngularToReactTranspiler implements TranspilerInterface {
-  transpile(code: string): string {
-    // TODO: Implement Angular to React transpilation
-    return code
-  }
-}
\ No newline at end of file
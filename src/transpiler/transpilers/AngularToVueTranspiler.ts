@@ -1,8 +0,0 @@
-import { TranspilerInterface } from '../types'
-
-export class AngularToVueTranspiler implements TranspilerInterface {
-  transpile(code: string): string {
-    // TODO: Implement Angular to Vue transpilation
-    return code
-  }
-}
\ No newline at end of file
@@ -1,8 +1,14 @@
-import { ComponentMetadata, TranspilerOptions, FrameworkType } from '../types';
+import generate from '@babel/generator';
+import type * as t from '@babel/types';
+import { sourcePosition } from '../ir/builders';
+import { markLine, markMappedLines, MarkerSyntax } from '../sourcemap';
+import { ComponentMetadata, TranspilerOptions, FrameworkType, SourcePosition } from '../types';
 
 export abstract class BaseTranspiler {
   protected warnings: string[] = [];
   protected errors: string[] = [];
+  // Transpilers that print output by hand set this from the options
+  protected generateSourceMap = false;
 
   abstract transpile(
     code: string,
@@ -14,6 +20,28 @@ export abstract class BaseTranspiler {
     this.warnings.push(message);
   }
 
+  protected addNodeWarning(node: t.Node, message: string): void {
+    // Prefix with the source line so users can find the construct
+    const line = node.loc?.start.line;
+    this.addWarning(line !== undefined ? `Line ${line}: ${message}` : message);
+  }
+
+  // Print a transformed AST, marking lines with their input positions
+  // when a source map was asked for
+  protected printAST(ast: t.File, code: string, options: TranspilerOptions): string {
+    if (!options.generateSourceMap) {
+      return generate(ast, { retainLines: false }, code).code;
+    }
+    const output = generate(ast, { retainLines: false, sourceMaps: true, sourceFileName: 'input' }, code);
+    return markMappedLines(output.code, output.map!.mappings);
+  }
+
+  // Prefix printed code with the input position it came from (see sourcemap.ts)
+  protected markSource(code: string, source: t.Node | SourcePosition | undefined, syntax: MarkerSyntax = 'script'): string {
+    if (!this.generateSourceMap || !source) return code;
+    return markLine(code, 'type' in source ? sourcePosition(source) : source, syntax);
+  }
+
   protected addError(message: string): void {
     this.errors.push(message);
   }
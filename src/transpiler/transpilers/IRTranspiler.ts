@@ -0,0 +1,32 @@
+import { ComponentMetadata, TranspilerOptions } from '../types';
+import { IREmitter, IRParser } from '../ir/types';
+import { BaseTranspiler } from './BaseTranspiler';
+
+/**
+ * Transpiles through the component IR: the source parser lowers the code
+ * and the target emitter raises it again. Any parser can be paired with any
+ * emitter, so a new framework only needs one of each.
+ */
+export class IRTranspiler extends BaseTranspiler {
+  constructor(
+    private parser: IRParser,
+    private emitter: IREmitter
+  ) {
+    super();
+  }
+
+  async transpile(
+    code: string,
+    metadata: ComponentMetadata,
+    options: TranspilerOptions = {}
+  ): Promise<any> {
+    const ir = metadata.ir ?? this.parser.parse(code);
+    const result = this.emitter.emit(ir, options);
+
+    return {
+      code: result.code,
+      metadata: { ...metadata, ir },
+      warnings: [...ir.warnings, ...result.warnings]
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import { ComponentMetadata, TranspilerOptions } from '../types';
+import { BaseTranspiler } from './BaseTranspiler';
+
+// Exports that live in react-dom rather than react
+const REACT_DOM_EXPORTS = ['render', 'hydrate', 'createPortal', 'findDOMNode', 'unmountComponentAtNode', 'flushSync'];
+
+const PREACT_SOURCES: Record<string, string> = {
+  'preact': 'react',
+  'preact/hooks': 'react',
+  'preact/compat': 'react',
+  'preact/compat/client': 'react-dom/client',
+  'preact/compat/server': 'react-dom/server',
+  'preact/test-utils': 'react-dom/test-utils',
+  'preact/jsx-runtime': 'react/jsx-runtime'
+};
+
+// Preact type names and their React counterparts
+const TYPE_NAMES: Record<string, string> = {
+  ComponentChildren: 'ReactNode',
+  ComponentChild: 'ReactNode',
+  FunctionComponent: 'FunctionComponent',
+  FunctionalComponent: 'FunctionComponent',
+  JSX: 'JSX'
+};
+
+export class PreactToReactTranspiler extends BaseTranspiler {
+  async transpile(
+    code: string,
+    metadata: ComponentMetadata,
+    options: TranspilerOptions = {}
+  ): Promise<any> {
+    this.warnings = [];
+
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+
+    const self = this;
+    traverse(ast, {
+      ImportDeclaration(path) {
+        const source = path.node.source.value;
+
+        if (source.startsWith('@preact/signals')) {
+          self.addNodeWarning(path.node, `${source} has no React equivalent; signals must be rewritten as state`);
+          return;
+        }
+
+        const target = PREACT_SOURCES[source];
+        if (!target) return;
+
+        // Split specifiers that belong to react-dom into their own import
+        const domSpecifiers = path.node.specifiers.filter(spec =>
+          t.isImportSpecifier(spec) && REACT_DOM_EXPORTS.includes(self.importedName(spec))
+        );
+        const reactSpecifiers = path.node.specifiers.filter(spec => !domSpecifiers.includes(spec));
+
+        reactSpecifiers.forEach(spec => {
+          if (!t.isImportSpecifier(spec)) return;
+          const imported = self.importedName(spec);
+          if (imported === 'h') {
+            spec.imported = t.identifier('createElement');
+          } else if (TYPE_NAMES[imported] && TYPE_NAMES[imported] !== imported) {
+            spec.imported = t.identifier(TYPE_NAMES[imported]);
+          }
+        });
+
+        const declarations: t.ImportDeclaration[] = [];
+        if (reactSpecifiers.length > 0 || domSpecifiers.length === 0) {
+          declarations.push(t.importDeclaration(reactSpecifiers, t.stringLiteral(target)));
+        }
+        if (domSpecifiers.length > 0) {
+          declarations.push(t.importDeclaration(domSpecifiers, t.stringLiteral('react-dom')));
+        }
+        path.replaceWithMultiple(declarations);
+        path.skip();
+      },
+
+      JSXAttribute(path) {
+        const name = path.node.name;
+        if (!t.isJSXIdentifier(name)) return;
+
+        const element = path.parentPath.node as t.JSXOpeningElement;
+        const tag = t.isJSXIdentifier(element.name) ? element.name.name : '';
+
+        if (name.name === 'class') {
+          name.name = 'className';
+        } else if (name.name === 'for') {
+          name.name = 'htmlFor';
+        } else if (name.name === 'onDblClick') {
+          name.name = 'onDoubleClick';
+        } else if (name.name === 'onInput' && (tag === 'input' || tag === 'textarea')) {
+          // React's onChange is the per-keystroke event
+          name.name = 'onChange';
+        }
+      }
+    });
+
+    return {
+      code: this.printAST(ast, code, options),
+      metadata,
+      warnings: this.warnings
+    };
+  }
+
+  private importedName(spec: t.ImportSpecifier): string {
+    return t.isIdentifier(spec.imported) ? spec.imported.name : spec.imported.value;
+  }
+}
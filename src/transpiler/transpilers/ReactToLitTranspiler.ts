@@ -0,0 +1,1068 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import generate from '@babel/generator';
+import * as t from '@babel/types';
+import { snapshotHookState } from '../ir/utils';
+import { ComponentMetadata, TranspilerOptions } from '../types';
+import { BaseTranspiler } from './BaseTranspiler';
+
+// Elements that must not have a closing tag in HTML
+const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'source', 'track', 'wbr'
+];
+
+// DOM properties that should be bound as properties, not attributes
+const PROPERTY_BINDINGS = ['value', 'checked', 'selected', 'indeterminate'];
+
+// Attributes whose presence is the value
+const BOOLEAN_ATTRIBUTES = ['disabled', 'hidden', 'required', 'readOnly', 'multiple', 'open', 'autoFocus'];
+
+// CSS properties React leaves unitless when given a number
+const UNITLESS_STYLES = [
+  'opacity', 'zIndex', 'flex', 'flexGrow', 'flexShrink', 'fontWeight',
+  'lineHeight', 'order', 'zoom', 'orphans', 'widows', 'columnCount'
+];
+
+type MemberKind = 'prop' | 'event' | 'children' | 'state' | 'setter' | 'memo' | 'ref' | 'value-ref' | 'method';
+
+interface LitMember {
+  kind: MemberKind;
+  member: string;
+}
+
+interface LitClassParts {
+  fields: string[];
+  getters: string[];
+  methods: string[];
+  firstUpdated: string[];
+  updated: string[];
+  disconnected: string[];
+  render: string[];
+}
+
+/**
+ * Converts a React function component into a LitElement class. Props become
+ * `@property()` fields, state becomes `@state()` fields and the returned JSX
+ * is rewritten as an `html` tagged template.
+ */
+export class ReactToLitTranspiler extends BaseTranspiler {
+  private litImports = new Set<string>();
+  private decoratorImports = new Set<string>();
+  private directiveImports = new Map<string, string>();
+  private customElements = new Set<string>();
+  private multilineTemplate = false;
+
+  async transpile(
+    code: string,
+    metadata: ComponentMetadata,
+    options: TranspilerOptions = {}
+  ): Promise<any> {
+    this.warnings = [];
+    this.generateSourceMap = !!options.generateSourceMap;
+    this.litImports = new Set(['LitElement', 'html']);
+    this.decoratorImports = new Set(['customElement']);
+    this.directiveImports = new Map();
+    this.customElements = new Set();
+
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+
+    snapshotHookState(ast);
+    const component = this.findComponent(ast);
+    if (!component) {
+      throw new Error('No React function component found to convert to Lit');
+    }
+
+    const name = this.componentName(component) || metadata.name;
+    const members = this.collectMembers(component, ast);
+    this.rewriteReferences(component, members);
+    this.convertJSX(component);
+
+    const parts = this.buildClassParts(component, members, ast);
+    const classCode = this.generateClass(name, parts, metadata.styles);
+
+    // Keep everything except the component itself and React imports
+    const statement = component.getStatementParent()!;
+    const propsType = this.propsTypeName(component);
+    const rest = ast.program.body
+      .filter(node => node !== statement.node)
+      .filter(node => !this.isUnusedPropsType(node, propsType, ast))
+      .filter(node => !(t.isImportDeclaration(node) && (node.source.value === 'react' || node.source.value.startsWith('react-dom'))))
+      .map(node => ({ node, code: generate(node).code }));
+
+    const imports = rest.filter(({ code }) => code.startsWith('import ')).map(({ node, code }) => this.markSource(code, node));
+    const others = rest.filter(({ code }) => !code.startsWith('import ')).map(({ node, code }) => this.markSource(code, node));
+
+    this.customElements.forEach(tag => {
+      this.addWarning(`<${tag}> must be registered as a custom element for the Lit template to render it`);
+    });
+
+    return {
+      code: [this.generateImports(), ...imports].join('\n') + '\n\n' +
+        (others.length > 0 ? others.join('\n\n') + '\n\n' : '') +
+        classCode,
+      metadata,
+      warnings: this.warnings
+    };
+  }
+
+  private findComponent(ast: t.File): NodePath<t.Function> | null {
+    let found: NodePath<t.Function> | null = null;
+
+    traverse(ast, {
+      Function(path) {
+        if (found) return;
+        const parent = path.parentPath;
+        const atTopLevel = path.isFunctionDeclaration()
+          ? parent.isProgram() || parent.isExportNamedDeclaration() || parent.isExportDefaultDeclaration()
+          : parent.isVariableDeclarator() || (parent.isCallExpression() && parent.parentPath.isVariableDeclarator());
+
+        if (atTopLevel && path.getFunctionParent() === null) {
+          let returnsJSX = false;
+          path.traverse({
+            JSXElement() { returnsJSX = true; },
+            JSXFragment() { returnsJSX = true; }
+          });
+          if (returnsJSX) {
+            found = path;
+            path.stop();
+          }
+        }
+      }
+    });
+
+    return found;
+  }
+
+  private componentName(path: NodePath<t.Function>): string | null {
+    if (t.isFunctionDeclaration(path.node) && path.node.id) return path.node.id.name;
+    const declarator = path.findParent(p => p.isVariableDeclarator());
+    if (declarator && t.isIdentifier((declarator.node as t.VariableDeclarator).id)) {
+      return ((declarator.node as t.VariableDeclarator).id as t.Identifier).name;
+    }
+    return null;
+  }
+
+  private hookName(callee: t.Node): string | null {
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'React' }) && t.isIdentifier(callee.property)) {
+      return callee.property.name;
+    }
+    return null;
+  }
+
+  private eventName(prop: string): string {
+    const name = prop.slice(2);
+    return this.convertCamelToKebab(name.charAt(0).toLowerCase() + name.slice(1));
+  }
+
+  /**
+   * Map every component-level binding (props, state, refs, functions) to
+   * the class member it becomes.
+   */
+  private collectMembers(component: NodePath<t.Function>, ast: t.File): Map<string, LitMember> {
+    const members = new Map<string, LitMember>();
+    const param = component.node.params[0];
+
+    const addProp = (local: string, key: string) => {
+      if (key === 'children') {
+        members.set(local, { kind: 'children', member: key });
+      } else if (/^on[A-Z]/.test(key)) {
+        members.set(local, { kind: 'event', member: this.eventName(key) });
+      } else {
+        members.set(local, { kind: 'prop', member: key });
+      }
+    };
+
+    if (t.isObjectPattern(param)) {
+      param.properties.forEach(property => {
+        if (t.isRestElement(property)) {
+          this.addNodeWarning(property, 'Rest props cannot be forwarded by a Lit element');
+          return;
+        }
+        if (!t.isIdentifier(property.key)) return;
+        const value = t.isAssignmentPattern(property.value) ? property.value.left : property.value;
+        if (t.isIdentifier(value)) addProp(value.name, property.key.name);
+      });
+    }
+
+    const body = component.node.body;
+    if (!t.isBlockStatement(body)) return members;
+
+    body.body.forEach(statement => {
+      if (t.isFunctionDeclaration(statement) && statement.id) {
+        members.set(statement.id.name, { kind: 'method', member: statement.id.name });
+        return;
+      }
+      if (!t.isVariableDeclaration(statement) || statement.declarations.length !== 1) return;
+
+      const { id, init } = statement.declarations[0];
+      if (t.isIdentifier(id) && (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))) {
+        members.set(id.name, { kind: 'method', member: id.name });
+        return;
+      }
+      if (!t.isCallExpression(init)) return;
+
+      switch (this.hookName(init.callee)) {
+        case 'useState':
+        case 'useReducer':
+          if (t.isArrayPattern(id) && t.isIdentifier(id.elements[0])) {
+            const state = id.elements[0].name;
+            members.set(state, { kind: 'state', member: state });
+            if (t.isIdentifier(id.elements[1])) {
+              const isReducer = this.hookName(init.callee) === 'useReducer';
+              members.set(id.elements[1].name, { kind: isReducer ? 'method' : 'setter', member: isReducer ? id.elements[1].name : state });
+            }
+          }
+          break;
+        case 'useMemo':
+          if (t.isIdentifier(id)) members.set(id.name, { kind: 'memo', member: id.name });
+          break;
+        case 'useCallback':
+          if (t.isIdentifier(id)) members.set(id.name, { kind: 'method', member: id.name });
+          break;
+        case 'useRef':
+          if (t.isIdentifier(id)) {
+            const initial = init.arguments[0];
+            const isElementRef = !initial || t.isNullLiteral(initial);
+            members.set(id.name, { kind: isElementRef ? 'ref' : 'value-ref', member: id.name });
+          }
+          break;
+      }
+    });
+
+    return members;
+  }
+
+  private thisMember(name: string): t.MemberExpression {
+    return t.memberExpression(t.thisExpression(), t.identifier(name));
+  }
+
+  private dispatchEvent(event: string, args: t.Node[]): t.CallExpression {
+    const init: t.ObjectProperty[] = [];
+    if (args.length > 0) {
+      init.push(t.objectProperty(t.identifier('detail'), args[0] as t.Expression));
+    }
+    init.push(
+      t.objectProperty(t.identifier('bubbles'), t.booleanLiteral(true)),
+      t.objectProperty(t.identifier('composed'), t.booleanLiteral(true))
+    );
+
+    return t.callExpression(
+      t.memberExpression(t.thisExpression(), t.identifier('dispatchEvent')),
+      [t.newExpression(t.identifier('CustomEvent'), [t.stringLiteral(event), t.objectExpression(init)])]
+    );
+  }
+
+  /**
+   * Rewrite reads of component bindings to `this.*`, setter calls to
+   * assignments and event prop calls to `dispatchEvent`.
+   */
+  private rewriteReferences(component: NodePath<t.Function>, members: Map<string, LitMember>): void {
+    const scope = component.scope;
+    const param = component.node.params[0];
+
+    // props.x reads when props are not destructured
+    if (t.isIdentifier(param)) {
+      scope.getBinding(param.name)?.referencePaths.forEach(reference => {
+        const parent = reference.parentPath;
+        if (parent?.isMemberExpression() && t.isIdentifier(parent.node.property) && !parent.node.computed) {
+          const key = parent.node.property.name;
+          if (/^on[A-Z]/.test(key)) {
+            const call = parent.parentPath;
+            if ((call?.isCallExpression() || call?.isOptionalCallExpression()) && call.node.callee === parent.node) {
+              call.replaceWith(this.dispatchEvent(this.eventName(key), call.node.arguments));
+              members.set(`props.${key}`, { kind: 'event', member: this.eventName(key) });
+              return;
+            }
+            this.addNodeWarning(parent.node, `Event prop "${key}" is passed on uncalled; re-dispatch the event instead`);
+          }
+          members.set(`props.${key}`, { kind: key === 'children' ? 'children' : 'prop', member: key });
+          parent.replaceWith(this.thisMember(key));
+        } else {
+          this.addNodeWarning(reference.node, 'The props object is used as a whole; Lit exposes props as element properties');
+          reference.replaceWith(t.thisExpression());
+        }
+      });
+    }
+
+    const deferred: Array<() => void> = [];
+
+    members.forEach((info, local) => {
+      if (local.startsWith('props.')) return;
+      const binding = scope.getBinding(local);
+      if (!binding) return;
+
+      binding.referencePaths.forEach(reference => {
+        const parent = reference.parentPath;
+        if (parent?.isObjectProperty() && parent.node.shorthand) {
+          parent.node.shorthand = false;
+        }
+
+        switch (info.kind) {
+          case 'prop':
+          case 'children':
+          case 'state':
+          case 'memo':
+          case 'method':
+            reference.replaceWith(this.thisMember(info.member));
+            break;
+
+          case 'ref':
+          case 'value-ref':
+            if (parent?.isMemberExpression() && t.isIdentifier(parent.node.property, { name: 'current' })) {
+              parent.replaceWith(info.kind === 'ref'
+                ? t.memberExpression(this.thisMember(info.member), t.identifier('value'))
+                : this.thisMember(info.member));
+            } else {
+              reference.replaceWith(this.thisMember(info.member));
+            }
+            break;
+
+          // Calls wrap other references, so rewrite them last
+          case 'setter':
+          case 'event':
+            deferred.push(() => this.rewriteCall(reference, info));
+            break;
+        }
+      });
+    });
+
+    deferred.forEach(rewrite => rewrite());
+  }
+
+  private rewriteCall(reference: NodePath, info: LitMember): void {
+    const call = reference.parentPath;
+    const isCall = (call?.isCallExpression() || call?.isOptionalCallExpression()) && call.node.callee === reference.node;
+
+    if (info.kind === 'event') {
+      if (isCall) {
+        call!.replaceWith(this.dispatchEvent(info.member, (call!.node as t.CallExpression).arguments));
+      } else {
+        reference.replaceWith(t.arrowFunctionExpression(
+          [t.identifier('detail')],
+          this.dispatchEvent(info.member, [t.identifier('detail')])
+        ));
+      }
+      return;
+    }
+
+    const target = this.thisMember(info.member);
+    if (!isCall) {
+      reference.replaceWith(t.arrowFunctionExpression(
+        [t.identifier('value')],
+        t.assignmentExpression('=', target, t.identifier('value'))
+      ));
+      return;
+    }
+
+    const argumentPath = (call as NodePath<t.CallExpression>).get('arguments.0') as NodePath;
+    const argument = argumentPath.node;
+
+    // setX(prev => prev + 1) => this.x = this.x + 1
+    if (t.isArrowFunctionExpression(argument) && t.isExpression(argument.body) &&
+        argument.params.length === 1 && t.isIdentifier(argument.params[0])) {
+      const previous = (argument.params[0] as t.Identifier).name;
+      argumentPath.scope.getBinding(previous)?.referencePaths.forEach(ref => {
+        ref.replaceWith(this.thisMember(info.member));
+      });
+      call!.replaceWith(t.assignmentExpression('=', target, argument.body as t.Expression));
+      return;
+    }
+
+    const value = t.isArrowFunctionExpression(argument) || t.isFunctionExpression(argument)
+      ? t.callExpression(argument, [this.thisMember(info.member)])
+      : (argument as t.Expression) || t.identifier('undefined');
+    call!.replaceWith(t.assignmentExpression('=', target, value));
+  }
+
+  private containsJSX(node: t.Node): boolean {
+    let found = false;
+    t.traverseFast(node, child => {
+      if (t.isJSXElement(child) || t.isJSXFragment(child)) found = true;
+    });
+    return found;
+  }
+
+  private isEmptyRender(node: t.Node): boolean {
+    return t.isNullLiteral(node) || t.isBooleanLiteral(node) || t.isIdentifier(node, { name: 'undefined' });
+  }
+
+  private nothing(): t.Identifier {
+    this.litImports.add('nothing');
+    return t.identifier('nothing');
+  }
+
+  private directive(name: string, module: string): t.Identifier {
+    this.directiveImports.set(name, module);
+    return t.identifier(name);
+  }
+
+  /**
+   * Replace JSX with `html` tagged templates. `&&` and empty ternary
+   * branches render `nothing`, and keyed `.map()` calls use `repeat`.
+   */
+  private convertJSX(component: NodePath<t.Function>): void {
+    const self = this;
+
+    component.traverse({
+      LogicalExpression(path) {
+        if (path.node.operator !== '&&' || !self.containsJSX(path.node.right)) return;
+        path.replaceWith(t.conditionalExpression(path.node.left, path.node.right, self.nothing()));
+      },
+
+      ConditionalExpression(path) {
+        if (!self.containsJSX(path.node)) return;
+        if (self.isEmptyRender(path.node.consequent)) path.node.consequent = self.nothing();
+        if (self.isEmptyRender(path.node.alternate)) path.node.alternate = self.nothing();
+      },
+
+      ReturnStatement(path) {
+        const argument = path.node.argument;
+        if (argument && self.isEmptyRender(argument)) path.node.argument = self.nothing();
+      },
+
+      CallExpression(path) {
+        const { callee, arguments: args } = path.node;
+        if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property, { name: 'map' })) return;
+
+        const callback = args[0];
+        if (!(t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback))) return;
+
+        const body = t.isBlockStatement(callback.body)
+          ? callback.body.body.find((stmt): stmt is t.ReturnStatement => t.isReturnStatement(stmt))?.argument
+          : callback.body;
+        const root = t.isParenthesizedExpression(body) ? body.expression : body;
+        if (!t.isJSXElement(root)) return;
+
+        const key = root.openingElement.attributes.find(
+          (attr): attr is t.JSXAttribute => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, { name: 'key' })
+        );
+        if (!key || !t.isJSXExpressionContainer(key.value) || !t.isExpression(key.value.expression)) return;
+
+        // items.map(item => <li key={item.id} />) => repeat(items, item => item.id, item => html`<li>`)
+        path.replaceWith(t.callExpression(self.directive('repeat', 'lit/directives/repeat.js'), [
+          callee.object as t.Expression,
+          t.arrowFunctionExpression(callback.params.map(param => t.cloneNode(param)), key.value.expression),
+          callback
+        ]));
+      },
+
+      JSXElement(path) {
+        if (path.parentPath.isJSXElement() || path.parentPath.isJSXFragment()) return;
+        path.replaceWith(self.toTemplate(path.node, self.isRenderRoot(path, component)));
+      },
+
+      JSXFragment(path) {
+        if (path.parentPath.isJSXElement() || path.parentPath.isJSXFragment()) return;
+        path.replaceWith(self.toTemplate(path.node, self.isRenderRoot(path, component)));
+      }
+    });
+  }
+
+  private isRenderRoot(path: NodePath, component: NodePath<t.Function>): boolean {
+    const parent = path.parentPath?.isParenthesizedExpression() ? path.parentPath.parentPath : path.parentPath;
+    if (parent === component) return true;
+    return !!parent?.isReturnStatement() && parent.getFunctionParent() === component;
+  }
+
+  private toTemplate(node: t.JSXElement | t.JSXFragment, multiline: boolean): t.TaggedTemplateExpression {
+    this.multilineTemplate = multiline;
+    const quasis: string[] = [''];
+    const expressions: t.Expression[] = [];
+
+    const emit = (text: string) => {
+      quasis[quasis.length - 1] += text;
+    };
+    const hole = (expression: t.Expression) => {
+      expressions.push(expression);
+      quasis.push('');
+    };
+
+    emit(this.lineBreak(1));
+    this.writeNode(node, emit, hole, 1);
+    emit(this.lineBreak(0));
+
+    return t.taggedTemplateExpression(
+      t.identifier('html'),
+      t.templateLiteral(
+        quasis.map((raw, index) => t.templateElement({ raw, cooked: raw }, index === quasis.length - 1)),
+        expressions
+      )
+    );
+  }
+
+  private escapeTemplateText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  }
+
+  private lineBreak(depth: number): string {
+    return this.multilineTemplate ? `\n${'  '.repeat(depth)}` : '';
+  }
+
+  private writeNode(
+    node: t.JSXElement | t.JSXFragment,
+    emit: (text: string) => void,
+    hole: (expression: t.Expression) => void,
+    depth: number
+  ): void {
+    if (t.isJSXFragment(node)) {
+      this.writeChildren(node.children, emit, hole, depth, false);
+      return;
+    }
+
+    const name = node.openingElement.name;
+    if (t.isJSXIdentifier(name, { name: 'Fragment' }) ||
+        (t.isJSXMemberExpression(name) && name.property.name === 'Fragment')) {
+      this.writeChildren(node.children, emit, hole, depth, false);
+      return;
+    }
+
+    const tag = this.tagName(name);
+    const isNative = /^[a-z]/.test(tag) && !this.customElements.has(tag);
+    let innerHTML: t.Expression | null = null;
+    const slotted: Array<{ slot: string; content: t.JSXElement | t.JSXFragment }> = [];
+
+    emit(this.multilineTemplate ? this.markSource(`<${tag}`, node, 'markup') : `<${tag}`);
+
+    node.openingElement.attributes.forEach(attribute => {
+      if (t.isJSXSpreadAttribute(attribute)) {
+        this.addNodeWarning(attribute, 'Spread attributes have no Lit equivalent and were dropped');
+        return;
+      }
+
+      const rawName = t.isJSXNamespacedName(attribute.name)
+        ? `${attribute.name.namespace.name}:${attribute.name.name.name}`
+        : attribute.name.name;
+      const value = attribute.value;
+
+      if (rawName === 'key') return;
+
+      const attrName = rawName === 'className' ? 'class' : rawName === 'htmlFor' ? 'for' : rawName;
+
+      if (!value) {
+        emit(` ${isNative ? attrName.toLowerCase() : attrName}`);
+        return;
+      }
+
+      if (t.isStringLiteral(value)) {
+        emit(` ${isNative ? attrName : attrName.toLowerCase()}="${value.value.replace(/"/g, '&quot;')}"`);
+        return;
+      }
+
+      if (t.isJSXElement(value) || t.isJSXFragment(value)) {
+        slotted.push({ slot: rawName, content: value });
+        return;
+      }
+
+      if (!t.isJSXExpressionContainer(value) || !t.isExpression(value.expression)) return;
+      const expression = value.expression;
+
+      if (t.isJSXElement(expression) || t.isJSXFragment(expression)) {
+        slotted.push({ slot: rawName, content: expression });
+        return;
+      }
+
+      if (/^on[A-Z]/.test(rawName)) {
+        emit(` @${this.domEventName(rawName, tag, isNative)}=`);
+        hole(expression);
+        return;
+      }
+
+      if (rawName === 'ref') {
+        emit(' ');
+        hole(t.callExpression(this.directive('ref', 'lit/directives/ref.js'), [expression]));
+        return;
+      }
+
+      if (rawName === 'dangerouslySetInnerHTML' && t.isObjectExpression(expression)) {
+        const html = expression.properties.find(
+          (prop): prop is t.ObjectProperty => t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: '__html' })
+        );
+        if (html) innerHTML = html.value as t.Expression;
+        return;
+      }
+
+      if (rawName === 'style' && t.isObjectExpression(expression)) {
+        emit(' style=');
+        hole(t.callExpression(this.directive('styleMap', 'lit/directives/style-map.js'), [this.styleObject(expression)]));
+        return;
+      }
+
+      if (t.isStringLiteral(expression)) {
+        emit(` ${attrName}="${expression.value.replace(/"/g, '&quot;')}"`);
+        return;
+      }
+
+      if (!isNative) {
+        emit(` .${attrName}=`);
+      } else if (PROPERTY_BINDINGS.includes(attrName)) {
+        emit(` .${attrName}=`);
+      } else if (BOOLEAN_ATTRIBUTES.includes(attrName)) {
+        emit(` ?${attrName.toLowerCase()}=`);
+      } else {
+        emit(` ${attrName}=`);
+      }
+      hole(expression);
+    });
+
+    const isVoid = isNative && VOID_ELEMENTS.includes(tag);
+    emit('>');
+    if (isVoid) return;
+
+    slotted.forEach(({ slot, content }) => {
+      emit(this.lineBreak(depth + 1));
+      if (t.isJSXElement(content) && slot !== 'children') {
+        content.openingElement.attributes.push(t.jsxAttribute(t.jsxIdentifier('slot'), t.stringLiteral(slot)));
+        this.writeNode(content, emit, hole, depth + 1);
+      } else {
+        emit(slot === 'children' ? '' : `<div slot="${slot}">`);
+        this.writeNode(content, emit, hole, depth + 1);
+        emit(slot === 'children' ? '' : '</div>');
+      }
+    });
+
+    let multiline = slotted.length > 0;
+    if (innerHTML) {
+      hole(t.callExpression(this.directive('unsafeHTML', 'lit/directives/unsafe-html.js'), [innerHTML]));
+    } else {
+      multiline = this.writeChildren(node.children, emit, hole, depth + 1, true) || multiline;
+    }
+
+    emit(multiline ? `${this.lineBreak(depth)}</${tag}>` : `</${tag}>`);
+  }
+
+  /**
+   * Write element children, one per line when any of them is markup.
+   * Returns whether the children were laid out on separate lines.
+   */
+  private writeChildren(
+    children: t.JSXElement['children'],
+    emit: (text: string) => void,
+    hole: (expression: t.Expression) => void,
+    depth: number,
+    nested: boolean
+  ): boolean {
+    const multiline = children.some(child =>
+      t.isJSXElement(child) ||
+      t.isJSXFragment(child) ||
+      (t.isJSXExpressionContainer(child) && this.containsJSX(child.expression)) ||
+      (t.isJSXExpressionContainer(child) && this.isChildrenSlot(child.expression))
+    );
+    let first = !nested;
+    const newline = () => {
+      if (multiline && !first) emit(this.lineBreak(depth));
+      first = false;
+    };
+
+    children.forEach(child => {
+      if (t.isJSXText(child)) {
+        const text = this.cleanJSXText(child.value);
+        if (!multiline) {
+          emit(this.escapeTemplateText(text));
+        } else if (text.trim()) {
+          newline();
+          emit(this.escapeTemplateText(text.trim()));
+        }
+      } else if (t.isJSXElement(child) || t.isJSXFragment(child)) {
+        newline();
+        this.writeNode(child, emit, hole, depth);
+      } else if (t.isJSXExpressionContainer(child)) {
+        const expression = child.expression;
+        if (t.isJSXEmptyExpression(expression) || this.isEmptyRender(expression)) return;
+
+        newline();
+        if (this.isChildrenSlot(expression)) {
+          emit('<slot></slot>');
+          return;
+        }
+        hole(expression);
+      } else if (t.isJSXSpreadChild(child)) {
+        this.addNodeWarning(child, 'Spread children have no Lit equivalent and were dropped');
+      }
+    });
+
+    return multiline;
+  }
+
+  private isChildrenSlot(expression: t.Node): boolean {
+    return t.isMemberExpression(expression) &&
+      t.isThisExpression(expression.object) &&
+      t.isIdentifier(expression.property, { name: 'children' });
+  }
+
+  /**
+   * Collapse JSX text whitespace the way React does.
+   */
+  private cleanJSXText(text: string): string {
+    const lines = text.split(/\r\n|\n|\r/);
+    if (lines.length === 1) return text;
+
+    return lines
+      .map((line, index) => {
+        let cleaned = line.replace(/\t/g, ' ');
+        if (index !== 0) cleaned = cleaned.replace(/^[ ]+/, '');
+        if (index !== lines.length - 1) cleaned = cleaned.replace(/[ ]+$/, '');
+        return cleaned;
+      })
+      .filter(line => line.length > 0)
+      .join(' ');
+  }
+
+  private tagName(name: t.JSXIdentifier | t.JSXMemberExpression | t.JSXNamespacedName): string {
+    if (t.isJSXIdentifier(name)) {
+      if (/^[a-z]/.test(name.name)) return name.name;
+      const tag = this.convertCamelToKebab(name.name);
+      // Custom element names must contain a hyphen
+      const customTag = tag.includes('-') ? tag : `x-${tag}`;
+      this.customElements.add(customTag);
+      return customTag;
+    }
+    if (t.isJSXNamespacedName(name)) return `${name.namespace.name}:${name.name.name}`;
+
+    this.addNodeWarning(name, 'Member expression tags cannot be used in Lit templates');
+    return this.convertCamelToKebab(name.property.name);
+  }
+
+  private domEventName(prop: string, tag: string, isNative: boolean): string {
+    if (!isNative) return this.eventName(prop);
+    const event = prop.slice(2);
+    if (event === 'Change' && (tag === 'input' || tag === 'textarea')) return 'input';
+    if (event === 'DoubleClick') return 'dblclick';
+    return event.toLowerCase();
+  }
+
+  private styleObject(expression: t.ObjectExpression): t.ObjectExpression {
+    expression.properties.forEach(property => {
+      if (!t.isObjectProperty(property)) return;
+      const key = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : '';
+      if (t.isNumericLiteral(property.value) && !UNITLESS_STYLES.includes(key) && property.value.value !== 0) {
+        property.value = t.stringLiteral(`${property.value.value}px`);
+      }
+    });
+    return expression;
+  }
+
+  private propsTypeName(component: NodePath<t.Function>): string | null {
+    const param = component.node.params[0] as t.Identifier | t.ObjectPattern | undefined;
+    const annotation = param && t.isTSTypeAnnotation(param.typeAnnotation) ? param.typeAnnotation.typeAnnotation : null;
+    return t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName) ? annotation.typeName.name : null;
+  }
+
+  /**
+   * The props interface becomes the element's fields, so drop it when
+   * nothing else refers to it.
+   */
+  private isUnusedPropsType(node: t.Statement, typeName: string | null, ast: t.File): boolean {
+    if (!typeName) return false;
+    const isDeclaration = (t.isTSInterfaceDeclaration(node) || t.isTSTypeAliasDeclaration(node)) && node.id.name === typeName;
+    if (!isDeclaration) return false;
+
+    let references = 0;
+    t.traverseFast(ast.program, child => {
+      if (t.isTSTypeReference(child) && t.isIdentifier(child.typeName, { name: typeName })) references++;
+    });
+    return references <= 1;
+  }
+
+  private propTypes(component: NodePath<t.Function>, ast: t.File): Map<string, t.TSPropertySignature> {
+    const types = new Map<string, t.TSPropertySignature>();
+    const param = component.node.params[0] as t.Identifier | t.ObjectPattern | undefined;
+    const annotation = param && t.isTSTypeAnnotation(param.typeAnnotation) ? param.typeAnnotation.typeAnnotation : null;
+
+    let members: t.TSTypeElement[] = [];
+    if (t.isTSTypeLiteral(annotation)) {
+      members = annotation.members;
+    } else if (t.isTSTypeReference(annotation) && t.isIdentifier(annotation.typeName)) {
+      const typeName = annotation.typeName.name;
+      ast.program.body.forEach(statement => {
+        const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+        if (t.isTSInterfaceDeclaration(declaration) && declaration.id.name === typeName) {
+          members = declaration.body.body;
+        } else if (t.isTSTypeAliasDeclaration(declaration) && declaration.id.name === typeName &&
+                   t.isTSTypeLiteral(declaration.typeAnnotation)) {
+          members = declaration.typeAnnotation.members;
+        }
+      });
+    }
+
+    members.forEach(member => {
+      if (t.isTSPropertySignature(member) && t.isIdentifier(member.key) && member.typeAnnotation) {
+        types.set(member.key.name, member);
+      }
+    });
+    return types;
+  }
+
+  private litPropertyType(type: t.TSType | undefined, initial: t.Node | undefined): string | null {
+    const unwrapped = t.isTSUnionType(type)
+      ? type.types.find(member => !t.isTSUndefinedKeyword(member) && !t.isTSNullKeyword(member))
+      : type;
+
+    if (t.isTSNumberKeyword(unwrapped) || t.isNumericLiteral(initial)) return 'Number';
+    if (t.isTSBooleanKeyword(unwrapped) || t.isBooleanLiteral(initial)) return 'Boolean';
+    if (t.isTSArrayType(unwrapped) || t.isArrayExpression(initial) ||
+        (t.isTSTypeReference(unwrapped) && t.isIdentifier(unwrapped.typeName, { name: 'Array' }))) return 'Array';
+    if (t.isTSStringKeyword(unwrapped) || t.isStringLiteral(initial) || t.isTSLiteralType(unwrapped)) return null;
+    if (unwrapped || initial) return 'Object';
+    return null;
+  }
+
+  private buildClassParts(component: NodePath<t.Function>, members: Map<string, LitMember>, ast: t.File): LitClassParts {
+    const parts: LitClassParts = {
+      fields: [], getters: [], methods: [], firstUpdated: [], updated: [], disconnected: [], render: []
+    };
+    const types = this.propTypes(component, ast);
+    const param = component.node.params[0];
+
+    // @property() fields
+    const defaults = new Map<string, t.Expression>();
+    const declarations = new Map<string, t.Node>();
+    if (t.isObjectPattern(param)) {
+      param.properties.forEach(property => {
+        if (!t.isObjectProperty(property) || !t.isIdentifier(property.key)) return;
+        declarations.set(property.key.name, property);
+        if (t.isAssignmentPattern(property.value)) {
+          defaults.set(property.key.name, property.value.right);
+        }
+      });
+    }
+
+    const declared = new Set<string>();
+    members.forEach(info => {
+      if (info.kind !== 'prop' || declared.has(info.member)) return;
+      declared.add(info.member);
+      this.decoratorImports.add('property');
+
+      const signature = types.get(info.member);
+      const type = signature?.typeAnnotation?.typeAnnotation;
+      const initial = defaults.get(info.member);
+      const litType = this.litPropertyType(type, initial);
+      const decorator = litType ? `@property({ type: ${litType} })` : '@property()';
+      const marker = initial ? '' : signature?.optional ? '?' : '!';
+      const annotation = type ? `${marker}: ${generate(type).code}` : '';
+      const field = `${decorator} ${info.member}${annotation}${initial ? ` = ${generate(initial).code}` : ''};`;
+      parts.fields.push(this.markSource(field, declarations.get(info.member) ?? signature));
+    });
+
+    const body = component.node.body;
+    const statements = t.isBlockStatement(body) ? body.body : [t.returnStatement(body)];
+
+    statements.forEach(statement => {
+      if (t.isFunctionDeclaration(statement) && statement.id) {
+        const fn = t.arrowFunctionExpression(statement.params, statement.body, statement.async);
+        parts.methods.push(this.markSource(`private ${statement.id.name} = ${generate(fn).code};`, statement));
+        return;
+      }
+
+      if (t.isExpressionStatement(statement) && t.isCallExpression(statement.expression)) {
+        const hook = this.hookName(statement.expression.callee);
+        if (hook === 'useEffect' || hook === 'useLayoutEffect') {
+          this.addEffect(statement.expression, parts);
+          return;
+        }
+      }
+
+      if (t.isVariableDeclaration(statement) && statement.declarations.length === 1) {
+        if (this.addMemberDeclaration(statement.declarations[0], parts)) return;
+      }
+
+      parts.render.push(this.markSource(generate(statement).code, statement));
+    });
+
+    return parts;
+  }
+
+  private addMemberDeclaration(declarator: t.VariableDeclarator, parts: LitClassParts): boolean {
+    const { id, init } = declarator;
+
+    if (t.isIdentifier(id) && (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init))) {
+      parts.methods.push(this.markSource(`private ${id.name} = ${generate(init).code};`, declarator));
+      return true;
+    }
+    if (!t.isCallExpression(init)) return false;
+
+    const hook = this.hookName(init.callee);
+    const [first, second] = init.arguments as t.Expression[];
+
+    switch (hook) {
+      case 'useState': {
+        if (!t.isArrayPattern(id) || !t.isIdentifier(id.elements[0])) return false;
+        this.decoratorImports.add('state');
+        const type = init.typeParameters?.params[0];
+        const initial = t.isArrowFunctionExpression(first) && first.params.length === 0 && t.isExpression(first.body)
+          ? first.body
+          : first;
+        const annotation = type ? `: ${generate(type).code}` : '';
+        parts.fields.push(this.markSource(`@state() private ${id.elements[0].name}${annotation} = ${initial ? generate(initial).code : 'undefined'};`, declarator));
+        return true;
+      }
+
+      case 'useReducer': {
+        if (!t.isArrayPattern(id) || !t.isIdentifier(id.elements[0])) return false;
+        this.decoratorImports.add('state');
+        const state = id.elements[0].name;
+        parts.fields.push(this.markSource(`@state() private ${state} = ${generate(second).code};`, declarator));
+        if (t.isIdentifier(id.elements[1])) {
+          parts.methods.push(`private ${id.elements[1].name} = (action: any) => {\n  this.${state} = ${generate(first).code}(this.${state}, action);\n};`);
+        }
+        return true;
+      }
+
+      case 'useMemo': {
+        if (!t.isIdentifier(id)) return false;
+        const getter = t.isArrowFunctionExpression(first) && t.isBlockStatement(first.body)
+          ? generate(first.body).code
+          : `{\n  return ${generate((first as t.ArrowFunctionExpression).body).code};\n}`;
+        parts.getters.push(this.markSource(`private get ${id.name}() ${getter}`, declarator));
+        return true;
+      }
+
+      case 'useCallback': {
+        if (!t.isIdentifier(id)) return false;
+        parts.methods.push(this.markSource(`private ${id.name} = ${generate(first).code};`, declarator));
+        return true;
+      }
+
+      case 'useRef': {
+        if (!t.isIdentifier(id)) return false;
+        const type = init.typeParameters?.params[0];
+        if (!first || t.isNullLiteral(first)) {
+          this.directiveImports.set('createRef', 'lit/directives/ref.js');
+          parts.fields.push(this.markSource(`private ${id.name} = createRef${type ? `<${generate(type).code}>` : ''}();`, declarator));
+        } else {
+          parts.fields.push(this.markSource(`private ${id.name}${type ? `: ${generate(type).code}` : ''} = ${generate(first).code};`, declarator));
+        }
+        return true;
+      }
+
+      case 'useContext':
+        this.addNodeWarning(init, 'useContext needs @lit/context; the value is read inside render() unchanged');
+        return false;
+    }
+
+    return false;
+  }
+
+  private addEffect(call: t.CallExpression, parts: LitClassParts): void {
+    const [effect, deps] = call.arguments;
+    if (!(t.isArrowFunctionExpression(effect) || t.isFunctionExpression(effect))) {
+      this.addNodeWarning(call, 'Effects must be inline functions to be converted');
+      return;
+    }
+
+    const statements = t.isBlockStatement(effect.body)
+      ? effect.body.body
+      : [t.expressionStatement(effect.body)];
+    const body: string[] = [];
+    let cleanup: t.Expression | null = null;
+
+    statements.forEach(statement => {
+      if (t.isReturnStatement(statement) && statement.argument) {
+        cleanup = statement.argument;
+      } else {
+        body.push(this.markSource(generate(statement).code, statement.loc ? statement : call));
+      }
+    });
+
+    const runsOnce = t.isArrayExpression(deps) && deps.elements.length === 0;
+    if (runsOnce) {
+      parts.firstUpdated.push(...body);
+      if (cleanup) {
+        // The cleanup may close over effect locals, so keep it on the instance
+        const index = parts.disconnected.length;
+        const field = index === 0 ? 'cleanup' : `cleanup${index + 1}`;
+        parts.fields.push(`private ${field}?: () => void;`);
+        parts.firstUpdated.push(`this.${field} = ${generate(cleanup).code};`);
+        parts.disconnected.push(`this.${field}?.();`);
+      }
+      return;
+    }
+
+    if (cleanup) {
+      this.addNodeWarning(call, 'Cleanup returned from an effect with dependencies is not converted');
+    }
+
+    if (!t.isArrayExpression(deps)) {
+      parts.updated.push(...body);
+      return;
+    }
+
+    const watched = deps.elements
+      .map(dep => t.isMemberExpression(dep) && t.isThisExpression(dep.object) && t.isIdentifier(dep.property) ? dep.property.name : null);
+    if (watched.some(name => name === null)) {
+      this.addNodeWarning(call, 'Effect dependencies that are not props or state cannot be watched in updated()');
+    }
+
+    const condition = watched
+      .filter((name): name is string => !!name)
+      .map(name => `changed.has('${name}')`)
+      .join(' || ');
+    parts.updated.push(condition ? `if (${condition}) {\n${this.indentBlock(body.join('\n'), 1)}\n}` : body.join('\n'));
+  }
+
+  private indentBlock(code: string, depth: number): string {
+    const pad = '  '.repeat(depth);
+    return code.split('\n').map(line => (line ? pad + line : line)).join('\n');
+  }
+
+  private generateClass(name: string, parts: LitClassParts, styles: string): string {
+    const members: string[] = [];
+    const tag = this.convertCamelToKebab(name);
+    const elementName = tag.includes('-') ? tag : `x-${tag}`;
+
+    if (styles) {
+      this.litImports.add('css');
+      members.push(`static styles = css\`\n${this.indentBlock(styles, 1)}\n\`;`);
+    }
+
+    members.push(...parts.fields, ...parts.getters, ...parts.methods);
+
+    if (parts.firstUpdated.length > 0) {
+      members.push(`firstUpdated() {\n${this.indentBlock(parts.firstUpdated.join('\n'), 1)}\n}`);
+    }
+    if (parts.updated.length > 0) {
+      this.litImports.add('PropertyValues');
+      members.push(`updated(changed: PropertyValues) {\n${this.indentBlock(parts.updated.join('\n'), 1)}\n}`);
+    }
+    if (parts.disconnected.length > 0) {
+      members.push(`disconnectedCallback() {\n  super.disconnectedCallback();\n${this.indentBlock(parts.disconnected.join('\n'), 1)}\n}`);
+    }
+
+    members.push(`render() {\n${this.indentBlock(parts.render.join('\n'), 1)}\n}`);
+
+    return `@customElement('${elementName}')
+export class ${name} extends LitElement {
+${members.map(member => this.indentBlock(member, 1)).join('\n\n')}
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    '${elementName}': ${name};
+  }
+}`;
+  }
+
+  private generateImports(): string {
+    const lines: string[] = [];
+    const litImports = [...this.litImports].filter(name => name !== 'PropertyValues');
+    lines.push(`import { ${litImports.join(', ')} } from 'lit';`);
+    if (this.litImports.has('PropertyValues')) {
+      lines.push(`import type { PropertyValues } from 'lit';`);
+    }
+    lines.push(`import { ${[...this.decoratorImports].join(', ')} } from 'lit/decorators.js';`);
+
+    const byModule = new Map<string, string[]>();
+    this.directiveImports.forEach((module, name) => {
+      byModule.set(module, [...(byModule.get(module) || []), name]);
+    });
+    byModule.forEach((names, module) => {
+      lines.push(`import { ${names.sort().join(', ')} } from '${module}';`);
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,53 @@
+import { parse } from '@babel/parser';
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import { ComponentMetadata, TranspilerOptions } from '../types';
+import { BaseTranspiler } from './BaseTranspiler';
+
+// React entry points and their preact/compat equivalents
+const COMPAT_SOURCES: Record<string, string> = {
+  'react': 'preact/compat',
+  'react-dom': 'preact/compat',
+  'react-dom/client': 'preact/compat/client',
+  'react-dom/server': 'preact/compat/server',
+  'react-dom/test-utils': 'preact/test-utils',
+  'react/jsx-runtime': 'preact/jsx-runtime'
+};
+
+export class ReactToPreactTranspiler extends BaseTranspiler {
+  async transpile(
+    code: string,
+    metadata: ComponentMetadata,
+    options: TranspilerOptions = {}
+  ): Promise<any> {
+    this.warnings = [];
+
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+
+    traverse(ast, {
+      ImportDeclaration(path) {
+        const replacement = COMPAT_SOURCES[path.node.source.value];
+        if (replacement) {
+          path.node.source = t.stringLiteral(replacement);
+        }
+      },
+
+      CallExpression(path) {
+        // require('react') in CommonJS modules
+        const { callee, arguments: args } = path.node;
+        if (t.isIdentifier(callee, { name: 'require' }) && t.isStringLiteral(args[0]) && COMPAT_SOURCES[args[0].value]) {
+          args[0] = t.stringLiteral(COMPAT_SOURCES[args[0].value]);
+        }
+      }
+    });
+
+    return {
+      code: this.printAST(ast, code, options),
+      metadata,
+      warnings: this.warnings
+    };
+  }
+}
@@ -0,0 +1,610 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { snapshotHookState } from '../ir/utils';
+import { ComponentMetadata, TranspilerOptions } from '../types';
+import { BaseTranspiler } from './BaseTranspiler';
+
+// CSS properties React leaves unitless when given a number
+const UNITLESS_STYLES = [
+  'opacity', 'zIndex', 'flex', 'flexGrow', 'flexShrink', 'fontWeight',
+  'lineHeight', 'order', 'zoom', 'orphans', 'widows', 'columnCount'
+];
+
+// React type names and their solid-js counterparts
+const TYPE_MAPPINGS: Record<string, string> = {
+  ReactNode: 'JSX.Element',
+  ReactElement: 'JSX.Element',
+  FC: 'Component',
+  FunctionComponent: 'Component',
+  PropsWithChildren: 'ParentProps',
+  CSSProperties: 'JSX.CSSProperties'
+};
+
+export class ReactToSolidTranspiler extends BaseTranspiler {
+  private solidImports = new Set<string>();
+  private solidTypeImports = new Set<string>();
+
+  async transpile(
+    code: string,
+    metadata: ComponentMetadata,
+    options: TranspilerOptions = {}
+  ): Promise<any> {
+    this.warnings = [];
+    this.solidImports = new Set();
+    this.solidTypeImports = new Set();
+
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+
+    snapshotHookState(ast);
+    this.transformHooks(ast);
+    this.transformProps(ast);
+    this.transformJSX(ast);
+    this.transformTypes(ast);
+    this.transformImports(ast);
+
+    return {
+      code: this.printAST(ast, code, options),
+      metadata,
+      warnings: this.warnings
+    };
+  }
+
+  private hookName(callee: t.Node): string | null {
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'React' }) && t.isIdentifier(callee.property)) {
+      return callee.property.name;
+    }
+    return null;
+  }
+
+  /**
+   * Replace every read of `name` with an accessor call `name()`.
+   */
+  private convertToAccessor(path: NodePath, name: string): void {
+    const binding = path.scope.getBinding(name);
+    if (!binding) return;
+
+    binding.referencePaths.forEach(reference => {
+      const parent = reference.parentPath;
+      if (parent?.isObjectProperty() && parent.node.shorthand) {
+        parent.node.shorthand = false;
+      }
+      reference.replaceWith(t.callExpression(t.identifier(name), []));
+    });
+
+    binding.constantViolations.forEach(violation => {
+      this.addNodeWarning(violation.node, `"${name}" is reassigned directly; use its setter instead`);
+    });
+  }
+
+  private transformHooks(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      VariableDeclarator(path) {
+        const init = path.node.init;
+        if (!t.isCallExpression(init)) return;
+
+        const hook = self.hookName(init.callee);
+        const id = path.node.id;
+
+        switch (hook) {
+          case 'useState': {
+            if (!t.isArrayPattern(id) || !t.isIdentifier(id.elements[0])) return;
+            self.solidImports.add('createSignal');
+            init.callee = t.identifier('createSignal');
+
+            // Lazy initialisers would be stored as the value itself in Solid
+            const initial = init.arguments[0];
+            if (t.isArrowFunctionExpression(initial) && initial.params.length === 0) {
+              init.arguments[0] = t.isExpression(initial.body)
+                ? initial.body
+                : t.callExpression(initial, []);
+            }
+
+            self.convertToAccessor(path, id.elements[0].name);
+            break;
+          }
+
+          case 'useReducer': {
+            if (!t.isArrayPattern(id) || !t.isIdentifier(id.elements[0])) return;
+            const stateName = id.elements[0].name;
+            const dispatch = id.elements[1];
+            const [reducer, initial] = init.arguments as t.Expression[];
+            const setterName = `set${stateName.charAt(0).toUpperCase()}${stateName.slice(1)}`;
+
+            self.solidImports.add('createSignal');
+            path.node.id = t.arrayPattern([t.identifier(stateName), t.identifier(setterName)]);
+            path.node.init = t.callExpression(t.identifier('createSignal'), [initial]);
+
+            if (t.isIdentifier(dispatch)) {
+              // dispatch(action) => setState(state => reducer(state, action))
+              path.insertAfter(t.variableDeclarator(
+                t.identifier(dispatch.name),
+                t.arrowFunctionExpression(
+                  [t.identifier('action')],
+                  t.callExpression(t.identifier(setterName), [
+                    t.arrowFunctionExpression(
+                      [t.identifier('state')],
+                      t.callExpression(reducer, [t.identifier('state'), t.identifier('action')])
+                    )
+                  ])
+                )
+              ));
+            }
+
+            self.convertToAccessor(path, stateName);
+            break;
+          }
+
+          case 'useMemo': {
+            if (!t.isIdentifier(id)) return;
+            self.solidImports.add('createMemo');
+            init.callee = t.identifier('createMemo');
+            init.arguments = init.arguments.slice(0, 1);
+            self.convertToAccessor(path, id.name);
+            break;
+          }
+
+          case 'useCallback': {
+            path.node.init = init.arguments[0] as t.Expression;
+            break;
+          }
+
+          case 'useRef': {
+            if (!t.isIdentifier(id)) return;
+
+            // Solid refs are plain variables assigned by the compiler
+            const declaration = path.parentPath.node as t.VariableDeclaration;
+            declaration.kind = 'let';
+
+            const refType = init.typeParameters?.params[0];
+            const initial = init.arguments[0];
+            path.node.init = initial && !t.isNullLiteral(initial) ? initial as t.Expression : null;
+            if (refType && !id.typeAnnotation) {
+              id.typeAnnotation = t.tsTypeAnnotation(
+                t.tsUnionType([refType, t.tsUndefinedKeyword()])
+              );
+            }
+
+            path.scope.getBinding(id.name)?.referencePaths.forEach(reference => {
+              const parent = reference.parentPath;
+              if (parent?.isMemberExpression() && t.isIdentifier(parent.node.property, { name: 'current' })) {
+                parent.replaceWith(t.identifier(id.name));
+              }
+            });
+            break;
+          }
+
+          case 'useContext': {
+            self.solidImports.add('useContext');
+            init.callee = t.identifier('useContext');
+            break;
+          }
+
+          case 'useId': {
+            self.solidImports.add('createUniqueId');
+            init.callee = t.identifier('createUniqueId');
+            break;
+          }
+        }
+      },
+
+      CallExpression(path) {
+        const hook = self.hookName(path.node.callee);
+        if (hook !== 'useEffect' && hook !== 'useLayoutEffect') {
+          if (hook && /^use[A-Z]/.test(hook) && self.isReactImport(path, path.node.callee)) {
+            self.addNodeWarning(path.node, `${hook} has no Solid equivalent and was left unchanged`);
+          }
+          return;
+        }
+
+        const [effect, deps] = path.node.arguments;
+        const runsOnce = t.isArrayExpression(deps) && deps.elements.length === 0;
+        const primitive = runsOnce ? 'onMount' : 'createEffect';
+        self.solidImports.add(primitive);
+
+        // A returned cleanup function becomes onCleanup(...)
+        if ((t.isArrowFunctionExpression(effect) || t.isFunctionExpression(effect)) && t.isBlockStatement(effect.body)) {
+          effect.body.body = effect.body.body.map(statement => {
+            if (t.isReturnStatement(statement) && statement.argument) {
+              self.solidImports.add('onCleanup');
+              return t.expressionStatement(t.callExpression(t.identifier('onCleanup'), [statement.argument]));
+            }
+            return statement;
+          });
+        }
+
+        path.node.callee = t.identifier(primitive);
+        path.node.arguments = [effect];
+      }
+    });
+  }
+
+  private isReactImport(path: NodePath, callee: t.Node): boolean {
+    if (t.isMemberExpression(callee)) return true;
+    if (!t.isIdentifier(callee)) return false;
+    const binding = path.scope.getBinding(callee.name);
+    return !!binding &&
+      binding.kind === 'module' &&
+      t.isImportDeclaration(binding.path.parent) &&
+      binding.path.parent.source.value === 'react';
+  }
+
+  /**
+   * Destructured props lose reactivity in Solid, so `({ a, b = 1 })`
+   * becomes `(props)` with reads rewritten to `props.a`.
+   */
+  private transformProps(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      Program(path) {
+        path.scope.crawl();
+      },
+
+      Function(path) {
+        const param = path.node.params[0];
+        if (!t.isObjectPattern(param) || !self.isComponentFunction(path)) return;
+
+        const defaults: t.ObjectProperty[] = [];
+        const keys: string[] = [];
+        const renames: Array<{ local: string; key: string }> = [];
+        let rest: string | null = null;
+
+        for (const property of param.properties) {
+          if (t.isRestElement(property) && t.isIdentifier(property.argument)) {
+            rest = property.argument.name;
+            continue;
+          }
+          if (!t.isObjectProperty(property) || !t.isIdentifier(property.key)) {
+            self.addNodeWarning(property, 'Nested prop destructuring is not supported; props were left destructured');
+            return;
+          }
+
+          const key = property.key.name;
+          let value = property.value;
+          if (t.isAssignmentPattern(value)) {
+            defaults.push(t.objectProperty(t.identifier(key), value.right as t.Expression));
+            value = value.left;
+          }
+          if (!t.isIdentifier(value)) {
+            self.addNodeWarning(property, 'Nested prop destructuring is not supported; props were left destructured');
+            return;
+          }
+
+          keys.push(key);
+          renames.push({ local: value.name, key });
+        }
+
+        const propsName = path.scope.hasBinding('props') ? '_props' : 'props';
+        const incomingName = defaults.length > 0 ? `_${propsName}` : propsName;
+
+        renames.forEach(({ local, key }) => {
+          path.scope.getBinding(local)?.referencePaths.forEach(reference => {
+            const parent = reference.parentPath;
+            if (parent?.isObjectProperty() && parent.node.shorthand) {
+              parent.node.shorthand = false;
+            }
+            reference.replaceWith(t.memberExpression(t.identifier(propsName), t.identifier(key)));
+          });
+        });
+
+        const incoming = t.identifier(incomingName);
+        incoming.typeAnnotation = param.typeAnnotation;
+        path.node.params[0] = incoming;
+
+        const prologue: t.Statement[] = [];
+        if (defaults.length > 0) {
+          self.solidImports.add('mergeProps');
+          prologue.push(t.variableDeclaration('const', [
+            t.variableDeclarator(
+              t.identifier(propsName),
+              t.callExpression(t.identifier('mergeProps'), [t.objectExpression(defaults), incoming])
+            )
+          ]));
+        }
+        if (rest) {
+          self.solidImports.add('splitProps');
+          prologue.push(t.variableDeclaration('const', [
+            t.variableDeclarator(
+              t.arrayPattern([null, t.identifier(rest)]),
+              t.callExpression(t.identifier('splitProps'), [
+                t.identifier(propsName),
+                t.arrayExpression(keys.map(key => t.stringLiteral(key)))
+              ])
+            )
+          ]));
+        }
+
+        if (prologue.length > 0) {
+          const body = path.node.body;
+          path.node.body = t.isBlockStatement(body)
+            ? t.blockStatement([...prologue, ...body.body])
+            : t.blockStatement([...prologue, t.returnStatement(body)]);
+        }
+      }
+    });
+  }
+
+  private isComponentFunction(path: NodePath<t.Function>): boolean {
+    const node = path.node;
+    if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+      return /^[A-Z]/.test(node.id.name);
+    }
+    const parent = path.parentPath;
+    if (parent?.isVariableDeclarator() && t.isIdentifier(parent.node.id)) {
+      return /^[A-Z]/.test(parent.node.id.name);
+    }
+    // memo(...) / forwardRef(...) wrappers
+    return !!parent?.isCallExpression() && parent.parentPath?.isVariableDeclarator() === true;
+  }
+
+  private transformJSX(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      Program(path) {
+        path.scope.crawl();
+      },
+
+      JSXAttribute(path) {
+        const name = path.node.name;
+        if (!t.isJSXIdentifier(name)) return;
+
+        const opening = path.parentPath.node as t.JSXOpeningElement;
+        const tag = t.isJSXIdentifier(opening.name) ? opening.name.name : '';
+        const isNative = /^[a-z]/.test(tag);
+
+        switch (name.name) {
+          case 'className':
+            name.name = 'class';
+            break;
+          case 'htmlFor':
+            name.name = 'for';
+            break;
+          case 'key':
+            // Solid tracks list items by reference
+            path.remove();
+            break;
+          case 'onDoubleClick':
+            name.name = 'onDblClick';
+            break;
+          case 'onChange':
+            if (tag === 'input' || tag === 'textarea') name.name = 'onInput';
+            break;
+          case 'dangerouslySetInnerHTML': {
+            const value = path.node.value;
+            if (t.isJSXExpressionContainer(value) && t.isObjectExpression(value.expression)) {
+              const html = value.expression.properties.find(
+                (prop): prop is t.ObjectProperty => t.isObjectProperty(prop) && t.isIdentifier(prop.key, { name: '__html' })
+              );
+              if (html) {
+                path.replaceWith(t.jsxAttribute(
+                  t.jsxIdentifier('innerHTML'),
+                  t.jsxExpressionContainer(html.value as t.Expression)
+                ));
+              }
+            }
+            break;
+          }
+          case 'style':
+            if (isNative) self.convertStyleObject(path.node);
+            break;
+        }
+      },
+
+      JSXElement(path) {
+        const name = path.node.openingElement.name;
+        const isFragment = t.isJSXIdentifier(name, { name: 'Fragment' }) ||
+          (t.isJSXMemberExpression(name) && t.isJSXIdentifier(name.object, { name: 'React' }) && name.property.name === 'Fragment');
+
+        if (isFragment) {
+          path.replaceWith(t.jsxFragment(t.jsxOpeningFragment(), t.jsxClosingFragment(), path.node.children));
+        }
+      },
+
+      JSXExpressionContainer(path) {
+        if (!path.parentPath.isJSXElement() && !path.parentPath.isJSXFragment()) return;
+        const expression = path.get('expression');
+        if (!expression.isExpression()) return;
+
+        const flow = self.toControlFlow(expression);
+        if (flow) path.replaceWith(flow);
+      },
+
+      ReturnStatement(path) {
+        // Components run once, so a returned ternary would never update
+        const argument = path.get('argument');
+        if (!argument.isExpression() || t.isJSXElement(argument.node) || t.isJSXFragment(argument.node)) return;
+
+        const flow = self.toControlFlow(argument);
+        if (flow) argument.replaceWith(flow);
+      },
+
+      CallExpression(path) {
+        const callee = self.hookName(path.node.callee);
+        if (callee === 'memo' && self.isReactImport(path, path.node.callee)) {
+          path.replaceWith(path.node.arguments[0] as t.Expression);
+        } else if (callee === 'forwardRef' && self.isReactImport(path, path.node.callee)) {
+          self.addNodeWarning(path.node, 'forwardRef is not needed in Solid; read the ref from props.ref instead');
+        }
+      }
+    });
+  }
+
+  /**
+   * Convert `a && <X />`, `a ? <X /> : <Y />` and `list.map(...)` into
+   * Solid's <Show> and <For> control-flow components.
+   */
+  private toControlFlow(path: NodePath<t.Expression>): t.JSXElement | null {
+    const node = path.node;
+
+    if (t.isLogicalExpression(node) && node.operator === '&&' && this.isJSXLike(node.right)) {
+      return this.showElement(node.left, node.right, null);
+    }
+
+    if (t.isConditionalExpression(node) && (this.isJSXLike(node.consequent) || this.isJSXLike(node.alternate))) {
+      if (this.isEmpty(node.consequent)) {
+        return this.showElement(t.unaryExpression('!', node.test), node.alternate, null);
+      }
+      return this.showElement(node.test, node.consequent, this.isEmpty(node.alternate) ? null : node.alternate);
+    }
+
+    if (t.isCallExpression(node) && t.isMemberExpression(node.callee) &&
+        t.isIdentifier(node.callee.property, { name: 'map' }) && this.isJSXLike(node.arguments[0] as t.Node)) {
+      return this.forElement(path as NodePath<t.CallExpression>);
+    }
+
+    return null;
+  }
+
+  private isJSXLike(node: t.Node | null | undefined): boolean {
+    if (!node) return false;
+    let found = false;
+    t.traverseFast(node, child => {
+      if (t.isJSXElement(child) || t.isJSXFragment(child)) found = true;
+    });
+    return found;
+  }
+
+  private isEmpty(node: t.Node): boolean {
+    return t.isNullLiteral(node) || t.isBooleanLiteral(node) || t.isIdentifier(node, { name: 'undefined' });
+  }
+
+  private asChild(node: t.Expression): t.JSXElement['children'][number] {
+    if (t.isJSXElement(node) || t.isJSXFragment(node)) return node;
+    return t.jsxExpressionContainer(node);
+  }
+
+  private showElement(when: t.Expression, content: t.Expression, fallback: t.Expression | null): t.JSXElement {
+    this.solidImports.add('Show');
+
+    const attributes = [t.jsxAttribute(t.jsxIdentifier('when'), t.jsxExpressionContainer(when))];
+    if (fallback) {
+      attributes.push(t.jsxAttribute(
+        t.jsxIdentifier('fallback'),
+        t.jsxExpressionContainer(fallback)
+      ));
+    }
+
+    return t.jsxElement(
+      t.jsxOpeningElement(t.jsxIdentifier('Show'), attributes),
+      t.jsxClosingElement(t.jsxIdentifier('Show')),
+      [this.asChild(content)]
+    );
+  }
+
+  private forElement(path: NodePath<t.CallExpression>): t.JSXElement {
+    this.solidImports.add('For');
+
+    const callee = path.node.callee as t.MemberExpression;
+    const callbackPath = path.get('arguments.0') as NodePath;
+    const callback = callbackPath.node;
+
+    if (t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)) {
+      // <For> passes the index as an accessor
+      const index = callback.params[1];
+      if (t.isIdentifier(index)) {
+        this.convertToAccessor(callbackPath, index.name);
+      }
+    } else {
+      this.addNodeWarning(path.node, '<For> passes the index as an accessor; check the render callback');
+    }
+
+    return t.jsxElement(
+      t.jsxOpeningElement(t.jsxIdentifier('For'), [
+        t.jsxAttribute(t.jsxIdentifier('each'), t.jsxExpressionContainer(callee.object as t.Expression))
+      ]),
+      t.jsxClosingElement(t.jsxIdentifier('For')),
+      [t.jsxExpressionContainer(callbackPath.node as t.Expression)]
+    );
+  }
+
+  private convertStyleObject(attribute: t.JSXAttribute): void {
+    const value = attribute.value;
+    if (!t.isJSXExpressionContainer(value) || !t.isObjectExpression(value.expression)) return;
+
+    // Solid takes CSS property names, not camelCase keys
+    value.expression.properties.forEach(property => {
+      if (!t.isObjectProperty(property) || property.computed) return;
+
+      const key = t.isIdentifier(property.key) ? property.key.name
+        : t.isStringLiteral(property.key) ? property.key.value
+        : null;
+      if (!key) return;
+
+      property.key = t.stringLiteral(key.startsWith('--') ? key : this.convertCamelToKebab(key));
+      if (t.isNumericLiteral(property.value) && !UNITLESS_STYLES.includes(key) && property.value.value !== 0) {
+        property.value = t.stringLiteral(`${property.value.value}px`);
+      }
+    });
+  }
+
+  private transformTypes(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      TSTypeReference(path) {
+        const typeName = path.node.typeName;
+        let name: string | null = null;
+
+        if (t.isIdentifier(typeName)) {
+          const binding = path.scope.getBinding(typeName.name);
+          const fromReact = binding?.kind === 'module' &&
+            t.isImportDeclaration(binding.path.parent) &&
+            binding.path.parent.source.value === 'react';
+          if (fromReact) name = typeName.name;
+        } else if (t.isTSQualifiedName(typeName) && t.isIdentifier(typeName.left, { name: 'React' })) {
+          name = typeName.right.name;
+        }
+
+        if (!name || !TYPE_MAPPINGS[name]) return;
+
+        const mapped = TYPE_MAPPINGS[name];
+        self.solidTypeImports.add(mapped.split('.')[0]);
+        path.node.typeName = mapped.includes('.')
+          ? t.tsQualifiedName(t.identifier('JSX'), t.identifier(mapped.split('.')[1]))
+          : t.identifier(mapped);
+      }
+    });
+  }
+
+  private transformImports(ast: t.File): void {
+    const body = ast.program.body;
+
+    ast.program.body = body.filter(statement => {
+      if (!t.isImportDeclaration(statement)) return true;
+      const source = statement.source.value;
+
+      if (source === 'react') return false;
+      if (source === 'react-dom' || source.startsWith('react-dom/')) {
+        this.addNodeWarning(statement, `Imports from ${source} were removed; use solid-js/web instead`);
+        return false;
+      }
+      return true;
+    });
+
+    const declarations: t.ImportDeclaration[] = [];
+    if (this.solidImports.size > 0) {
+      declarations.push(t.importDeclaration(
+        [...this.solidImports].sort().map(name => t.importSpecifier(t.identifier(name), t.identifier(name))),
+        t.stringLiteral('solid-js')
+      ));
+    }
+    if (this.solidTypeImports.size > 0) {
+      const typeImport = t.importDeclaration(
+        [...this.solidTypeImports].sort().map(name => t.importSpecifier(t.identifier(name), t.identifier(name))),
+        t.stringLiteral('solid-js')
+      );
+      typeImport.importKind = 'type';
+      declarations.push(typeImport);
+    }
+
+    ast.program.body.unshift(...declarations);
+  }
+}
@@ -0,0 +1,509 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { ComponentMetadata, TranspilerOptions } from '../types';
+import { BaseTranspiler } from './BaseTranspiler';
+
+// solid-js type names and their React counterparts
+const TYPE_MAPPINGS: Record<string, string> = {
+  Component: 'FC',
+  ParentComponent: 'FC',
+  ParentProps: 'PropsWithChildren',
+  'JSX.Element': 'ReactNode',
+  'JSX.CSSProperties': 'CSSProperties'
+};
+
+export class SolidToReactTranspiler extends BaseTranspiler {
+  private reactImports = new Set<string>();
+  private reactTypeImports = new Set<string>();
+
+  async transpile(
+    code: string,
+    metadata: ComponentMetadata,
+    options: TranspilerOptions = {}
+  ): Promise<any> {
+    this.warnings = [];
+    this.reactImports = new Set();
+    this.reactTypeImports = new Set();
+
+    const ast = parse(code, {
+      sourceType: 'module',
+      plugins: ['jsx', 'typescript']
+    });
+
+    this.convertElementRefs(ast);
+    const dependencies = this.unwrapAccessors(ast);
+    this.transformPrimitives(ast, dependencies);
+    this.transformJSX(ast);
+    this.transformTypes(ast);
+    this.transformImports(ast);
+
+    return {
+      code: this.printAST(ast, code, options),
+      metadata,
+      warnings: this.warnings
+    };
+  }
+
+  private primitiveName(callee: t.Node): string | null {
+    return t.isIdentifier(callee) ? callee.name : null;
+  }
+
+  /**
+   * Solid assigns element refs to plain `let` variables; React needs
+   * `useRef` and reads through `.current`.
+   */
+  private convertElementRefs(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      VariableDeclarator(path) {
+        const declaration = path.parentPath.node as t.VariableDeclaration;
+        const id = path.node.id;
+        if (declaration.kind !== 'let' || path.node.init || !t.isIdentifier(id)) return;
+
+        const references = path.scope.getBinding(id.name)?.referencePaths || [];
+        const isElementRef = (reference: NodePath) =>
+          reference.parentPath?.isJSXExpressionContainer() === true &&
+          reference.parentPath.parentPath?.isJSXAttribute() === true &&
+          t.isJSXIdentifier((reference.parentPath.parentPath.node as t.JSXAttribute).name, { name: 'ref' });
+        if (!references.some(isElementRef)) return;
+
+        references.filter(reference => !isElementRef(reference)).forEach(reference => {
+          reference.replaceWith(t.memberExpression(t.identifier(id.name), t.identifier('current')));
+        });
+
+        // `let el: HTMLDivElement | undefined` => useRef<HTMLDivElement>(null)
+        const annotation = t.isTSTypeAnnotation(id.typeAnnotation) ? id.typeAnnotation.typeAnnotation : null;
+        const elementType = t.isTSUnionType(annotation)
+          ? annotation.types.find(type => !t.isTSUndefinedKeyword(type))
+          : annotation;
+
+        const init = t.callExpression(t.identifier('useRef'), [t.nullLiteral()]);
+        if (elementType) {
+          init.typeParameters = t.tsTypeParameterInstantiation([elementType]);
+        }
+        self.reactImports.add('useRef');
+        declaration.kind = 'const';
+        path.node.id = t.identifier(id.name);
+        path.node.init = init;
+      }
+    });
+  }
+
+  /**
+   * Record the dependency list for every effect and memo, then turn
+   * accessor calls `count()` back into plain reads `count`.
+   */
+  private unwrapAccessors(ast: t.File): Map<t.Node, t.Expression[]> {
+    const self = this;
+    const accessors = new Set<string>();
+    const bindings: NodePath[] = [];
+    const dependencies = new Map<t.Node, t.Expression[]>();
+
+    traverse(ast, {
+      VariableDeclarator(path) {
+        const init = path.node.init;
+        if (!t.isCallExpression(init)) return;
+        const primitive = self.primitiveName(init.callee);
+
+        if (primitive === 'createSignal' && t.isArrayPattern(path.node.id) && t.isIdentifier(path.node.id.elements[0])) {
+          accessors.add(path.node.id.elements[0].name);
+          bindings.push(path);
+        } else if (primitive === 'createMemo' && t.isIdentifier(path.node.id)) {
+          accessors.add(path.node.id.name);
+          bindings.push(path);
+        }
+      }
+    });
+
+    traverse(ast, {
+      CallExpression(path) {
+        const primitive = self.primitiveName(path.node.callee);
+        if (primitive !== 'createEffect' && primitive !== 'createMemo') return;
+
+        const deps = new Map<string, t.Expression>();
+        path.get('arguments.0').traverse({
+          CallExpression(inner) {
+            const callee = inner.node.callee;
+            if (t.isIdentifier(callee) && accessors.has(callee.name) && inner.node.arguments.length === 0) {
+              deps.set(callee.name, t.identifier(callee.name));
+            }
+          },
+          MemberExpression(inner) {
+            const { object, property } = inner.node;
+            if (t.isIdentifier(object, { name: 'props' }) && t.isIdentifier(property) && !inner.node.computed) {
+              deps.set(`props.${property.name}`, t.memberExpression(t.identifier('props'), t.identifier(property.name)));
+            }
+          }
+        });
+        dependencies.set(path.node, [...deps.values()]);
+      }
+    });
+
+    bindings.forEach(path => {
+      const id = (path.node as t.VariableDeclarator).id;
+      const name = t.isArrayPattern(id) ? (id.elements[0] as t.Identifier).name : (id as t.Identifier).name;
+
+      path.scope.getBinding(name)?.referencePaths.forEach(reference => {
+        const parent = reference.parentPath;
+        if (parent?.isCallExpression() && parent.node.callee === reference.node && parent.node.arguments.length === 0) {
+          parent.replaceWith(t.identifier(name));
+        } else {
+          self.addNodeWarning(reference.node, `Accessor "${name}" is passed around uncalled; it is a plain value in React`);
+        }
+      });
+    });
+
+    return dependencies;
+  }
+
+  private transformPrimitives(ast: t.File, dependencies: Map<t.Node, t.Expression[]>): void {
+    const self = this;
+
+    traverse(ast, {
+      VariableDeclarator(path) {
+        const init = path.node.init;
+        if (!t.isCallExpression(init)) return;
+
+        switch (self.primitiveName(init.callee)) {
+          case 'createSignal':
+            self.reactImports.add('useState');
+            init.callee = t.identifier('useState');
+            break;
+
+          case 'mergeProps': {
+            // mergeProps(defaults, props) => { ...defaults, ...props }
+            path.node.init = t.objectExpression(init.arguments.map(arg =>
+              t.isObjectExpression(arg) ? arg.properties : [t.spreadElement(arg as t.Expression)]
+            ).flat() as t.ObjectExpression['properties']);
+            break;
+          }
+
+          case 'splitProps': {
+            const [source, keys] = init.arguments;
+            const id = path.node.id;
+            if (!t.isArrayPattern(id) || !t.isArrayExpression(keys)) return;
+
+            const local = id.elements[0];
+            const others = id.elements[1];
+            const names = keys.elements
+              .filter((key): key is t.StringLiteral => t.isStringLiteral(key))
+              .map(key => key.value);
+
+            const pattern = t.objectPattern([
+              ...names.map(name => t.objectProperty(t.identifier(name), t.identifier(name), false, true)),
+              ...(t.isIdentifier(others) ? [t.restElement(t.identifier(others.name))] : [])
+            ]);
+            path.node.id = pattern;
+            path.node.init = source as t.Expression;
+
+            if (t.isIdentifier(local)) {
+              path.insertAfter(t.variableDeclarator(
+                t.identifier(local.name),
+                t.objectExpression(names.map(name => t.objectProperty(t.identifier(name), t.identifier(name), false, true)))
+              ));
+            }
+            break;
+          }
+        }
+      },
+
+      CallExpression(path) {
+        const primitive = self.primitiveName(path.node.callee);
+        const [fn] = path.node.arguments;
+
+        switch (primitive) {
+          case 'createMemo':
+            self.reactImports.add('useMemo');
+            path.node.callee = t.identifier('useMemo');
+            path.node.arguments = [fn, t.arrayExpression(dependencies.get(path.node) || [])];
+            break;
+
+          case 'createEffect':
+          case 'onMount':
+            self.reactImports.add('useEffect');
+            self.moveCleanupToReturn(fn);
+            path.node.callee = t.identifier('useEffect');
+            path.node.arguments = [
+              fn,
+              t.arrayExpression(primitive === 'onMount' ? [] : dependencies.get(path.node) || [])
+            ];
+            break;
+
+          case 'onCleanup':
+            // Top-level cleanup runs when the component unmounts
+            if (path.parentPath.isExpressionStatement() && !path.getFunctionParent()?.parentPath?.isCallExpression()) {
+              self.reactImports.add('useEffect');
+              path.replaceWith(t.callExpression(t.identifier('useEffect'), [
+                t.arrowFunctionExpression([], fn as t.Expression),
+                t.arrayExpression([])
+              ]));
+            }
+            break;
+
+          case 'createUniqueId':
+            self.reactImports.add('useId');
+            path.node.callee = t.identifier('useId');
+            break;
+
+          case 'useContext':
+            self.reactImports.add('useContext');
+            break;
+
+          case 'createResource':
+          case 'createStore':
+          case 'createSelector':
+          case 'batch':
+          case 'untrack':
+            self.addNodeWarning(path.node, `${primitive} has no direct React equivalent and was left unchanged`);
+            break;
+        }
+      }
+    });
+  }
+
+  private moveCleanupToReturn(fn: t.Node): void {
+    if (!(t.isArrowFunctionExpression(fn) || t.isFunctionExpression(fn)) || !t.isBlockStatement(fn.body)) return;
+
+    const cleanups: t.Expression[] = [];
+    fn.body.body = fn.body.body.filter(statement => {
+      if (t.isExpressionStatement(statement) &&
+          t.isCallExpression(statement.expression) &&
+          t.isIdentifier(statement.expression.callee, { name: 'onCleanup' })) {
+        cleanups.push(statement.expression.arguments[0] as t.Expression);
+        return false;
+      }
+      return true;
+    });
+
+    if (cleanups.length === 1) {
+      fn.body.body.push(t.returnStatement(cleanups[0]));
+    } else if (cleanups.length > 1) {
+      fn.body.body.push(t.returnStatement(t.arrowFunctionExpression([], t.blockStatement(
+        cleanups.map(cleanup => t.expressionStatement(t.callExpression(cleanup, [])))
+      ))));
+    }
+  }
+
+  private transformJSX(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      JSXAttribute(path) {
+        const name = path.node.name;
+        if (!t.isJSXIdentifier(name)) return;
+
+        const opening = path.parentPath.node as t.JSXOpeningElement;
+        const tag = t.isJSXIdentifier(opening.name) ? opening.name.name : '';
+
+        switch (name.name) {
+          case 'class':
+            name.name = 'className';
+            break;
+          case 'for':
+            name.name = 'htmlFor';
+            break;
+          case 'onDblClick':
+            name.name = 'onDoubleClick';
+            break;
+          case 'onInput':
+            if (tag === 'input' || tag === 'textarea') name.name = 'onChange';
+            break;
+          case 'innerHTML': {
+            const value = path.node.value;
+            if (t.isJSXExpressionContainer(value) && t.isExpression(value.expression)) {
+              path.replaceWith(t.jsxAttribute(
+                t.jsxIdentifier('dangerouslySetInnerHTML'),
+                t.jsxExpressionContainer(t.objectExpression([
+                  t.objectProperty(t.identifier('__html'), value.expression)
+                ]))
+              ));
+            }
+            break;
+          }
+          case 'classList':
+            self.addNodeWarning(path.node, 'classList has no React equivalent; build className instead');
+            break;
+          case 'style':
+            self.convertStyleObject(path.node);
+            break;
+        }
+      },
+
+      JSXElement: {
+        exit(path) {
+          const name = path.node.openingElement.name;
+          if (!t.isJSXIdentifier(name)) return;
+
+          let replacement: t.Expression | null = null;
+          if (name.name === 'Show') replacement = self.fromShow(path.node);
+          if (name.name === 'For' || name.name === 'Index') replacement = self.fromFor(path.node, name.name);
+          if (name.name === 'Switch') replacement = self.fromSwitch(path.node);
+          if (!replacement) return;
+
+          const inJSX = path.parentPath.isJSXElement() || path.parentPath.isJSXFragment();
+          path.replaceWith(inJSX ? t.jsxExpressionContainer(replacement) : replacement);
+        }
+      }
+    });
+  }
+
+  private attribute(element: t.JSXElement, name: string): t.Expression | null {
+    const attribute = element.openingElement.attributes.find(
+      (attr): attr is t.JSXAttribute => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, { name })
+    );
+    if (!attribute?.value) return null;
+    if (t.isStringLiteral(attribute.value)) return attribute.value;
+    if (t.isJSXExpressionContainer(attribute.value) && t.isExpression(attribute.value.expression)) {
+      return attribute.value.expression;
+    }
+    if (t.isJSXElement(attribute.value) || t.isJSXFragment(attribute.value)) return attribute.value;
+    return null;
+  }
+
+  /**
+   * Collapse the meaningful children of a control-flow element into a
+   * single expression, wrapping several in a fragment.
+   */
+  private childrenExpression(element: t.JSXElement): t.Expression {
+    const children = element.children.filter(child => !(t.isJSXText(child) && !child.value.trim()));
+
+    if (children.length === 1) {
+      const child = children[0];
+      if (t.isJSXElement(child) || t.isJSXFragment(child)) return child;
+      if (t.isJSXExpressionContainer(child) && t.isExpression(child.expression)) return child.expression;
+    }
+
+    return t.jsxFragment(t.jsxOpeningFragment(), t.jsxClosingFragment(), children);
+  }
+
+  private fromShow(element: t.JSXElement): t.Expression {
+    const when = this.attribute(element, 'when') || t.booleanLiteral(true);
+    const fallback = this.attribute(element, 'fallback');
+    const content = this.childrenExpression(element);
+
+    if (t.isArrowFunctionExpression(content) || t.isFunctionExpression(content)) {
+      this.addNodeWarning(element, '<Show> with a keyed callback child is not converted; inline the value instead');
+    }
+
+    return fallback
+      ? t.conditionalExpression(when, content, fallback)
+      : t.logicalExpression('&&', when, content);
+  }
+
+  private fromFor(element: t.JSXElement, kind: string): t.Expression {
+    const each = this.attribute(element, 'each') || t.arrayExpression([]);
+    const callback = this.childrenExpression(element);
+
+    if (t.isArrowFunctionExpression(callback) || t.isFunctionExpression(callback)) {
+      // <For> passes the index as an accessor; <Index> passes the item as one
+      const accessorParam = callback.params[kind === 'For' ? 1 : 0];
+      if (t.isIdentifier(accessorParam)) {
+        this.unwrapParamCalls(callback, accessorParam.name);
+      }
+
+      const body = t.isBlockStatement(callback.body)
+        ? callback.body.body.find((stmt): stmt is t.ReturnStatement => t.isReturnStatement(stmt))?.argument
+        : callback.body;
+      const hasKey = t.isJSXElement(body) && body.openingElement.attributes.some(
+        attr => t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name, { name: 'key' })
+      );
+      if (!hasKey) {
+        this.addNodeWarning(element, `List rendered from <${kind}> needs a key prop on each item`);
+      }
+    }
+
+    return t.callExpression(t.memberExpression(each, t.identifier('map')), [callback]);
+  }
+
+  private unwrapParamCalls(fn: t.Node, name: string): void {
+    const unwrap = (child: any) =>
+      t.isCallExpression(child) && t.isIdentifier(child.callee, { name }) && child.arguments.length === 0
+        ? t.identifier(name)
+        : child;
+
+    t.traverseFast(fn, node => {
+      (t.VISITOR_KEYS[node.type] || []).forEach(key => {
+        const value = (node as any)[key];
+        (node as any)[key] = Array.isArray(value) ? value.map(unwrap) : unwrap(value);
+      });
+    });
+  }
+
+  private fromSwitch(element: t.JSXElement): t.Expression {
+    const matches = element.children.filter(
+      (child): child is t.JSXElement => t.isJSXElement(child) && t.isJSXIdentifier(child.openingElement.name, { name: 'Match' })
+    );
+    const fallback = this.attribute(element, 'fallback') || t.nullLiteral();
+
+    return matches.reduceRight<t.Expression>((alternate, match) => t.conditionalExpression(
+      this.attribute(match, 'when') || t.booleanLiteral(false),
+      this.childrenExpression(match),
+      alternate
+    ), fallback);
+  }
+
+  private convertStyleObject(attribute: t.JSXAttribute): void {
+    const value = attribute.value;
+    if (!t.isJSXExpressionContainer(value) || !t.isObjectExpression(value.expression)) return;
+
+    value.expression.properties.forEach(property => {
+      if (!t.isObjectProperty(property) || !t.isStringLiteral(property.key)) return;
+      const key = property.key.value;
+      if (key.startsWith('--')) return;
+      property.key = t.identifier(this.convertKebabToCamel(key));
+    });
+  }
+
+  private transformTypes(ast: t.File): void {
+    const self = this;
+
+    traverse(ast, {
+      TSTypeReference(path) {
+        const typeName = path.node.typeName;
+        const name = t.isIdentifier(typeName)
+          ? typeName.name
+          : t.isTSQualifiedName(typeName) && t.isIdentifier(typeName.left)
+            ? `${typeName.left.name}.${typeName.right.name}`
+            : null;
+
+        if (!name || !TYPE_MAPPINGS[name]) return;
+        self.reactTypeImports.add(TYPE_MAPPINGS[name]);
+        path.node.typeName = t.identifier(TYPE_MAPPINGS[name]);
+      }
+    });
+  }
+
+  private transformImports(ast: t.File): void {
+    ast.program.body = ast.program.body.filter(statement => {
+      if (!t.isImportDeclaration(statement)) return true;
+      const source = statement.source.value;
+
+      if (source === 'solid-js') return false;
+      if (source.startsWith('solid-js/')) {
+        this.addNodeWarning(statement, `Imports from ${source} were removed; use react-dom instead`);
+        return false;
+      }
+      return true;
+    });
+
+    const declarations: t.ImportDeclaration[] = [];
+    if (this.reactImports.size > 0) {
+      declarations.push(t.importDeclaration(
+        [...this.reactImports].sort().map(name => t.importSpecifier(t.identifier(name), t.identifier(name))),
+        t.stringLiteral('react')
+      ));
+    }
+    if (this.reactTypeImports.size > 0) {
+      const typeImport = t.importDeclaration(
+        [...this.reactTypeImports].sort().map(name => t.importSpecifier(t.identifier(name), t.identifier(name))),
+        t.stringLiteral('react')
+      );
+      typeImport.importKind = 'type';
+      declarations.push(typeImport);
+    }
+
+    ast.program.body.unshift(...declarations);
+  }
+}
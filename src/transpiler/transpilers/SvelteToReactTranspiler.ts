@@ -1,8 +0,0 @@
-import { TranspilerInterface } from '../types'
-
-export class SvelteToReactTranspiler implements TranspilerInterface {
-  transpile(code: string): string {
-    // TODO: Implement Svelte to React transpilation
-    return code
-  }
-}
\ No newline at end of file
@@ -1,8 +0,0 @@
-import { TranspilerInterface } from '../types'
-
-export class SvelteToVueTranspiler implements TranspilerInterface {
-  transpile(code: string): string {
-    // TODO: Implement Svelte to Vue transpilation
-    return code
-  }
-}
\ No newline at end of file
@@ -1,8 +0,0 @@
-import { TranspilerInterface } from '../types'
-
-export class VueToAngularTranspiler implements TranspilerInterface {
-  transpile(code: string): string {
-    // TODO: Implement Vue to Angular transpilation
-    return code
-  }
-}
\ No newline at end of file
@@ -1,8 +0,0 @@
-import { TranspilerInterface } from '../types'
-
-export class VueToSvelteTranspiler implements TranspilerInterface {
-  transpile(code: string): string {
-    // TODO: Implement Vue to Svelte transpilation
-    return code
-  }
-}
\ No newline at end of file
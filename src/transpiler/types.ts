@@ -1,3 +1,5 @@
+import type { ComponentIR } from './ir/types';
+
 export type FrameworkType = 'react' | 'vue' | 'angular' | 'svelte' | 'solid' | 'preact' | 'lit';
 
 export interface TranspilationResult {
@@ -9,6 +11,16 @@ export interface TranspilationResult {
   metadata?: ComponentMetadata;
   imports?: ImportStatement[];
   sourceMap?: string;
+  path?: FrameworkType[];
+  hops?: TranspilationHop[];
+  fidelity?: number;
+}
+
+export interface TranspilationHop {
+  source: FrameworkType;
+  target: FrameworkType;
+  warnings: string[];
+  fidelity: number;
 }
 
 export interface ComponentMetadata {
@@ -23,6 +35,10 @@ export interface ComponentMetadata {
   computed?: Record<string, ComputedDefinition>;
   emits?: string[];
   slots?: SlotDefinition[];
+  // Stylesheet files the component loads, next to `styles`
+  styleUrls?: string[];
+  // Typed intermediate representation, when a parser exists for the framework
+  ir?: ComponentIR;
 }
 
 export interface PropDefinition {
@@ -30,6 +46,8 @@ export interface PropDefinition {
   required: boolean;
   default?: any;
   validator?: string;
+  // JSDoc text
+  description?: string;
 }
 
 export interface StateDefinition {
@@ -57,7 +75,11 @@ export interface DependencyInfo {
     name: string;
     type: 'default' | 'named' | 'namespace';
     imported?: string;
+    // `import { type Item }`
+    typeOnly?: boolean;
   }>;
+  // `import type { Item }`
+  typeOnly?: boolean;
 }
 
 export interface ImportStatement {
@@ -84,6 +106,17 @@ export interface TranspilerOptions {
   format?: boolean;
   style?: 'options' | 'composition' | 'class';
   version?: string;
+  // Prefix output lines with source position markers (see sourcemap.ts)
+  generateSourceMap?: boolean;
+  // Carry styling over as written, or translate it to the target's own
+  // styling (see styling.ts); defaults to 'preserve'
+  styling?: 'preserve' | 'translate';
+}
+
+// Position in a source file: 1-based line, 0-based column
+export interface SourcePosition {
+  line: number;
+  column: number;
 }
 
 export interface FrameworkFeatures {
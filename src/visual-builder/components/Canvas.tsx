@@ -1,13 +1,37 @@
-import React, { useEffect, useRef } from 'react';
-import { ComponentNode, BuilderSettings } from '../core/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ComponentNode, BuilderSettings, BuilderSymbol, DataSource, DropZone, StateVariable, ThemeTokens } from '../core/types';
+import { initialValues } from '../core/state';
+import { sourceItems } from '../core/data-sources';
+import { resolveInstance } from '../core/symbols';
+import { DEFAULT_THEME, themeVariables } from '../core/theme';
 import { ComponentRenderer } from './ComponentRenderer';
 
+interface Marquee {
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  additive: boolean;
+}
+
 interface CanvasProps {
   components: ComponentNode[];
   selectedComponentId: string | null;
+  // Every selected node, when several are
+  selectedComponentIds?: string[];
   hoveredComponentId: string | null;
   settings: BuilderSettings;
-  onSelectComponent: (id: string | null) => void;
+  variables?: StateVariable[];
+  dataSources?: DataSource[];
+  symbols?: BuilderSymbol[];
+  // Tokens the components refer to, shown in the mode `settings.darkMode` picks
+  theme?: ThemeTokens;
+  // Zones under the pointer while dragging, from `useDragDrop`
+  activeDropZone?: DropZone | null;
+  rejectedDropZone?: DropZone | null;
+  // Additive when shift is held: toggles the node in the selection
+  onSelectComponent: (id: string | null, additive?: boolean) => void;
+  onSelectComponents?: (ids: string[], additive?: boolean) => void;
   onHoverComponent: (id: string | null) => void;
   onDropZonesUpdate: (zones: any[]) => void;
 }
@@ -15,13 +39,30 @@ interface CanvasProps {
 export function Canvas({
   components,
   selectedComponentId,
+  selectedComponentIds = selectedComponentId ? [selectedComponentId] : [],
   hoveredComponentId,
   settings,
+  variables = [],
+  dataSources = [],
+  symbols = [],
+  theme = DEFAULT_THEME,
+  activeDropZone = null,
+  rejectedDropZone = null,
   onSelectComponent,
+  onSelectComponents,
   onHoverComponent,
   onDropZonesUpdate,
 }: CanvasProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
+  // The preview runs the page's state; editing the variables restarts it
+  const [state, setState] = useState(() => initialValues(variables));
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  // The click that ends a marquee drag shouldn't clear its selection
+  const suppressClick = useRef(false);
+
+  useEffect(() => {
+    setState(initialValues(variables));
+  }, [variables]);
 
   // Update drop zones when components change
   useEffect(() => {
@@ -31,23 +72,95 @@ export function Canvas({
     }
   }, [components, onDropZonesUpdate]);
 
-  const renderComponents = (nodes: ComponentNode[]): React.ReactNode => {
-    return nodes.map(node => (
-      <ComponentRenderer
-        key={node.id}
-        node={node}
-        isSelected={selectedComponentId === node.id}
-        isHovered={hoveredComponentId === node.id}
-        onClick={(e) => {
-          e.stopPropagation();
-          onSelectComponent(node.id);
-        }}
-        onMouseEnter={() => onHoverComponent(node.id)}
-        onMouseLeave={() => onHoverComponent(null)}
-      >
-        {node.children.length > 0 && renderComponents(node.children)}
-      </ComponentRenderer>
-    ));
+  // Actions inside a repeater see its item, but only variables are kept
+  const updateState = (next: Record<string, any>) => {
+    setState(Object.fromEntries(variables.map(variable => [variable.name, next[variable.name]])));
+  };
+
+  // A repeater renders its children once per item, with the item in scope;
+  // each copy selects the node it was rendered from
+  const renderChildren = (node: ComponentNode, scope: Record<string, any>, key: string, owner: string | null): React.ReactNode => {
+    if (node.type !== 'repeater') {
+      return node.children.length > 0 && renderComponents(node.children, scope, key, owner);
+    }
+    const source = dataSources.find(entry => entry.name === node.props.source);
+    const items = sourceItems(source);
+    if (items.length === 0) return null;
+    return items.map((item, index) =>
+      renderComponents(node.children, { ...scope, [node.props.itemName || 'item']: item, index }, `${key}${index}-`, owner)
+    );
+  };
+
+  // Nodes inside a symbol instance (the owner) render its master and
+  // select the instance; the master is edited on its own
+  const renderComponents = (
+    nodes: ComponentNode[],
+    scope: Record<string, any> = state,
+    key = '',
+    owner: string | null = null
+  ): React.ReactNode => {
+    return nodes.map(source => {
+      const node = source.type === 'symbol' ? resolveInstance(source, symbols) : source;
+      if (!node) {
+        return (
+          <div key={key + source.id} className="border border-dashed border-red-300 rounded px-2 py-1 text-xs text-red-500">
+            {source.name}: its symbol was deleted
+          </div>
+        );
+      }
+
+      const target = owner ?? node.id;
+      const inner = source.type === 'symbol' ? owner ?? source.id : owner;
+      return (
+        <ComponentRenderer
+          key={key + source.id}
+          node={node}
+          breakpoint={settings.devicePreview}
+          state={scope}
+          onStateChange={updateState}
+          isSelected={!owner && selectedComponentIds.includes(node.id)}
+          isHovered={!owner && hoveredComponentId === node.id}
+          dropState={owner ? undefined : dropState(node.id)}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelectComponent(target, e.shiftKey);
+          }}
+          onMouseEnter={() => onHoverComponent(target)}
+          onMouseLeave={() => onHoverComponent(null)}
+        >
+          {renderChildren(node, scope, key, inner)}
+        </ComponentRenderer>
+      );
+    });
+  };
+
+  const dropState = (id: string): 'accept' | 'reject' | undefined => {
+    if (rejectedDropZone?.parentId === id) return 'reject';
+    if (activeDropZone?.parentId === id) return 'accept';
+    return undefined;
+  };
+
+  // Dragging on the page background selects the components inside the box
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || !onSelectComponents || e.target !== e.currentTarget) return;
+    setMarquee({ startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY, additive: e.shiftKey });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (marquee) setMarquee({ ...marquee, x: e.clientX, y: e.clientY });
+  };
+
+  const handleMouseUp = () => {
+    if (!marquee || !canvasRef.current || !onSelectComponents) return;
+    const box = marqueeBox(marquee);
+    setMarquee(null);
+    if (box.width < 4 && box.height < 4) return;
+
+    const ids = Array.from(canvasRef.current.querySelectorAll<HTMLElement>('[data-component-id]'))
+      .filter(element => element !== canvasRef.current && contains(box, element.getBoundingClientRect()))
+      .map(element => element.dataset.componentId!);
+    onSelectComponents([...new Set(ids)], marquee.additive);
+    suppressClick.current = true;
   };
 
   const getDeviceClasses = () => {
@@ -68,6 +181,7 @@ export function Canvas({
         <div
           className={`mx-auto bg-white rounded-lg shadow-xl ${getDeviceClasses()}`}
           style={{
+            ...themeVariables(theme, settings.darkMode ? 'dark' : 'light'),
             minHeight: '600px',
             backgroundImage: settings.showGrid
               ? `
@@ -82,9 +196,22 @@ export function Canvas({
         >
           <div
             ref={canvasRef}
-            className="p-4"
-            onClick={() => onSelectComponent(null)}
+            className={`p-4 outline-none ${dropState('root') === 'reject' ? 'ring-2 ring-red-500 cursor-not-allowed' : ''}`}
+            // Focusable, so pasting targets the canvas once it's clicked
+            tabIndex={0}
+            onClick={() => {
+              if (suppressClick.current) {
+                suppressClick.current = false;
+              } else {
+                onSelectComponent(null);
+              }
+            }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
             data-drop-container
+            data-builder-canvas
             data-component-id="root"
           >
             {components.length === 0 ? (
@@ -103,6 +230,18 @@ export function Canvas({
           </div>
         </div>
 
+        {marquee && (
+          <div
+            className="fixed border border-purple-500 bg-purple-500/10 pointer-events-none"
+            style={{
+              left: marqueeBox(marquee).left,
+              top: marqueeBox(marquee).top,
+              width: marqueeBox(marquee).width,
+              height: marqueeBox(marquee).height
+            }}
+          />
+        )}
+
         {/* Device Preview Indicator */}
         {settings.devicePreview !== 'desktop' && (
           <div className="text-center mt-4">
@@ -114,4 +253,20 @@ export function Canvas({
       </div>
     </div>
   );
+}
+
+function marqueeBox(marquee: Marquee) {
+  return {
+    left: Math.min(marquee.startX, marquee.x),
+    top: Math.min(marquee.startY, marquee.y),
+    width: Math.abs(marquee.x - marquee.startX),
+    height: Math.abs(marquee.y - marquee.startY)
+  };
+}
+
+function contains(box: ReturnType<typeof marqueeBox>, rect: DOMRect): boolean {
+  return rect.left >= box.left
+    && rect.top >= box.top
+    && rect.right <= box.left + box.width
+    && rect.bottom <= box.top + box.height;
 }
\ No newline at end of file
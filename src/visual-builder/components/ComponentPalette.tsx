@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { componentRegistry, getCategories, getComponentsByCategory } from '../core/component-registry';
+import { componentRegistry, getCategories } from '../core/component-registry';
 import { DragItem } from '../core/types';
 
 interface ComponentPaletteProps {
@@ -12,11 +12,11 @@ export function ComponentPalette({ onDragStart }: ComponentPaletteProps) {
   const categories = getCategories();
 
   const filteredComponents = React.useMemo(() => {
-    let components = componentRegistry;
+    let components = componentRegistry.filter(comp => !comp.hidden);
 
     // Filter by category
     if (selectedCategory) {
-      components = getComponentsByCategory(selectedCategory);
+      components = components.filter(comp => comp.category === selectedCategory);
     }
 
     // Filter by search query
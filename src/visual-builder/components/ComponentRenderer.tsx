@@ -1,11 +1,21 @@
 import React from 'react';
-import { ComponentNode } from '../core/types';
+import { Breakpoint, ComponentNode } from '../core/types';
 import { getComponentDefinition } from '../core/component-registry';
+import { resolveProps } from '../core/responsive';
+import { isVisible, resolveBindings, runStateAction } from '../core/state';
+import { resolveTokens } from '../core/theme';
 
 interface ComponentRendererProps {
   node: ComponentNode;
+  // Breakpoint whose prop overrides are previewed
+  breakpoint?: Breakpoint;
+  // Live page state that bindings read and actions change
+  state?: Record<string, any>;
+  onStateChange?: (state: Record<string, any>) => void;
   isSelected: boolean;
   isHovered: boolean;
+  // While dragging over the component: whether the nesting rules let the item in
+  dropState?: 'accept' | 'reject';
   onClick: (e: React.MouseEvent) => void;
   onMouseEnter: () => void;
   onMouseLeave: () => void;
@@ -14,8 +24,12 @@ interface ComponentRendererProps {
 
 export function ComponentRenderer({
   node,
+  breakpoint = 'desktop',
+  state = {},
+  onStateChange,
   isSelected,
   isHovered,
+  dropState,
   onClick,
   onMouseEnter,
   onMouseLeave,
@@ -24,8 +38,23 @@ export function ComponentRenderer({
   const definition = getComponentDefinition(node.type);
   if (!definition) return null;
 
+  const model = node.bindings?.model;
+  const setModel = (value: any) => {
+    if (model) onStateChange?.({ ...state, [model]: value });
+  };
+
   const renderComponent = () => {
-    const { props } = node;
+    // Tokens read the variables the canvas sets from the theme
+    const props = resolveTokens(resolveBindings(node, resolveProps(node, breakpoint), state));
+
+    // Hidden by its binding; kept selectable on the canvas
+    if (!isVisible(node, state)) {
+      return (
+        <div className="border border-dashed border-gray-300 rounded px-2 py-1 text-xs text-gray-400">
+          {node.name} is hidden while <code>{node.bindings?.visible}</code> is false
+        </div>
+      );
+    }
     
     switch (node.type) {
       case 'container':
@@ -34,6 +63,7 @@ export function ComponentRenderer({
             style={{
               display: props.display || 'flex',
               flexDirection: props.flexDirection || 'column',
+              justifyContent: props.justifyContent,
               gap: props.gap || '16px',
               padding: props.padding || '16px',
               margin: props.margin || '0px',
@@ -48,6 +78,27 @@ export function ComponentRenderer({
           </div>
         );
 
+      case 'repeater':
+        return (
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: props.flexDirection || 'column',
+              gap: props.gap || '16px',
+              padding: props.padding || '0px',
+              ...(props.style || {}),
+            }}
+            className={props.className}
+            data-drop-container
+          >
+            {children || (
+              <div className="border border-dashed border-gray-300 rounded p-4 text-center text-sm text-gray-400">
+                {props.source ? 'Drop the item template here' : 'Choose a data source'}
+              </div>
+            )}
+          </div>
+        );
+
       case 'grid':
         return (
           <div
@@ -72,6 +123,7 @@ export function ComponentRenderer({
           style: {
             color: props.color || '#000000',
             fontSize: props.fontSize || '24px',
+            fontFamily: props.fontFamily,
             fontWeight: props.fontWeight || 'bold',
             textAlign: props.textAlign || 'left',
             ...(props.style || {}),
@@ -85,6 +137,7 @@ export function ComponentRenderer({
             style={{
               color: props.color || '#333333',
               fontSize: props.fontSize || '16px',
+              fontFamily: props.fontFamily,
               lineHeight: props.lineHeight || '1.5',
               ...(props.style || {}),
             }}
@@ -100,6 +153,7 @@ export function ComponentRenderer({
           <button
             style={{
               ...buttonStyles,
+              fontFamily: props.fontFamily,
               width: props.fullWidth ? '100%' : 'auto',
               ...(props.style || {}),
             }}
@@ -107,7 +161,9 @@ export function ComponentRenderer({
             disabled={props.disabled}
             onClick={(e) => {
               e.stopPropagation();
-              handleAction(props.onClick);
+              const next = runStateAction(props.onClick, state);
+              if (next) onStateChange?.(next);
+              else handleAction(props.onClick);
             }}
           >
             {props.text || 'Click me'}
@@ -128,12 +184,64 @@ export function ComponentRenderer({
               placeholder={props.placeholder || ''}
               required={props.required}
               disabled={props.disabled}
+              {...(model && {
+                value: state[model] ?? '',
+                onChange: (e: React.ChangeEvent<HTMLInputElement>) =>
+                  setModel(props.type === 'number' ? Number(e.target.value) : e.target.value)
+              })}
+              style={props.style}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+        );
+
+      case 'textarea':
+        return (
+          <div className={props.className}>
+            {props.label && (
+              <label className="block text-sm font-medium text-gray-700 mb-1">{props.label}</label>
+            )}
+            <textarea
+              placeholder={props.placeholder || ''}
+              rows={props.rows || 4}
+              {...(model && { value: state[model] ?? '', onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => setModel(e.target.value) })}
               style={props.style}
               className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
             />
           </div>
         );
 
+      case 'checkbox':
+        return (
+          <label className={`flex items-center gap-2 ${props.className ?? ''}`} style={props.style}>
+            <input
+              type="checkbox"
+              {...(model
+                ? { checked: !!state[model], onChange: (e: React.ChangeEvent<HTMLInputElement>) => setModel(e.target.checked) }
+                : { defaultChecked: props.checked })}
+            />
+            {props.label}
+          </label>
+        );
+
+      case 'select':
+        return (
+          <div className={props.className}>
+            {props.label && (
+              <label className="block text-sm font-medium text-gray-700 mb-1">{props.label}</label>
+            )}
+            <select
+              {...(model && { value: state[model] ?? '', onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setModel(e.target.value) })}
+              style={props.style}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+            >
+              {(props.options || []).map((option: string) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+        );
+
       case 'image':
         return (
           <img
@@ -202,6 +310,22 @@ export function ComponentRenderer({
           </ListTag>
         );
 
+      case 'raw':
+        // Imported markup is shown as code around any imported children
+        return (
+          <div className="border border-dashed border-gray-300 rounded px-2 py-1 font-mono text-xs text-gray-500">
+            {props.tag ? (
+              <>
+                <div>{`<${props.tag}${props.attributes ? ` ${props.attributes}` : ''}${props.selfClosing ? ' />' : '>'}`}</div>
+                {children && <div className="pl-4 font-sans text-sm text-gray-900">{children}</div>}
+                {!props.selfClosing && <div>{`</${props.tag}>`}</div>}
+              </>
+            ) : (
+              props.source
+            )}
+          </div>
+        );
+
       default:
         return (
           <div
@@ -218,8 +342,11 @@ export function ComponentRenderer({
   return (
     <div
       data-component-id={node.id}
+      style={{ alignSelf: resolveProps(node, breakpoint).alignSelf }}
       className={`relative ${isSelected ? 'ring-2 ring-purple-500' : ''} ${
         isHovered ? 'ring-1 ring-purple-300' : ''
+      } ${dropState === 'accept' ? 'ring-2 ring-green-400' : ''} ${
+        dropState === 'reject' ? 'ring-2 ring-red-500 cursor-not-allowed' : ''
       }`}
       onClick={onClick}
       onMouseEnter={onMouseEnter}
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { DataFieldType, DataSource } from '../core/types';
+import { DATA_FIELD_TYPES, parseDataItems, sourceItems } from '../core/data-sources';
+
+interface DataSourcePanelProps {
+  dataSources: DataSource[];
+  onAddDataSource: (source: DataSource) => void;
+  onUpdateDataSource: (name: string, updates: Partial<DataSource>) => void;
+  onDeleteDataSource: (name: string) => void;
+}
+
+const KINDS: Array<{ value: DataSource['kind']; label: string }> = [
+  { value: 'static', label: 'Static JSON' },
+  { value: 'rest', label: 'REST endpoint' },
+  { value: 'schema', label: 'Generated' },
+];
+
+export function DataSourcePanel({
+  dataSources,
+  onAddDataSource,
+  onUpdateDataSource,
+  onDeleteDataSource
+}: DataSourcePanelProps) {
+  const handleAdd = () => {
+    let index = dataSources.length + 1;
+    while (dataSources.some(source => source.name === `items${index}`)) index++;
+    onAddDataSource({
+      name: `items${index}`,
+      kind: 'schema',
+      schema: { title: 'string', description: 'paragraph', image: 'image' },
+      count: 3
+    });
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-700">🗂️ Data Sources</h4>
+        <button
+          onClick={handleAdd}
+          className="px-2 py-1 text-xs bg-purple-100 hover:bg-purple-200 text-purple-700 rounded transition-colors"
+        >
+          + Source
+        </button>
+      </div>
+
+      {dataSources.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Repeaters render their children once for each item of a data source
+        </p>
+      )}
+
+      {dataSources.map(source => (
+        <DataSourceItem
+          key={source.name}
+          source={source}
+          onUpdate={(updates) => onUpdateDataSource(source.name, updates)}
+          onDelete={() => onDeleteDataSource(source.name)}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface DataSourceItemProps {
+  source: DataSource;
+  onUpdate: (updates: Partial<DataSource>) => void;
+  onDelete: () => void;
+}
+
+function DataSourceItem({ source, onUpdate, onDelete }: DataSourceItemProps) {
+  const [json, setJSON] = useState(() => JSON.stringify(source.items ?? [], null, 2));
+  const [error, setError] = useState<string | null>(null);
+  const schema = source.schema ?? {};
+
+  // Names are used as identifiers in the exported code
+  const handleRename = (name: string) => {
+    if (/^[A-Za-z_$][\w$]*$/.test(name)) onUpdate({ name });
+  };
+
+  const handleItemsChange = () => {
+    try {
+      onUpdate({ items: parseDataItems(json) });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid data JSON');
+    }
+  };
+
+  const setField = (previous: string, field: string, type: DataFieldType) => {
+    const entries = Object.entries(schema).map(([name, current]) => name === previous ? [field, type] : [name, current]);
+    onUpdate({ schema: Object.fromEntries(entries.filter(([name]) => name)) });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded p-2 space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          defaultValue={source.name}
+          onBlur={(e) => handleRename(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 font-mono text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+        />
+        <select
+          value={source.kind}
+          onChange={(e) => onUpdate({ kind: e.target.value as DataSource['kind'] })}
+          className="px-1 py-1 text-sm border border-gray-300 rounded"
+        >
+          {KINDS.map(kind => (
+            <option key={kind.value} value={kind.value}>{kind.label}</option>
+          ))}
+        </select>
+        <button onClick={onDelete} className="text-red-500 hover:text-red-700 text-sm" title="Delete">
+          ✕
+        </button>
+      </div>
+
+      {source.kind === 'rest' && (
+        <input
+          type="text"
+          value={source.url ?? ''}
+          onChange={(e) => onUpdate({ url: e.target.value })}
+          placeholder="https://api.example.com/items"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+        />
+      )}
+
+      {(source.kind === 'static' || source.kind === 'rest') && (
+        <>
+          <textarea
+            value={json}
+            onChange={(e) => setJSON(e.target.value)}
+            onBlur={handleItemsChange}
+            rows={5}
+            className="w-full px-2 py-1 font-mono text-xs border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+          />
+          <p className="text-xs text-gray-500">
+            {source.kind === 'rest' ? 'Mock response shown on the canvas' : 'An array of objects'}
+          </p>
+        </>
+      )}
+
+      {source.kind === 'schema' && (
+        <>
+          {Object.entries(schema).map(([field, type]) => (
+            <div key={field} className="flex items-center gap-2">
+              <input
+                type="text"
+                defaultValue={field}
+                onBlur={(e) => setField(field, e.target.value, type)}
+                className="flex-1 min-w-0 px-2 py-1 font-mono text-xs border border-gray-300 rounded"
+              />
+              <select
+                value={type}
+                onChange={(e) => setField(field, field, e.target.value as DataFieldType)}
+                className="px-1 py-1 text-xs border border-gray-300 rounded"
+              >
+                {DATA_FIELD_TYPES.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              <button onClick={() => setField(field, '', type)} className="text-gray-400 hover:text-red-600 text-xs">
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onUpdate({ schema: { ...schema, [`field${Object.keys(schema).length + 1}`]: 'string' } })}
+              className="text-xs text-purple-600 hover:underline"
+            >
+              + Field
+            </button>
+            <label className="ml-auto text-xs text-gray-500">Items</label>
+            <input
+              type="number"
+              min={1}
+              max={50}
+              value={source.count ?? 3}
+              onChange={(e) => onUpdate({ count: Math.max(1, Number(e.target.value)) })}
+              className="w-14 px-1 py-0.5 text-xs border border-gray-300 rounded"
+            />
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!error && <p className="text-xs text-gray-400">{sourceItems(source).length} items</p>}
+    </div>
+  );
+}
@@ -1,26 +1,92 @@
 import React, { useMemo } from 'react';
-import { ComponentNode, PropSchema } from '../core/types';
+import { Breakpoint, BuilderSymbol, ComponentNode, DataSource, PropSchema, StateVariable, ThemeTokens } from '../core/types';
 import { getComponentDefinition } from '../core/component-registry';
+import {
+  BREAKPOINTS,
+  clearBreakpointProp,
+  getBreakpoint,
+  propSource,
+  resolveProps,
+  setBreakpointProp
+} from '../core/responsive';
+import { setBinding } from '../core/state';
+import { ItemScope } from '../core/data-sources';
+import { findSymbol, masterNodes, setOverride } from '../core/symbols';
 import { PropertyEditor } from './property-editors';
 
+// Prop types that can take their value from a state expression
+const BINDABLE_TYPES = ['string', 'number', 'boolean', 'select', 'image'];
+
+// Form fields that can read and write a state variable
+const MODEL_TYPES = ['input', 'textarea', 'select', 'checkbox'];
+
 interface PropertyPanelProps {
   component: ComponentNode | null;
+  // Breakpoint being edited, normally the canvas device preview
+  breakpoint?: Breakpoint;
+  onBreakpointChange?: (breakpoint: Breakpoint) => void;
+  // Page state props can bind to
+  variables?: StateVariable[];
+  dataSources?: DataSource[];
+  // Item of the repeater the component is in, from `itemScope`
+  scope?: ItemScope | null;
+  // Tokens color, spacing and font props can use in place of values
+  theme?: ThemeTokens;
   onUpdateComponent: (id: string, updates: Partial<ComponentNode>) => void;
   onDeleteComponent: (id: string) => void;
   onDuplicateComponent: (id: string) => void;
+  // Every selected component, when several are; their shared props are edited together
+  selection?: ComponentNode[];
+  onUpdateComponents?: (updates: Array<{ id: string; updates: Partial<ComponentNode> }>) => void;
+  onDeleteComponents?: (ids: string[]) => void;
+  onDuplicateComponents?: (ids: string[]) => void;
+  // Symbols of the project, and turning components into them and back
+  symbols?: BuilderSymbol[];
+  onCreateSymbol?: (id: string) => void;
+  onDetachInstance?: (id: string) => void;
+  onEditSymbol?: (symbolId: string) => void;
 }
 
 export function PropertyPanel({
   component,
+  breakpoint = 'desktop',
+  onBreakpointChange,
+  variables = [],
+  dataSources = [],
+  scope = null,
+  theme,
   onUpdateComponent,
   onDeleteComponent,
-  onDuplicateComponent
+  onDuplicateComponent,
+  selection = [],
+  onUpdateComponents,
+  onDeleteComponents,
+  onDuplicateComponents,
+  symbols = [],
+  onCreateSymbol,
+  onDetachInstance,
+  onEditSymbol
 }: PropertyPanelProps) {
   const definition = useMemo(
     () => component ? getComponentDefinition(component.type) : null,
     [component?.type]
   );
 
+  if (selection.length > 1 && onUpdateComponents) {
+    return (
+      <SelectionProperties
+        selection={selection}
+        breakpoint={breakpoint}
+        variables={variables}
+        dataSources={dataSources}
+        theme={theme}
+        onUpdateComponents={onUpdateComponents}
+        onDeleteComponents={onDeleteComponents}
+        onDuplicateComponents={onDuplicateComponents}
+      />
+    );
+  }
+
   if (!component || !definition) {
     return (
       <div className="h-full bg-white border-l border-gray-200 p-6">
@@ -35,13 +101,34 @@ export function PropertyPanel({
     );
   }
 
+  if (component.type === 'symbol') {
+    return (
+      <InstanceProperties
+        instance={component}
+        symbol={findSymbol(symbols, component)}
+        variables={variables}
+        dataSources={dataSources}
+        onUpdateComponent={onUpdateComponent}
+        onDeleteComponent={onDeleteComponent}
+        onDuplicateComponent={onDuplicateComponent}
+        onDetachInstance={onDetachInstance}
+        onEditSymbol={onEditSymbol}
+      />
+    );
+  }
+
+  const values = resolveProps(component, breakpoint);
+
   const handlePropChange = (propName: string, value: any) => {
-    onUpdateComponent(component.id, {
-      props: {
-        ...component.props,
-        [propName]: value
-      }
-    });
+    onUpdateComponent(component.id, setBreakpointProp(component, breakpoint, propName, value));
+  };
+
+  const handlePropReset = (propName: string) => {
+    onUpdateComponent(component.id, clearBreakpointProp(component, breakpoint, propName));
+  };
+
+  const handleBindingChange = (propName: string, expression: string | null) => {
+    onUpdateComponent(component.id, setBinding(component, propName, expression));
   };
 
   const handleNameChange = (name: string) => {
@@ -59,13 +146,13 @@ export function PropertyPanel({
       }
       
       // Check if property should be shown based on conditions
-      if (!prop.condition || prop.condition(component.props)) {
+      if (!prop.condition || prop.condition(values)) {
         groups[category].push(prop);
       }
     });
     
     return groups;
-  }, [definition.propSchema, component.props]);
+  }, [definition.propSchema, component.props, component.responsive, breakpoint]);
 
   return (
     <div className="h-full bg-white border-l border-gray-200 overflow-y-auto">
@@ -101,8 +188,48 @@ export function PropertyPanel({
             🗑️ Delete
           </button>
         </div>
+        {onCreateSymbol && (
+          <button
+            onClick={() => onCreateSymbol(component.id)}
+            className="w-full mt-2 px-3 py-1.5 text-sm bg-purple-50 hover:bg-purple-100 text-purple-700 rounded transition-colors"
+            title="Reuse this component as linked instances"
+          >
+            ◈ Create Symbol
+          </button>
+        )}
+      </div>
+
+      {/* Breakpoint */}
+      <div className="px-4 py-3 border-b border-gray-200">
+        <div className="flex gap-1">
+          {BREAKPOINTS.map(entry => (
+            <button
+              key={entry.id}
+              onClick={() => onBreakpointChange?.(entry.id)}
+              disabled={!onBreakpointChange}
+              className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                entry.id === breakpoint
+                  ? 'bg-purple-100 text-purple-700 font-medium'
+                  : 'text-gray-500 hover:bg-gray-100'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+        {breakpoint !== 'desktop' && (
+          <p className="text-xs text-gray-500 mt-2">
+            Changes apply to {getBreakpoint(breakpoint).label.toLowerCase()} and narrower screens
+          </p>
+        )}
       </div>
 
+      {component.locked && (
+        <div className="px-4 py-3 border-b border-gray-200 text-xs text-gray-500">
+          🔒 Imported markup the builder can't edit. It is exported as written; change it in code.
+        </div>
+      )}
+
       {/* Properties */}
       <div className="p-4 space-y-6">
         {Object.entries(groupedProps).map(([category, props]) => (
@@ -112,20 +239,114 @@ export function PropertyPanel({
               {category}
             </h4>
             <div className="space-y-4">
-              {props.map(prop => (
-                <PropertyEditor
-                  key={prop.name}
-                  schema={prop}
-                  value={component.props[prop.name]}
-                  onChange={(value) => handlePropChange(prop.name, value)}
-                  componentProps={component.props}
-                />
-              ))}
+              {props.map(prop => {
+                const source = propSource(component, breakpoint, prop.name);
+                const binding = component.bindings?.[prop.name];
+                return (
+                  <div key={prop.name}>
+                    {binding !== undefined ? (
+                      <div className="space-y-1">
+                        <label className="block text-sm font-medium text-gray-700">{prop.label}</label>
+                        <input
+                          type="text"
+                          value={binding}
+                          onChange={(e) => handleBindingChange(prop.name, e.target.value)}
+                          placeholder="State expression"
+                          className="w-full px-3 py-2 font-mono text-sm border border-purple-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                      </div>
+                    ) : (
+                      <PropertyEditor
+                        schema={prop}
+                        value={values[prop.name]}
+                        onChange={(value) => handlePropChange(prop.name, value)}
+                        componentProps={values}
+                        variables={variables}
+                        dataSources={dataSources}
+                        theme={theme}
+                      />
+                    )}
+                    {(variables.length > 0 || scope) && BINDABLE_TYPES.includes(prop.type) && (
+                      <button
+                        onClick={() => handleBindingChange(
+                          prop.name,
+                          binding === undefined ? variables[0]?.name ?? scope!.itemName : null
+                        )}
+                        className="text-xs text-purple-600 hover:underline mt-1 mr-3"
+                      >
+                        {binding === undefined ? 'Bind to expression' : 'Remove binding'}
+                      </button>
+                    )}
+                    {scope && scope.fields.length > 0 && BINDABLE_TYPES.includes(prop.type) && (
+                      <select
+                        value=""
+                        onChange={(e) => handleBindingChange(prop.name, `${scope.itemName}.${e.target.value}`)}
+                        className="text-xs text-purple-600 bg-transparent mt-1"
+                      >
+                        <option value="">Bind to item field…</option>
+                        {scope.fields.map(field => (
+                          <option key={field} value={field}>{scope.itemName}.{field}</option>
+                        ))}
+                      </select>
+                    )}
+                    {breakpoint !== 'desktop' && binding === undefined && (
+                      source === breakpoint ? (
+                        <button
+                          onClick={() => handlePropReset(prop.name)}
+                          className="text-xs text-purple-600 hover:underline mt-1"
+                        >
+                          Reset to inherited value
+                        </button>
+                      ) : (
+                        <p className="text-xs text-gray-400 mt-1">
+                          Inherited from {getBreakpoint(source).label}
+                        </p>
+                      )
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
         ))}
       </div>
 
+      {/* State */}
+      {variables.length > 0 && (
+        <div className="p-4 border-t border-gray-200 space-y-4">
+          <h4 className="text-sm font-semibold text-gray-700 flex items-center">
+            <span className="mr-2">{getCategoryIcon('State')}</span>
+            Page State
+          </h4>
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">Visible when</label>
+            <input
+              type="text"
+              value={component.bindings?.visible ?? ''}
+              onChange={(e) => handleBindingChange('visible', e.target.value || null)}
+              placeholder="Always visible"
+              className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          {MODEL_TYPES.includes(component.type) && (
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Value variable</label>
+              <select
+                value={component.bindings?.model ?? ''}
+                onChange={(e) => handleBindingChange('model', e.target.value || null)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <option value="">None</option>
+                {variables.map(variable => (
+                  <option key={variable.name} value={variable.name}>{variable.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500">The field shows the variable and updates it as you type</p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Component Info */}
       <div className="p-4 border-t border-gray-200">
         <details className="text-xs text-gray-500">
@@ -164,6 +385,222 @@ export function PropertyPanel({
   );
 }
 
+interface SelectionPropertiesProps {
+  selection: ComponentNode[];
+  breakpoint: Breakpoint;
+  variables: StateVariable[];
+  dataSources: DataSource[];
+  theme?: ThemeTokens;
+  onUpdateComponents: NonNullable<PropertyPanelProps['onUpdateComponents']>;
+  onDeleteComponents?: (ids: string[]) => void;
+  onDuplicateComponents?: (ids: string[]) => void;
+}
+
+// Props every selected component has, with the same name and type
+function sharedProps(selection: ComponentNode[]): PropSchema[] {
+  const schemas = selection.map(node => getComponentDefinition(node.type)?.propSchema ?? []);
+  return schemas[0].filter(prop =>
+    prop.type !== 'action' && schemas.every(schema => schema.some(other => other.name === prop.name && other.type === prop.type))
+  );
+}
+
+function SelectionProperties({
+  selection,
+  breakpoint,
+  variables,
+  dataSources,
+  theme,
+  onUpdateComponents,
+  onDeleteComponents,
+  onDuplicateComponents
+}: SelectionPropertiesProps) {
+  const props = sharedProps(selection);
+  const ids = selection.map(node => node.id);
+  const values = selection.map(node => resolveProps(node, breakpoint));
+
+  const handlePropChange = (propName: string, value: any) => {
+    onUpdateComponents(selection.map(node => ({
+      id: node.id,
+      updates: setBreakpointProp(node, breakpoint, propName, value)
+    })));
+  };
+
+  return (
+    <div className="h-full bg-white border-l border-gray-200 overflow-y-auto">
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold mb-1">{selection.length} components</h3>
+        <p className="text-xs text-gray-500 mb-3">
+          {[...new Set(selection.map(node => node.type))].join(', ')}
+        </p>
+        <div className="flex gap-2">
+          {onDuplicateComponents && (
+            <button
+              onClick={() => onDuplicateComponents(ids)}
+              className="flex-1 px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+            >
+              📋 Duplicate
+            </button>
+          )}
+          {onDeleteComponents && (
+            <button
+              onClick={() => onDeleteComponents(ids)}
+              className="flex-1 px-3 py-1.5 text-sm bg-red-50 hover:bg-red-100 text-red-600 rounded transition-colors"
+            >
+              🗑️ Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {props.length === 0 && (
+          <p className="text-sm text-gray-500">The selected components have no properties in common</p>
+        )}
+        {props.map(prop => {
+          const first = values[0][prop.name];
+          const mixed = values.some(value => JSON.stringify(value[prop.name]) !== JSON.stringify(first));
+          return (
+            <div key={prop.name}>
+              <PropertyEditor
+                schema={prop}
+                value={mixed ? undefined : first}
+                onChange={(value) => handlePropChange(prop.name, value)}
+                componentProps={values[0]}
+                variables={variables}
+                dataSources={dataSources}
+                theme={theme}
+              />
+              {mixed && <p className="text-xs text-gray-400 mt-1">Mixed values</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface InstancePropertiesProps {
+  instance: ComponentNode;
+  symbol: BuilderSymbol | undefined;
+  variables: StateVariable[];
+  dataSources: DataSource[];
+  onUpdateComponent: PropertyPanelProps['onUpdateComponent'];
+  onDeleteComponent: (id: string) => void;
+  onDuplicateComponent: (id: string) => void;
+  onDetachInstance?: (id: string) => void;
+  onEditSymbol?: (symbolId: string) => void;
+}
+
+// An instance sets the content props of its master's nodes; the rest
+// follows the master
+function InstanceProperties({
+  instance,
+  symbol,
+  variables,
+  dataSources,
+  onUpdateComponent,
+  onDeleteComponent,
+  onDuplicateComponent,
+  onDetachInstance,
+  onEditSymbol
+}: InstancePropertiesProps) {
+  const overrides = instance.overrides ?? {};
+  const nodes = symbol ? masterNodes(symbol) : [];
+
+  return (
+    <div className="h-full bg-white border-l border-gray-200 overflow-y-auto">
+      <div className="p-4 border-b border-gray-200">
+        <div className="flex items-center gap-3 mb-3">
+          <span className="text-2xl">◈</span>
+          <div className="flex-1">
+            <input
+              type="text"
+              value={instance.name}
+              onChange={(e) => onUpdateComponent(instance.id, { name: e.target.value })}
+              className="w-full px-2 py-1 text-lg font-semibold border-b border-transparent hover:border-gray-300 focus:border-purple-500 focus:outline-none transition-colors"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {symbol ? `Instance of ${symbol.name}` : 'Its symbol was deleted'}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {symbol && onEditSymbol && (
+            <button
+              onClick={() => onEditSymbol(symbol.id)}
+              className="flex-1 px-3 py-1.5 text-sm bg-purple-50 hover:bg-purple-100 text-purple-700 rounded transition-colors"
+              title="Changes to the master show in every instance"
+            >
+              ✏️ Edit Master
+            </button>
+          )}
+          {symbol && onDetachInstance && (
+            <button
+              onClick={() => onDetachInstance(instance.id)}
+              className="flex-1 px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+              title="Turn this instance into plain components"
+            >
+              ⛓️ Detach
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => onDuplicateComponent(instance.id)}
+            className="flex-1 px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded transition-colors"
+          >
+            📋 Duplicate
+          </button>
+          <button
+            onClick={() => onDeleteComponent(instance.id)}
+            className="flex-1 px-3 py-1.5 text-sm bg-red-50 hover:bg-red-100 text-red-600 rounded transition-colors"
+          >
+            🗑️ Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {nodes.map(node => {
+          const props = (getComponentDefinition(node.type)?.propSchema ?? [])
+            .filter(prop => BINDABLE_TYPES.includes(prop.type));
+          if (props.length === 0) return null;
+          return (
+            <div key={node.id}>
+              <h4 className="text-sm font-semibold text-gray-700 mb-3">{node.name}</h4>
+              <div className="space-y-4">
+                {props.map(prop => {
+                  const overridden = overrides[node.id]?.[prop.name] !== undefined;
+                  return (
+                    <div key={prop.name}>
+                      <PropertyEditor
+                        schema={prop}
+                        value={overridden ? overrides[node.id][prop.name] : node.props[prop.name]}
+                        onChange={(value) => onUpdateComponent(instance.id, setOverride(instance, node.id, prop.name, value))}
+                        componentProps={{ ...node.props, ...overrides[node.id] }}
+                        variables={variables}
+                        dataSources={dataSources}
+                      />
+                      {overridden && (
+                        <button
+                          onClick={() => onUpdateComponent(instance.id, setOverride(instance, node.id, prop.name, undefined))}
+                          className="text-xs text-purple-600 hover:underline mt-1"
+                        >
+                          Reset to master
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function getCategoryIcon(category: string): string {
   const icons: Record<string, string> = {
     'Content': '📝',
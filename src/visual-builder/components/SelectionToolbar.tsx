@@ -0,0 +1,104 @@
+import React from 'react';
+import { Alignment, ComponentNode } from '../core/types';
+
+interface SelectionToolbarProps {
+  // Selected components, most recently selected last
+  selection: ComponentNode[];
+  onGroup: (ids: string[]) => void;
+  onUngroup: (id: string) => void;
+  onAlign: (ids: string[], alignment: Alignment) => void;
+  onDistribute: (ids: string[], direction: 'row' | 'column') => void;
+  onCopy?: () => void;
+  onPaste?: () => void;
+}
+
+const ALIGNMENTS: Array<{ value: Alignment; label: string; icon: string }> = [
+  { value: 'start', label: 'Align start', icon: '⇤' },
+  { value: 'center', label: 'Align center', icon: '↔' },
+  { value: 'end', label: 'Align end', icon: '⇥' },
+  { value: 'stretch', label: 'Stretch', icon: '⟷' },
+];
+
+export function SelectionToolbar({
+  selection,
+  onGroup,
+  onUngroup,
+  onAlign,
+  onDistribute,
+  onCopy,
+  onPaste
+}: SelectionToolbarProps) {
+  const ids = selection.map(node => node.id);
+  const single = selection.length === 1 ? selection[0] : null;
+  const buttonClass = 'px-2 py-1 text-sm rounded hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center gap-1 px-3 py-1.5 bg-white border-b border-gray-200">
+      <span className="text-xs text-gray-500 mr-2">
+        {selection.length === 0 ? 'Nothing selected' : `${selection.length} selected`}
+      </span>
+
+      <button
+        onClick={() => onGroup(ids)}
+        disabled={selection.length === 0}
+        className={buttonClass}
+        title="Group into a container"
+      >
+        ▣ Group
+      </button>
+      <button
+        onClick={() => single && onUngroup(single.id)}
+        disabled={!single || single.type !== 'container' || single.children.length === 0}
+        className={buttonClass}
+        title="Replace the container with its children"
+      >
+        ▢ Ungroup
+      </button>
+
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+
+      {ALIGNMENTS.map(alignment => (
+        <button
+          key={alignment.value}
+          onClick={() => onAlign(ids, alignment.value)}
+          disabled={selection.length === 0}
+          className={buttonClass}
+          title={alignment.label}
+        >
+          {alignment.icon}
+        </button>
+      ))}
+
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+
+      <button
+        onClick={() => onDistribute(ids, 'row')}
+        disabled={selection.length < 2}
+        className={buttonClass}
+        title="Distribute horizontally"
+      >
+        ⋯
+      </button>
+      <button
+        onClick={() => onDistribute(ids, 'column')}
+        disabled={selection.length < 2}
+        className={buttonClass}
+        title="Distribute vertically"
+      >
+        ⋮
+      </button>
+
+      {(onCopy || onPaste) && <div className="w-px h-5 bg-gray-200 mx-1" />}
+      {onCopy && (
+        <button onClick={onCopy} disabled={selection.length === 0} className={buttonClass} title="Copy (Ctrl+C)">
+          Copy
+        </button>
+      )}
+      {onPaste && (
+        <button onClick={onPaste} className={buttonClass} title="Paste (Ctrl+V)">
+          Paste
+        </button>
+      )}
+    </div>
+  );
+}
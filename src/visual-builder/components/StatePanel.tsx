@@ -0,0 +1,103 @@
+import React from 'react';
+import { StateVariable } from '../core/types';
+
+interface StatePanelProps {
+  variables: StateVariable[];
+  onAddVariable: (variable: StateVariable) => void;
+  onUpdateVariable: (name: string, updates: Partial<StateVariable>) => void;
+  onDeleteVariable: (name: string) => void;
+}
+
+const DEFAULT_VALUES: Record<StateVariable['type'], StateVariable['initialValue']> = {
+  string: '',
+  number: 0,
+  boolean: false
+};
+
+export function StatePanel({
+  variables,
+  onAddVariable,
+  onUpdateVariable,
+  onDeleteVariable
+}: StatePanelProps) {
+  const handleAdd = () => {
+    let index = variables.length + 1;
+    while (variables.some(variable => variable.name === `value${index}`)) index++;
+    onAddVariable({ name: `value${index}`, type: 'boolean', initialValue: false });
+  };
+
+  // Names are used as identifiers in the exported code
+  const handleRename = (variable: StateVariable, name: string) => {
+    if (/^[A-Za-z_$][\w$]*$/.test(name)) {
+      onUpdateVariable(variable.name, { name });
+    }
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-700">🔄 Page State</h4>
+        <button
+          onClick={handleAdd}
+          className="px-2 py-1 text-xs bg-purple-100 hover:bg-purple-200 text-purple-700 rounded transition-colors"
+        >
+          + Variable
+        </button>
+      </div>
+
+      {variables.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Variables hold values that button actions change and props bind to
+        </p>
+      )}
+
+      {variables.map(variable => (
+        <div key={variable.name} className="flex items-center gap-2">
+          <input
+            type="text"
+            defaultValue={variable.name}
+            onBlur={(e) => handleRename(variable, e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 font-mono text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+          />
+          <select
+            value={variable.type}
+            onChange={(e) => {
+              const type = e.target.value as StateVariable['type'];
+              onUpdateVariable(variable.name, { type, initialValue: DEFAULT_VALUES[type] });
+            }}
+            className="px-1 py-1 text-sm border border-gray-300 rounded"
+          >
+            <option value="boolean">Boolean</option>
+            <option value="number">Number</option>
+            <option value="string">Text</option>
+          </select>
+          {variable.type === 'boolean' ? (
+            <input
+              type="checkbox"
+              checked={variable.initialValue === true}
+              onChange={(e) => onUpdateVariable(variable.name, { initialValue: e.target.checked })}
+              title="Initial value"
+            />
+          ) : (
+            <input
+              type={variable.type === 'number' ? 'number' : 'text'}
+              value={`${variable.initialValue}`}
+              onChange={(e) => onUpdateVariable(variable.name, {
+                initialValue: variable.type === 'number' ? Number(e.target.value) : e.target.value
+              })}
+              placeholder="Initial value"
+              className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          )}
+          <button
+            onClick={() => onDeleteVariable(variable.name)}
+            className="text-red-500 hover:text-red-700 text-sm"
+            title="Delete"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
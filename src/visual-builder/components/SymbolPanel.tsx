@@ -0,0 +1,97 @@
+import React from 'react';
+import { BuilderSymbol, DragItem } from '../core/types';
+import { placesSymbol } from '../core/symbols';
+
+interface SymbolPanelProps {
+  symbols: BuilderSymbol[];
+  // Symbol whose master is open on the canvas
+  editingSymbolId?: string | null;
+  onDragStart: (item: DragItem) => void;
+  onRenameSymbol: (id: string, name: string) => void;
+  onDeleteSymbol: (id: string) => void;
+  onEditSymbol: (id: string) => void;
+  onFinishEditing: () => void;
+}
+
+export function SymbolPanel({
+  symbols,
+  editingSymbolId = null,
+  onDragStart,
+  onRenameSymbol,
+  onDeleteSymbol,
+  onEditSymbol,
+  onFinishEditing
+}: SymbolPanelProps) {
+  const editing = symbols.find(symbol => symbol.id === editingSymbolId);
+
+  const handleDragStart = (e: React.DragEvent, symbol: BuilderSymbol) => {
+    const dragItem: DragItem = {
+      id: `new-${Date.now()}`,
+      type: 'symbol',
+      isNew: true,
+      symbolId: symbol.id,
+    };
+
+    onDragStart(dragItem);
+    e.dataTransfer.effectAllowed = 'copy';
+    e.dataTransfer.setData('text/plain', JSON.stringify(dragItem));
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <h4 className="text-sm font-semibold text-gray-700">◈ Symbols</h4>
+
+      {editing && (
+        <div className="flex items-center gap-2 px-2 py-1.5 bg-purple-50 border border-purple-200 rounded text-xs text-purple-700">
+          <span className="flex-1">Editing the master of {editing.name}</span>
+          <button onClick={onFinishEditing} className="px-2 py-0.5 bg-purple-600 text-white rounded hover:bg-purple-700">
+            Done
+          </button>
+        </div>
+      )}
+
+      {symbols.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Create a symbol from a selected component to reuse it; every instance follows its master
+        </p>
+      )}
+
+      {symbols.map(symbol => {
+        // A master can't place itself
+        const placeable = !editingSymbolId || !placesSymbol(symbols, symbol.id, editingSymbolId);
+        return (
+          <div
+            key={symbol.id}
+            draggable={placeable}
+            onDragStart={(e) => handleDragStart(e, symbol)}
+            className={`flex items-center gap-2 ${placeable ? 'cursor-move' : 'opacity-50'}`}
+          >
+            <span className="text-gray-400">◈</span>
+            <input
+              type="text"
+              defaultValue={symbol.name}
+              onBlur={(e) => e.target.value && onRenameSymbol(symbol.id, e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+            />
+            <button
+              onClick={() => onEditSymbol(symbol.id)}
+              disabled={!!editingSymbolId}
+              className="text-purple-600 hover:text-purple-800 text-sm disabled:opacity-40"
+              title="Edit master"
+            >
+              ✏️
+            </button>
+            <button
+              onClick={() => onDeleteSymbol(symbol.id)}
+              disabled={symbol.id === editingSymbolId}
+              className="text-red-500 hover:text-red-700 text-sm disabled:opacity-40"
+              title="Delete; instances become plain components"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
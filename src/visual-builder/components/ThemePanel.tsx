@@ -0,0 +1,103 @@
+import React from 'react';
+import { ColorToken, ThemeTokens, TokenGroup } from '../core/types';
+import { TOKEN_GROUPS, isTokenName } from '../core/theme';
+
+interface ThemePanelProps {
+  theme: ThemeTokens;
+  onSetToken: (group: TokenGroup, name: string, value: string | ColorToken) => void;
+  onRenameToken: (group: TokenGroup, from: string, to: string) => void;
+  // Components using a deleted token keep its value
+  onDeleteToken: (group: TokenGroup, name: string) => void;
+}
+
+const NEW_VALUES: Record<TokenGroup, string | ColorToken> = {
+  colors: { light: '#000000' },
+  spacing: '12px',
+  radii: '6px',
+  fonts: 'system-ui, sans-serif',
+  fontSizes: '18px'
+};
+
+export function ThemePanel({ theme, onSetToken, onRenameToken, onDeleteToken }: ThemePanelProps) {
+  const handleAdd = (group: TokenGroup) => {
+    const names = Object.keys(theme[group]);
+    let index = names.length + 1;
+    while (names.includes(`token${index}`)) index++;
+    onSetToken(group, `token${index}`, NEW_VALUES[group]);
+  };
+
+  const handleRename = (group: TokenGroup, from: string, to: string) => {
+    if (to !== from && isTokenName(to)) onRenameToken(group, from, to);
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700">🎨 Theme</h4>
+        <p className="text-xs text-gray-500">
+          Props that use a token change with it; colors can differ in dark mode
+        </p>
+      </div>
+
+      {TOKEN_GROUPS.map(({ group, label }) => (
+        <div key={group} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h5 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{label}</h5>
+            <button
+              onClick={() => handleAdd(group)}
+              className="px-2 py-1 text-xs bg-purple-100 hover:bg-purple-200 text-purple-700 rounded transition-colors"
+            >
+              + Token
+            </button>
+          </div>
+
+          {Object.entries(theme[group]).map(([name, value]: [string, string | ColorToken]) => (
+            <div key={name} className="flex items-center gap-2">
+              <input
+                type="text"
+                defaultValue={name}
+                onBlur={(e) => handleRename(group, name, e.target.value)}
+                className="w-24 min-w-0 px-2 py-1 font-mono text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+              />
+              {typeof value === 'string' ? (
+                <input
+                  type="text"
+                  value={value}
+                  onChange={(e) => onSetToken(group, name, e.target.value)}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded"
+                />
+              ) : (
+                <>
+                  <input
+                    type="color"
+                    value={value.light}
+                    onChange={(e) => onSetToken(group, name, { ...value, light: e.target.value })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                    title="Light"
+                  />
+                  <input
+                    type="color"
+                    value={value.dark ?? value.light}
+                    onChange={(e) => onSetToken(group, name, { ...value, dark: e.target.value })}
+                    className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+                    title="Dark"
+                  />
+                  <span className="flex-1 text-xs text-gray-400 font-mono truncate">
+                    {value.light}{value.dark && value.dark !== value.light ? ` / ${value.dark}` : ''}
+                  </span>
+                </>
+              )}
+              <button
+                onClick={() => onDeleteToken(group, name)}
+                className="text-red-500 hover:text-red-700 text-sm"
+                title="Delete"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { BuilderSymbol, ComponentNode } from '../core/types';
+import { validateForExport } from '../core/validation';
+
+interface ValidationPanelProps {
+  components: ComponentNode[];
+  symbols?: BuilderSymbol[];
+  onSelectComponent: (id: string) => void;
+}
+
+export function ValidationPanel({ components, symbols = [], onSelectComponent }: ValidationPanelProps) {
+  const violations = useMemo(() => validateForExport(components, symbols), [components, symbols]);
+
+  return (
+    <div className="p-4 space-y-3">
+      <h4 className="text-sm font-semibold text-gray-700">
+        {violations.length === 0 ? '✅ No Problems' : `⚠️ ${violations.length} Problem${violations.length === 1 ? '' : 's'}`}
+      </h4>
+
+      {violations.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Components are nested as the registry allows and required props are set
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">Fix these before exporting; click one to select its component</p>
+      )}
+
+      {violations.map((violation, index) => (
+        <button
+          key={`${violation.nodeId}-${index}`}
+          onClick={() => onSelectComponent(violation.nodeId)}
+          className="block w-full text-left px-2 py-1.5 rounded border border-red-100 bg-red-50 hover:bg-red-100 transition-colors"
+        >
+          <span className="block text-sm text-red-700">{violation.message}</span>
+          <span className="block text-xs text-gray-500 truncate">{violation.path}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
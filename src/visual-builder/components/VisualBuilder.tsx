@@ -0,0 +1,270 @@
+import React, { useMemo, useReducer, useRef, useState } from 'react';
+import { BuilderActionType, BuilderState, ComponentNode, DragItem } from '../core/types';
+import { itemScope } from '../core/data-sources';
+import { builderReducer, initialBuilderState } from '../store/builder-reducer';
+import { ProjectStorage } from '../store/project-storage';
+import { useBuilderPersistence } from '../hooks/useBuilderPersistence';
+import { useBuilderClipboard } from '../hooks/useBuilderClipboard';
+import { Canvas } from './Canvas';
+import { ComponentPalette } from './ComponentPalette';
+import { PropertyPanel } from './PropertyPanel';
+import { SelectionToolbar } from './SelectionToolbar';
+import { SymbolPanel } from './SymbolPanel';
+import { StatePanel } from './StatePanel';
+import { DataSourcePanel } from './DataSourcePanel';
+import { ThemePanel } from './ThemePanel';
+import { ValidationPanel } from './ValidationPanel';
+
+interface VisualBuilderProps {
+  // Where projects are kept; local storage by default
+  storage?: ProjectStorage;
+  initialState?: Partial<BuilderState>;
+}
+
+type SideTab = 'state' | 'data' | 'theme' | 'problems';
+
+const SIDE_TABS: Array<{ value: SideTab; label: string }> = [
+  { value: 'state', label: 'State' },
+  { value: 'data', label: 'Data' },
+  { value: 'theme', label: 'Theme' },
+  { value: 'problems', label: 'Problems' },
+];
+
+/**
+ * The whole builder: palette and symbols on the left, the canvas with its
+ * toolbars in the middle, and the selection's properties with the page's
+ * state, data sources, theme and problems on the right. Projects autosave
+ * when `settings.autoSave` is on, and copy, cut and paste work on the page.
+ */
+export function VisualBuilder({ storage, initialState }: VisualBuilderProps) {
+  const [state, dispatch] = useReducer(builderReducer, { ...initialBuilderState, ...initialState });
+  const persistence = useBuilderPersistence(state, dispatch, { storage });
+  const clipboard = useBuilderClipboard(state, dispatch);
+  const [sideTab, setSideTab] = useState<SideTab>('state');
+
+  // Native drag and drop doesn't carry the item to the drop, so it's kept here
+  const dragged = useRef<DragItem | null>(null);
+
+  const selection = useMemo(() => {
+    const nodes: ComponentNode[] = [];
+    const collect = (children: ComponentNode[]) => children.forEach(node => {
+      if (state.selectedComponentIds.includes(node.id)) nodes.push(node);
+      collect(node.children);
+    });
+    collect(state.components);
+    // Most recently selected last, as the toolbar expects
+    return state.selectedComponentIds
+      .map(id => nodes.find(node => node.id === id))
+      .filter((node): node is ComponentNode => !!node);
+  }, [state.components, state.selectedComponentIds]);
+
+  const selected = selection.length === 1 ? selection[0] : null;
+
+  const handleDrop = (event: React.DragEvent) => {
+    const item = dragged.current;
+    dragged.current = null;
+    if (!item?.isNew) return;
+    event.preventDefault();
+
+    // The container under the pointer, or the page itself
+    const container = (event.target as HTMLElement).closest('[data-drop-container]');
+    const parentId = container?.closest('[data-component-id]')?.getAttribute('data-component-id');
+    dispatch({
+      type: BuilderActionType.ADD_COMPONENT,
+      payload: { type: item.type, symbolId: item.symbolId, parentId: parentId && parentId !== 'root' ? parentId : null }
+    });
+  };
+
+  const startDrag = (item: DragItem) => {
+    dragged.current = item;
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header Toolbar */}
+      <div className="flex items-center gap-3 px-4 py-2 bg-white border-b border-gray-200">
+        <input
+          type="text"
+          value={state.project?.name ?? 'Untitled project'}
+          onChange={(e) => persistence.renameProject(e.target.value)}
+          className="px-2 py-1 text-sm font-medium border border-transparent rounded hover:border-gray-300 focus:border-purple-500 outline-none"
+        />
+        <button
+          onClick={() => persistence.saveProject()}
+          disabled={!persistence.isDirty}
+          className="px-3 py-1 text-sm bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+        >
+          {persistence.isDirty ? 'Save' : 'Saved'}
+        </button>
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={state.settings.autoSave}
+            onChange={(e) => dispatch({ type: BuilderActionType.UPDATE_SETTINGS, payload: { settings: { autoSave: e.target.checked } } })}
+          />
+          Autosave
+        </label>
+
+        <div className="flex-1" />
+
+        <button
+          onClick={() => dispatch({ type: BuilderActionType.UNDO })}
+          disabled={state.history.past.length === 0}
+          className="px-2 py-1 text-sm rounded hover:bg-gray-100 disabled:opacity-40"
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={() => dispatch({ type: BuilderActionType.REDO })}
+          disabled={state.history.future.length === 0}
+          className="px-2 py-1 text-sm rounded hover:bg-gray-100 disabled:opacity-40"
+        >
+          ↷ Redo
+        </button>
+        <select
+          value={state.settings.devicePreview}
+          onChange={(e) => dispatch({ type: BuilderActionType.UPDATE_SETTINGS, payload: { settings: { devicePreview: e.target.value } } })}
+          className="px-2 py-1 text-sm border border-gray-300 rounded"
+        >
+          <option value="desktop">🖥 Desktop</option>
+          <option value="tablet">📱 Tablet</option>
+          <option value="mobile">📱 Mobile</option>
+        </select>
+      </div>
+
+      {persistence.recovery && (
+        <div className="flex items-center gap-3 px-4 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+          <span className="flex-1">Unsaved changes to {persistence.recovery.name} were found</span>
+          <button onClick={persistence.restoreRecovery} className="px-2 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700">
+            Restore
+          </button>
+          <button onClick={persistence.discardRecovery} className="px-2 py-1 rounded hover:bg-yellow-100">
+            Discard
+          </button>
+        </div>
+      )}
+
+      {persistence.error && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-200 text-sm text-red-700">{persistence.error}</div>
+      )}
+
+      <div className="flex-1 flex min-h-0">
+        <div className="w-64 flex flex-col border-r border-gray-200 overflow-auto">
+          <div className="flex-1 min-h-0">
+            <ComponentPalette onDragStart={startDrag} />
+          </div>
+          <SymbolPanel
+            symbols={state.symbols}
+            editingSymbolId={state.editingSymbol?.id}
+            onDragStart={startDrag}
+            onRenameSymbol={(id, name) => dispatch({ type: BuilderActionType.RENAME_SYMBOL, payload: { id, name } })}
+            onDeleteSymbol={(id) => dispatch({ type: BuilderActionType.DELETE_SYMBOL, payload: { id } })}
+            onEditSymbol={(id) => dispatch({ type: BuilderActionType.EDIT_SYMBOL, payload: { id } })}
+            onFinishEditing={() => dispatch({ type: BuilderActionType.FINISH_EDITING_SYMBOL })}
+          />
+        </div>
+
+        <div
+          className="flex-1 flex flex-col min-w-0"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+        >
+          <SelectionToolbar
+            selection={selection}
+            onGroup={(ids) => dispatch({ type: BuilderActionType.GROUP_COMPONENTS, payload: { ids } })}
+            onUngroup={(id) => dispatch({ type: BuilderActionType.UNGROUP_COMPONENT, payload: { id } })}
+            onAlign={(ids, alignment) => dispatch({ type: BuilderActionType.ALIGN_COMPONENTS, payload: { ids, alignment } })}
+            onDistribute={(ids, direction) => dispatch({ type: BuilderActionType.DISTRIBUTE_COMPONENTS, payload: { ids, direction } })}
+            onCopy={() => void clipboard.copy()}
+            onPaste={() => void clipboard.paste()}
+          />
+          <Canvas
+            components={state.components}
+            selectedComponentId={state.selectedComponentId}
+            selectedComponentIds={state.selectedComponentIds}
+            hoveredComponentId={state.hoveredComponentId}
+            settings={state.settings}
+            variables={state.variables}
+            dataSources={state.dataSources}
+            symbols={state.symbols}
+            theme={state.theme}
+            onSelectComponent={(id, additive) => dispatch({ type: BuilderActionType.SELECT_COMPONENT, payload: { id, additive } })}
+            onSelectComponents={(ids, additive) => dispatch({ type: BuilderActionType.SELECT_COMPONENTS, payload: { ids, additive } })}
+            onHoverComponent={(id) => dispatch({ type: BuilderActionType.HOVER_COMPONENT, payload: { id } })}
+            onDropZonesUpdate={(zones) => dispatch({ type: BuilderActionType.UPDATE_DROP_ZONES, payload: { zones } })}
+          />
+        </div>
+
+        <div className="w-80 flex flex-col border-l border-gray-200 bg-white min-h-0">
+          <div className="flex-1 min-h-0 overflow-auto">
+            <PropertyPanel
+              component={selected}
+              breakpoint={state.settings.devicePreview}
+              onBreakpointChange={(devicePreview) => dispatch({ type: BuilderActionType.UPDATE_SETTINGS, payload: { settings: { devicePreview } } })}
+              variables={state.variables}
+              dataSources={state.dataSources}
+              scope={selected && itemScope(state.components, selected.id, state.dataSources)}
+              theme={state.theme}
+              symbols={state.symbols}
+              selection={selection}
+              onUpdateComponent={(id, updates) => dispatch({ type: BuilderActionType.UPDATE_COMPONENT, payload: { id, updates } })}
+              onDeleteComponent={(id) => dispatch({ type: BuilderActionType.DELETE_COMPONENT, payload: { id } })}
+              onDuplicateComponent={(id) => dispatch({ type: BuilderActionType.DUPLICATE_COMPONENT, payload: { id } })}
+              onUpdateComponents={(updates) => dispatch({ type: BuilderActionType.UPDATE_COMPONENTS, payload: { updates } })}
+              onDeleteComponents={(ids) => dispatch({ type: BuilderActionType.DELETE_COMPONENTS, payload: { ids } })}
+              onDuplicateComponents={(ids) => dispatch({ type: BuilderActionType.DUPLICATE_COMPONENTS, payload: { ids } })}
+              onCreateSymbol={(id) => dispatch({ type: BuilderActionType.CREATE_SYMBOL, payload: { id } })}
+              onDetachInstance={(id) => dispatch({ type: BuilderActionType.DETACH_INSTANCE, payload: { id } })}
+              onEditSymbol={(id) => dispatch({ type: BuilderActionType.EDIT_SYMBOL, payload: { id } })}
+            />
+          </div>
+
+          <div className="flex border-t border-gray-200">
+            {SIDE_TABS.map(tab => (
+              <button
+                key={tab.value}
+                onClick={() => setSideTab(tab.value)}
+                className={`flex-1 py-2 text-xs font-medium ${sideTab === tab.value ? 'text-purple-700 border-b-2 border-purple-600' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="h-72 overflow-auto">
+            {sideTab === 'state' && (
+              <StatePanel
+                variables={state.variables}
+                onAddVariable={(variable) => dispatch({ type: BuilderActionType.ADD_VARIABLE, payload: { variable } })}
+                onUpdateVariable={(name, updates) => dispatch({ type: BuilderActionType.UPDATE_VARIABLE, payload: { name, updates } })}
+                onDeleteVariable={(name) => dispatch({ type: BuilderActionType.DELETE_VARIABLE, payload: { name } })}
+              />
+            )}
+            {sideTab === 'data' && (
+              <DataSourcePanel
+                dataSources={state.dataSources}
+                onAddDataSource={(source) => dispatch({ type: BuilderActionType.ADD_DATA_SOURCE, payload: { source } })}
+                onUpdateDataSource={(name, updates) => dispatch({ type: BuilderActionType.UPDATE_DATA_SOURCE, payload: { name, updates } })}
+                onDeleteDataSource={(name) => dispatch({ type: BuilderActionType.DELETE_DATA_SOURCE, payload: { name } })}
+              />
+            )}
+            {sideTab === 'theme' && (
+              <ThemePanel
+                theme={state.theme}
+                onSetToken={(group, name, value) => dispatch({ type: BuilderActionType.SET_TOKEN, payload: { group, name, value } })}
+                onRenameToken={(group, from, to) => dispatch({ type: BuilderActionType.RENAME_TOKEN, payload: { group, from, to } })}
+                onDeleteToken={(group, name) => dispatch({ type: BuilderActionType.DELETE_TOKEN, payload: { group, name } })}
+              />
+            )}
+            {sideTab === 'problems' && (
+              <ValidationPanel
+                components={state.components}
+                symbols={state.symbols}
+                onSelectComponent={(id) => dispatch({ type: BuilderActionType.SELECT_COMPONENT, payload: { id } })}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,14 +6,20 @@ const actionTypes = [
   { value: 'alert', label: 'Show Alert' },
   { value: 'console', label: 'Console Log' },
   { value: 'custom', label: 'Custom Function' },
+  { value: 'set', label: 'Set Variable' },
+  { value: 'toggle', label: 'Toggle Variable' },
+  { value: 'increment', label: 'Increment Variable' },
 ];
 
-export function ActionEditor({ value, onChange, schema }: PropertyEditorProps) {
+const stateActions = ['set', 'toggle', 'increment'];
+
+export function ActionEditor({ value, onChange, schema, variables = [] }: PropertyEditorProps) {
   const [actionType, setActionType] = useState(value?.type || 'navigate');
   const [actionValue, setActionValue] = useState(value?.value || '');
+  const [variable, setVariable] = useState(value?.variable || variables[0]?.name || '');
 
-  const handleUpdate = (type: string, val: string) => {
-    onChange({ type, value: val });
+  const handleUpdate = (type: string, val: string, name = variable) => {
+    onChange(stateActions.includes(type) ? { type, value: val, variable: name } : { type, value: val });
   };
 
   return (
@@ -84,6 +90,40 @@ export function ActionEditor({ value, onChange, schema }: PropertyEditorProps) {
           className="w-full px-3 py-1.5 text-sm font-mono border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
         />
       )}
+
+      {stateActions.includes(actionType) && (
+        variables.length === 0 ? (
+          <p className="text-xs text-gray-500">Add a state variable to the page first</p>
+        ) : (
+          <select
+            value={variable}
+            onChange={(e) => {
+              setVariable(e.target.value);
+              handleUpdate(actionType, actionValue, e.target.value);
+            }}
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+          >
+            {variables.map((entry) => (
+              <option key={entry.name} value={entry.name}>
+                {entry.name}
+              </option>
+            ))}
+          </select>
+        )
+      )}
+
+      {(actionType === 'set' || actionType === 'increment') && variables.length > 0 && (
+        <input
+          type="text"
+          value={actionValue}
+          onChange={(e) => {
+            setActionValue(e.target.value);
+            handleUpdate(actionType, e.target.value);
+          }}
+          placeholder={actionType === 'set' ? 'Expression, e.g. true or count * 2' : 'Step (1)'}
+          className="w-full px-3 py-1.5 text-sm font-mono border border-gray-300 rounded focus:ring-2 focus:ring-purple-500"
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import React from 'react';
+import { PropertyEditorProps } from '../../core/types';
+
+export function DataSourceEditor({ value, onChange, dataSources = [] }: PropertyEditorProps) {
+  if (dataSources.length === 0) {
+    return <p className="text-xs text-gray-500">Add a data source to the page first</p>;
+  }
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+    >
+      <option value="">None</option>
+      {dataSources.map((source) => (
+        <option key={source.name} value={source.name}>
+          {source.name}
+        </option>
+      ))}
+    </select>
+  );
+}
\ No newline at end of file
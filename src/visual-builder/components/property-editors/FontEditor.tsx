@@ -0,0 +1,22 @@
+import React from 'react';
+import { PropertyEditorProps } from '../../core/types';
+import { parseTokenRef } from '../../core/theme';
+import { TokenSelect } from './TokenSelect';
+
+export function FontEditor({ value, onChange, theme }: PropertyEditorProps) {
+  return (
+    <div className="space-y-2">
+      <TokenSelect group="fonts" theme={theme} value={value} onChange={onChange} />
+
+      {!parseTokenRef(value) && (
+        <input
+          type="text"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          placeholder="Inherited"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+        />
+      )}
+    </div>
+  );
+}
\ No newline at end of file
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { PropertyEditorProps } from '../../core/types';
+import { parseTokenRef, tokenGroup } from '../../core/theme';
+import { TokenSelect } from './TokenSelect';
 
-export function SpacingEditor({ value, onChange }: PropertyEditorProps) {
+export function SpacingEditor({ value, onChange, schema, theme }: PropertyEditorProps) {
   const [unit, setUnit] = useState('px');
   const numericValue = parseInt(value) || 0;
 
@@ -15,31 +17,37 @@ export function SpacingEditor({ value, onChange }: PropertyEditorProps) {
   };
 
   return (
-    <div className="flex items-center gap-2">
-      <input
-        type="range"
-        min="0"
-        max="100"
-        value={numericValue}
-        onChange={(e) => handleValueChange(Number(e.target.value))}
-        className="flex-1"
-      />
-      <input
-        type="number"
-        value={numericValue}
-        onChange={(e) => handleValueChange(Number(e.target.value))}
-        className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-      />
-      <select
-        value={unit}
-        onChange={(e) => handleUnitChange(e.target.value)}
-        className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-      >
-        <option value="px">px</option>
-        <option value="%">%</option>
-        <option value="rem">rem</option>
-        <option value="em">em</option>
-      </select>
+    <div className="space-y-2">
+      <TokenSelect group={tokenGroup(schema) ?? 'spacing'} theme={theme} value={value} onChange={onChange} />
+
+      {!parseTokenRef(value) && (
+        <div className="flex items-center gap-2">
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={numericValue}
+            onChange={(e) => handleValueChange(Number(e.target.value))}
+            className="flex-1"
+          />
+          <input
+            type="number"
+            value={numericValue}
+            onChange={(e) => handleValueChange(Number(e.target.value))}
+            className="w-16 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <select
+            value={unit}
+            onChange={(e) => handleUnitChange(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="px">px</option>
+            <option value="%">%</option>
+            <option value="rem">rem</option>
+            <option value="em">em</option>
+          </select>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import React from 'react';
+import { ThemeTokens, TokenGroup } from '../../core/types';
+import { parseTokenRef, tokenRef, tokenValue } from '../../core/theme';
+
+interface TokenSelectProps {
+  group: TokenGroup;
+  theme?: ThemeTokens;
+  value: any;
+  onChange: (value: any) => void;
+}
+
+// Picks a theme token in place of a literal value
+export function TokenSelect({ group, theme, value, onChange }: TokenSelectProps) {
+  if (!theme) return null;
+  const names = Object.keys(theme[group]);
+  const token = parseTokenRef(value);
+  const current = token?.group === group ? token.name : '';
+  if (names.length === 0 && !current) return null;
+
+  const handleChange = (name: string) => {
+    // Switching to a custom value starts from what the token showed
+    onChange(name ? tokenRef(group, name) : tokenValue(theme, group, current) ?? '');
+  };
+
+  return (
+    <select
+      value={current}
+      onChange={(e) => handleChange(e.target.value)}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+    >
+      <option value="">Custom value</option>
+      {names.map((name) => (
+        <option key={name} value={name}>
+          {name} · {tokenValue(theme, group, name)}
+        </option>
+      ))}
+      {current && !names.includes(current) && (
+        <option value={current}>{current} (deleted)</option>
+      )}
+    </select>
+  );
+}
\ No newline at end of file
@@ -6,7 +6,9 @@ import { BooleanEditor } from './BooleanEditor';
 import { SelectEditor } from './SelectEditor';
 import { ColorEditor } from './ColorEditor';
 import { SpacingEditor } from './SpacingEditor';
+import { FontEditor } from './FontEditor';
 import { ActionEditor } from './ActionEditor';
+import { DataSourceEditor } from './DataSourceEditor';
 
 const editors = {
   string: StringEditor,
@@ -15,7 +17,9 @@ const editors = {
   select: SelectEditor,
   color: ColorEditor,
   spacing: SpacingEditor,
+  font: FontEditor,
   action: ActionEditor,
+  dataSource: DataSourceEditor,
   // Add more editors as needed
 };
 
@@ -27,7 +31,10 @@ export function PropertyEditor({
   schema,
   value,
   onChange,
-  componentProps
+  componentProps,
+  variables,
+  dataSources,
+  theme
 }: PropertyEditorWrapperProps) {
   const EditorComponent = editors[schema.type] || StringEditor;
 
@@ -43,6 +50,9 @@ export function PropertyEditor({
         onChange={onChange}
         schema={schema}
         componentProps={componentProps}
+        variables={variables}
+        dataSources={dataSources}
+        theme={theme}
       />
       
       {schema.helperText && (
@@ -0,0 +1,50 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BuilderSymbol, ComponentNode } from './types';
+import { readComponents } from '../store/project-storage';
+import { usedSymbols } from './symbols';
+
+const CLIPBOARD_TYPE = 'rui-builder/components';
+const CLIPBOARD_VERSION = 1;
+
+export interface ClipboardContent {
+  components: ComponentNode[];
+  // Symbols the components place, for projects that don't have them
+  symbols: BuilderSymbol[];
+}
+
+/**
+ * Copied components as clipboard text, so they can be pasted into another
+ * project or another tab
+ */
+export function serializeComponents(components: ComponentNode[], symbols: BuilderSymbol[] = []): string {
+  return JSON.stringify({
+    type: CLIPBOARD_TYPE,
+    version: CLIPBOARD_VERSION,
+    components,
+    symbols: usedSymbols(components, symbols)
+  });
+}
+
+/**
+ * Components in clipboard text, with new ids so each paste is a fresh copy.
+ * Text that isn't copied components gives null.
+ */
+export function parseClipboard(text: string): ClipboardContent | null {
+  try {
+    const data = JSON.parse(text);
+    if (data?.type !== CLIPBOARD_TYPE) return null;
+    const symbols: BuilderSymbol[] = Array.isArray(data.symbols) ? data.symbols : [];
+    readComponents(symbols.map(symbol => symbol.master));
+    return { components: readComponents(data.components).map(withNewIds), symbols };
+  } catch {
+    return null;
+  }
+}
+
+function withNewIds(node: ComponentNode): ComponentNode {
+  return {
+    ...node,
+    id: uuidv4(),
+    children: node.children.map(withNewIds)
+  };
+}
@@ -1,24 +1,58 @@
 import { ComponentNode, ExportOptions } from './types';
 import { ComponentExporter as BaseExporter } from './exporter';
+import { Violation, validateForExport } from './validation';
 
 export class ComponentExporter {
   /**
-   * Export components to code
+   * Problems that stop the components from exporting
+   */
+  validate(components: ComponentNode[], options: ExportOptions): Violation[] {
+    return validateForExport(components, options.symbols);
+  }
+
+  /**
+   * Export components to code. Throws when they don't validate, except as
+   * JSON, which keeps the tree as it is.
    */
   exportToCode(components: ComponentNode[], options: ExportOptions): string {
+    if (options.format !== 'json') {
+      this.assertValid(components, options);
+    }
+
     if (options.format === 'factory') {
       return BaseExporter.exportToFactory(components, options);
     } else if (options.format === 'json') {
       return BaseExporter.exportToJSON(components);
+    } else if (options.format === 'zip') {
+      // A text listing of what the archive holds
+      return BaseExporter.exportToFiles(components, options)
+        .map(file => `// ${file.path}\n${file.content}`)
+        .join('\n');
     } else {
       return BaseExporter.exportToCode(components, options);
     }
   }
 
+  /**
+   * Export components as a zip of the component, its styles, a story and a test
+   */
+  exportToZip(components: ComponentNode[], options: ExportOptions): Uint8Array {
+    this.assertValid(components, options);
+    return BaseExporter.exportToZip(components, options);
+  }
+
   /**
    * Export a single component
    */
   export(components: ComponentNode[], options: ExportOptions): string {
     return this.exportToCode(components, options);
   }
+
+  private assertValid(components: ComponentNode[], options: ExportOptions): void {
+    const violations = this.validate(components, options);
+    if (violations.length > 0) {
+      const list = violations.map(violation => `\n  ${violation.path}: ${violation.message}`).join('');
+      throw new Error(`Cannot export: ${violations.length} problem${violations.length === 1 ? '' : 's'}${list}`);
+    }
+  }
 }
\ No newline at end of file
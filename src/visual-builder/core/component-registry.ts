@@ -74,12 +74,71 @@ export const componentRegistry: ComponentDefinition[] = [
         name: 'borderRadius',
         label: 'Border Radius',
         type: 'spacing',
+        tokens: 'radii',
         defaultValue: '0px',
         category: 'Appearance',
       },
     ],
     acceptsChildren: true,
   },
+  {
+    type: 'repeater',
+    name: 'Repeater',
+    category: 'Layout',
+    icon: '🔁',
+    description: 'Repeats its children for each item of a data source',
+    defaultProps: {
+      source: '',
+      itemName: 'item',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '16px',
+      padding: '0px',
+    },
+    propSchema: [
+      {
+        name: 'source',
+        label: 'Data Source',
+        type: 'dataSource',
+        required: true,
+        category: 'Data',
+      },
+      {
+        name: 'itemName',
+        label: 'Item Name',
+        type: 'string',
+        defaultValue: 'item',
+        helperText: 'Children bind to fields of the item, e.g. item.title',
+        category: 'Data',
+      },
+      {
+        name: 'flexDirection',
+        label: 'Direction',
+        type: 'select',
+        defaultValue: 'column',
+        options: [
+          { label: 'Row', value: 'row' },
+          { label: 'Column', value: 'column' },
+        ],
+        category: 'Layout',
+      },
+      {
+        name: 'gap',
+        label: 'Gap',
+        type: 'spacing',
+        defaultValue: '16px',
+        category: 'Layout',
+      },
+      {
+        name: 'padding',
+        label: 'Padding',
+        type: 'spacing',
+        defaultValue: '0px',
+        category: 'Spacing',
+      },
+    ],
+    acceptsChildren: true,
+  },
   {
     type: 'grid',
     name: 'Grid',
@@ -177,9 +236,16 @@ export const componentRegistry: ComponentDefinition[] = [
         name: 'fontSize',
         label: 'Font Size',
         type: 'spacing',
+        tokens: 'fontSizes',
         defaultValue: '24px',
         category: 'Style',
       },
+      {
+        name: 'fontFamily',
+        label: 'Font',
+        type: 'font',
+        category: 'Style',
+      },
       {
         name: 'fontWeight',
         label: 'Font Weight',
@@ -238,9 +304,16 @@ export const componentRegistry: ComponentDefinition[] = [
         name: 'fontSize',
         label: 'Font Size',
         type: 'spacing',
+        tokens: 'fontSizes',
         defaultValue: '16px',
         category: 'Style',
       },
+      {
+        name: 'fontFamily',
+        label: 'Font',
+        type: 'font',
+        category: 'Style',
+      },
       {
         name: 'lineHeight',
         label: 'Line Height',
@@ -300,6 +373,12 @@ export const componentRegistry: ComponentDefinition[] = [
         ],
         category: 'Appearance',
       },
+      {
+        name: 'fontFamily',
+        label: 'Font',
+        type: 'font',
+        category: 'Appearance',
+      },
       {
         name: 'fullWidth',
         label: 'Full Width',
@@ -401,6 +480,7 @@ export const componentRegistry: ComponentDefinition[] = [
         label: 'Source',
         type: 'image',
         defaultValue: 'https://via.placeholder.com/300x200',
+        required: true,
         category: 'Content',
       },
       {
@@ -488,12 +568,17 @@ export const componentRegistry: ComponentDefinition[] = [
         name: 'borderRadius',
         label: 'Border Radius',
         type: 'spacing',
+        tokens: 'radii',
         defaultValue: '8px',
         category: 'Appearance',
       },
     ],
     acceptsChildren: true,
-    childTypes: ['button', 'text', 'image'],
+    // Content blocks; page layout (grids, navigation, other cards) goes around cards
+    childTypes: [
+      'heading', 'text', 'button', 'image', 'icon', 'badge', 'divider', 'link', 'list',
+      'container', 'form', 'input', 'textarea', 'checkbox', 'select'
+    ],
   },
   {
     type: 'list',
@@ -572,6 +657,7 @@ export const componentRegistry: ComponentDefinition[] = [
         name: 'fontSize',
         label: 'Font Size',
         type: 'spacing',
+        tokens: 'fontSizes',
         defaultValue: '12px',
         category: 'Style',
       },
@@ -601,6 +687,7 @@ export const componentRegistry: ComponentDefinition[] = [
         name: 'size',
         label: 'Size',
         type: 'spacing',
+        tokens: 'fontSizes',
         defaultValue: '24px',
         category: 'Size',
       },
@@ -674,6 +761,7 @@ export const componentRegistry: ComponentDefinition[] = [
         label: 'URL',
         type: 'string',
         defaultValue: '#',
+        required: true,
         category: 'Content',
       },
       {
@@ -893,6 +981,36 @@ export const componentRegistry: ComponentDefinition[] = [
     ],
     acceptsChildren: false,
   },
+
+  // Imported Markup
+  {
+    type: 'raw',
+    name: 'Raw JSX',
+    category: 'Imported',
+    icon: '🔒',
+    description: 'Imported markup the builder keeps as written',
+    defaultProps: {
+      tag: '',
+      attributes: '',
+      source: '',
+    },
+    propSchema: [],
+    acceptsChildren: false,
+    hidden: true,
+  },
+
+  // Placed from the symbols panel
+  {
+    type: 'symbol',
+    name: 'Symbol',
+    category: 'Symbols',
+    icon: '◈',
+    description: 'A linked instance of a symbol in the project',
+    defaultProps: {},
+    propSchema: [],
+    acceptsChildren: false,
+    hidden: true,
+  },
 ];
 
 // Helper functions to work with the registry
@@ -905,7 +1023,7 @@ export function getComponentsByCategory(category: string): ComponentDefinition[]
 }
 
 export function getCategories(): string[] {
-  return Array.from(new Set(componentRegistry.map(c => c.category)));
+  return Array.from(new Set(componentRegistry.filter(c => !c.hidden).map(c => c.category)));
 }
 
 export function canAcceptChild(parentType: string, childType: string): boolean {
@@ -0,0 +1,122 @@
+import { ComponentNode, DataFieldType, DataSource } from './types';
+
+export const DATA_FIELD_TYPES: DataFieldType[] = [
+  'string', 'number', 'boolean', 'name', 'email', 'image', 'date', 'price', 'paragraph'
+];
+
+const NAMES = ['Ada Lovelace', 'Alan Turing', 'Grace Hopper', 'Linus Torvalds', 'Margaret Hamilton', 'Ken Thompson'];
+const LOREM = 'Lorem ipsum dolor sit amet, consectetur adipiscing elit, sed do eiusmod tempor incididunt ut labore.';
+
+// The item the children of a repeater bind to, and its fields
+export interface ItemScope {
+  itemName: string;
+  fields: string[];
+}
+
+/**
+ * Items a source renders in the builder. REST endpoints use their mock
+ * response; only the exported code fetches them.
+ */
+export function sourceItems(source: DataSource | undefined): Record<string, any>[] {
+  if (!source) return [];
+  if (source.kind === 'schema') {
+    return generateItems(source.schema ?? {}, source.count ?? 3);
+  }
+  return source.items ?? [];
+}
+
+export function sourceFields(source: DataSource | undefined): string[] {
+  if (source?.kind === 'schema') return Object.keys(source.schema ?? {});
+  return [...new Set(sourceItems(source).flatMap(item => Object.keys(item)))];
+}
+
+/**
+ * Placeholder items for a schema. The same schema always gives the same
+ * items, so the canvas and the export agree.
+ */
+export function generateItems(schema: Record<string, DataFieldType>, count: number): Record<string, any>[] {
+  return Array.from({ length: count }, (_, index) =>
+    Object.fromEntries(Object.entries(schema).map(([field, type]) => [field, fieldValue(field, type, index)]))
+  );
+}
+
+function fieldValue(field: string, type: DataFieldType, index: number): any {
+  const name = NAMES[index % NAMES.length];
+  switch (type) {
+    case 'number':
+      return (index + 1) * 10;
+    case 'boolean':
+      return index % 2 === 0;
+    case 'name':
+      return name;
+    case 'email':
+      return `${name.split(' ')[0].toLowerCase()}@example.com`;
+    case 'image':
+      return `https://via.placeholder.com/300x200?text=${encodeURIComponent(field)}+${index + 1}`;
+    case 'date':
+      return new Date(Date.UTC(2024, 0, index + 1)).toISOString().slice(0, 10);
+    case 'price':
+      return Math.round((index + 1) * 9.99 * 100) / 100;
+    case 'paragraph':
+      return LOREM;
+    default:
+      return `${field.charAt(0).toUpperCase()}${field.slice(1)} ${index + 1}`;
+  }
+}
+
+/**
+ * Reads the items of a static source or a mock response
+ */
+export function parseDataItems(json: string): Record<string, any>[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid data JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+
+  if (!Array.isArray(data) || data.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+    throw new Error('Invalid data JSON: expected an array of objects');
+  }
+  return data;
+}
+
+/**
+ * The item a node's props can bind to: that of its nearest repeater
+ */
+export function itemScope(nodes: ComponentNode[], id: string, sources: DataSource[]): ItemScope | null {
+  const search = (children: ComponentNode[], scope: ItemScope | null): ItemScope | null | undefined => {
+    for (const node of children) {
+      if (node.id === id) return scope;
+      const inner = node.type === 'repeater'
+        ? {
+            itemName: node.props.itemName || 'item',
+            fields: sourceFields(sources.find(source => source.name === node.props.source))
+          }
+        : scope;
+      const found = search(node.children, inner);
+      if (found !== undefined) return found;
+    }
+    return undefined;
+  };
+  return search(nodes, null) ?? null;
+}
+
+/**
+ * The tree with repeaters of a renamed source updated
+ */
+export function renameDataSource(nodes: ComponentNode[], from: string, to: string): ComponentNode[] {
+  return nodes.map(node => ({
+    ...node,
+    props: node.type === 'repeater' && node.props.source === from ? { ...node.props, source: to } : node.props,
+    children: renameDataSource(node.children, from, to)
+  }));
+}
+
+/**
+ * The tree with repeaters of a deleted source left without one, which
+ * validation reports
+ */
+export function removeDataSource(nodes: ComponentNode[], name: string): ComponentNode[] {
+  return renameDataSource(nodes, name, '');
+}
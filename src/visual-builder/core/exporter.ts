@@ -1,5 +1,120 @@
-import { ComponentNode, ExportOptions } from './types';
+import { BuilderSymbol, ComponentAction, ComponentNode, DataSource, ExportOptions, ExportedFile, StateVariable } from './types';
 import { getComponentDefinition } from './component-registry';
+import { BREAKPOINTS, resolveProps } from './responsive';
+import { isStateAction, rewriteExpression } from './state';
+import { sourceItems } from './data-sources';
+import { findSymbol, masterNodes, usedSymbols } from './symbols';
+import { parseTokenRef, resolveTokens, tailwindThemeExtension, themeStylesheet, usesTokens } from './theme';
+import { createZip } from '../utils/zip';
+
+// Class groups of a node at one breakpoint, keyed so breakpoints can be compared
+type TailwindGroups = Record<string, string>;
+
+// Classes that undo a group when a wider breakpoint no longer sets it
+const CONTAINER_RESETS: TailwindGroups = {
+  padding: 'p-0',
+  display: 'block',
+  direction: 'flex-row',
+  gap: 'gap-0',
+  background: 'bg-transparent',
+  radius: 'rounded-none',
+  justify: 'justify-start',
+  self: 'self-auto'
+};
+
+const BUTTON_RESETS: TailwindGroups = {
+  width: 'w-auto',
+  state: 'opacity-100 cursor-pointer',
+  self: 'self-auto',
+  font: 'font-sans'
+};
+
+const JUSTIFY_CLASSES: Record<string, string> = {
+  'flex-start': 'justify-start',
+  center: 'justify-center',
+  'flex-end': 'justify-end',
+  'space-between': 'justify-between',
+  'space-around': 'justify-around',
+  'space-evenly': 'justify-evenly'
+};
+
+const ALIGN_SELF_CLASSES: Record<string, string> = {
+  'flex-start': 'self-start',
+  center: 'self-center',
+  'flex-end': 'self-end',
+  stretch: 'self-stretch'
+};
+
+// How a node's styles reach the output:
+// - tailwind: utility classes, inline styles where there's no mapping
+// - inline: style attributes, media queries in a stylesheet
+// - module: a CSS Module class
+// - styled: a styled component in place of the element
+// - scoped: a class in the component's scoped stylesheet
+type StyleMode = 'tailwind' | 'inline' | 'module' | 'styled' | 'scoped';
+
+// One element of the generated markup, printed in each framework's syntax
+interface MarkupElement {
+  tag: string;
+  attributes: Array<[string, string]>;
+  className?: string;
+  // Key of the element's class in the CSS Module
+  moduleClass?: string;
+  style?: Record<string, string>;
+  flags: string[];
+  // Click handler declared by the component
+  handler?: string;
+  text?: string;
+  comment?: string;
+  children: MarkupElement[];
+  selfClosing?: boolean;
+  // Source printed as written, in place of an element or of its attributes
+  raw?: string;
+  rawAttributes?: string;
+  // Attributes and text bound to state expressions, as the markup writes them
+  bound?: Array<[string, string]>;
+  expression?: string;
+  // Rendered only while the expression holds
+  condition?: string;
+  // State variable a form field reads and writes
+  model?: { variable: string; property: 'value' | 'checked'; number: boolean };
+  // Children repeated for each item of a data source
+  loop?: { source: string; item: string };
+}
+
+// A master prop some instance overrides, which the symbol's component takes as a prop
+interface SymbolInput {
+  masterId: string;
+  prop: string;
+  name: string;
+  // The master's value, the prop's default
+  value: any;
+}
+
+// What generating one component collects besides its markup
+interface CodeContext {
+  framework: string;
+  styling: string;
+  typescript: boolean;
+  name: string;
+  mode: StyleMode;
+  rules: string[];
+  styled: string[];
+  handlers: Array<{ name: string; body: string }>;
+  identifiers: Set<string>;
+  variables: StateVariable[];
+  dataSources: DataSource[];
+  // Sources repeaters use, which the component declares
+  sources: DataSource[];
+  // Whether any element renders conditionally
+  conditional: boolean;
+  symbols: BuilderSymbol[];
+  symbolInputs: Map<string, SymbolInput[]>;
+  // Symbols the component places, which it imports
+  instances: BuilderSymbol[];
+  // Props the component takes, when it is a symbol's
+  inputs: SymbolInput[];
+}
 
 export class ComponentExporter {
   /**
@@ -9,7 +124,7 @@ export class ComponentExporter {
     components: ComponentNode[],
     options: ExportOptions
   ): string {
-    const { framework, styling, typescript, includeImports } = options;
+    const { framework, typescript, includeImports } = options;
 
     let code = '';
 
@@ -32,26 +147,44 @@ export class ComponentExporter {
   }
 
   /**
-   * Export components as raw code
+   * Export components as raw code. Stylesheets the component imports
+   * follow it, each under a comment naming its file.
    */
   static exportToCode(
     components: ComponentNode[],
     options: ExportOptions
   ): string {
-    const { framework, styling, typescript, includeImports } = options;
-
-    let code = '';
-
-    // Add imports
-    if (includeImports) {
-      code += this.generateImports(framework, components);
-      code += '\n\n';
+    const files = this.generateComponentFiles(components, options);
+    if (files.length === 1) {
+      return files[0].content;
     }
+    return files.map(file => `// ${file.path}\n${file.content}`).join('\n');
+  }
+
+  /**
+   * Export the component with its stylesheet, a Storybook story and a test
+   */
+  static exportToFiles(
+    components: ComponentNode[],
+    options: ExportOptions
+  ): ExportedFile[] {
+    const files = this.generateComponentFiles(components, options);
+    const root = components[0];
+    if (!root || files.length === 0) return files;
 
-    // Generate component code
-    code += this.generateComponentCode(components[0], framework, styling, typescript);
+    const story = this.generateStory(root, options);
+    const test = this.generateTest(root, options);
+    return [...files, ...(story ? [story] : []), ...(test ? [test] : [])];
+  }
 
-    return code;
+  /**
+   * Export the files of `exportToFiles` as a zip archive
+   */
+  static exportToZip(
+    components: ComponentNode[],
+    options: ExportOptions
+  ): Uint8Array {
+    return createZip(this.exportToFiles(components, options));
   }
 
   /**
@@ -123,260 +256,1410 @@ export class ComponentExporter {
     return config;
   }
 
-  private static generateComponentCode(
-    node: ComponentNode,
-    framework: string,
-    styling: string,
-    typescript: boolean
-  ): string {
-    switch (framework) {
+  /**
+   * The component's files, then those of each symbol it places. Symbols are
+   * exported once, without the page's state and data. When they use theme
+   * tokens, the theme's stylesheet and Tailwind config come last.
+   */
+  private static generateComponentFiles(
+    components: ComponentNode[],
+    options: ExportOptions
+  ): ExportedFile[] {
+    const root = components[0];
+    if (!root) return [];
+
+    const symbols = options.symbols ?? [];
+    const used = usedSymbols([root], symbols);
+    const symbolInputs = this.symbolInputs([root, ...used.map(symbol => symbol.master)], symbols);
+    const symbolOptions = { ...options, variables: [], dataSources: [] };
+
+    return [
+      ...this.componentFiles(root, options, symbolInputs, []),
+      ...used.flatMap(symbol => {
+        const inputs = symbolInputs.get(symbol.id) ?? [];
+        return this.componentFiles(this.symbolRoot(symbol, inputs, options.framework), symbolOptions, symbolInputs, inputs);
+      }),
+      ...(options.theme && usesTokens([root, ...used.map(symbol => symbol.master)]) ? this.themeFiles(options) : [])
+    ];
+  }
+
+  // Tokens as CSS variables, which the app includes once; Tailwind also
+  // gets a utility for each
+  private static themeFiles(options: ExportOptions): ExportedFile[] {
+    const theme = options.theme!;
+    const files = [{ path: 'theme.css', content: themeStylesheet(theme) }];
+    if (options.styling === 'tailwind') {
+      const extension = JSON.stringify(tailwindThemeExtension(theme), null, 2)
+        .replace(/"([A-Za-z_$][\w$]*)":/g, '$1:')
+        .replace(/"/g, "'")
+        .replace(/\n/g, '\n    ');
+      const config = options.typescript
+        ? `import type { Config } from 'tailwindcss';\n\nexport default {\n  darkMode: 'class',\n  theme: {\n    extend: ${extension}\n  }\n} satisfies Partial<Config>;\n`
+        : `/** @type {import('tailwindcss').Config} */\nexport default {\n  darkMode: 'class',\n  theme: {\n    extend: ${extension}\n  }\n};\n`;
+      files.push({ path: `tailwind.config.${options.typescript ? 'ts' : 'js'}`, content: config });
+    }
+    return files;
+  }
+
+  private static componentFiles(
+    root: ComponentNode,
+    options: ExportOptions,
+    symbolInputs: Map<string, SymbolInput[]>,
+    inputs: SymbolInput[]
+  ): ExportedFile[] {
+    const context = { ...this.createContext(root, options), symbolInputs, inputs };
+    const markup = this.buildElement(root, context);
+    const imports = options.includeImports;
+
+    switch (options.framework) {
       case 'react':
-        return this.generateReactComponent(node, styling, typescript);
+      case 'solid': {
+        const extension = options.typescript ? 'tsx' : 'jsx';
+        const files = [{ path: `${context.name}.${extension}`, content: this.generateJSXComponent(markup, context, imports) }];
+        if (context.mode === 'module' && context.rules.length > 0) {
+          files.push({ path: `${context.name}.module.css`, content: `${context.rules.join('\n')}\n` });
+        }
+        return files;
+      }
       case 'vue':
-        return this.generateVueComponent(node, styling, typescript);
-      case 'angular':
-        return this.generateAngularComponent(node, styling, typescript);
+        return [{ path: `${context.name}.vue`, content: this.generateVueComponent(markup, context) }];
+      case 'svelte':
+        return [{ path: `${context.name}.svelte`, content: this.generateSvelteComponent(markup, context) }];
+      case 'angular': {
+        const file = this.angularFileName(root);
+        const stylesheet = options.styling === 'css-modules' && context.rules.length > 0 ? `${file}.css` : null;
+        const files = [{ path: `${file}.ts`, content: this.generateAngularComponent(root, markup, context, stylesheet, imports) }];
+        if (stylesheet) {
+          files.push({ path: stylesheet, content: `${context.rules.join('\n')}\n` });
+        }
+        return files;
+      }
       default:
-        return '// Unsupported framework';
+        return [{ path: context.name, content: '// Unsupported framework' }];
     }
   }
 
-  private static generateReactComponent(
-    node: ComponentNode,
-    styling: string,
-    typescript: boolean
-  ): string {
-    const componentName = this.capitalizeFirst(node.name.replace(/\s+/g, ''));
-    
-    let code = '';
-    
-    if (typescript) {
-      code += `interface ${componentName}Props {\n  // Add props here\n}\n\n`;
-      code += `export const ${componentName}: React.FC<${componentName}Props> = (props) => {\n`;
-    } else {
-      code += `export const ${componentName} = (props) => {\n`;
+  private static createContext(root: ComponentNode, options: ExportOptions): CodeContext {
+    const { framework, styling, typescript } = options;
+    const name = this.componentName(root);
+    const jsx = framework === 'react' || framework === 'solid';
+
+    let mode: StyleMode = 'inline';
+    if (styling === 'tailwind') mode = 'tailwind';
+    // Svelte and Angular scope component styles already, which is what a
+    // CSS Module or styled component would add
+    else if (styling === 'css-modules') mode = jsx || framework === 'vue' ? 'module' : 'scoped';
+    else if (styling === 'styled-components') mode = jsx ? 'styled' : 'scoped';
+
+    const variables = options.variables ?? [];
+    const dataSources = options.dataSources ?? [];
+    const stateNames = [...variables, ...dataSources].flatMap(entry => [entry.name, this.setterName(entry.name)]);
+
+    return {
+      framework,
+      styling,
+      typescript,
+      name,
+      mode,
+      rules: [],
+      styled: [],
+      handlers: [],
+      identifiers: new Set([name, 'props', 'styles', ...stateNames]),
+      variables,
+      dataSources,
+      sources: [],
+      conditional: false,
+      symbols: options.symbols ?? [],
+      symbolInputs: new Map(),
+      instances: [],
+      inputs: []
+    };
+  }
+
+  /**
+   * The props each symbol's component takes: every master prop an instance
+   * overrides, named after its node
+   */
+  private static symbolInputs(trees: ComponentNode[], symbols: BuilderSymbol[]): Map<string, SymbolInput[]> {
+    const inputs = new Map<string, SymbolInput[]>();
+    const visit = (node: ComponentNode) => {
+      const symbol = findSymbol(symbols, node);
+      if (symbol) {
+        const current = inputs.get(symbol.id) ?? [];
+        const nodes = masterNodes(symbol);
+        for (const [masterId, props] of Object.entries(node.overrides ?? {})) {
+          const master = nodes.find(entry => entry.id === masterId);
+          for (const prop of Object.keys(props)) {
+            if (!master || current.some(input => input.masterId === masterId && input.prop === prop)) continue;
+            let name = this.camelCase(`${master.name} ${prop}`);
+            for (let suffix = 2; current.some(input => input.name === name); suffix++) {
+              name = `${this.camelCase(`${master.name} ${prop}`)}${suffix}`;
+            }
+            current.push({ masterId, prop, name, value: master.props[prop] });
+          }
+        }
+        inputs.set(symbol.id, current);
+      }
+      node.children.forEach(visit);
+    };
+    trees.forEach(visit);
+    return inputs;
+  }
+
+  // A symbol's master with its overridable props bound to the component's props
+  private static symbolRoot(symbol: BuilderSymbol, inputs: SymbolInput[], framework: string): ComponentNode {
+    const bind = (node: ComponentNode): ComponentNode => {
+      const bound = inputs.filter(input => input.masterId === node.id);
+      return {
+        ...node,
+        ...(bound.length > 0 && {
+          bindings: {
+            ...node.bindings,
+            // Solid reads props through mergeProps, which keeps them reactive
+            ...Object.fromEntries(bound.map(input => [input.prop, framework === 'solid' ? `local.${input.name}` : input.name]))
+          }
+        }),
+        children: node.children.map(bind)
+      };
+    };
+    return { ...bind(symbol.master), name: symbol.name };
+  }
+
+  // An instance is its symbol's component, given the props it overrides
+  private static instanceElement(node: ComponentNode, context: CodeContext): MarkupElement {
+    const symbol = findSymbol(context.symbols, node);
+    if (!symbol) {
+      return { tag: 'div', attributes: [], flags: [], children: [], comment: `Missing symbol ${node.name}` };
     }
+    if (!context.instances.includes(symbol)) context.instances.push(symbol);
 
-    code += `  return (\n`;
-    code += this.generateJSX(node, styling, '    ');
-    code += `  );\n`;
-    code += `};\n`;
+    const attributes: Array<[string, string]> = [];
+    const bound: Array<[string, string]> = [];
+    for (const input of context.symbolInputs.get(symbol.id) ?? []) {
+      const value = node.overrides?.[input.masterId]?.[input.prop];
+      if (value === undefined) continue;
+      if (typeof value === 'string') attributes.push([input.name, value]);
+      else bound.push([input.name, this.literal(value)]);
+    }
 
-    return code;
+    const tag = context.framework === 'angular' ? this.angularSelector(symbol.name) : this.symbolName(symbol);
+    return { tag, attributes, bound, flags: [], children: [], selfClosing: true };
+  }
+
+  private static buildElement(node: ComponentNode, context: CodeContext): MarkupElement {
+    if (node.type === 'raw') {
+      return this.rawElement(node, context);
+    }
+
+    const element = this.nodeElement(node, context);
+
+    if (node.bindings?.visible) {
+      element.condition = this.templateExpression(node.bindings.visible, context);
+      context.conditional = true;
+    }
+
+    // Imported classes and attributes the builder doesn't edit; a class the
+    // styling already emits, like p-8 for a 32px padding, is written once
+    if (node.props.className) {
+      const classes = `${element.className ?? ''} ${node.props.className}`.split(/\s+/).filter(Boolean);
+      element.className = [...new Set(classes)].join(' ');
+    }
+    for (const [name, value] of Object.entries(node.props.attributes ?? {})) {
+      if (value === true) element.flags.push(name);
+      else element.attributes.push([name, `${value}`]);
+    }
+
+    return element;
   }
 
-  private static generateJSX(node: ComponentNode, styling: string, indent: string): string {
+  private static nodeElement(node: ComponentNode, context: CodeContext): MarkupElement {
     const definition = getComponentDefinition(node.type);
-    if (!definition) return `${indent}<div>Unknown component</div>\n`;
+    const { props } = node;
+    const jsx = context.framework === 'react' || context.framework === 'solid';
+    const element = (tag: string, extra: Partial<MarkupElement> = {}): MarkupElement =>
+      ({ tag, attributes: [], flags: [], children: [], ...extra });
+    const bindings = node.bindings ?? {};
+    // Attributes the node sets, in order; bound ones come from `bound`
+    const attributes = (...names: string[]): Array<[string, string]> =>
+      names
+        .filter(name => !bindings[name] && props[name] !== undefined && props[name] !== null)
+        .map(name => [name, `${props[name]}`]);
+    const flags = (...names: string[]) => names.filter(name => !bindings[name] && props[name] === true);
+    const bound = (...names: string[]): Array<[string, string]> =>
+      names.filter(name => bindings[name]).map(name => [name, this.templateExpression(bindings[name], context)]);
+    const content = (name: string): Partial<MarkupElement> =>
+      bindings[name] ? { expression: this.templateExpression(bindings[name], context) } : { text: `${props[name]}` };
+    const labelled = (control: MarkupElement): MarkupElement => {
+      if (!props.label && !bindings.label) return control;
+      return element('div', { children: [element('label', content('label')), control] });
+    };
+
+    if (!definition) return element('div', { text: 'Unknown component' });
 
     switch (node.type) {
+      case 'symbol':
+        return this.instanceElement(node, context);
       case 'container':
-        return this.generateContainerJSX(node, styling, indent);
+      case 'grid':
+      case 'form':
+      case 'navigation': {
+        const tags: Record<string, string> = { form: 'form', navigation: 'nav' };
+        const container = element(tags[node.type] ?? 'div', {
+          attributes: node.type === 'form' ? attributes('action', 'method') : [],
+          bound: node.type === 'form' ? bound('action', 'method') : []
+        });
+        const utilities = node.type === 'grid' ? this.gridTailwindGroups : this.containerTailwindGroups;
+        this.applyStyles(node, container, context, { utilities: utilities.bind(this), resets: CONTAINER_RESETS });
+        // Children after the container, so its rules come first in the stylesheet
+        container.children = node.children.map(child => this.buildElement(child, context));
+        return container;
+      }
+      case 'repeater': {
+        const repeater = element('div');
+        this.applyStyles(node, repeater, context, { utilities: this.containerTailwindGroups.bind(this), resets: CONTAINER_RESETS });
+        repeater.children = node.children.map(child => this.buildElement(child, context));
+        const source = context.dataSources.find(entry => entry.name === props.source);
+        if (source) {
+          if (!context.sources.includes(source)) context.sources.push(source);
+          repeater.loop = { source: this.sourceExpression(source, context), item: props.itemName || 'item' };
+        }
+        return repeater;
+      }
       case 'heading':
-        return this.generateHeadingJSX(node, indent);
       case 'text':
-        return `${indent}<p style={{${this.styleToJSX(node.props)}}}>${node.props.text}</p>\n`;
-      case 'button':
-        return this.generateButtonJSX(node, styling, indent);
-      case 'input':
-        return this.generateInputJSX(node, indent);
-      case 'image':
-        return `${indent}<img src="${node.props.src}" alt="${node.props.alt}" style={{${this.styleToJSX(node.props)}}} />\n`;
+      case 'badge': {
+        const tags: Record<string, string> = { heading: `h${props.level || 2}`, text: 'p', badge: 'span' };
+        const text = element(tags[node.type], content('text'));
+        this.applyStyles(node, text, context);
+        return text;
+      }
+      case 'link': {
+        const link = element('a', { attributes: attributes('href', 'target'), bound: bound('href', 'target'), ...content('text') });
+        this.applyStyles(node, link, context);
+        return link;
+      }
+      case 'button': {
+        const button = element('button', { flags: flags('disabled'), bound: bound('disabled'), ...content('text') });
+        this.applyStyles(node, button, context, { utilities: this.buttonTailwindGroups.bind(this), resets: BUTTON_RESETS });
+        button.handler = this.actionHandler(node, context);
+        return button;
+      }
+      case 'input': {
+        const input = element('input', {
+          attributes: attributes('type', 'placeholder'),
+          bound: bound('placeholder', 'required', 'disabled'),
+          flags: flags('required', 'disabled'),
+          model: this.model(node, 'value', context),
+          selfClosing: true
+        });
+        return labelled(input);
+      }
+      case 'textarea': {
+        // An empty body, since whitespace inside a textarea is its value
+        const textarea = element('textarea', {
+          attributes: attributes('placeholder', 'rows'),
+          bound: bound('placeholder', 'rows', 'required'),
+          flags: flags('required'),
+          model: this.model(node, 'value', context),
+          text: ''
+        });
+        return labelled(textarea);
+      }
+      case 'checkbox': {
+        const model = this.model(node, 'checked', context);
+        const checked = props.checked && !model && !bindings.checked ? [jsx ? 'defaultChecked' : 'checked'] : [];
+        const input = element('input', {
+          attributes: [['type', 'checkbox']],
+          bound: bound('checked', 'required'),
+          flags: [...checked, ...flags('required')],
+          model,
+          selfClosing: true
+        });
+        if (!props.label && !bindings.label) return input;
+        const label = bindings.label
+          ? this.printText({ expression: this.templateExpression(bindings.label, context) }, context)
+          : `${props.label}`;
+        return element('label', { children: [input, element('', { raw: label })] });
+      }
+      case 'select': {
+        const select = element('select', {
+          bound: bound('required'),
+          flags: flags('required'),
+          model: this.model(node, 'value', context),
+          children: (props.options || []).map((option: string) => element('option', { text: option }))
+        });
+        return labelled(select);
+      }
+      case 'list': {
+        const list = element(props.ordered ? 'ol' : 'ul', {
+          children: (props.items || []).map((item: string) => element('li', { text: item }))
+        });
+        this.applyStyles(node, list, context);
+        return list;
+      }
+      case 'divider': {
+        const divider = element('hr', { selfClosing: true });
+        this.applyStyles(node, divider, context);
+        return divider;
+      }
+      case 'image': {
+        const image = element('img', {
+          attributes: attributes('src', 'alt'),
+          bound: bound('src', 'alt'),
+          selfClosing: true
+        });
+        this.applyStyles(node, image, context);
+        return image;
+      }
       default:
-        return `${indent}<div>/* ${node.type} component */</div>\n`;
+        return element('div', { comment: `${node.type} component` });
     }
   }
 
-  private static generateContainerJSX(node: ComponentNode, styling: string, indent: string): string {
-    let jsx = `${indent}<div`;
-    
-    if (styling === 'tailwind') {
-      jsx += ` className="${this.propsToTailwind(node.props)}"`;
-    } else {
-      jsx += ` style={{${this.styleToJSX(node.props)}}}`;
+  // Imported markup prints as it was written, around its imported children
+  private static rawElement(node: ComponentNode, context: CodeContext): MarkupElement {
+    const { tag, attributes, source, selfClosing } = node.props;
+    if (!tag) {
+      return { tag: '', attributes: [], flags: [], children: [], raw: `${source ?? ''}` };
     }
-    
-    jsx += `>\n`;
-    
-    if (node.children.length > 0) {
-      node.children.forEach(child => {
-        jsx += this.generateJSX(child, styling, indent + '  ');
-      });
+    return {
+      tag,
+      attributes: [],
+      rawAttributes: attributes || undefined,
+      flags: [],
+      children: node.children.map(child => this.buildElement(child, context)),
+      selfClosing: selfClosing && node.children.length === 0
+    };
+  }
+
+  private static applyStyles(
+    node: ComponentNode,
+    element: MarkupElement,
+    context: CodeContext,
+    tailwind?: { utilities: (props: any) => TailwindGroups; resets: TailwindGroups }
+  ): void {
+    if (context.mode === 'tailwind' && tailwind) {
+      element.className = this.responsiveTailwind(node, tailwind.utilities, tailwind.resets);
+      // Imported declarations have no utility to map to
+      const imported = Object.entries(node.props.style ?? {}).filter(([, value]) => typeof value === 'string' || typeof value === 'number');
+      if (imported.length > 0) element.style = Object.fromEntries(imported.map(([property, value]) => [property, `${value}`]));
+      return;
+    }
+    if (context.mode === 'inline' || context.mode === 'tailwind') {
+      this.applyInlineStyles(node, element, context);
+      return;
+    }
+
+    const declarations = BREAKPOINTS.map(breakpoint =>
+      this.styleDeclarations(node.type, resolveProps(node, breakpoint.id))
+    );
+    const properties = [...new Set(declarations.flatMap(current => Object.keys(current)))];
+    if (properties.length === 0) return;
+
+    const base = node.name || node.type;
+    switch (context.mode) {
+      case 'styled': {
+        const pascal = this.pascalCase(base);
+        const name = this.uniqueIdentifier(pascal === context.name ? `${pascal}Root` : pascal, context);
+        context.styled.push(`const ${name} = styled.${element.tag}\`\n${this.styledBody(declarations, properties)}\`;`);
+        element.tag = name;
+        break;
+      }
+      case 'module': {
+        const key = this.uniqueIdentifier(this.camelCase(base), context);
+        context.rules.push(this.mediaRules(key, declarations, properties));
+        element.moduleClass = key;
+        break;
+      }
+      case 'scoped': {
+        const className = this.uniqueIdentifier(this.kebabCase(base), context);
+        context.rules.push(this.mediaRules(className, declarations, properties));
+        element.className = className;
+        break;
+      }
     }
-    
-    jsx += `${indent}</div>\n`;
-    
-    return jsx;
   }
 
-  private static generateHeadingJSX(node: ComponentNode, indent: string): string {
-    const tag = `h${node.props.level || 2}`;
-    return `${indent}<${tag} style={{${this.styleToJSX(node.props)}}}>${node.props.text}</${tag}>\n`;
+  /**
+   * Inline style for a node's desktop props. Declarations that change at a
+   * narrower breakpoint move to a class with media queries in the
+   * stylesheet, since a media query can't override an inline style.
+   */
+  private static applyInlineStyles(node: ComponentNode, element: MarkupElement, context: CodeContext): void {
+    const declarations = BREAKPOINTS.map(breakpoint =>
+      this.styleDeclarations(node.type, resolveProps(node, breakpoint.id))
+    );
+    const [desktop] = declarations;
+    const responsive = new Set(
+      declarations.slice(1).flatMap(current =>
+        Object.keys({ ...desktop, ...current }).filter(property => current[property] !== desktop[property])
+      )
+    );
+
+    element.style = Object.fromEntries(Object.entries(desktop).filter(([property]) => !responsive.has(property)));
+
+    if (responsive.size > 0) {
+      const className = `${this.kebabCase(node.name || node.type)}-${node.id.slice(0, 8)}`;
+      context.rules.push(this.mediaRules(className, declarations, [...responsive]));
+      element.className = className;
+    }
   }
 
-  private static generateButtonJSX(node: ComponentNode, styling: string, indent: string): string {
-    let jsx = `${indent}<button`;
-    
-    if (styling === 'tailwind') {
-      jsx += ` className="${this.buttonPropsToTailwind(node.props)}"`;
+  // The action a button runs on click, as a handler the component declares
+  private static actionHandler(node: ComponentNode, context: CodeContext): string | undefined {
+    const action: ComponentAction | undefined = node.props.onClick;
+    const stateful = isStateAction(action);
+    if (stateful && !context.variables.some(variable => variable.name === action.variable)) return undefined;
+    if (!action?.type || (!action.value && !stateful)) return undefined;
+
+    let body: string;
+    switch (action.type) {
+      case 'navigate':
+        body = `window.location.href = ${JSON.stringify(action.value)};`;
+        break;
+      case 'alert':
+        body = `alert(${JSON.stringify(action.value)});`;
+        break;
+      case 'console':
+        body = `console.log(${JSON.stringify(action.value)});`;
+        break;
+      case 'custom':
+        body = action.value!;
+        break;
+      case 'set':
+      case 'toggle':
+      case 'increment':
+        body = this.stateUpdate(action as ComponentAction & { variable: string }, context);
+        break;
+      default:
+        return undefined;
+    }
+
+    const name = this.uniqueIdentifier(`handle${this.pascalCase(node.name || node.type)}Click`, context);
+    context.handlers.push({ name, body });
+    return name;
+  }
+
+  // The statement a state action runs, in the framework's own state API
+  private static stateUpdate(action: ComponentAction & { variable: string }, context: CodeContext): string {
+    const { variable } = action;
+    const current = this.scriptExpression(variable, context);
+    let value: string;
+    switch (action.type) {
+      case 'set':
+        value = this.scriptExpression(action.value || 'undefined', context);
+        break;
+      case 'toggle':
+        value = `!${current}`;
+        break;
+      default:
+        value = `${current} + ${Number(action.value || 1)}`;
+    }
+
+    switch (context.framework) {
+      case 'react':
+      case 'solid':
+        return `${this.setterName(variable)}(${value});`;
+      case 'vue':
+        return `${variable}.value = ${value};`;
+      case 'angular':
+        return `this.${variable}.set(${value});`;
+      default:
+        return `${variable} = ${value};`;
+    }
+  }
+
+  // The variable a form field is bound to, when the page declares it
+  private static model(
+    node: ComponentNode,
+    property: 'value' | 'checked',
+    context: CodeContext
+  ): MarkupElement['model'] {
+    const variable = context.variables.find(entry => entry.name === node.bindings?.model);
+    if (!variable) return undefined;
+    return { variable: variable.name, property, number: variable.type === 'number' };
+  }
+
+  // A state expression as the markup reads it: Solid and Angular read signals by calling them
+  private static templateExpression(expression: string, context: CodeContext): string {
+    const names = context.variables.map(variable => variable.name);
+    if (context.framework === 'solid' || context.framework === 'angular') {
+      return rewriteExpression(expression, names, name => `${name}()`);
+    }
+    return expression;
+  }
+
+  // A state expression as the component's script reads it
+  private static scriptExpression(expression: string, context: CodeContext): string {
+    const names = context.variables.map(variable => variable.name);
+    switch (context.framework) {
+      case 'solid':
+        return rewriteExpression(expression, names, name => `${name}()`);
+      case 'vue':
+        return rewriteExpression(expression, names, name => `${name}.value`);
+      case 'angular':
+        return rewriteExpression(expression, names, name => `this.${name}()`);
+      default:
+        return expression;
+    }
+  }
+
+  private static literal(value: StateVariable['initialValue']): string {
+    return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : `${value}`;
+  }
+
+  // Items of a static or generated source as a literal, indented to sit at `indent`
+  private static itemsLiteral(source: DataSource, indent: string): string {
+    return JSON.stringify(sourceItems(source), null, 2).split('\n').join(`\n${indent}`);
+  }
+
+  // Type argument for fetched items, which start out empty
+  private static itemsType(context: CodeContext): string {
+    return context.typescript ? '<Record<string, any>[]>' : '';
+  }
+
+  private static setterName(variable: string): string {
+    return `set${this.capitalizeFirst(variable)}`;
+  }
+
+  private static printText(element: Pick<MarkupElement, 'text' | 'expression'>, context: CodeContext): string {
+    if (element.expression === undefined) return element.text ?? '';
+    const mustache = context.framework === 'vue' || context.framework === 'angular';
+    return mustache ? `{{ ${element.expression} }}` : `{${element.expression}}`;
+  }
+
+  // A repeater's children once per item. React keys each copy, wrapping them
+  // in a fragment unless a single element can take the key.
+  private static printLoop(
+    loop: NonNullable<MarkupElement['loop']>,
+    children: MarkupElement[],
+    context: CodeContext,
+    indent: string
+  ): string {
+    const { source, item } = loop;
+    const inner = (elements: MarkupElement[], depth: string) =>
+      elements.map(child => this.printMarkup(child, context, depth)).join('');
+    const keyable = children.length === 1 && children[0].condition === undefined && children[0].raw === undefined;
+    const fragment = (open: string, close: string) =>
+      `${indent}  ${open}\n${inner(children, indent + '    ')}${indent}  ${close}\n`;
+
+    switch (context.framework) {
+      case 'vue':
+        return `${indent}<template v-for="(${item}, index) in ${source}" :key="index">\n${inner(children, indent + '  ')}${indent}</template>\n`;
+      case 'svelte':
+        return `${indent}{#each ${source} as ${item}}\n${inner(children, indent + '  ')}${indent}{/each}\n`;
+      case 'angular':
+        return `${indent}@for (${item} of ${source}; track $index) {\n${inner(children, indent + '  ')}${indent}}\n`;
+      case 'solid': {
+        const body = keyable ? inner(children, indent + '  ') : fragment('<>', '</>');
+        return `${indent}<For each={${source}}>{(${item}) => (\n${body}${indent})}</For>\n`;
+      }
+      default: {
+        const body = keyable
+          ? inner([{ ...children[0], bound: [['key', 'index'], ...(children[0].bound ?? [])] }], indent + '  ')
+          : fragment('<React.Fragment key={index}>', '</React.Fragment>');
+        return `${indent}{${source}.map((${item}, index) => (\n${body}${indent}))}\n`;
+      }
+    }
+  }
+
+  // How the markup reads a source's items: fetched ones are signals in Solid and Angular
+  private static sourceExpression(source: DataSource, context: CodeContext): string {
+    const signal = source.kind === 'rest' && (context.framework === 'solid' || context.framework === 'angular');
+    return signal ? `${source.name}()` : source.name;
+  }
+
+  // Vue writes the condition as a `v-if` attribute instead
+  private static printConditional(element: MarkupElement, context: CodeContext, indent: string): string {
+    const inner = this.printMarkup({ ...element, condition: undefined }, context, indent + '  ');
+    switch (context.framework) {
+      case 'solid':
+        return `${indent}<Show when={${element.condition}}>\n${inner}${indent}</Show>\n`;
+      case 'svelte':
+        return `${indent}{#if ${element.condition}}\n${inner}${indent}{/if}\n`;
+      case 'angular':
+        return `${indent}@if (${element.condition}) {\n${inner}${indent}}\n`;
+      default:
+        return `${indent}{${element.condition} && (\n${inner}${indent})}\n`;
+    }
+  }
+
+  private static printMarkup(element: MarkupElement, context: CodeContext, indent: string): string {
+    if (element.raw !== undefined) {
+      return `${indent}${element.raw}\n`;
+    }
+    if (element.condition !== undefined && context.framework !== 'vue') {
+      return this.printConditional(element, context, indent);
+    }
+
+    const open = `${indent}<${element.tag}${this.printAttributes(element, context)}`;
+    const close = `</${element.tag}>`;
+
+    if (element.selfClosing) {
+      return `${open} />\n`;
+    }
+    if (element.comment !== undefined) {
+      const jsx = context.framework === 'react' || context.framework === 'solid';
+      return `${open}>${jsx ? `{/* ${element.comment} */}` : `<!-- ${element.comment} -->`}${close}\n`;
+    }
+    if (element.text !== undefined || element.expression !== undefined) {
+      return `${open}>${this.printText(element, context)}${close}\n`;
+    }
+
+    const children = element.loop
+      ? this.printLoop(element.loop, element.children, context, indent + '  ')
+      : element.children.map(child => this.printMarkup(child, context, indent + '  ')).join('');
+    return `${open}>\n${children}${indent}${close}\n`;
+  }
+
+  private static printAttributes(element: MarkupElement, context: CodeContext): string {
+    const { framework } = context;
+    const classAttribute = framework === 'react' ? 'className' : 'class';
+    let attributes = element.condition !== undefined && framework === 'vue'
+      ? ` v-if="${this.escapeAttribute(element.condition)}"`
+      : '';
+    attributes += element.rawAttributes ? ` ${element.rawAttributes}` : '';
+    attributes += element.attributes.map(([name, value]) => ` ${name}="${this.escapeAttribute(value)}"`).join('');
+    attributes += (element.bound ?? []).map(([name, expression]) => {
+      switch (framework) {
+        case 'vue':
+          return ` :${name}="${this.escapeAttribute(expression)}"`;
+        case 'angular':
+          return ` [${name}]="${this.escapeAttribute(expression)}"`;
+        default:
+          return ` ${name}={${expression}}`;
+      }
+    }).join('');
+    if (element.model) {
+      attributes += this.printModel(element.model, framework);
+    }
+
+    if (element.moduleClass && framework !== 'vue') {
+      // The module class and any imported classes share the attribute
+      attributes += element.className
+        ? ` ${classAttribute}={\`\${styles.${element.moduleClass}} ${element.className}\`}`
+        : ` ${classAttribute}={styles.${element.moduleClass}}`;
     } else {
-      jsx += ` style={{${this.styleToJSX(node.props)}}}`;
+      if (element.className) {
+        attributes += ` ${classAttribute}="${element.className}"`;
+      }
+      if (element.moduleClass) {
+        attributes += ` :class="$style.${element.moduleClass}"`;
+      }
     }
-    
-    if (node.props.disabled) {
-      jsx += ` disabled`;
+    if (element.style) {
+      attributes += this.printStyle(element.style, framework);
     }
-    
-    jsx += `>${node.props.text}</button>\n`;
-    
-    return jsx;
+    attributes += element.flags.map(flag => ` ${flag}`).join('');
+
+    if (element.handler) {
+      switch (framework) {
+        case 'vue':
+          attributes += ` @click="${element.handler}"`;
+          break;
+        case 'svelte':
+          attributes += ` onclick={${element.handler}}`;
+          break;
+        case 'angular':
+          attributes += ` (click)="${element.handler}()"`;
+          break;
+        default:
+          attributes += ` onClick={${element.handler}}`;
+      }
+    }
+
+    return attributes;
   }
 
-  private static generateInputJSX(node: ComponentNode, indent: string): string {
-    let jsx = '';
-    
-    if (node.props.label) {
-      jsx += `${indent}<div>\n`;
-      jsx += `${indent}  <label>${node.props.label}</label>\n`;
-      jsx += `${indent}  <input type="${node.props.type}" placeholder="${node.props.placeholder}" />\n`;
-      jsx += `${indent}</div>\n`;
+  // Two-way binding of a form field, in each framework's idiom
+  private static printModel(model: NonNullable<MarkupElement['model']>, framework: string): string {
+    const { variable, property, number } = model;
+    const setter = this.setterName(variable);
+    const read = (target: string) => number ? `Number(${target}.${property})` : `${target}.${property}`;
+    const event = property === 'checked' ? 'change' : 'input';
+
+    switch (framework) {
+      case 'vue':
+        return number ? ` v-model.number="${variable}"` : ` v-model="${variable}"`;
+      case 'svelte':
+        return ` bind:${property}={${variable}}`;
+      case 'angular':
+        return ` [${property}]="${variable}()" (${event})="${variable}.set(${read('$any($event.target)')})"`;
+      case 'solid':
+        return ` ${property}={${variable}()} on${this.capitalizeFirst(event)}={(e) => ${setter}(${read('e.currentTarget')})}`;
+      default:
+        return ` ${property}={${variable}} onChange={(e) => ${setter}(${read('e.target')})}`;
+    }
+  }
+
+  // React keeps an empty style object, as its exports always have
+  private static printStyle(styles: Record<string, string>, framework: string): string {
+    const entries = Object.entries(styles);
+    // Nodes styled only by class, or not at all, get no style attribute
+    if (entries.length === 0) return '';
+    if (framework === 'react') {
+      return ` style={{${this.styleToJSX(styles)}}}`;
+    }
+    if (framework === 'solid') {
+      const properties = entries.map(([property, value]) => {
+        const name = this.kebabCase(property);
+        return `${name.includes('-') ? `'${name}'` : name}: '${value}'`;
+      });
+      return ` style={{ ${properties.join(', ')} }}`;
+    }
+    return ` style="${entries.map(([property, value]) => `${this.kebabCase(property)}: ${value}`).join('; ')}"`;
+  }
+
+  /**
+   * React and Solid components share their layout; Solid types the
+   * component with its own `Component` and styles with solid-styled-components
+   */
+  private static generateJSXComponent(markup: MarkupElement, context: CodeContext, includeImports: boolean): string {
+    const { name, typescript } = context;
+    const solid = context.framework === 'solid';
+    let code = '';
+
+    const stateful = context.variables.length > 0;
+    const fetched = context.sources.filter(source => source.kind === 'rest');
+    if (includeImports) {
+      const solidImports = [
+        ...(stateful ? ['createSignal'] : []),
+        ...(fetched.length > 0 ? ['createResource'] : []),
+        ...(context.inputs.length > 0 ? ['mergeProps'] : []),
+        ...(context.conditional ? ['Show'] : []),
+        ...(context.sources.length > 0 ? ['For'] : [])
+      ];
+      const hooks = [
+        ...(stateful || fetched.length > 0 ? ['useState'] : []),
+        ...(fetched.length > 0 ? ['useEffect'] : [])
+      ];
+      const imports = solid
+        ? [
+            ...(typescript ? ["import type { Component } from 'solid-js';"] : []),
+            ...(solidImports.length > 0 ? [`import { ${solidImports.join(', ')} } from 'solid-js';`] : [])
+          ]
+        : [hooks.length > 0 ? `import React, { ${hooks.join(', ')} } from 'react';` : "import React from 'react';"];
+      if (context.styled.length > 0) {
+        imports.push(solid ? "import { styled } from 'solid-styled-components';" : "import styled from 'styled-components';");
+      }
+      if (context.mode === 'module' && context.rules.length > 0) {
+        imports.push(`import styles from './${name}.module.css';`);
+      }
+      for (const symbol of context.instances) {
+        imports.push(`import { ${this.symbolName(symbol)} } from './${this.symbolName(symbol)}';`);
+      }
+      if (imports.length > 0) {
+        code += `${imports.join('\n')}\n\n`;
+      }
+    }
+
+    if (context.styled.length > 0) {
+      code += `${context.styled.join('\n\n')}\n\n`;
+    }
+
+    for (const source of context.sources.filter(source => source.kind !== 'rest')) {
+      code += `const ${source.name} = ${this.itemsLiteral(source, '')};\n\n`;
+    }
+
+    // Media queries for inline-styled props that change between breakpoints
+    const responsive = context.mode !== 'module' && context.rules.length > 0;
+    if (responsive) {
+      code += `const responsiveStyles = \`\n${context.rules.join('\n')}\`;\n\n`;
+    }
+    // A conditional root is an expression, which React can only return inside a fragment
+    let jsx = this.printMarkup(markup, context, '    ');
+    if (responsive || (!solid && markup.condition !== undefined)) {
+      const style = responsive ? `      <style>{responsiveStyles}</style>\n` : '';
+      jsx = `    <>\n${style}${this.printMarkup(markup, context, '      ')}    </>\n`;
+    }
+
+    // A symbol's component takes the props its instances override, defaulting to the master's
+    const defaults = context.inputs.map(input => `${input.name}: ${this.literal(input.value)}`);
+    const parameters = context.inputs.length > 0 && !solid
+      ? `{ ${context.inputs.map(input => `${input.name} = ${this.literal(input.value)}`).join(', ')} }`
+      : 'props';
+    if (typescript) {
+      const fields = context.inputs.length > 0
+        ? context.inputs.map(input => `  ${input.name}?: ${this.inputType(input)};\n`).join('')
+        : '  // Add props here\n';
+      code += `interface ${name}Props {\n${fields}}\n\n`;
+      code += solid
+        ? `export const ${name}: Component<${name}Props> = (${parameters}) => {\n`
+        : `export const ${name}: React.FC<${name}Props> = (${parameters}) => {\n`;
     } else {
-      jsx += `${indent}<input type="${node.props.type}" placeholder="${node.props.placeholder}" />\n`;
+      code += `export const ${name} = (${parameters}) => {\n`;
     }
-    
-    return jsx;
+    if (solid && context.inputs.length > 0) {
+      code += `  const local = mergeProps({ ${defaults.join(', ')} }, props);\n\n`;
+    }
+
+    for (const variable of context.variables) {
+      const create = solid ? 'createSignal' : 'useState';
+      code += `  const [${variable.name}, ${this.setterName(variable.name)}] = ${create}(${this.literal(variable.initialValue)});\n`;
+    }
+    for (const source of fetched) {
+      const request = `fetch(${this.literal(source.url ?? '')}).then((response) => response.json())`;
+      code += solid
+        ? `  const [${source.name}] = createResource(() => ${request});\n`
+        : `  const [${source.name}, ${this.setterName(source.name)}] = useState${this.itemsType(context)}([]);\n`;
+    }
+    if (stateful || fetched.length > 0) code += '\n';
+
+    if (!solid) {
+      for (const source of fetched) {
+        code += `  useEffect(() => {\n`;
+        code += `    fetch(${this.literal(source.url ?? '')})\n`;
+        code += `      .then((response) => response.json())\n`;
+        code += `      .then(${this.setterName(source.name)});\n`;
+        code += `  }, []);\n\n`;
+      }
+    }
+
+    for (const handler of context.handlers) {
+      code += `  const ${handler.name} = () => {\n    ${handler.body}\n  };\n\n`;
+    }
+
+    code += `  return (\n`;
+    code += jsx;
+    code += `  );\n`;
+    code += `};\n`;
+
+    return code;
   }
 
-  private static generateVueComponent(
-    node: ComponentNode,
-    styling: string,
-    typescript: boolean
-  ): string {
-    const componentName = this.capitalizeFirst(node.name.replace(/\s+/g, ''));
-    
+  private static generateVueComponent(markup: MarkupElement, context: CodeContext): string {
     let code = '<template>\n';
-    code += this.generateVueTemplate(node, styling, '  ');
+    code += this.printMarkup(markup, context, '  ');
     code += '</template>\n\n';
-    
-    code += typescript ? '<script setup lang="ts">\n' : '<script setup>\n';
-    code += '// Component logic here\n';
+
+    const fetched = context.sources.filter(source => source.kind === 'rest');
+    code += context.typescript ? '<script setup lang="ts">\n' : '<script setup>\n';
+    if (context.variables.length > 0 || fetched.length > 0) {
+      code += `import { ${fetched.length > 0 ? 'onMounted, ref' : 'ref'} } from 'vue';\n`;
+    }
+    for (const symbol of context.instances) {
+      code += `import ${this.symbolName(symbol)} from './${this.symbolName(symbol)}.vue';\n`;
+    }
+    if (context.variables.length > 0 || fetched.length > 0 || context.instances.length > 0) {
+      code += '\n';
+    }
+    code += `defineOptions({ name: '${context.name}' });\n`;
+    if (context.inputs.length > 0) {
+      const types: Record<string, string> = { string: 'String', number: 'Number', boolean: 'Boolean', any: 'null' };
+      const props = context.inputs.map(input =>
+        `  ${input.name}: { type: ${types[this.inputType(input)]}, default: ${this.literal(input.value)} },\n`
+      );
+      code += `defineProps({\n${props.join('')}});\n`;
+    }
+    if (context.variables.length > 0 || fetched.length > 0) {
+      code += '\n';
+      code += context.variables.map(variable => `const ${variable.name} = ref(${this.literal(variable.initialValue)});\n`).join('');
+      code += fetched.map(source => `const ${source.name} = ref${this.itemsType(context)}([]);\n`).join('');
+    }
+    for (const source of context.sources.filter(source => source.kind !== 'rest')) {
+      code += `\nconst ${source.name} = ${this.itemsLiteral(source, '')};\n`;
+    }
+    for (const source of fetched) {
+      code += `\nonMounted(async () => {\n`;
+      code += `  ${source.name}.value = await (await fetch(${this.literal(source.url ?? '')})).json();\n`;
+      code += `});\n`;
+    }
+    for (const handler of context.handlers) {
+      code += `\nfunction ${handler.name}() {\n  ${handler.body}\n}\n`;
+    }
     code += '</script>\n';
-    
-    if (styling === 'css') {
-      code += '\n<style scoped>\n/* Component styles */\n</style>\n';
+
+    if (context.rules.length > 0) {
+      code += `\n<style ${context.mode === 'module' ? 'module' : 'scoped'}>\n${context.rules.join('\n')}\n</style>\n`;
     }
-    
+
     return code;
   }
 
-  private static generateVueTemplate(node: ComponentNode, styling: string, indent: string): string {
-    // Similar to JSX generation but with Vue template syntax
-    return `${indent}<div>Vue component template</div>\n`;
+  private static generateSvelteComponent(markup: MarkupElement, context: CodeContext): string {
+    let code = '';
+
+    const fetched = context.sources.filter(source => source.kind === 'rest');
+    const scripted = [context.handlers, context.variables, context.sources, context.instances, context.inputs];
+    if (scripted.some(group => group.length > 0)) {
+      code += context.typescript ? '<script lang="ts">\n' : '<script>\n';
+      const imports = [
+        ...(fetched.length > 0 ? [`  import { onMount } from 'svelte';\n`] : []),
+        ...context.instances.map(symbol => `  import ${this.symbolName(symbol)} from './${this.symbolName(symbol)}.svelte';\n`)
+      ];
+      const props = context.inputs.length > 0
+        ? [`  let { ${context.inputs.map(input => `${input.name} = ${this.literal(input.value)}`).join(', ')} }${
+            context.typescript ? `: { ${context.inputs.map(input => `${input.name}?: ${this.inputType(input)}`).join('; ')} }` : ''
+          } = $props();\n`]
+        : [];
+      const declarations = [
+        ...props,
+        ...context.variables.map(variable => `  let ${variable.name} = $state(${this.literal(variable.initialValue)});\n`),
+        ...fetched.map(source => `  let ${source.name} = $state${this.itemsType(context)}([]);\n`)
+      ];
+      const items = context.sources
+        .filter(source => source.kind !== 'rest')
+        .map(source => `  const ${source.name} = ${this.itemsLiteral(source, '  ')};\n`);
+      const requests = fetched.map(source =>
+        `  onMount(async () => {\n    ${source.name} = await (await fetch(${this.literal(source.url ?? '')})).json();\n  });\n`
+      );
+      const functions = context.handlers.map(handler => `  function ${handler.name}() {\n    ${handler.body}\n  }\n`);
+      code += [imports, declarations, items, requests]
+        .filter(group => group.length > 0)
+        .map(group => group.join(''))
+        .concat(functions)
+        .join('\n');
+      code += '</script>\n\n';
+    }
+
+    code += this.printMarkup(markup, context, '');
+
+    if (context.rules.length > 0) {
+      code += `\n<style>\n${context.rules.join('\n')}\n</style>\n`;
+    }
+
+    return code;
   }
 
   private static generateAngularComponent(
     node: ComponentNode,
-    styling: string,
-    typescript: boolean
+    markup: MarkupElement,
+    context: CodeContext,
+    stylesheet: string | null,
+    includeImports: boolean
   ): string {
-    const componentName = this.capitalizeFirst(node.name.replace(/\s+/g, ''));
+    const template = this.printMarkup(markup, context, '    ');
     
-    let code = `@Component({\n`;
-    code += `  selector: 'app-${node.name.toLowerCase().replace(/\s+/g, '-')}',\n`;
+    const fetched = context.sources.filter(source => source.kind === 'rest');
+    const stateful = context.variables.length > 0 || fetched.length > 0;
+    const core = ['Component', ...(context.inputs.length > 0 ? ['Input'] : []), ...(stateful ? ['signal'] : [])];
+    let code = '';
+    if (includeImports) {
+      code += `import { ${core.join(', ')} } from '@angular/core';\n`;
+      for (const symbol of context.instances) {
+        code += `import { ${this.symbolName(symbol)}Component } from './${this.kebabCase(this.symbolName(symbol))}.component';\n`;
+      }
+      code += '\n';
+    }
+    code += `@Component({\n`;
+    code += `  selector: '${this.angularSelector(node.name)}',\n`;
+    code += `  standalone: true,\n`;
+    if (context.instances.length > 0) {
+      code += `  imports: [${context.instances.map(symbol => `${this.symbolName(symbol)}Component`).join(', ')}],\n`;
+    }
     code += `  template: \`\n`;
-    code += this.generateAngularTemplate(node, styling, '    ');
-    code += `  \`,\n`;
-    code += `  styles: [\`/* Component styles */\`]\n`;
-    code += `})\n`;
-    code += `export class ${componentName}Component {\n`;
-    code += `  // Component logic here\n`;
+    code += this.escapeTemplateLiteral(template);
+    code += `  \``;
+    if (stylesheet) {
+      code += `,\n  styleUrls: ['./${stylesheet}']`;
+    } else if (context.rules.length > 0) {
+      const styles = context.rules.join('\n').split('\n').map(line => `    ${line}`).join('\n');
+      code += `,\n  styles: [\`\n${this.escapeTemplateLiteral(styles)}\n  \`]`;
+    }
+    code += `\n})\n`;
+    code += `export class ${context.name}Component {\n`;
+    const fields = [
+      ...context.inputs.map(input => `  @Input() ${input.name} = ${this.literal(input.value)};\n`),
+      ...context.variables.map(variable => `  ${variable.name} = signal(${this.literal(variable.initialValue)});\n`),
+      ...context.sources.map(source => source.kind === 'rest'
+        ? `  ${source.name} = signal${this.itemsType(context)}([]);\n`
+        : `  ${source.name} = ${this.itemsLiteral(source, '  ')};\n`)
+    ];
+    const constructor = fetched.length > 0
+      ? [`  constructor() {\n${fetched.map(source =>
+          `    fetch(${this.literal(source.url ?? '')})\n` +
+          `      .then((response) => response.json())\n` +
+          `      .then((data) => this.${source.name}.set(data));\n`
+        ).join('')}  }\n`]
+      : [];
+    const methods = context.handlers.map(handler => `  ${handler.name}() {\n    ${handler.body}\n  }\n`);
+    code += [...(fields.length > 0 ? [fields.join('')] : []), ...constructor, ...methods].join('\n');
     code += `}\n`;
     
     return code;
   }
 
-  private static generateAngularTemplate(node: ComponentNode, styling: string, indent: string): string {
-    // Similar to JSX generation but with Angular template syntax
-    return `${indent}<div>Angular component template</div>\n`;
+  private static generateStory(node: ComponentNode, options: ExportOptions): ExportedFile | null {
+    const name = this.componentName(node);
+    const extension = options.typescript ? 'ts' : 'js';
+    const jsxExtension = options.typescript ? 'tsx' : 'jsx';
+    const story = (framework: string, component: string, source: string, path: string) => {
+      const lines = options.typescript
+        ? [
+            `import type { Meta, StoryObj } from '${framework}';`,
+            source,
+            '',
+            `const meta: Meta<typeof ${component}> = {`,
+            `  title: 'Builder/${name}',`,
+            `  component: ${component}`,
+            '};',
+            '',
+            'export default meta;',
+            '',
+            `export const Default: StoryObj<typeof ${component}> = {};`
+          ]
+        : [
+            source,
+            '',
+            'export default {',
+            `  title: 'Builder/${name}',`,
+            `  component: ${component}`,
+            '};',
+            '',
+            'export const Default = {};'
+          ];
+      return { path, content: `${lines.join('\n')}\n` };
+    };
+
+    switch (options.framework) {
+      case 'react':
+        return story('@storybook/react', name, `import { ${name} } from './${name}';`, `${name}.stories.${jsxExtension}`);
+      case 'solid':
+        return story('storybook-solidjs', name, `import { ${name} } from './${name}';`, `${name}.stories.${jsxExtension}`);
+      case 'vue':
+        return story('@storybook/vue3', name, `import ${name} from './${name}.vue';`, `${name}.stories.${extension}`);
+      case 'svelte':
+        return story('@storybook/svelte', name, `import ${name} from './${name}.svelte';`, `${name}.stories.${extension}`);
+      case 'angular': {
+        const file = this.angularFileName(node);
+        const component = `${name}Component`;
+        return story('@storybook/angular', component, `import { ${component} } from './${file}';`, `${file}.stories.ts`);
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Renders the component and looks for the first text it shows
+  private static generateTest(node: ComponentNode, options: ExportOptions): ExportedFile | null {
+    const name = this.componentName(node);
+    const text = this.firstText(node);
+    const extension = options.typescript ? 'ts' : 'js';
+    const jsxExtension = options.typescript ? 'tsx' : 'jsx';
+    const assertion = text !== null
+      ? `expect(screen.getByText(${JSON.stringify(text)})).toBeTruthy();`
+      : 'expect(container.firstChild).toBeTruthy();';
+    const rendered = text !== null ? '' : 'const { container } = ';
+    const test = (library: string, source: string, render: string, path: string, async = false) => {
+      const lines = [
+        "import { describe, expect, it } from 'vitest';",
+        `import { render, screen } from '${library}';`,
+        source,
+        '',
+        `describe('${name}', () => {`,
+        `  it('renders', ${async ? 'async ' : ''}() => {`,
+        `    ${rendered}${render};`,
+        `    ${assertion}`,
+        '  });',
+        '});'
+      ];
+      return { path, content: `${lines.join('\n')}\n` };
+    };
+
+    switch (options.framework) {
+      case 'react':
+        return test('@testing-library/react', `import { ${name} } from './${name}';`, `render(<${name} />)`, `${name}.test.${jsxExtension}`);
+      case 'solid':
+        return test('@solidjs/testing-library', `import { ${name} } from './${name}';`, `render(() => <${name} />)`, `${name}.test.${jsxExtension}`);
+      case 'vue':
+        return test('@testing-library/vue', `import ${name} from './${name}.vue';`, `render(${name})`, `${name}.test.${extension}`);
+      case 'svelte':
+        return test('@testing-library/svelte', `import ${name} from './${name}.svelte';`, `render(${name})`, `${name}.test.${extension}`);
+      case 'angular': {
+        const file = this.angularFileName(node);
+        const component = `${name}Component`;
+        return test('@testing-library/angular', `import { ${component} } from './${file}';`, `await render(${component})`, `${file}.spec.ts`, true);
+      }
+      default:
+        return null;
+    }
+  }
+
+  private static firstText(node: ComponentNode): string | null {
+    if (['heading', 'text', 'button'].includes(node.type) && node.props.text) {
+      return `${node.props.text}`;
+    }
+    for (const child of node.children) {
+      const text = this.firstText(child);
+      if (text !== null) return text;
+    }
+    return null;
+  }
+
+  // Desktop-first blocks: the desktop values, then what each narrower
+  // breakpoint changes from the one above it
+  private static cssBlocks(
+    declarations: Array<Record<string, string>>,
+    properties: string[]
+  ): Array<{ query: string | null; body: string[] }> {
+    const blocks: Array<{ query: string | null; body: string[] }> = [];
+
+    BREAKPOINTS.forEach((breakpoint, index) => {
+      const current = declarations[index];
+      const changed = properties.filter(property =>
+        index === 0 ? property in current : current[property] !== declarations[index - 1][property]
+      );
+      if (changed.length === 0) return;
+
+      blocks.push({
+        query: index === 0 ? null : `(max-width: ${BREAKPOINTS[index - 1].minWidth - 1}px)`,
+        body: changed.map(property => `${this.kebabCase(property)}: ${current[property] ?? 'initial'};`)
+      });
+    });
+
+    return blocks;
+  }
+
+  private static mediaRules(
+    className: string,
+    declarations: Array<Record<string, string>>,
+    properties: string[]
+  ): string {
+    return this.cssBlocks(declarations, properties)
+      .map(({ query, body }) => query
+        ? `@media ${query} {\n  .${className} {\n    ${body.join('\n    ')}\n  }\n}`
+        : `.${className} {\n  ${body.join('\n  ')}\n}`)
+      .join('\n');
+  }
+
+  // The same blocks inside a styled-components template
+  private static styledBody(
+    declarations: Array<Record<string, string>>,
+    properties: string[]
+  ): string {
+    return this.cssBlocks(declarations, properties)
+      .map(({ query, body }) => query
+        ? `  @media ${query} {\n    ${body.join('\n    ')}\n  }\n`
+        : `  ${body.join('\n  ')}\n`)
+      .join('');
   }
 
-  private static styleToJSX(props: any): string {
-    const styles: string[] = [];
+  private static styleDeclarations(type: string, tokenProps: any): Record<string, string> {
+    const styles: Record<string, string> = {};
+    const props = resolveTokens(tokenProps);
+
+    if (type === 'grid') {
+      styles.display = 'grid';
+      styles.gridTemplateColumns = `repeat(${props.columns || 3}, 1fr)`;
+      if (props.rows && props.rows !== 'auto') styles.gridTemplateRows = props.rows;
+      if (props.gap) styles.gap = props.gap;
+    } else if (type === 'container' || type === 'repeater') {
+      if (props.display) styles.display = props.display;
+      if (props.display === 'flex' && props.flexDirection) styles.flexDirection = props.flexDirection;
+      if (props.display === 'flex' && props.justifyContent) styles.justifyContent = props.justifyContent;
+      if (props.gap) styles.gap = props.gap;
+    }
+    
+    if (props.alignSelf) styles.alignSelf = props.alignSelf;
     
-    if (props.color) styles.push(`color: '${props.color}'`);
-    if (props.backgroundColor) styles.push(`backgroundColor: '${props.backgroundColor}'`);
-    if (props.fontSize) styles.push(`fontSize: '${props.fontSize}'`);
-    if (props.padding) styles.push(`padding: '${props.padding}'`);
-    if (props.margin) styles.push(`margin: '${props.margin}'`);
-    if (props.borderRadius) styles.push(`borderRadius: '${props.borderRadius}'`);
-    if (props.width) styles.push(`width: '${props.width}'`);
-    if (props.height) styles.push(`height: '${props.height}'`);
+    if (props.color) styles.color = props.color;
+    if (props.backgroundColor) styles.backgroundColor = props.backgroundColor;
+    if (props.fontSize) styles.fontSize = props.fontSize;
+    if (props.fontFamily) styles.fontFamily = props.fontFamily;
+    if (props.padding) styles.padding = props.padding;
+    if (props.margin) styles.margin = props.margin;
+    if (props.borderRadius) styles.borderRadius = props.borderRadius;
+    if (props.width) styles.width = props.width;
+    if (props.height) styles.height = props.height;
+
+    // Imported declarations the builder doesn't edit
+    for (const [property, value] of Object.entries(props.style ?? {})) {
+      if (typeof value === 'string' || typeof value === 'number') styles[property] = `${value}`;
+    }
     
-    return styles.join(', ');
+    return styles;
+  }
+
+  private static styleToJSX(styles: Record<string, string>): string {
+    return Object.entries(styles)
+      .map(([property, value]) => `${property}: '${value}'`)
+      .join(', ');
   }
 
-  private static propsToTailwind(props: any): string {
-    const classes: string[] = [];
+  /**
+   * Mobile-first Tailwind classes: the mobile values unprefixed, then each
+   * wider breakpoint's prefix on the groups that change from the one below.
+   * A group a wider breakpoint drops is undone with its reset class.
+   */
+  private static responsiveTailwind(
+    node: ComponentNode,
+    utilities: (props: any) => TailwindGroups,
+    resets: TailwindGroups
+  ): string {
+    const [narrowest, ...wider] = [...BREAKPOINTS].reverse();
+    let previous = utilities(resolveProps(node, narrowest.id));
+    const classes = Object.values(previous);
+
+    for (const breakpoint of wider) {
+      const current = utilities(resolveProps(node, breakpoint.id));
+      const groups = new Set([...Object.keys(previous), ...Object.keys(current)]);
+      for (const group of groups) {
+        if (current[group] === previous[group]) continue;
+        const value = current[group] ?? resets[group];
+        if (value) {
+          classes.push(value.split(' ').map(name => `${breakpoint.prefix}:${name}`).join(' '));
+        }
+      }
+      previous = current;
+    }
+    
+    return classes.join(' ');
+  }
+
+  private static containerTailwindGroups(props: any): TailwindGroups {
+    const groups: TailwindGroups = {};
     
     // Convert props to Tailwind classes
-    if (props.padding) {
-      const px = parseInt(props.padding);
-      if (px === 0) classes.push('p-0');
-      else if (px <= 4) classes.push('p-1');
-      else if (px <= 8) classes.push('p-2');
-      else if (px <= 16) classes.push('p-4');
-      else if (px <= 32) classes.push('p-8');
-      else classes.push('p-16');
-    }
+    if (props.padding) groups.padding = this.paddingClass(props.padding);
     
     if (props.display === 'flex') {
-      classes.push('flex');
-      if (props.flexDirection === 'column') classes.push('flex-col');
-      if (props.gap) {
-        const gap = parseInt(props.gap);
-        if (gap <= 8) classes.push('gap-2');
-        else if (gap <= 16) classes.push('gap-4');
-        else classes.push('gap-8');
-      }
+      groups.display = 'flex';
+      if (props.flexDirection === 'column') groups.direction = 'flex-col';
+      if (JUSTIFY_CLASSES[props.justifyContent]) groups.justify = JUSTIFY_CLASSES[props.justifyContent];
+      if (props.gap) groups.gap = this.gapClass(props.gap);
     }
+    if (ALIGN_SELF_CLASSES[props.alignSelf]) groups.self = ALIGN_SELF_CLASSES[props.alignSelf];
     
-    if (props.backgroundColor && props.backgroundColor !== 'transparent') {
-      classes.push('bg-gray-100'); // Simplified
+    if (parseTokenRef(props.backgroundColor)) {
+      groups.background = this.tokenClass('bg', props.backgroundColor);
+    } else if (props.backgroundColor && props.backgroundColor !== 'transparent') {
+      groups.background = 'bg-gray-100'; // Simplified
     }
     
-    if (props.borderRadius) {
+    if (parseTokenRef(props.borderRadius)) {
+      groups.radius = this.tokenClass('rounded', props.borderRadius);
+    } else if (props.borderRadius) {
       const radius = parseInt(props.borderRadius);
-      if (radius > 0 && radius <= 4) classes.push('rounded');
-      else if (radius <= 8) classes.push('rounded-lg');
-      else if (radius > 8) classes.push('rounded-xl');
+      if (radius > 0 && radius <= 4) groups.radius = 'rounded';
+      else if (radius <= 8) groups.radius = 'rounded-lg';
+      else if (radius > 8) groups.radius = 'rounded-xl';
     }
     
-    return classes.join(' ');
+    return groups;
   }
 
-  private static buttonPropsToTailwind(props: any): string {
-    const classes: string[] = ['font-medium', 'rounded-lg', 'transition-colors'];
+  private static gridTailwindGroups(props: any): TailwindGroups {
+    const groups: TailwindGroups = {
+      display: 'grid',
+      columns: `grid-cols-${props.columns || 3}`
+    };
+    
+    if (props.gap) groups.gap = this.gapClass(props.gap);
+    if (props.padding) groups.padding = this.paddingClass(props.padding);
+    if (ALIGN_SELF_CLASSES[props.alignSelf]) groups.self = ALIGN_SELF_CLASSES[props.alignSelf];
+    
+    return groups;
+  }
+
+  private static buttonTailwindGroups(props: any): TailwindGroups {
+    const groups: TailwindGroups = { base: 'font-medium rounded-lg transition-colors' };
     
     // Size classes
-    if (props.size === 'small') classes.push('px-3 py-1.5 text-sm');
-    else if (props.size === 'large') classes.push('px-6 py-3 text-lg');
-    else classes.push('px-4 py-2');
+    if (props.size === 'small') groups.size = 'px-3 py-1.5 text-sm';
+    else if (props.size === 'large') groups.size = 'px-6 py-3 text-lg';
+    else groups.size = 'px-4 py-2';
     
     // Variant classes
     if (props.variant === 'secondary') {
-      classes.push('bg-gray-200 text-gray-900 hover:bg-gray-300');
+      groups.variant = 'bg-gray-200 text-gray-900 hover:bg-gray-300';
     } else if (props.variant === 'outline') {
-      classes.push('border-2 border-purple-600 text-purple-600 hover:bg-purple-50');
+      groups.variant = 'border-2 border-purple-600 text-purple-600 hover:bg-purple-50';
     } else if (props.variant === 'ghost') {
-      classes.push('text-gray-600 hover:bg-gray-100');
+      groups.variant = 'text-gray-600 hover:bg-gray-100';
     } else {
-      classes.push('bg-purple-600 text-white hover:bg-purple-700');
+      groups.variant = 'bg-purple-600 text-white hover:bg-purple-700';
     }
     
-    if (props.fullWidth) classes.push('w-full');
-    if (props.disabled) classes.push('opacity-50 cursor-not-allowed');
+    if (parseTokenRef(props.fontFamily)) groups.font = this.tokenClass('font', props.fontFamily);
+    if (props.fullWidth) groups.width = 'w-full';
+    if (props.disabled) groups.state = 'opacity-50 cursor-not-allowed';
+    if (ALIGN_SELF_CLASSES[props.alignSelf]) groups.self = ALIGN_SELF_CLASSES[props.alignSelf];
     
-    return classes.join(' ');
+    return groups;
+  }
+
+  private static paddingClass(padding: string): string {
+    if (parseTokenRef(padding)) return this.tokenClass('p', padding);
+    const px = parseInt(padding);
+    if (px === 0) return 'p-0';
+    if (px <= 4) return 'p-1';
+    if (px <= 8) return 'p-2';
+    if (px <= 16) return 'p-4';
+    if (px <= 32) return 'p-8';
+    return 'p-16';
+  }
+
+  private static gapClass(gap: string): string {
+    if (parseTokenRef(gap)) return this.tokenClass('gap', gap);
+    const px = parseInt(gap);
+    if (px <= 8) return 'gap-2';
+    if (px <= 16) return 'gap-4';
+    return 'gap-8';
+  }
+
+  // The utility the theme's Tailwind config adds for a token
+  private static tokenClass(prefix: string, value: string): string {
+    return `${prefix}-${parseTokenRef(value)!.name}`;
+  }
+
+  private static componentName(node: ComponentNode): string {
+    return this.capitalizeFirst(node.name.replace(/\s+/g, ''));
+  }
+
+  private static symbolName(symbol: BuilderSymbol): string {
+    return this.componentName({ ...symbol.master, name: symbol.name });
+  }
+
+  // The type a prop of a symbol's component takes, from the master's value
+  private static inputType(input: SymbolInput): string {
+    const type = typeof input.value;
+    return type === 'string' || type === 'number' || type === 'boolean' ? type : 'any';
+  }
+
+  private static angularSelector(name: string): string {
+    return `app-${name.toLowerCase().replace(/\s+/g, '-')}`;
+  }
+
+  private static angularFileName(node: ComponentNode): string {
+    return `${this.kebabCase(this.componentName(node))}.component`;
+  }
+
+  // Identifiers and class names are shared by every node of one component
+  private static uniqueIdentifier(base: string, context: CodeContext): string {
+    let name = base;
+    for (let suffix = 2; context.identifiers.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    context.identifiers.add(name);
+    return name;
+  }
+
+  private static camelCase(str: string): string {
+    const words = str.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+    const name = words
+      .map((word, index) => index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : this.capitalizeFirst(word))
+      .join('');
+    return /^[a-zA-Z_$]/.test(name) ? name : `_${name}`;
+  }
+
+  private static pascalCase(str: string): string {
+    return this.capitalizeFirst(this.camelCase(str));
+  }
+
+  private static escapeAttribute(value: string): string {
+    return value.replace(/"/g, '&quot;');
+  }
+
+  private static escapeTemplateLiteral(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  }
+
+  private static kebabCase(str: string): string {
+    return str
+      .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+      .replace(/[^a-zA-Z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .toLowerCase();
   }
 
   private static capitalizeFirst(str: string): string {
@@ -0,0 +1,455 @@
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import { v4 as uuidv4 } from 'uuid';
+import { ComponentNode } from './types';
+import { getComponentDefinition } from './component-registry';
+
+export interface JSXImportResult {
+  components: ComponentNode[];
+  // Markup kept as raw nodes, and why
+  warnings: string[];
+}
+
+// HTML elements with a registry counterpart
+const ELEMENT_TYPES: Record<string, string> = {
+  div: 'container',
+  section: 'container',
+  main: 'container',
+  header: 'container',
+  footer: 'container',
+  article: 'container',
+  aside: 'container',
+  form: 'form',
+  nav: 'navigation',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  p: 'text',
+  span: 'text',
+  button: 'button',
+  input: 'input',
+  textarea: 'textarea',
+  select: 'select',
+  img: 'image',
+  a: 'link',
+  hr: 'divider',
+  ul: 'list',
+  ol: 'list'
+};
+
+// Attributes an HTML element's registry type edits, besides className and style
+const ELEMENT_PROPS: Record<string, string[]> = {
+  button: ['disabled'],
+  input: ['type', 'placeholder', 'required', 'disabled', 'checked'],
+  textarea: ['placeholder', 'rows', 'required'],
+  select: ['required'],
+  img: ['src', 'alt'],
+  a: ['href', 'target'],
+  form: ['action', 'method']
+};
+
+// Style properties the builder edits; anything else in `style` stays as written
+const STYLE_PROPS = [
+  'display', 'flexDirection', 'gap', 'padding', 'margin', 'backgroundColor', 'borderRadius',
+  'color', 'fontSize', 'fontWeight', 'textAlign', 'lineHeight', 'width', 'height', 'objectFit'
+];
+
+// Types whose children are their text
+const TEXT_TYPES = ['heading', 'text', 'button', 'link', 'badge'];
+
+// Packages whose components are the builder's own
+const BUILDER_PACKAGES = ['revolutionary-ui', '@vladimirdukelic/revolutionary-ui', '@revolutionary/ui-factory'];
+
+interface ImportContext {
+  source: string;
+  warnings: string[];
+  // Local name of each component imported from a builder package, to its exported name
+  builderImports: Map<string, string>;
+}
+
+/**
+ * Parses a React component, or a bare JSX snippet, into builder nodes.
+ * Elements with a registry type become editable nodes. Anything else, and
+ * any element with a prop the builder can't edit, becomes a locked `raw`
+ * node holding its source; its element children are still imported.
+ */
+export function importJSX(code: string): JSXImportResult {
+  const parsed = parseSource(code);
+  const context: ImportContext = { source: parsed.source, warnings: [], builderImports: builderImports(parsed.ast) };
+  const root = findRoot(parsed.ast);
+
+  if (!root) {
+    throw new Error('No JSX found to import');
+  }
+
+  const components = t.isJSXFragment(root)
+    ? importChildren(root.children, context)
+    : [importElement(root, context)];
+  return { components, warnings: context.warnings };
+}
+
+// Sibling elements only parse inside a fragment
+function parseSource(code: string): { ast: t.File; source: string } {
+  const options = { sourceType: 'module' as const, plugins: ['jsx' as const, 'typescript' as const] };
+  try {
+    return { ast: parse(code, options), source: code };
+  } catch (error) {
+    const wrapped = `<>${code}</>`;
+    try {
+      return { ast: parse(wrapped, options), source: wrapped };
+    } catch {
+      throw error;
+    }
+  }
+}
+
+function builderImports(ast: t.File): Map<string, string> {
+  const imports = new Map<string, string>();
+  for (const statement of ast.program.body) {
+    if (!t.isImportDeclaration(statement)) continue;
+    const from = statement.source.value;
+    if (!BUILDER_PACKAGES.some(name => from === name || from.startsWith(`${name}/`))) continue;
+    for (const specifier of statement.specifiers) {
+      if (!t.isImportSpecifier(specifier)) continue;
+      const imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+      imports.set(specifier.local.name, imported);
+    }
+  }
+  return imports;
+}
+
+/**
+ * The JSX a component returns: the default export's, else the first
+ * capitalized function's, else the first JSX in the file
+ */
+function findRoot(ast: t.File): t.JSXElement | t.JSXFragment | null {
+  let exported: t.JSXElement | t.JSXFragment | null = null;
+  let component: t.JSXElement | t.JSXFragment | null = null;
+  let first: t.JSXElement | t.JSXFragment | null = null;
+
+  traverse(ast, {
+    'JSXElement|JSXFragment'(path: NodePath<t.JSXElement | t.JSXFragment>) {
+      first ??= path.node;
+      const owner = path.getFunctionParent();
+      if (!owner || !isReturned(path, owner)) return;
+
+      const name = functionName(owner);
+      if (owner.parentPath?.isExportDefaultDeclaration() || (name && isDefaultExport(ast, name))) {
+        exported ??= path.node;
+      }
+      if (name && /^[A-Z]/.test(name)) {
+        component ??= path.node;
+      }
+      path.skip();
+    }
+  });
+
+  return exported ?? component ?? first;
+}
+
+function isReturned(path: NodePath, owner: NodePath<t.Function>): boolean {
+  let current: NodePath | null = path;
+  while (current?.parentPath && (current.parentPath.isParenthesizedExpression() || current.parentPath.isTSAsExpression())) {
+    current = current.parentPath;
+  }
+  if (!current?.parentPath) return false;
+  return current.parentPath.isReturnStatement()
+    ? current.parentPath.getFunctionParent() === owner
+    : current.parentPath === owner;
+}
+
+// Name of a declared function, or of the variable an arrow, memo() or forwardRef() is assigned to
+function functionName(owner: NodePath<t.Function>): string | null {
+  if (t.isFunctionDeclaration(owner.node) && owner.node.id) {
+    return owner.node.id.name;
+  }
+  let current: NodePath | null = owner.parentPath;
+  while (current?.isCallExpression()) {
+    current = current.parentPath;
+  }
+  return current?.isVariableDeclarator() && t.isIdentifier(current.node.id) ? current.node.id.name : null;
+}
+
+function isDefaultExport(ast: t.File, name: string): boolean {
+  return ast.program.body.some(statement =>
+    t.isExportDefaultDeclaration(statement)
+    && t.isIdentifier(statement.declaration)
+    && statement.declaration.name === name
+  );
+}
+
+function importChildren(children: t.JSXElement['children'], context: ImportContext): ComponentNode[] {
+  return children.flatMap((child): ComponentNode[] => {
+    if (t.isJSXElement(child)) {
+      return [importElement(child, context)];
+    }
+    if (t.isJSXFragment(child)) {
+      return importChildren(child.children, context);
+    }
+    if (t.isJSXText(child)) {
+      const text = collapseWhitespace(child.value);
+      return text ? [rawNode('Text', { source: text }, [])] : [];
+    }
+    if (t.isJSXExpressionContainer(child) && t.isJSXEmptyExpression(child.expression)) {
+      return [];
+    }
+    return [rawNode('Expression', { source: sourceOf(child, context) }, [])];
+  });
+}
+
+function importElement(element: t.JSXElement, context: ImportContext): ComponentNode {
+  const tag = elementName(element.openingElement.name);
+  // Capitalized tags are the builder's only when imported from it; a same-named one of the user's stays theirs
+  const imported = context.builderImports.get(tag)?.toLowerCase();
+  const type = ELEMENT_TYPES[tag] ?? (imported && getComponentDefinition(imported) ? imported : null);
+
+  if (!type) {
+    context.warnings.push(/^[A-Z]/.test(tag) && !imported && getComponentDefinition(tag.toLowerCase())
+      ? `<${tag}> isn't imported from the builder and is kept as a custom element`
+      : `<${tag}> has no builder component and is kept as raw markup`);
+    return rawElement(element, tag, context);
+  }
+
+  const definition = getComponentDefinition(type)!;
+  // HTML elements edit their attributes; registry components edit their schema props
+  const editable = ELEMENT_TYPES[tag] ? ELEMENT_PROPS[tag] ?? [] : definition.propSchema.map(prop => prop.name);
+  const props: Record<string, any> = {};
+  const attributes: Record<string, any> = {};
+  const dynamic: string[] = [];
+
+  for (const attribute of element.openingElement.attributes) {
+    if (t.isJSXSpreadAttribute(attribute)) {
+      dynamic.push('spread props');
+      continue;
+    }
+    const name = t.isJSXIdentifier(attribute.name) ? attribute.name.name : `${attribute.name.namespace.name}:${attribute.name.name.name}`;
+    const value = staticValue(attribute.value);
+    if (name === 'key') continue;
+    if (value === undefined) {
+      dynamic.push(name);
+    } else if (name === 'style' && isPlainObject(value)) {
+      for (const [property, style] of Object.entries(value)) {
+        if (STYLE_PROPS.includes(property)) props[property] = style;
+        else (props.style ??= {})[property] = style;
+      }
+    } else if (name === 'className' || name === 'class') {
+      // Both may be set; their classes merge once
+      props.className = mergeClasses(props.className, `${value}`);
+    } else if (editable.includes(name)) {
+      props[name] = value;
+    } else {
+      attributes[name] = value;
+    }
+  }
+
+  if (dynamic.length > 0) {
+    context.warnings.push(`<${tag}> sets ${dynamic.join(', ')} from code and is kept as raw markup`);
+    return rawElement(element, tag, context);
+  }
+
+  // Registry components start from their defaults like palette ones;
+  // HTML elements only carry what they set
+  const node: ComponentNode = {
+    id: uuidv4(),
+    type,
+    name: definition.name,
+    props: ELEMENT_TYPES[tag] ? props : { ...definition.defaultProps, ...props },
+    children: []
+  };
+  if (Object.keys(attributes).length > 0) {
+    node.props.attributes = attributes;
+  }
+
+  if (TEXT_TYPES.includes(type)) {
+    const text = staticText(element.children);
+    if (text === null) {
+      context.warnings.push(`<${tag}> has dynamic content and is kept as raw markup`);
+      return rawElement(element, tag, context);
+    }
+    node.props.text = text;
+    if (type === 'heading' && /^h[1-6]$/.test(tag)) node.props.level = Number(tag[1]);
+    return node;
+  }
+
+  if (type === 'list' || type === 'select') {
+    const items = itemTexts(element, type === 'list' ? 'li' : 'option');
+    if (items === null) {
+      context.warnings.push(`<${tag}> has items the builder can't edit and is kept as raw markup`);
+      return rawElement(element, tag, context);
+    }
+    node.props[type === 'list' ? 'items' : 'options'] = items;
+    if (type === 'list') node.props.ordered = tag === 'ol';
+    return node;
+  }
+
+  if (type === 'input' && props.type === 'checkbox') {
+    const { type: _type, ...checkbox } = props;
+    return { ...node, type: 'checkbox', name: 'Checkbox', props: checkbox };
+  }
+
+  if (type === 'container') {
+    applyLayoutClasses(node);
+  }
+
+  if (definition.acceptsChildren) {
+    node.children = importChildren(element.children, context);
+  }
+  return node;
+}
+
+/**
+ * `display: grid` and Tailwind grid classes make a container a grid;
+ * mobile-first `grid-cols-*` classes become the desktop columns with
+ * tablet and mobile overrides
+ */
+function applyLayoutClasses(node: ComponentNode): void {
+  const classes: string[] = typeof node.props.className === 'string' ? node.props.className.split(/\s+/).filter(Boolean) : [];
+  const columns: Record<string, number> = {};
+  const rest = classes.filter(name => {
+    const match = name.match(/^(?:(md|lg):)?grid-cols-(\d+)$/);
+    if (match) {
+      columns[match[1] ?? 'base'] = Number(match[2]);
+      return false;
+    }
+    if (name === 'grid') {
+      node.props.display = 'grid';
+      return false;
+    }
+    if (name === 'flex') {
+      node.props.display = 'flex';
+      return false;
+    }
+    if (name === 'flex-col') {
+      node.props.flexDirection = 'column';
+      return false;
+    }
+    return true;
+  });
+
+  if (rest.length > 0) node.props.className = rest.join(' ');
+  else delete node.props.className;
+
+  if (node.props.display !== 'grid' && Object.keys(columns).length === 0) return;
+
+  const { gridTemplateColumns, ...style } = node.props.style ?? {};
+  const template = typeof gridTemplateColumns === 'string' ? gridTemplateColumns.match(/^repeat\((\d+),/) : null;
+  if (template) {
+    if (Object.keys(style).length > 0) node.props.style = style;
+    else delete node.props.style;
+  }
+
+  // Without a column count a grid has a single column
+  const mobile = columns.base ?? (template ? Number(template[1]) : 1);
+  const tablet = columns.md ?? mobile;
+  const desktop = columns.lg ?? tablet;
+  const { display: _display, flexDirection: _direction, ...props } = node.props;
+  node.type = 'grid';
+  node.name = 'Grid';
+  node.props = { ...props, columns: desktop };
+  if (tablet !== desktop) (node.responsive ??= {}).tablet = { columns: tablet };
+  if (mobile !== tablet) (node.responsive ??= {}).mobile = { columns: mobile };
+}
+
+// Locked node that prints its opening tag as written around its imported children
+function rawElement(element: t.JSXElement, tag: string, context: ImportContext): ComponentNode {
+  const attributes = element.openingElement.attributes.map(attribute => sourceOf(attribute, context)).join(' ');
+  return rawNode(
+    tag,
+    { tag, attributes, selfClosing: element.openingElement.selfClosing },
+    importChildren(element.children, context)
+  );
+}
+
+function rawNode(name: string, props: Record<string, any>, children: ComponentNode[]): ComponentNode {
+  return { id: uuidv4(), type: 'raw', name, props, children, locked: true };
+}
+
+function elementName(name: t.JSXOpeningElement['name']): string {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXNamespacedName(name)) return `${name.namespace.name}:${name.name.name}`;
+  return `${elementName(name.object)}.${name.property.name}`;
+}
+
+// Literal attribute values; undefined when the value is computed
+function staticValue(value: t.JSXAttribute['value']): any {
+  if (value === null || value === undefined) return true;
+  if (t.isStringLiteral(value)) return value.value;
+  if (t.isJSXExpressionContainer(value) && !t.isJSXEmptyExpression(value.expression)) {
+    return literal(value.expression);
+  }
+  return undefined;
+}
+
+function literal(expression: t.Expression): any {
+  if (t.isStringLiteral(expression) || t.isNumericLiteral(expression) || t.isBooleanLiteral(expression)) {
+    return expression.value;
+  }
+  if (t.isTemplateLiteral(expression) && expression.expressions.length === 0) {
+    return expression.quasis[0].value.cooked;
+  }
+  if (t.isUnaryExpression(expression) && expression.operator === '-' && t.isNumericLiteral(expression.argument)) {
+    return -expression.argument.value;
+  }
+  if (t.isObjectExpression(expression)) {
+    const object: Record<string, any> = {};
+    for (const property of expression.properties) {
+      if (!t.isObjectProperty(property) || property.computed) return undefined;
+      const key = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : null;
+      const value = t.isExpression(property.value) ? literal(property.value) : undefined;
+      if (key === null || value === undefined) return undefined;
+      // React adds px to bare numbers
+      object[key] = typeof value === 'number' && key !== 'fontWeight' && key !== 'lineHeight' ? `${value}px` : value;
+    }
+    return object;
+  }
+  return undefined;
+}
+
+// Text children as one string; null when they hold anything but text
+function staticText(children: t.JSXElement['children']): string | null {
+  let text = '';
+  for (const child of children) {
+    if (t.isJSXText(child)) {
+      text += child.value;
+    } else if (t.isJSXExpressionContainer(child) && (t.isStringLiteral(child.expression) || t.isTemplateLiteral(child.expression))) {
+      const value = literal(child.expression);
+      if (value === undefined) return null;
+      text += value;
+    } else if (!(t.isJSXExpressionContainer(child) && t.isJSXEmptyExpression(child.expression))) {
+      return null;
+    }
+  }
+  return collapseWhitespace(text);
+}
+
+function itemTexts(element: t.JSXElement, itemTag: string): string[] | null {
+  const items: string[] = [];
+  for (const child of element.children) {
+    if (t.isJSXText(child) && !child.value.trim()) continue;
+    if (!t.isJSXElement(child) || elementName(child.openingElement.name) !== itemTag) return null;
+    const text = staticText(child.children);
+    if (text === null) return null;
+    items.push(text);
+  }
+  return items;
+}
+
+function mergeClasses(...lists: Array<string | undefined>): string {
+  return [...new Set(lists.flatMap(list => list?.split(/\s+/) ?? []).filter(Boolean))].join(' ');
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function sourceOf(node: t.Node, context: ImportContext): string {
+  return context.source.slice(node.start!, node.end!);
+}
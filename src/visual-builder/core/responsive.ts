@@ -0,0 +1,92 @@
+import { Breakpoint, ComponentNode } from './types';
+
+export interface BreakpointDefinition {
+  id: Breakpoint;
+  label: string;
+  // Narrowest viewport the breakpoint applies to
+  minWidth: number;
+  // Tailwind variant for the breakpoint; the narrowest one is unprefixed
+  prefix?: string;
+}
+
+/**
+ * Breakpoints from widest to narrowest. `props` holds the desktop values;
+ * each narrower breakpoint inherits from the one above it unless it
+ * overrides a prop in `responsive`.
+ */
+export const BREAKPOINTS: BreakpointDefinition[] = [
+  { id: 'desktop', label: 'Desktop', minWidth: 1024, prefix: 'lg' },
+  { id: 'tablet', label: 'Tablet', minWidth: 768, prefix: 'md' },
+  { id: 'mobile', label: 'Mobile', minWidth: 0 }
+];
+
+export function getBreakpoint(id: Breakpoint): BreakpointDefinition {
+  return BREAKPOINTS.find(breakpoint => breakpoint.id === id)!;
+}
+
+// The breakpoints whose values apply at `breakpoint`, widest first
+function cascade(breakpoint: Breakpoint): Breakpoint[] {
+  const index = BREAKPOINTS.findIndex(entry => entry.id === breakpoint);
+  return BREAKPOINTS.slice(0, index + 1).map(entry => entry.id);
+}
+
+/**
+ * Props of a node as they apply at a breakpoint
+ */
+export function resolveProps(node: ComponentNode, breakpoint: Breakpoint = 'desktop'): Record<string, any> {
+  return cascade(breakpoint).reduce(
+    (props, id) => ({ ...props, ...(id === 'desktop' ? {} : node.responsive?.[id]) }),
+    node.props
+  );
+}
+
+/**
+ * The breakpoint a prop's value comes from at `breakpoint`: itself when it
+ * overrides the prop, otherwise the nearest wider breakpoint that sets it
+ */
+export function propSource(node: ComponentNode, breakpoint: Breakpoint, name: string): Breakpoint {
+  const sources = cascade(breakpoint).reverse();
+  return sources.find(id => id !== 'desktop' && node.responsive?.[id] && name in node.responsive[id]!) ?? 'desktop';
+}
+
+export function hasResponsiveOverrides(node: ComponentNode): boolean {
+  return Object.values(node.responsive ?? {}).some(overrides => Object.keys(overrides ?? {}).length > 0);
+}
+
+/**
+ * Updates that set a prop at a breakpoint; desktop values go to `props`
+ */
+export function setBreakpointProp(
+  node: ComponentNode,
+  breakpoint: Breakpoint,
+  name: string,
+  value: any
+): Partial<ComponentNode> {
+  if (breakpoint === 'desktop') {
+    return { props: { ...node.props, [name]: value } };
+  }
+  return {
+    responsive: {
+      ...node.responsive,
+      [breakpoint]: { ...node.responsive?.[breakpoint], [name]: value }
+    }
+  };
+}
+
+/**
+ * Updates that drop a breakpoint's override so the prop inherits again
+ */
+export function clearBreakpointProp(
+  node: ComponentNode,
+  breakpoint: Breakpoint,
+  name: string
+): Partial<ComponentNode> {
+  const { [name]: _removed, ...overrides } = node.responsive?.[breakpoint] ?? {};
+  const responsive = { ...node.responsive };
+  if (Object.keys(overrides).length > 0) {
+    responsive[breakpoint] = overrides;
+  } else {
+    delete responsive[breakpoint];
+  }
+  return { responsive };
+}
@@ -0,0 +1,160 @@
+import { parseExpression } from '@babel/parser';
+import * as t from '@babel/types';
+import { ComponentAction, ComponentNode, StateVariable } from './types';
+
+// Actions that change a state variable rather than run code
+export const STATE_ACTIONS = ['set', 'toggle', 'increment'];
+
+export function isStateAction(action: ComponentAction | undefined): action is ComponentAction & { variable: string } {
+  return !!action && STATE_ACTIONS.includes(action.type) && !!action.variable;
+}
+
+export function initialValues(variables: StateVariable[]): Record<string, any> {
+  return Object.fromEntries(variables.map(variable => [variable.name, variable.initialValue]));
+}
+
+/**
+ * Evaluates a binding against the current state. Expressions are plain
+ * JavaScript over the variable names; one that fails evaluates to undefined.
+ */
+export function evaluateExpression(expression: string, values: Record<string, any>): any {
+  const names = Object.keys(values);
+  try {
+    // eslint-disable-next-line no-new-func
+    return new Function(...names, `return (${expression});`)(...names.map(name => values[name]));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * State after a component runs a state action, or null for other actions
+ */
+export function runStateAction(action: ComponentAction | undefined, values: Record<string, any>): Record<string, any> | null {
+  if (!isStateAction(action)) return null;
+  const current = values[action.variable];
+
+  switch (action.type) {
+    case 'set':
+      return { ...values, [action.variable]: evaluateExpression(action.value ?? 'undefined', values) };
+    case 'toggle':
+      return { ...values, [action.variable]: !current };
+    case 'increment':
+      return { ...values, [action.variable]: Number(current) + Number(action.value || 1) };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Props of a node with its bindings evaluated; `visible` and `model` aren't props
+ */
+export function resolveBindings(node: ComponentNode, props: Record<string, any>, values: Record<string, any>): Record<string, any> {
+  const bound = Object.entries(node.bindings ?? {}).filter(([name]) => name !== 'visible' && name !== 'model');
+  if (bound.length === 0) return props;
+  return {
+    ...props,
+    ...Object.fromEntries(bound.map(([name, expression]) => [name, evaluateExpression(expression, values)]))
+  };
+}
+
+export function isVisible(node: ComponentNode, values: Record<string, any>): boolean {
+  const condition = node.bindings?.visible;
+  return !condition || !!evaluateExpression(condition, values);
+}
+
+// References to the named variables, or null when the expression doesn't parse
+function variableReferences(expression: string, names: string[]): t.Identifier[] | null {
+  let ast: t.Node;
+  try {
+    ast = parseExpression(expression);
+  } catch {
+    return null;
+  }
+
+  const references: t.Identifier[] = [];
+  const visit = (node: t.Node, parent?: t.Node, grandparent?: t.Node) => {
+    if (t.isIdentifier(node) && names.includes(node.name) && (!parent || t.isReferenced(node, parent, grandparent))) {
+      references.push(node);
+    }
+    for (const key of t.VISITOR_KEYS[node.type] ?? []) {
+      const value = (node as any)[key];
+      for (const child of Array.isArray(value) ? value : [value]) {
+        if (child && typeof child.type === 'string') visit(child, node, parent);
+      }
+    }
+  };
+  visit(ast);
+  return references;
+}
+
+/**
+ * Replaces each reference to a state variable in an expression, leaving
+ * property names, object keys and strings alone. An expression that doesn't
+ * parse is returned unchanged.
+ */
+export function rewriteExpression(expression: string, names: string[], replace: (name: string) => string): string {
+  const references = variableReferences(expression, names);
+  if (!references) return expression;
+
+  // From the end, so earlier offsets stay valid
+  return references
+    .sort((a, b) => b.start! - a.start!)
+    .reduce((result, node) => result.slice(0, node.start!) + replace(node.name) + result.slice(node.end!), expression);
+}
+
+/**
+ * The tree with a renamed variable's bindings and actions updated
+ */
+export function renameVariable(nodes: ComponentNode[], from: string, to: string): ComponentNode[] {
+  const rename = (expression: string) => rewriteExpression(expression, [from], () => to);
+
+  return nodes.map(node => {
+    const bindings = node.bindings && Object.fromEntries(
+      Object.entries(node.bindings).map(([name, expression]) => [name, name === 'model' && expression === from ? to : rename(expression)])
+    );
+    const action: ComponentAction | undefined = node.props.onClick;
+    const onClick = isStateAction(action)
+      ? { ...action, variable: action.variable === from ? to : action.variable, value: action.value && rename(action.value) }
+      : action;
+
+    return {
+      ...node,
+      props: onClick === action ? node.props : { ...node.props, onClick },
+      ...(bindings && { bindings }),
+      children: renameVariable(node.children, from, to)
+    };
+  });
+}
+
+/**
+ * The tree without the bindings and actions that use a deleted variable;
+ * bound props fall back to their own values
+ */
+export function removeVariable(nodes: ComponentNode[], name: string): ComponentNode[] {
+  const uses = (expression: string | undefined) => !!expression && !!variableReferences(expression, [name])?.length;
+
+  return nodes.map(node => {
+    const bindings = node.bindings && Object.fromEntries(
+      Object.entries(node.bindings).filter(([, expression]) => !uses(expression))
+    );
+    const action: ComponentAction | undefined = node.props.onClick;
+    const removed = isStateAction(action) && (action.variable === name || uses(action.value));
+    const { onClick: _onClick, ...props } = node.props;
+
+    return {
+      ...node,
+      props: removed ? props : node.props,
+      ...(bindings && { bindings }),
+      children: removeVariable(node.children, name)
+    };
+  });
+}
+
+/**
+ * Updates that bind a prop to an expression, or unbind it when null
+ */
+export function setBinding(node: ComponentNode, name: string, expression: string | null): Partial<ComponentNode> {
+  const { [name]: _removed, ...bindings } = node.bindings ?? {};
+  return { bindings: expression === null ? bindings : { ...bindings, [name]: expression } };
+}
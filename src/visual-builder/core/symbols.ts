@@ -0,0 +1,112 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BuilderSymbol, ComponentNode } from './types';
+
+/**
+ * A new instance of a symbol. Instances have no props or children of their
+ * own; they render the master with their overrides.
+ */
+export function instanceOf(symbol: BuilderSymbol): ComponentNode {
+  return {
+    id: uuidv4(),
+    type: 'symbol',
+    name: symbol.name,
+    props: {},
+    symbolId: symbol.id,
+    children: []
+  };
+}
+
+export function findSymbol(symbols: BuilderSymbol[], node: ComponentNode): BuilderSymbol | undefined {
+  return node.type === 'symbol' ? symbols.find(symbol => symbol.id === node.symbolId) : undefined;
+}
+
+/**
+ * The master of an instance with its overrides applied. The root takes the
+ * instance's id and name, so it selects as the instance; null when the
+ * symbol no longer exists.
+ */
+export function resolveInstance(node: ComponentNode, symbols: BuilderSymbol[]): ComponentNode | null {
+  const symbol = findSymbol(symbols, node);
+  if (!symbol) return null;
+
+  const overrides = node.overrides ?? {};
+  const apply = (master: ComponentNode): ComponentNode => ({
+    ...master,
+    props: overrides[master.id] ? { ...master.props, ...overrides[master.id] } : master.props,
+    children: master.children.map(apply)
+  });
+  return { ...apply(symbol.master), id: node.id, name: node.name };
+}
+
+/**
+ * An instance turned back into plain components, with new ids
+ */
+export function detachInstance(node: ComponentNode, symbols: BuilderSymbol[]): ComponentNode | null {
+  const resolved = resolveInstance(node, symbols);
+  if (!resolved) return null;
+
+  const copy = (component: ComponentNode): ComponentNode => ({
+    ...component,
+    id: uuidv4(),
+    children: component.children.map(copy)
+  });
+  return copy(resolved);
+}
+
+/**
+ * The tree with every instance of a symbol detached
+ */
+export function detachSymbol(nodes: ComponentNode[], symbolId: string, symbols: BuilderSymbol[]): ComponentNode[] {
+  return nodes.map(node => {
+    if (node.type === 'symbol' && node.symbolId === symbolId) {
+      return detachInstance(node, symbols) ?? node;
+    }
+    return { ...node, children: detachSymbol(node.children, symbolId, symbols) };
+  });
+}
+
+/**
+ * Nodes of a master an instance can override, in tree order. Nested
+ * instances are overridden in their own symbol.
+ */
+export function masterNodes(symbol: BuilderSymbol): ComponentNode[] {
+  const collect = (node: ComponentNode): ComponentNode[] =>
+    node.type === 'symbol' ? [] : [node, ...node.children.flatMap(collect)];
+  return collect(symbol.master);
+}
+
+/**
+ * Updates that override a prop of a master node, or reset it when undefined
+ */
+export function setOverride(node: ComponentNode, masterId: string, prop: string, value: any): Partial<ComponentNode> {
+  const { [masterId]: current = {}, ...others } = node.overrides ?? {};
+  const { [prop]: _removed, ...rest } = current;
+  const props = value === undefined ? rest : { ...rest, [prop]: value };
+  return { overrides: Object.keys(props).length > 0 ? { ...others, [masterId]: props } : others };
+}
+
+/**
+ * Symbols the nodes place, including those placed by their masters, each once
+ */
+export function usedSymbols(nodes: ComponentNode[], symbols: BuilderSymbol[]): BuilderSymbol[] {
+  const used: BuilderSymbol[] = [];
+  const visit = (node: ComponentNode) => {
+    const symbol = findSymbol(symbols, node);
+    if (symbol && !used.includes(symbol)) {
+      used.push(symbol);
+      visit(symbol.master);
+    }
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return used;
+}
+
+/**
+ * Whether placing a symbol inside a master would place the master in
+ * itself, directly or through other symbols
+ */
+export function placesSymbol(symbols: BuilderSymbol[], symbolId: string, target: string): boolean {
+  const symbol = symbols.find(entry => entry.id === symbolId);
+  return symbolId === target || (!!symbol && usedSymbols([symbol.master], symbols).some(used => used.id === target));
+}
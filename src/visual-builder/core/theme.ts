@@ -0,0 +1,175 @@
+import { ComponentNode, PropSchema, ThemeTokens, TokenGroup } from './types';
+
+export type ThemeMode = 'light' | 'dark';
+
+export const DEFAULT_THEME: ThemeTokens = {
+  colors: {
+    primary: { light: '#7c3aed', dark: '#a78bfa' },
+    secondary: { light: '#e5e7eb', dark: '#374151' },
+    background: { light: '#ffffff', dark: '#111827' },
+    surface: { light: '#f3f4f6', dark: '#1f2937' },
+    text: { light: '#111827', dark: '#f9fafb' },
+    muted: { light: '#6b7280', dark: '#9ca3af' }
+  },
+  spacing: { xs: '4px', sm: '8px', md: '16px', lg: '24px', xl: '32px' },
+  radii: { sm: '4px', md: '8px', lg: '16px', full: '9999px' },
+  fonts: {
+    body: 'Inter, system-ui, sans-serif',
+    heading: 'Inter, system-ui, sans-serif',
+    mono: 'ui-monospace, monospace'
+  },
+  fontSizes: { sm: '14px', base: '16px', lg: '20px', xl: '24px', '2xl': '32px' }
+};
+
+// Each group with the prefix of its CSS variables and its key in a Tailwind theme
+export const TOKEN_GROUPS: Array<{ group: TokenGroup; label: string; variable: string; tailwind: string }> = [
+  { group: 'colors', label: 'Colors', variable: 'color', tailwind: 'colors' },
+  { group: 'spacing', label: 'Spacing', variable: 'spacing', tailwind: 'spacing' },
+  { group: 'radii', label: 'Radii', variable: 'radius', tailwind: 'borderRadius' },
+  { group: 'fonts', label: 'Fonts', variable: 'font', tailwind: 'fontFamily' },
+  { group: 'fontSizes', label: 'Font Sizes', variable: 'font-size', tailwind: 'fontSize' }
+];
+
+const TYPE_TOKENS: Partial<Record<PropSchema['type'], TokenGroup>> = {
+  color: 'colors',
+  spacing: 'spacing',
+  font: 'fonts'
+};
+
+const REFERENCE = /^\{(colors|spacing|radii|fonts|fontSizes)\.([\w-]+)\}$/;
+
+// Names become CSS variables and Tailwind classes
+export function isTokenName(name: string): boolean {
+  return /^[A-Za-z0-9][\w-]*$/.test(name);
+}
+
+export function tokenRef(group: TokenGroup, name: string): string {
+  return `{${group}.${name}}`;
+}
+
+export function parseTokenRef(value: unknown): { group: TokenGroup; name: string } | null {
+  const match = typeof value === 'string' ? REFERENCE.exec(value) : null;
+  return match ? { group: match[1] as TokenGroup, name: match[2] } : null;
+}
+
+export function tokenVariable(group: TokenGroup, name: string): string {
+  const { variable } = TOKEN_GROUPS.find(entry => entry.group === group)!;
+  return `--${variable}-${name}`;
+}
+
+export function tokenGroup(schema: PropSchema): TokenGroup | undefined {
+  return schema.tokens ?? TYPE_TOKENS[schema.type];
+}
+
+/**
+ * A token's value in a mode, undefined when the theme doesn't have it.
+ * Colors without a dark value keep their light one.
+ */
+export function tokenValue(theme: ThemeTokens, group: TokenGroup, name: string, mode: ThemeMode = 'light'): string | undefined {
+  if (group === 'colors') {
+    const color = theme.colors[name];
+    return color && (mode === 'dark' ? color.dark ?? color.light : color.light);
+  }
+  return theme[group][name];
+}
+
+/**
+ * Props with each token reference as its CSS variable, which the canvas
+ * and the exported stylesheet define
+ */
+export function resolveTokens(props: Record<string, any>): Record<string, any> {
+  let resolved = props;
+  for (const [name, value] of Object.entries(props)) {
+    const token = parseTokenRef(value);
+    if (token) {
+      if (resolved === props) resolved = { ...props };
+      resolved[name] = `var(${tokenVariable(token.group, token.name)})`;
+    }
+  }
+  return resolved;
+}
+
+// Every token as a CSS variable, with its value in a mode
+export function themeVariables(theme: ThemeTokens, mode: ThemeMode = 'light'): Record<string, string> {
+  return Object.fromEntries(
+    TOKEN_GROUPS.flatMap(({ group }) =>
+      Object.keys(theme[group]).map(name => [tokenVariable(group, name), tokenValue(theme, group, name, mode)!])
+    )
+  );
+}
+
+/**
+ * The variables on `:root`, and the dark colors under a `dark` class on an
+ * ancestor, as Tailwind's class strategy sets it
+ */
+export function themeStylesheet(theme: ThemeTokens): string {
+  const block = (selector: string, variables: Record<string, string>) =>
+    `${selector} {\n${Object.entries(variables).map(([name, value]) => `  ${name}: ${value};`).join('\n')}\n}\n`;
+
+  const dark = Object.entries(theme.colors)
+    .filter(([, color]) => color.dark && color.dark !== color.light)
+    .map(([name, color]) => [tokenVariable('colors', name), color.dark!]);
+
+  return block(':root', themeVariables(theme)) + (dark.length > 0 ? `\n${block('.dark', Object.fromEntries(dark))}` : '');
+}
+
+/**
+ * Tailwind `theme.extend` with a utility for each token, set to its variable
+ * so dark mode and theme changes need no rebuild
+ */
+export function tailwindThemeExtension(theme: ThemeTokens): Record<string, Record<string, string>> {
+  return Object.fromEntries(
+    TOKEN_GROUPS
+      .filter(({ group }) => Object.keys(theme[group]).length > 0)
+      .map(({ group, tailwind }) => [
+        tailwind,
+        Object.fromEntries(Object.keys(theme[group]).map(name => [name, `var(${tokenVariable(group, name)})`]))
+      ])
+  );
+}
+
+/**
+ * Whether any node, or any instance override, refers to a token
+ */
+export function usesTokens(nodes: ComponentNode[]): boolean {
+  const values = (node: ComponentNode) => [
+    ...Object.values(node.props),
+    ...Object.values(node.responsive ?? {}).flatMap(overrides => Object.values(overrides ?? {})),
+    ...Object.values(node.overrides ?? {}).flatMap(overrides => Object.values(overrides))
+  ];
+  return nodes.some(node => values(node).some(value => parseTokenRef(value)) || usesTokens(node.children));
+}
+
+/**
+ * The tree with references to a renamed token updated
+ */
+export function renameTokenReferences(nodes: ComponentNode[], group: TokenGroup, from: string, to: string): ComponentNode[] {
+  return mapReferences(nodes, group, from, tokenRef(group, to));
+}
+
+/**
+ * The tree with references to a token replaced by its light value, so
+ * nodes look the same once it is deleted
+ */
+export function inlineToken(nodes: ComponentNode[], theme: ThemeTokens, group: TokenGroup, name: string): ComponentNode[] {
+  const value = tokenValue(theme, group, name);
+  return value === undefined ? nodes : mapReferences(nodes, group, name, value);
+}
+
+function mapReferences(nodes: ComponentNode[], group: TokenGroup, name: string, replacement: string): ComponentNode[] {
+  const reference = tokenRef(group, name);
+  const replace = (values: Record<string, any>) =>
+    Object.values(values).includes(reference)
+      ? Object.fromEntries(Object.entries(values).map(([prop, value]) => [prop, value === reference ? replacement : value]))
+      : values;
+  const replaceAll = <T extends Record<string, Record<string, any> | undefined>>(groups: T): T =>
+    Object.fromEntries(Object.entries(groups).map(([key, values]) => [key, values && replace(values)])) as T;
+
+  return nodes.map(node => ({
+    ...node,
+    props: replace(node.props),
+    ...(node.responsive && { responsive: replaceAll(node.responsive) }),
+    ...(node.overrides && { overrides: replaceAll(node.overrides) }),
+    children: mapReferences(node.children, group, name, replacement)
+  }));
+}
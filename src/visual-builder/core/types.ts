@@ -17,6 +17,16 @@ export interface ComponentNode {
   type: string;
   name: string;
   props: Record<string, any>;
+  // Props overridden below desktop, keyed by breakpoint; `props` holds the desktop values
+  responsive?: Partial<Record<Breakpoint, Record<string, any>>>;
+  // State expressions props are bound to, keyed by prop name. `visible`
+  // renders the node conditionally; `model` names the variable a form
+  // field reads and writes
+  bindings?: Record<string, string>;
+  // For a symbol instance: the symbol it places, and the props it sets
+  // differently from the master, keyed by the id of the master node
+  symbolId?: string;
+  overrides?: Record<string, Record<string, any>>;
   children: ComponentNode[];
   position?: Position;
   size?: Size;
@@ -25,17 +35,82 @@ export interface ComponentNode {
   selected?: boolean;
 }
 
+export type Breakpoint = 'desktop' | 'tablet' | 'mobile';
+
+// Page-level value that actions change and props bind to
+export interface StateVariable {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+  initialValue: string | number | boolean;
+}
+
+// Items a repeater renders its children for
+export interface DataSource {
+  // Identifier the exported code declares the items as
+  name: string;
+  kind: 'static' | 'rest' | 'schema';
+  // Items of a static source, or the mock response of a REST endpoint
+  items?: Record<string, any>[];
+  // Endpoint the exported code fetches
+  url?: string;
+  // Fields of generated items and what to fill them with
+  schema?: Record<string, DataFieldType>;
+  count?: number;
+}
+
+export type DataFieldType = 'string' | 'number' | 'boolean' | 'name' | 'email' | 'image' | 'date' | 'price' | 'paragraph';
+
+// A subtree kept once in the project and placed as linked instances
+export interface BuilderSymbol {
+  id: string;
+  name: string;
+  master: ComponentNode;
+}
+
+// Project-level design values that props refer to as `{group.name}`, so
+// changing one restyles every node that uses it
+export interface ThemeTokens {
+  colors: Record<string, ColorToken>;
+  spacing: Record<string, string>;
+  radii: Record<string, string>;
+  fonts: Record<string, string>;
+  fontSizes: Record<string, string>;
+}
+
+// A color in light mode, and in dark mode when it differs
+export interface ColorToken {
+  light: string;
+  dark?: string;
+}
+
+export type TokenGroup = keyof ThemeTokens;
+
+// Where selected components sit across their parent's direction
+export type Alignment = 'start' | 'center' | 'end' | 'stretch';
+
+// What a component does when clicked. `value` is the URL, message or code
+// to run; for `set` the expression the variable gets, for `increment` the step.
+export interface ComponentAction {
+  type: 'navigate' | 'alert' | 'console' | 'custom' | 'set' | 'toggle' | 'increment';
+  value?: string;
+  variable?: string;
+}
+
 export interface DragItem {
   id: string;
   type: string;
   sourceIndex?: number;
   parentId?: string;
   isNew?: boolean;
+  // Symbol a new instance places
+  symbolId?: string;
 }
 
 export interface DropZone {
   id: string;
   parentId: string;
+  // Type the parent nests as; unset on the page
+  parentType?: string;
   index: number;
   rect: DOMRect;
 }
@@ -51,6 +126,7 @@ export interface ComponentDefinition {
   acceptsChildren: boolean;
   childTypes?: string[]; // Allowed child component types
   parentTypes?: string[]; // Allowed parent component types
+  hidden?: boolean; // Created by imports only, so left out of the palette
 }
 
 export interface PropSchema {
@@ -67,6 +143,8 @@ export interface PropSchema {
   helperText?: string;
   category?: string;
   condition?: (props: Record<string, any>) => boolean;
+  // Tokens the editor offers, when not those of the prop's type
+  tokens?: TokenGroup;
 }
 
 export type PropType = 
@@ -77,15 +155,20 @@ export type PropType =
   | 'multiselect'
   | 'color'
   | 'spacing'
+  | 'font'
   | 'icon'
   | 'image'
   | 'action'
   | 'style'
-  | 'slot';
+  | 'slot'
+  | 'dataSource';
 
 export interface BuilderState {
   components: ComponentNode[];
+  // Most recently selected node of the selection
   selectedComponentId: string | null;
+  // Every selected node, in the order they were selected
+  selectedComponentIds: string[];
   hoveredComponentId: string | null;
   draggedItem: DragItem | null;
   dropZones: DropZone[];
@@ -95,12 +178,36 @@ export interface BuilderState {
     future: ComponentNode[][];
   };
   settings: BuilderSettings;
+  variables: StateVariable[];
+  dataSources: DataSource[];
+  symbols: BuilderSymbol[];
+  theme: ThemeTokens;
+  // While a symbol's master is open on the canvas: the page it replaced
+  editingSymbol: { id: string; components: ComponentNode[]; history: BuilderState['history'] } | null;
+  // Project the canvas belongs to, null until it is first saved or opened
+  project: ProjectSummary | null;
+}
+
+export interface BuilderProject {
+  id: string;
+  name: string;
+  components: ComponentNode[];
+  history: BuilderState['history'];
+  // Missing in projects saved before state variables existed
+  variables?: StateVariable[];
+  dataSources?: DataSource[];
+  symbols?: BuilderSymbol[];
+  theme?: ThemeTokens;
+  createdAt: number;
+  updatedAt: number;
 }
 
+export type ProjectSummary = Pick<BuilderProject, 'id' | 'name' | 'createdAt' | 'updatedAt'>;
+
 export interface BuilderSettings {
   framework: string;
   styling: string;
-  devicePreview: 'desktop' | 'tablet' | 'mobile';
+  devicePreview: Breakpoint;
   showGrid: boolean;
   gridSize: number;
   snapToGrid: boolean;
@@ -109,12 +216,26 @@ export interface BuilderSettings {
 }
 
 export interface ExportOptions {
-  format: 'factory' | 'code' | 'json';
+  format: 'factory' | 'code' | 'json' | 'zip';
+  // react, vue, svelte, angular or solid
   framework: string;
+  // tailwind, css, css-modules or styled-components
   styling: string;
   typescript: boolean;
   prettier: boolean;
   includeImports: boolean;
+  // Page state and data the exported component declares
+  variables?: StateVariable[];
+  dataSources?: DataSource[];
+  // Symbols the components place, exported as shared components
+  symbols?: BuilderSymbol[];
+  // Tokens the components use, exported as CSS variables
+  theme?: ThemeTokens;
+}
+
+export interface ExportedFile {
+  path: string;
+  content: string;
 }
 
 export interface BuilderAction {
@@ -129,9 +250,21 @@ export enum BuilderActionType {
   DELETE_COMPONENT = 'DELETE_COMPONENT',
   MOVE_COMPONENT = 'MOVE_COMPONENT',
   DUPLICATE_COMPONENT = 'DUPLICATE_COMPONENT',
+
+  // Actions on every selected component
+  UPDATE_COMPONENTS = 'UPDATE_COMPONENTS',
+  DELETE_COMPONENTS = 'DELETE_COMPONENTS',
+  MOVE_COMPONENTS = 'MOVE_COMPONENTS',
+  DUPLICATE_COMPONENTS = 'DUPLICATE_COMPONENTS',
+  GROUP_COMPONENTS = 'GROUP_COMPONENTS',
+  UNGROUP_COMPONENT = 'UNGROUP_COMPONENT',
+  ALIGN_COMPONENTS = 'ALIGN_COMPONENTS',
+  DISTRIBUTE_COMPONENTS = 'DISTRIBUTE_COMPONENTS',
+  PASTE_COMPONENTS = 'PASTE_COMPONENTS',
   
   // Selection actions
   SELECT_COMPONENT = 'SELECT_COMPONENT',
+  SELECT_COMPONENTS = 'SELECT_COMPONENTS',
   CLEAR_SELECTION = 'CLEAR_SELECTION',
   HOVER_COMPONENT = 'HOVER_COMPONENT',
   
@@ -150,7 +283,33 @@ export enum BuilderActionType {
   // Bulk actions
   LOAD_TEMPLATE = 'LOAD_TEMPLATE',
   CLEAR_CANVAS = 'CLEAR_CANVAS',
-  IMPORT_COMPONENTS = 'IMPORT_COMPONENTS'
+  IMPORT_COMPONENTS = 'IMPORT_COMPONENTS',
+  
+  // State actions
+  ADD_VARIABLE = 'ADD_VARIABLE',
+  UPDATE_VARIABLE = 'UPDATE_VARIABLE',
+  DELETE_VARIABLE = 'DELETE_VARIABLE',
+  ADD_DATA_SOURCE = 'ADD_DATA_SOURCE',
+  UPDATE_DATA_SOURCE = 'UPDATE_DATA_SOURCE',
+  DELETE_DATA_SOURCE = 'DELETE_DATA_SOURCE',
+
+  // Symbol actions
+  CREATE_SYMBOL = 'CREATE_SYMBOL',
+  RENAME_SYMBOL = 'RENAME_SYMBOL',
+  DELETE_SYMBOL = 'DELETE_SYMBOL',
+  DETACH_INSTANCE = 'DETACH_INSTANCE',
+  EDIT_SYMBOL = 'EDIT_SYMBOL',
+  FINISH_EDITING_SYMBOL = 'FINISH_EDITING_SYMBOL',
+
+  // Theme actions
+  SET_TOKEN = 'SET_TOKEN',
+  RENAME_TOKEN = 'RENAME_TOKEN',
+  DELETE_TOKEN = 'DELETE_TOKEN',
+
+  // Project actions
+  OPEN_PROJECT = 'OPEN_PROJECT',
+  RENAME_PROJECT = 'RENAME_PROJECT',
+  PROJECT_SAVED = 'PROJECT_SAVED'
 }
 
 export interface ComponentRenderer {
@@ -168,4 +327,7 @@ export interface PropertyEditorProps {
   onChange: (value: any) => void;
   schema: PropSchema;
   componentProps: Record<string, any>;
+  variables?: StateVariable[];
+  dataSources?: DataSource[];
+  theme?: ThemeTokens;
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { BuilderSymbol, ComponentNode } from './types';
+import { canAcceptChild, canHaveParent, getComponentDefinition } from './component-registry';
+import { BREAKPOINTS, propSource, resolveProps } from './responsive';
+import { findSymbol, resolveInstance } from './symbols';
+
+// A problem with a node of the tree, found before it is built on or exported
+export interface Violation {
+  nodeId: string;
+  // Names from the page root down to the node
+  path: string;
+  message: string;
+}
+
+/**
+ * Whether a component of `childType` can sit in one of `parentType`, or on
+ * the page when the parent is null. Imported markup goes anywhere.
+ */
+export function canNest(parentType: string | null, childType: string): boolean {
+  if (childType === 'raw') return true;
+  if (parentType === null) {
+    const child = getComponentDefinition(childType);
+    return !!child && (!child.parentTypes || child.parentTypes.length === 0);
+  }
+  return canAcceptChild(parentType, childType) && canHaveParent(childType, parentType);
+}
+
+/**
+ * The type a node nests as: an instance nests as its master's root
+ */
+export function nestingType(node: Pick<ComponentNode, 'type' | 'symbolId'>, symbols: BuilderSymbol[] = []): string {
+  if (node.type !== 'symbol') return node.type;
+  return symbols.find(symbol => symbol.id === node.symbolId)?.master.type ?? node.type;
+}
+
+/**
+ * Nodes of unknown types, and nodes their parent or they themselves don't
+ * allow where they are. Imported and template trees are checked with it.
+ */
+export function validateTree(nodes: ComponentNode[], symbols: BuilderSymbol[] = []): Violation[] {
+  const violations: Violation[] = [];
+  const visit = (node: ComponentNode, parent: ComponentNode | null, path: string) => {
+    const here = path ? `${path} › ${node.name}` : node.name;
+    const type = nestingType(node, symbols);
+
+    if (!getComponentDefinition(node.type)) {
+      violations.push({ nodeId: node.id, path: here, message: `Unknown component type "${node.type}"` });
+    } else if (!canNest(parent && nestingType(parent, symbols), type)) {
+      violations.push({
+        nodeId: node.id,
+        path: here,
+        message: parent
+          ? `${getComponentDefinition(type)?.name ?? type} can't be placed in ${getComponentDefinition(parent.type)?.name ?? parent.type}`
+          : `${getComponentDefinition(type)?.name ?? type} can't be placed on the page`
+      });
+    }
+    node.children.forEach(child => visit(child, node, here));
+  };
+  nodes.forEach(node => visit(node, null, ''));
+  return violations;
+}
+
+/**
+ * Props that break their schema: required props left empty, and numbers
+ * outside `min`/`max`, at any breakpoint. Instances are checked with their
+ * overrides applied; bound props are left to their expressions.
+ */
+export function validateProps(nodes: ComponentNode[], symbols: BuilderSymbol[] = []): Violation[] {
+  const violations: Violation[] = [];
+  const visit = (node: ComponentNode, path: string) => {
+    const here = path ? `${path} › ${node.name}` : node.name;
+    if (findSymbol(symbols, node)) {
+      const resolved = resolveInstance(node, symbols)!;
+      // Problems inside the instance select the instance
+      const inner = validateProps([resolved], symbols).map(violation => ({ ...violation, nodeId: node.id }));
+      violations.push(...inner.map(violation => ({ ...violation, path: `${path ? `${path} › ` : ''}${violation.path}` })));
+      return;
+    }
+
+    const schema = getComponentDefinition(node.type)?.propSchema ?? [];
+    const problems = new Set<string>();
+    for (const breakpoint of BREAKPOINTS) {
+      const props = resolveProps(node, breakpoint.id);
+      const at = breakpoint.id === 'desktop' ? '' : ` on ${breakpoint.label.toLowerCase()}`;
+      for (const prop of schema) {
+        if (node.bindings?.[prop.name] || (prop.condition && !prop.condition(props))) continue;
+        // A value inherited from a wider breakpoint is reported there
+        if (breakpoint.id !== 'desktop' && propSource(node, breakpoint.id, prop.name) !== breakpoint.id) continue;
+        const value = props[prop.name];
+        if (prop.required && (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0))) {
+          problems.add(`${prop.label} is required${at}`);
+        }
+        if (typeof value === 'number' && prop.min !== undefined && value < prop.min) {
+          problems.add(`${prop.label} must be at least ${prop.min}${at}`);
+        }
+        if (typeof value === 'number' && prop.max !== undefined && value > prop.max) {
+          problems.add(`${prop.label} must be at most ${prop.max}${at}`);
+        }
+      }
+    }
+    problems.forEach(message => violations.push({ nodeId: node.id, path: here, message }));
+    node.children.forEach(child => visit(child, here));
+  };
+  nodes.forEach(node => visit(node, ''));
+  return violations;
+}
+
+/**
+ * Everything an export checks: the tree's nesting and the props' schema
+ */
+export function validateForExport(nodes: ComponentNode[], symbols: BuilderSymbol[] = []): Violation[] {
+  return [...validateTree(nodes, symbols), ...validateProps(nodes, symbols)];
+}
@@ -306,7 +306,7 @@ export class FactoryExporter {
       props.push(`className="${component.props.className}"`);
     }
     
-    if (component.props.style) {
+    if (component.props.style && Object.keys(component.props.style).length > 0) {
       const styleStr = JSON.stringify(component.props.style);
       props.push(`style={${styleStr}}`);
     }
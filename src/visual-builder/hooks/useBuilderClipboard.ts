@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { BuilderAction, BuilderActionType, BuilderState, ComponentNode } from '../core/types';
+import { parseClipboard, serializeComponents } from '../core/clipboard';
+
+interface ClipboardOptions {
+  // Handle Ctrl/Cmd + C and X on the page, and pastes onto the canvas
+  shortcuts?: boolean;
+}
+
+export function useBuilderClipboard(
+  state: BuilderState,
+  dispatch: (action: BuilderAction) => void,
+  options: ClipboardOptions = {}
+) {
+  const { shortcuts = true } = options;
+  const latest = useRef(state);
+  latest.current = state;
+
+  // Last copy, for browsers that don't allow reading the clipboard
+  const fallback = useRef<string | null>(null);
+
+  const selection = useCallback((): ComponentNode[] => {
+    const { components, selectedComponentIds } = latest.current;
+    const nodes: ComponentNode[] = [];
+    const collect = (children: ComponentNode[]) => {
+      for (const node of children) {
+        if (selectedComponentIds.includes(node.id)) nodes.push(node);
+        else collect(node.children);
+      }
+    };
+    collect(components);
+    return nodes;
+  }, []);
+
+  const copy = useCallback(async (): Promise<boolean> => {
+    const nodes = selection();
+    if (nodes.length === 0) return false;
+
+    const text = serializeComponents(nodes, latest.current.symbols);
+    fallback.current = text;
+    try {
+      await navigator.clipboard?.writeText(text);
+    } catch {
+      // Permission denied; pasting in this tab still works
+    }
+    return true;
+  }, [selection]);
+
+  const cut = useCallback(async (): Promise<boolean> => {
+    const copied = await copy();
+    if (copied) {
+      dispatch({
+        type: BuilderActionType.DELETE_COMPONENTS,
+        payload: { ids: latest.current.selectedComponentIds }
+      });
+    }
+    return copied;
+  }, [copy, dispatch]);
+
+  const paste = useCallback(async (): Promise<boolean> => {
+    let text = fallback.current;
+    try {
+      text = (await navigator.clipboard?.readText()) ?? text;
+    } catch {
+      // Fall back to the last copy in this tab
+    }
+
+    const content = text ? parseClipboard(text) : null;
+    if (!content) return false;
+    dispatch({ type: BuilderActionType.PASTE_COMPONENTS, payload: content });
+    return true;
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (!shortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.shiftKey || event.altKey) return;
+
+      // Leave copy and paste in text fields to the browser
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'c' && latest.current.selectedComponentIds.length > 0) {
+        event.preventDefault();
+        void copy();
+      } else if (key === 'x' && latest.current.selectedComponentIds.length > 0) {
+        event.preventDefault();
+        void cut();
+      }
+    };
+
+    // Pastes onto the canvas that hold copied components; anything else is the browser's
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!target?.closest('[data-builder-canvas]')) return;
+
+      const text = event.clipboardData?.getData('text/plain') || fallback.current;
+      const content = text ? parseClipboard(text) : null;
+      if (!content) return;
+      event.preventDefault();
+      dispatch({ type: BuilderActionType.PASTE_COMPONENTS, payload: content });
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [shortcuts, copy, cut, dispatch]);
+
+  return { copy, cut, paste };
+}
@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BuilderAction,
+  BuilderActionType,
+  BuilderProject,
+  BuilderState,
+  ComponentNode,
+  ProjectSummary
+} from '../core/types';
+import { importJSX } from '../core/jsx-importer';
+import {
+  LocalStorageProjectStorage,
+  ProjectDocument,
+  ProjectStorage,
+  parseProjectJSON,
+  serializeProject
+} from '../store/project-storage';
+import { builderReducer } from '../store/builder-reducer';
+import { validateTree } from '../core/validation';
+import { DEFAULT_THEME } from '../core/theme';
+
+type SavedContent = Pick<BuilderState, 'components' | 'variables' | 'dataSources' | 'symbols' | 'theme'>;
+
+function hasChanged(current: SavedContent, saved: SavedContent | null): boolean {
+  return !saved
+    || current.components !== saved.components
+    || current.variables !== saved.variables
+    || current.dataSources !== saved.dataSources
+    || current.symbols !== saved.symbols
+    || current.theme !== saved.theme;
+}
+
+interface PersistenceOptions {
+  storage?: ProjectStorage;
+  // Quiet period after the last change before it is written
+  debounceMs?: number;
+}
+
+export function useBuilderPersistence(
+  state: BuilderState,
+  dispatch: (action: BuilderAction) => void,
+  options: PersistenceOptions = {}
+) {
+  const { debounceMs = 1000 } = options;
+  const storage = useMemo(() => options.storage ?? new LocalStorageProjectStorage(), [options.storage]);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [recovery, setRecovery] = useState<BuilderProject | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Content as last written, to tell edits apart from loads and saves
+  const saved = useRef<SavedContent | null>(state);
+  const latest = useRef(state);
+  latest.current = state;
+
+  const isDirty = hasChanged(state, saved.current);
+
+  const refreshProjects = useCallback(async () => {
+    setProjects(await storage.list());
+  }, [storage]);
+
+  const snapshot = useCallback((state: BuilderState): BuilderProject => {
+    // A master open on the canvas is saved as if editing had finished
+    const current = state.editingSymbol
+      ? builderReducer(state, { type: BuilderActionType.FINISH_EDITING_SYMBOL })
+      : state;
+    const now = Date.now();
+    return {
+      id: current.project?.id ?? uuidv4(),
+      name: current.project?.name ?? 'Untitled project',
+      components: current.components,
+      history: current.history,
+      variables: current.variables,
+      dataSources: current.dataSources,
+      symbols: current.symbols,
+      theme: current.theme,
+      createdAt: current.project?.createdAt ?? now,
+      updatedAt: now
+    };
+  }, []);
+
+  const saveProject = useCallback(async () => {
+    const current = latest.current;
+    const project = snapshot(current);
+    try {
+      await storage.save(project);
+      storage.clearRecovery();
+      saved.current = current;
+      const { components, history, variables, dataSources, symbols, theme, ...summary } = project;
+      dispatch({ type: BuilderActionType.PROJECT_SAVED, payload: { project: summary } });
+      setError(null);
+      await refreshProjects();
+    } catch (err) {
+      // Usually a full quota; keep the work recoverable
+      setError(err instanceof Error ? err.message : 'Could not save project');
+      storage.saveRecovery(project);
+    }
+  }, [storage, snapshot, dispatch, refreshProjects]);
+
+  const open = useCallback((loaded: BuilderProject, isSaved: boolean) => {
+    const project = {
+      ...loaded,
+      variables: loaded.variables ?? [],
+      dataSources: loaded.dataSources ?? [],
+      symbols: loaded.symbols ?? [],
+      theme: loaded.theme ?? DEFAULT_THEME
+    };
+    saved.current = isSaved ? project : null;
+    dispatch({ type: BuilderActionType.OPEN_PROJECT, payload: { project } });
+  }, [dispatch]);
+
+  // Offer unsaved work left by a crash or closed tab, if it is newer than its project
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      await refreshProjects();
+      const unsaved = storage.loadRecovery();
+      if (!unsaved) return;
+      const stored = await storage.load(unsaved.id);
+      if (cancelled) return;
+      if (!stored || stored.updatedAt < unsaved.updatedAt) {
+        setRecovery(unsaved);
+      } else {
+        storage.clearRecovery();
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [storage, refreshProjects]);
+
+  // Autosave after a quiet period; with autosave off only the recovery
+  // snapshot is written, so a crash still loses nothing. Nothing is written
+  // while a recovery is on offer, so it can't be overwritten.
+  useEffect(() => {
+    if (!isDirty || recovery) return;
+    const timer = setTimeout(() => {
+      if (latest.current.settings.autoSave) {
+        saveProject();
+      } else {
+        storage.saveRecovery(snapshot(latest.current));
+      }
+    }, debounceMs);
+    return () => clearTimeout(timer);
+  }, [state.components, state.variables, state.dataSources, state.symbols, state.theme, isDirty, recovery, debounceMs, storage, snapshot, saveProject]);
+
+  // Edits inside the debounce window survive closing the tab
+  useEffect(() => {
+    const flush = () => {
+      if (hasChanged(latest.current, saved.current) && !recovery) {
+        storage.saveRecovery(snapshot(latest.current));
+      }
+    };
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, [storage, snapshot, recovery]);
+
+  // Variables, data sources, symbols and the theme come along when a whole
+  // project document is imported
+  const createProject = useCallback(async (
+    name: string,
+    components: ComponentNode[] = [],
+    rest: Omit<ProjectDocument, 'components'> = {}
+  ) => {
+    const now = Date.now();
+    const project: BuilderProject = {
+      ...rest,
+      id: uuidv4(),
+      name,
+      components,
+      history: { past: [], present: components, future: [] },
+      createdAt: now,
+      updatedAt: now
+    };
+    await storage.save(project);
+    open(project, true);
+    await refreshProjects();
+    return project;
+  }, [storage, open, refreshProjects]);
+
+  const openProject = useCallback(async (id: string) => {
+    const project = await storage.load(id);
+    if (!project) {
+      setError(`Project ${id} was not found`);
+      return;
+    }
+    open(project, true);
+  }, [storage, open]);
+
+  const renameProject = useCallback((name: string) => {
+    dispatch({ type: BuilderActionType.RENAME_PROJECT, payload: { name } });
+    // Names are saved even when nothing on the canvas changed
+    saved.current = null;
+  }, [dispatch]);
+
+  const deleteProject = useCallback(async (id: string) => {
+    await storage.remove(id);
+    await refreshProjects();
+  }, [storage, refreshProjects]);
+
+  // The recovered tree counts as unsaved, so the next autosave keeps it
+  const restoreRecovery = useCallback(() => {
+    if (!recovery) return;
+    open(recovery, false);
+    setRecovery(null);
+  }, [recovery, open]);
+
+  const discardRecovery = useCallback(() => {
+    storage.clearRecovery();
+    setRecovery(null);
+  }, [storage]);
+
+  const importJSON = useCallback(async (json: string, name = 'Imported project') => {
+    try {
+      const { components, ...rest } = parseProjectJSON(json);
+      return await createProject(name, components, rest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import project');
+      return null;
+    }
+  }, [createProject]);
+
+  // Opens existing JSX as a new project; the warnings list what stays raw
+  // and components nested where the registry doesn't allow them
+  const importJSXProject = useCallback(async (code: string, name = 'Imported component') => {
+    try {
+      const { components, warnings } = importJSX(code);
+      await createProject(name, components);
+      const violations = validateTree(components).map(violation => `${violation.path}: ${violation.message}`);
+      return [...warnings, ...violations];
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import component');
+      return null;
+    }
+  }, [createProject]);
+
+  const exportJSON = useCallback(() => serializeProject(snapshot(latest.current)), [snapshot]);
+
+  return {
+    projects,
+    recovery,
+    error,
+    isDirty,
+    saveProject,
+    createProject,
+    openProject,
+    renameProject,
+    deleteProject,
+    restoreRecovery,
+    discardRecovery,
+    importJSON,
+    importJSXProject,
+    exportJSON
+  };
+}
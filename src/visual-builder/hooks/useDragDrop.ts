@@ -1,12 +1,15 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { ComponentNode, DragItem, DropZone, Position } from '../core/types';
-import { canAcceptChild, getComponentDefinition } from '../core/component-registry';
+import { BuilderSymbol, ComponentNode, DragItem, DropZone, Position } from '../core/types';
+import { getComponentDefinition } from '../core/component-registry';
+import { canNest, nestingType } from '../core/validation';
 
 interface DragDropOptions {
   onDrop: (dragItem: DragItem, dropZone: DropZone) => void;
   onReorder: (dragItem: DragItem, dropZone: DropZone) => void;
   snapToGrid?: boolean;
   gridSize?: number;
+  // Symbols new instances place, which nest as their master
+  symbols?: BuilderSymbol[];
 }
 
 export function useDragDrop(options: DragDropOptions) {
@@ -15,7 +18,11 @@ export function useDragDrop(options: DragDropOptions) {
   const [dragPosition, setDragPosition] = useState<Position>({ x: 0, y: 0 });
   const [dropZones, setDropZones] = useState<DropZone[]>([]);
   const [activeDropZone, setActiveDropZone] = useState<DropZone | null>(null);
+  // Zone under the pointer that the nesting rules don't let the item into
+  const [rejectedDropZone, setRejectedDropZone] = useState<DropZone | null>(null);
   const dragPreviewRef = useRef<HTMLDivElement | null>(null);
+  // Tree the drop zones were registered for
+  const componentsRef = useRef<ComponentNode[]>([]);
 
   // Start dragging
   const startDrag = useCallback((
@@ -77,9 +84,11 @@ export function useDragDrop(options: DragDropOptions) {
     const element = document.elementFromPoint(clientX, clientY);
     if (element) {
       const dropZone = findDropZone(element, dropZones);
-      setActiveDropZone(dropZone);
+      const allowed = !dropZone || !draggedItem || canDrop(draggedItem, dropZone);
+      setActiveDropZone(allowed ? dropZone : null);
+      setRejectedDropZone(allowed ? null : dropZone);
     }
-  }, [isDragging, dropZones, options.snapToGrid, options.gridSize]);
+  }, [isDragging, draggedItem, dropZones, options.snapToGrid, options.gridSize]);
 
   // End dragging
   const endDrag = useCallback((event?: MouseEvent | TouchEvent) => {
@@ -108,6 +117,7 @@ export function useDragDrop(options: DragDropOptions) {
     setIsDragging(false);
     setDraggedItem(null);
     setActiveDropZone(null);
+    setRejectedDropZone(null);
     
     if (dragPreviewRef.current) {
       dragPreviewRef.current.innerHTML = '';
@@ -120,7 +130,8 @@ export function useDragDrop(options: DragDropOptions) {
 
     const collectDropZones = (
       nodes: ComponentNode[],
-      parentId: string = 'root'
+      parentId: string = 'root',
+      parentType?: string
     ) => {
       nodes.forEach((node, index) => {
         // Add drop zone before each component
@@ -130,6 +141,7 @@ export function useDragDrop(options: DragDropOptions) {
           zones.push({
             id: `${parentId}-${index}`,
             parentId,
+            parentType,
             index,
             rect,
           });
@@ -150,17 +162,19 @@ export function useDragDrop(options: DragDropOptions) {
               zones.push({
                 id: `${node.id}-0`,
                 parentId: node.id,
+                parentType: node.type,
                 index: 0,
                 rect,
               });
             } else {
               // Recursively collect drop zones from children
-              collectDropZones(node.children, node.id);
+              collectDropZones(node.children, node.id, node.type);
               
               // Add drop zone after last child
               zones.push({
                 id: `${node.id}-${node.children.length}`,
                 parentId: node.id,
+                parentType: node.type,
                 index: node.children.length,
                 rect,
               });
@@ -171,19 +185,21 @@ export function useDragDrop(options: DragDropOptions) {
     };
 
     collectDropZones(components);
+    componentsRef.current = components;
     setDropZones(zones);
   }, []);
 
   // Check if item can be dropped in zone
   const canDrop = useCallback((item: DragItem, zone: DropZone): boolean => {
-    // Can't drop on itself
+    // Can't drop on itself or inside its own children
     if (item.id === zone.parentId) return false;
+    const moved = !item.isNew ? findNode(componentsRef.current, item.id) : null;
+    if (moved && findNode(moved.children, zone.parentId)) return false;
 
-    // Check if parent accepts this child type
-    if (zone.parentId === 'root') return true;
-    
-    return canAcceptChild(zone.parentId, item.type);
-  }, []);
+    // The parent and the item must both allow the nesting
+    const type = moved ? nestingType(moved, options.symbols) : nestingType(item, options.symbols);
+    return canNest(zone.parentType ?? null, type);
+  }, [options.symbols]);
 
   // Find drop zone from DOM element
   const findDropZone = (
@@ -245,6 +261,7 @@ export function useDragDrop(options: DragDropOptions) {
     draggedItem,
     dragPosition,
     activeDropZone,
+    rejectedDropZone,
     dropZones,
     startDrag,
     endDrag,
@@ -252,4 +269,13 @@ export function useDragDrop(options: DragDropOptions) {
     canDrop,
     dragPreviewRef,
   };
+}
+
+function findNode(nodes: ComponentNode[], id: string): ComponentNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
 }
\ No newline at end of file
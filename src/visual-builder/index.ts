@@ -0,0 +1,23 @@
+// The assembled builder
+export * from './components/VisualBuilder';
+
+// Pieces for laying the builder out differently
+export * from './components/Canvas';
+export * from './components/ComponentPalette';
+export * from './components/PropertyPanel';
+export * from './components/SelectionToolbar';
+export * from './components/SymbolPanel';
+export * from './components/StatePanel';
+export * from './components/DataSourcePanel';
+export * from './components/ThemePanel';
+export * from './components/ValidationPanel';
+
+// State and the hooks that keep it
+export * from './store/builder-reducer';
+export * from './store/project-storage';
+export * from './hooks/useBuilderPersistence';
+export * from './hooks/useBuilderClipboard';
+export * from './hooks/useDragDrop';
+
+// Export types
+export * from './core/types';
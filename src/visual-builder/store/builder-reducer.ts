@@ -1,15 +1,24 @@
 import { 
+  Alignment,
   BuilderState, 
   BuilderAction, 
   BuilderActionType, 
-  ComponentNode 
+  BuilderSymbol,
+  ComponentNode,
+  TokenGroup
 } from '../core/types';
 import { v4 as uuidv4 } from 'uuid';
 import { getComponentDefinition } from '../core/component-registry';
+import { removeVariable, renameVariable } from '../core/state';
+import { removeDataSource, renameDataSource } from '../core/data-sources';
+import { detachInstance, detachSymbol, instanceOf, placesSymbol } from '../core/symbols';
+import { canNest, nestingType } from '../core/validation';
+import { DEFAULT_THEME, inlineToken, isTokenName, renameTokenReferences } from '../core/theme';
 
 export const initialBuilderState: BuilderState = {
   components: [],
   selectedComponentId: null,
+  selectedComponentIds: [],
   hoveredComponentId: null,
   draggedItem: null,
   dropZones: [],
@@ -27,21 +36,38 @@ export const initialBuilderState: BuilderState = {
     snapToGrid: true,
     autoSave: true,
     darkMode: false
-  }
+  },
+  variables: [],
+  dataSources: [],
+  symbols: [],
+  theme: DEFAULT_THEME,
+  editingSymbol: null,
+  project: null
 };
 
 export function builderReducer(
   state: BuilderState,
   action: BuilderAction
+): BuilderState {
+  const next = reduceBuilder(state, action);
+
+  // A symbol being edited keeps at least one root, or it would have no master
+  if (next.editingSymbol && next.components.length === 0 && state.components.length > 0) return state;
+  return next;
+}
+
+function reduceBuilder(
+  state: BuilderState,
+  action: BuilderAction
 ): BuilderState {
   switch (action.type) {
     case BuilderActionType.ADD_COMPONENT: {
-      const { type, parentId, index } = action.payload;
+      const { type, parentId, index, symbolId } = action.payload;
       const definition = getComponentDefinition(type);
       
       if (!definition) return state;
 
-      const newComponent: ComponentNode = {
+      let newComponent: ComponentNode = {
         id: uuidv4(),
         type,
         name: definition.name,
@@ -49,6 +75,15 @@ export function builderReducer(
         children: []
       };
 
+      if (type === 'symbol') {
+        const symbol = state.symbols.find(entry => entry.id === symbolId);
+        // A master can't contain an instance of itself
+        const recursive = state.editingSymbol && placesSymbol(state.symbols, symbolId, state.editingSymbol.id);
+        if (!symbol || recursive) return state;
+        newComponent = instanceOf(symbol);
+      }
+      if (!canPlace(state, parentId, [newComponent])) return state;
+
       const newComponents = addComponentToTree(
         [...state.components],
         newComponent,
@@ -59,7 +94,7 @@ export function builderReducer(
       return {
         ...state,
         components: newComponents,
-        selectedComponentId: newComponent.id,
+        ...select([newComponent.id]),
         history: addToHistory(state.history, newComponents)
       };
     }
@@ -89,13 +124,15 @@ export function builderReducer(
       return {
         ...state,
         components: newComponents,
-        selectedComponentId: state.selectedComponentId === id ? null : state.selectedComponentId,
+        ...select(state.selectedComponentIds.filter(selected => findComponentById(newComponents, selected))),
         history: addToHistory(state.history, newComponents)
       };
     }
 
     case BuilderActionType.MOVE_COMPONENT: {
       const { componentId, newParentId, newIndex } = action.payload;
+      const moved = findComponentById(state.components, componentId);
+      if (!moved || !canPlace(state, newParentId, [moved])) return state;
       
       // First, remove component from its current location
       let component: ComponentNode | null = null;
@@ -153,22 +190,225 @@ export function builderReducer(
       return {
         ...state,
         components: newComponents,
-        selectedComponentId: duplicate.id,
+        ...select([duplicate.id]),
         history: addToHistory(state.history, newComponents)
       };
     }
 
     case BuilderActionType.SELECT_COMPONENT: {
+      const { id, additive } = action.payload;
+      if (!additive || !id) {
+        return { ...state, ...select(id ? [id] : []) };
+      }
+
+      // Shift-click adds a component to the selection, or takes it out
+      const ids = state.selectedComponentIds.includes(id)
+        ? state.selectedComponentIds.filter(selected => selected !== id)
+        : [...state.selectedComponentIds, id];
+      return { ...state, ...select(ids) };
+    }
+
+    case BuilderActionType.SELECT_COMPONENTS: {
+      const { ids, additive } = action.payload;
+      // Marquee selection also finds the nodes inside symbol instances
+      const found = (ids as string[]).filter(id => findComponentById(state.components, id));
+      const selected: string[] = additive ? [...new Set([...state.selectedComponentIds, ...found])] : found;
+      return { ...state, ...select(selected) };
+    }
+
+    case BuilderActionType.CLEAR_SELECTION: {
       return {
         ...state,
-        selectedComponentId: action.payload.id
+        ...select([])
       };
     }
 
-    case BuilderActionType.CLEAR_SELECTION: {
+    case BuilderActionType.UPDATE_COMPONENTS: {
+      const { updates } = action.payload as { updates: Array<{ id: string; updates: Partial<ComponentNode> }> };
+      const newComponents = updates.reduce(
+        (tree, entry) => updateComponentInTree(tree, entry.id, entry.updates),
+        state.components
+      );
+
+      return {
+        ...state,
+        components: newComponents,
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.DELETE_COMPONENTS: {
+      const { ids } = action.payload;
+      const newComponents = (ids as string[]).reduce(
+        (tree, id) => deleteComponentFromTree(tree, id),
+        state.components
+      );
+
+      return {
+        ...state,
+        components: newComponents,
+        ...select(state.selectedComponentIds.filter(selected => findComponentById(newComponents, selected))),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.MOVE_COMPONENTS: {
+      const { ids, newParentId, newIndex } = action.payload;
+      const nodes = topLevelNodes(state.components, ids);
+
+      // A component can't move into itself or its own children
+      const intoItself = newParentId && nodes.some(node =>
+        node.id === newParentId || findComponentById(node.children, newParentId)
+      );
+      if (nodes.length === 0 || intoItself || !canPlace(state, newParentId, nodes)) return state;
+
+      // The index is in the tree before the move; moved siblings ahead of it shift it down
+      const ahead = nodes.filter(node =>
+        (findParentId(state.components, node.id) ?? 'root') === (newParentId ?? 'root')
+        && findComponentIndex(state.components, node.id, newParentId) < newIndex
+      );
+      const index = newIndex === undefined ? undefined : newIndex - ahead.length;
+
+      const remaining = nodes.reduce((tree, node) => deleteComponentFromTree(tree, node.id), state.components);
+      const newComponents = insertComponents(remaining, nodes, newParentId, index);
+
+      return {
+        ...state,
+        components: newComponents,
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.DUPLICATE_COMPONENTS: {
+      const { ids } = action.payload;
+      let newComponents = state.components;
+      const duplicates: string[] = [];
+
+      for (const node of topLevelNodes(state.components, ids)) {
+        const duplicate = duplicateComponent(node);
+        const parentId = findParentId(newComponents, node.id);
+        const index = findComponentIndex(newComponents, node.id, parentId) + 1;
+        newComponents = addComponentToTree([...newComponents], duplicate, parentId, index);
+        duplicates.push(duplicate.id);
+      }
+
+      return {
+        ...state,
+        components: newComponents,
+        ...select(duplicates),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.GROUP_COMPONENTS: {
+      const { ids } = action.payload;
+      const nodes = topLevelNodes(state.components, ids);
+      const siblings = sharedParent(state.components, nodes);
+      if (siblings === undefined || !canGroup(state, siblings, nodes)) return state;
+
+      const definition = getComponentDefinition('container')!;
+      const group: ComponentNode = {
+        id: uuidv4(),
+        type: 'container',
+        name: 'Group',
+        props: { ...definition.defaultProps, padding: '0px' },
+        children: nodes
+      };
+      const newComponents = replaceWithGroup(state.components, nodes, group, siblings);
+
+      return {
+        ...state,
+        components: newComponents,
+        ...select([group.id]),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.UNGROUP_COMPONENT: {
+      const { id } = action.payload;
+      const group = findComponentById(state.components, id);
+      if (!group || group.type !== 'container' || group.children.length === 0) return state;
+
+      const parentId = findParentId(state.components, id);
+      if (!canPlace(state, parentId, group.children)) return state;
+      const index = findComponentIndex(state.components, id, parentId);
+      const newComponents = insertComponents(deleteComponentFromTree(state.components, id), group.children, parentId, index);
+
       return {
         ...state,
-        selectedComponentId: null
+        components: newComponents,
+        ...select(group.children.map(child => child.id)),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.ALIGN_COMPONENTS: {
+      const { ids, alignment } = action.payload as { ids: string[]; alignment: Alignment };
+      const newComponents = ids.reduce((tree, id) => {
+        const node = findComponentById(tree, id);
+        return node ? updateComponentInTree(tree, id, { props: { ...node.props, alignSelf: ALIGN_SELF[alignment] } }) : tree;
+      }, state.components);
+
+      return {
+        ...state,
+        components: newComponents,
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.DISTRIBUTE_COMPONENTS: {
+      const { ids, direction } = action.payload as { ids: string[]; direction: 'row' | 'column' };
+      const nodes = topLevelNodes(state.components, ids);
+      const siblings = sharedParent(state.components, nodes);
+      if (siblings === undefined || nodes.length < 2) return state;
+
+      // Spread evenly along the direction: by the parent when the selection
+      // is all of its children, otherwise by a group around the selection
+      const distribution = { display: 'flex', flexDirection: direction, justifyContent: 'space-between' };
+      let newComponents: ComponentNode[];
+      if (siblings.parent && siblings.children.length === nodes.length) {
+        const parent = siblings.parent;
+        newComponents = updateComponentInTree(state.components, parent.id, { props: { ...parent.props, ...distribution } });
+      } else {
+        if (!canGroup(state, siblings, nodes)) return state;
+        const definition = getComponentDefinition('container')!;
+        const group: ComponentNode = {
+          id: uuidv4(),
+          type: 'container',
+          name: 'Group',
+          props: { ...definition.defaultProps, padding: '0px', ...distribution },
+          children: nodes
+        };
+        newComponents = replaceWithGroup(state.components, nodes, group, siblings);
+      }
+
+      return {
+        ...state,
+        components: newComponents,
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.PASTE_COMPONENTS: {
+      const { components, symbols = [] } = action.payload as { components: ComponentNode[]; symbols?: BuilderSymbol[] };
+      if (components.length === 0) return state;
+
+      // After the most recently selected component, or at the end of the page
+      const anchor = state.selectedComponentId;
+      const parentId = anchor ? findParentId(state.components, anchor) : null;
+      const index = anchor ? findComponentIndex(state.components, anchor, parentId) + 1 : undefined;
+      if (!canPlace(state, parentId, components)) return state;
+      const newComponents = insertComponents(state.components, components, parentId, index);
+
+      // Symbols the pasted instances place come along from the other project
+      const missing = symbols.filter(symbol => !state.symbols.some(existing => existing.id === symbol.id));
+
+      return {
+        ...state,
+        symbols: missing.length > 0 ? [...state.symbols, ...missing] : state.symbols,
+        components: newComponents,
+        ...select(components.map(node => node.id)),
+        history: addToHistory(state.history, newComponents)
       };
     }
 
@@ -249,7 +489,7 @@ export function builderReducer(
       return {
         ...state,
         components,
-        selectedComponentId: null,
+        ...select([]),
         history: addToHistory(state.history, components)
       };
     }
@@ -258,7 +498,7 @@ export function builderReducer(
       return {
         ...state,
         components: [],
-        selectedComponentId: null,
+        ...select([]),
         history: addToHistory(state.history, [])
       };
     }
@@ -268,17 +508,375 @@ export function builderReducer(
       return {
         ...state,
         components,
-        selectedComponentId: null,
+        ...select([]),
         history: addToHistory(state.history, components)
       };
     }
 
+    case BuilderActionType.ADD_VARIABLE: {
+      const { variable } = action.payload;
+      if (state.variables.some(existing => existing.name === variable.name)) return state;
+      return {
+        ...state,
+        variables: [...state.variables, variable]
+      };
+    }
+
+    case BuilderActionType.UPDATE_VARIABLE: {
+      const { name, updates } = action.payload;
+      const renamed = updates.name !== undefined && updates.name !== name;
+      if (renamed && state.variables.some(existing => existing.name === updates.name)) return state;
+
+      const variables = state.variables.map(variable => variable.name === name ? { ...variable, ...updates } : variable);
+      if (!renamed) {
+        return { ...state, variables };
+      }
+
+      // Bindings and actions follow the variable to its new name
+      const newComponents = renameVariable(state.components, name, updates.name);
+      return {
+        ...state,
+        variables,
+        components: newComponents,
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.DELETE_VARIABLE: {
+      const { name } = action.payload;
+      // Bindings and actions using it go with it
+      return {
+        ...updateReferences(state, nodes => removeVariable(nodes, name)),
+        variables: state.variables.filter(variable => variable.name !== name)
+      };
+    }
+
+    case BuilderActionType.ADD_DATA_SOURCE: {
+      const { source } = action.payload;
+      if (state.dataSources.some(existing => existing.name === source.name)) return state;
+      return {
+        ...state,
+        dataSources: [...state.dataSources, source]
+      };
+    }
+
+    case BuilderActionType.UPDATE_DATA_SOURCE: {
+      const { name, updates } = action.payload;
+      const renamed = updates.name !== undefined && updates.name !== name;
+      if (renamed && state.dataSources.some(existing => existing.name === updates.name)) return state;
+
+      const dataSources = state.dataSources.map(source => source.name === name ? { ...source, ...updates } : source);
+      if (!renamed) {
+        return { ...state, dataSources };
+      }
+
+      // Repeaters follow the source to its new name
+      const newComponents = renameDataSource(state.components, name, updates.name);
+      return {
+        ...state,
+        dataSources,
+        components: newComponents,
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.DELETE_DATA_SOURCE: {
+      const { name } = action.payload;
+      // Its repeaters are left without a source
+      return {
+        ...updateReferences(state, nodes => removeDataSource(nodes, name)),
+        dataSources: state.dataSources.filter(source => source.name !== name)
+      };
+    }
+
+    case BuilderActionType.CREATE_SYMBOL: {
+      const { id, name } = action.payload;
+      const node = findComponentById(state.components, id);
+      if (!node || node.type === 'symbol') return state;
+
+      // The subtree becomes the master, and an instance takes its place
+      const symbol = { id: uuidv4(), name: name || node.name, master: node };
+      const instance = instanceOf(symbol);
+      const newComponents = replaceComponent(state.components, id, instance);
+
+      return {
+        ...state,
+        symbols: [...state.symbols, symbol],
+        components: newComponents,
+        ...select([instance.id]),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.RENAME_SYMBOL: {
+      const { id, name } = action.payload;
+      return {
+        ...state,
+        symbols: state.symbols.map(symbol => symbol.id === id ? { ...symbol, name } : symbol)
+      };
+    }
+
+    case BuilderActionType.DELETE_SYMBOL: {
+      const { id } = action.payload;
+      if (state.editingSymbol?.id === id) return state;
+
+      // Instances keep what they show, as plain components
+      const newComponents = detachSymbol(state.components, id, state.symbols);
+      const symbols = state.symbols
+        .filter(symbol => symbol.id !== id)
+        .map(symbol => ({ ...symbol, master: detachSymbol([symbol.master], id, state.symbols)[0] }));
+
+      // So do instances on the page put aside while another symbol is edited
+      const page = state.editingSymbol && detachSymbol(state.editingSymbol.components, id, state.symbols);
+      const editingSymbol = state.editingSymbol && page && {
+        ...state.editingSymbol,
+        components: page,
+        history: addToHistory(state.editingSymbol.history, page)
+      };
+
+      return {
+        ...state,
+        symbols,
+        components: newComponents,
+        editingSymbol,
+        ...select([]),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.DETACH_INSTANCE: {
+      const { id } = action.payload;
+      const node = findComponentById(state.components, id);
+      const detached = node && detachInstance(node, state.symbols);
+      if (!detached) return state;
+
+      const newComponents = replaceComponent(state.components, id, detached);
+      return {
+        ...state,
+        components: newComponents,
+        ...select([detached.id]),
+        history: addToHistory(state.history, newComponents)
+      };
+    }
+
+    case BuilderActionType.EDIT_SYMBOL: {
+      const { id } = action.payload;
+      const symbol = state.symbols.find(entry => entry.id === id);
+      if (!symbol || state.editingSymbol) return state;
+
+      // The master takes over the canvas with its own history; the page
+      // comes back when editing finishes
+      return {
+        ...state,
+        editingSymbol: { id, components: state.components, history: state.history },
+        components: [symbol.master],
+        history: { past: [], present: [symbol.master], future: [] },
+        ...select([])
+      };
+    }
+
+    case BuilderActionType.FINISH_EDITING_SYMBOL: {
+      const { editingSymbol } = state;
+      if (!editingSymbol) return state;
+
+      const symbols = state.symbols.map(symbol => {
+        if (symbol.id !== editingSymbol.id) return symbol;
+        if (state.components.length === 1) return { ...symbol, master: state.components[0] };
+
+        // Several roots are kept together in a container
+        const definition = getComponentDefinition('container')!;
+        const master: ComponentNode = {
+          id: uuidv4(),
+          type: 'container',
+          name: symbol.name,
+          props: { ...definition.defaultProps },
+          children: state.components
+        };
+        return { ...symbol, master };
+      });
+
+      return {
+        ...state,
+        symbols,
+        components: editingSymbol.components,
+        history: editingSymbol.history,
+        editingSymbol: null,
+        ...select([])
+      };
+    }
+
+    case BuilderActionType.SET_TOKEN: {
+      const { group, name, value } = action.payload;
+      if (!isTokenName(name)) return state;
+      return {
+        ...state,
+        theme: { ...state.theme, [group]: { ...state.theme[group as TokenGroup], [name]: value } }
+      };
+    }
+
+    case BuilderActionType.RENAME_TOKEN: {
+      const { group, from, to } = action.payload as { group: TokenGroup; from: string; to: string };
+      const tokens: Record<string, any> = state.theme[group];
+      if (!(from in tokens) || to in tokens || !isTokenName(to)) return state;
+
+      // Keeps the token's place in its group
+      const renamed = Object.fromEntries(Object.entries(tokens).map(([name, value]) => [name === from ? to : name, value]));
+      return {
+        ...updateReferences(state, nodes => renameTokenReferences(nodes, group, from, to)),
+        theme: { ...state.theme, [group]: renamed }
+      };
+    }
+
+    case BuilderActionType.DELETE_TOKEN: {
+      const { group, name } = action.payload as { group: TokenGroup; name: string };
+      const { [name]: _removed, ...tokens } = state.theme[group] as Record<string, any>;
+      return {
+        ...updateReferences(state, nodes => inlineToken(nodes, state.theme, group, name)),
+        theme: { ...state.theme, [group]: tokens }
+      };
+    }
+
+    case BuilderActionType.OPEN_PROJECT: {
+      const { project } = action.payload;
+      const { components, history, variables = [], dataSources = [], symbols = [], theme = DEFAULT_THEME, ...summary } = project;
+      return {
+        ...state,
+        components,
+        history,
+        variables,
+        dataSources,
+        symbols,
+        theme,
+        editingSymbol: null,
+        project: summary,
+        ...select([]),
+        hoveredComponentId: null
+      };
+    }
+
+    case BuilderActionType.RENAME_PROJECT: {
+      if (!state.project) return state;
+      return {
+        ...state,
+        project: { ...state.project, name: action.payload.name }
+      };
+    }
+
+    case BuilderActionType.PROJECT_SAVED: {
+      const { project } = action.payload;
+      return {
+        ...state,
+        project
+      };
+    }
+
     default:
       return state;
   }
 }
 
 // Helper functions
+function select(ids: string[]): Pick<BuilderState, 'selectedComponentId' | 'selectedComponentIds'> {
+  return {
+    selectedComponentIds: ids,
+    selectedComponentId: ids[ids.length - 1] ?? null
+  };
+}
+
+const ALIGN_SELF: Record<Alignment, string> = {
+  start: 'flex-start',
+  center: 'center',
+  end: 'flex-end',
+  stretch: 'stretch'
+};
+
+// Whether nodes can go in a parent, or on the page, under the registry's nesting rules
+function canPlace(state: BuilderState, parentId: string | null, nodes: ComponentNode[]): boolean {
+  const parent = parentId && parentId !== 'root' ? findComponentById(state.components, parentId) : null;
+  if (parentId && parentId !== 'root' && !parent) return false;
+
+  const parentType = parent && nestingType(parent, state.symbols);
+  return nodes.every(node => canNest(parentType, nestingType(node, state.symbols)));
+}
+
+// Whether a group container can take the nodes' place
+function canGroup(state: BuilderState, siblings: { parent: ComponentNode | null }, nodes: ComponentNode[]): boolean {
+  const parentType = siblings.parent && nestingType(siblings.parent, state.symbols);
+  return canNest(parentType, 'container')
+    && nodes.every(node => canNest('container', nestingType(node, state.symbols)));
+}
+
+// State with a change to every tree: the canvas, the masters and a page
+// set aside while a master is edited
+function updateReferences(state: BuilderState, update: (nodes: ComponentNode[]) => ComponentNode[]): BuilderState {
+  const newComponents = update(state.components);
+  return {
+    ...state,
+    components: newComponents,
+    history: addToHistory(state.history, newComponents),
+    symbols: state.symbols.map(symbol => ({ ...symbol, master: update([symbol.master])[0] })),
+    editingSymbol: state.editingSymbol && { ...state.editingSymbol, components: update(state.editingSymbol.components) }
+  };
+}
+
+// Selected nodes in tree order, without those inside another selected node
+function topLevelNodes(components: ComponentNode[], ids: string[]): ComponentNode[] {
+  const nodes: ComponentNode[] = [];
+  const collect = (children: ComponentNode[]) => {
+    for (const node of children) {
+      if (ids.includes(node.id)) nodes.push(node);
+      else collect(node.children);
+    }
+  };
+  collect(components);
+  return nodes;
+}
+
+// The parent every node shares, or undefined when they are spread over several
+function sharedParent(
+  components: ComponentNode[],
+  nodes: ComponentNode[]
+): { parent: ComponentNode | null; children: ComponentNode[] } | undefined {
+  if (nodes.length === 0) return undefined;
+  const parentIds = new Set(nodes.map(node => findParentId(components, node.id)));
+  if (parentIds.size !== 1) return undefined;
+
+  const [parentId] = [...parentIds];
+  const parent = parentId ? findComponentById(components, parentId) : null;
+  return { parent, children: parent ? parent.children : components };
+}
+
+// Puts a group where the first of its nodes was
+function replaceWithGroup(
+  components: ComponentNode[],
+  nodes: ComponentNode[],
+  group: ComponentNode,
+  siblings: { parent: ComponentNode | null }
+): ComponentNode[] {
+  const parentId = siblings.parent?.id ?? null;
+  const index = findComponentIndex(components, nodes[0].id, parentId);
+  const remaining = nodes.reduce((tree, node) => deleteComponentFromTree(tree, node.id), components);
+  return addComponentToTree([...remaining], group, parentId, index);
+}
+
+function replaceComponent(components: ComponentNode[], id: string, replacement: ComponentNode): ComponentNode[] {
+  return components.map(component => component.id === id
+    ? replacement
+    : { ...component, children: replaceComponent(component.children, id, replacement) });
+}
+
+function insertComponents(
+  components: ComponentNode[],
+  nodes: ComponentNode[],
+  parentId: string | null,
+  index?: number
+): ComponentNode[] {
+  return nodes.reduce(
+    (tree, node, offset) => addComponentToTree([...tree], node, parentId, index === undefined ? undefined : index + offset),
+    components
+  );
+}
+
 function addComponentToTree(
   components: ComponentNode[],
   newComponent: ComponentNode,
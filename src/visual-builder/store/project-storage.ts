@@ -0,0 +1,191 @@
+import { BuilderProject, BuilderSymbol, ComponentNode, DataSource, ProjectSummary, StateVariable } from '../core/types';
+
+/**
+ * Where builder projects are kept. Saving is async so a larger backend can
+ * sit behind it; the recovery snapshot is synchronous because it is written
+ * while the page unloads.
+ */
+export interface ProjectStorage {
+  list(): Promise<ProjectSummary[]>;
+  load(id: string): Promise<BuilderProject | null>;
+  save(project: BuilderProject): Promise<void>;
+  remove(id: string): Promise<void>;
+
+  // Unsaved work of the open project, kept until it is saved or discarded
+  saveRecovery(project: BuilderProject): void;
+  loadRecovery(): BuilderProject | null;
+  clearRecovery(): void;
+}
+
+type KeyValueStore = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const PREFIX = 'rui-builder';
+const INDEX_KEY = `${PREFIX}:projects`;
+const RECOVERY_KEY = `${PREFIX}:recovery`;
+
+// Undo steps kept with a saved project; the rest only live in the session
+const SAVED_HISTORY = 20;
+
+export class LocalStorageProjectStorage implements ProjectStorage {
+  constructor(private store: KeyValueStore = defaultStore()) {}
+
+  async list(): Promise<ProjectSummary[]> {
+    return this.readIndex().sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(id: string): Promise<BuilderProject | null> {
+    return this.read<BuilderProject>(projectKey(id));
+  }
+
+  async save(project: BuilderProject): Promise<void> {
+    const stored = { ...project, history: trimHistory(project.history) };
+    this.store.setItem(projectKey(project.id), JSON.stringify(stored));
+
+    const { id, name, createdAt, updatedAt } = project;
+    const index = this.readIndex().filter(entry => entry.id !== id);
+    this.store.setItem(INDEX_KEY, JSON.stringify([...index, { id, name, createdAt, updatedAt }]));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.store.removeItem(projectKey(id));
+    this.store.setItem(INDEX_KEY, JSON.stringify(this.readIndex().filter(entry => entry.id !== id)));
+    if (this.loadRecovery()?.id === id) {
+      this.clearRecovery();
+    }
+  }
+
+  saveRecovery(project: BuilderProject): void {
+    this.store.setItem(RECOVERY_KEY, JSON.stringify({ ...project, history: trimHistory(project.history) }));
+  }
+
+  loadRecovery(): BuilderProject | null {
+    return this.read<BuilderProject>(RECOVERY_KEY);
+  }
+
+  clearRecovery(): void {
+    this.store.removeItem(RECOVERY_KEY);
+  }
+
+  private readIndex(): ProjectSummary[] {
+    return this.read<ProjectSummary[]>(INDEX_KEY) ?? [];
+  }
+
+  // Unreadable entries are treated as missing rather than breaking the builder
+  private read<T>(key: string): T | null {
+    const raw = this.store.getItem(key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function projectKey(id: string): string {
+  return `${PREFIX}:project:${id}`;
+}
+
+function trimHistory(history: BuilderProject['history']): BuilderProject['history'] {
+  return { ...history, past: history.past.slice(-SAVED_HISTORY), future: history.future.slice(0, SAVED_HISTORY) };
+}
+
+// Outside the browser projects only last for the session
+function defaultStore(): KeyValueStore {
+  if (typeof globalThis.localStorage !== 'undefined') {
+    return globalThis.localStorage;
+  }
+  const entries = new Map<string, string>();
+  return {
+    getItem: key => entries.get(key) ?? null,
+    setItem: (key, value) => void entries.set(key, value),
+    removeItem: key => void entries.delete(key)
+  };
+}
+
+const PROJECT_TYPE = 'rui-builder/project';
+const PROJECT_VERSION = 1;
+
+// What an exported project carries: everything but its identity and history
+export type ProjectDocument = Pick<BuilderProject, 'components' | 'variables' | 'dataSources' | 'symbols' | 'theme'>;
+
+/**
+ * A project as an exported `.json` file: its components with the state
+ * variables, data sources, symbols and theme tokens they refer to
+ */
+export function serializeProject(project: ProjectDocument): string {
+  const { components, variables = [], dataSources = [], symbols = [], theme } = project;
+  return JSON.stringify({
+    type: PROJECT_TYPE,
+    version: PROJECT_VERSION,
+    components,
+    variables,
+    dataSources,
+    symbols,
+    theme
+  }, null, 2);
+}
+
+/**
+ * Reads a file `serializeProject` wrote. A bare array of components, as
+ * `ComponentExporter.exportToJSON` writes, is a project of just those.
+ */
+export function parseProjectJSON(json: string): ProjectDocument {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid builder JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+  if (Array.isArray(data)) {
+    return { components: readComponents(data) };
+  }
+  if (data?.type !== PROJECT_TYPE) {
+    throw new Error('Invalid builder JSON: expected an exported project or an array of components');
+  }
+
+  const symbols = readList<BuilderSymbol>(data.symbols, 'symbols');
+  readComponents(symbols.map(symbol => symbol.master));
+  if (data.theme !== undefined && (typeof data.theme !== 'object' || data.theme === null)) {
+    throw new Error('Invalid builder JSON: theme must be an object');
+  }
+  return {
+    components: readComponents(data.components),
+    variables: readList<StateVariable>(data.variables, 'variables'),
+    dataSources: readList<DataSource>(data.dataSources, 'dataSources'),
+    symbols,
+    theme: data.theme
+  };
+}
+
+function readList<T>(value: unknown, field: string): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid builder JSON: ${field} must be an array`);
+  }
+  return value as T[];
+}
+
+/**
+ * Checks parsed data is a list of component trees
+ */
+export function readComponents(data: unknown): ComponentNode[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid builder JSON: expected an array of components');
+  }
+  data.forEach((node, index) => assertComponentNode(node, `[${index}]`));
+  return data as ComponentNode[];
+}
+
+function assertComponentNode(node: any, path: string): void {
+  const valid = node && typeof node === 'object'
+    && typeof node.id === 'string'
+    && typeof node.type === 'string'
+    && node.props && typeof node.props === 'object'
+    && Array.isArray(node.children);
+
+  if (!valid) {
+    throw new Error(`Invalid builder JSON: component at ${path} needs an id, type, props and children`);
+  }
+  node.children.forEach((child: unknown, index: number) => assertComponentNode(child, `${path}.children[${index}]`));
+}
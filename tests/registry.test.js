@@ -0,0 +1,416 @@
+/**
+ * Registry Tests
+ * Merging registry updates into added components and keeping their files
+ * inside the project
+ */
+
+require('tsx/cjs');
+
+const path = require('path');
+const { mergeThreeWay } = require('../packages/cli-core/src/utils/merge');
+const { lockedPath } = require('../packages/cli-core/src/registry/lockfile');
+
+const labels = { local: 'local', upstream: 'upstream 1.1.0' };
+
+describe('Three-way Merge', () => {
+  test('applies upstream changes to untouched lines', () => {
+    const base = 'a\nb\nc\n';
+    const result = mergeThreeWay(base, 'a\nb\nc local\n', 'a upstream\nb\nc\n', labels);
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe('a upstream\nb\nc local\n');
+  });
+
+  test('keeps a change both sides made once', () => {
+    const result = mergeThreeWay('a\nb\n', 'a\nb both\n', 'a\nb both\n', labels);
+    expect(result.conflicts).toBe(0);
+    expect(result.content).toBe('a\nb both\n');
+  });
+
+  test('leaves lines both sides changed between conflict markers', () => {
+    const result = mergeThreeWay('a\nb\nc\n', 'a\nb local\nc\n', 'a\nb upstream\nc\n', labels);
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe('a\n<<<<<<< local\nb local\n=======\nb upstream\n>>>>>>> upstream 1.1.0\nc\n');
+  });
+
+  test('counts each conflicting region', () => {
+    const base = 'a\nb\nc\nd\ne\n';
+    const result = mergeThreeWay(base, 'a local\nb\nc\nd\ne local\n', 'a upstream\nb\nc\nd\ne upstream\n', labels);
+    expect(result.conflicts).toBe(2);
+  });
+});
+
+describe('Locked Paths', () => {
+  const cwd = path.resolve('/project');
+
+  test('are relative to the project with forward slashes', () => {
+    expect(lockedPath(cwd, path.join(cwd, 'components', 'ui', 'button.tsx'))).toBe('components/ui/button.tsx');
+    expect(lockedPath(cwd, 'components/ui/../ui/card.tsx')).toBe('components/ui/card.tsx');
+  });
+
+  test('outside the project are refused', () => {
+    expect(() => lockedPath(cwd, path.join(cwd, 'components/ui', '../../../.bashrc'))).toThrow('outside the project');
+    expect(() => lockedPath(cwd, '../other/file.ts')).toThrow('outside the project');
+    expect(() => lockedPath(cwd, path.resolve('/etc/passwd'))).toThrow('outside the project');
+  });
+});
+
+describe('Component Integrity', () => {
+  const { generateKeyPairSync } = require('crypto');
+  const { createIntegrity, verifyIntegrity, componentVersion } = require('../packages/cli-core/src/registry/integrity');
+
+  const publisher = generateKeyPairSync('ed25519');
+  const signingKey = { id: 'acme', privateKey: publisher.privateKey.export({ type: 'pkcs8', format: 'pem' }) };
+  const trusted = [{ id: 'acme', publicKey: publisher.publicKey.export({ type: 'spki', format: 'der' }).toString('base64') }];
+  const files = [
+    { path: 'button.tsx', content: 'export function Button() {}\n' },
+    { path: 'button.css', content: '.button {}\n' }
+  ];
+
+  test('signed files from a trusted key verify', () => {
+    const integrity = createIntegrity('button', '1.2.0', files, signingKey);
+    const result = verifyIntegrity('button', '1.2.0', files, integrity, trusted);
+    expect(result.problems).toEqual([]);
+    expect(result.signedBy).toBe('acme');
+  });
+
+  test('a tampered file is refused', () => {
+    const integrity = createIntegrity('button', '1.2.0', files, signingKey);
+    const tampered = [{ ...files[0], content: 'export function Button() { steal(); }\n' }, files[1]];
+    const result = verifyIntegrity('button', '1.2.0', tampered, integrity, trusted);
+    expect(result.problems).toEqual(['button.tsx does not match its published digest']);
+  });
+
+  test('a file without a digest is refused', () => {
+    const integrity = createIntegrity('button', '1.2.0', files.slice(0, 1));
+    const result = verifyIntegrity('button', '1.2.0', files, integrity);
+    expect(result.problems).toEqual(['button.css has no published digest']);
+  });
+
+  test('unsigned files are refused once keys are trusted', () => {
+    const integrity = createIntegrity('button', '1.2.0', files);
+    expect(verifyIntegrity('button', '1.2.0', files, integrity).problems).toEqual([]);
+    expect(verifyIntegrity('button', '1.2.0', files, integrity, trusted).problems).toEqual(['it is not signed']);
+  });
+
+  test('a signature from an untrusted key is refused', () => {
+    const other = generateKeyPairSync('ed25519');
+    const integrity = createIntegrity('button', '1.2.0', files, {
+      id: 'mallory',
+      privateKey: other.privateKey.export({ type: 'pkcs8', format: 'pem' })
+    });
+    const result = verifyIntegrity('button', '1.2.0', files, integrity, trusted);
+    expect(result.problems).toEqual(['it is signed by "mallory", which is not a trusted key']);
+  });
+
+  test('a forged signature under a trusted key id is refused', () => {
+    const other = generateKeyPairSync('ed25519');
+    const integrity = createIntegrity('button', '1.2.0', files, {
+      id: 'acme',
+      privateKey: other.privateKey.export({ type: 'pkcs8', format: 'pem' })
+    });
+    const result = verifyIntegrity('button', '1.2.0', files, integrity, trusted);
+    expect(result.problems).toEqual(['its signature does not match "acme"']);
+  });
+
+  test('a signature covers the version', () => {
+    const integrity = createIntegrity('button', '1.2.0', files, signingKey);
+    const result = verifyIntegrity('button', '1.3.0', files, integrity, trusted);
+    expect(result.problems).toEqual(['its signature does not match "acme"']);
+  });
+
+  test('a signature covers dependencies and registry dependencies', () => {
+    const requires = { dependencies: { clsx: '^2.0.0' }, registryDependencies: ['icon', 'utils'] };
+    const integrity = createIntegrity('button', '1.2.0', files, signingKey, requires);
+    const verify = tampered => verifyIntegrity('button', '1.2.0', files, integrity, trusted, tampered).problems;
+
+    expect(verify({ registryDependencies: ['utils', 'icon'], dependencies: { clsx: '^2.0.0' } })).toEqual([]);
+    expect(verify({ ...requires, dependencies: { clsx: '^2.0.0', 'left-pad': '^1.0.0' } }))
+      .toEqual(['its signature does not match "acme"']);
+    expect(verify({ ...requires, registryDependencies: ['icon', 'utils', 'evil'] }))
+      .toEqual(['its signature does not match "acme"']);
+    expect(verify({})).toEqual(['its signature does not match "acme"']);
+  });
+
+  test('components without digests are refused', () => {
+    expect(verifyIntegrity('button', '1.2.0', files, undefined).problems).toEqual(['no file digests were published']);
+  });
+
+  test('componentVersion reads meta.version, with the schema default', () => {
+    expect(componentVersion({ meta: { version: '2.1.0' } })).toBe('2.1.0');
+    expect(componentVersion({})).toBe('1.0.0');
+  });
+
+  test('built registries sign the version installs verify', async () => {
+    const fs = require('fs');
+    const os = require('os');
+    const { buildRegistry } = require('../packages/cli-core/src/registry/registry-builder');
+
+    const source = fs.mkdtempSync(path.join(os.tmpdir(), 'rui-registry-'));
+    try {
+      fs.writeFileSync(path.join(source, 'package.json'), '{}');
+      fs.writeFileSync(path.join(source, 'button.tsx'), 'export function Button() {}\n');
+      fs.writeFileSync(path.join(source, 'card.tsx'), 'export function Card() {}\n');
+      fs.writeFileSync(path.join(source, 'card.registry.json'), JSON.stringify({ meta: { version: '3.1.0' } }));
+
+      const result = await buildRegistry({ source, version: '2.0.0', packageJson: path.join(source, 'package.json'), signingKey });
+      expect(result.problems).toEqual([]);
+      expect(result.components.map(component => componentVersion(component))).toEqual(['2.0.0', '3.1.0']);
+      for (const component of result.components) {
+        const { problems } = verifyIntegrity(component.name, componentVersion(component), component.files, component.integrity, trusted);
+        expect(problems).toEqual([]);
+      }
+    } finally {
+      fs.rmSync(source, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Registry Build', () => {
+  const fs = require('fs');
+  const os = require('os');
+  const { buildRegistry } = require('../packages/cli-core/src/registry/registry-builder');
+
+  async function build(files) {
+    const source = fs.mkdtempSync(path.join(os.tmpdir(), 'rui-registry-'));
+    try {
+      for (const [file, content] of Object.entries(files)) {
+        fs.mkdirSync(path.dirname(path.join(source, file)), { recursive: true });
+        fs.writeFileSync(path.join(source, file), content);
+      }
+      return await buildRegistry({ source, packageJson: path.join(source, 'package.json') });
+    } finally {
+      fs.rmSync(source, { recursive: true, force: true });
+    }
+  }
+
+  test('files, dependencies and registry dependencies are inferred from imports', async () => {
+    const result = await build({
+      'package.json': JSON.stringify({ dependencies: { clsx: '^2.0.0' }, devDependencies: { vitest: '^1.0.0' } }),
+      'button.tsx': "/**\n * A clickable button.\n *\n * Wraps a native button.\n */\nimport clsx from 'clsx';\nimport path from 'node:path';\nimport fs from 'fs';\n",
+      'button.test.tsx': "import { test } from 'vitest';\nimport clsx from 'clsx';\nimport { Button } from './button';\n",
+      'dialog/index.tsx': "import * as Dialog from '@radix-ui/react-dialog/dist';\nimport { Button } from '../button';\nimport { cn } from './utils';\nimport './dialog.css';\n",
+      'dialog/dialog.css': '.dialog {}\n',
+      'dialog/utils.ts': 'export const cn = (...names: string[]) => names.join(" ");\n'
+    });
+    expect(result.problems).toEqual([]);
+
+    const [button, dialog] = result.components;
+    expect(button.description).toBe('A clickable button.');
+    expect(button.files.map(file => [file.path, file.type])).toEqual([['button.test.tsx', 'test'], ['button.tsx', 'component']]);
+    expect(button.dependencies).toEqual({ clsx: '^2.0.0' });
+    expect(button.devDependencies).toEqual({ vitest: '^1.0.0' });
+    expect(button.registryDependencies).toEqual([]);
+
+    expect(dialog.description).toBe('dialog component');
+    expect(dialog.files.map(file => [file.path, file.type])).toEqual([
+      ['dialog/dialog.css', 'style'],
+      ['dialog/index.tsx', 'component'],
+      ['dialog/utils.ts', 'utils']
+    ]);
+    expect(dialog.dependencies).toEqual({ '@radix-ui/react-dialog': 'latest' });
+    expect(dialog.registryDependencies).toEqual(['button']);
+
+    expect(result.index.components.map(component => [component.name, component.dependencies, component.registryDependencies])).toEqual([
+      ['button', ['clsx'], []],
+      ['dialog', ['@radix-ui/react-dialog'], ['button']]
+    ]);
+  });
+
+  test('the main file is found for names with pattern characters', async () => {
+    const result = await build({
+      'package.json': '{}',
+      'c++/c++.tsx': '/** Highlights C++. */\nexport function Cpp() {}\n',
+      'a.b/a-b.tsx': '/** Not the main file. */\nexport const helper = 1;\n',
+      'a.b/a.b.tsx': '/** The main file. */\nexport function AB() {}\n'
+    });
+    expect(result.problems).toEqual([]);
+    expect(result.components.map(component => component.description)).toEqual(['The main file.', 'Highlights C++.']);
+  });
+
+  test('metadata files override what is inferred and unknown components are reported', async () => {
+    const result = await build({
+      'package.json': '{}',
+      'card.tsx': 'export function Card() {}\n',
+      'card.registry.json': JSON.stringify({ description: 'A card.', registryDependencies: ['badge', '@acme/avatar'] })
+    });
+    expect(result.components[0].description).toBe('A card.');
+    // Scoped dependencies live on other registries, so only `badge` is missing
+    expect(result.problems.length).toBe(1);
+    expect(result.problems[0]).toContain('card: registryDependencies has "badge", which is not in ');
+  });
+});
+
+describe('Static Registries', () => {
+  const fs = require('fs');
+  const os = require('os');
+  const http = require('http');
+  const { readRegistryFile } = require('../packages/cli-core/src/registry/static-registry');
+  const { RegistryCache } = require('../packages/cli-core/src/registry/registry-cache');
+
+  test('cached files are revalidated with their ETag and used when the registry is unreachable', async () => {
+    const files = { 'index.json': { etag: '"v1"', body: { version: '1' } } };
+    const requests = [];
+    const server = http.createServer((request, response) => {
+      const file = files[request.url.slice(1)];
+      requests.push([request.url, request.headers['if-none-match']]);
+      if (!file) {
+        response.writeHead(500).end();
+      } else if (request.headers['if-none-match'] === file.etag) {
+        response.writeHead(304).end();
+      } else {
+        response.writeHead(200, { 'Content-Type': 'application/json', ETag: file.etag }).end(JSON.stringify(file.body));
+      }
+    });
+    await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${server.address().port}`;
+
+    const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rui-cache-'));
+    const cache = new RegistryCache({ baseDir });
+    const read = (file = 'index.json', options = { cache }) => readRegistryFile(url, file, options);
+    try {
+      expect(await read()).toEqual({ version: '1' });
+      expect(await read()).toEqual({ version: '1' });
+      expect(requests).toEqual([['/index.json', undefined], ['/index.json', '"v1"']]);
+
+      files['index.json'] = { etag: '"v2"', body: { version: '2' } };
+      expect(await read()).toEqual({ version: '2' });
+      expect(await read()).toEqual({ version: '2' });
+      expect(requests.slice(2)).toEqual([['/index.json', '"v1"'], ['/index.json', '"v2"']]);
+
+      // A registry that answers with an error is not offline
+      await cache.set(`registry:${url}/broken.json`, { stale: true }, { etag: '"old"' });
+      let error;
+      await read('broken.json').catch(caught => error = caught);
+      expect(error.code).toBe('API_ERROR');
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    try {
+      expect(await read()).toEqual({ version: '2' });
+
+      let error;
+      await read('index.json', {}).catch(caught => error = caught);
+      expect(error.code).toBe('NETWORK_ERROR');
+    } finally {
+      fs.rmSync(baseDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Named Registries', () => {
+  const {
+    parseComponentName,
+    qualifiedName,
+    resolveRegistries,
+    registryFor,
+    findComponent
+  } = require('../packages/cli-core/src/registry/named-registries');
+
+  const index = (...names) => ({ components: names.map(name => ({ name })) });
+  const thrown = fn => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the function to throw');
+  };
+
+  test('scoped names are split into registry and component', () => {
+    expect(parseComponentName('@acme/data-table')).toEqual({ registry: '@acme', name: 'data-table' });
+    expect(parseComponentName('@acme/forms/input')).toEqual({ registry: '@acme', name: 'forms/input' });
+    expect(parseComponentName('button')).toEqual({ name: 'button' });
+    expect(parseComponentName('@/button')).toEqual({ name: '@/button' });
+  });
+
+  test('qualified names leave default registry components unscoped', () => {
+    expect(qualifiedName('default', 'button')).toBe('button');
+    expect(qualifiedName('@acme', 'button')).toBe('@acme/button');
+  });
+
+  test('registries resolve by priority, then as configured', () => {
+    const registries = resolveRegistries('https://ui.example.com', {
+      '@acme': 'https://acme.example.com',
+      '@beta': { url: 'https://beta.example.com', priority: 5 },
+      '@gamma': { url: 'https://gamma.example.com', priority: -1 }
+    });
+    expect(registries.map(registry => registry.name)).toEqual(['@beta', 'default', '@acme', '@gamma']);
+  });
+
+  test('registry names must be scopes', () => {
+    const error = thrown(() => resolveRegistries('https://ui.example.com', { acme: 'https://acme.example.com' }));
+    expect(error.details).toContain('Registry names are scopes like "@acme", not "acme"');
+  });
+
+  test('registry urls and headers expand environment variables', () => {
+    process.env.RUI_TEST_TOKEN = 'secret';
+    try {
+      const [, acme] = resolveRegistries('https://ui.example.com', {
+        '@acme': { url: 'https://acme.example.com', headers: { Authorization: 'Bearer ${RUI_TEST_TOKEN}' } }
+      });
+      expect(acme.headers.Authorization).toBe('Bearer secret');
+    } finally {
+      delete process.env.RUI_TEST_TOKEN;
+    }
+    const error = thrown(() => resolveRegistries('https://${RUI_TEST_UNSET}.example.com'));
+    expect(error.details).toContain('${RUI_TEST_UNSET}, which is not set');
+  });
+
+  test('scoped names go to their registry, and unknown scopes are refused', () => {
+    const registries = resolveRegistries('https://ui.example.com', { '@acme': 'https://acme.example.com' });
+    expect(registryFor('@acme/button', registries).url).toBe('https://acme.example.com');
+    expect(registryFor('button', registries).name).toBe('default');
+    expect(() => registryFor('@other/button', registries)).toThrow('Unknown registry: @other');
+  });
+
+  test('unscoped names resolve to the first registry listing them', () => {
+    const registries = resolveRegistries('https://ui.example.com', {
+      '@acme': { url: 'https://acme.example.com', priority: 1 }
+    });
+    const indexes = new Map([
+      ['default', index('button', 'card')],
+      ['@acme', index('button', 'chart')]
+    ]);
+    expect(findComponent('button', registries, indexes).registry.name).toBe('@acme');
+    expect(findComponent('card', registries, indexes).registry.name).toBe('default');
+    expect(findComponent('missing', registries, indexes)).toBe(undefined);
+  });
+
+  test('dependencies prefer the registry that named them', () => {
+    const registries = resolveRegistries('https://ui.example.com', {
+      '@acme': { url: 'https://acme.example.com', priority: 1 }
+    });
+    const indexes = new Map([
+      ['default', index('button')],
+      ['@acme', index('button')]
+    ]);
+    const from = registries.find(registry => registry.name === 'default');
+    expect(findComponent('button', registries, indexes, from).registry.name).toBe('default');
+  });
+
+  test('a registry that cannot be read is skipped with a warning', async () => {
+    const fs = require('fs');
+    const os = require('os');
+    const { pathToFileURL } = require('url');
+    const { fetchRegistryIndexes } = require('../packages/cli-core/src/registry/named-registries');
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rui-registry-'));
+    const warnings = [];
+    const warn = console.warn;
+    console.warn = (...args) => warnings.push(args.join(' '));
+    try {
+      fs.writeFileSync(path.join(directory, 'index.json'), JSON.stringify({ version: '1.0.0', components: [] }));
+      const registries = resolveRegistries(pathToFileURL(directory).href, {
+        '@gone': { url: pathToFileURL(path.join(directory, 'gone')).href }
+      });
+      const indexes = await fetchRegistryIndexes(registries);
+      expect([...indexes.keys()]).toEqual(['default']);
+      expect(warnings.length).toBe(1);
+      expect(warnings[0]).toContain('Skipped registry @gone');
+    } finally {
+      console.warn = warn;
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -8,31 +8,42 @@
 console.log('🏭 Revolutionary UI Factory System - Test Runner');
 console.log('================================================\n');
 
-// Simple test framework
+// Simple test framework; tests are queued and run in order once every file
+// has loaded, so a test may return a promise
 let totalTests = 0;
 let passedTests = 0;
 let failedTests = 0;
-let currentDescribe = '';
+const queue = [];
 
 global.describe = (name, fn) => {
-  currentDescribe = name;
-  console.log(`\n📋 ${name}`);
+  queue.push({ describe: name });
   fn();
 };
 
 global.test = (name, fn) => {
-  totalTests++;
-  try {
-    fn();
-    passedTests++;
-    console.log(`  ✅ ${name}`);
-  } catch (error) {
-    failedTests++;
-    console.log(`  ❌ ${name}`);
-    console.log(`     Error: ${error.message}`);
-  }
+  queue.push({ name, fn });
 };
 
+async function runQueue() {
+  for (const entry of queue) {
+    if (entry.describe) {
+      console.log(`\n📋 ${entry.describe}`);
+      continue;
+    }
+
+    totalTests++;
+    try {
+      await entry.fn();
+      passedTests++;
+      console.log(`  ✅ ${entry.name}`);
+    } catch (error) {
+      failedTests++;
+      console.log(`  ❌ ${entry.name}`);
+      console.log(`     Error: ${error.message}`);
+    }
+  }
+}
+
 global.expect = (actual) => ({
   toBe: (expected) => {
     if (actual !== expected) {
@@ -58,29 +69,57 @@ global.expect = (actual) => ({
     if (!actual.includes(value)) {
       throw new Error(`Expected ${actual} to contain ${value}`);
     }
+  },
+  toEqual: (expected) => {
+    if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+      throw new Error(`Expected ${JSON.stringify(expected)} but got ${JSON.stringify(actual)}`);
+    }
+  },
+  toThrow: (message) => {
+    try {
+      actual();
+    } catch (error) {
+      if (message && !error.message.includes(message)) {
+        throw new Error(`Expected an error containing "${message}" but got "${error.message}"`);
+      }
+      return;
+    }
+    throw new Error('Expected the function to throw');
+  },
+  not: {
+    toContain: (value) => {
+      if (actual.includes(value)) {
+        throw new Error(`Expected ${actual} not to contain ${value}`);
+      }
+    }
   }
 });
 
 // Run tests
 try {
   require('./core.test.js');
+  require('./transpiler.test.js');
+  require('./registry.test.js');
+  require('./visual-builder.test.js');
 } catch (error) {
   console.error('Failed to load tests:', error);
 }
 
-// Summary
-console.log('\n' + '='.repeat(50));
-console.log('📊 Test Summary:');
-console.log(`   Total Tests: ${totalTests}`);
-console.log(`   ✅ Passed: ${passedTests}`);
-console.log(`   ❌ Failed: ${failedTests}`);
-console.log(`   Success Rate: ${((passedTests / totalTests) * 100).toFixed(1)}%`);
-console.log('='.repeat(50));
+runQueue().then(() => {
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 Test Summary:');
+  console.log(`   Total Tests: ${totalTests}`);
+  console.log(`   ✅ Passed: ${passedTests}`);
+  console.log(`   ❌ Failed: ${failedTests}`);
+  console.log(`   Success Rate: ${((passedTests / totalTests) * 100).toFixed(1)}%`);
+  console.log('='.repeat(50));
 
-if (failedTests === 0) {
-  console.log('\n🎉 All tests passed! The Revolutionary UI Factory System is working correctly!');
-  process.exit(0);
-} else {
-  console.log('\n⚠️  Some tests failed. Please fix the issues before publishing.');
-  process.exit(1);
-}
\ No newline at end of file
+  if (failedTests === 0) {
+    console.log('\n🎉 All tests passed! The Revolutionary UI Factory System is working correctly!');
+    process.exit(0);
+  } else {
+    console.log('\n⚠️  Some tests failed. Please fix the issues before publishing.');
+    process.exit(1);
+  }
+});
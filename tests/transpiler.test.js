@@ -0,0 +1,481 @@
+/**
+ * Transpiler Tests
+ * Round trips through the conformance harness and the output of single hops
+ */
+
+require('tsx/cjs');
+
+const { FrameworkTranspiler } = require('../src/transpiler/FrameworkTranspiler');
+const { formatFidelityMatrix, runConformance } = require('../src/transpiler/conformance/harness');
+const { CONFORMANCE_CORPUS } = require('../src/transpiler/conformance/corpus');
+const { decodeMappings } = require('../src/transpiler/sourcemap');
+
+const transpiler = new FrameworkTranspiler();
+
+function corpus(...names) {
+  return CONFORMANCE_CORPUS.filter(component => names.includes(component.name));
+}
+
+// Parsers log and carry on when a script fails to parse, so a run that
+// printed errors has to fail even when every round trip returned
+async function withoutLoggedErrors(fn) {
+  const logged = [];
+  const error = console.error;
+  console.error = (...args) => logged.push(args.join(' '));
+  try {
+    return await fn();
+  } finally {
+    console.error = error;
+    expect(logged).toEqual([]);
+  }
+}
+
+async function pairResults(source, target, names) {
+  const report = await runConformance(transpiler, corpus(...names));
+  return report.pairs.find(pair => pair.source === source && pair.target === target).results;
+}
+
+describe('React → Vue', () => {
+  test('Card and Clock survive the round trip', async () => {
+    const results = await pairResults('react', 'vue', ['Card', 'Clock']);
+    for (const result of results) {
+      expect(result.error).toBe(undefined);
+      expect(result.fidelity).toBeGreaterThanOrEqual(0.75);
+    }
+  });
+
+  test('Clock keeps its lifecycle effect in onMounted', async () => {
+    const source = corpus('Clock')[0].sources.react;
+    const result = await transpiler.transpile(source, 'react', 'vue', { typescript: true });
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('onMounted(() => {');
+    expect(result.code).not.toContain('() => () =>');
+    expect(result.code).not.toContain('setNow(');
+  });
+
+  test('React event types become the DOM events handlers receive', async () => {
+    const signup = await transpiler.transpile(corpus('SignupForm')[0].sources.react, 'react', 'vue', { typescript: true });
+    expect(signup.code).toContain('function handleSubmit(event: Event)');
+    expect(signup.code).not.toContain('FormEvent');
+
+    const source = `import React, { ChangeEvent } from 'react';
+
+export function Field({ onValue }: { onValue?: (value: string) => void }) {
+  const handleInput = (event: ChangeEvent<HTMLInputElement>) => onValue?.(event.target.value);
+  const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => event.stopPropagation();
+  return <div><input onChange={handleInput} /><button onClick={handleClick}>Clear</button></div>;
+}`;
+    const result = await transpiler.transpile(source, 'react', 'vue', { typescript: true });
+    expect(result.code).toContain('function handleInput(event: Event & {\n  target: HTMLInputElement;\n})');
+    expect(result.code).toContain('function handleClick(event: MouseEvent)');
+  });
+});
+
+describe('React hooks → Vue', () => {
+  const source = `import { useState, useMemo, useContext, useReducer, useRef, useCallback } from 'react';
+import { ThemeContext } from './theme';
+import { useFetch } from './hooks';
+
+export function Totals({ items }: { items: number[] }) {
+  const [count, setCount] = useState(0);
+  const total = useMemo(() => items.reduce((a, b) => a + b, 0), [items]);
+  const theme = useContext(ThemeContext);
+  const [state, dispatch] = useReducer(reducer, { n: 0 });
+  const input = useRef<HTMLInputElement>(null);
+  const increment = useCallback(() => setCount(count + 1), [count]);
+  const { data } = useFetch('/api');
+
+  return <div className={theme}><input ref={input} /><button onClick={increment}>{total} {state.n} {data}</button></div>;
+}`;
+
+  test('every hook has a Composition API counterpart', async () => {
+    const result = await transpiler.transpile(source, 'react', 'vue', { typescript: true });
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('const total = computed(() => props.items.reduce');
+    expect(result.code).toContain('const theme = inject(ThemeContext);');
+    expect(result.code).toContain('state.value = reducer(state.value, action);');
+    expect(result.code).toContain('const input = ref<HTMLInputElement | null>(null);');
+    expect(result.code).toContain('function increment() {');
+    expect(result.code).toContain("const { data } = useFetch('/api');");
+  });
+
+  test('context and custom hooks are reported', async () => {
+    const result = await transpiler.transpile(source, 'react', 'vue', { typescript: true });
+    expect(result.warnings.some(warning => warning.includes('ThemeContext'))).toBe(true);
+    expect(result.warnings.some(warning => warning.startsWith('useFetch()'))).toBe(true);
+  });
+});
+
+describe('React → Vue prop types', () => {
+  test('generic props stay generic in defineProps', async () => {
+    const source = `import type { User } from './types';
+
+export interface UserCardProps<T extends User> {
+  user: T;
+  size?: 'sm' | 'md' | 'lg';
+}
+
+export function UserCard<T extends User>({ user, size = 'md' }: UserCardProps<T>) {
+  return <div className={size}>{user.name}</div>;
+}`;
+    const result = await transpiler.transpile(source, 'react', 'vue', { typescript: true });
+    expect(result.code).toContain('<script setup lang="ts" generic="T extends User">');
+    expect(result.code).toContain('withDefaults(defineProps<UserCardProps<T>>(), {');
+    expect(result.code).not.toContain('PropType');
+  });
+});
+
+describe('Vue → React', () => {
+  test('Card survives the round trip', async () => {
+    const [result] = await pairResults('vue', 'react', ['Card']);
+    expect(result.error).toBe(undefined);
+    expect(result.fidelity).toBeGreaterThanOrEqual(0.8);
+  });
+
+  test('entity-encoded directives decode before their expressions are parsed', async () => {
+    const [result] = await pairResults('vue', 'react', ['SignupForm']);
+    expect(result.error).toBe(undefined);
+
+    const source = `<template>
+  <p v-if="touched &amp;&amp; error" :title="&quot;Error: &quot; + error">{{ error }}</p>
+</template>
+
+<script setup lang="ts">
+defineProps<{ touched: boolean; error: string }>();
+</script>`;
+    const react = await transpiler.transpile(source, 'vue', 'react', { typescript: true });
+    expect(react.success).toBe(true);
+    expect(react.code).toContain('touched && error');
+    expect(react.code).toContain('title={"Error: " + error}');
+  });
+
+  test('a children prop beside a default slot is destructured once', async () => {
+    const source = `<template>
+  <section class="card">
+    <header><slot name="header"><h3>{{ title }}</h3></slot></header>
+    <slot>{{ children }}</slot>
+  </section>
+</template>
+
+<script setup lang="ts">
+defineProps<{ title: string; children?: string }>();
+</script>`;
+    const result = await transpiler.transpile(source, 'vue', 'react', { typescript: true });
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('function Component({ title, children, header }: ComponentProps)');
+    expect(result.warnings).toContain('The default slot is passed as the children prop, which the component already declares');
+
+    const metadata = await transpiler.extractComponentMetadata(result.code, 'react');
+    expect(Boolean(metadata.ir)).toBe(true);
+  });
+});
+
+describe('React state setters', () => {
+  // The generated increment handler's body, run against stand-ins for the target's state and events
+  const incrementBody = code => code.match(/increment\(\) \{\n([\s\S]*?)\n\s*\}\n/)[1];
+
+  test('Counter reports the value it set, not one step past it', async () => {
+    const [counter] = corpus('Counter');
+    const transpile = target => transpiler.transpile(counter.sources.react, 'react', target, { typescript: true });
+
+    const vue = await transpile('vue');
+    const vueEvents = [];
+    const count = { value: 0 };
+    new Function('count', 'props', 'emit', incrementBody(vue.code))(count, { step: 2 }, (...event) => vueEvents.push(event));
+    expect(count.value).toBe(2);
+    expect(vueEvents).toEqual([['change', 2]]);
+
+    const svelte = await transpile('svelte');
+    const svelteEvents = [];
+    new Function('step', 'onChange', `let count = 0;\n${incrementBody(svelte.code)}`)(2, value => svelteEvents.push(value));
+    expect(svelteEvents).toEqual([2]);
+
+    const angular = await transpile('angular');
+    const component = { count: 0, step: 2, change: { emit: value => component.emitted = value } };
+    new Function(incrementBody(angular.code)).call(component);
+    expect(component.count).toBe(2);
+    expect(component.emitted).toBe(2);
+  });
+
+  test('Solid and Lit handlers report the value they set', async () => {
+    const [counter] = corpus('Counter');
+    const handlerBody = code => code.match(/increment = \(\) => \{\n([\s\S]*?)\n\s*\};/)[1];
+
+    const solid = await transpiler.transpile(counter.sources.react, 'react', 'solid', { typescript: true });
+    let value = 0;
+    const solidEvents = [];
+    new Function('count', 'setCount', 'props', handlerBody(solid.code))(
+      () => value,
+      next => { value = next; },
+      { step: 2, onChange: next => solidEvents.push(next) }
+    );
+    expect(value).toBe(2);
+    expect(solidEvents).toEqual([2]);
+
+    const lit = await transpiler.transpile(counter.sources.react, 'react', 'lit', { typescript: true });
+    const element = { count: 0, step: 2, dispatchEvent: event => element.detail = event.detail };
+    new Function(handlerBody(lit.code)).call(element);
+    expect(element.count).toBe(2);
+    expect(element.detail).toBe(2);
+  });
+
+  test('a handler declared as a function keeps its snapshot to itself', async () => {
+    const source = `import { useState } from 'react';
+
+export function Counter({ step = 1, onChange }: { step?: number; onChange?: (value: number) => void }) {
+  const [count, setCount] = useState(0);
+
+  function increment() {
+    setCount(count + step);
+    onChange?.(count + step);
+  }
+
+  return <button onClick={increment}>{count}</button>;
+}`;
+    const solid = await transpiler.transpile(source, 'react', 'solid', { typescript: true });
+    expect(solid.code).toContain('<button onClick={increment}>{count()}</button>');
+    expect(solid.code.match(/const previousCount/g).length).toBe(1);
+  });
+});
+
+describe('Solid, Preact and Lit targets', () => {
+  const [counter] = corpus('Counter');
+  const transpile = target => transpiler.transpile(counter.sources.react, 'react', target, { typescript: true });
+
+  test('Counter and SignupForm survive the round trip through Solid and Preact', async () => {
+    const report = await runConformance(transpiler, corpus('Counter', 'SignupForm'));
+    for (const target of ['solid', 'preact']) {
+      const { results } = report.pairs.find(pair => pair.source === 'react' && pair.target === target);
+      for (const result of results) {
+        expect(result.error).toBe(undefined);
+        expect(result.fidelity).toBeGreaterThanOrEqual(0.8);
+      }
+    }
+  });
+
+  test('Solid reads props and signals through accessors', async () => {
+    const solid = await transpile('solid');
+    expect(solid.code).toContain('import { createSignal, mergeProps } from "solid-js"');
+    expect(solid.code).toContain('const [count, setCount] = createSignal(props.initial)');
+    expect(solid.code).toContain('<span>{count()}</span>');
+    expect(solid.code).toContain('class="counter"');
+    expect(solid.code).not.toContain('className');
+  });
+
+  test('Preact imports hooks from preact/compat', async () => {
+    const preact = await transpile('preact');
+    expect(preact.code).toContain('import { useState } from "preact/compat"');
+    expect(preact.code).not.toContain('from "react"');
+  });
+
+  test('Lit registers a custom element with reactive properties', async () => {
+    const lit = await transpile('lit');
+    expect(lit.code).toContain("@customElement('x-counter')");
+    expect(lit.code).toContain('@property({ type: Number }) step: number = 1;');
+    expect(lit.code).toContain('@state() private count = this.initial;');
+    expect(lit.code).toContain('<button @click=${this.increment}>+</button>');
+    expect(lit.code).toContain("'x-counter': Counter;");
+  });
+});
+
+describe('Multi-hop routes', () => {
+  test('Vue reaches Solid through React', async () => {
+    const [counter] = corpus('Counter');
+    const result = await transpiler.transpile(counter.sources.vue, 'vue', 'solid', { typescript: true });
+    expect(result.success).toBe(true);
+    expect(result.path).toEqual(['vue', 'react', 'solid']);
+    expect(result.hops.map(hop => [hop.source, hop.target, hop.fidelity])).toEqual([['vue', 'react', 0.8], ['react', 'solid', 0.85]]);
+    expect(result.fidelity).toBe(0.8 * 0.85);
+    expect(result.code).toContain('createSignal');
+  });
+
+  test('the route with the best combined fidelity wins over longer ones', async () => {
+    // Solid → React → Svelte → Vue is also registered, but loses a hop's worth of fidelity
+    const result = await transpiler.transpile(corpus('Counter')[0].sources.solid, 'solid', 'vue', { typescript: true });
+    expect(result.path).toEqual(['solid', 'react', 'vue']);
+    expect(result.fidelity).toBe(0.85 * 0.85);
+  });
+
+  test('warnings are labelled with the hop that raised them', async () => {
+    const source = `<template>
+  <section><slot>{{ children }}</slot></section>
+</template>
+
+<script setup lang="ts">
+defineProps<{ children?: string }>();
+</script>`;
+    const result = await transpiler.transpile(source, 'vue', 'solid', { typescript: true });
+    expect(result.warnings).toContain('[vue → react] The default slot is passed as the children prop, which the component already declares');
+  });
+
+  test('nothing routes out of Lit', async () => {
+    expect(transpiler.hasRoute('lit', 'react')).toBe(false);
+    const result = await transpiler.transpile('', 'lit', 'react');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('No transpiler available for lit to react');
+  });
+});
+
+describe('Source maps', () => {
+  // Source text at the first position mapped from the generated line containing `needle`
+  function mappedSource(result, source, needle) {
+    const map = JSON.parse(result.sourceMap);
+    const line = result.code.split('\n').findIndex(text => text.includes(needle));
+    const [, sourceLine, sourceColumn] = decodeMappings(map.mappings)[line][0];
+    return source.split('\n')[sourceLine].slice(sourceColumn);
+  }
+
+  test('React → Vue lines map back to the JSX and hooks they came from', async () => {
+    const source = corpus('Counter')[0].sources.react;
+    const result = await transpiler.transpile(source, 'react', 'vue', { typescript: true, generateSourceMap: true });
+    const map = JSON.parse(result.sourceMap);
+    expect(map.version).toBe(3);
+    expect(map.file).toBe('Counter.vue');
+    expect(map.sources).toEqual(['Counter.tsx']);
+    expect(map.sourcesContent).toEqual([source]);
+    expect(result.code).not.toContain('@map:');
+
+    expect(mappedSource(result, source, '<span>{{ count }}</span>')).toBe('<span>{count}</span>');
+    expect(mappedSource(result, source, '@click="increment"')).toContain('<button onClick={increment}>');
+    expect(mappedSource(result, source, 'const count = ref(')).toContain('[count, setCount] = useState(initial)');
+    expect(mappedSource(result, source, 'function increment()')).toContain('increment = () => {');
+  });
+
+  test('maps compose across the hops of a route', async () => {
+    const source = corpus('Counter')[0].sources.vue;
+    const result = await transpiler.transpile(source, 'vue', 'solid', { typescript: true, generateSourceMap: true });
+    expect(result.path).toEqual(['vue', 'react', 'solid']);
+    expect(result.code).not.toContain('@map:');
+    expect(mappedSource(result, source, '<span>{count()}</span>')).toBe('<span>{{ count }}</span>');
+    expect(mappedSource(result, source, 'function increment()')).toBe('function increment() {');
+  });
+});
+
+describe('Project migration', () => {
+  const fs = require('fs');
+  const os = require('os');
+  const path = require('path');
+  const { ProjectMigrator } = require('../src/transpiler/ProjectMigrator');
+
+  // A small React project migrated to Vue in a temporary directory
+  async function withProject(fn) {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rui-migrate-'));
+    const sourceDir = path.join(dir, 'src');
+    const write = (file, content) => {
+      fs.mkdirSync(path.dirname(path.join(sourceDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(sourceDir, file), content);
+    };
+    write('components/Counter.tsx', corpus('Counter')[0].sources.react);
+    write('App.tsx', `import { Counter } from './components/Counter';\n\nexport default function App() {\n  return <Counter step={2} />;\n}\n`);
+    write('index.ts', `export { Counter } from './components/Counter';\nexport { default as App } from './App';\n`);
+    write('useTitle.ts', `import { useEffect } from 'react';\n\nexport function useTitle(title: string) {\n  useEffect(() => { document.title = title; }, [title]);\n}\n`);
+    write('logo.svg', '<svg/>');
+
+    const options = { sourceDir, outDir: path.join(dir, 'out'), sourceFramework: 'react', targetFramework: 'vue' };
+    const migrate = (extra = {}) => new ProjectMigrator({ ...options, ...extra }).migrate();
+    try {
+      await fn({ migrate, write, read: file => fs.readFileSync(path.join(options.outDir, file), 'utf8') });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  test('components are renamed for the target and imports follow them', async () => {
+    await withProject(async ({ migrate, read }) => {
+      const report = await migrate();
+      expect(report.files.map(file => [file.source, file.output, file.status])).toEqual([
+        ['App.tsx', 'App.vue', 'migrated'],
+        ['components/Counter.tsx', 'components/Counter.vue', 'migrated'],
+        ['index.ts', 'index.ts', 'copied'],
+        ['logo.svg', 'logo.svg', 'copied'],
+        ['useTitle.ts', 'useTitle.ts', 'copied']
+      ]);
+      expect(read('App.vue')).toContain("import Counter from './components/Counter.vue';");
+      expect(read('index.ts')).toBe(
+        "export { default as Counter } from './components/Counter.vue';\nexport { default as App } from './App.vue';\n"
+      );
+      expect(report.files.find(file => file.source === 'useTitle.ts').warnings).toEqual(['Imports react; port it to vue by hand']);
+      expect(read('MIGRATION-REPORT.md')).toContain('### useTitle.ts → useTitle.ts');
+    });
+  });
+
+  test('a resumed run skips finished files and redoes changed ones', async () => {
+    await withProject(async ({ migrate, write }) => {
+      await migrate();
+      expect((await migrate({ resume: true })).resumed).toBe(5);
+
+      write('logo.svg', '<svg viewBox="0 0 1 1"/>');
+      expect((await migrate({ resume: true })).resumed).toBe(4);
+
+      let error;
+      await migrate({ resume: true, targetFramework: 'svelte' }).catch(caught => error = caught);
+      expect(error.message).toContain('holds a react to vue migration');
+    });
+  });
+});
+
+describe('Vue and Svelte → Angular', () => {
+  test('Counter and SignupForm survive the round trip', async () => {
+    const report = await withoutLoggedErrors(() => runConformance(transpiler, corpus('Counter', 'SignupForm')));
+    for (const source of ['vue', 'svelte']) {
+      const { results } = report.pairs.find(pair => pair.source === source && pair.target === 'angular');
+      expect(results.map(result => result.component)).toEqual(['Counter', 'SignupForm']);
+      for (const result of results) {
+        expect(result.error).toBe(undefined);
+        expect(result.fidelity).toBe(1);
+      }
+    }
+  });
+
+  test('an unnamed component does not shadow the Component decorator', async () => {
+    const [counter] = corpus('Counter');
+    for (const source of ['vue', 'svelte']) {
+      const result = await transpiler.transpile(counter.sources[source], source, 'angular', { typescript: true });
+      expect(result.code).toContain("import { Component");
+      expect(result.code).toContain('export class AppComponent');
+      expect(result.code).not.toContain('export class Component ');
+    }
+  });
+});
+
+describe('Styling translation', () => {
+  const source = `import clsx from 'clsx';
+import classNames from 'classnames';
+
+export default function Label({ size, active, width }: { size: number; active: boolean; width?: number | string }) {
+  return (
+    <p className={clsx('label', active && 'on')} style={{ fontSize: 20, lineHeight: 1.5, margin: size * 2, width }}>
+      <span className={classNames({ big: active })}>Hi</span>
+    </p>
+  );
+}`;
+
+  test('drops class helper imports once every call is translated', async () => {
+    for (const target of ['vue', 'angular']) {
+      const result = await transpiler.transpile(source, 'react', target, { typescript: true, styling: 'translate' });
+      expect(result.code).not.toContain('clsx');
+      expect(result.code).not.toContain('classnames');
+    }
+  });
+
+  test('numeric styles get the px React adds', async () => {
+    const vue = await transpiler.transpile(source, 'react', 'vue', { typescript: true, styling: 'translate' });
+    expect(vue.code).toContain(":style=\"{ fontSize: '20px', lineHeight: 1.5, margin: size * 2 + 'px', width: typeof width === 'number' ? width + 'px' : width }\"");
+
+    const svelte = await transpiler.transpile(source, 'react', 'svelte', { typescript: true, styling: 'translate' });
+    expect(svelte.code).toContain("style:font-size={'20px'}");
+    expect(svelte.code).toContain("style:margin={size * 2 + 'px'}");
+
+    const angular = await transpiler.transpile(source, 'react', 'angular', { typescript: true, styling: 'translate' });
+    expect(angular.code).toContain("'font-size': '20px', 'line-height': 1.5, 'margin': size * 2 + 'px'");
+  });
+});
+
+describe('Fidelity matrix', () => {
+  test('React → Lit is marked one-way', async () => {
+    const report = await runConformance(transpiler, corpus('Counter'));
+    const matrix = formatFidelityMatrix(report);
+    expect(report.pairs.find(pair => pair.target === 'lit').oneWay).toBe(true);
+    expect(matrix).toContain('one-way: lit has no parser');
+  });
+});
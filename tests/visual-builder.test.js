@@ -0,0 +1,200 @@
+/**
+ * Visual Builder Tests
+ * Project files, JSX import, code export and builder state
+ */
+
+require('tsx/cjs');
+
+const { parseProjectJSON, serializeProject } = require('../src/visual-builder/store/project-storage');
+const { importJSX } = require('../src/visual-builder/core/jsx-importer');
+const { ComponentExporter } = require('../src/visual-builder/core/exporter');
+const { builderReducer, initialBuilderState } = require('../src/visual-builder/store/builder-reducer');
+const { BuilderActionType } = require('../src/visual-builder/core/types');
+
+const node = (id, type, props = {}, children = []) => ({ id, type, props, children });
+
+describe('Project Files', () => {
+  const project = {
+    components: [node('root', 'container', {}, [node('title', 'text', { text: '{count}' })])],
+    variables: [{ name: 'count', type: 'number', initialValue: 0 }],
+    dataSources: [{ name: 'users', kind: 'static', items: [{ name: 'Ada' }] }],
+    symbols: [{ id: 'sym-1', name: 'Badge', master: node('badge', 'badge', { text: 'New' }) }],
+    theme: { colors: { primary: { light: '#2563eb' } }, spacing: {}, radii: {}, fonts: {}, fontSizes: {} }
+  };
+
+  test('round-trips the whole project document', () => {
+    expect(parseProjectJSON(serializeProject(project))).toEqual(project);
+  });
+
+  test('reads a bare array of components as a project of just those', () => {
+    expect(parseProjectJSON(JSON.stringify(project.components))).toEqual({ components: project.components });
+  });
+
+  test('refuses files that are not projects', () => {
+    expect(() => parseProjectJSON('{"components": []}')).toThrow('expected an exported project');
+    expect(() => parseProjectJSON('{"type": "rui-builder/project", "components": [], "variables": {}}')).toThrow('variables must be an array');
+    expect(() => parseProjectJSON('{"type": "rui-builder/project", "components": [], "symbols": [{"master": {}}]}')).toThrow('needs an id, type, props and children');
+  });
+});
+
+describe('JSX Import', () => {
+  test('maps capitalized tags only when imported from the builder', () => {
+    const builder = importJSX(`import { Button } from 'revolutionary-ui';\nexport default () => <Button>Go</Button>;`);
+    expect(builder.components[0].type).toBe('button');
+
+    const custom = importJSX(`import { Icon } from './my-icons';\nexport default () => <Icon name="star" />;`);
+    expect(custom.components[0].type).toBe('raw');
+    expect(custom.components[0].props.attributes).toBe('name="star"');
+    expect(custom.warnings).toEqual(["<Icon> isn't imported from the builder and is kept as a custom element"]);
+  });
+
+  test('merges class and className once', () => {
+    const { components } = importJSX('<section class="p-8" className="p-8 m-2">x</section>');
+    expect(components[0].props.className).toBe('p-8 m-2');
+  });
+
+  test('exports an imported class the styling also emits once', () => {
+    const { components } = importJSX(`<section className="p-8" style={{ padding: '32px' }}>x</section>`);
+    const code = ComponentExporter.exportToCode(components, { framework: 'react', styling: 'tailwind', typescript: true, componentName: 'App' });
+    expect(code).toContain('className="p-8"');
+  });
+});
+
+describe('Code Export', () => {
+  const named = (id, type, name, props, children) => ({ ...node(id, type, props, children), name });
+  const components = [named('root', 'container', 'Container', {}, [
+    named('title', 'heading', 'Heading', { text: 'Hi', level: 1 }),
+    named('body', 'text', 'Text', { text: 'Body' })
+  ])];
+
+  test('omits empty style attributes', () => {
+    for (const framework of ['react', 'vue', 'svelte', 'angular', 'solid']) {
+      for (const styling of ['inline', 'tailwind', 'css']) {
+        const code = ComponentExporter.exportToCode(components, { framework, styling, typescript: true, componentName: 'App' });
+        expect(code).not.toContain('style={{}}');
+        expect(code).not.toContain('style=""');
+      }
+    }
+  });
+});
+
+describe('Responsive Export', () => {
+  const components = [{
+    ...node('root', 'container', { padding: '32px', display: 'flex' }, [{
+      ...node('title', 'heading', { text: 'Hi', level: 1, fontSize: '48px', color: '#111' }),
+      name: 'Heading',
+      responsive: { tablet: { fontSize: '32px' }, mobile: { fontSize: '24px' } }
+    }]),
+    name: 'Container',
+    responsive: { tablet: { padding: '16px' }, mobile: { padding: '8px' } }
+  }];
+  const exportAs = (framework, styling) =>
+    ComponentExporter.exportToCode(components, { framework, styling, typescript: true, componentName: 'App' });
+
+  test('overridden styles move to media rules and the rest stay inline', () => {
+    const react = exportAs('react', 'inline');
+    expect(react).toContain('.heading-title {\n  font-size: 48px;\n}');
+    expect(react).toContain('@media (max-width: 1023px) {\n  .heading-title {\n    font-size: 32px;\n  }\n}');
+    expect(react).toContain('@media (max-width: 767px) {\n  .heading-title {\n    font-size: 24px;\n  }\n}');
+    expect(react).toContain('<style>{responsiveStyles}</style>');
+    expect(react).toContain(`<h1 className="heading-title" style={{color: '#111'}}>Hi</h1>`);
+
+    const vue = exportAs('vue', 'inline');
+    expect(vue).toContain('<style scoped>\n.container-root {\n  padding: 32px;\n}');
+    expect(vue).toContain('<h1 class="heading-title" style="color: #111">Hi</h1>');
+  });
+
+  test('Tailwind classes get the prefix of the breakpoint they start at', () => {
+    expect(exportAs('react', 'tailwind')).toContain('<div className="p-2 flex md:p-4 lg:p-8">');
+    expect(exportAs('vue', 'tailwind')).toContain('<div class="p-2 flex md:p-4 lg:p-8">');
+  });
+});
+
+describe('Symbols', () => {
+  const reduce = (state, ...actions) => actions.reduce(builderReducer, state);
+  const act = (type, payload) => ({ type, payload });
+  const badge = { id: 'sym-badge', name: 'Badge', master: node('badge', 'badge', { text: 'New' }) };
+  const card = { id: 'sym-card', name: 'Card', master: node('card', 'card', {}, [{ ...node('inner', 'symbol'), symbolId: 'sym-badge' }]) };
+  const page = [node('root', 'container', {}, [{ ...node('badge-1', 'symbol'), symbolId: 'sym-badge' }])];
+  const state = { ...initialBuilderState, components: page, symbols: [badge, card] };
+
+  test('roots added to a master are wrapped in a container with its own id', () => {
+    const edited = reduce(state,
+      act(BuilderActionType.EDIT_SYMBOL, { id: 'sym-badge' }),
+      act(BuilderActionType.ADD_COMPONENT, { type: 'text', parentId: null })
+    );
+    const finished = builderReducer(edited, act(BuilderActionType.FINISH_EDITING_SYMBOL));
+    const master = finished.symbols.find(symbol => symbol.id === 'sym-badge').master;
+    expect(master.type).toBe('container');
+    expect(master.children.map(child => child.id)).toContain('badge');
+    expect(master.id === 'badge').toBe(false);
+  });
+
+  test('deleting a symbol while editing another detaches its instances on the page too', () => {
+    const deleted = reduce(state,
+      act(BuilderActionType.EDIT_SYMBOL, { id: 'sym-card' }),
+      act(BuilderActionType.DELETE_SYMBOL, { id: 'sym-badge' })
+    );
+    expect(deleted.components[0].children[0].type).toBe('badge');
+    expect(deleted.editingSymbol.components[0].children[0].type).toBe('badge');
+
+    const finished = builderReducer(deleted, act(BuilderActionType.FINISH_EDITING_SYMBOL));
+    expect(JSON.stringify(finished.components)).not.toContain('sym-badge');
+  });
+
+  test('the last root of a master being edited cannot be deleted', () => {
+    const edited = builderReducer(state, act(BuilderActionType.EDIT_SYMBOL, { id: 'sym-badge' }));
+    expect(builderReducer(edited, act(BuilderActionType.DELETE_COMPONENT, { id: 'badge' }))).toBe(edited);
+    expect(builderReducer(edited, act(BuilderActionType.CLEAR_CANVAS))).toBe(edited);
+    expect(builderReducer(state, act(BuilderActionType.DELETE_COMPONENT, { id: 'root' })).components).toEqual([]);
+  });
+});
+
+describe('Page State', () => {
+  const act = (type, payload) => ({ type, payload });
+  const state = {
+    ...initialBuilderState,
+    variables: [{ name: 'count', type: 'number', initialValue: 0 }, { name: 'open', type: 'boolean', initialValue: false }],
+    dataSources: [{ name: 'users', kind: 'static', items: [{ name: 'Ada' }] }],
+    components: [node('root', 'container', {}, [
+      { ...node('label', 'text', { text: 'Count' }), bindings: { text: '`Count: ${count}`', visible: 'open' } },
+      node('more', 'button', { onClick: { type: 'increment', variable: 'count', value: '1' } }),
+      node('show', 'button', { onClick: { type: 'set', variable: 'open', value: 'count > 0' } }),
+      node('list', 'repeater', { source: 'users', itemName: 'user' })
+    ])]
+  };
+
+  test('deleting a variable removes the bindings and actions that use it', () => {
+    const [root] = builderReducer(state, act(BuilderActionType.DELETE_VARIABLE, { name: 'count' })).components;
+    const [label, more, show] = root.children;
+    expect(label.bindings).toEqual({ visible: 'open' });
+    expect(more.props.onClick).toBe(undefined);
+    expect(show.props.onClick).toBe(undefined);
+    expect(label.props.text).toBe('Count');
+  });
+
+  test('deleting a data source leaves its repeaters without one', () => {
+    const deleted = builderReducer(state, act(BuilderActionType.DELETE_DATA_SOURCE, { name: 'users' }));
+    expect(deleted.dataSources).toEqual([]);
+    expect(deleted.components[0].children[3].props).toEqual({ source: '', itemName: 'user' });
+  });
+});
+
+describe('Moving Components', () => {
+  const state = {
+    ...initialBuilderState,
+    components: [node('a', 'text'), node('b', 'text'), node('c', 'text'), node('d', 'text')]
+  };
+  const move = (ids, newIndex) =>
+    builderReducer(state, { type: BuilderActionType.MOVE_COMPONENTS, payload: { ids, newParentId: null, newIndex } })
+      .components.map(component => component.id);
+
+  test('moving siblings down lands them where they were dropped', () => {
+    expect(move(['a', 'b'], 3)).toEqual(['c', 'a', 'b', 'd']);
+    expect(move(['a', 'c'], 4)).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  test('moving siblings up is unaffected', () => {
+    expect(move(['c', 'd'], 1)).toEqual(['a', 'c', 'd', 'b']);
+  });
+});